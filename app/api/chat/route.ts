@@ -7,16 +7,93 @@ import { z } from "zod";
 import { rateLimit } from "@/lib/rate/limit";
 import { createErrorResponse } from "@/lib/api/middleware";
 import { retrieveContext, createSystemPrompt } from "@/lib/ai/retrieval";
-import { generateResponse, getCurrentModel } from "@/lib/ai/llm";
+import {
+  checkGrounding,
+  generateResponse,
+  generateStreamingResponse,
+  getCurrentModel,
+  type ToolResult,
+} from "@/lib/ai/llm";
+import {
+  boundChatHistory,
+  encodeChatEvent,
+  type ChatStreamSource,
+  type ChatToolUse,
+} from "@/lib/ai/conversation";
+import { stripCitations } from "@/lib/ai/citations";
+import { createDashboardTools, describeDashboardTool } from "@/lib/ai/tools";
+
+const ZChatTurn = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string().max(4000),
+});
 
 const ZChatRequest = z.object({
   message: z.string().min(1).max(500),
+  // Earlier messages of the conversation, oldest first; trimmed to the most recent
+  history: z.array(ZChatTurn).max(20).default([]),
+  stream: z.boolean().default(true),
 });
 
+/**
+ * Map generation errors to a user-facing message, status and code
+ */
+function describeChatError(error: unknown): { message: string; status: number; code: string } {
+  if (error instanceof Error) {
+    // API key errors
+    if (
+      error.message.includes("API key") ||
+      error.message.includes("authentication")
+    ) {
+      return {
+        message: "AI service configuration error. Please try again later.",
+        status: 503,
+        code: "API_CONFIG_ERROR",
+      };
+    }
+
+    // Rate limit from provider
+    if (error.message.includes("rate limit")) {
+      return {
+        message: "AI service is busy. Please try again in a moment.",
+        status: 503,
+        code: "PROVIDER_RATE_LIMIT",
+      };
+    }
+  }
+
+  return {
+    message: "Failed to generate response. Please try again.",
+    status: 500,
+    code: "GENERATION_ERROR",
+  };
+}
+
+/**
+ * Dashboard tools an answer used, once each, in call order
+ */
+function toolUses(toolResults: ToolResult[]): ChatToolUse[] {
+  const uses: ChatToolUse[] = [];
+  for (const { toolName } of toolResults) {
+    const tool = describeDashboardTool(toolName);
+    if (tool && !uses.some((use) => use.name === toolName)) {
+      uses.push({ name: toolName, ...tool });
+    }
+  }
+  return uses;
+}
+
 /**
  * Chat endpoint for AI assistant
  * POST /api/chat
- * Body: { message: "user question" }
+ * Body: { message: "user question", history?: [{ role, content }], stream?: boolean }
+ *
+ * Streams NDJSON events (meta, tool, text deltas, grounding, done/error) by default;
+ * `stream: false` returns the full answer as JSON.
+ * Follow-up questions are rewritten with the history before retrieval.
+ * Answers cite the numbered sources as [n]; a grounding check after the
+ * answer flags sentences that no source supports.
+ * The model can call read-only dashboard tools (lib/ai/tools.ts) for live data.
  *
  * Uses openai/gpt-4o-mini via Vercel AI Gateway
  * Rate limited to 10 requests per 12 hours per user
@@ -52,71 +129,121 @@ export async function POST(request: Request) {
       );
     }
 
-    const { message } = validation.data;
+    const { message, stream } = validation.data;
+    // Citations in earlier answers point at chunks of earlier contexts
+    const history = boundChatHistory(
+      validation.data.history.map((turn) => ({ ...turn, content: stripCitations(turn.content) }))
+    );
 
-    console.log(`\n🤖 Chat request: "${message}"`);
+    console.log(`\n🤖 Chat request: "${message}" (${history.length} earlier messages)`);
 
     // Retrieve relevant context using RAG
-    const { context, sources } = await retrieveContext(message, 5);
+    const { context, sources } = await retrieveContext(message, 5, history);
 
     // Generate system prompt
     const systemPrompt = createSystemPrompt();
-
-    // Generate response using Vercel AI SDK
-    const responseText = await generateResponse(systemPrompt, context, message);
+    const tools = createDashboardTools();
 
     // Get model info
     const model = getCurrentModel();
 
-    // Filter sources to only include blog posts with URLs for the response
-    const blogSources = sources
-      .filter((s) => s.type === "blog" && s.url)
-      .map((s) => ({ title: s.title, url: s.url! }));
-
-    // Return response
-    return NextResponse.json({
-      response: responseText,
-      model: {
-        name: model.name,
-        provider: model.provider,
+    // Numbered sources for citations, blog posts and knowledge-base entries (without chunk text)
+    const citedSources: ChatStreamSource[] = sources.map(({ n, type, title, url, section }) => ({
+      n,
+      type,
+      title,
+      url,
+      section,
+    }));
+
+    if (!stream) {
+      // Generate response using Vercel AI SDK
+      const { text: responseText, toolResults } = await generateResponse(
+        systemPrompt,
+        context,
+        message,
+        history,
+        tools
+      );
+      const grounding = await checkGrounding(responseText, sources, toolResults);
+
+      return NextResponse.json({
+        response: responseText,
+        model: {
+          name: model.name,
+          provider: model.provider,
+        },
+        sources: citedSources,
+        tools: toolUses(toolResults),
+        grounding,
+        timestamp: Date.now(),
+      });
+    }
+
+    const result = generateStreamingResponse(systemPrompt, context, message, history, tools);
+
+    const eventStream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        controller.enqueue(
+          encodeChatEvent({
+            type: "meta",
+            model: { name: model.name, provider: model.provider },
+            sources: citedSources,
+          })
+        );
+
+        try {
+          let answer = "";
+          const toolResults: ToolResult[] = [];
+          for await (const part of result.fullStream) {
+            if (part.type === "text-delta" && part.text) {
+              answer += part.text;
+              controller.enqueue(encodeChatEvent({ type: "text", delta: part.text }));
+            } else if (part.type === "tool-result") {
+              const [use] = toolUses([part]);
+              if (use && !toolResults.some((r) => r.toolName === part.toolName)) {
+                controller.enqueue(encodeChatEvent({ type: "tool", ...use }));
+              }
+              toolResults.push({ toolName: part.toolName, output: part.output });
+            } else if (part.type === "error") {
+              throw part.error;
+            }
+          }
+
+          const grounding = await checkGrounding(answer, sources, toolResults);
+          if (grounding) {
+            controller.enqueue(encodeChatEvent({ type: "grounding", ...grounding }));
+          }
+          controller.enqueue(encodeChatEvent({ type: "done", timestamp: Date.now() }));
+        } catch (error) {
+          console.error("Chat stream error:", error);
+          const { message: errorMessage, code } = describeChatError(error);
+          controller.enqueue(encodeChatEvent({ type: "error", error: errorMessage, code }));
+        } finally {
+          controller.close();
+        }
+      },
+    });
+
+    return new Response(eventStream, {
+      headers: {
+        "Content-Type": "application/x-ndjson; charset=utf-8",
+        "Cache-Control": "no-store",
+        // Disable proxy buffering so tokens reach the client as they arrive
+        "X-Accel-Buffering": "no",
       },
-      sources: blogSources,
-      timestamp: Date.now(),
     });
   } catch (error) {
     console.error("Chat API error:", error);
 
-    // Check for specific error types
-    if (error instanceof Error) {
-      // API key errors
-      if (
-        error.message.includes("API key") ||
-        error.message.includes("authentication")
-      ) {
-        return createErrorResponse(
-          "AI service configuration error. Please try again later.",
-          503,
-          process.env.NODE_ENV === "development" ? error.message : undefined,
-          "API_CONFIG_ERROR"
-        );
-      }
-
-      // Rate limit from provider
-      if (error.message.includes("rate limit")) {
-        return createErrorResponse(
-          "AI service is busy. Please try again in a moment.",
-          503,
-          process.env.NODE_ENV === "development" ? error.message : undefined,
-          "PROVIDER_RATE_LIMIT"
-        );
-      }
-    }
-
+    const { message, status, code } = describeChatError(error);
     return createErrorResponse(
-      "Failed to generate response. Please try again.",
-      500,
-      process.env.NODE_ENV === "development" ? error : undefined,
-      "GENERATION_ERROR"
+      message,
+      status,
+      process.env.NODE_ENV === "development"
+        ? error instanceof Error ? error.message : error
+        : undefined,
+      code
     );
   }
 }
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET, POST } from './route';
+
+vi.mock('@/lib/rate/limit', () => ({
+  rateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/auth/secret', () => ({
+  assertSecret: vi.fn(),
+}));
+
+vi.mock('@/lib/db/profile', () => ({
+  getAthleteProfileDB: vi.fn(),
+  upsertAthleteProfileDB: vi.fn(),
+}));
+
+vi.mock('@/lib/db/workouts', () => ({
+  recomputeTrainingLoadDB: vi.fn(),
+}));
+
+vi.mock('@/lib/user/profile', () => ({
+  getAthleteProfile: vi.fn(),
+}));
+
+vi.mock('@/lib/cache/revalidate', () => ({
+  revalidateWorkouts: vi.fn(),
+}));
+
+vi.mock('@/lib/obs/trace', () => ({
+  wrapTrace: <T extends (...args: unknown[]) => unknown>(_name: string, fn: T): T => fn,
+}));
+
+import { rateLimit } from '@/lib/rate/limit';
+import { assertSecret } from '@/lib/auth/secret';
+import { getAthleteProfileDB, upsertAthleteProfileDB } from '@/lib/db/profile';
+import { recomputeTrainingLoadDB } from '@/lib/db/workouts';
+import { getAthleteProfile } from '@/lib/user/profile';
+import { revalidateWorkouts } from '@/lib/cache/revalidate';
+
+const stored = {
+  max_hr: 186,
+  resting_hr: 48,
+  lthr: 168,
+  ftp_w: null,
+  updated_at: '2025-12-01T10:00:00.000Z',
+};
+
+function post(body: unknown) {
+  return POST(
+    new Request('http://localhost:3000/api/habits/athlete', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+describe('/api/habits/athlete', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(rateLimit).mockResolvedValue({ ok: true });
+    vi.mocked(assertSecret).mockImplementation(() => {});
+  });
+
+  it('returns the stored profile with defaults', async () => {
+    vi.mocked(getAthleteProfileDB).mockResolvedValueOnce({ ...stored, sex: 'male' });
+
+    const response = await GET(new Request('http://localhost:3000/api/habits/athlete'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.profile.lthr).toBe(168);
+    expect(data.defaults).toEqual({ max_hr: 190, resting_hr: 60 });
+  });
+
+  it('saves thresholds and revalidates workouts', async () => {
+    vi.mocked(upsertAthleteProfileDB).mockResolvedValueOnce(stored);
+
+    const response = await post({ max_hr: 186, resting_hr: 48, lthr: 168, ftp_w: null });
+
+    expect(response.status).toBe(200);
+    expect(upsertAthleteProfileDB).toHaveBeenCalledWith({ max_hr: 186, resting_hr: 48, lthr: 168, ftp_w: null });
+    expect(revalidateWorkouts).toHaveBeenCalled();
+  });
+
+  it('recomputes the training load of stored workouts with the new thresholds', async () => {
+    const athlete = { max_hr: 186, resting_hr: 48, lthr: 168, ftp_w: null, sex: 'male' };
+    vi.mocked(upsertAthleteProfileDB).mockResolvedValueOnce(stored);
+    vi.mocked(getAthleteProfile).mockResolvedValueOnce(athlete);
+    vi.mocked(recomputeTrainingLoadDB).mockResolvedValueOnce(12);
+
+    const response = await post({ max_hr: 186 });
+    const data = await response.json();
+
+    expect(recomputeTrainingLoadDB).toHaveBeenCalledWith(athlete);
+    expect(data.recomputed).toBe(12);
+  });
+
+  it('rejects resting HR above max HR', async () => {
+    const response = await post({ max_hr: 150, resting_hr: 160 });
+
+    expect(response.status).toBe(400);
+    expect(upsertAthleteProfileDB).not.toHaveBeenCalled();
+  });
+
+  it('maps check violations against stored values to 400', async () => {
+    vi.mocked(upsertAthleteProfileDB).mockRejectedValueOnce(
+      Object.assign(new Error('violates check constraint'), { code: '23514' })
+    );
+
+    const response = await post({ max_hr: 120 });
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,81 @@
+export const runtime = "edge";
+
+import { rateLimit } from "@/lib/rate/limit";
+import { wrapTrace } from "@/lib/obs/trace";
+import { NextResponse } from "next/server";
+import { ZAthleteProfileUpsert } from "@/lib/db/validation";
+import { getAthleteProfileDB, upsertAthleteProfileDB } from "@/lib/db/profile";
+import { recomputeTrainingLoadDB } from "@/lib/db/workouts";
+import { getAthleteProfile } from "@/lib/user/profile";
+import { DEFAULT_ATHLETE_PROFILE } from "@/lib/phys/training-load";
+import { revalidateWorkouts } from "@/lib/cache/revalidate";
+import { assertSecret } from "@/lib/auth/secret";
+import { HTTP_STATUS } from "@/lib/constants/http";
+import { RATE_LIMITS } from "@/lib/rate/config";
+
+const DEFAULTS = {
+  max_hr: DEFAULT_ATHLETE_PROFILE.max_hr,
+  resting_hr: DEFAULT_ATHLETE_PROFILE.resting_hr,
+};
+
+// GET athlete profile (training thresholds) and the defaults used for unset values
+export const GET = wrapTrace("GET /api/habits/athlete", async (req: Request) => {
+  try {
+    assertSecret(req);
+
+    const rl = await rateLimit(req, "get-athlete", RATE_LIMITS.HABITS);
+    if (!rl.ok) {
+      return new Response("Too many requests", {
+        status: HTTP_STATUS.TOO_MANY_REQUESTS,
+        headers: { "Retry-After": String(rl.retryAfterSec) },
+      });
+    }
+
+    const profile = await getAthleteProfileDB();
+    return NextResponse.json({ profile, defaults: DEFAULTS }, { status: HTTP_STATUS.OK });
+  } catch (e: unknown) {
+    const error = e as { status?: number; message?: string };
+    const status = error?.status ?? HTTP_STATUS.INTERNAL_SERVER_ERROR;
+    return NextResponse.json({ message: error?.message ?? "Failed" }, { status });
+  }
+});
+
+// POST update thresholds (omitted fields are kept, null clears a value) and
+// recompute the training load stored with workouts, which ATL/CTL are built from
+export const POST = wrapTrace("POST /api/habits/athlete", async (req: Request) => {
+  try {
+    assertSecret(req);
+
+    const rl = await rateLimit(req, "post-athlete", RATE_LIMITS.HABITS);
+    if (!rl.ok) {
+      return new Response("Too many requests", {
+        status: HTTP_STATUS.TOO_MANY_REQUESTS,
+        headers: { "Retry-After": String(rl.retryAfterSec) },
+      });
+    }
+
+    const result = ZAthleteProfileUpsert.safeParse(await req.json().catch(() => ({})));
+    if (!result.success) {
+      return NextResponse.json(
+        { message: "Validation failed", errors: result.error.flatten() },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      );
+    }
+
+    const profile = await upsertAthleteProfileDB(result.data);
+    const recomputed = await recomputeTrainingLoadDB(await getAthleteProfile());
+    revalidateWorkouts(); // HR zones and TRIMP in workout details depend on the thresholds
+    return NextResponse.json({ ok: true, profile, recomputed }, { status: HTTP_STATUS.OK });
+  } catch (e: unknown) {
+    const error = e as { status?: number; code?: string; message?: string };
+    // A partial update can conflict with stored values (e.g. max HR below resting HR)
+    if (error?.code === "23514") {
+      return NextResponse.json(
+        { message: "Thresholds are inconsistent with the stored profile" },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      );
+    }
+    const status = error?.status ?? HTTP_STATUS.INTERNAL_SERVER_ERROR;
+    return NextResponse.json({ message: error?.message ?? "Failed" }, { status });
+  }
+});
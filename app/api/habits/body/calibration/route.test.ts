@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from './route';
+
+// Mock dependencies
+vi.mock('@/lib/rate/limit', () => ({
+  rateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/auth/secret', () => ({
+  assertSecret: vi.fn(),
+}));
+
+vi.mock('@/lib/cache/revalidate', () => ({
+  revalidateCoffee: vi.fn(),
+  revalidateHabits: vi.fn(),
+}));
+
+vi.mock('@/lib/obs/trace', () => ({
+  wrapTrace: <T extends (...args: unknown[]) => unknown>(_name: string, fn: T): T => fn,
+}));
+
+vi.mock('@/lib/db/calibration', () => ({
+  getHalfLifeCalibrationDB: vi.fn(),
+  acceptHalfLifeCalibrationDB: vi.fn(),
+}));
+
+import { rateLimit } from '@/lib/rate/limit';
+import { revalidateCoffee, revalidateHabits } from '@/lib/cache/revalidate';
+import { getHalfLifeCalibrationDB, acceptHalfLifeCalibrationDB } from '@/lib/db/calibration';
+
+const okCalibration = {
+  status: 'ok' as const,
+  days: 60,
+  n: 42,
+  current: { half_life_hours: 5, caffeine_sensitivity: 1 },
+  half_life_hours: 6.5,
+  half_life_ci95: [5.25, 8] as [number, number],
+  caffeine_sensitivity: null,
+  caffeine_sensitivity_ci95: null,
+  fit: { r_squared: 0.3, p_value: 0.001, slope_per_100mg: -6, intercept: 84 },
+};
+
+function post(body?: unknown) {
+  return new Request('http://localhost:3000/api/habits/body/calibration', {
+    method: 'POST',
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+describe('POST /api/habits/body/calibration', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(rateLimit).mockResolvedValue({ ok: true });
+  });
+
+  it('should return 429 when rate limit exceeded', async () => {
+    vi.mocked(rateLimit).mockResolvedValue({ ok: false, retryAfterSec: 30 });
+
+    const response = await POST(post({}));
+
+    expect(response.status).toBe(429);
+    expect(getHalfLifeCalibrationDB).not.toHaveBeenCalled();
+  });
+
+  it('should recompute the calibration and store it', async () => {
+    vi.mocked(getHalfLifeCalibrationDB).mockResolvedValue(okCalibration);
+    vi.mocked(acceptHalfLifeCalibrationDB).mockResolvedValue({ id: 7, half_life_hours: 6.5 } as never);
+
+    const response = await POST(post({ days: 90, fit_sensitivity: true }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(getHalfLifeCalibrationDB).toHaveBeenCalledWith(90, true);
+    expect(acceptHalfLifeCalibrationDB).toHaveBeenCalledWith(okCalibration);
+    expect(data.profile.half_life_hours).toBe(6.5);
+    expect(revalidateCoffee).toHaveBeenCalled();
+    expect(revalidateHabits).toHaveBeenCalled();
+  });
+
+  it('should default to the last 60 days without a body', async () => {
+    vi.mocked(getHalfLifeCalibrationDB).mockResolvedValue(okCalibration);
+    vi.mocked(acceptHalfLifeCalibrationDB).mockResolvedValue({ id: 7 } as never);
+
+    await POST(post());
+
+    expect(getHalfLifeCalibrationDB).toHaveBeenCalledWith(60, false);
+  });
+
+  it('should return 422 when there is no suggestion', async () => {
+    vi.mocked(getHalfLifeCalibrationDB).mockResolvedValue({
+      ...okCalibration,
+      status: 'insufficient_data',
+      half_life_hours: null,
+      half_life_ci95: null,
+      fit: null,
+    });
+
+    const response = await POST(post({}));
+
+    expect(response.status).toBe(422);
+    expect(acceptHalfLifeCalibrationDB).not.toHaveBeenCalled();
+    expect(revalidateCoffee).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for an out-of-range window', async () => {
+    const response = await POST(post({ days: 3 }));
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,59 @@
+export const runtime = "edge";
+
+import { rateLimit } from "@/lib/rate/limit";
+import { wrapTrace } from "@/lib/obs/trace";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { acceptHalfLifeCalibrationDB, getHalfLifeCalibrationDB } from "@/lib/db/calibration";
+import { revalidateCoffee, revalidateHabits } from "@/lib/cache/revalidate";
+import { assertSecret } from "@/lib/auth/secret";
+import { HTTP_STATUS } from "@/lib/constants/http";
+import { RATE_LIMITS } from "@/lib/rate/config";
+
+const ZCalibrationAccept = z.object({
+  days: z.coerce.number().int().min(14).max(365).default(60),
+  fit_sensitivity: z.boolean().default(false),
+});
+
+// POST accept the half-life calibration as a new body profile row.
+// The fit is recomputed server-side with the same parameters the suggestion was shown for.
+export const POST = wrapTrace("POST /api/habits/body/calibration", async (req: Request) => {
+  try {
+    assertSecret(req);
+
+    const rl = await rateLimit(req, "post-body-calibration", RATE_LIMITS.HABITS);
+    if (!rl.ok) {
+      return new Response("Too many requests", {
+        status: HTTP_STATUS.TOO_MANY_REQUESTS,
+        headers: { "Retry-After": String(rl.retryAfterSec) },
+      });
+    }
+
+    const result = ZCalibrationAccept.safeParse(await req.json().catch(() => ({})));
+    if (!result.success) {
+      return NextResponse.json(
+        { message: "Validation failed", errors: result.error.flatten() },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      );
+    }
+
+    const calibration = await getHalfLifeCalibrationDB(result.data.days, result.data.fit_sensitivity);
+    if (calibration.status !== "ok") {
+      return NextResponse.json(
+        { message: "No calibration suggestion to accept", calibration },
+        { status: HTTP_STATUS.UNPROCESSABLE_ENTITY }
+      );
+    }
+
+    const profile = await acceptHalfLifeCalibrationDB(calibration);
+    revalidateCoffee();
+    revalidateHabits(); // sleep vs. caffeine uses the half-life
+    return NextResponse.json({ ok: true, profile, calibration }, { status: HTTP_STATUS.OK });
+  } catch (e: unknown) {
+    const error = e as { message?: string };
+    return NextResponse.json(
+      { message: error?.message ?? "Failed" },
+      { status: HTTP_STATUS.INTERNAL_SERVER_ERROR }
+    );
+  }
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { GET, POST } from './route';
+import { GET, POST, PATCH, DELETE } from './route';
 
 // Mock dependencies
 vi.mock('@/lib/rate/limit', () => ({
@@ -38,6 +38,14 @@ vi.mock('@/lib/contentful/api/coffee', () => ({
 
 vi.mock('@/lib/time/berlin', () => ({
   berlinDateTimeToUTCISO: vi.fn((date: string, time: string) => `${date}T${time}:00.000Z`),
+  isoToBerlinDate: vi.fn((ms: number) => new Date(ms).toISOString().slice(11, 16)),
+}));
+
+vi.mock('@/lib/db/coffee', () => ({
+  getCoffeeLogByDateDB: vi.fn(),
+  getCoffeeLogByIdDB: vi.fn(),
+  updateCoffeeLogDB: vi.fn(),
+  deleteCoffeeLogDB: vi.fn(),
 }));
 
 import { rateLimit } from '@/lib/rate/limit';
@@ -45,6 +53,22 @@ import { assertSecret } from '@/lib/auth/secret';
 import { sql } from '@/lib/db/client';
 import { revalidateCoffee } from '@/lib/cache/revalidate';
 import { getAllCoffeeDTO } from '@/lib/contentful/api/coffee';
+import {
+  getCoffeeLogByDateDB,
+  getCoffeeLogByIdDB,
+  updateCoffeeLogDB,
+  deleteCoffeeLogDB,
+} from '@/lib/db/coffee';
+
+const existingEntry = {
+  id: 42,
+  date: '2025-01-15',
+  time: '2025-01-15T10:30:00.000Z',
+  type: 'espresso',
+  amount_ml: 30,
+  coffee_cf_id: 'cf-1',
+  created_at: '2025-01-15T10:31:00.000Z',
+};
 
 describe('GET /api/habits/coffee', () => {
   beforeEach(() => {
@@ -108,6 +132,27 @@ describe('GET /api/habits/coffee', () => {
       expect(data).toEqual(mockCoffees);
       expect(getAllCoffeeDTO).toHaveBeenCalledWith(1, 20);
     });
+
+    it('should return logged entries when date is given', async () => {
+      vi.mocked(getCoffeeLogByDateDB).mockResolvedValue([existingEntry]);
+
+      const request = new Request('http://localhost:3000/api/habits/coffee?date=2025-01-15');
+      const response = await GET(request);
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data).toEqual([existingEntry]);
+      expect(getCoffeeLogByDateDB).toHaveBeenCalledWith('2025-01-15');
+      expect(getAllCoffeeDTO).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for malformed date', async () => {
+      const request = new Request('http://localhost:3000/api/habits/coffee?date=15.01.2025');
+      const response = await GET(request);
+
+      expect(response.status).toBe(400);
+      expect(getCoffeeLogByDateDB).not.toHaveBeenCalled();
+    });
   });
 });
 
@@ -263,3 +308,155 @@ describe('POST /api/habits/coffee', () => {
     });
   });
 });
+
+describe('PATCH /api/habits/coffee', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(rateLimit).mockResolvedValue({ ok: true });
+    vi.mocked(assertSecret).mockImplementation(() => {});
+    vi.mocked(getCoffeeLogByIdDB).mockResolvedValue(existingEntry);
+    vi.mocked(updateCoffeeLogDB).mockImplementation(async (id, entry) => ({
+      ...existingEntry,
+      ...entry,
+      id,
+    }));
+  });
+
+  const patch = (body: unknown) =>
+    PATCH(
+      new Request('http://localhost:3000/api/habits/coffee', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+    );
+
+  it('should require authentication', async () => {
+    vi.mocked(assertSecret).mockImplementation(() => {
+      throw { status: 401, message: 'Unauthorized' };
+    });
+
+    const response = await patch({ id: 42, amount_ml: 40 });
+
+    expect(response.status).toBe(401);
+    expect(updateCoffeeLogDB).not.toHaveBeenCalled();
+  });
+
+  it('should return 429 when rate limit exceeded', async () => {
+    vi.mocked(rateLimit).mockResolvedValue({ ok: false, retryAfterSec: 30 });
+
+    const response = await patch({ id: 42, amount_ml: 40 });
+
+    expect(response.status).toBe(429);
+    expect(rateLimit).toHaveBeenCalledWith(expect.any(Request), 'patch-coffee', { windowSec: 60, max: 30 });
+  });
+
+  it('should return 400 when only id is given', async () => {
+    const response = await patch({ id: 42 });
+
+    expect(response.status).toBe(400);
+    const data = await response.json();
+    expect(data.message).toBe('Validation failed');
+  });
+
+  it('should return 400 for invalid coffee type', async () => {
+    const response = await patch({ id: 42, type: 'latte' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 404 for unknown id', async () => {
+    vi.mocked(getCoffeeLogByIdDB).mockResolvedValue(null);
+
+    const response = await patch({ id: 999, amount_ml: 40 });
+
+    expect(response.status).toBe(404);
+    expect(updateCoffeeLogDB).not.toHaveBeenCalled();
+  });
+
+  it('should merge partial fields with the existing entry', async () => {
+    const response = await patch({ id: 42, time: '11:15', coffee_cf_id: null });
+
+    expect(response.status).toBe(200);
+    expect(updateCoffeeLogDB).toHaveBeenCalledWith(42, {
+      date: '2025-01-15',
+      time: '2025-01-15T11:15:00.000Z',
+      type: 'espresso',
+      amount_ml: 30,
+      coffee_cf_id: null,
+    });
+    const data = await response.json();
+    expect(data.ok).toBe(true);
+    expect(data.entry.coffee_cf_id).toBeNull();
+  });
+
+  it('should keep wall-clock time when moving an entry to another day', async () => {
+    await patch({ id: 42, date: '2025-01-14' });
+
+    expect(updateCoffeeLogDB).toHaveBeenCalledWith(
+      42,
+      expect.objectContaining({ date: '2025-01-14', time: '2025-01-14T10:30:00.000Z' })
+    );
+  });
+
+  it('should revalidate both the old and the new date', async () => {
+    await patch({ id: 42, date: '2025-01-14' });
+
+    expect(revalidateCoffee).toHaveBeenCalledWith(['2025-01-15', '2025-01-14']);
+  });
+});
+
+describe('DELETE /api/habits/coffee', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(rateLimit).mockResolvedValue({ ok: true });
+    vi.mocked(assertSecret).mockImplementation(() => {});
+    vi.mocked(deleteCoffeeLogDB).mockResolvedValue(existingEntry);
+  });
+
+  it('should require authentication', async () => {
+    vi.mocked(assertSecret).mockImplementation(() => {
+      throw { status: 401, message: 'Unauthorized' };
+    });
+
+    const response = await DELETE(
+      new Request('http://localhost:3000/api/habits/coffee?id=42', { method: 'DELETE' })
+    );
+
+    expect(response.status).toBe(401);
+    expect(deleteCoffeeLogDB).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for missing or invalid id', async () => {
+    for (const qs of ['', '?id=abc', '?id=-1']) {
+      const response = await DELETE(
+        new Request(`http://localhost:3000/api/habits/coffee${qs}`, { method: 'DELETE' })
+      );
+      expect(response.status).toBe(400);
+    }
+    expect(deleteCoffeeLogDB).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for unknown id', async () => {
+    vi.mocked(deleteCoffeeLogDB).mockResolvedValue(null);
+
+    const response = await DELETE(
+      new Request('http://localhost:3000/api/habits/coffee?id=999', { method: 'DELETE' })
+    );
+
+    expect(response.status).toBe(404);
+    expect(revalidateCoffee).not.toHaveBeenCalled();
+  });
+
+  it('should delete the entry and revalidate its date', async () => {
+    const response = await DELETE(
+      new Request('http://localhost:3000/api/habits/coffee?id=42', { method: 'DELETE' })
+    );
+
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data).toEqual({ ok: true, deleted: existingEntry });
+    expect(deleteCoffeeLogDB).toHaveBeenCalledWith(42);
+    expect(revalidateCoffee).toHaveBeenCalledWith(['2025-01-15']);
+  });
+});
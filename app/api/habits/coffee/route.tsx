@@ -3,17 +3,39 @@ export const runtime = "edge";
 import { rateLimit } from "@/lib/rate/limit";
 import { wrapTrace } from "@/lib/obs/trace";
 import { sql } from "@/lib/db/client";
-import { ZCoffee } from "@/lib/db/validation";
+import { ZCoffee, ZCoffeeId, ZCoffeeUpdate, ZDateKey } from "@/lib/db/validation";
+import {
+  getCoffeeLogByDateDB,
+  getCoffeeLogByIdDB,
+  updateCoffeeLogDB,
+  deleteCoffeeLogDB,
+} from "@/lib/db/coffee";
 import { revalidateCoffee } from "@/lib/cache/revalidate";
 import { assertSecret } from "@/lib/auth/secret";
 import {
   berlinDateTimeToUTCISO,
+  isoToBerlinDate,
 } from "@/lib/time/berlin";
 import { getAllCoffeeDTO } from "@/lib/contentful/api/coffee";
 import { HTTP_STATUS } from "@/lib/constants/http";
 import { RATE_LIMITS } from "@/lib/rate/config";
 
-// GET all coffees from Contentful (up to 100)
+// Resolve the `time` field of a coffee payload to a UTC ISO instant
+function resolveTimeISO(ymd: string, time: string | Date | undefined): string {
+  if (typeof time === "string" && /^\d{2}:\d{2}$/.test(time)) {
+    // Berlin wall-clock → UTC instant
+    return berlinDateTimeToUTCISO(ymd, time);
+  } else if (time && typeof time === "string") {
+    // Full ISO provided -> trust it
+    return time;
+  } else if (time && time instanceof Date) {
+    // Rare path: time is a Date
+    return time.toISOString();
+  }
+  return new Date().toISOString();
+}
+
+// GET coffee log entries for ?date=YYYY-MM-DD, otherwise all coffees from Contentful (up to 20)
 export const GET = wrapTrace("GET /api/habits/coffee", async (req: Request) => {
   try {
     assertSecret(req);
@@ -26,6 +48,18 @@ export const GET = wrapTrace("GET /api/habits/coffee", async (req: Request) => {
       });
     }
 
+    const date = new URL(req.url).searchParams.get("date");
+    if (date !== null) {
+      if (!ZDateKey.safeParse(date).success) {
+        return new Response(
+          JSON.stringify({ message: "Invalid date, expected YYYY-MM-DD" }),
+          { status: HTTP_STATUS.BAD_REQUEST }
+        );
+      }
+      const entries = await getCoffeeLogByDateDB(date);
+      return new Response(JSON.stringify(entries), { status: HTTP_STATUS.OK });
+    }
+
     const { items } = await getAllCoffeeDTO(1, 20);
     return new Response(JSON.stringify(items), { status: HTTP_STATUS.OK });
   } catch (err: unknown) {
@@ -63,21 +97,8 @@ export const POST = wrapTrace("POST /api/habits/coffee", async (req: Request) =>
     }
 
     for (const i of parsed) {
-      let tsISO: string;
-
-      if (typeof i.time === "string" && /^\d{2}:\d{2}$/.test(i.time)) {
-        // Berlin wall-clock → UTC instant
-        const ymd = i.date.toISOString().slice(0, 10); // date is already a Date
-        tsISO = berlinDateTimeToUTCISO(ymd, i.time);
-      } else if (i.time && typeof i.time === "string") {
-        // Full ISO provided -> trust it
-        tsISO = i.time;
-      } else if (i.time && i.time instanceof Date) {
-        // Rare path: time is a Date
-        tsISO = i.time.toISOString();
-      } else {
-        tsISO = new Date().toISOString();
-      }
+      const ymd = i.date.toISOString().slice(0, 10); // date is already a Date
+      const tsISO = resolveTimeISO(ymd, i.time);
 
       await sql/*sql*/`
         INSERT INTO coffee_log (date, time, type, amount_ml, coffee_cf_id)
@@ -91,4 +112,104 @@ export const POST = wrapTrace("POST /api/habits/coffee", async (req: Request) =>
     const error = err as { message?: string; status?: number };
     return new Response(error?.message ?? "Bad Request", { status: error?.status ?? HTTP_STATUS.BAD_REQUEST });
   }
-});
\ No newline at end of file
+});
+
+// PATCH correct an existing coffee log entry (partial update by id)
+export const PATCH = wrapTrace("PATCH /api/habits/coffee", async (req: Request) => {
+  try {
+    assertSecret(req);
+
+    const rl = await rateLimit(req, "patch-coffee", RATE_LIMITS.HABITS);
+    if (!rl.ok) {
+      return new Response("Too many requests", {
+        status: HTTP_STATUS.TOO_MANY_REQUESTS,
+        headers: { "Retry-After": String(rl.retryAfterSec) },
+      });
+    }
+
+    const body = await req.json();
+    const result = ZCoffeeUpdate.safeParse(body);
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({ message: "Validation failed", errors: result.error.flatten() }),
+        { status: HTTP_STATUS.BAD_REQUEST }
+      );
+    }
+    const u = result.data;
+
+    const existing = await getCoffeeLogByIdDB(u.id);
+    if (!existing) {
+      return new Response(
+        JSON.stringify({ message: "Coffee entry not found" }),
+        { status: HTTP_STATUS.NOT_FOUND }
+      );
+    }
+
+    const date = u.date ? u.date.toISOString().slice(0, 10) : existing.date;
+
+    let tsISO = existing.time;
+    if (u.time !== undefined) {
+      tsISO = resolveTimeISO(date, u.time);
+    } else if (date !== existing.date) {
+      // Moving to another day keeps the Berlin wall-clock time of the brew
+      tsISO = berlinDateTimeToUTCISO(date, isoToBerlinDate(Date.parse(existing.time)));
+    }
+
+    const updated = await updateCoffeeLogDB(u.id, {
+      date,
+      time: tsISO,
+      type: u.type ?? existing.type,
+      amount_ml: u.amount_ml ?? existing.amount_ml,
+      coffee_cf_id: u.coffee_cf_id === undefined ? existing.coffee_cf_id : u.coffee_cf_id,
+    });
+    if (!updated) {
+      return new Response(
+        JSON.stringify({ message: "Coffee entry not found" }),
+        { status: HTTP_STATUS.NOT_FOUND }
+      );
+    }
+
+    revalidateCoffee([existing.date, updated.date]);
+    return new Response(JSON.stringify({ ok: true, entry: updated }), { status: HTTP_STATUS.OK });
+  } catch (err: unknown) {
+    const error = err as { message?: string; status?: number };
+    return new Response(error?.message ?? "Bad Request", { status: error?.status ?? HTTP_STATUS.BAD_REQUEST });
+  }
+});
+
+// DELETE remove a coffee log entry (?id=123)
+export const DELETE = wrapTrace("DELETE /api/habits/coffee", async (req: Request) => {
+  try {
+    assertSecret(req);
+
+    const rl = await rateLimit(req, "delete-coffee", RATE_LIMITS.HABITS);
+    if (!rl.ok) {
+      return new Response("Too many requests", {
+        status: HTTP_STATUS.TOO_MANY_REQUESTS,
+        headers: { "Retry-After": String(rl.retryAfterSec) },
+      });
+    }
+
+    const result = ZCoffeeId.safeParse(new URL(req.url).searchParams.get("id") ?? undefined);
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({ message: "Validation failed", errors: result.error.flatten() }),
+        { status: HTTP_STATUS.BAD_REQUEST }
+      );
+    }
+
+    const deleted = await deleteCoffeeLogDB(result.data);
+    if (!deleted) {
+      return new Response(
+        JSON.stringify({ message: "Coffee entry not found" }),
+        { status: HTTP_STATUS.NOT_FOUND }
+      );
+    }
+
+    revalidateCoffee([deleted.date]);
+    return new Response(JSON.stringify({ ok: true, deleted }), { status: HTTP_STATUS.OK });
+  } catch (err: unknown) {
+    const error = err as { message?: string; status?: number };
+    return new Response(error?.message ?? "Bad Request", { status: error?.status ?? HTTP_STATUS.BAD_REQUEST });
+  }
+});
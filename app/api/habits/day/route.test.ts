@@ -25,6 +25,12 @@ vi.mock('@/lib/db/client', () => {
   };
 });
 
+vi.mock('@/lib/db/custom-metrics', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/db/custom-metrics')>()),
+  listCustomMetricsDB: vi.fn(),
+  logCustomValuesDB: vi.fn(),
+}));
+
 vi.mock('@/lib/cache/revalidate', () => ({
   revalidateDashboard: vi.fn(),
   revalidateCoffee: vi.fn(),
@@ -41,6 +47,8 @@ import { rateLimit } from '@/lib/rate/limit';
 import { assertSecret } from '@/lib/auth/secret';
 import { sql } from '@/lib/db/client';
 import { revalidateHabits } from '@/lib/cache/revalidate';
+import { listCustomMetricsDB, logCustomValuesDB } from '@/lib/db/custom-metrics';
+import type { CustomMetric } from '@/lib/db/validation';
 
 describe('GET /api/habits/day', () => {
   beforeEach(() => {
@@ -127,6 +135,7 @@ describe('GET /api/habits/day', () => {
         outdoor_minutes: 0,
         writing_minutes: 0,
         coding_minutes: 0,
+        extras: {},
       });
     });
   });
@@ -272,4 +281,72 @@ describe('POST /api/habits/day', () => {
       expect(revalidateHabits).toHaveBeenCalled();
     });
   });
+
+  describe('Custom Metrics', () => {
+    const metrics: CustomMetric[] = [
+      {
+        id: 1, key: 'alcohol_units', name: 'Alcohol', unit: 'units', type: 'numeric',
+        scale_min: null, scale_max: null, aggregation: 'sum', description: null, archived: false,
+      },
+      {
+        id: 2, key: 'meditated', name: 'Meditation', unit: null, type: 'boolean',
+        scale_min: null, scale_max: null, aggregation: 'max', description: null, archived: false,
+      },
+    ];
+
+    beforeEach(() => {
+      vi.mocked(listCustomMetricsDB).mockResolvedValue(metrics);
+    });
+
+    it('should store registered custom values in extras', async () => {
+      vi.mocked(sql).mockResolvedValueOnce(undefined as unknown as never); // INSERT
+      vi.mocked(sql).mockResolvedValueOnce([{ date: '2025-01-15', extras: { meditated: true } }]);
+
+      const request = new Request('http://localhost:3000/api/habits/day', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date: '2025-01-15', extras: { meditated: true } }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).extras).toEqual({ meditated: true });
+      const insertValues = vi.mocked(sql).mock.calls[0].slice(1);
+      expect(insertValues).toContain(JSON.stringify({ meditated: true }));
+      expect(logCustomValuesDB).not.toHaveBeenCalled();
+    });
+
+    it('should combine logged values using the metric aggregation', async () => {
+      vi.mocked(sql).mockResolvedValueOnce(undefined as unknown as never);
+      vi.mocked(sql).mockResolvedValueOnce([{ date: '2025-01-15', extras: { alcohol_units: 3 } }]);
+
+      const request = new Request('http://localhost:3000/api/habits/day', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date: '2025-01-15', log: { alcohol_units: 1 } }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      expect(logCustomValuesDB).toHaveBeenCalledWith('2025-01-15', { alcohol_units: 1 });
+    });
+
+    it('should return 400 for unknown metrics and mismatched types', async () => {
+      const request = new Request('http://localhost:3000/api/habits/day', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date: '2025-01-15',
+          extras: { unknown_metric: 1 },
+          log: { meditated: 2 },
+        }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(Object.keys(data.errors.fieldErrors).sort()).toEqual(['meditated', 'unknown_metric']);
+      expect(sql).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -7,6 +7,7 @@ import { sql } from "@/lib/db/client";
 import { revalidateHabits } from "@/lib/cache/revalidate";
 import { assertSecret } from "@/lib/auth/secret";
 import { ZDayUpsert } from "@/lib/db/validation";
+import { listCustomMetricsDB, logCustomValuesDB, validateCustomValues } from "@/lib/db/custom-metrics";
 import { HTTP_STATUS } from "@/lib/constants/http";
 import { RATE_LIMITS } from "@/lib/rate/config";
 
@@ -42,7 +43,8 @@ export const GET = wrapTrace("GET /api/habits/day", async (req: Request) => {
         COALESCE(reading_minutes,0)::int       as reading_minutes,
         COALESCE(outdoor_minutes,0)::int       as outdoor_minutes,
         COALESCE(writing_minutes,0)::int       as writing_minutes,
-        COALESCE(coding_minutes,0)::int        as coding_minutes
+        COALESCE(coding_minutes,0)::int        as coding_minutes,
+        COALESCE(extras,'{}'::jsonb)           as extras
       FROM days
       WHERE date = ${date}::date
       LIMIT 1
@@ -58,6 +60,7 @@ export const GET = wrapTrace("GET /api/habits/day", async (req: Request) => {
         outdoor_minutes: 0,
         writing_minutes: 0,
         coding_minutes: 0,
+        extras: {},
       }, { status: HTTP_STATUS.OK });
     }
 
@@ -94,6 +97,21 @@ export const POST = wrapTrace("POST /api/habits/day", async (req: Request) => {
 
     const parsed = result.data;
 
+    // Custom metric values must match a registered, active metric
+    if (parsed.extras || parsed.log) {
+      const metrics = await listCustomMetricsDB();
+      const errors = {
+        ...validateCustomValues(parsed.extras ?? {}, metrics, "set"),
+        ...validateCustomValues(parsed.log ?? {}, metrics, "log"),
+      };
+      if (Object.keys(errors).length > 0) {
+        return NextResponse.json(
+          { message: "Validation failed", errors: { fieldErrors: errors } },
+          { status: HTTP_STATUS.BAD_REQUEST }
+        );
+      }
+    }
+
     // Build dynamic SET clause - only update fields that were provided
     const updates: string[] = [];
     if (parsed.sleep_score !== undefined) updates.push('sleep_score = EXCLUDED.sleep_score');
@@ -103,6 +121,10 @@ export const POST = wrapTrace("POST /api/habits/day", async (req: Request) => {
     if (parsed.outdoor_minutes !== undefined) updates.push('outdoor_minutes = EXCLUDED.outdoor_minutes');
     if (parsed.writing_minutes !== undefined) updates.push('writing_minutes = EXCLUDED.writing_minutes');
     if (parsed.coding_minutes !== undefined) updates.push('coding_minutes = EXCLUDED.coding_minutes');
+    if (parsed.extras !== undefined) {
+      // Merge into the existing bag; null values remove the key
+      updates.push("extras = jsonb_strip_nulls(COALESCE(days.extras, '{}'::jsonb) || EXCLUDED.extras)");
+    }
 
     const setClause = updates.length > 0 ? updates.join(', ') : 'sleep_score = days.sleep_score';
 
@@ -110,7 +132,7 @@ export const POST = wrapTrace("POST /api/habits/day", async (req: Request) => {
       INSERT INTO days (
         date, sleep_score, focus_minutes, steps,
         reading_minutes, outdoor_minutes, writing_minutes,
-        coding_minutes
+        coding_minutes, extras
       )
       VALUES (
         ${parsed.date}::date,
@@ -120,11 +142,16 @@ export const POST = wrapTrace("POST /api/habits/day", async (req: Request) => {
         ${parsed.reading_minutes ?? 0}::int,
         ${parsed.outdoor_minutes ?? 0}::int,
         ${parsed.writing_minutes ?? 0}::int,
-        ${parsed.coding_minutes ?? 0}::int
+        ${parsed.coding_minutes ?? 0}::int,
+        jsonb_strip_nulls(${JSON.stringify(parsed.extras ?? {})}::jsonb)
       )
       ON CONFLICT (date) DO UPDATE SET ${sql.unsafe(setClause)}
     `;
 
+    if (parsed.log && Object.keys(parsed.log).length > 0) {
+      await logCustomValuesDB(parsed.date, parsed.log as Record<string, number | boolean>);
+    }
+
     // Fetch and return the full day data after update
     const rows = await sql/*sql*/`
       SELECT
@@ -135,7 +162,8 @@ export const POST = wrapTrace("POST /api/habits/day", async (req: Request) => {
         COALESCE(reading_minutes,0)::int       as reading_minutes,
         COALESCE(outdoor_minutes,0)::int       as outdoor_minutes,
         COALESCE(writing_minutes,0)::int       as writing_minutes,
-        COALESCE(coding_minutes,0)::int        as coding_minutes
+        COALESCE(coding_minutes,0)::int        as coding_minutes,
+        COALESCE(extras,'{}'::jsonb)           as extras
       FROM days
       WHERE date = ${parsed.date}::date
       LIMIT 1
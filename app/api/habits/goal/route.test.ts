@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { GET, POST } from './route';
+import { GET, POST, DELETE } from './route';
 
 // Mock dependencies
 vi.mock('@/lib/rate/limit', () => ({
@@ -26,6 +26,7 @@ vi.mock('@/lib/cache/revalidate', () => ({
   revalidateHabits: vi.fn(),
   revalidateWorkouts: vi.fn(),
   revalidateShared: vi.fn(),
+  revalidateGoals: vi.fn(),
 }));
 
 vi.mock('@/lib/obs/trace', () => ({
@@ -35,7 +36,7 @@ vi.mock('@/lib/obs/trace', () => ({
 import { rateLimit } from '@/lib/rate/limit';
 import { assertSecret } from '@/lib/auth/secret';
 import { sql } from '@/lib/db/client';
-import { revalidateShared } from '@/lib/cache/revalidate';
+import { revalidateGoals } from '@/lib/cache/revalidate';
 
 describe('GET /api/habits/goal', () => {
   beforeEach(() => {
@@ -154,6 +155,47 @@ describe('GET /api/habits/goal', () => {
       expect(data.coding_minutes).toEqual({ target: 2000, period: 'daily' });
       expect(data.focus_minutes).toEqual({ target: 1500, period: 'daily' });
     });
+
+    it('should list goals on any metric with ?list=true', async () => {
+      vi.mocked(sql).mockResolvedValueOnce([{ month_start: '2025-01-01' }]);
+      vi.mocked(sql).mockResolvedValueOnce([
+        { month: '2025-01-01', metric: 'coffee:caffeine_mg', period: 'daily', direction: 'at_most', target: 400 },
+        { month: '2025-01-01', metric: 'custom:meditated', period: 'weekly', direction: 'at_least', target: 5 },
+        { month: '2025-01-01', metric: 'running_distance_km', period: 'monthly', direction: 'at_least', target: 100 },
+      ]);
+      vi.mocked(sql).mockResolvedValueOnce([
+        {
+          id: 1, key: 'meditated', name: 'Meditation', unit: null, type: 'boolean',
+          scale_min: null, scale_max: null, aggregation: 'max', description: null, archived: false,
+        },
+      ]);
+
+      const response = await GET(new Request('http://localhost:3000/api/habits/goal?list=true'));
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.goals).toEqual([
+        { metric: 'coffee:caffeine_mg', period: 'daily', direction: 'at_most', target: 400, label: 'Caffeine', unit: 'mg' },
+        { metric: 'custom:meditated', period: 'weekly', direction: 'at_least', target: 5, label: 'Meditation', unit: 'days' },
+        { metric: 'running_distance_km', period: 'monthly', direction: 'at_least', target: 100, label: 'Running Distance', unit: 'km' },
+      ]);
+    });
+
+    it('should list weekly goals set in an earlier month', async () => {
+      vi.mocked(sql).mockResolvedValueOnce([{ month_start: '2025-02-01' }]);
+      vi.mocked(sql).mockResolvedValueOnce([
+        { month: '2025-01-01', metric: 'steps', period: 'weekly', direction: 'at_least', target: 70000 },
+        { month: '2025-01-01', metric: 'steps', period: 'daily', direction: 'at_least', target: 10000 },
+      ]);
+      vi.mocked(sql).mockResolvedValueOnce([]);
+
+      const response = await GET(new Request('http://localhost:3000/api/habits/goal?list=true'));
+
+      const data = await response.json();
+      expect(data.goals).toEqual([
+        { metric: 'steps', period: 'weekly', direction: 'at_least', target: 70000, label: 'Steps', unit: 'steps' },
+      ]);
+    });
   });
 });
 
@@ -162,7 +204,7 @@ describe('POST /api/habits/goal', () => {
     vi.clearAllMocks();
     vi.mocked(rateLimit).mockResolvedValue({ ok: true });
     vi.mocked(assertSecret).mockImplementation(() => {});
-    vi.mocked(revalidateShared).mockImplementation(() => {});
+    vi.mocked(revalidateGoals).mockImplementation(() => {});
   });
 
   describe('Authentication', () => {
@@ -250,7 +292,7 @@ describe('POST /api/habits/goal', () => {
       expect(response.status).toBe(200);
       const data = await response.json();
       expect(data.ok).toBe(true);
-      expect(revalidateShared).toHaveBeenCalled();
+      expect(revalidateGoals).toHaveBeenCalled();
     });
 
     it('should update multiple goals', async () => {
@@ -271,7 +313,7 @@ describe('POST /api/habits/goal', () => {
       expect(response.status).toBe(200);
       const data = await response.json();
       expect(data.ok).toBe(true);
-      expect(revalidateShared).toHaveBeenCalled();
+      expect(revalidateGoals).toHaveBeenCalled();
     });
 
     it('should update all goals', async () => {
@@ -296,7 +338,7 @@ describe('POST /api/habits/goal', () => {
       expect(response.status).toBe(200);
       const data = await response.json();
       expect(data.ok).toBe(true);
-      expect(revalidateShared).toHaveBeenCalled();
+      expect(revalidateGoals).toHaveBeenCalled();
     });
 
     it('should handle zero values as goal targets', async () => {
@@ -314,5 +356,125 @@ describe('POST /api/habits/goal', () => {
       const data = await response.json();
       expect(data.ok).toBe(true);
     });
+
+    it('should keep goals set for other periods', async () => {
+      vi.mocked(sql).mockResolvedValueOnce([{ month_start: '2025-01-01' }]);
+      vi.mocked(sql).mockResolvedValue(undefined as never);
+
+      const request = new Request('http://localhost:3000/api/habits/goal', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ steps: { target: 70000, period: 'weekly' } }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      const queries = vi.mocked(sql).mock.calls.map(([strings]) => (strings as unknown as string[]).join('?'));
+      expect(queries).toHaveLength(2);
+      expect(queries[1]).toContain('INSERT INTO monthly_goals');
+      expect(vi.mocked(sql).mock.calls[1]).toEqual(
+        expect.arrayContaining(['2025-01-01', 'steps', 70000, 'weekly', 'at_least'])
+      );
+    });
+  });
+
+  describe('Goal List', () => {
+    it('should upsert goals on any metric', async () => {
+      vi.mocked(sql).mockResolvedValueOnce([{ month_start: '2025-01-01' }]);
+      vi.mocked(sql).mockResolvedValue(undefined as never);
+
+      const request = new Request('http://localhost:3000/api/habits/goal', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          goals: [
+            { metric: 'coffee:cups', period: 'daily', direction: 'at_most', target: 3 },
+            { metric: 'workout:climbing:sessions', period: 'weekly', target: 2 },
+            { metric: 'custom:books_finished', period: 'yearly', target: 24 },
+          ],
+        }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      expect(revalidateGoals).toHaveBeenCalled();
+      // Month lookup, then one upsert per goal
+      expect(sql).toHaveBeenCalledTimes(4);
+      expect(vi.mocked(sql).mock.calls[2]).toEqual(
+        expect.arrayContaining(['workout:climbing:sessions', 2, 'weekly', 'at_least'])
+      );
+    });
+
+    it('should reject unknown metrics', async () => {
+      for (const metric of ['calories', 'workout:swimming:distance_km', 'coffee:beans', 'custom:Bad-Key']) {
+        const request = new Request('http://localhost:3000/api/habits/goal', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ goals: [{ metric, period: 'daily', target: 1 }] }),
+        });
+        const response = await POST(request);
+
+        expect(response.status).toBe(400);
+      }
+      expect(sql).not.toHaveBeenCalled();
+    });
+
+    it('should reject two goals for the same metric and period', async () => {
+      const request = new Request('http://localhost:3000/api/habits/goal', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          goals: [
+            { metric: 'steps', period: 'weekly', target: 70000 },
+            { metric: 'steps', period: 'weekly', target: 50000 },
+          ],
+        }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
+
+describe('DELETE /api/habits/goal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(rateLimit).mockResolvedValue({ ok: true });
+    vi.mocked(assertSecret).mockImplementation(() => {});
+  });
+
+  it('should require a valid metric and period', async () => {
+    const missing = await DELETE(new Request('http://localhost:3000/api/habits/goal?metric=steps', { method: 'DELETE' }));
+    const invalid = await DELETE(
+      new Request('http://localhost:3000/api/habits/goal?metric=nope&period=daily', { method: 'DELETE' })
+    );
+
+    expect(missing.status).toBe(400);
+    expect(invalid.status).toBe(400);
+  });
+
+  it('should remove the goal', async () => {
+    vi.mocked(sql).mockResolvedValueOnce([{ month_start: '2025-01-01' }]);
+    vi.mocked(sql).mockResolvedValueOnce([{ id: 7 }]);
+
+    const response = await DELETE(
+      new Request('http://localhost:3000/api/habits/goal?metric=coffee:cups&period=daily', { method: 'DELETE' })
+    );
+
+    expect(response.status).toBe(200);
+    expect(vi.mocked(sql).mock.calls[1]).toEqual(expect.arrayContaining(['2025-01-01', 'coffee:cups', 'daily']));
+    expect(revalidateGoals).toHaveBeenCalled();
+  });
+
+  it('should return 404 when no goal matches', async () => {
+    vi.mocked(sql).mockResolvedValueOnce([{ month_start: '2025-01-01' }]);
+    vi.mocked(sql).mockResolvedValueOnce([]);
+
+    const response = await DELETE(
+      new Request('http://localhost:3000/api/habits/goal?metric=coffee:cups&period=weekly', { method: 'DELETE' })
+    );
+
+    expect(response.status).toBe(404);
   });
 });
@@ -4,13 +4,25 @@ import { rateLimit } from "@/lib/rate/limit";
 import { wrapTrace } from "@/lib/obs/trace";
 import { NextResponse } from "next/server";
 import { sql } from "@/lib/db/client";
-import { revalidateShared } from "@/lib/cache/revalidate";
+import { revalidateGoals } from "@/lib/cache/revalidate";
 import { assertSecret } from "@/lib/auth/secret";
-import { ZMonthlyGoalsUpsert } from "@/lib/db/validation";
+import { GoalPeriod, ZGoalMetric, ZGoalsUpsert, ZMonthlyGoalsUpsert, parseGoalMetric } from "@/lib/db/validation";
+import { deleteGoalDB, describeGoalMetric, listGoalsDB, upsertGoalDB } from "@/lib/db/goals";
+import { listCustomMetricsDB } from "@/lib/db/custom-metrics";
 import { HTTP_STATUS } from "@/lib/constants/http";
 import { RATE_LIMITS } from "@/lib/rate/config";
 
-// GET current-month goals
+async function currentMonthStart(): Promise<string> {
+  const [{ month_start }] = await sql/*sql*/`
+    SELECT (date_trunc('month', timezone('Europe/Berlin', now()))::date)::text AS month_start
+  `;
+  return String(month_start);
+}
+
+// Period of the original per-kind goals when none is given
+const defaultPeriod = (kind: string): GoalPeriod => (kind === "running_distance_km" ? "monthly" : "daily");
+
+// GET goals in effect this month: the original per-kind map, or every goal with ?list=true
 export const GET = wrapTrace("GET /api/habits/goal", async (req: Request) => {
   try {
     assertSecret(req);
@@ -23,13 +35,27 @@ export const GET = wrapTrace("GET /api/habits/goal", async (req: Request) => {
       });
     }
   
-    const [{ month_start }] = await sql/*sql*/`
-      SELECT (date_trunc('month', timezone('Europe/Berlin', now()))::date) AS month_start
-    `;
+    const month_start = await currentMonthStart();
+
+    if (new URL(req.url).searchParams.get("list") === "true") {
+      const [goals, metrics] = await Promise.all([
+        listGoalsDB(month_start),
+        listCustomMetricsDB({ includeArchived: true }),
+      ]);
+      const out = goals.flatMap((g) => {
+        const metric = parseGoalMetric(g.metric);
+        if (!metric) return [];
+        const custom = metric.source === "custom" ? metrics.find((m) => m.key === metric.key) : undefined;
+        return [{ ...g, ...describeGoalMetric(metric, custom) }];
+      });
+      return NextResponse.json({ goals: out }, { status: HTTP_STATUS.OK });
+    }
+
     const rows = await sql/*sql*/`
       SELECT kind::text, target::numeric, period::text
       FROM monthly_goals
       WHERE month = ${month_start}::date
+      ORDER BY kind, period
     `;
 
     const out: Record<string, { target: number; period: string }> = {
@@ -41,11 +67,17 @@ export const GET = wrapTrace("GET /api/habits/goal", async (req: Request) => {
       coding_minutes: { target: 0, period: 'daily' },
       focus_minutes: { target: 0, period: 'daily' },
     };
+    // A kind with goals for several periods reports its default period's goal,
+    // otherwise the shortest period's
+    const found = new Set<string>();
     for (const r of rows as Array<{ kind: string; target: number; period: string }>) {
       const k = String(r.kind);
       const v = Number(r.target);
       const p = String(r.period);
-      if (k in out) out[k] = { target: v, period: p };
+      if (!(k in out)) continue;
+      if (found.has(k) && p !== defaultPeriod(k)) continue;
+      out[k] = { target: v, period: p };
+      found.add(k);
     }
     return NextResponse.json(out, { status: HTTP_STATUS.OK });
   } catch (e: unknown) {
@@ -55,7 +87,8 @@ export const GET = wrapTrace("GET /api/habits/goal", async (req: Request) => {
   }
 });
 
-// POST update current-month goals (partial or full)
+// POST update current-month goals: { goals: [{ metric, period, direction, target }] },
+// or the original per-kind map (partial or full)
 export const POST = wrapTrace("POST /api/habits/goal", async (req: Request) => {
   try {
     assertSecret(req);
@@ -69,6 +102,25 @@ export const POST = wrapTrace("POST /api/habits/goal", async (req: Request) => {
     }
 
     const body = await req.json();
+
+    if (body && typeof body === "object" && "goals" in body) {
+      const result = ZGoalsUpsert.safeParse(body);
+      if (!result.success) {
+        return NextResponse.json(
+          { message: "Validation failed", errors: result.error.flatten() },
+          { status: HTTP_STATUS.BAD_REQUEST }
+        );
+      }
+
+      const month = await currentMonthStart();
+      for (const goal of result.data.goals) {
+        await upsertGoalDB(month, goal);
+      }
+
+      revalidateGoals();
+      return NextResponse.json({ ok: true }, { status: HTTP_STATUS.OK });
+    }
+
     const result = ZMonthlyGoalsUpsert.safeParse(body);
 
     if (!result.success) {
@@ -79,9 +131,7 @@ export const POST = wrapTrace("POST /api/habits/goal", async (req: Request) => {
     }
 
     const parsed = result.data;
-    const [{ month_start }] = await sql/*sql*/`
-      SELECT (date_trunc('month', timezone('Europe/Berlin', now()))::date) AS month_start
-    `;
+    const month = await currentMonthStart();
 
     const allGoalKinds = [
       "running_distance_km",
@@ -99,31 +149,61 @@ export const POST = wrapTrace("POST /api/habits/goal", async (req: Request) => {
       if (goalData !== undefined) {
         // Handle both old format (number) and new format (object with target and period)
         let target: number;
-        let period: string;
+        let period: GoalPeriod;
 
         if (typeof goalData === 'object' && goalData !== null && 'target' in goalData && 'period' in goalData) {
           target = Number(goalData.target);
-          period = String(goalData.period);
+          period = goalData.period;
         } else {
           // Fallback for old format or simple number
           target = Number(goalData);
           // Default period based on kind (for backward compatibility)
-          period = k === 'running_distance_km' ? 'monthly' : 'daily';
+          period = defaultPeriod(k);
         }
 
-        await sql/*sql*/`
-          INSERT INTO monthly_goals (month, kind, target, period)
-          VALUES (${month_start}::date, ${k}::goal_kind, ${target}::numeric, ${period}::goal_period)
-          ON CONFLICT (month, kind) DO UPDATE SET target = EXCLUDED.target, period = EXCLUDED.period
-        `;
+        await upsertGoalDB(month, { metric: k, period, direction: "at_least", target });
       }
     }
 
-    revalidateShared();
+    revalidateGoals();
+    return NextResponse.json({ ok: true }, { status: HTTP_STATUS.OK });
+  } catch (e: unknown) {
+    const error = e as { status?: number; message?: string };
+    const status = error?.status ?? HTTP_STATUS.INTERNAL_SERVER_ERROR;
+    return NextResponse.json({ message: error?.message ?? "Failed" }, { status });
+  }
+});
+
+// DELETE remove a goal in effect this month (?metric=...&period=...)
+export const DELETE = wrapTrace("DELETE /api/habits/goal", async (req: Request) => {
+  try {
+    assertSecret(req);
+
+    const rl = await rateLimit(req, "delete-goal", RATE_LIMITS.HABITS);
+    if (!rl.ok) {
+      return new Response("Too many requests", {
+        status: HTTP_STATUS.TOO_MANY_REQUESTS,
+        headers: { "Retry-After": String(rl.retryAfterSec) },
+      });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const metric = ZGoalMetric.safeParse(searchParams.get("metric"));
+    const period = GoalPeriod.safeParse(searchParams.get("period"));
+    if (!metric.success || !period.success) {
+      return NextResponse.json({ message: "Missing or invalid metric or period" }, { status: HTTP_STATUS.BAD_REQUEST });
+    }
+
+    const deleted = await deleteGoalDB(await currentMonthStart(), metric.data, period.data);
+    if (!deleted) {
+      return NextResponse.json({ message: "Goal not found" }, { status: HTTP_STATUS.NOT_FOUND });
+    }
+
+    revalidateGoals();
     return NextResponse.json({ ok: true }, { status: HTTP_STATUS.OK });
   } catch (e: unknown) {
     const error = e as { status?: number; message?: string };
     const status = error?.status ?? HTTP_STATUS.INTERNAL_SERVER_ERROR;
     return NextResponse.json({ message: error?.message ?? "Failed" }, { status });
   }
-});
\ No newline at end of file
+});
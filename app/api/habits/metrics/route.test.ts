@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET, POST, DELETE } from './route';
+
+vi.mock('@/lib/rate/limit', () => ({
+  rateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/auth/secret', () => ({
+  assertSecret: vi.fn(),
+}));
+
+vi.mock('@/lib/db/custom-metrics', () => ({
+  listCustomMetricsDB: vi.fn(),
+  upsertCustomMetricDB: vi.fn(),
+  archiveCustomMetricDB: vi.fn(),
+}));
+
+vi.mock('@/lib/cache/revalidate', () => ({
+  revalidateHabits: vi.fn(),
+  revalidateInsights: vi.fn(),
+}));
+
+vi.mock('@/lib/obs/trace', () => ({
+  wrapTrace: <T extends (...args: unknown[]) => unknown>(_name: string, fn: T): T => fn,
+}));
+
+import { rateLimit } from '@/lib/rate/limit';
+import { assertSecret } from '@/lib/auth/secret';
+import {
+  archiveCustomMetricDB,
+  listCustomMetricsDB,
+  upsertCustomMetricDB,
+} from '@/lib/db/custom-metrics';
+import { revalidateInsights } from '@/lib/cache/revalidate';
+import type { CustomMetric } from '@/lib/db/validation';
+
+const alcohol: CustomMetric = {
+  id: 1,
+  key: 'alcohol_units',
+  name: 'Alcohol',
+  unit: 'units',
+  type: 'numeric',
+  scale_min: null,
+  scale_max: null,
+  aggregation: 'sum',
+  description: null,
+  archived: false,
+};
+
+function post(body: unknown) {
+  return new Request('http://localhost:3000/api/habits/metrics', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/habits/metrics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(rateLimit).mockResolvedValue({ ok: true });
+    vi.mocked(assertSecret).mockImplementation(() => {});
+  });
+
+  it('should require authentication', async () => {
+    vi.mocked(assertSecret).mockImplementation(() => {
+      throw { status: 401, message: 'Unauthorized' };
+    });
+
+    const response = await GET(new Request('http://localhost:3000/api/habits/metrics'));
+
+    expect(response.status).toBe(401);
+    expect(listCustomMetricsDB).not.toHaveBeenCalled();
+  });
+
+  it('should list active metrics by default', async () => {
+    vi.mocked(listCustomMetricsDB).mockResolvedValue([alcohol]);
+
+    const response = await GET(new Request('http://localhost:3000/api/habits/metrics'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ metrics: [alcohol] });
+    expect(listCustomMetricsDB).toHaveBeenCalledWith({ includeArchived: false });
+  });
+
+  it('should create a metric and revalidate insights', async () => {
+    vi.mocked(upsertCustomMetricDB).mockResolvedValue(alcohol);
+
+    const response = await POST(
+      post({ key: 'alcohol_units', name: 'Alcohol', unit: 'units', type: 'numeric', aggregation: 'sum' })
+    );
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).metric).toEqual(alcohol);
+    expect(revalidateInsights).toHaveBeenCalled();
+  });
+
+  it('should return 400 for an invalid definition', async () => {
+    const response = await POST(post({ key: 'Bad Key', name: '', type: 'numeric' }));
+
+    expect(response.status).toBe(400);
+    expect(upsertCustomMetricDB).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 when changing the type of an existing metric', async () => {
+    vi.mocked(upsertCustomMetricDB).mockResolvedValue(null);
+
+    const response = await POST(post({ key: 'alcohol_units', name: 'Alcohol', type: 'boolean' }));
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should archive a metric', async () => {
+    vi.mocked(archiveCustomMetricDB).mockResolvedValue(true);
+
+    const response = await DELETE(
+      new Request('http://localhost:3000/api/habits/metrics?key=alcohol_units', { method: 'DELETE' })
+    );
+
+    expect(response.status).toBe(200);
+    expect(archiveCustomMetricDB).toHaveBeenCalledWith('alcohol_units');
+  });
+
+  it('should return 404 when archiving an unknown metric', async () => {
+    vi.mocked(archiveCustomMetricDB).mockResolvedValue(false);
+
+    const response = await DELETE(
+      new Request('http://localhost:3000/api/habits/metrics?key=nope', { method: 'DELETE' })
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
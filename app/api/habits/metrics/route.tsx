@@ -0,0 +1,112 @@
+export const runtime = "edge";
+
+import { rateLimit } from "@/lib/rate/limit";
+import { wrapTrace } from "@/lib/obs/trace";
+import { NextResponse } from "next/server";
+import {
+  archiveCustomMetricDB,
+  listCustomMetricsDB,
+  upsertCustomMetricDB,
+} from "@/lib/db/custom-metrics";
+import { revalidateHabits, revalidateInsights } from "@/lib/cache/revalidate";
+import { assertSecret } from "@/lib/auth/secret";
+import { ZCustomMetricUpsert } from "@/lib/db/validation";
+import { HTTP_STATUS } from "@/lib/constants/http";
+import { RATE_LIMITS } from "@/lib/rate/config";
+
+// GET custom metric registry (?include_archived=true to list archived metrics too)
+export const GET = wrapTrace("GET /api/habits/metrics", async (req: Request) => {
+  try {
+    assertSecret(req);
+
+    const rl = await rateLimit(req, "get-metrics", RATE_LIMITS.HABITS);
+    if (!rl.ok) {
+      return new Response("Too many requests", {
+        status: HTTP_STATUS.TOO_MANY_REQUESTS,
+        headers: { "Retry-After": String(rl.retryAfterSec) },
+      });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const metrics = await listCustomMetricsDB({
+      includeArchived: searchParams.get("include_archived") === "true",
+    });
+    return NextResponse.json({ metrics }, { status: HTTP_STATUS.OK });
+  } catch (e: unknown) {
+    const error = e as { status?: number; message?: string };
+    const status = error?.status ?? HTTP_STATUS.INTERNAL_SERVER_ERROR;
+    return NextResponse.json({ message: error?.message ?? "Failed" }, { status });
+  }
+});
+
+// POST create or update a custom metric (keyed by `key`)
+export const POST = wrapTrace("POST /api/habits/metrics", async (req: Request) => {
+  try {
+    assertSecret(req);
+
+    const rl = await rateLimit(req, "post-metrics", RATE_LIMITS.HABITS);
+    if (!rl.ok) {
+      return new Response("Too many requests", {
+        status: HTTP_STATUS.TOO_MANY_REQUESTS,
+        headers: { "Retry-After": String(rl.retryAfterSec) },
+      });
+    }
+
+    const result = ZCustomMetricUpsert.safeParse(await req.json().catch(() => ({})));
+    if (!result.success) {
+      return NextResponse.json(
+        { message: "Validation failed", errors: result.error.flatten() },
+        { status: HTTP_STATUS.BAD_REQUEST }
+      );
+    }
+
+    const metric = await upsertCustomMetricDB(result.data);
+    if (!metric) {
+      return NextResponse.json(
+        { message: `Metric "${result.data.key}" already exists with a different type` },
+        { status: HTTP_STATUS.CONFLICT }
+      );
+    }
+
+    revalidateHabits();
+    revalidateInsights(); // new metrics join correlation discovery
+    return NextResponse.json({ ok: true, metric }, { status: HTTP_STATUS.OK });
+  } catch (e: unknown) {
+    const error = e as { status?: number; message?: string };
+    const status = error?.status ?? HTTP_STATUS.INTERNAL_SERVER_ERROR;
+    return NextResponse.json({ message: error?.message ?? "Failed" }, { status });
+  }
+});
+
+// DELETE archive a custom metric (?key=...); logged values are kept
+export const DELETE = wrapTrace("DELETE /api/habits/metrics", async (req: Request) => {
+  try {
+    assertSecret(req);
+
+    const rl = await rateLimit(req, "delete-metrics", RATE_LIMITS.HABITS);
+    if (!rl.ok) {
+      return new Response("Too many requests", {
+        status: HTTP_STATUS.TOO_MANY_REQUESTS,
+        headers: { "Retry-After": String(rl.retryAfterSec) },
+      });
+    }
+
+    const key = new URL(req.url).searchParams.get("key");
+    if (!key) {
+      return NextResponse.json({ message: "Missing key" }, { status: HTTP_STATUS.BAD_REQUEST });
+    }
+
+    const archived = await archiveCustomMetricDB(key);
+    if (!archived) {
+      return NextResponse.json({ message: "Metric not found" }, { status: HTTP_STATUS.NOT_FOUND });
+    }
+
+    revalidateHabits();
+    revalidateInsights();
+    return NextResponse.json({ ok: true }, { status: HTTP_STATUS.OK });
+  } catch (e: unknown) {
+    const error = e as { status?: number; message?: string };
+    const status = error?.status ?? HTTP_STATUS.INTERNAL_SERVER_ERROR;
+    return NextResponse.json({ message: error?.message ?? "Failed" }, { status });
+  }
+});
@@ -0,0 +1,138 @@
+// @vitest-environment node
+// (jsdom's FormData loses the names of uploaded files)
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from './route';
+
+vi.mock('@/lib/rate/limit', () => ({
+  rateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/auth/secret', () => ({
+  assertSecret: vi.fn(),
+}));
+
+vi.mock('@/lib/cache/revalidate', () => ({
+  revalidateWorkouts: vi.fn(),
+}));
+
+vi.mock('@/lib/obs/trace', () => ({
+  wrapTrace: <T extends (...args: unknown[]) => unknown>(_name: string, fn: T): T => fn,
+}));
+
+vi.mock('@/lib/db/workouts', () => ({
+  insertExternalWorkoutDB: vi.fn(),
+}));
+
+vi.mock('@/lib/db/workout-streams', () => ({
+  saveWorkoutStreamsDB: vi.fn(),
+}));
+
+vi.mock('@/lib/db/best-efforts', () => ({
+  saveBestEffortsDB: vi.fn(),
+}));
+
+vi.mock('@/lib/user/profile', () => ({
+  getAthleteProfile: vi.fn(async () => ({ max_hr: 190, resting_hr: 60, lthr: null, ftp_w: null, sex: null })),
+}));
+
+import { rateLimit } from '@/lib/rate/limit';
+import { assertSecret } from '@/lib/auth/secret';
+import { revalidateWorkouts } from '@/lib/cache/revalidate';
+import { insertExternalWorkoutDB } from '@/lib/db/workouts';
+import { saveWorkoutStreamsDB } from '@/lib/db/workout-streams';
+import { saveBestEffortsDB } from '@/lib/db/best-efforts';
+
+const gpx = (start: string) => `<?xml version="1.0"?>
+<gpx version="1.1"><trk><name>Run</name><type>running</type><trkseg>
+  <trkpt lat="48.000" lon="11.5"><ele>500</ele><time>${start}</time></trkpt>
+  <trkpt lat="48.010" lon="11.5"><ele>510</ele><time>${new Date(Date.parse(start) + 25 * 60_000).toISOString()}</time></trkpt>
+</trkseg></trk></gpx>`;
+
+function upload(files: File[]) {
+  const form = new FormData();
+  for (const file of files) form.append('file', file);
+  return new Request('http://localhost:3000/api/habits/workout/import', { method: 'POST', body: form });
+}
+
+describe('POST /api/habits/workout/import', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(rateLimit).mockResolvedValue({ ok: true });
+    vi.mocked(assertSecret).mockImplementation(() => {});
+  });
+
+  it('should require authentication', async () => {
+    vi.mocked(assertSecret).mockImplementation(() => {
+      throw new Error('Unauthorized');
+    });
+
+    const response = await POST(upload([new File([gpx('2024-05-01T06:30:00Z')], 'run.gpx')]));
+    expect(response.status).toBe(401);
+  });
+
+  it('should return 429 when rate limit exceeded', async () => {
+    vi.mocked(rateLimit).mockResolvedValue({ ok: false, retryAfterSec: 30 });
+
+    const response = await POST(upload([new File([gpx('2024-05-01T06:30:00Z')], 'run.gpx')]));
+    expect(response.status).toBe(429);
+  });
+
+  it('should reject requests without files', async () => {
+    const response = await POST(upload([]));
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject unsupported file types', async () => {
+    const response = await POST(upload([new File(['x'], 'route.kml')]));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details.fieldErrors.file[0]).toMatch(/route\.kml/);
+  });
+
+  it('should import new activities with their streams and skip duplicates', async () => {
+    vi.mocked(insertExternalWorkoutDB).mockResolvedValueOnce(7).mockResolvedValueOnce(null);
+
+    const response = await POST(
+      upload([
+        new File([gpx('2024-05-01T06:30:00Z')], 'new.gpx'),
+        new File([gpx('2024-04-01T06:30:00Z')], 'old.gpx'),
+        new File(['not xml'], 'broken.tcx'),
+      ])
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({ imported: 1, duplicates: 1, failed: 1 });
+    expect(data.results[0]).toMatchObject({
+      file: 'new.gpx',
+      status: 'imported',
+      workout_id: 7,
+      date: '2024-05-01',
+      workout_type: 'running',
+      external_id: 'file:2024-05-01T06:30:00Z',
+    });
+    expect(data.results[1]).toMatchObject({ file: 'old.gpx', status: 'duplicate' });
+    expect(data.results[2]).toEqual({ file: 'broken.tcx', status: 'error', error: 'Not a TCX file' });
+
+    expect(vi.mocked(insertExternalWorkoutDB).mock.calls[0][0]).toMatchObject({
+      source: 'file',
+      duration_min: 25,
+      details: expect.objectContaining({ file_format: 'gpx', elevation_gain_m: 10 }),
+    });
+    expect(saveWorkoutStreamsDB).toHaveBeenCalledTimes(1);
+    expect(saveWorkoutStreamsDB).toHaveBeenCalledWith(7, 'gpx', expect.objectContaining({ time_s: [0, 1500] }));
+    // 1.1 km run: only the 1k best effort
+    expect(saveBestEffortsDB).toHaveBeenCalledWith(7, [expect.objectContaining({ distance: '1k' })], 'streams');
+    expect(revalidateWorkouts).toHaveBeenCalled();
+  });
+
+  it('should not revalidate when nothing was imported', async () => {
+    vi.mocked(insertExternalWorkoutDB).mockResolvedValueOnce(null);
+
+    const response = await POST(upload([new File([gpx('2024-05-01T06:30:00Z')], 'run.gpx')]));
+
+    expect(response.status).toBe(200);
+    expect(revalidateWorkouts).not.toHaveBeenCalled();
+  });
+});
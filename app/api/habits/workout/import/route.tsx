@@ -0,0 +1,139 @@
+// Node runtime: archives are inflated with node:zlib
+export const runtime = "nodejs";
+
+import { rateLimit } from "@/lib/rate/limit";
+import { wrapTrace } from "@/lib/obs/trace";
+import { createErrorResponse, createSuccessResponse } from "@/lib/api/middleware";
+import { revalidateWorkouts } from "@/lib/cache/revalidate";
+import { assertSecret } from "@/lib/auth/secret";
+import { insertExternalWorkoutDB } from "@/lib/db/workouts";
+import { saveWorkoutStreamsDB } from "@/lib/db/workout-streams";
+import { saveBestEffortsDB } from "@/lib/db/best-efforts";
+import { bestEffortsFromStreams } from "@/lib/phys/best-efforts";
+import { RATE_LIMITS } from "@/lib/rate/config";
+import { getAthleteProfile } from "@/lib/user/profile";
+import { transformFileActivityToWorkout } from "@/lib/import/activity";
+import { isActivityFile, parseUpload, MAX_ARCHIVE_BYTES } from "@/lib/import/files";
+
+type ImportResult = {
+  file: string;
+  status: "imported" | "duplicate" | "error";
+  workout_id?: number;
+  date?: string;
+  workout_type?: string;
+  external_id?: string;
+  error?: string;
+};
+
+// POST import GPX, TCX or FIT files (multipart form data, field "file", repeatable).
+// Zip archives are expanded; activities already imported (same start time) are skipped.
+export const POST = wrapTrace("POST /api/habits/workout/import", async (req: Request) => {
+  try {
+    assertSecret(req);
+
+    const rl = await rateLimit(req, "import-workout", RATE_LIMITS.HABITS);
+    if (!rl.ok) {
+      return createErrorResponse(
+        "Too many requests",
+        429,
+        undefined,
+        "RATE_LIMIT_EXCEEDED"
+      );
+    }
+
+    const form = await req.formData().catch(() => null);
+    const files = (form?.getAll("file") ?? []).filter((f): f is File => typeof f !== "string");
+    if (files.length === 0) {
+      return createErrorResponse(
+        "Validation failed",
+        400,
+        { fieldErrors: { file: ["Upload at least one .gpx, .tcx, .fit or .zip file"] } },
+        "VALIDATION_ERROR"
+      );
+    }
+
+    const unsupported = files.filter((f) => !isActivityFile(f.name)).map((f) => f.name);
+    if (unsupported.length > 0) {
+      return createErrorResponse(
+        "Validation failed",
+        400,
+        { fieldErrors: { file: unsupported.map((n) => `${n}: expected .gpx, .tcx, .fit or .zip (optionally .gz)`) } },
+        "VALIDATION_ERROR"
+      );
+    }
+
+    if (files.reduce((sum, f) => sum + f.size, 0) > MAX_ARCHIVE_BYTES) {
+      return createErrorResponse("Upload too large", 413, undefined, "PAYLOAD_TOO_LARGE");
+    }
+
+    const athlete = await getAthleteProfile();
+    const results: ImportResult[] = [];
+
+    for (const upload of files) {
+      const parsed = parseUpload(upload.name, new Uint8Array(await upload.arrayBuffer()));
+
+      for (const entry of parsed) {
+        if ("error" in entry) {
+          results.push({ file: entry.file, status: "error", error: entry.error });
+          continue;
+        }
+
+        for (const activity of entry.activities) {
+          const workout = transformFileActivityToWorkout(activity, athlete);
+          const summary = {
+            file: entry.file,
+            date: workout.date,
+            workout_type: workout.workout_type,
+            external_id: workout.external_id,
+          };
+
+          const workoutId = await insertExternalWorkoutDB(workout);
+          if (workoutId === null) {
+            results.push({ ...summary, status: "duplicate" });
+            continue;
+          }
+
+          // A failed stream import should not fail the workout itself
+          if (activity.streams) {
+            try {
+              await saveWorkoutStreamsDB(workoutId, activity.format, activity.streams);
+              if (workout.workout_type === "running") {
+                await saveBestEffortsDB(workoutId, bestEffortsFromStreams(activity.streams), "streams");
+              }
+            } catch (error) {
+              console.error(`Failed to save streams for ${entry.file}:`, error);
+            }
+          }
+
+          results.push({ ...summary, status: "imported", workout_id: workoutId });
+        }
+      }
+    }
+
+    const imported = results.filter((r) => r.status === "imported").length;
+    if (imported > 0) revalidateWorkouts();
+
+    return createSuccessResponse(
+      {
+        ok: true,
+        imported,
+        duplicates: results.filter((r) => r.status === "duplicate").length,
+        failed: results.filter((r) => r.status === "error").length,
+        results,
+      },
+      200
+    );
+  } catch (err: unknown) {
+    if (err instanceof Error && err.message === "Unauthorized") {
+      return createErrorResponse("Unauthorized", 401, undefined, "UNAUTHORIZED");
+    }
+    console.error("POST /api/habits/workout/import failed:", err);
+    const error = err as { message?: string };
+    return createErrorResponse(
+      "Failed to import workouts",
+      500,
+      process.env.NODE_ENV === "development" ? error?.message : undefined,
+      "INTERNAL_ERROR"
+    );
+  }
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from './route';
+
+// Mock dependencies
+vi.mock('@/lib/rate/limit', () => ({
+  rateLimit: vi.fn(),
+}));
+
+vi.mock('@/lib/auth/secret', () => ({
+  assertSecret: vi.fn(),
+}));
+
+vi.mock('@/lib/cache/revalidate', () => ({
+  revalidateWorkouts: vi.fn(),
+}));
+
+vi.mock('@/lib/obs/trace', () => ({
+  wrapTrace: <T extends (...args: unknown[]) => unknown>(_name: string, fn: T): T => fn,
+}));
+
+vi.mock('@/lib/db/workouts', () => ({
+  mergeWorkoutsDB: vi.fn(),
+}));
+
+import { rateLimit } from '@/lib/rate/limit';
+import { assertSecret } from '@/lib/auth/secret';
+import { revalidateWorkouts } from '@/lib/cache/revalidate';
+import { mergeWorkoutsDB } from '@/lib/db/workouts';
+
+const merge = (body: unknown) =>
+  POST(
+    new Request('http://localhost:3000/api/habits/workout/merge', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+  );
+
+describe('POST /api/habits/workout/merge', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(rateLimit).mockResolvedValue({ ok: true });
+    vi.mocked(assertSecret).mockImplementation(() => {});
+  });
+
+  it('should require authentication', async () => {
+    vi.mocked(assertSecret).mockImplementation(() => {
+      throw new Error('Unauthorized');
+    });
+
+    const response = await merge({ keep_id: 1, merge_id: 2 });
+
+    expect(response.status).toBe(401);
+    expect(mergeWorkoutsDB).not.toHaveBeenCalled();
+  });
+
+  it('should return 429 when rate limit exceeded', async () => {
+    vi.mocked(rateLimit).mockResolvedValue({ ok: false, retryAfterSec: 30 });
+
+    const response = await merge({ keep_id: 1, merge_id: 2 });
+
+    expect(response.status).toBe(429);
+  });
+
+  it('should reject merging a workout into itself', async () => {
+    const response = await merge({ keep_id: 1, merge_id: 1 });
+
+    expect(response.status).toBe(400);
+    const data = await response.json();
+    expect(data.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should return 404 when a workout is missing', async () => {
+    vi.mocked(mergeWorkoutsDB).mockResolvedValue(null);
+
+    const response = await merge({ keep_id: 1, merge_id: 2 });
+
+    expect(response.status).toBe(404);
+    expect(revalidateWorkouts).not.toHaveBeenCalled();
+  });
+
+  it('should merge the duplicate and revalidate', async () => {
+    vi.mocked(mergeWorkoutsDB).mockResolvedValue({
+      id: 1,
+      date: new Date('2025-01-15'),
+      workout_type: 'running',
+      duration_min: 50,
+      details: { distance_km: 10, avg_heartrate: 150 },
+    });
+
+    const response = await merge({ keep_id: 1, merge_id: 2 });
+
+    expect(response.status).toBe(200);
+    expect(mergeWorkoutsDB).toHaveBeenCalledWith(1, 2);
+    const data = await response.json();
+    expect(data).toMatchObject({ ok: true, removed_id: 2, workout: { id: 1 } });
+    expect(revalidateWorkouts).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,59 @@
+export const runtime = "edge";
+
+import { rateLimit } from "@/lib/rate/limit";
+import { wrapTrace } from "@/lib/obs/trace";
+import { createErrorResponse, createSuccessResponse } from "@/lib/api/middleware";
+import { ZWorkoutMerge } from "@/lib/db/validation";
+import { revalidateWorkouts } from "@/lib/cache/revalidate";
+import { assertSecret } from "@/lib/auth/secret";
+import { mergeWorkoutsDB } from "@/lib/db/workouts";
+import { RATE_LIMITS } from "@/lib/rate/config";
+
+// POST merge a duplicate workout (e.g. manual entry + Strava import) into another
+export const POST = wrapTrace("POST /api/habits/workout/merge", async (req: Request) => {
+  try {
+    assertSecret(req);
+
+    const rl = await rateLimit(req, "merge-workout", RATE_LIMITS.HABITS);
+    if (!rl.ok) {
+      return createErrorResponse(
+        "Too many requests",
+        429,
+        undefined,
+        "RATE_LIMIT_EXCEEDED"
+      );
+    }
+
+    const body = await req.json();
+    const result = ZWorkoutMerge.safeParse(body);
+    if (!result.success) {
+      return createErrorResponse(
+        "Validation failed",
+        400,
+        result.error.flatten(),
+        "VALIDATION_ERROR"
+      );
+    }
+
+    const { keep_id, merge_id } = result.data;
+    const workout = await mergeWorkoutsDB(keep_id, merge_id);
+    if (!workout) {
+      return createErrorResponse("Workout not found", 404, undefined, "NOT_FOUND");
+    }
+
+    revalidateWorkouts();
+    return createSuccessResponse({ ok: true, workout, removed_id: merge_id }, 200);
+  } catch (err: unknown) {
+    if (err instanceof Error && err.message === "Unauthorized") {
+      return createErrorResponse("Unauthorized", 401, undefined, "UNAUTHORIZED");
+    }
+    console.error("POST /api/habits/workout/merge failed:", err);
+    const error = err as { message?: string };
+    return createErrorResponse(
+      "Failed to merge workouts",
+      500,
+      process.env.NODE_ENV === "development" ? error?.message : undefined,
+      "INTERNAL_ERROR"
+    );
+  }
+});
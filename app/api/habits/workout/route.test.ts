@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { GET, POST } from './route';
+import { GET, POST, PATCH, DELETE } from './route';
 
 // Mock dependencies
 vi.mock('@/lib/rate/limit', () => ({
@@ -35,12 +35,26 @@ vi.mock('@/lib/db/workouts', () => ({
   insertWorkoutDB: vi.fn(),
   getRecentWorkoutsDB: vi.fn(),
   getWorkoutsByTypeDB: vi.fn(),
+  updateWorkoutDB: vi.fn(),
+  deleteWorkoutDB: vi.fn(),
+  refreshTrainingLoadDB: vi.fn(async (workout: unknown) => workout),
+}));
+
+vi.mock('@/lib/user/profile', () => ({
+  getAthleteProfile: vi.fn(async () => ({ max_hr: 190, resting_hr: 60, lthr: null, ftp_w: 250, sex: 'male' })),
 }));
 
 import { rateLimit } from '@/lib/rate/limit';
 import { assertSecret } from '@/lib/auth/secret';
 import { revalidateWorkouts } from '@/lib/cache/revalidate';
-import { insertWorkoutDB, getRecentWorkoutsDB, getWorkoutsByTypeDB } from '@/lib/db/workouts';
+import {
+  insertWorkoutDB,
+  getRecentWorkoutsDB,
+  getWorkoutsByTypeDB,
+  updateWorkoutDB,
+  deleteWorkoutDB,
+  refreshTrainingLoadDB,
+} from '@/lib/db/workouts';
 
 describe('GET /api/habits/workout', () => {
   beforeEach(() => {
@@ -271,6 +285,52 @@ describe('POST /api/habits/workout', () => {
     });
   });
 
+  describe('Training Load', () => {
+    it('should derive intensity and TRIMP from average heart rate', async () => {
+      vi.mocked(insertWorkoutDB).mockImplementation(async (w) => ({ id: 1, ...w, date: new Date(w.date) }));
+
+      const request = new Request('http://localhost:3000/api/habits/workout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date: '2025-01-15',
+          workout_type: 'running',
+          duration_min: 60,
+          details: { avg_heartrate: 160 },
+        }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      const workout = vi.mocked(insertWorkoutDB).mock.calls[0][0];
+      // 160 bpm is 84% of max HR 190: zone 4
+      expect(workout.intensity).toBe('high');
+      expect(workout.details).toMatchObject({ avg_heartrate: 160, hr_zone: 4 });
+      expect(workout.details?.trimp).toBeGreaterThan(90);
+    });
+
+    it('should keep an explicitly logged intensity', async () => {
+      vi.mocked(insertWorkoutDB).mockImplementation(async (w) => ({ id: 1, ...w, date: new Date(w.date) }));
+
+      const request = new Request('http://localhost:3000/api/habits/workout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date: '2025-01-15',
+          workout_type: 'cycling',
+          duration_min: 90,
+          intensity: 'low',
+          details: { avg_watts: 240 },
+        }),
+      });
+      await POST(request);
+
+      const workout = vi.mocked(insertWorkoutDB).mock.calls[0][0];
+      expect(workout.intensity).toBe('low');
+      expect(workout.details).toMatchObject({ intensity_factor: 0.96 });
+    });
+  });
+
   describe('Single Entry', () => {
     it('should insert single workout entry', async () => {
       const mockWorkout = { 
@@ -427,3 +487,147 @@ describe('POST /api/habits/workout', () => {
     });
   });
 });
+
+describe('PATCH /api/habits/workout', () => {
+  const updatedWorkout = {
+    id: 7,
+    date: new Date('2025-01-15'),
+    workout_type: 'running' as const,
+    duration_min: 52,
+    details: { distance_km: 10.2 },
+    created_at: '2025-01-15T10:00:00Z',
+  };
+
+  const patch = (body: unknown) =>
+    PATCH(
+      new Request('http://localhost:3000/api/habits/workout', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(rateLimit).mockResolvedValue({ ok: true });
+    vi.mocked(assertSecret).mockImplementation(() => {});
+    vi.mocked(updateWorkoutDB).mockResolvedValue(updatedWorkout);
+  });
+
+  it('should require authentication', async () => {
+    vi.mocked(assertSecret).mockImplementation(() => {
+      throw new Error('Unauthorized');
+    });
+
+    const response = await patch({ id: 7, duration_min: 52 });
+
+    expect(response.status).toBe(401);
+    expect(updateWorkoutDB).not.toHaveBeenCalled();
+  });
+
+  it('should return 429 when rate limit exceeded', async () => {
+    vi.mocked(rateLimit).mockResolvedValue({ ok: false, retryAfterSec: 30 });
+
+    const response = await patch({ id: 7, duration_min: 52 });
+
+    expect(response.status).toBe(429);
+  });
+
+  it('should return 400 when no field besides id is given', async () => {
+    const response = await patch({ id: 7 });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should not allow changing the source or external id', async () => {
+    await patch({ id: 7, duration_min: 52, source: 'manual', external_id: '123' });
+
+    expect(updateWorkoutDB).toHaveBeenCalledWith(7, { duration_min: 52 });
+  });
+
+  it('should return 404 for unknown workout', async () => {
+    vi.mocked(updateWorkoutDB).mockResolvedValue(null);
+
+    const response = await patch({ id: 999, duration_min: 52 });
+
+    expect(response.status).toBe(404);
+    expect(revalidateWorkouts).not.toHaveBeenCalled();
+  });
+
+  it('should update the workout and revalidate', async () => {
+    const response = await patch({ id: 7, duration_min: 52, details: { distance_km: 10.2 } });
+
+    expect(response.status).toBe(200);
+    expect(updateWorkoutDB).toHaveBeenCalledWith(7, { duration_min: 52, details: { distance_km: 10.2 } });
+    const data = await response.json();
+    expect(data.ok).toBe(true);
+    expect(data.workout.id).toBe(7);
+    expect(revalidateWorkouts).toHaveBeenCalled();
+  });
+
+  it('should recompute the training load of a corrected workout', async () => {
+    const merged = { ...updatedWorkout, details: { distance_km: 10.2, avg_heartrate: 150, trimp: 40 } };
+    vi.mocked(updateWorkoutDB).mockResolvedValue(merged);
+    vi.mocked(refreshTrainingLoadDB).mockResolvedValueOnce({ ...merged, details: { ...merged.details, trimp: 75.3 } });
+
+    const response = await patch({ id: 7, details: { avg_heartrate: 150 } });
+
+    expect(refreshTrainingLoadDB).toHaveBeenCalledWith(merged, expect.objectContaining({ max_hr: 190, resting_hr: 60 }));
+    const data = await response.json();
+    expect(data.workout.details.trimp).toBe(75.3);
+  });
+
+  it('should keep the training load when only notes change', async () => {
+    await patch({ id: 7, notes: 'Windy' });
+
+    expect(refreshTrainingLoadDB).not.toHaveBeenCalled();
+  });
+});
+
+describe('DELETE /api/habits/workout', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(rateLimit).mockResolvedValue({ ok: true });
+    vi.mocked(assertSecret).mockImplementation(() => {});
+  });
+
+  it('should return 400 for invalid id', async () => {
+    const response = await DELETE(
+      new Request('http://localhost:3000/api/habits/workout?id=abc', { method: 'DELETE' })
+    );
+
+    expect(response.status).toBe(400);
+    expect(deleteWorkoutDB).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for unknown workout', async () => {
+    vi.mocked(deleteWorkoutDB).mockResolvedValue(null);
+
+    const response = await DELETE(
+      new Request('http://localhost:3000/api/habits/workout?id=999', { method: 'DELETE' })
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should delete the workout and revalidate', async () => {
+    vi.mocked(deleteWorkoutDB).mockResolvedValue({
+      id: 7,
+      date: new Date('2025-01-15'),
+      workout_type: 'running',
+      duration_min: 50,
+      source: 'strava',
+      external_id: '123456',
+    });
+
+    const response = await DELETE(
+      new Request('http://localhost:3000/api/habits/workout?id=7', { method: 'DELETE' })
+    );
+
+    expect(response.status).toBe(200);
+    expect(deleteWorkoutDB).toHaveBeenCalledWith(7);
+    const data = await response.json();
+    expect(data.deleted.external_id).toBe('123456');
+    expect(revalidateWorkouts).toHaveBeenCalled();
+  });
+});
@@ -3,11 +3,20 @@ export const runtime = "edge";
 import { rateLimit } from "@/lib/rate/limit";
 import { wrapTrace } from "@/lib/obs/trace";
 import { createErrorResponse, createSuccessResponse } from "@/lib/api/middleware";
-import { ZWorkoutUpsert } from "@/lib/db/validation";
+import { ZWorkoutId, ZWorkoutUpdate, ZWorkoutUpsert } from "@/lib/db/validation";
 import { revalidateWorkouts } from "@/lib/cache/revalidate";
 import { assertSecret } from "@/lib/auth/secret";
-import { insertWorkoutDB, getRecentWorkoutsDB, getWorkoutsByTypeDB } from "@/lib/db/workouts";
+import {
+  insertWorkoutDB,
+  getRecentWorkoutsDB,
+  getWorkoutsByTypeDB,
+  updateWorkoutDB,
+  deleteWorkoutDB,
+  refreshTrainingLoadDB,
+} from "@/lib/db/workouts";
 import { RATE_LIMITS } from "@/lib/rate/config";
+import { getAthleteProfile } from "@/lib/user/profile";
+import { applyTrainingLoad } from "@/lib/phys/training-load";
 
 export const GET = wrapTrace("GET /api/habits/workout", async (req: Request) => {
   try {
@@ -79,9 +88,13 @@ export const POST = wrapTrace("POST /api/habits/workout", async (req: Request) =
       parsed.push(result.data);
     }
 
+    // Derive intensity and TRIMP from details.avg_heartrate / avg_watts;
+    // an explicitly logged intensity is kept
+    const athlete = await getAthleteProfile();
+
     const inserted = [];
     for (const workout of parsed) {
-      const result = await insertWorkoutDB(workout);
+      const result = await insertWorkoutDB(applyTrainingLoad(workout, athlete));
       inserted.push(result);
     }
 
@@ -104,3 +117,104 @@ export const POST = wrapTrace("POST /api/habits/workout", async (req: Request) =
     );
   }
 });
+
+// PATCH correct an existing workout (partial update by id)
+export const PATCH = wrapTrace("PATCH /api/habits/workout", async (req: Request) => {
+  try {
+    assertSecret(req);
+
+    const rl = await rateLimit(req, "patch-workout", RATE_LIMITS.HABITS);
+    if (!rl.ok) {
+      return createErrorResponse(
+        "Too many requests",
+        429,
+        undefined,
+        "RATE_LIMIT_EXCEEDED"
+      );
+    }
+
+    const body = await req.json();
+    const result = ZWorkoutUpdate.safeParse(body);
+    if (!result.success) {
+      return createErrorResponse(
+        "Validation failed",
+        400,
+        result.error.flatten(),
+        "VALIDATION_ERROR"
+      );
+    }
+
+    const { id, ...patch } = result.data;
+    let workout = await updateWorkoutDB(id, patch);
+    if (!workout) {
+      return createErrorResponse("Workout not found", 404, undefined, "NOT_FOUND");
+    }
+
+    // Duration, heart rate and power feed the stored training load (ATL/CTL)
+    if (patch.duration_min !== undefined || patch.details !== undefined) {
+      workout = await refreshTrainingLoadDB(workout, await getAthleteProfile());
+    }
+
+    revalidateWorkouts();
+    return createSuccessResponse({ ok: true, workout }, 200);
+  } catch (err: unknown) {
+    if (err instanceof Error && err.message === "Unauthorized") {
+      return createErrorResponse("Unauthorized", 401, undefined, "UNAUTHORIZED");
+    }
+    console.error("PATCH /api/habits/workout failed:", err);
+    const error = err as { message?: string };
+    return createErrorResponse(
+      "Failed to update workout",
+      500,
+      process.env.NODE_ENV === "development" ? error?.message : undefined,
+      "INTERNAL_ERROR"
+    );
+  }
+});
+
+// DELETE remove a workout (?id=123); Strava imports are not re-synced afterwards
+export const DELETE = wrapTrace("DELETE /api/habits/workout", async (req: Request) => {
+  try {
+    assertSecret(req);
+
+    const rl = await rateLimit(req, "delete-workout", RATE_LIMITS.HABITS);
+    if (!rl.ok) {
+      return createErrorResponse(
+        "Too many requests",
+        429,
+        undefined,
+        "RATE_LIMIT_EXCEEDED"
+      );
+    }
+
+    const result = ZWorkoutId.safeParse(new URL(req.url).searchParams.get("id") ?? undefined);
+    if (!result.success) {
+      return createErrorResponse(
+        "Validation failed",
+        400,
+        result.error.flatten(),
+        "VALIDATION_ERROR"
+      );
+    }
+
+    const deleted = await deleteWorkoutDB(result.data);
+    if (!deleted) {
+      return createErrorResponse("Workout not found", 404, undefined, "NOT_FOUND");
+    }
+
+    revalidateWorkouts();
+    return createSuccessResponse({ ok: true, deleted }, 200);
+  } catch (err: unknown) {
+    if (err instanceof Error && err.message === "Unauthorized") {
+      return createErrorResponse("Unauthorized", 401, undefined, "UNAUTHORIZED");
+    }
+    console.error("DELETE /api/habits/workout failed:", err);
+    const error = err as { message?: string };
+    return createErrorResponse(
+      "Failed to delete workout",
+      500,
+      process.env.NODE_ENV === "development" ? error?.message : undefined,
+      "INTERNAL_ERROR"
+    );
+  }
+});
@@ -6,13 +6,24 @@
  *
  * Query parameters:
  * - days: Number of days to analyze (default: 90)
- * - pValueThreshold: Max p-value for significance (default: 0.1)
+ * - pValueThreshold: Max corrected p-value for significance (default: 0.1)
  * - minAbsR: Minimum absolute correlation coefficient (default: 0.3)
+ * - correction: "bh" | "bonferroni" | "none" (default: "bh")
+ * - method: "pearson" | "spearman" | "kendall" (default: "pearson")
+ * - maxLag: Largest lag in days to test (0-7, default: 1)
  */
 
 import { NextRequest } from "next/server";
 import { discoverCorrelations } from "@/lib/insights/correlation-discovery";
 import { apiSuccess, internalError } from "@/lib/api/responses";
+import {
+  MAX_LAG_DAYS,
+  type CorrelationMethod,
+  type PValueCorrection,
+} from "@/lib/stats/correlation";
+
+const CORRECTIONS: PValueCorrection[] = ["bh", "bonferroni", "none"];
+const METHODS: CorrelationMethod[] = ["pearson", "spearman", "kendall"];
 
 export async function GET(request: NextRequest) {
   try {
@@ -24,6 +35,9 @@ export async function GET(request: NextRequest) {
       searchParams.get("pValueThreshold") || "0.1"
     );
     const minAbsR = parseFloat(searchParams.get("minAbsR") || "0.3");
+    const correction = (searchParams.get("correction") || "bh") as PValueCorrection;
+    const method = (searchParams.get("method") || "pearson") as CorrelationMethod;
+    const maxLag = parseInt(searchParams.get("maxLag") || "1", 10);
 
     // Validate parameters
     if (days < 7 || days > 365) {
@@ -47,11 +61,35 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (!CORRECTIONS.includes(correction)) {
+      return Response.json(
+        { error: "correction must be one of bh, bonferroni, none" },
+        { status: 400 }
+      );
+    }
+
+    if (!METHODS.includes(method)) {
+      return Response.json(
+        { error: "method must be one of pearson, spearman, kendall" },
+        { status: 400 }
+      );
+    }
+
+    if (!(maxLag >= 0 && maxLag <= MAX_LAG_DAYS)) {
+      return Response.json(
+        { error: `maxLag must be between 0 and ${MAX_LAG_DAYS}` },
+        { status: 400 }
+      );
+    }
+
     // Discover correlations
     const correlations = await discoverCorrelations({
       days,
       pValueThreshold,
       minAbsR,
+      correction,
+      method,
+      maxLag,
     });
 
     return apiSuccess({
@@ -61,6 +99,9 @@ export async function GET(request: NextRequest) {
         days,
         pValueThreshold,
         minAbsR,
+        correction,
+        method,
+        maxLag,
       },
     });
   } catch (error) {
@@ -0,0 +1,51 @@
+// Node runtime: correlation discovery plus bootstrap over every metric pair
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+import { assertCronOrSecret } from "@/lib/auth/secret";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+} from "@/lib/api/middleware";
+import { takeInsightSnapshotDB } from "@/lib/db/insights";
+import { revalidateInsights } from "@/lib/cache/revalidate";
+
+/**
+ * Store today's correlation snapshot for every metric pair
+ *
+ * Scheduled daily by Vercel Cron (see vercel.json), which calls GET with
+ * `Authorization: Bearer CRON_SECRET`. POST with x-admin-secret runs it by hand.
+ * Running it twice on the same day replaces that day's snapshot.
+ *
+ * GET|POST /api/insights/snapshot
+ */
+async function handler(request: Request) {
+  try {
+    assertCronOrSecret(request);
+  } catch (response) {
+    if (response instanceof Response) return response;
+    throw response;
+  }
+
+  try {
+    const result = await takeInsightSnapshotDB();
+    revalidateInsights();
+
+    return createSuccessResponse({
+      success: true,
+      ...result,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Insight snapshot error:", error);
+    return createErrorResponse(
+      "Failed to store insight snapshot",
+      500,
+      error instanceof Error ? error.message : undefined,
+      "SNAPSHOT_ERROR"
+    );
+  }
+}
+
+export const GET = handler;
+export const POST = handler;
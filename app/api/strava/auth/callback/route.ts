@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { sql } from '@/lib/db/client';
+import { sealSecrets } from '@/lib/auth/encryption';
 import { ZStravaTokenResponse } from '@/lib/db/validation';
 import { rateLimit } from '@/lib/rate/limit';
 import { revalidateWorkouts } from '@/lib/cache/revalidate';
@@ -94,12 +95,18 @@ export async function GET(request: NextRequest) {
     // Store tokens in database
     console.log('Storing tokens in database for athlete:', validatedData.athlete.id);
     const athleteName = `${validatedData.athlete.firstname || ''} ${validatedData.athlete.lastname || ''}`.trim();
+    const sealed = await sealSecrets({
+      access_token: validatedData.access_token,
+      refresh_token: validatedData.refresh_token,
+    });
     await sql`
       INSERT INTO strava_auth (
         athlete_id,
         athlete_name,
         access_token,
         refresh_token,
+        token_key_id,
+        token_data_key,
         expires_at,
         token_type,
         scopes
@@ -107,8 +114,10 @@ export async function GET(request: NextRequest) {
       VALUES (
         ${validatedData.athlete.id},
         ${athleteName},
-        ${validatedData.access_token},
-        ${validatedData.refresh_token},
+        ${sealed.values.access_token},
+        ${sealed.values.refresh_token},
+        ${sealed.keyId},
+        ${sealed.dataKey},
         ${new Date(validatedData.expires_at * 1000).toISOString()},
         ${validatedData.token_type},
         ${['read', 'activity:read_all']}
@@ -118,6 +127,8 @@ export async function GET(request: NextRequest) {
         athlete_name = EXCLUDED.athlete_name,
         access_token = EXCLUDED.access_token,
         refresh_token = EXCLUDED.refresh_token,
+        token_key_id = EXCLUDED.token_key_id,
+        token_data_key = EXCLUDED.token_data_key,
         expires_at = EXCLUDED.expires_at,
         token_type = EXCLUDED.token_type,
         scopes = EXCLUDED.scopes,
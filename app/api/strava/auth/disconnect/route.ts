@@ -5,6 +5,7 @@ import { assertSecret } from '@/lib/auth/secret';
 import { rateLimit } from '@/lib/rate/limit';
 import { revalidateWorkouts } from '@/lib/cache/revalidate';
 import { assertStravaConfigured } from '@/lib/strava/config';
+import { getStravaAuth } from '@/lib/strava/client';
 
 export const runtime = 'edge';
 
@@ -38,23 +39,16 @@ export async function POST(request: NextRequest) {
     }
 
     // Fetch current credentials from database
-    const authRecords = await sql`
-      SELECT athlete_id, access_token
-      FROM strava_auth
-      LIMIT 1
-    `;
+    const auth = await getStravaAuth();
 
-    if (authRecords.length === 0) {
+    if (!auth) {
       return NextResponse.json(
         { error: 'No Strava connection found' },
         { status: 404 }
       );
     }
 
-    const { athlete_id, access_token } = authRecords[0] as {
-      athlete_id: number;
-      access_token: string;
-    };
+    const { athlete_id, access_token } = auth;
 
     // Revoke access with Strava
     const deauthorizeUrl = 'https://www.strava.com/oauth/deauthorize';
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { assertSecret } from '@/lib/auth/secret';
+import { rateLimit } from '@/lib/rate/limit';
+import { revalidateWorkouts } from '@/lib/cache/revalidate';
+import { assertStravaConfigured } from '@/lib/strava/config';
+import { getStravaAuth, refreshAccessTokenIfNeeded } from '@/lib/strava/client';
+import { runStravaBackfillStep, BACKFILL_STEP_MS } from '@/lib/strava/backfill';
+import {
+  cancelStravaBackfillDB,
+  getStravaBackfillDB,
+  resumeStravaBackfillDB,
+  startStravaBackfillDB,
+} from '@/lib/db/strava';
+import { getAthleteProfile } from '@/lib/user/profile';
+import { z } from 'zod';
+
+// Node runtime: a step imports pages of activities for up to BACKFILL_STEP_MS
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+const BackfillActionSchema = z.object({
+  action: z.enum(['start', 'resume', 'cancel']),
+  includeStreams: z.boolean().optional().default(false),
+});
+
+/**
+ * GET /api/strava/backfill
+ *
+ * Progress of the full-history import (null if never started).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    assertStravaConfigured();
+    assertSecret(request);
+
+    const auth = await getStravaAuth();
+    if (!auth) {
+      return NextResponse.json({ error: 'Strava not connected' }, { status: 404 });
+    }
+
+    return NextResponse.json({ backfill: await getStravaBackfillDB(auth.athlete_id) });
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'status' in error) {
+      const err = error as { status: number; message: string };
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+
+    console.error('Strava backfill status error:', error);
+    return NextResponse.json({ error: 'Failed to load backfill status' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/strava/backfill
+ *
+ * Starts (from the oldest activity), resumes (from the cursor, after a failure
+ * or cancel) or cancels the full-history import. Start and resume run a first
+ * step right away; further steps run via /api/strava/backfill/step.
+ *
+ * Body: { action: 'start' | 'resume' | 'cancel', includeStreams?: boolean }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    assertStravaConfigured();
+    assertSecret(request);
+
+    const rateLimitResult = await rateLimit(request, 'strava-backfill', {
+      windowSec: 60,
+      max: 10,
+    });
+
+    if (!rateLimitResult.ok) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded' },
+        {
+          status: 429,
+          headers: { 'Retry-After': rateLimitResult.retryAfterSec.toString() }
+        }
+      );
+    }
+
+    const parsed = BackfillActionSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const auth = await getStravaAuth();
+    if (!auth) {
+      return NextResponse.json({ error: 'Strava not connected' }, { status: 404 });
+    }
+
+    const { action, includeStreams } = parsed.data;
+
+    if (action === 'cancel') {
+      const backfill = await cancelStravaBackfillDB(auth.athlete_id);
+      if (!backfill) {
+        return NextResponse.json({ error: 'No backfill in progress' }, { status: 409 });
+      }
+      return NextResponse.json({ ok: true, backfill });
+    }
+
+    const started = action === 'start'
+      ? await startStravaBackfillDB(auth.athlete_id, includeStreams)
+      : await resumeStravaBackfillDB(auth.athlete_id);
+
+    if (!started) {
+      return NextResponse.json({ error: 'No failed or cancelled backfill to resume' }, { status: 409 });
+    }
+
+    const accessToken = await refreshAccessTokenIfNeeded(auth);
+    const backfill = await runStravaBackfillStep(started, {
+      accessToken,
+      athlete: await getAthleteProfile(),
+      deadline: Date.now() + BACKFILL_STEP_MS,
+    });
+
+    if (backfill.imported > 0) revalidateWorkouts();
+
+    return NextResponse.json({ ok: true, backfill });
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'status' in error) {
+      const err = error as { status: number; message: string };
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+
+    console.error('Strava backfill error:', error);
+    return NextResponse.json({ error: 'Failed to run backfill' }, { status: 500 });
+  }
+}
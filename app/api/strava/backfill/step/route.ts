@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { assertCronOrSecret } from '@/lib/auth/secret';
+import { revalidateWorkouts } from '@/lib/cache/revalidate';
+import { assertStravaConfigured } from '@/lib/strava/config';
+import { getStravaAuth, refreshAccessTokenIfNeeded } from '@/lib/strava/client';
+import { runStravaBackfillStep, BACKFILL_STEP_MS } from '@/lib/strava/backfill';
+import { getStravaBackfillDB } from '@/lib/db/strava';
+import { getAthleteProfile } from '@/lib/user/profile';
+
+// Node runtime: a step imports pages of activities for up to BACKFILL_STEP_MS
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * Continue the Strava backfill for one step
+ *
+ * Scheduled every 15 minutes by Vercel Cron (see vercel.json), matching
+ * Strava's rate-limit windows; the settings page also calls it repeatedly
+ * while the backfill is running. Does nothing unless a backfill is running
+ * or its rate-limit pause is over.
+ *
+ * GET|POST /api/strava/backfill/step
+ */
+async function handler(request: Request) {
+  try {
+    assertCronOrSecret(request);
+  } catch (response) {
+    if (response instanceof Response) return response;
+    throw response;
+  }
+
+  try {
+    assertStravaConfigured();
+
+    const auth = await getStravaAuth();
+    const current = auth ? await getStravaBackfillDB(auth.athlete_id) : null;
+    if (!auth || !current || !['running', 'rate_limited'].includes(current.status)) {
+      return NextResponse.json({ ok: true, backfill: current });
+    }
+
+    const accessToken = await refreshAccessTokenIfNeeded(auth);
+    const backfill = await runStravaBackfillStep(current, {
+      accessToken,
+      athlete: await getAthleteProfile(),
+      deadline: Date.now() + BACKFILL_STEP_MS,
+    });
+
+    if (backfill.imported > current.imported) revalidateWorkouts();
+
+    return NextResponse.json({ ok: true, backfill });
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'status' in error) {
+      const err = error as { status: number; message: string };
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+
+    console.error('Strava backfill step error:', error);
+    return NextResponse.json({ error: 'Failed to run backfill step' }, { status: 500 });
+  }
+}
+
+export const GET = handler;
+export const POST = handler;
@@ -1,5 +1,4 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { sql } from '@/lib/db/client';
 import { assertSecret } from '@/lib/auth/secret';
 import { rateLimit } from '@/lib/rate/limit';
 import { revalidateWorkouts } from '@/lib/cache/revalidate';
@@ -10,7 +9,9 @@ import {
   fetchStravaActivities,
   updateLastSync,
 } from '@/lib/strava/client';
-import { transformStravaActivityToWorkout } from '@/lib/strava/transform';
+import { importStravaActivity } from '@/lib/strava/sync';
+import { logStravaSyncDB } from '@/lib/db/strava';
+import { getAthleteProfile } from '@/lib/user/profile';
 
 export const runtime = 'edge';
 
@@ -22,6 +23,11 @@ export const runtime = 'edge';
  * - Initial sync after connecting Strava
  * - Catching up on missed activities (if webhook was down)
  * - User-initiated sync
+ *
+ * Body options:
+ * - daysBack: how far back to look (default 30)
+ * - includeStreams: also import HR/pace/altitude streams (one extra Strava
+ *   request per activity without stored streams; default false)
  */
 export async function POST(request: NextRequest) {
   try {
@@ -62,6 +68,7 @@ export async function POST(request: NextRequest) {
     // Parse request body for sync options
     const body = await request.json().catch(() => ({}));
     const daysBack = body.daysBack || 30; // Default to last 30 days
+    const includeStreams = body.includeStreams === true;
 
     // Calculate "after" timestamp (activities after this date)
     const afterTimestamp = Math.floor(Date.now() / 1000) - (daysBack * 24 * 60 * 60);
@@ -73,116 +80,43 @@ export async function POST(request: NextRequest) {
 
     console.log(`Found ${activities.length} activities to sync`);
 
+    // Thresholds for intensity and TRIMP
+    const athlete = await getAthleteProfile();
+
     let synced = 0;
     let skipped = 0;
     let errors = 0;
+    let streams = 0;
 
     // Process each activity
     for (const activity of activities) {
       try {
-        // Only sync running activities
-        const runningTypes = ['Run', 'TrailRun', 'VirtualRun'];
-        if (!runningTypes.includes(activity.type)) {
-          console.log(`Skipping non-running activity ${activity.id}: ${activity.type}`);
+        const result = await importStravaActivity(activity, {
+          athleteId: auth.athlete_id,
+          accessToken,
+          athlete,
+          includeStreams,
+        });
+
+        if (result.status === 'skipped') {
           skipped++;
           continue;
         }
 
-        // Transform to workout format
-        const workout = transformStravaActivityToWorkout(activity);
-
-        // Check if workout already exists
-        const existingWorkout = await sql`
-          SELECT id FROM workouts
-          WHERE external_id = ${workout.external_id}
-            AND source = 'strava'
-          LIMIT 1
-        `;
-
-        if (existingWorkout.length > 0) {
-          // Update existing workout
-          await sql`
-            UPDATE workouts
-            SET
-              date = ${workout.date},
-              workout_type = ${workout.workout_type},
-              duration_min = ${workout.duration_min},
-              intensity = ${workout.intensity || null},
-              perceived_effort = ${workout.perceived_effort || null},
-              details = ${JSON.stringify(workout.details)},
-              notes = ${workout.notes || null},
-              synced_at = now()
-            WHERE external_id = ${workout.external_id}
-              AND source = 'strava'
-          `;
-        } else {
-          // Insert new workout
-          await sql`
-            INSERT INTO workouts (
-              date,
-              workout_type,
-              duration_min,
-              intensity,
-              perceived_effort,
-              details,
-              notes,
-              source,
-              external_id,
-              synced_at
-            )
-            VALUES (
-              ${workout.date},
-              ${workout.workout_type},
-              ${workout.duration_min},
-              ${workout.intensity || null},
-              ${workout.perceived_effort || null},
-              ${JSON.stringify(workout.details)},
-              ${workout.notes || null},
-              'strava',
-              ${workout.external_id},
-              now()
-            )
-          `;
-        }
-
-        // Log sync success
-        await sql`
-          INSERT INTO strava_sync_log (
-            athlete_id,
-            activity_id,
-            event_type,
-            status
-          )
-          VALUES (
-            ${auth.athlete_id},
-            ${activity.id},
-            'create',
-            'success'
-          )
-        `;
-
+        if (result.streams) streams++;
         synced++;
 
       } catch (error) {
         console.error(`Failed to sync activity ${activity.id}:`, error);
 
         // Log sync error
-        await sql`
-          INSERT INTO strava_sync_log (
-            athlete_id,
-            activity_id,
-            event_type,
-            status,
-            error_message
-          )
-          VALUES (
-            ${auth.athlete_id},
-            ${activity.id},
-            'create',
-            'error',
-            ${error instanceof Error ? error.message : 'Unknown error'}
-          )
-        `;
+        await logStravaSyncDB(
+          auth.athlete_id,
+          activity.id,
+          'create',
+          'error',
+          error instanceof Error ? error.message : 'Unknown error'
+        );
 
         errors++;
       }
@@ -199,6 +133,7 @@ export async function POST(request: NextRequest) {
       synced,
       skipped,
       errors,
+      streams,
       total: activities.length,
     });
 
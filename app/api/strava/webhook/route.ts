@@ -4,6 +4,15 @@ import { ZStravaWebhookEvent, ZStravaActivity } from '@/lib/db/validation';
 import { rateLimit } from '@/lib/rate/limit';
 import { revalidateWorkouts } from '@/lib/cache/revalidate';
 import { getStravaConfig } from '@/lib/strava/config';
+import { getStravaAuth, refreshAccessTokenIfNeeded, type StravaAuth } from '@/lib/strava/client';
+import { isWorkoutTombstonedDB } from '@/lib/db/workouts';
+import { upsertStravaWorkoutDB } from '@/lib/db/strava';
+import { saveBestEffortsDB } from '@/lib/db/best-efforts';
+import { importStravaStreams } from '@/lib/strava/streams';
+import { transformStravaActivityToWorkout, transformStravaBestEfforts } from '@/lib/strava/transform';
+import { STRAVA_SYNC_TYPES } from '@/lib/strava/sync';
+import { getAthleteProfile } from '@/lib/user/profile';
+import { env } from '@/env';
 
 export const runtime = 'edge';
 
@@ -91,25 +100,13 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if we have auth for this athlete
-    const authRecords = await sql`
-      SELECT athlete_id, access_token, refresh_token, expires_at
-      FROM strava_auth
-      WHERE athlete_id = ${event.owner_id}
-      LIMIT 1
-    `;
+    const auth = await getStravaAuth(event.owner_id);
 
-    if (authRecords.length === 0) {
+    if (!auth) {
       console.log('No auth found for athlete:', event.owner_id);
       return NextResponse.json({ ok: true, message: 'Athlete not connected' });
     }
 
-    const auth = authRecords[0] as {
-      athlete_id: number;
-      access_token: string;
-      refresh_token: string;
-      expires_at: string;
-    };
-
     // Handle different event types
     switch (event.aspect_type) {
       case 'create':
@@ -140,22 +137,32 @@ export async function POST(request: NextRequest) {
  */
 async function handleActivitySync(
   event: { object_id: number; owner_id: number; aspect_type: string },
-  auth: { athlete_id: number; access_token: string; refresh_token: string; expires_at: string }
+  auth: StravaAuth
 ) {
   try {
-    // Check if token needs refresh
-    const expiresAt = new Date(auth.expires_at);
-    const needsRefresh = expiresAt < new Date(Date.now() + 5 * 60 * 1000); // Refresh if expires in < 5 minutes
-
-    let accessToken = auth.access_token;
-
-    if (needsRefresh) {
-      const refreshResult = await refreshAccessToken(auth.athlete_id, auth.refresh_token);
-      if (refreshResult) {
-        accessToken = refreshResult.access_token;
-      }
+    // Activities deleted or merged into another workout by hand stay removed
+    if (await isWorkoutTombstonedDB('strava', event.object_id.toString())) {
+      await sql`
+        INSERT INTO strava_sync_log (
+          athlete_id,
+          activity_id,
+          event_type,
+          status,
+          error_message
+        )
+        VALUES (
+          ${event.owner_id},
+          ${event.object_id},
+          ${event.aspect_type},
+          'skipped',
+          'Workout was deleted or merged locally'
+        )
+      `;
+      return;
     }
 
+    const accessToken = await refreshAccessTokenIfNeeded(auth);
+
     // Fetch activity details from Strava
     const activityUrl = `https://www.strava.com/api/v3/activities/${event.object_id}`;
     const activityResponse = await fetch(activityUrl, {
@@ -172,75 +179,29 @@ async function handleActivitySync(
     const activity = ZStravaActivity.parse(activityData);
 
     // Only sync running activities
-    const runningTypes = ['Run', 'TrailRun', 'VirtualRun'];
-    if (!runningTypes.includes(activity.type)) {
+    if (!STRAVA_SYNC_TYPES.includes(activity.type)) {
       console.log(`Skipping non-running activity ${activity.id}: ${activity.type}`);
       return;
     }
 
-    // Transform Strava activity to workout format
-    const workoutType = mapStravaTypeToWorkoutType(activity.type);
-    const durationMin = Math.round(activity.moving_time / 60);
-    const dateLocal = activity.start_date_local.split('T')[0];
-
-    // Build details object with activity-specific metrics
-    const details: Record<string, unknown> = {
-      distance_m: activity.distance,
-      elevation_gain_m: activity.total_elevation_gain,
-    };
-
-    if (activity.average_speed) details.avg_speed_mps = activity.average_speed;
-    if (activity.max_speed) details.max_speed_mps = activity.max_speed;
-    if (activity.average_heartrate) details.avg_heartrate = activity.average_heartrate;
-    if (activity.max_heartrate) details.max_heartrate = activity.max_heartrate;
-    if (activity.average_cadence) details.avg_cadence = activity.average_cadence;
-
-    // Check if workout already exists
-    const existingWorkout = await sql`
-      SELECT id FROM workouts
-      WHERE external_id = ${activity.id.toString()}
-        AND source = 'strava'
-      LIMIT 1
-    `;
+    // Transform Strava activity to workout format (load derived from the athlete profile)
+    const workout = transformStravaActivityToWorkout(activity, await getAthleteProfile());
 
-    if (existingWorkout.length > 0) {
-      // Update existing workout
-      await sql`
-        UPDATE workouts
-        SET
-          date = ${dateLocal},
-          workout_type = ${workoutType},
-          duration_min = ${durationMin},
-          details = ${JSON.stringify(details)},
-          notes = ${activity.description || null},
-          synced_at = now()
-        WHERE external_id = ${activity.id.toString()}
-          AND source = 'strava'
-      `;
-    } else {
-      // Insert new workout
-      await sql`
-        INSERT INTO workouts (
-          date,
-          workout_type,
-          duration_min,
-          details,
-          notes,
-          source,
-          external_id,
-          synced_at
-        )
-        VALUES (
-          ${dateLocal},
-          ${workoutType},
-          ${durationMin},
-          ${JSON.stringify(details)},
-          ${activity.description || null},
-          'strava',
-          ${activity.id.toString()},
-          now()
-        )
-      `;
+    const workoutId = await upsertStravaWorkoutDB(workout);
+
+    // Best efforts are only part of the detailed activity fetched here
+    const bestEfforts = transformStravaBestEfforts(activity);
+    if (bestEfforts.length > 0) {
+      await saveBestEffortsDB(workoutId, bestEfforts, 'strava');
+    }
+
+    // Streams are only fetched once per workout (see importStravaStreams)
+    if (env.STRAVA_IMPORT_STREAMS === 'true') {
+      try {
+        await importStravaStreams(workoutId, activity.id, accessToken);
+      } catch (error) {
+        console.error(`Failed to import streams for activity ${activity.id}:`, error);
+      }
     }
 
     // Log sync success
@@ -334,74 +295,3 @@ async function handleActivityDelete(event: { object_id: number; owner_id: number
     `;
   }
 }
-
-/**
- * Refreshes an expired access token
- */
-async function refreshAccessToken(athleteId: number, refreshToken: string) {
-  try {
-    const config = getStravaConfig();
-    const tokenUrl = 'https://www.strava.com/oauth/token';
-    const response = await fetch(tokenUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        client_id: config.clientId,
-        client_secret: config.clientSecret,
-        grant_type: 'refresh_token',
-        refresh_token: refreshToken,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error('Token refresh failed');
-    }
-
-    const tokenData = await response.json();
-
-    // Update database with new tokens
-    await sql`
-      UPDATE strava_auth
-      SET
-        access_token = ${tokenData.access_token},
-        refresh_token = ${tokenData.refresh_token},
-        expires_at = ${new Date(tokenData.expires_at * 1000).toISOString()},
-        updated_at = now()
-      WHERE athlete_id = ${athleteId}
-    `;
-
-    console.log('Access token refreshed for athlete:', athleteId);
-
-    return {
-      access_token: tokenData.access_token,
-      expires_at: tokenData.expires_at,
-    };
-
-  } catch (error) {
-    console.error('Token refresh error:', error);
-    return null;
-  }
-}
-
-/**
- * Maps Strava activity types to our workout types
- */
-function mapStravaTypeToWorkoutType(stravaType: string): string {
-  const typeMap: Record<string, string> = {
-    'Run': 'running',
-    'TrailRun': 'running',
-    'VirtualRun': 'running',
-    'Ride': 'cycling',
-    'VirtualRide': 'cycling',
-    'Hike': 'hiking',
-    'Walk': 'hiking',
-    'RockClimbing': 'climbing',
-    'Workout': 'strength',
-    'WeightTraining': 'strength',
-    'Rowing': 'rowing',
-  };
-
-  return typeMap[stravaType] || 'other';
-}
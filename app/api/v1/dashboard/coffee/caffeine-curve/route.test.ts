@@ -49,6 +49,7 @@ vi.mock('@/lib/time/berlin', () => ({
 }));
 
 import { sql } from '@/lib/db/client';
+import { modelCaffeine } from '@/lib/phys/caffeine';
 
 describe('GET /api/v1/dashboard/coffee/caffeine-curve', () => {
   beforeEach(() => {
@@ -199,6 +200,43 @@ describe('GET /api/v1/dashboard/coffee/caffeine-curve', () => {
       expect(data.error).toBe('Invalid resolution parameter');
       expect(data.code).toBe('VALIDATION_ERROR');
     });
+
+    it('should reject unknown absorption model', async () => {
+      const request = new Request(
+        'http://localhost:3000/api/v1/dashboard/coffee/caffeine-curve?date=2025-12-05&absorption=zero-order',
+        {
+          headers: {
+            'x-admin-secret': 'test-dashboard-secret-1234567890',
+          },
+        }
+      );
+      const response = await GET(request);
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.error).toBe('Invalid absorption parameter');
+    });
+
+    it('should pass the requested absorption model to modelCaffeine', async () => {
+      const request = new Request(
+        'http://localhost:3000/api/v1/dashboard/coffee/caffeine-curve?date=2025-12-05&absorption=instant',
+        {
+          headers: {
+            'x-admin-secret': 'test-dashboard-secret-1234567890',
+          },
+        }
+      );
+      const response = await GET(request);
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.absorption).toBe('instant');
+      expect(modelCaffeine).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.any(Object),
+        expect.objectContaining({ absorption: 'instant' })
+      );
+    });
   });
 
   describe('Response Data', () => {
@@ -218,6 +256,7 @@ describe('GET /api/v1/dashboard/coffee/caffeine-curve', () => {
 
       expect(data).toEqual({
         date: '2025-12-05',
+        absorption: 'first-order',
         series: expect.any(Array),
         body_profile: {
           half_life_hours: 5,
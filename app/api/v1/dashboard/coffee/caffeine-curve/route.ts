@@ -7,7 +7,7 @@ import { sql } from '@/lib/db/client';
 import { z } from 'zod';
 import { startOfBerlinDayISO, endOfBerlinDayISO, toBerlinYMD } from '@/lib/time/berlin';
 import { getBodyProfile } from '@/lib/user/profile';
-import { modelCaffeine } from '@/lib/phys/caffeine';
+import { modelCaffeine, type AbsorptionModel } from '@/lib/phys/caffeine';
 import { qCoffeeEventsForDayWithLookback } from '@/lib/db/queries';
 
 /**
@@ -15,6 +15,7 @@ import { qCoffeeEventsForDayWithLookback } from '@/lib/db/queries';
  */
 const CaffeineCurveResponseSchema = z.object({
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  absorption: z.enum(['instant', 'first-order']),
   series: z.array(
     z.object({
       time: z.string(), // ISO timestamp (Berlin timezone)
@@ -36,17 +37,20 @@ export type CaffeineCurveResponse = z.infer<typeof CaffeineCurveResponseSchema>;
  */
 const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
 const ResolutionSchema = z.coerce.number().int().min(15).max(240);
+const AbsorptionSchema = z.enum(['instant', 'first-order']);
 
 /**
  * Get caffeine curve data for a specific date
  *
  * @param date - Date in YYYY-MM-DD format
  * @param resolution - Minutes between data points (default: 60)
+ * @param absorption - Absorption model (default: first-order)
  * @returns Caffeine curve data
  */
 async function getCaffeineCurve(
   date: string,
-  resolution: number
+  resolution: number,
+  absorption: AbsorptionModel = 'first-order'
 ): Promise<CaffeineCurveResponse> {
   // Get body profile for caffeine modeling
   const body = await getBodyProfile();
@@ -70,6 +74,7 @@ async function getCaffeineCurve(
     alignToHour: true, // Align grid points to Berlin hour boundaries
     gridMinutes: resolution,
     halfLifeHours: body.half_life_hours ?? undefined,
+    absorption,
   });
 
   // Transform to response format
@@ -81,6 +86,7 @@ async function getCaffeineCurve(
 
   return {
     date,
+    absorption,
     series,
     body_profile: {
       half_life_hours: body.half_life_hours ?? 5,
@@ -98,9 +104,12 @@ async function getCaffeineCurve(
  * Query Parameters:
  * - date (optional): Date in YYYY-MM-DD format. Defaults to today in Europe/Berlin timezone.
  * - resolution (optional): Minutes between data points (default: 60, min: 15, max: 240)
+ * - absorption (optional): "first-order" (default, gradual rise to peak ~45 min after a cup)
+ *   or "instant" (whole dose counted at brew time)
  *
  * Response:
  * - date: Date of the caffeine curve (YYYY-MM-DD)
+ * - absorption: Absorption model used for the series
  * - series: Array of time series data points with intake and body caffeine levels
  * - body_profile: User's caffeine metabolism parameters
  *
@@ -112,6 +121,7 @@ async function getCaffeineCurve(
  * GET /api/v1/dashboard/coffee/caffeine-curve?date=2025-12-05&resolution=60
  * {
  *   "date": "2025-12-05",
+ *   "absorption": "first-order",
  *   "series": [
  *     { "time": "2025-12-05T00:00:00.000Z", "intake_mg": 0, "body_mg": 25 },
  *     { "time": "2025-12-05T01:00:00.000Z", "intake_mg": 0, "body_mg": 20 },
@@ -134,6 +144,7 @@ export const GET = createApiRoute()
       const url = new URL(request.url);
       const dateParam = url.searchParams.get('date');
       const resolutionParam = url.searchParams.get('resolution');
+      const absorptionParam = url.searchParams.get('absorption');
 
       // Get date - default to today in Berlin timezone if not provided
       let date: string;
@@ -171,8 +182,23 @@ export const GET = createApiRoute()
         resolution = resolutionResult.data;
       }
 
+      // Get absorption model - default to first-order
+      let absorption: AbsorptionModel = 'first-order';
+      if (absorptionParam) {
+        const absorptionResult = AbsorptionSchema.safeParse(absorptionParam);
+        if (!absorptionResult.success) {
+          return apiError(
+            'Invalid absorption parameter',
+            400,
+            absorptionResult.error.flatten(),
+            'VALIDATION_ERROR'
+          );
+        }
+        absorption = absorptionResult.data;
+      }
+
       // Fetch caffeine curve data
-      const curveData = await getCaffeineCurve(date, resolution);
+      const curveData = await getCaffeineCurve(date, resolution, absorption);
 
       // Validate response schema
       const validatedData = CaffeineCurveResponseSchema.parse(curveData);
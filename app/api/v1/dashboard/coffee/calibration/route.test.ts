@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from './route';
+
+// Mock dependencies
+vi.mock('@/env', () => ({
+  env: {
+    DASHBOARD_API_SECRET: 'test-dashboard-secret-1234567890',
+  },
+}));
+
+vi.mock('@/lib/db/calibration', () => ({
+  getHalfLifeCalibrationDB: vi.fn(),
+}));
+
+import { getHalfLifeCalibrationDB } from '@/lib/db/calibration';
+
+const headers = { 'x-admin-secret': 'test-dashboard-secret-1234567890' };
+
+const calibration = {
+  status: 'ok' as const,
+  days: 60,
+  n: 42,
+  current: { half_life_hours: 5, caffeine_sensitivity: 1 },
+  half_life_hours: 6.5,
+  half_life_ci95: [5.25, 8] as [number, number],
+  caffeine_sensitivity: null,
+  caffeine_sensitivity_ci95: null,
+  fit: { r_squared: 0.3, p_value: 0.001, slope_per_100mg: -6, intercept: 84 },
+};
+
+describe('GET /api/v1/dashboard/coffee/calibration', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getHalfLifeCalibrationDB).mockResolvedValue(calibration);
+  });
+
+  it('should require authentication', async () => {
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/coffee/calibration')
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should default to 60 days without sensitivity', async () => {
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/coffee/calibration', { headers })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(getHalfLifeCalibrationDB).toHaveBeenCalledWith(60, false);
+    expect(data.half_life_hours).toBe(6.5);
+    expect(data.half_life_ci95).toEqual([5.25, 8]);
+    expect(response.headers.get('X-Cache-Tags')).toBe('coffee:calibration');
+  });
+
+  it('should pass days and fit_sensitivity through', async () => {
+    await GET(
+      new Request(
+        'http://localhost:3000/api/v1/dashboard/coffee/calibration?days=120&fit_sensitivity=true',
+        { headers }
+      )
+    );
+
+    expect(getHalfLifeCalibrationDB).toHaveBeenCalledWith(120, true);
+  });
+
+  it('should return 400 for too short a window', async () => {
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/coffee/calibration?days=7', { headers })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should return 500 when the fit fails', async () => {
+    vi.mocked(getHalfLifeCalibrationDB).mockRejectedValue(new Error('db down'));
+
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/coffee/calibration', { headers })
+    );
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,134 @@
+export const runtime = 'nodejs';
+
+import { createApiRoute } from '@/lib/api/middleware';
+import { apiSuccess, apiError } from '@/lib/api/responses';
+import { coffeeTags, CACHE_DURATIONS } from '@/lib/api/cache';
+import { getHalfLifeCalibrationDB } from '@/lib/db/calibration';
+import { z } from 'zod';
+
+/**
+ * Response schema for half-life calibration endpoint
+ */
+const Interval = z.tuple([z.number(), z.number()]);
+
+const CalibrationResponseSchema = z.object({
+  status: z.enum(['ok', 'insufficient_data', 'no_caffeine_effect']),
+  days: z.number().int().positive(),
+  n: z.number().int().min(0),
+  current: z.object({
+    half_life_hours: z.number().positive(),
+    caffeine_sensitivity: z.number().positive(),
+  }),
+  half_life_hours: z.number().positive().nullable(),
+  half_life_ci95: Interval.nullable(),
+  caffeine_sensitivity: z.number().positive().nullable(),
+  caffeine_sensitivity_ci95: Interval.nullable(),
+  fit: z
+    .object({
+      r_squared: z.number(),
+      p_value: z.number().min(0).max(1),
+      slope_per_100mg: z.number(),
+      intercept: z.number(),
+    })
+    .nullable(),
+});
+
+export type CalibrationResponse = z.infer<typeof CalibrationResponseSchema>;
+
+/**
+ * Query parameters schema
+ */
+const QueryParamsSchema = z.object({
+  days: z.coerce.number().int().min(14).max(365).default(60),
+  fit_sensitivity: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((v) => v === 'true'),
+});
+
+/**
+ * GET /api/v1/dashboard/coffee/calibration
+ *
+ * Fits the caffeine half-life that best explains sleep score variation over the
+ * last N days (residual caffeine at midnight vs. days.sleep_score). The result is
+ * a suggestion only; accept it with POST /api/habits/body/calibration.
+ *
+ * Query Parameters:
+ * - days (optional): Number of nights to fit (default: 60, min: 14, max: 365)
+ * - fit_sensitivity (optional): "true" to also suggest caffeine_sensitivity (default: false)
+ *
+ * Response:
+ * - status: "ok", "insufficient_data" (fewer than 14 scored nights or no caffeine variation)
+ *   or "no_caffeine_effect" (best fit has caffeine improving sleep)
+ * - n: Nights with a sleep score used for the fit
+ * - current: Half-life and sensitivity from the current body profile
+ * - half_life_hours / half_life_ci95: Suggested half-life and 95% profile-likelihood interval
+ * - caffeine_sensitivity / caffeine_sensitivity_ci95: Suggested sensitivity (fit_sensitivity only)
+ * - fit: R², p-value, sleep score change per 100 mg at midnight, and intercept
+ *
+ * Cache:
+ * - Duration: 1 hour (STABLE)
+ * - Tags: coffee:calibration
+ *
+ * Example:
+ * GET /api/v1/dashboard/coffee/calibration?days=90
+ * {
+ *   "status": "ok",
+ *   "days": 90,
+ *   "n": 74,
+ *   "current": { "half_life_hours": 5, "caffeine_sensitivity": 1 },
+ *   "half_life_hours": 6.5,
+ *   "half_life_ci95": [5.25, 8.5],
+ *   "caffeine_sensitivity": null,
+ *   "caffeine_sensitivity_ci95": null,
+ *   "fit": { "r_squared": 0.21, "p_value": 0.0004, "slope_per_100mg": -6.8, "intercept": 84.2 }
+ * }
+ */
+export const GET = createApiRoute()
+  .withAuth()
+  .withRateLimit('dashboard-coffee-calibration', { windowSec: 60, max: 10 })
+  .withTrace('GET /api/v1/dashboard/coffee/calibration')
+  .handle(async (request) => {
+    try {
+      const url = new URL(request.url);
+      const paramsResult = QueryParamsSchema.safeParse(
+        Object.fromEntries(url.searchParams.entries())
+      );
+      if (!paramsResult.success) {
+        return apiError(
+          'Invalid query parameters',
+          400,
+          paramsResult.error.flatten(),
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const { days, fit_sensitivity } = paramsResult.data;
+      const calibration = await getHalfLifeCalibrationDB(days, fit_sensitivity);
+
+      // Validate response schema
+      const validatedData = CalibrationResponseSchema.parse(calibration);
+
+      const response = apiSuccess(validatedData);
+      response.headers.set('X-Cache-Tags', coffeeTags('calibration'));
+      response.headers.set(
+        'Cache-Control',
+        `s-maxage=${CACHE_DURATIONS.STABLE}, stale-while-revalidate`
+      );
+
+      return response;
+    } catch (error) {
+      console.error('Error calibrating caffeine half-life:', error);
+
+      if (error instanceof Error) {
+        return apiError(
+          'Failed to calibrate caffeine half-life',
+          500,
+          process.env.NODE_ENV === 'development' ? error.message : undefined,
+          'INTERNAL_ERROR'
+        );
+      }
+
+      return apiError('An unexpected error occurred', 500, undefined, 'INTERNAL_ERROR');
+    }
+  });
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GET } from './route';
+
+// Mock dependencies
+vi.mock('@/lib/db/client', () => ({
+  sql: vi.fn(),
+}));
+
+vi.mock('@/env', () => ({
+  env: {
+    DASHBOARD_API_SECRET: 'test-dashboard-secret-1234567890',
+  },
+}));
+
+vi.mock('@/lib/user/profile', () => ({
+  getBodyProfile: vi.fn().mockResolvedValue({
+    weight_kg: 70,
+    vd_l_per_kg: 0.6,
+    half_life_hours: 5,
+    caffeine_sensitivity: 1.0,
+    bioavailability: 0.99,
+  }),
+}));
+
+vi.mock('@/lib/db/queries', () => ({
+  qCoffeeEventsForDayWithLookback: vi.fn().mockResolvedValue([]),
+}));
+
+import { qCoffeeEventsForDayWithLookback } from '@/lib/db/queries';
+
+const headers = { 'x-admin-secret': 'test-dashboard-secret-1234567890' };
+
+function forecastRequest(query = '') {
+  return new Request(`http://localhost:3000/api/v1/dashboard/coffee/forecast${query}`, { headers });
+}
+
+describe('GET /api/v1/dashboard/coffee/forecast', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    // 14:00 Berlin (CET)
+    vi.setSystemTime(new Date('2025-12-05T13:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should require authentication', async () => {
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/coffee/forecast')
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should forecast a V60 drunk now with defaults', async () => {
+    const response = await GET(forecastRequest());
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.at).toBe('2025-12-05T13:00:00.000Z');
+    expect(data.absorption).toBe('first-order');
+    expect(data.threshold_mg_per_l).toBe(1);
+    expect(data.brew).toEqual({ type: 'v60', amount_ml: null, dose_mg: 198 });
+    expect(data.current_mg_per_l).toBe(0);
+    expect(Date.parse(data.below_threshold_at)).toBeGreaterThan(Date.parse(data.at));
+  });
+
+  it('should resolve bedtime to 23:00 Berlin today', async () => {
+    const response = await GET(forecastRequest('?type=espresso'));
+    const data = await response.json();
+
+    expect(data.bedtime.time).toBe('23:00');
+    expect(data.bedtime.at).toBe('2025-12-05T22:00:00.000Z');
+    expect(Date.parse(data.bedtime.latest_intake_at)).toBeLessThan(Date.parse(data.bedtime.at));
+  });
+
+  it('should roll bedtime over to tomorrow once it has passed', async () => {
+    const response = await GET(forecastRequest('?bedtime=9:30'));
+    const data = await response.json();
+
+    expect(data.bedtime.time).toBe('09:30');
+    expect(data.bedtime.at).toBe('2025-12-06T08:30:00.000Z');
+  });
+
+  it('should return null latest intake when the current load is already too high', async () => {
+    vi.mocked(qCoffeeEventsForDayWithLookback).mockResolvedValueOnce([
+      { timeISO: '2025-12-05T12:00:00.000Z', type: 'chemex', amount_ml: 600, coffee_cf_id: null },
+    ] as never);
+
+    const response = await GET(forecastRequest('?type=espresso'));
+    const data = await response.json();
+
+    expect(data.current_mg_per_l).toBeGreaterThan(1);
+    expect(data.bedtime.latest_intake_at).toBeNull();
+  });
+
+  it('should project the rest of the Berlin day on an hourly grid', async () => {
+    const response = await GET(forecastRequest());
+    const data = await response.json();
+
+    // 14:00 → 24:00 Berlin
+    expect(data.projection).toHaveLength(10);
+    expect(data.projection[0].time).toBe('2025-12-05T13:00:00.000Z');
+    expect(data.projection[1].body_mg).toBeGreaterThan(0);
+  });
+
+  it('should set cache headers', async () => {
+    const response = await GET(forecastRequest());
+
+    expect(response.headers.get('X-Cache-Tags')).toBe('coffee:forecast');
+    expect(response.headers.get('Cache-Control')).toContain('s-maxage=60');
+  });
+
+  it('should return 400 for an unknown brew type', async () => {
+    const response = await GET(forecastRequest('?type=instant'));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should return 400 for a malformed bedtime', async () => {
+    const response = await GET(forecastRequest('?bedtime=late'));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 400 for a non-positive threshold', async () => {
+    const response = await GET(forecastRequest('?threshold_mg_per_l=0'));
+
+    expect(response.status).toBe(400);
+  });
+});
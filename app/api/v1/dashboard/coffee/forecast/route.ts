@@ -0,0 +1,249 @@
+export const runtime = 'nodejs';
+
+import { createApiRoute } from '@/lib/api/middleware';
+import { apiSuccess, apiError } from '@/lib/api/responses';
+import { coffeeTags, CACHE_DURATIONS } from '@/lib/api/cache';
+import { z } from 'zod';
+import {
+  berlinDateTimeToUTCISO,
+  endOfBerlinDayISO,
+  nextBerlinDateKey,
+  normalizeHHmm,
+  toBerlinYMD,
+} from '@/lib/time/berlin';
+import { getBodyProfile } from '@/lib/user/profile';
+import {
+  modelCaffeine,
+  effectiveDoseMg,
+  timeBelowThreshold,
+  latestIntakeBefore,
+  DEFAULT_THRESHOLD_MG_PER_L,
+  type AbsorptionModel,
+  type BrewEvent,
+} from '@/lib/phys/caffeine';
+import { qCoffeeEventsForDayWithLookback } from '@/lib/db/queries';
+
+/**
+ * Response schema for caffeine forecast endpoint
+ */
+const CaffeineForecastResponseSchema = z.object({
+  at: z.string(), // ISO timestamp the forecast was made for ("now")
+  absorption: z.enum(['instant', 'first-order']),
+  threshold_mg_per_l: z.number().positive(),
+  brew: z.object({
+    type: z.string(),
+    amount_ml: z.number().int().positive().nullable(),
+    dose_mg: z.number().int().min(0), // Effective dose after bioavailability/sensitivity
+  }),
+  current_mg_per_l: z.number().min(0),
+  below_threshold_at: z.string().nullable(), // If the brew is drunk now
+  bedtime: z.object({
+    time: z.string().regex(/^\d{2}:\d{2}$/), // Berlin wall-clock HH:mm
+    at: z.string(), // Next occurrence as ISO timestamp
+    latest_intake_at: z.string().nullable(), // Latest brew time that is under threshold at bedtime
+  }),
+  projection: z.array(
+    z.object({
+      time: z.string(), // ISO timestamp (Berlin hour grid)
+      body_mg: z.number().int().min(0), // Modeled body caffeine if the brew is drunk now
+      blood_mg_per_l: z.number().min(0),
+    })
+  ),
+});
+
+export type CaffeineForecastResponse = z.infer<typeof CaffeineForecastResponseSchema>;
+
+/**
+ * Query parameters schema
+ */
+const ForecastQuerySchema = z.object({
+  type: z.enum(['espresso', 'v60', 'chemex', 'moka', 'aero', 'cold_brew', 'other']).default('v60'),
+  amount_ml: z.coerce.number().int().positive().max(2000).optional(),
+  threshold_mg_per_l: z.coerce.number().positive().max(50).default(DEFAULT_THRESHOLD_MG_PER_L),
+  bedtime: z
+    .string()
+    .regex(/^\d{1,2}:\d{2}$/)
+    .default('23:00')
+    .transform(normalizeHHmm),
+  absorption: z.enum(['instant', 'first-order']).default('first-order'),
+  resolution: z.coerce.number().int().min(15).max(240).default(60),
+});
+
+type ForecastQuery = z.infer<typeof ForecastQuerySchema>;
+
+/**
+ * Next occurrence (strictly after nowMs) of a Berlin wall-clock time, in ms
+ */
+function nextBerlinTimeMs(nowMs: number, hhmm: string): number {
+  const today = toBerlinYMD(new Date(nowMs));
+  const todayMs = Date.parse(berlinDateTimeToUTCISO(today, hhmm));
+  return todayMs > nowMs
+    ? todayMs
+    : Date.parse(berlinDateTimeToUTCISO(nextBerlinDateKey(today), hhmm));
+}
+
+/**
+ * Forecast when a brew drunk now wears off and the latest time it can be
+ * drunk to be under the threshold at bedtime
+ *
+ * @param query - Validated query parameters
+ * @param nowMs - Forecast start (ms since epoch)
+ * @returns Forecast data
+ */
+async function getCaffeineForecast(
+  query: ForecastQuery,
+  nowMs: number
+): Promise<CaffeineForecastResponse> {
+  const body = await getBodyProfile();
+  const absorption: AbsorptionModel = query.absorption;
+
+  // Everything that can still be in the body now
+  const half = body.half_life_hours ?? 5;
+  const lookbackH = Math.max(24, Math.ceil(half * 4));
+  const nowISO = new Date(nowMs).toISOString();
+  const events = await qCoffeeEventsForDayWithLookback(nowISO, nowISO, lookbackH);
+
+  const brew = { type: query.type, amount_ml: query.amount_ml ?? null };
+  const withBrewNow: BrewEvent[] = [...events, { ...brew, timeISO: nowISO }];
+  const opts = { halfLifeHours: body.half_life_hours ?? undefined, absorption };
+
+  const [current] = modelCaffeine(events, body, { ...opts, startMs: nowMs, endMs: nowMs + 1 });
+  const belowAt = timeBelowThreshold(withBrewNow, body, query.threshold_mg_per_l, nowMs, opts);
+
+  const bedtimeMs = nextBerlinTimeMs(nowMs, query.bedtime);
+  const latestAt = latestIntakeBefore(
+    events,
+    body,
+    brew,
+    bedtimeMs,
+    query.threshold_mg_per_l,
+    nowMs,
+    opts
+  );
+
+  // Projected curve for the rest of the Berlin day, on the caffeine-curve hour grid
+  const projection = modelCaffeine(withBrewNow, body, {
+    ...opts,
+    startMs: nowMs,
+    endMs: Date.parse(endOfBerlinDayISO(new Date(nowMs))),
+    alignToHour: true,
+    gridMinutes: query.resolution,
+  });
+
+  return {
+    at: nowISO,
+    absorption,
+    threshold_mg_per_l: query.threshold_mg_per_l,
+    brew: {
+      ...brew,
+      dose_mg: Math.round(effectiveDoseMg(brew, body)),
+    },
+    current_mg_per_l: Number((current?.blood_mg_per_l ?? 0).toFixed(2)),
+    below_threshold_at: belowAt === null ? null : new Date(belowAt).toISOString(),
+    bedtime: {
+      time: query.bedtime,
+      at: new Date(bedtimeMs).toISOString(),
+      latest_intake_at: latestAt === null ? null : new Date(latestAt).toISOString(),
+    },
+    projection: projection.map((point) => ({
+      time: point.timeISO,
+      body_mg: point.body_mg,
+      blood_mg_per_l: Number(point.blood_mg_per_l.toFixed(2)),
+    })),
+  };
+}
+
+/**
+ * GET /api/v1/dashboard/coffee/forecast
+ *
+ * Answers "if I drink this now, when am I below X mg/L?" and
+ * "what's the latest time I can drink this and be under X mg/L at bedtime?"
+ * using the current body profile and today's logged coffee.
+ *
+ * Query Parameters:
+ * - type (optional): Brew type (default: v60)
+ * - amount_ml (optional): Poured volume; defaults to the usual shot for the type
+ * - threshold_mg_per_l (optional): Blood concentration considered sleep-safe (default: 1.0)
+ * - bedtime (optional): Berlin wall-clock time HH:mm (default: 23:00); the next occurrence is used
+ * - absorption (optional): "first-order" (default) or "instant"
+ * - resolution (optional): Minutes between projection points (default: 60, min: 15, max: 240)
+ *
+ * Response:
+ * - at: Time the forecast starts from (now)
+ * - brew: The hypothetical brew and its effective dose
+ * - current_mg_per_l: Modeled concentration now, before the brew
+ * - below_threshold_at: When the level drops below the threshold if drunk now (null if not within 48h)
+ * - bedtime.latest_intake_at: Latest time to drink it and be under the threshold at bedtime
+ *   (null if already too late, or the existing load alone is too high)
+ * - projection: Modeled body caffeine until the end of the Berlin day if drunk now
+ *
+ * Cache:
+ * - Duration: 1 minute (REALTIME)
+ * - Tags: coffee:forecast
+ *
+ * Example:
+ * GET /api/v1/dashboard/coffee/forecast?type=espresso&bedtime=23:00
+ * {
+ *   "at": "2025-12-05T13:12:00.000Z",
+ *   "absorption": "first-order",
+ *   "threshold_mg_per_l": 1,
+ *   "brew": { "type": "espresso", "amount_ml": null, "dose_mg": 72 },
+ *   "current_mg_per_l": 1.42,
+ *   "below_threshold_at": "2025-12-05T21:40:00.000Z",
+ *   "bedtime": {
+ *     "time": "23:00",
+ *     "at": "2025-12-05T22:00:00.000Z",
+ *     "latest_intake_at": "2025-12-05T14:55:00.000Z"
+ *   },
+ *   "projection": [
+ *     { "time": "2025-12-05T13:00:00.000Z", "body_mg": 60, "blood_mg_per_l": 1.42 }
+ *   ]
+ * }
+ */
+export const GET = createApiRoute()
+  .withAuth()
+  .withRateLimit('dashboard-coffee-forecast', { windowSec: 60, max: 30 })
+  .withTrace('GET /api/v1/dashboard/coffee/forecast')
+  .handle(async (request) => {
+    try {
+      const url = new URL(request.url);
+      const queryResult = ForecastQuerySchema.safeParse(
+        Object.fromEntries(url.searchParams.entries())
+      );
+      if (!queryResult.success) {
+        return apiError(
+          'Invalid query parameters',
+          400,
+          queryResult.error.flatten(),
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const forecast = await getCaffeineForecast(queryResult.data, Date.now());
+
+      // Validate response schema
+      const validatedData = CaffeineForecastResponseSchema.parse(forecast);
+
+      const response = apiSuccess(validatedData);
+      response.headers.set('X-Cache-Tags', coffeeTags('forecast'));
+      response.headers.set(
+        'Cache-Control',
+        `s-maxage=${CACHE_DURATIONS.REALTIME}, stale-while-revalidate`
+      );
+
+      return response;
+    } catch (error) {
+      console.error('Error fetching caffeine forecast:', error);
+
+      if (error instanceof Error) {
+        return apiError(
+          'Failed to fetch caffeine forecast',
+          500,
+          process.env.NODE_ENV === 'development' ? error.message : undefined,
+          'INTERNAL_ERROR'
+        );
+      }
+
+      return apiError('An unexpected error occurred', 500, undefined, 'INTERNAL_ERROR');
+    }
+  });
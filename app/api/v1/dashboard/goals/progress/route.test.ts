@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from './route';
+
+vi.mock('@/lib/db/client', () => {
+  const sqlMock = vi.fn();
+  Object.assign(sqlMock, {
+    unsafe: vi.fn((query: string) => query),
+  });
+  return { sql: sqlMock };
+});
+
+vi.mock('@/env', () => ({
+  env: {
+    DASHBOARD_API_SECRET: 'test-dashboard-secret-1234567890',
+  },
+}));
+
+import { sql } from '@/lib/db/client';
+
+const headers = { 'x-admin-secret': 'test-dashboard-secret-1234567890' };
+
+/** Mock the period windows (Wednesday 2025-12-17) and the goals, set this month unless given */
+function mockGoals(goals: Array<Record<string, unknown>>) {
+  vi.mocked(sql)
+    .mockResolvedValueOnce([
+      { today: '2025-12-17', week_start: '2025-12-15', month_start: '2025-12-01', year_start: '2025-01-01' },
+    ] as never)
+    .mockResolvedValueOnce(goals.map((g) => ({ month: '2025-12-01', ...g })) as never);
+}
+
+describe('GET /api/v1/dashboard/goals/progress', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should require authentication', async () => {
+    const response = await GET(new Request('http://localhost:3000/api/v1/dashboard/goals/progress'));
+    expect(response.status).toBe(401);
+  });
+
+  it('should return 400 for an invalid period', async () => {
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/goals/progress?period=hourly', { headers })
+    );
+    expect(response.status).toBe(400);
+  });
+
+  it('should compute progress for any metric, period and direction', async () => {
+    mockGoals([
+      { metric: 'steps', period: 'daily', direction: 'at_least', target: 10000 },
+      { metric: 'coffee:caffeine_mg', period: 'daily', direction: 'at_most', target: 400 },
+      { metric: 'workout:climbing:sessions', period: 'weekly', direction: 'at_least', target: 2 },
+      { metric: 'running_distance_km', period: 'monthly', direction: 'at_least', target: 100 },
+    ]);
+    vi.mocked(sql)
+      .mockResolvedValueOnce([{ value: 8500 }] as never)
+      .mockResolvedValueOnce([
+        { type: 'espresso', amount_ml: 38 },
+        { type: 'v60', amount_ml: 250 },
+      ] as never)
+      .mockResolvedValueOnce([{ value: 2 }] as never)
+      .mockResolvedValueOnce([{ value: '45.54' }] as never);
+
+    const response = await GET(new Request('http://localhost:3000/api/v1/dashboard/goals/progress', { headers }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.daily).toEqual([
+      { goal: 'Steps', metric: 'steps', direction: 'at_least', target: 10000, current: 8500, progress_pct: 85, met: false, unit: 'steps' },
+      { goal: 'Caffeine', metric: 'coffee:caffeine_mg', direction: 'at_most', target: 400, current: 200, progress_pct: 50, met: true, unit: 'mg' },
+    ]);
+    expect(data.weekly).toEqual([
+      expect.objectContaining({ goal: 'Climbing Sessions', current: 2, progress_pct: 100, met: true, unit: 'sessions' }),
+    ]);
+    expect(data.monthly).toEqual([
+      expect.objectContaining({ goal: 'Running Distance', current: 45.5, progress_pct: 46, met: false, unit: 'km' }),
+    ]);
+    expect(data.yearly).toBeUndefined();
+
+    // Each goal is measured over its own window
+    const windows = vi.mocked(sql).mock.calls.slice(2).map((call) => call.slice(-2));
+    expect(windows).toEqual([
+      ['2025-12-17', '2025-12-17'],
+      ['2025-12-17', '2025-12-17'],
+      ['2025-12-15', '2025-12-17'],
+      ['2025-12-01', '2025-12-17'],
+    ]);
+  });
+
+  it('should total custom metrics the way the metric aggregates', async () => {
+    mockGoals([{ metric: 'custom:alcohol_units', period: 'weekly', direction: 'at_most', target: 7 }]);
+    vi.mocked(sql)
+      .mockResolvedValueOnce([
+        {
+          id: 1, key: 'alcohol_units', name: 'Alcohol', unit: 'units', type: 'numeric',
+          scale_min: null, scale_max: null, aggregation: 'sum', description: null, archived: false,
+        },
+      ] as never)
+      .mockResolvedValueOnce([{ value: 9 }] as never);
+
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/goals/progress?period=weekly', { headers })
+    );
+    const data = await response.json();
+
+    expect(data).toEqual({
+      weekly: [
+        { goal: 'Alcohol', metric: 'custom:alcohol_units', direction: 'at_most', target: 7, current: 9, progress_pct: 100, met: false, unit: 'units' },
+      ],
+    });
+    expect(vi.mocked(sql).mock.calls[3]).toContain('SUM');
+  });
+
+  it('should filter by period and set cache headers', async () => {
+    mockGoals([
+      { metric: 'steps', period: 'daily', direction: 'at_least', target: 10000 },
+      { metric: 'steps', period: 'yearly', direction: 'at_least', target: 3000000 },
+    ]);
+    vi.mocked(sql).mockResolvedValueOnce([{ value: 1200000 }] as never);
+
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/goals/progress?period=yearly', { headers })
+    );
+    const data = await response.json();
+
+    expect(Object.keys(data)).toEqual(['yearly']);
+    expect(data.yearly[0]).toMatchObject({ current: 1200000, progress_pct: 40 });
+    expect(response.headers.get('X-Cache-Tags')).toBe('goals:progress:yearly,goals:progress');
+    expect(response.headers.get('Cache-Control')).toContain('s-maxage=60');
+  });
+});
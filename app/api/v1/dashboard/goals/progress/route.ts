@@ -3,7 +3,15 @@ export const runtime = 'nodejs';
 import { createApiRoute } from '@/lib/api/middleware';
 import { apiSuccess, apiError } from '@/lib/api/responses';
 import { goalsTags, CACHE_DURATIONS } from '@/lib/api/cache';
-import { sql } from '@/lib/db/client';
+import { listCustomMetricsDB } from '@/lib/db/custom-metrics';
+import {
+  describeGoalMetric,
+  goalProgress,
+  goalValueDB,
+  goalWindowsDB,
+  listGoalsDB,
+} from '@/lib/db/goals';
+import { GoalPeriod, parseGoalMetric, type CustomMetric } from '@/lib/db/validation';
 import { z } from 'zod';
 
 /**
@@ -11,184 +19,72 @@ import { z } from 'zod';
  */
 const GoalProgressItemSchema = z.object({
   goal: z.string(),
+  metric: z.string(),
+  direction: z.enum(['at_least', 'at_most']),
   target: z.number(),
   current: z.number(),
   progress_pct: z.number().min(0).max(100),
+  met: z.boolean(),
   unit: z.string(),
 });
 
 const GoalsProgressResponseSchema = z.object({
   daily: z.array(GoalProgressItemSchema).optional(),
+  weekly: z.array(GoalProgressItemSchema).optional(),
   monthly: z.array(GoalProgressItemSchema).optional(),
+  yearly: z.array(GoalProgressItemSchema).optional(),
 });
 
 export type GoalsProgressResponse = z.infer<typeof GoalsProgressResponseSchema>;
+type GoalProgressItem = z.infer<typeof GoalProgressItemSchema>;
 
 /**
  * Query parameters schema
  */
 const QueryParamsSchema = z.object({
-  period: z.enum(['daily', 'monthly']).optional(),
+  period: GoalPeriod.optional(),
 });
 
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
 /**
  * Get goal progress for a specific period
  *
- * @param period - Period filter ('daily', 'monthly', or undefined for both)
+ * @param period - Period filter (daily, weekly, monthly, yearly, or undefined for all)
  * @returns Progress data for goals
  */
-async function getGoalsProgress(
-  period?: 'daily' | 'monthly'
-): Promise<GoalsProgressResponse> {
-  // Get current month start in Berlin timezone
-  const [{ month_start }] = await sql/*sql*/`
-    SELECT (date_trunc('month', timezone('Europe/Berlin', now()))::date) AS month_start
-  `;
-
-  // Get today's date in Berlin timezone
-  const [{ today }] = await sql/*sql*/`
-    SELECT timezone('Europe/Berlin', now())::date::text AS today
-  `;
-
-  const result: GoalsProgressResponse = {};
-
-  // Fetch daily goals progress
-  if (!period || period === 'daily') {
-    const dailyGoals = await sql/*sql*/`
-      SELECT kind::text, target::numeric
-      FROM monthly_goals
-      WHERE month = ${month_start}::date
-        AND period = 'daily'
-    `;
-
-    interface GoalRow {
-      kind: string;
-      target: number;
-    }
-
-    const dailyProgress: Array<{
-      goal: string;
-      target: number;
-      current: number;
-      progress_pct: number;
-      unit: string;
-    }> = [];
+async function getGoalsProgress(period?: GoalPeriod): Promise<GoalsProgressResponse> {
+  // Period windows up to today in Berlin timezone
+  const { month_start, windows } = await goalWindowsDB();
 
-    for (const r of dailyGoals) {
-      const row = r as GoalRow;
-      const kind = String(row.kind);
-      const target = Number(row.target);
+  const goals = (await listGoalsDB(month_start)).filter((g) => !period || g.period === period);
 
-      // Get current value for today
-      const currentRows = await sql/*sql*/`
-        SELECT COALESCE(${sql.unsafe(kind)}, 0)::numeric as current
-        FROM days
-        WHERE date = ${today}::date
-        LIMIT 1
-      `;
-
-      const current = currentRows.length > 0 ? Number(currentRows[0].current) : 0;
-      const progressPct = target > 0 ? Math.min(100, Math.round((current / target) * 100)) : 0;
-
-      // Determine unit based on goal kind
-      const unit = kind === 'steps' ? 'steps' : 'minutes';
-
-      // Format goal name for display
-      const goalName = kind
-        .replace(/_/g, ' ')
-        .split(' ')
-        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-        .join(' ');
-
-      dailyProgress.push({
-        goal: goalName,
-        target,
-        current,
-        progress_pct: progressPct,
-        unit,
-      });
-    }
-
-    if (dailyProgress.length > 0) {
-      result.daily = dailyProgress;
-    }
+  // Custom metric names, units and aggregation (archived ones may still have goals)
+  let customMetrics: CustomMetric[] = [];
+  if (goals.some((g) => g.metric.startsWith('custom:'))) {
+    customMetrics = await listCustomMetricsDB({ includeArchived: true });
   }
 
-  // Fetch monthly goals progress
-  if (!period || period === 'monthly') {
-    const monthlyGoals = await sql/*sql*/`
-      SELECT kind::text, target::numeric
-      FROM monthly_goals
-      WHERE month = ${month_start}::date
-        AND period = 'monthly'
-    `;
-
-    interface GoalRow {
-      kind: string;
-      target: number;
-    }
-
-    const monthlyProgress: Array<{
-      goal: string;
-      target: number;
-      current: number;
-      progress_pct: number;
-      unit: string;
-    }> = [];
-
-    for (const r of monthlyGoals) {
-      const row = r as GoalRow;
-      const kind = String(row.kind);
-      const target = Number(row.target);
-
-      let current = 0;
-      let unit = '';
-
-      // Handle running distance specifically
-      if (kind === 'running_distance_km') {
-        const distanceRows = await sql/*sql*/`
-          SELECT COALESCE(SUM((details->>'distance_km')::numeric), 0)::numeric as total
-          FROM workouts
-          WHERE workout_type = 'running'
-            AND date >= ${month_start}::date
-            AND date < (${month_start}::date + interval '1 month')
-            AND details ? 'distance_km'
-        `;
-        current = distanceRows.length > 0 ? Number(distanceRows[0].total) : 0;
-        unit = 'km';
-      } else {
-        // For other potential monthly goals, sum from days table
-        const sumRows = await sql/*sql*/`
-          SELECT COALESCE(SUM(${sql.unsafe(kind)}), 0)::numeric as total
-          FROM days
-          WHERE date >= ${month_start}::date
-            AND date < (${month_start}::date + interval '1 month')
-        `;
-        current = sumRows.length > 0 ? Number(sumRows[0].total) : 0;
-        unit = kind === 'steps' ? 'steps' : 'minutes';
-      }
-
-      const progressPct = target > 0 ? Math.min(100, Math.round((current / target) * 100)) : 0;
-
-      // Format goal name for display
-      const goalName = kind
-        .replace(/_/g, ' ')
-        .split(' ')
-        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-        .join(' ');
-
-      monthlyProgress.push({
-        goal: goalName,
-        target,
-        current,
-        progress_pct: progressPct,
-        unit,
-      });
-    }
+  const result: GoalsProgressResponse = {};
 
-    if (monthlyProgress.length > 0) {
-      result.monthly = monthlyProgress;
-    }
+  for (const g of goals) {
+    const metric = parseGoalMetric(g.metric);
+    if (!metric) continue; // written before references were validated
+
+    const custom = metric.source === 'custom' ? customMetrics.find((m) => m.key === metric.key) : undefined;
+    const current = round1(await goalValueDB(metric, windows[g.period], custom));
+    const { label, unit } = describeGoalMetric(metric, custom);
+
+    const item: GoalProgressItem = {
+      goal: label,
+      metric: g.metric,
+      direction: g.direction,
+      target: g.target,
+      current,
+      ...goalProgress(current, g.target, g.direction),
+      unit,
+    };
+    (result[g.period] ??= []).push(item);
   }
 
   return result;
@@ -197,20 +93,27 @@ async function getGoalsProgress(
 /**
  * GET /api/v1/dashboard/goals/progress
  *
- * Returns progress towards goals for daily and/or monthly periods.
+ * Returns progress towards goals for daily, weekly, monthly and yearly periods.
+ *
+ * A goal tracks any metric: a days column (steps, reading_minutes, sleep_score,
+ * ...), workout:<type>:<distance_km|duration_min|sessions>, coffee:<cups|caffeine_mg>
+ * or custom:<key>. Its current value covers today, the ISO week (from Monday),
+ * the month or the year so far, in Europe/Berlin.
  *
  * Query Parameters:
- * - period (optional): Filter by period ('daily' or 'monthly'). Defaults to returning both.
+ * - period (optional): Filter by period ('daily', 'weekly', 'monthly' or 'yearly').
+ *   Defaults to returning all.
  *
- * Response:
- * - daily: Array of daily goal progress (optional)
+ * Response (a key per period with goals):
+ * - daily / weekly / monthly / yearly: Array of goal progress (optional)
  *   - goal: Goal name
+ *   - metric: Metric reference
+ *   - direction: 'at_least' (reach the target) or 'at_most' (stay under it)
  *   - target: Target value
  *   - current: Current value
- *   - progress_pct: Progress percentage (0-100)
- *   - unit: Unit of measurement (steps, minutes, km)
- * - monthly: Array of monthly goal progress (optional)
- *   - Same structure as daily
+ *   - progress_pct: Progress percentage (0-100); for 'at_most' the share of the cap used
+ *   - met: Whether the goal is met so far
+ *   - unit: Unit of measurement (steps, minutes, km, cups, mg, ...)
  *
  * Cache:
  * - Duration: 1 minute (FREQUENT)
@@ -222,18 +125,34 @@ async function getGoalsProgress(
  *   "daily": [
  *     {
  *       "goal": "Steps",
+ *       "metric": "steps",
+ *       "direction": "at_least",
  *       "target": 10000,
  *       "current": 8500,
  *       "progress_pct": 85,
+ *       "met": false,
  *       "unit": "steps"
+ *     },
+ *     {
+ *       "goal": "Caffeine",
+ *       "metric": "coffee:caffeine_mg",
+ *       "direction": "at_most",
+ *       "target": 400,
+ *       "current": 200,
+ *       "progress_pct": 50,
+ *       "met": true,
+ *       "unit": "mg"
  *     }
  *   ],
  *   "monthly": [
  *     {
- *       "goal": "Running Distance Km",
+ *       "goal": "Running Distance",
+ *       "metric": "running_distance_km",
+ *       "direction": "at_least",
  *       "target": 100,
  *       "current": 45.5,
  *       "progress_pct": 46,
+ *       "met": false,
  *       "unit": "km"
  *     }
  *   ]
@@ -60,7 +60,9 @@ describe('GET /api/v1/dashboard/goals', () => {
 
       expect(data).toEqual({
         daily: {},
+        weekly: {},
         monthly: {},
+        yearly: {},
       });
     });
 
@@ -93,9 +95,11 @@ describe('GET /api/v1/dashboard/goals', () => {
           coding_minutes: 120,
           focus_minutes: 180,
         },
+        weekly: {},
         monthly: {
           running_distance_km: 100,
         },
+        yearly: {},
       });
     });
 
@@ -144,6 +148,33 @@ describe('GET /api/v1/dashboard/goals', () => {
     });
   });
 
+  describe('Goal Metrics', () => {
+    it('should group goals on any metric by period', async () => {
+      vi.mocked(sql).mockResolvedValueOnce([{ month_start: '2025-12-01' }] as never);
+      vi.mocked(sql).mockResolvedValueOnce([
+        { kind: 'coffee:cups', target: 3, period: 'daily' },
+        { kind: 'workout:climbing:sessions', target: 2, period: 'weekly' },
+        { kind: 'steps', target: 70000, period: 'weekly' },
+        { kind: 'custom:books_finished', target: 24, period: 'yearly' },
+      ] as never);
+
+      const request = new Request('http://localhost:3000/api/v1/dashboard/goals', {
+        headers: {
+          'x-admin-secret': 'test-dashboard-secret-1234567890',
+        },
+      });
+      const response = await GET(request);
+      const data = await response.json();
+
+      expect(data).toEqual({
+        daily: { 'coffee:cups': 3 },
+        weekly: { 'workout:climbing:sessions': 2, steps: 70000 },
+        monthly: {},
+        yearly: { 'custom:books_finished': 24 },
+      });
+    });
+  });
+
   describe('Cache Headers', () => {
     it('should set correct cache headers (10 minutes for stable data)', async () => {
       vi.mocked(sql).mockResolvedValueOnce([{ month_start: '2025-12-01' }] as never);
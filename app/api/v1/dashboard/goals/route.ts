@@ -11,13 +11,15 @@ import { z } from 'zod';
  */
 const GoalsResponseSchema = z.object({
   daily: z.record(z.string(), z.number()),
+  weekly: z.record(z.string(), z.number()),
   monthly: z.record(z.string(), z.number()),
+  yearly: z.record(z.string(), z.number()),
 });
 
 export type GoalsResponse = z.infer<typeof GoalsResponseSchema>;
 
 /**
- * Get all goals (daily and monthly)
+ * Get all goals (daily, weekly, monthly and yearly)
  *
  * @returns Goals data organized by period
  */
@@ -40,8 +42,7 @@ async function getGoals(): Promise<GoalsResponse> {
     period: string;
   }
 
-  const daily: Record<string, number> = {};
-  const monthly: Record<string, number> = {};
+  const goals: GoalsResponse = { daily: {}, weekly: {}, monthly: {}, yearly: {} };
 
   for (const r of rows) {
     const row = r as GoalRow;
@@ -49,26 +50,30 @@ async function getGoals(): Promise<GoalsResponse> {
     const target = Number(row.target);
     const period = String(row.period);
 
-    if (period === 'daily') {
-      daily[kind] = target;
-    } else if (period === 'monthly') {
-      monthly[kind] = target;
+    if (period in goals) {
+      goals[period as keyof GoalsResponse][kind] = target;
     }
   }
 
-  return { daily, monthly };
+  return goals;
 }
 
 /**
  * GET /api/v1/dashboard/goals
  *
- * Returns all goals organized by period (daily and monthly).
+ * Returns all goals organized by period (daily, weekly, monthly and yearly).
  *
  * Response:
- * - daily: Object mapping goal names to daily target values
- *   Example: { "steps": 10000, "reading_minutes": 30 }
- * - monthly: Object mapping goal names to monthly target values
+ * - daily: Object mapping goal metrics to daily target values
+ *   Example: { "steps": 10000, "coffee:cups": 3 }
+ * - weekly: Object mapping goal metrics to weekly target values
+ *   Example: { "workout:climbing:sessions": 2 }
+ * - monthly: Object mapping goal metrics to monthly target values
  *   Example: { "running_distance_km": 100 }
+ * - yearly: Object mapping goal metrics to yearly target values
+ *
+ * Goal metrics are days columns, workout:<type>:<field>, coffee:<field> or
+ * custom:<key>; see /api/v1/dashboard/goals/progress for current values.
  *
  * Cache:
  * - Duration: 10 minutes (STABLE - changes infrequently)
@@ -85,9 +90,11 @@ async function getGoals(): Promise<GoalsResponse> {
  *     "coding_minutes": 120,
  *     "focus_minutes": 180
  *   },
+ *   "weekly": {},
  *   "monthly": {
  *     "running_distance_km": 100
- *   }
+ *   },
+ *   "yearly": {}
  * }
  */
 export const GET = createApiRoute()
@@ -47,6 +47,7 @@ async function getHabitsConsistency(days: number): Promise<HabitsConsistencyResp
     FROM monthly_goals
     WHERE month = ${month_start}::date
       AND period = 'daily'
+      AND direction = 'at_least'
   `;
 
   interface GoalRow {
@@ -61,6 +61,7 @@ async function getHabitsStreaks(): Promise<HabitsStreaksResponse> {
     FROM monthly_goals
     WHERE month = ${month_start}::date
       AND period = 'daily'
+      AND direction = 'at_least'
   `;
 
   interface GoalRow {
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from './route';
+
+// Mock dependencies
+vi.mock('@/env', () => ({
+  env: {
+    DASHBOARD_API_SECRET: 'test-dashboard-secret-1234567890',
+  },
+}));
+
+vi.mock('@/lib/db/insights', () => ({
+  getInsightChangesDB: vi.fn(),
+}));
+
+import { getInsightChangesDB } from '@/lib/db/insights';
+
+const headers = { 'x-admin-secret': 'test-dashboard-secret-1234567890' };
+const BASE = 'http://localhost:3000/api/v1/dashboard/insights/changes';
+
+describe('GET /api/v1/dashboard/insights/changes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getInsightChangesDB).mockResolvedValue({
+      current_date: '2025-01-12',
+      previous_date: '2025-01-05',
+      events: [
+        {
+          type: 'faded',
+          date: '2025-01-12',
+          metric_a: 'stress',
+          metric_b: 'mood',
+          previous: { r: -0.5, q_value: 0.01, lag: 0, snapshot_date: '2025-01-05' },
+          current: { r: -0.2, q_value: 0.3, lag: 0, snapshot_date: '2025-01-12' },
+        },
+      ],
+    });
+  });
+
+  it('should require authentication', async () => {
+    const response = await GET(new Request(BASE));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should compare against last week by default', async () => {
+    const response = await GET(new Request(BASE, { headers }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(getInsightChangesDB).toHaveBeenCalledWith(7);
+    expect(data.since_days).toBe(7);
+    expect(data.previous_date).toBe('2025-01-05');
+    expect(data.events[0].type).toBe('faded');
+    expect(response.headers.get('X-Cache-Tags')).toBe('insights:changes:7,insights:changes');
+  });
+
+  it('should pass since_days through', async () => {
+    await GET(new Request(`${BASE}?since_days=30`, { headers }));
+
+    expect(getInsightChangesDB).toHaveBeenCalledWith(30);
+  });
+
+  it('should return 400 for an invalid since_days', async () => {
+    const response = await GET(new Request(`${BASE}?since_days=0`, { headers }));
+
+    expect(response.status).toBe(400);
+  });
+});
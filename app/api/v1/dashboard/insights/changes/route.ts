@@ -0,0 +1,93 @@
+export const runtime = 'nodejs';
+
+import { createApiRoute } from '@/lib/api/middleware';
+import { apiSuccess, apiError } from '@/lib/api/responses';
+import { insightsTags, CACHE_DURATIONS } from '@/lib/api/cache';
+import { getInsightChangesDB } from '@/lib/db/insights';
+import { z } from 'zod';
+
+/**
+ * Query parameters schema
+ */
+const QueryParamsSchema = z.object({
+  since_days: z.coerce.number().int().min(1).max(90).default(7),
+});
+
+/**
+ * GET /api/v1/dashboard/insights/changes
+ *
+ * Insights that appeared ("new") or stopped being significant ("faded") between
+ * the latest daily snapshot and the latest snapshot at least since_days older.
+ *
+ * Query Parameters:
+ * - since_days (optional): Comparison distance in days (1-90, default: 7)
+ *
+ * Response:
+ * - current_date / previous_date: Snapshots compared (null when missing)
+ * - events: Changes, strongest first; previous/current hold r, q_value and lag
+ *   (null when the pair was not tested on that date)
+ *
+ * Cache:
+ * - Duration: 1 hour (STABLE) - snapshots change once a day
+ * - Tags: insights:changes:{since_days}, insights:changes
+ *
+ * Example:
+ * GET /api/v1/dashboard/insights/changes
+ * {
+ *   "current_date": "2025-01-12",
+ *   "previous_date": "2025-01-05",
+ *   "events": [
+ *     { "type": "new", "date": "2025-01-12", "metric_a": "outdoorMinutes", "metric_b": "mood",
+ *       "previous": { "r": 0.28, "q_value": 0.21, "lag": 2, "snapshot_date": "2025-01-05" },
+ *       "current": { "r": 0.41, "q_value": 0.04, "lag": 2, "snapshot_date": "2025-01-12" } }
+ *   ]
+ * }
+ */
+export const GET = createApiRoute()
+  .withAuth()
+  .withRateLimit('dashboard-insights-changes', { windowSec: 60, max: 30 })
+  .withTrace('GET /api/v1/dashboard/insights/changes')
+  .handle(async (request) => {
+    try {
+      const url = new URL(request.url);
+      const paramsResult = QueryParamsSchema.safeParse(
+        Object.fromEntries(url.searchParams.entries())
+      );
+      if (!paramsResult.success) {
+        return apiError(
+          'Invalid query parameters',
+          400,
+          paramsResult.error.flatten(),
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const { since_days } = paramsResult.data;
+      const changes = await getInsightChangesDB(since_days);
+
+      const response = apiSuccess({ since_days, ...changes });
+      response.headers.set(
+        'X-Cache-Tags',
+        [insightsTags('changes', since_days), insightsTags('changes')].join(',')
+      );
+      response.headers.set(
+        'Cache-Control',
+        `s-maxage=${CACHE_DURATIONS.STABLE}, stale-while-revalidate`
+      );
+
+      return response;
+    } catch (error) {
+      console.error('Error fetching insight changes:', error);
+
+      if (error instanceof Error) {
+        return apiError(
+          'Failed to fetch insight changes',
+          500,
+          process.env.NODE_ENV === 'development' ? error.message : undefined,
+          'INTERNAL_ERROR'
+        );
+      }
+
+      return apiError('An unexpected error occurred', 500, undefined, 'INTERNAL_ERROR');
+    }
+  });
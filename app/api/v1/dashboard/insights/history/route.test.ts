@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from './route';
+
+// Mock dependencies
+vi.mock('@/env', () => ({
+  env: {
+    DASHBOARD_API_SECRET: 'test-dashboard-secret-1234567890',
+  },
+}));
+
+vi.mock('@/lib/db/client', () => ({
+  sql: vi.fn(),
+}));
+
+vi.mock('@/lib/db/insights', () => ({
+  getInsightPairHistoryDB: vi.fn(),
+}));
+
+import { getInsightPairHistoryDB } from '@/lib/db/insights';
+import type { InsightSnapshotRow } from '@/lib/insights/snapshots';
+
+const headers = { 'x-admin-secret': 'test-dashboard-secret-1234567890' };
+const BASE = 'http://localhost:3000/api/v1/dashboard/insights/history';
+
+function snapshot(date: string, r: number, q: number, significant: boolean): InsightSnapshotRow {
+  return {
+    snapshot_date: date,
+    window_days: 90,
+    metric_a: 'outdoorMinutes',
+    metric_b: 'mood',
+    lag: 2,
+    method: 'pearson',
+    r,
+    r_lower: r - 0.2,
+    r_upper: r + 0.2,
+    p_value: q / 3,
+    q_value: q,
+    n: 84,
+    significant,
+  };
+}
+
+describe('GET /api/v1/dashboard/insights/history', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getInsightPairHistoryDB).mockResolvedValue([
+      snapshot('2025-01-05', 0.28, 0.21, false),
+      snapshot('2025-01-12', 0.41, 0.04, true),
+    ]);
+  });
+
+  it('should require authentication', async () => {
+    const response = await GET(new Request(`${BASE}?metric_a=outdoorMinutes&metric_b=mood`));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should return the pair history with events', async () => {
+    const response = await GET(
+      new Request(`${BASE}?metric_a=outdoorMinutes&metric_b=mood`, { headers })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(getInsightPairHistoryDB).toHaveBeenCalledWith('outdoorMinutes', 'mood', 180);
+    expect(data.points).toHaveLength(2);
+    expect(data.points[1]).toMatchObject({ date: '2025-01-12', r: 0.41, lag: 2, significant: true });
+    expect(data.events).toEqual([
+      expect.objectContaining({ type: 'new', date: '2025-01-12' }),
+    ]);
+    expect(response.headers.get('X-Cache-Tags')).toBe(
+      'insights:history:mood:outdoorMinutes,insights:history'
+    );
+  });
+
+  it('should pass days through', async () => {
+    await GET(new Request(`${BASE}?metric_a=mood&metric_b=sleepScore&days=30`, { headers }));
+
+    expect(getInsightPairHistoryDB).toHaveBeenCalledWith('mood', 'sleepScore', 30);
+  });
+
+  it('should reject unknown metrics', async () => {
+    const response = await GET(
+      new Request(`${BASE}?metric_a=outdoorMinutes&metric_b=nope`, { headers })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should reject a metric paired with itself', async () => {
+    const response = await GET(new Request(`${BASE}?metric_a=mood&metric_b=mood`, { headers }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 500 when the query fails', async () => {
+    vi.mocked(getInsightPairHistoryDB).mockRejectedValue(new Error('db down'));
+
+    const response = await GET(
+      new Request(`${BASE}?metric_a=outdoorMinutes&metric_b=mood`, { headers })
+    );
+
+    expect(response.status).toBe(500);
+  });
+});
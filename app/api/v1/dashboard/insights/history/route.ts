@@ -0,0 +1,131 @@
+export const runtime = 'nodejs';
+
+import { createApiRoute } from '@/lib/api/middleware';
+import { apiSuccess, apiError } from '@/lib/api/responses';
+import { insightsTags, CACHE_DURATIONS } from '@/lib/api/cache';
+import { getInsightPairHistoryDB } from '@/lib/db/insights';
+import { AVAILABLE_METRICS } from '@/lib/insights/data-aggregator';
+import { historyEvents } from '@/lib/insights/snapshots';
+import { z } from 'zod';
+
+const metricKeys = AVAILABLE_METRICS.map((m) => m.key) as [string, ...string[]];
+
+// Built-in metric key or a registered custom metric (custom.<key>)
+const MetricKeySchema = z.union([z.enum(metricKeys), z.string().regex(/^custom\.[a-z][a-z0-9_]*$/)]);
+
+/**
+ * Query parameters schema
+ */
+const QueryParamsSchema = z
+  .object({
+    metric_a: MetricKeySchema,
+    metric_b: MetricKeySchema,
+    days: z.coerce.number().int().min(7).max(730).default(180),
+  })
+  .refine((q) => q.metric_a !== q.metric_b, {
+    message: 'metric_a and metric_b must differ',
+    path: ['metric_b'],
+  });
+
+/**
+ * GET /api/v1/dashboard/insights/history
+ *
+ * How one metric pair's correlation evolved across the daily insight snapshots
+ * (written by the scheduled /api/insights/snapshot job), with the days on which
+ * it became or stopped being a significant insight.
+ *
+ * Query Parameters:
+ * - metric_a (required): Metric key (see AVAILABLE_METRICS) or custom.<key>
+ * - metric_b (required): Metric key; the pair is matched in either order
+ * - days (optional): Snapshots to return, counted back from today (7-730, default: 180)
+ *
+ * Response:
+ * - points: One entry per snapshot, oldest first. metric_a/metric_b give the
+ *   direction found that day (metric_b trails metric_a by lag days)
+ * - events: "new" / "faded" transitions of the significance flag
+ *
+ * Cache:
+ * - Duration: 1 hour (STABLE) - snapshots change once a day
+ * - Tags: insights:history:{a}:{b}, insights:history
+ *
+ * Example:
+ * GET /api/v1/dashboard/insights/history?metric_a=outdoorMinutes&metric_b=mood
+ * {
+ *   "metric_a": "outdoorMinutes",
+ *   "metric_b": "mood",
+ *   "points": [
+ *     { "date": "2025-01-05", "r": 0.28, "r_lower": 0.02, "r_upper": 0.5, "p_value": 0.01,
+ *       "q_value": 0.21, "n": 84, "lag": 2, "significant": false, ... }
+ *   ],
+ *   "events": [{ "type": "new", "date": "2025-01-12", ... }]
+ * }
+ */
+export const GET = createApiRoute()
+  .withAuth()
+  .withRateLimit('dashboard-insights-history', { windowSec: 60, max: 30 })
+  .withTrace('GET /api/v1/dashboard/insights/history')
+  .handle(async (request) => {
+    try {
+      const url = new URL(request.url);
+      const paramsResult = QueryParamsSchema.safeParse(
+        Object.fromEntries(url.searchParams.entries())
+      );
+      if (!paramsResult.success) {
+        return apiError(
+          'Invalid query parameters',
+          400,
+          paramsResult.error.flatten(),
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const { metric_a, metric_b, days } = paramsResult.data;
+      const rows = await getInsightPairHistoryDB(metric_a, metric_b, days);
+
+      const response = apiSuccess({
+        metric_a,
+        metric_b,
+        days,
+        points: rows.map((row) => ({
+          date: row.snapshot_date,
+          metric_a: row.metric_a,
+          metric_b: row.metric_b,
+          lag: row.lag,
+          method: row.method,
+          r: row.r,
+          r_lower: row.r_lower,
+          r_upper: row.r_upper,
+          p_value: row.p_value,
+          q_value: row.q_value,
+          n: row.n,
+          significant: row.significant,
+        })),
+        events: historyEvents(rows),
+      });
+
+      const [first, second] = [metric_a, metric_b].sort();
+      response.headers.set(
+        'X-Cache-Tags',
+        [insightsTags('history', first, second), insightsTags('history')].join(',')
+      );
+      response.headers.set(
+        'Cache-Control',
+        `s-maxage=${CACHE_DURATIONS.STABLE}, stale-while-revalidate`
+      );
+
+      return response;
+    } catch (error) {
+      console.error('Error fetching insight history:', error);
+
+      if (error instanceof Error) {
+        return apiError(
+          'Failed to fetch insight history',
+          500,
+          process.env.NODE_ENV === 'development' ? error.message : undefined,
+          'INTERNAL_ERROR'
+        );
+      }
+
+      return apiError('An unexpected error occurred', 500, undefined, 'INTERNAL_ERROR');
+    }
+  });
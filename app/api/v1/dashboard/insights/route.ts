@@ -4,6 +4,7 @@ import { createApiRoute } from '@/lib/api/middleware';
 import { apiSuccess, apiError } from '@/lib/api/responses';
 import { insightsTags, CACHE_DURATIONS } from '@/lib/api/cache';
 import { discoverCorrelations } from '@/lib/insights/correlation-discovery';
+import { MAX_LAG_DAYS } from '@/lib/stats/correlation';
 import { z } from 'zod';
 
 /**
@@ -13,6 +14,10 @@ const QueryParamsSchema = z.object({
   days: z.coerce.number().int().min(7).max(365).optional().default(90),
   p_value_threshold: z.coerce.number().min(0).max(1).optional().default(0.1),
   min_abs_r: z.coerce.number().min(0).max(1).optional().default(0.3),
+  correction: z.enum(['bh', 'bonferroni', 'none']).optional().default('bh'),
+  method: z.enum(['pearson', 'spearman', 'kendall']).optional().default('pearson'),
+  max_lag: z.coerce.number().int().min(0).max(MAX_LAG_DAYS).optional().default(1),
+  control_confounders: z.enum(['true', 'false']).optional().default('true'),
 });
 
 // Note: We don't validate the full response schema with Zod because
@@ -29,11 +34,20 @@ const QueryParamsSchema = z.object({
  *
  * Query Parameters:
  * - days (optional): Number of days to analyze (7-365, default: 90)
- * - p_value_threshold (optional): Maximum p-value for significance (0-1, default: 0.1)
+ * - p_value_threshold (optional): Maximum corrected p-value (q) for significance (0-1, default: 0.1)
  * - min_abs_r (optional): Minimum absolute correlation coefficient (0-1, default: 0.3)
+ * - correction (optional): Multiple-comparison correction across all tested pairs:
+ *   "bh" (Benjamini–Hochberg FDR, default), "bonferroni" or "none"
+ * - method (optional): "pearson" (default), "spearman" or "kendall" for continuous pairs;
+ *   binary×continuous pairs always use point-biserial
+ * - max_lag (optional): Largest lag in days tested in both directions (0-7, default: 1).
+ *   A result with lag k relates metricA on day t to metricB on day t + k
+ * - control_confounders (optional): "true" (default) also computes partial correlations
+ *   controlling for day-of-week, weather and sleep score and sets likelyConfounded
  *
  * Response:
- * - correlations: Array of discovered correlation insights
+ * - correlations: Array of discovered correlation insights, each with its
+ *   q-value and a bootstrap 95% confidence interval for r
  * - metadata: Analysis parameters and statistics
  *
  * Cache:
@@ -49,6 +63,13 @@ const QueryParamsSchema = z.object({
  *       "metricA": { "key": "sleepScore", "label": "Sleep Score", ... },
  *       "metricB": { "key": "mood", "label": "Mood", ... },
  *       "correlation": { "r": 0.65, "pValue": 0.001, "confidence": "strong", ... },
+ *       "method": "pearson",
+ *       "lag": 0,
+ *       "qValue": 0.012,
+ *       "correction": "bh",
+ *       "rInterval": { "lower": 0.48, "upper": 0.78, "level": 0.95 },
+ *       "partial": { "r": 0.52, "pValue": 0.004, "controls": ["day of week", "Temperature"], ... },
+ *       "likelyConfounded": false,
  *       "dateRange": { "start": "2024-10-07", "end": "2025-01-05" },
  *       "interpretation": "When Sleep Score goes up, Mood tends to increase..."
  *     }
@@ -56,7 +77,11 @@ const QueryParamsSchema = z.object({
  *   "metadata": {
  *     "days_analyzed": 90,
  *     "min_correlation": 0.4,
- *     "p_value_threshold": 0.05
+ *     "p_value_threshold": 0.05,
+ *     "correction": "bh",
+ *     "method": "pearson",
+ *     "max_lag": 1,
+ *     "control_confounders": true
  *   }
  * }
  */
@@ -71,12 +96,20 @@ export const GET = createApiRoute()
       const daysParam = url.searchParams.get('days');
       const pValueParam = url.searchParams.get('p_value_threshold');
       const minAbsRParam = url.searchParams.get('min_abs_r');
+      const correctionParam = url.searchParams.get('correction');
+      const methodParam = url.searchParams.get('method');
+      const maxLagParam = url.searchParams.get('max_lag');
+      const controlParam = url.searchParams.get('control_confounders');
 
       // Validate query parameters
       const paramsResult = QueryParamsSchema.safeParse({
         days: daysParam,
         p_value_threshold: pValueParam,
         min_abs_r: minAbsRParam,
+        correction: correctionParam ?? undefined,
+        method: methodParam ?? undefined,
+        max_lag: maxLagParam ?? undefined,
+        control_confounders: controlParam ?? undefined,
       });
 
       if (!paramsResult.success) {
@@ -88,7 +121,9 @@ export const GET = createApiRoute()
         );
       }
 
-      const { days, p_value_threshold, min_abs_r } = paramsResult.data;
+      const { days, p_value_threshold, min_abs_r, correction, method, max_lag } =
+        paramsResult.data;
+      const controlForConfounders = paramsResult.data.control_confounders === 'true';
 
       // Execute expensive correlation discovery query
       // This performs 7+ table joins and statistical calculations
@@ -96,6 +131,10 @@ export const GET = createApiRoute()
         days,
         pValueThreshold: p_value_threshold,
         minAbsR: min_abs_r,
+        correction,
+        method,
+        maxLag: max_lag,
+        controlForConfounders,
       });
 
       const response = {
@@ -104,6 +143,10 @@ export const GET = createApiRoute()
           days_analyzed: days,
           min_correlation: min_abs_r,
           p_value_threshold,
+          correction,
+          method,
+          max_lag,
+          control_confounders: controlForConfounders,
         },
       };
 
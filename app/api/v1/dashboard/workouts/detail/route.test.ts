@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from './route';
+
+vi.mock('@/lib/db/client', () => ({
+  sql: vi.fn(),
+}));
+
+vi.mock('@/lib/db/workout-streams', () => ({
+  getWorkoutStreamsDB: vi.fn(),
+}));
+
+vi.mock('@/lib/user/profile', () => ({
+  getAthleteProfile: vi.fn(async () => ({ max_hr: 190, resting_hr: 60, lthr: null, ftp_w: null, sex: null })),
+}));
+
+vi.mock('@/env', () => ({
+  env: {
+    DASHBOARD_API_SECRET: 'test-dashboard-secret-1234567890',
+  },
+}));
+
+import { sql } from '@/lib/db/client';
+import { getWorkoutStreamsDB } from '@/lib/db/workout-streams';
+
+const headers = { 'x-admin-secret': 'test-dashboard-secret-1234567890' };
+
+// As selected: distance and elevation are read from details (Strava stores distance_m)
+const workoutRow = {
+  id: 42,
+  date: '2025-12-05',
+  workout_type: 'running',
+  duration_min: 10,
+  distance_km: '3.0000000000000000',
+  elevation_gain_m: '12.4',
+  intensity: 'moderate',
+  details: { distance_m: 3000, elevation_gain_m: 12.4, avg_heartrate: 150 },
+  notes: null,
+  source: 'strava',
+};
+
+describe('GET /api/v1/dashboard/workouts/detail', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should require authentication', async () => {
+    const response = await GET(new Request('http://localhost:3000/api/v1/dashboard/workouts/detail?id=42'));
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject a missing id', async () => {
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/workouts/detail', { headers })
+    );
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 404 for unknown workouts', async () => {
+    vi.mocked(sql).mockResolvedValueOnce([] as never);
+
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/workouts/detail?id=7', { headers })
+    );
+    expect(response.status).toBe(404);
+  });
+
+  it('should return null analysis without streams', async () => {
+    vi.mocked(sql).mockResolvedValueOnce([workoutRow] as never);
+    vi.mocked(getWorkoutStreamsDB).mockResolvedValueOnce(null);
+
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/workouts/detail?id=42', { headers })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.workout).toMatchObject({ id: 42, workout_type: 'running', distance_km: 3, elevation_gain_m: 12.4 });
+    expect(data.analysis).toBeNull();
+
+    // Both moved to details in migration 009
+    const query = (vi.mocked(sql).mock.calls[0][0] as unknown as string[]).join('?');
+    expect(query).toContain("(details->>'distance_m')::numeric / 1000");
+    expect(query).not.toMatch(/^\s*distance_km,/m);
+  });
+
+  it('should analyze stored streams', async () => {
+    // 10 minutes at 5 m/s and 150 bpm
+    const time_s = Array.from({ length: 601 }, (_, i) => i);
+    vi.mocked(sql).mockResolvedValueOnce([workoutRow] as never);
+    vi.mocked(getWorkoutStreamsDB).mockResolvedValueOnce({
+      source: 'strava',
+      time_s,
+      distance_m: time_s.map((t) => t * 5),
+      heartrate: time_s.map(() => 150),
+      velocity_mps: time_s.map(() => 5),
+      altitude_m: null,
+      lat: null,
+      lng: null,
+    });
+
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/workouts/detail?id=42&max_hr=200', { headers })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.analysis.point_count).toBe(601);
+    expect(data.analysis.max_hr).toBe(200);
+    // 150 bpm is 75% of 200: zone 3
+    expect(data.analysis.hr_zones[2].seconds).toBe(600);
+    expect(data.analysis.trimp).toBeGreaterThan(0);
+    expect(data.analysis.splits).toHaveLength(3);
+    expect(data.analysis.splits[0].pace_sec_per_km).toBeCloseTo(200, 6);
+    expect(data.analysis.elevation).toBeNull();
+    expect(data.analysis.series).toHaveLength(300);
+    expect(response.headers.get('X-Cache-Tags')).toContain('workouts:detail:42');
+  });
+});
@@ -0,0 +1,182 @@
+export const runtime = 'nodejs';
+
+import { createApiRoute } from '@/lib/api/middleware';
+import { apiSuccess, apiError, notFound } from '@/lib/api/responses';
+import { workoutsTags, CACHE_DURATIONS } from '@/lib/api/cache';
+import { sql } from '@/lib/db/client';
+import { getWorkoutStreamsDB } from '@/lib/db/workout-streams';
+import {
+  elevationProfile,
+  hrZones,
+  sampleIndices,
+  splits,
+  type WorkoutStreams,
+} from '@/lib/phys/workout-streams';
+import { hrZoneBounds, streamTrimp, type AthleteProfile } from '@/lib/phys/training-load';
+import { getAthleteProfile } from '@/lib/user/profile';
+import type { WorkoutDetailResponse } from '@/lib/api/types';
+import { z } from 'zod';
+
+// Points in the downsampled time series returned for charts
+const SERIES_POINTS = 300;
+
+/**
+ * Query parameters schema
+ */
+const QueryParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+  max_hr: z.coerce.number().int().min(100).max(250).optional(),
+});
+
+function round1(n: number | null): number | null {
+  return n === null ? null : Math.round(n * 10) / 10;
+}
+
+/**
+ * Analysis of the stored streams of a workout
+ */
+function analyzeStreams(
+  streams: WorkoutStreams & { source: string },
+  athlete: AthleteProfile
+): NonNullable<WorkoutDetailResponse['analysis']> {
+  const hasHr = Boolean(streams.heartrate?.some((v) => v !== null && v > 0));
+  const pick = (series: (number | null)[] | null | undefined, i: number) => series?.[i] ?? null;
+
+  return {
+    source: streams.source,
+    point_count: streams.time_s.length,
+    max_hr: athlete.max_hr,
+    lthr: athlete.lthr ?? null,
+    hr_zones: hasHr ? hrZones(streams, hrZoneBounds(athlete)) : null,
+    trimp: hasHr ? round1(streamTrimp(streams, athlete)) : null,
+    splits: splits(streams),
+    elevation: elevationProfile(streams),
+    series: sampleIndices(streams.time_s.length, SERIES_POINTS).map((i) => ({
+      time_s: streams.time_s[i],
+      distance_m: pick(streams.distance_m, i),
+      heartrate: pick(streams.heartrate, i),
+      velocity_mps: pick(streams.velocity_mps, i),
+      altitude_m: pick(streams.altitude_m, i),
+    })),
+  };
+}
+
+/**
+ * GET /api/v1/dashboard/workouts/detail
+ *
+ * Returns a single workout with an analysis of its imported streams.
+ *
+ * Query Parameters:
+ * - id (required): Workout ID
+ * - max_hr (optional): Max heart rate for the zone bounds, overriding the
+ *   athlete profile (zones are then based on max HR rather than LTHR)
+ *
+ * Response:
+ * - workout: The workout summary
+ * - analysis: null if no streams were imported, otherwise
+ *   - hr_zones: Time in five zones (by LTHR if set in the athlete profile,
+ *     otherwise 60/70/80/90% of max HR), null without HR data
+ *   - trimp: Banister TRIMP summed over the heart-rate samples
+ *   - splits: Kilometre splits with pace, average HR and elevation change
+ *   - elevation: Downsampled altitude profile with total gain/loss
+ *   - series: Downsampled time series (at most 300 points) for charts
+ *
+ * Cache:
+ * - Duration: 1 hour (STABLE)
+ * - Tags: workouts:detail:{id}, workouts:detail
+ *
+ * Example:
+ * GET /api/v1/dashboard/workouts/detail?id=42
+ */
+export const GET = createApiRoute()
+  .withAuth()
+  .withRateLimit('dashboard-workouts-detail', { windowSec: 60, max: 30 })
+  .withTrace('GET /api/v1/dashboard/workouts/detail')
+  .handle(async (request) => {
+    try {
+      const url = new URL(request.url);
+      const paramsResult = QueryParamsSchema.safeParse({
+        id: url.searchParams.get('id') ?? undefined,
+        max_hr: url.searchParams.get('max_hr') ?? undefined,
+      });
+      if (!paramsResult.success) {
+        return apiError(
+          'Invalid query parameters',
+          400,
+          paramsResult.error.flatten(),
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const { id, max_hr } = paramsResult.data;
+
+      const rows = await sql/*sql*/`
+        SELECT
+          id,
+          date::text as date,
+          workout_type::text as workout_type,
+          duration_min,
+          COALESCE(
+            (details->>'distance_km')::numeric,
+            (details->>'distance_m')::numeric / 1000
+          ) as distance_km,
+          (details->>'elevation_gain_m')::numeric as elevation_gain_m,
+          intensity,
+          details,
+          notes,
+          source
+        FROM workouts
+        WHERE id = ${id}
+        LIMIT 1
+      `;
+
+      if (!rows[0]) {
+        return notFound('Workout');
+      }
+
+      const r = rows[0];
+      const streams = await getWorkoutStreamsDB(id);
+      const profile = await getAthleteProfile();
+      const athlete = max_hr ? { ...profile, max_hr, lthr: null } : profile;
+
+      const data: WorkoutDetailResponse = {
+        workout: {
+          id: Number(r.id),
+          date: String(r.date),
+          workout_type: String(r.workout_type),
+          duration_min: Number(r.duration_min),
+          distance_km: r.distance_km === null ? null : Number(r.distance_km),
+          elevation_gain_m: r.elevation_gain_m === null ? null : Number(r.elevation_gain_m),
+          intensity: r.intensity ?? null,
+          details: r.details ?? null,
+          notes: r.notes ?? null,
+          source: r.source ?? null,
+        },
+        analysis: streams ? analyzeStreams(streams, athlete) : null,
+      };
+
+      const tags = [workoutsTags('detail', id), workoutsTags('detail')];
+
+      const response = apiSuccess(data);
+      response.headers.set('X-Cache-Tags', tags.join(','));
+      response.headers.set(
+        'Cache-Control',
+        `s-maxage=${CACHE_DURATIONS.STABLE}, stale-while-revalidate`
+      );
+
+      return response;
+    } catch (error) {
+      console.error('Error fetching workout detail:', error);
+
+      if (error instanceof Error) {
+        return apiError(
+          'Failed to fetch workout detail',
+          500,
+          process.env.NODE_ENV === 'development' ? error.message : undefined,
+          'INTERNAL_ERROR'
+        );
+      }
+
+      return apiError('An unexpected error occurred', 500, undefined, 'INTERNAL_ERROR');
+    }
+  });
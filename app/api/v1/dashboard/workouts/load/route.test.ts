@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from './route';
+
+vi.mock('@/lib/db/client', () => ({
+  sql: vi.fn(),
+}));
+
+vi.mock('@/env', () => ({
+  env: {
+    DASHBOARD_API_SECRET: 'test-dashboard-secret-1234567890',
+  },
+}));
+
+import { sql } from '@/lib/db/client';
+
+const headers = { 'x-admin-secret': 'test-dashboard-secret-1234567890' };
+
+/** Mock the three queries: today, period bounds, workouts */
+function mockQueries(workouts: Array<Record<string, unknown>>) {
+  vi.mocked(sql)
+    .mockResolvedValueOnce([{ current_date: '2025-12-31' }] as never)
+    .mockResolvedValueOnce([{ start_date: '2025-12-18', history_start: '2025-08-14' }] as never)
+    .mockResolvedValueOnce(workouts as never);
+}
+
+/** One workout per day from `start` for `days` days with the given TRIMP */
+function dailyWorkouts(start: string, days: number, trimp: number) {
+  return Array.from({ length: days }, (_, i) => {
+    const date = new Date(`${start}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + i);
+    return {
+      date: date.toISOString().slice(0, 10),
+      duration_min: 60,
+      intensity: 'moderate',
+      perceived_effort: null,
+      trimp: String(trimp),
+    };
+  });
+}
+
+describe('GET /api/v1/dashboard/workouts/load', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should require authentication', async () => {
+    const response = await GET(new Request('http://localhost:3000/api/v1/dashboard/workouts/load'));
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject out-of-range days', async () => {
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/workouts/load?days=3', { headers })
+    );
+    expect(response.status).toBe(400);
+  });
+
+  it('should return one point per day without a warning for steady training', async () => {
+    mockQueries(dailyWorkouts('2025-08-14', 140, 80));
+
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/workouts/load?days=14', { headers })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.series).toHaveLength(14);
+    expect(data.series[0].date).toBe('2025-12-18');
+    expect(data.series[13].date).toBe('2025-12-31');
+    expect(data.current.acwr).toBe(1);
+    expect(data.current.acwr_status).toBe('optimal');
+    expect(data.warning).toBeNull();
+    expect(response.headers.get('X-Cache-Tags')).toContain('workouts:load');
+  });
+
+  it('should warn about a load spike', async () => {
+    mockQueries([
+      ...dailyWorkouts('2025-08-14', 133, 50),
+      ...dailyWorkouts('2025-12-25', 7, 200),
+    ]);
+
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/workouts/load?days=14', { headers })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.current.acwr_status).toBe('high');
+    expect(data.current.atl).toBeGreaterThan(data.current.ctl);
+    expect(data.warning).toMatch(/injury risk/);
+  });
+});
@@ -0,0 +1,188 @@
+export const runtime = 'nodejs';
+
+import { createApiRoute } from '@/lib/api/middleware';
+import { apiSuccess, apiError } from '@/lib/api/responses';
+import { workoutsTags, CACHE_DURATIONS } from '@/lib/api/cache';
+import { sql } from '@/lib/db/client';
+import { workoutStress, type Intensity } from '@/lib/phys/training-load';
+import {
+  acwrStatus,
+  fillDailyLoads,
+  fitnessFatigue,
+  ACWR_ACUTE_DAYS,
+  ACWR_CHRONIC_DAYS,
+  ATL_DAYS,
+  CTL_DAYS,
+  WARMUP_DAYS,
+} from '@/lib/phys/fitness-fatigue';
+import type { WorkoutsLoadResponse } from '@/lib/api/types';
+import { z } from 'zod';
+
+/**
+ * Query parameters schema
+ */
+const QueryParamsSchema = z.object({
+  days: z.coerce.number().int().min(7).max(365).default(90),
+});
+
+/**
+ * Warning text for the current acute:chronic ratio, null when in range
+ */
+function acwrWarning(acwr: number | null): string | null {
+  if (acwr === null) return null;
+  switch (acwrStatus(acwr)) {
+    case 'high':
+      return `Acute load is ${acwr}× the chronic load – a spike associated with higher injury risk. Consider easing off.`;
+    case 'elevated':
+      return `Acute load is ${acwr}× the chronic load – above the 0.8–1.3 range. Ramp up gradually.`;
+    case 'low':
+      return `Acute load is ${acwr}× the chronic load – fitness will start to drop if this continues.`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Training load series for the last `days` days
+ */
+async function getWorkoutsLoad(days: number): Promise<WorkoutsLoadResponse> {
+  // Get current date in Berlin timezone
+  const [{ current_date }] = await sql/*sql*/`
+    SELECT timezone('Europe/Berlin', now())::date::text as current_date
+  `;
+
+  // Fetch extra history so ATL/CTL have settled at the start of the period
+  const [{ start_date, history_start }] = await sql/*sql*/`
+    SELECT
+      (${current_date}::date - (${days} - 1))::text as start_date,
+      (${current_date}::date - (${days} - 1) - ${WARMUP_DAYS})::text as history_start
+  `;
+
+  const rows = await sql/*sql*/`
+    SELECT
+      date::text as date,
+      duration_min,
+      intensity,
+      perceived_effort,
+      (details->>'trimp')::numeric as trimp
+    FROM workouts
+    WHERE date >= ${history_start}::date
+      AND date <= ${current_date}::date
+  `;
+
+  const loads = rows.map((r) => ({
+    date: String(r.date),
+    load: workoutStress({
+      duration_min: Number(r.duration_min),
+      intensity: (r.intensity ?? null) as Intensity | null,
+      perceived_effort: r.perceived_effort === null ? null : Number(r.perceived_effort),
+      trimp: r.trimp === null ? null : Number(r.trimp),
+    }),
+  }));
+
+  const series = fitnessFatigue(
+    fillDailyLoads(loads, String(history_start), String(current_date))
+  ).filter((p) => p.date >= String(start_date));
+
+  const today = series[series.length - 1];
+
+  return {
+    days,
+    series,
+    current: {
+      atl: today.atl,
+      ctl: today.ctl,
+      tsb: today.tsb,
+      acwr: today.acwr,
+      acwr_status: today.acwr === null ? null : acwrStatus(today.acwr),
+    },
+    warning: acwrWarning(today.acwr),
+    model: {
+      atl_days: ATL_DAYS,
+      ctl_days: CTL_DAYS,
+      acwr_acute_days: ACWR_ACUTE_DAYS,
+      acwr_chronic_days: ACWR_CHRONIC_DAYS,
+    },
+  };
+}
+
+/**
+ * GET /api/v1/dashboard/workouts/load
+ *
+ * Returns daily training stress with fatigue (ATL), fitness (CTL), form (TSB)
+ * and the acute:chronic workload ratio.
+ *
+ * Training stress per workout is its TRIMP (from heart rate, see the athlete
+ * profile) or, without heart rate, an estimate from duration and perceived
+ * effort or intensity.
+ *
+ * Query Parameters:
+ * - days (optional): Number of days to return (7-365). Defaults to 90.
+ *
+ * Response:
+ * - series: One point per day (load, atl, ctl, tsb, acwr)
+ * - current: Today's values with the ACWR band (low, optimal, elevated, high)
+ * - warning: Advice when the ACWR is outside 0.8–1.3, otherwise null
+ * - model: Time constants and ACWR windows in days
+ *
+ * Cache:
+ * - Duration: 5 minutes (FREQUENT)
+ * - Tags: workouts:load:{days}, workouts:load
+ *
+ * Example:
+ * GET /api/v1/dashboard/workouts/load?days=90
+ * {
+ *   "days": 90,
+ *   "series": [{ "date": "2025-12-05", "load": 112.4, "atl": 68.2, "ctl": 54.9, "tsb": -9.6, "acwr": 1.21 }],
+ *   "current": { "atl": 68.2, "ctl": 54.9, "tsb": -9.6, "acwr": 1.21, "acwr_status": "optimal" },
+ *   "warning": null,
+ *   "model": { "atl_days": 7, "ctl_days": 42, "acwr_acute_days": 7, "acwr_chronic_days": 28 }
+ * }
+ */
+export const GET = createApiRoute()
+  .withAuth()
+  .withRateLimit('dashboard-workouts-load', { windowSec: 60, max: 30 })
+  .withTrace('GET /api/v1/dashboard/workouts/load')
+  .handle(async (request) => {
+    try {
+      const url = new URL(request.url);
+      const paramsResult = QueryParamsSchema.safeParse({
+        days: url.searchParams.get('days') ?? undefined,
+      });
+      if (!paramsResult.success) {
+        return apiError(
+          'Invalid query parameters',
+          400,
+          paramsResult.error.flatten(),
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const { days } = paramsResult.data;
+      const data = await getWorkoutsLoad(days);
+
+      const tags = [workoutsTags('load', days), workoutsTags('load')];
+
+      const response = apiSuccess(data);
+      response.headers.set('X-Cache-Tags', tags.join(','));
+      response.headers.set(
+        'Cache-Control',
+        `s-maxage=${CACHE_DURATIONS.FREQUENT}, stale-while-revalidate`
+      );
+
+      return response;
+    } catch (error) {
+      console.error('Error fetching workouts load:', error);
+
+      if (error instanceof Error) {
+        return apiError(
+          'Failed to fetch workouts load',
+          500,
+          process.env.NODE_ENV === 'development' ? error.message : undefined,
+          'INTERNAL_ERROR'
+        );
+      }
+
+      return apiError('An unexpected error occurred', 500, undefined, 'INTERNAL_ERROR');
+    }
+  });
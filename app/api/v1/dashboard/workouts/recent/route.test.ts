@@ -0,0 +1,45 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from './route';
+
+vi.mock('@/lib/db/client', () => ({
+  sql: vi.fn(),
+}));
+
+vi.mock('@/env', () => ({
+  env: {
+    DASHBOARD_API_SECRET: 'test-dashboard-secret-1234567890',
+  },
+}));
+
+import { sql } from '@/lib/db/client';
+
+const headers = { 'x-admin-secret': 'test-dashboard-secret-1234567890' };
+
+describe('GET /api/v1/dashboard/workouts/recent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should require authentication', async () => {
+    const response = await GET(new Request('http://localhost:3000/api/v1/dashboard/workouts/recent'));
+    expect(response.status).toBe(401);
+  });
+
+  it('should read distances from details', async () => {
+    vi.mocked(sql).mockResolvedValueOnce([
+      { id: 42, date: '2025-12-05', workout_type: 'running', duration_min: 48, distance_km: '10.0200000000000000', source: 'strava', has_streams: true },
+      { id: 41, date: '2025-12-04', workout_type: 'strength', duration_min: 60, distance_km: null, source: 'manual', has_streams: false },
+    ] as never);
+
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/workouts/recent?limit=2', { headers })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.workouts.map((w: { distance_km: number | null }) => w.distance_km)).toEqual([10.02, null]);
+    const query = (vi.mocked(sql).mock.calls[0][0] as unknown as string[]).join('?');
+    expect(query).toContain("(w.details->>'distance_km')::numeric");
+    expect(query).toContain("(w.details->>'distance_m')::numeric / 1000");
+  });
+});
@@ -0,0 +1,116 @@
+export const runtime = 'nodejs';
+
+import { createApiRoute } from '@/lib/api/middleware';
+import { apiSuccess, apiError } from '@/lib/api/responses';
+import { workoutsTags, CACHE_DURATIONS } from '@/lib/api/cache';
+import { sql } from '@/lib/db/client';
+import type { RecentWorkoutsResponse } from '@/lib/api/types';
+import { z } from 'zod';
+
+/**
+ * Query parameters schema
+ */
+const QueryParamsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * GET /api/v1/dashboard/workouts/recent
+ *
+ * Returns the most recent workouts, newest first.
+ *
+ * Query Parameters:
+ * - limit (optional): Number of workouts (1-100). Defaults to 20.
+ *
+ * Response:
+ * - workouts: Array of workouts; has_streams tells whether a detail analysis
+ *   (HR zones, splits, elevation) is available
+ *
+ * Cache:
+ * - Duration: 1 minute (REALTIME)
+ * - Tags: workouts:recent:{limit}, workouts:recent
+ *
+ * Example:
+ * GET /api/v1/dashboard/workouts/recent?limit=5
+ * {
+ *   "workouts": [
+ *     { "id": 42, "date": "2025-12-05", "workout_type": "running", "duration_min": 48,
+ *       "distance_km": 10.02, "source": "strava", "has_streams": true }
+ *   ]
+ * }
+ */
+export const GET = createApiRoute()
+  .withAuth()
+  .withRateLimit('dashboard-workouts-recent', { windowSec: 60, max: 30 })
+  .withTrace('GET /api/v1/dashboard/workouts/recent')
+  .handle(async (request) => {
+    try {
+      const url = new URL(request.url);
+      const paramsResult = QueryParamsSchema.safeParse({
+        limit: url.searchParams.get('limit') ?? undefined,
+      });
+      if (!paramsResult.success) {
+        return apiError(
+          'Invalid query parameters',
+          400,
+          paramsResult.error.flatten(),
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const { limit } = paramsResult.data;
+
+      const rows = await sql/*sql*/`
+        SELECT
+          w.id,
+          w.date::text as date,
+          w.workout_type::text as workout_type,
+          w.duration_min,
+          COALESCE(
+            (w.details->>'distance_km')::numeric,
+            (w.details->>'distance_m')::numeric / 1000
+          ) as distance_km,
+          w.source,
+          EXISTS (SELECT 1 FROM workout_streams s WHERE s.workout_id = w.id) as has_streams
+        FROM workouts w
+        ORDER BY w.date DESC, w.created_at DESC
+        LIMIT ${limit}
+      `;
+
+      const data: RecentWorkoutsResponse = {
+        workouts: rows.map((r) => ({
+          id: Number(r.id),
+          date: String(r.date),
+          workout_type: String(r.workout_type),
+          duration_min: Number(r.duration_min),
+          distance_km: r.distance_km === null ? null : Number(r.distance_km),
+          source: r.source ?? null,
+          has_streams: Boolean(r.has_streams),
+        })),
+      };
+
+      const tags = [workoutsTags('recent', limit), workoutsTags('recent')];
+
+      const response = apiSuccess(data);
+      response.headers.set('X-Cache-Tags', tags.join(','));
+      response.headers.set(
+        'Cache-Control',
+        `s-maxage=${CACHE_DURATIONS.REALTIME}, stale-while-revalidate`
+      );
+
+      return response;
+    } catch (error) {
+      console.error('Error fetching recent workouts:', error);
+
+      if (error instanceof Error) {
+        return apiError(
+          'Failed to fetch recent workouts',
+          500,
+          process.env.NODE_ENV === 'development' ? error.message : undefined,
+          'INTERNAL_ERROR'
+        );
+      }
+
+      return apiError('An unexpected error occurred', 500, undefined, 'INTERNAL_ERROR');
+    }
+  });
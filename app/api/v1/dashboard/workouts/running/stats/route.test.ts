@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from './route';
+
+vi.mock('@/lib/db/client', () => ({
+  sql: vi.fn(),
+}));
+
+vi.mock('@/lib/db/best-efforts', () => ({
+  getRunningBestEffortsDB: vi.fn(),
+}));
+
+vi.mock('@/env', () => ({
+  env: {
+    DASHBOARD_API_SECRET: 'test-dashboard-secret-1234567890',
+  },
+}));
+
+import { sql } from '@/lib/db/client';
+import { getRunningBestEffortsDB } from '@/lib/db/best-efforts';
+
+const headers = { 'x-admin-secret': 'test-dashboard-secret-1234567890' };
+
+/** Mock the queries for period=all: today, totals, longest run, fastest pace */
+function mockQueries() {
+  vi.mocked(sql)
+    .mockResolvedValueOnce([{ current_date: '2025-12-31' }] as never)
+    .mockResolvedValueOnce([{ total_runs: 3, total_distance_km: '30', total_duration_min: 150 }] as never)
+    .mockResolvedValueOnce([{ date: '2025-06-01', distance_km: '15' }] as never)
+    .mockResolvedValueOnce([{ date: '2025-10-20', pace_sec_per_km: '270' }] as never);
+}
+
+describe('GET /api/v1/dashboard/workouts/running/stats', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should require authentication', async () => {
+    const response = await GET(new Request('http://localhost:3000/api/v1/dashboard/workouts/running/stats'));
+    expect(response.status).toBe(401);
+  });
+
+  it('should return best efforts with their history and race predictions', async () => {
+    mockQueries();
+    vi.mocked(getRunningBestEffortsDB).mockResolvedValueOnce([
+      { distance: '5k', elapsed_s: 1500, date: '2024-03-01', workout_id: 1, source: 'streams' },
+      { distance: '5k', elapsed_s: 1380, date: '2025-03-02', workout_id: 2, source: 'strava' },
+      { distance: '5k', elapsed_s: 1400, date: '2025-06-01', workout_id: 3, source: 'strava' },
+      { distance: '10k', elapsed_s: 2900, date: '2025-06-01', workout_id: 3, source: 'strava' },
+    ]);
+
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/workouts/running/stats?period=all', { headers })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.best_efforts.map((e: { distance: string }) => e.distance)).toEqual(['5k', '10k']);
+    expect(data.best_efforts[0]).toMatchObject({
+      elapsed_s: 1380,
+      pace_sec_per_km: 276,
+      date: '2025-03-02',
+      workout_id: 2,
+      source: 'strava',
+    });
+    expect(data.best_efforts[0].history.map((h: { workout_id: number }) => h.workout_id)).toEqual([1, 2]);
+
+    // The 2024 effort is outside the prediction window
+    const races = Object.fromEntries(
+      data.predictions.races.map((r: { distance: string }) => [r.distance, r])
+    );
+    expect(data.predictions).toMatchObject({ window_days: 365, riegel_exponent: 1.06 });
+    expect(races['5k']).toMatchObject({ predicted_s: 1380, based_on: { workout_id: 2 } });
+    expect(races['10k']).toMatchObject({ predicted_s: 2900, based_on: { distance: '10k' } });
+    expect(races.marathon.based_on.distance).toBe('10k');
+  });
+
+  it('should return empty best efforts and predictions without data', async () => {
+    mockQueries();
+    vi.mocked(getRunningBestEffortsDB).mockResolvedValueOnce([]);
+
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/workouts/running/stats?period=all', { headers })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.best_efforts).toEqual([]);
+    expect(data.predictions.races).toEqual([]);
+  });
+});
@@ -4,8 +4,22 @@ import { createApiRoute } from '@/lib/api/middleware';
 import { apiSuccess, apiError } from '@/lib/api/responses';
 import { workoutsTags, CACHE_DURATIONS } from '@/lib/api/cache';
 import { sql } from '@/lib/db/client';
+import { getRunningBestEffortsDB } from '@/lib/db/best-efforts';
+import {
+  predictRaceTimes,
+  raceDistanceMeters,
+  recordProgression,
+  RACE_DISTANCES,
+  RIEGEL_EXPONENT,
+} from '@/lib/phys/best-efforts';
 import { z } from 'zod';
 
+// Predictions use best efforts from this many days (current fitness)
+const PREDICTION_WINDOW_DAYS = 365;
+
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const RaceDistanceSchema = z.enum(['1k', '5k', '10k', 'half', 'marathon']);
+
 /**
  * Response schema for running stats endpoint
  */
@@ -21,6 +35,42 @@ const RunningStatsResponseSchema = z.object({
     fastest_pace_sec_per_km: z.number().min(0),
     fastest_pace_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   }),
+  best_efforts: z.array(
+    z.object({
+      distance: RaceDistanceSchema,
+      distance_m: z.number().positive(),
+      elapsed_s: z.number().int().positive(),
+      pace_sec_per_km: z.number().positive(),
+      date: DateSchema,
+      workout_id: z.number().int(),
+      source: z.enum(['strava', 'streams']),
+      history: z.array(
+        z.object({
+          date: DateSchema,
+          elapsed_s: z.number().int().positive(),
+          workout_id: z.number().int(),
+        })
+      ),
+    })
+  ),
+  predictions: z.object({
+    window_days: z.number().int().positive(),
+    riegel_exponent: z.number(),
+    races: z.array(
+      z.object({
+        distance: RaceDistanceSchema,
+        distance_m: z.number().positive(),
+        predicted_s: z.number().int().positive(),
+        pace_sec_per_km: z.number().positive(),
+        based_on: z.object({
+          distance: RaceDistanceSchema,
+          elapsed_s: z.number().int().positive(),
+          date: DateSchema,
+          workout_id: z.number().int(),
+        }),
+      })
+    ),
+  }),
   monthly_progress: z
     .object({
       target_km: z.number().min(0),
@@ -139,6 +189,46 @@ async function getRunningStats(period: string): Promise<RunningStatsResponse> {
     fastest_pace_date = String(fastestPaceRows[0].date);
   }
 
+  // Best efforts over standard distances (all-time), with each PR's history
+  const efforts = await getRunningBestEffortsDB();
+  const progression = recordProgression(efforts);
+  const best_efforts = RACE_DISTANCES.flatMap(({ key, meters }) => {
+    const history = progression[key];
+    const pr = history[history.length - 1];
+    if (!pr) return [];
+
+    return [{
+      distance: key,
+      distance_m: meters,
+      elapsed_s: pr.elapsed_s,
+      pace_sec_per_km: pr.elapsed_s / (meters / 1000),
+      date: pr.date,
+      workout_id: pr.workout_id,
+      source: pr.source,
+      history: history.map(({ date, elapsed_s, workout_id }) => ({ date, elapsed_s, workout_id })),
+    }];
+  });
+
+  // Race predictions from recent efforts only
+  const windowStart = new Date(Date.parse(`${current_date}T00:00:00Z`) - PREDICTION_WINDOW_DAYS * 86_400_000)
+    .toISOString()
+    .slice(0, 10);
+  const races = predictRaceTimes(efforts.filter((e) => e.date > windowStart)).map((p) => {
+    const meters = raceDistanceMeters(p.distance);
+    return {
+      distance: p.distance,
+      distance_m: meters,
+      predicted_s: p.predicted_s,
+      pace_sec_per_km: p.predicted_s / (meters / 1000),
+      based_on: {
+        distance: p.based_on.distance,
+        elapsed_s: p.based_on.elapsed_s,
+        date: p.based_on.date,
+        workout_id: p.based_on.workout_id,
+      },
+    };
+  });
+
   // Get monthly progress if period is 'month'
   let monthly_progress = undefined;
   if (period === 'month') {
@@ -149,7 +239,7 @@ async function getRunningStats(period: string): Promise<RunningStatsResponse> {
       SELECT
         COALESCE((
           SELECT target FROM monthly_goals
-          WHERE month = m.month_start AND kind = 'running_distance_km'
+          WHERE month = m.month_start AND kind = 'running_distance_km' AND period = 'monthly'
         ), 0)::numeric AS target_km,
         COALESCE((
           SELECT SUM((details->>'distance_m')::numeric / 1000) FROM workouts
@@ -187,6 +277,12 @@ async function getRunningStats(period: string): Promise<RunningStatsResponse> {
       fastest_pace_sec_per_km,
       fastest_pace_date,
     },
+    best_efforts,
+    predictions: {
+      window_days: PREDICTION_WINDOW_DAYS,
+      riegel_exponent: RIEGEL_EXPONENT,
+      races,
+    },
   };
 
   if (monthly_progress) {
@@ -211,6 +307,9 @@ async function getRunningStats(period: string): Promise<RunningStatsResponse> {
  * - total_duration_min: Total duration in minutes
  * - avg_pace_sec_per_km: Average pace in seconds per kilometer
  * - personal_records: All-time personal records
+ * - best_efforts: All-time best 1k, 5k, 10k, half and marathon within runs
+ *   (Strava best efforts or computed from streams), each with its PR history
+ * - predictions: Riegel race-time predictions from the last year's efforts
  * - monthly_progress: Monthly goal progress (only for period=month)
  *
  * Cache:
@@ -231,6 +330,34 @@ async function getRunningStats(period: string): Promise<RunningStatsResponse> {
  *     "fastest_pace_sec_per_km": 240,
  *     "fastest_pace_date": "2025-10-20"
  *   },
+ *   "best_efforts": [
+ *     {
+ *       "distance": "5k",
+ *       "distance_m": 5000,
+ *       "elapsed_s": 1260,
+ *       "pace_sec_per_km": 252,
+ *       "date": "2025-10-20",
+ *       "workout_id": 812,
+ *       "source": "strava",
+ *       "history": [
+ *         { "date": "2025-03-02", "elapsed_s": 1380, "workout_id": 530 },
+ *         { "date": "2025-10-20", "elapsed_s": 1260, "workout_id": 812 }
+ *       ]
+ *     }
+ *   ],
+ *   "predictions": {
+ *     "window_days": 365,
+ *     "riegel_exponent": 1.06,
+ *     "races": [
+ *       {
+ *         "distance": "10k",
+ *         "distance_m": 10000,
+ *         "predicted_s": 2627,
+ *         "pace_sec_per_km": 262.7,
+ *         "based_on": { "distance": "5k", "elapsed_s": 1260, "date": "2025-10-20", "workout_id": 812 }
+ *       }
+ *     ]
+ *   },
  *   "monthly_progress": {
  *     "target_km": 100,
  *     "current_km": 85.5,
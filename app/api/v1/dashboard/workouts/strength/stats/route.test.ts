@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from './route';
+
+vi.mock('@/lib/db/client', () => ({
+  sql: vi.fn(),
+}));
+
+vi.mock('@/env', () => ({
+  env: {
+    DASHBOARD_API_SECRET: 'test-dashboard-secret-1234567890',
+  },
+}));
+
+import { sql } from '@/lib/db/client';
+
+const headers = { 'x-admin-secret': 'test-dashboard-secret-1234567890' };
+
+/** Mock the queries for period=month: today, month start, strength workouts */
+function mockQueries(rows: unknown[]) {
+  vi.mocked(sql)
+    .mockResolvedValueOnce([{ current_date: '2025-12-15' }] as never)
+    .mockResolvedValueOnce([{ month_start: '2025-12-01' }] as never)
+    .mockResolvedValueOnce(rows as never);
+}
+
+describe('GET /api/v1/dashboard/workouts/strength/stats', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should require authentication', async () => {
+    const response = await GET(new Request('http://localhost:3000/api/v1/dashboard/workouts/strength/stats'));
+    expect(response.status).toBe(401);
+  });
+
+  it('should return 400 for an invalid period', async () => {
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/workouts/strength/stats?period=week', { headers })
+    );
+    expect(response.status).toBe(400);
+  });
+
+  it('should report period volume with all-time 1RM history per exercise', async () => {
+    mockQueries([
+      { id: 1, date: '2025-11-10', exercises: [{ exercise: 'squat', sets: [{ reps: 3, load_kg: 120 }] }] },
+      {
+        id: 2,
+        date: '2025-12-02',
+        exercises: [
+          { exercise: 'Squat', sets: [{ reps: 5, load_kg: 100 }, { reps: 5, load_kg: 100 }] },
+          { exercise: 'Pull-up', sets: [{ reps: 10 }, { reps: 8 }] },
+        ],
+      },
+      { id: 3, date: '2025-12-09', exercises: [{ exercise: 'Deadlift', sets: [{ reps: 1, load_kg: 180 }] }] },
+      { id: 4, date: '2025-12-10', exercises: '[{"name": "Squat"}]' }, // unreadable legacy blob
+    ]);
+
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/workouts/strength/stats', { headers })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({ period: 'month', total_sessions: 2, total_sets: 5, total_volume_kg: 1180 });
+    expect(data.exercises.map((e: { exercise: string }) => e.exercise)).toEqual(['Squat', 'Deadlift', 'Pull-up']);
+
+    const [squat, , pullUp] = data.exercises;
+    expect(squat).toMatchObject({
+      sessions: 1,
+      sets: 2,
+      reps: 10,
+      volume_kg: 1000,
+      best: { e1rm_kg: 132, load_kg: 120, reps: 3, rpe: null, workout_id: 1 },
+    });
+    expect(squat.history).toEqual([
+      { date: '2025-11-10', workout_id: 1, volume_kg: 360, e1rm_kg: 132 },
+      { date: '2025-12-02', workout_id: 2, volume_kg: 1000, e1rm_kg: 116.7 },
+    ]);
+    expect(squat.progression).toEqual([{ date: '2025-11-10', workout_id: 1, e1rm_kg: 132 }]);
+    expect(pullUp).toMatchObject({ reps: 18, volume_kg: 0, best: null });
+  });
+
+  it('should set cache headers', async () => {
+    mockQueries([]);
+
+    const response = await GET(
+      new Request('http://localhost:3000/api/v1/dashboard/workouts/strength/stats', { headers })
+    );
+    const data = await response.json();
+
+    expect(data.exercises).toEqual([]);
+    expect(response.headers.get('X-Cache-Tags')).toBe('workouts:strength:month,workouts:strength');
+    expect(response.headers.get('Cache-Control')).toContain('s-maxage=60');
+  });
+});
@@ -0,0 +1,274 @@
+export const runtime = 'nodejs';
+
+import { createApiRoute } from '@/lib/api/middleware';
+import { apiSuccess, apiError } from '@/lib/api/responses';
+import { workoutsTags, CACHE_DURATIONS } from '@/lib/api/cache';
+import { sql } from '@/lib/db/client';
+import { ZStrengthExercises } from '@/lib/db/validation';
+import { summarizeExercises, type StrengthWorkout } from '@/lib/phys/strength';
+import { z } from 'zod';
+
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+/**
+ * Response schema for strength stats endpoint
+ */
+const StrengthStatsResponseSchema = z.object({
+  period: z.string(),
+  total_sessions: z.number().int().min(0),
+  total_sets: z.number().int().min(0),
+  total_volume_kg: z.number().min(0),
+  exercises: z.array(
+    z.object({
+      exercise: z.string(),
+      sessions: z.number().int().min(0),
+      sets: z.number().int().min(0),
+      reps: z.number().int().min(0),
+      volume_kg: z.number().min(0),
+      best: z
+        .object({
+          e1rm_kg: z.number().positive(),
+          load_kg: z.number().positive(),
+          reps: z.number().int().positive(),
+          rpe: z.number().nullable(),
+          date: DateSchema,
+          workout_id: z.number().int(),
+        })
+        .nullable(),
+      history: z.array(
+        z.object({
+          date: DateSchema,
+          workout_id: z.number().int(),
+          volume_kg: z.number().min(0),
+          e1rm_kg: z.number().positive().nullable(),
+        })
+      ),
+      progression: z.array(
+        z.object({
+          date: DateSchema,
+          workout_id: z.number().int(),
+          e1rm_kg: z.number().positive(),
+        })
+      ),
+    })
+  ),
+});
+
+export type StrengthStatsResponse = z.infer<typeof StrengthStatsResponseSchema>;
+
+/**
+ * Query parameters schema
+ */
+const QueryParamsSchema = z.object({
+  period: z.enum(['month', 'year', 'all']).optional(),
+});
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Get strength training statistics for a specific period
+ *
+ * @param period - Period to summarize (month, year, all)
+ * @returns Strength stats data
+ */
+async function getStrengthStats(period: string): Promise<StrengthStatsResponse> {
+  // Get current date in Berlin timezone
+  const [{ current_date }] = await sql/*sql*/`
+    SELECT timezone('Europe/Berlin', now())::date::text as current_date
+  `;
+
+  // Calculate start date based on period
+  let startDate: string;
+  switch (period) {
+    case 'month':
+      const [{ month_start }] = await sql/*sql*/`
+        SELECT date_trunc('month', ${current_date}::date)::date::text as month_start
+      `;
+      startDate = String(month_start);
+      break;
+    case 'year':
+      const [{ year_start }] = await sql/*sql*/`
+        SELECT date_trunc('year', ${current_date}::date)::date::text as year_start
+      `;
+      startDate = String(year_start);
+      break;
+    case 'all':
+    default:
+      startDate = '1970-01-01';
+      break;
+  }
+
+  // All strength sessions with logged exercises; history and 1RM are all-time
+  const rows = await sql/*sql*/`
+    SELECT id, date::text AS date, details->'exercises' AS exercises
+    FROM workouts
+    WHERE workout_type = 'strength'
+      AND details ? 'exercises'
+      AND date <= ${current_date}::date
+    ORDER BY date, id
+  `;
+
+  // Entries saved before exercises were validated may not parse; skip them
+  const workouts: StrengthWorkout[] = rows.flatMap((r) => {
+    const parsed = ZStrengthExercises.safeParse(r.exercises);
+    return parsed.success ? [{ workout_id: Number(r.id), date: String(r.date), exercises: parsed.data }] : [];
+  });
+
+  const exercises = summarizeExercises(workouts)
+    .map((summary) => {
+      const inPeriod = summary.sessions.filter((s) => s.date >= startDate);
+      const best = summary.best;
+
+      return {
+        exercise: summary.exercise,
+        sessions: inPeriod.length,
+        sets: inPeriod.reduce((sum, s) => sum + s.sets, 0),
+        reps: inPeriod.reduce((sum, s) => sum + s.reps, 0),
+        volume_kg: round1(inPeriod.reduce((sum, s) => sum + s.volume_kg, 0)),
+        best:
+          best && best.top_set
+            ? {
+                e1rm_kg: round1(best.e1rm_kg!),
+                load_kg: best.top_set.load_kg!,
+                reps: best.top_set.reps,
+                rpe: best.top_set.rpe ?? null,
+                date: best.date,
+                workout_id: best.workout_id,
+              }
+            : null,
+        history: summary.sessions.map((s) => ({
+          date: s.date,
+          workout_id: s.workout_id,
+          volume_kg: round1(s.volume_kg),
+          e1rm_kg: s.e1rm_kg !== null ? round1(s.e1rm_kg) : null,
+        })),
+        progression: summary.progression.map((s) => ({
+          date: s.date,
+          workout_id: s.workout_id,
+          e1rm_kg: round1(s.e1rm_kg!),
+        })),
+      };
+    })
+    .filter((e) => e.sessions > 0)
+    .sort((a, b) => b.volume_kg - a.volume_kg || b.sessions - a.sessions || a.exercise.localeCompare(b.exercise));
+
+  const periodWorkouts = workouts.filter((w) => w.date >= startDate);
+
+  return {
+    period,
+    total_sessions: periodWorkouts.length,
+    total_sets: exercises.reduce((sum, e) => sum + e.sets, 0),
+    total_volume_kg: round1(exercises.reduce((sum, e) => sum + e.volume_kg, 0)),
+    exercises,
+  };
+}
+
+/**
+ * GET /api/v1/dashboard/workouts/strength/stats
+ *
+ * Returns strength training statistics for a specific period.
+ *
+ * Query Parameters:
+ * - period (optional): Period to summarize (month, year, all). Defaults to month.
+ *
+ * Response:
+ * - period: Period of the stats
+ * - total_sessions: Strength workouts with logged exercises
+ * - total_sets: Sets across all exercises
+ * - total_volume_kg: Σ reps · load across all exercises
+ * - exercises: Per exercise trained in the period, by volume: sets, reps and
+ *   volume for the period, the best estimated 1RM on record (Epley, reps in
+ *   reserve from RPE), every session's volume and e1RM, and the sessions that
+ *   raised the e1RM
+ *
+ * Cache:
+ * - Duration: 1 minute (REALTIME)
+ * - Tags: workouts:strength:{period}, workouts:strength
+ *
+ * Example:
+ * GET /api/v1/dashboard/workouts/strength/stats?period=month
+ * {
+ *   "period": "month",
+ *   "total_sessions": 6,
+ *   "total_sets": 72,
+ *   "total_volume_kg": 21450,
+ *   "exercises": [
+ *     {
+ *       "exercise": "Squat",
+ *       "sessions": 4,
+ *       "sets": 16,
+ *       "reps": 80,
+ *       "volume_kg": 8000,
+ *       "best": { "e1rm_kg": 128.3, "load_kg": 110, "reps": 5, "rpe": null, "date": "2025-12-03", "workout_id": 640 },
+ *       "history": [
+ *         { "date": "2025-11-05", "workout_id": 601, "volume_kg": 1900, "e1rm_kg": 122.7 },
+ *         { "date": "2025-12-03", "workout_id": 640, "volume_kg": 2200, "e1rm_kg": 128.3 }
+ *       ],
+ *       "progression": [
+ *         { "date": "2025-11-05", "workout_id": 601, "e1rm_kg": 122.7 },
+ *         { "date": "2025-12-03", "workout_id": 640, "e1rm_kg": 128.3 }
+ *       ]
+ *     }
+ *   ]
+ * }
+ */
+export const GET = createApiRoute()
+  .withAuth()
+  .withRateLimit('dashboard-strength-stats', { windowSec: 60, max: 30 })
+  .withTrace('GET /api/v1/dashboard/workouts/strength/stats')
+  .handle(async (request) => {
+    try {
+      // Parse query parameters
+      const url = new URL(request.url);
+      const periodParam = url.searchParams.get('period') || 'month';
+
+      // Validate query parameters
+      const paramsResult = QueryParamsSchema.safeParse({ period: periodParam });
+      if (!paramsResult.success) {
+        return apiError(
+          'Invalid query parameters',
+          400,
+          paramsResult.error.flatten(),
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const period = paramsResult.data.period || 'month';
+
+      // Fetch strength stats
+      const stats = await getStrengthStats(period);
+
+      // Validate response schema
+      const validatedStats = StrengthStatsResponseSchema.parse(stats);
+
+      // Generate cache tags
+      const tags = [workoutsTags('strength', period), workoutsTags('strength')];
+
+      // Return response with cache headers
+      const response = apiSuccess(validatedStats);
+
+      // Add cache tags via Next.js headers
+      response.headers.set('X-Cache-Tags', tags.join(','));
+
+      // Add cache control header (1 minute)
+      response.headers.set(
+        'Cache-Control',
+        `s-maxage=${CACHE_DURATIONS.REALTIME}, stale-while-revalidate`
+      );
+
+      return response;
+    } catch (error) {
+      console.error('Error fetching strength stats:', error);
+
+      if (error instanceof Error) {
+        return apiError(
+          'Failed to fetch strength stats',
+          500,
+          process.env.NODE_ENV === 'development' ? error.message : undefined,
+          'INTERNAL_ERROR'
+        );
+      }
+
+      return apiError('An unexpected error occurred', 500, undefined, 'INTERNAL_ERROR');
+    }
+  });
@@ -36,6 +36,7 @@ describe('GET /api/v1/dashboard/workouts/summary', () => {
       vi.mocked(sql).mockResolvedValueOnce([] as never); // all distinct workout types
       vi.mocked(sql).mockResolvedValueOnce([] as never); // workout types for period
       vi.mocked(sql).mockResolvedValueOnce([] as never); // streaks
+      vi.mocked(sql).mockResolvedValueOnce([] as never); // climbing sessions
 
       const request = new Request('http://localhost:3000/api/v1/dashboard/workouts/summary', {
         headers: {
@@ -55,6 +56,7 @@ describe('GET /api/v1/dashboard/workouts/summary', () => {
       vi.mocked(sql).mockResolvedValueOnce([] as never); // all distinct workout types
       vi.mocked(sql).mockResolvedValueOnce([] as never); // workout types for period
       vi.mocked(sql).mockResolvedValueOnce([] as never); // streaks
+      vi.mocked(sql).mockResolvedValueOnce([] as never); // climbing sessions
 
       const request = new Request('http://localhost:3000/api/v1/dashboard/workouts/summary', {
         headers: {
@@ -72,6 +74,7 @@ describe('GET /api/v1/dashboard/workouts/summary', () => {
       vi.mocked(sql).mockResolvedValueOnce([] as never); // all distinct workout types
       vi.mocked(sql).mockResolvedValueOnce([] as never); // workout types for period
       vi.mocked(sql).mockResolvedValueOnce([] as never); // streaks
+      vi.mocked(sql).mockResolvedValueOnce([] as never); // climbing sessions
 
       const request = new Request(
         'http://localhost:3000/api/v1/dashboard/workouts/summary?period=today',
@@ -93,6 +96,7 @@ describe('GET /api/v1/dashboard/workouts/summary', () => {
       vi.mocked(sql).mockResolvedValueOnce([] as never); // all distinct workout types
       vi.mocked(sql).mockResolvedValueOnce([] as never); // workout types for period
       vi.mocked(sql).mockResolvedValueOnce([] as never); // streaks
+      vi.mocked(sql).mockResolvedValueOnce([] as never); // climbing sessions
 
       const request = new Request(
         'http://localhost:3000/api/v1/dashboard/workouts/summary?period=week',
@@ -133,6 +137,7 @@ describe('GET /api/v1/dashboard/workouts/summary', () => {
       vi.mocked(sql).mockResolvedValueOnce([] as never); // all distinct workout types
       vi.mocked(sql).mockResolvedValueOnce([] as never); // workout types for period
       vi.mocked(sql).mockResolvedValueOnce([] as never); // streaks
+      vi.mocked(sql).mockResolvedValueOnce([] as never); // climbing sessions
 
       const request = new Request('http://localhost:3000/api/v1/dashboard/workouts/summary', {
         headers: {
@@ -151,6 +156,10 @@ describe('GET /api/v1/dashboard/workouts/summary', () => {
           current: 0,
           longest: 0,
         },
+        climbing: {
+          disciplines: [],
+          unparsed_grades: [],
+        },
       });
     });
 
@@ -170,6 +179,7 @@ describe('GET /api/v1/dashboard/workouts/summary', () => {
         { date: new Date('2025-12-04'), days_diff: 1 },
         { date: new Date('2025-12-02'), days_diff: 2 },
       ] as never); // streaks
+      vi.mocked(sql).mockResolvedValueOnce([] as never); // climbing sessions
 
       const request = new Request('http://localhost:3000/api/v1/dashboard/workouts/summary', {
         headers: {
@@ -194,6 +204,7 @@ describe('GET /api/v1/dashboard/workouts/summary', () => {
       vi.mocked(sql).mockResolvedValueOnce([
         { date: new Date('2025-12-05'), days_diff: null },
       ] as never); // streaks
+      vi.mocked(sql).mockResolvedValueOnce([] as never); // climbing sessions
 
       const request = new Request('http://localhost:3000/api/v1/dashboard/workouts/summary', {
         headers: {
@@ -209,6 +220,97 @@ describe('GET /api/v1/dashboard/workouts/summary', () => {
     });
   });
 
+  describe('Climbing', () => {
+    const climbingRows = [
+      { id: 1, date: '2025-10-10', workout_type: 'bouldering', details: { max_grade: '6C', problems: 8, sends: 3 } },
+      { id: 2, date: '2025-12-02', workout_type: 'bouldering', details: { problems: 10, sends: 'V3, 2x V4, V2, mystery' } },
+      { id: 3, date: '2025-12-03', workout_type: 'climbing', details: { grade: 'VIII-', pitches: 6 } },
+    ];
+
+    function mockSummaryWithClimbing() {
+      vi.mocked(sql).mockResolvedValueOnce([{ current_date: '2025-12-05' }] as never);
+      vi.mocked(sql).mockResolvedValueOnce([{ month_start: '2025-12-01' }] as never);
+      vi.mocked(sql).mockResolvedValueOnce([] as never); // all distinct workout types
+      vi.mocked(sql).mockResolvedValueOnce([] as never); // workout types for period
+      vi.mocked(sql).mockResolvedValueOnce([] as never); // streaks
+      vi.mocked(sql).mockResolvedValueOnce(climbingRows as never); // climbing sessions
+    }
+
+    it('should report grade pyramid, max grade and send rate per discipline', async () => {
+      mockSummaryWithClimbing();
+
+      const request = new Request('http://localhost:3000/api/v1/dashboard/workouts/summary', {
+        headers: {
+          'x-admin-secret': 'test-dashboard-secret-1234567890',
+        },
+      });
+      const response = await GET(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      const [route, boulder] = data.climbing.disciplines;
+
+      expect(route).toMatchObject({
+        discipline: 'route',
+        grade_system: 'french',
+        sessions: 1,
+        max_grade: { grade: '6c+', workout_id: 3 },
+        pyramid: [{ grade: '6c+', count: 1 }],
+        send_rate: { sends: 0, attempts: 0, rate: null },
+      });
+
+      // All-time max (6C in October) is above this month's hardest send (V4 → 6B)
+      expect(boulder).toMatchObject({
+        discipline: 'boulder',
+        grade_system: 'font',
+        sessions: 1,
+        max_grade: { grade: '6C', workout_id: 1 },
+        period_max_grade: { grade: '6B', workout_id: 2 },
+        send_rate: { sends: 5, attempts: 10, rate: 0.5 },
+      });
+      expect(boulder.pyramid.map((l: { grade: string; count: number }) => [l.grade, l.count])).toEqual([
+        ['6B', 2],
+        ['6A', 1],
+        ['5+', 1],
+      ]);
+      expect(boulder.progression).toHaveLength(1);
+      expect(data.climbing.unparsed_grades).toEqual(['mystery']);
+    });
+
+    it('should convert grades to the requested systems', async () => {
+      mockSummaryWithClimbing();
+
+      const request = new Request(
+        'http://localhost:3000/api/v1/dashboard/workouts/summary?route_grades=yds&boulder_grades=v',
+        {
+          headers: {
+            'x-admin-secret': 'test-dashboard-secret-1234567890',
+          },
+        }
+      );
+      const response = await GET(request);
+      const data = await response.json();
+      const [route, boulder] = data.climbing.disciplines;
+
+      expect(route).toMatchObject({ grade_system: 'yds', max_grade: { grade: '5.11c' } });
+      expect(boulder).toMatchObject({ grade_system: 'v', max_grade: { grade: 'V5' } });
+    });
+
+    it('should return 400 for an unknown grade system', async () => {
+      const request = new Request(
+        'http://localhost:3000/api/v1/dashboard/workouts/summary?boulder_grades=french',
+        {
+          headers: {
+            'x-admin-secret': 'test-dashboard-secret-1234567890',
+          },
+        }
+      );
+      const response = await GET(request);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
   describe('Cache Headers', () => {
     it('should set correct cache headers', async () => {
       vi.mocked(sql).mockResolvedValueOnce([{ current_date: '2025-12-05' }] as never);
@@ -216,6 +318,7 @@ describe('GET /api/v1/dashboard/workouts/summary', () => {
       vi.mocked(sql).mockResolvedValueOnce([] as never); // all distinct workout types
       vi.mocked(sql).mockResolvedValueOnce([] as never); // workout types for period
       vi.mocked(sql).mockResolvedValueOnce([] as never); // streaks
+      vi.mocked(sql).mockResolvedValueOnce([] as never); // climbing sessions
 
       const request = new Request('http://localhost:3000/api/v1/dashboard/workouts/summary', {
         headers: {
@@ -234,6 +337,7 @@ describe('GET /api/v1/dashboard/workouts/summary', () => {
       vi.mocked(sql).mockResolvedValueOnce([] as never); // all distinct workout types
       vi.mocked(sql).mockResolvedValueOnce([] as never); // workout types for period
       vi.mocked(sql).mockResolvedValueOnce([] as never); // streaks
+      vi.mocked(sql).mockResolvedValueOnce([] as never); // climbing sessions
 
       const request = new Request('http://localhost:3000/api/v1/dashboard/workouts/summary', {
         headers: {
@@ -4,8 +4,31 @@ import { createApiRoute } from '@/lib/api/middleware';
 import { apiSuccess, apiError } from '@/lib/api/responses';
 import { workoutsTags, CACHE_DURATIONS } from '@/lib/api/cache';
 import { sql } from '@/lib/db/client';
+import {
+  BOULDER_GRADE_SYSTEMS,
+  climbingSession,
+  convertGrade,
+  gradePyramid,
+  maxGradeProgression,
+  ROUTE_GRADE_SYSTEMS,
+  sendRate,
+  type BoulderGradeSystem,
+  type ClimbingDiscipline,
+  type ClimbingSession,
+  type Grade,
+  type RouteGradeSystem,
+} from '@/lib/phys/climbing-grades';
 import { z } from 'zod';
 
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const ClimbingGradeSchema = z.object({
+  grade: z.string(),
+  difficulty: z.number(),
+  date: DateSchema,
+  workout_id: z.number().int(),
+});
+
 /**
  * Response schema for workouts summary endpoint
  */
@@ -25,6 +48,31 @@ const WorkoutsSummaryResponseSchema = z.object({
     current: z.number().int().min(0),
     longest: z.number().int().min(0),
   }),
+  climbing: z.object({
+    disciplines: z.array(
+      z.object({
+        discipline: z.enum(['route', 'boulder']),
+        grade_system: z.enum([...ROUTE_GRADE_SYSTEMS, ...BOULDER_GRADE_SYSTEMS]),
+        sessions: z.number().int().min(0),
+        max_grade: ClimbingGradeSchema.nullable(),
+        period_max_grade: ClimbingGradeSchema.nullable(),
+        pyramid: z.array(
+          z.object({
+            grade: z.string(),
+            difficulty: z.number(),
+            count: z.number().int().positive(),
+          })
+        ),
+        progression: z.array(ClimbingGradeSchema),
+        send_rate: z.object({
+          sends: z.number().int().min(0),
+          attempts: z.number().int().min(0),
+          rate: z.number().min(0).max(1).nullable(),
+        }),
+      })
+    ),
+    unparsed_grades: z.array(z.string()),
+  }),
 });
 
 export type WorkoutsSummaryResponse = z.infer<typeof WorkoutsSummaryResponseSchema>;
@@ -34,15 +82,71 @@ export type WorkoutsSummaryResponse = z.infer<typeof WorkoutsSummaryResponseSche
  */
 const QueryParamsSchema = z.object({
   period: z.enum(['today', 'week', 'month']).optional(),
+  route_grades: z.enum(ROUTE_GRADE_SYSTEMS).optional(),
+  boulder_grades: z.enum(BOULDER_GRADE_SYSTEMS).optional(),
 });
 
+type GradeSystems = { route: RouteGradeSystem; boulder: BoulderGradeSystem };
+
+/**
+ * Climbing progress per discipline: grade pyramid and send rate for the
+ * period, max grade and its progression over all sessions, with grades
+ * converted to the requested systems
+ */
+function summarizeClimbing(
+  sessions: ClimbingSession[],
+  startDate: string,
+  systems: GradeSystems
+): WorkoutsSummaryResponse['climbing'] {
+  const disciplines = (['route', 'boulder'] as ClimbingDiscipline[]).flatMap((discipline) => {
+    const all = sessions.filter((s) => s.discipline === discipline);
+    if (all.length === 0) return [];
+
+    const system = systems[discipline];
+    const inPeriod = all.filter((s) => s.date >= startDate);
+    const toRecord = (r: { date: string; workout_id: number; grade: Grade }) => ({
+      grade: convertGrade(r.grade.difficulty, system),
+      difficulty: r.grade.difficulty,
+      date: r.date,
+      workout_id: r.workout_id,
+    });
+
+    const progression = maxGradeProgression(all).map(toRecord);
+    const periodProgression = maxGradeProgression(inPeriod);
+    const periodMax = periodProgression[periodProgression.length - 1];
+    const rate = sendRate(inPeriod);
+
+    return [
+      {
+        discipline,
+        grade_system: system,
+        sessions: inPeriod.length,
+        max_grade: progression[progression.length - 1] ?? null,
+        period_max_grade: periodMax ? toRecord(periodMax) : null,
+        pyramid: gradePyramid(inPeriod, system),
+        progression,
+        send_rate: { ...rate, rate: rate.rate === null ? null : Math.round(rate.rate * 100) / 100 },
+      },
+    ];
+  });
+
+  return {
+    disciplines,
+    unparsed_grades: [...new Set(sessions.filter((s) => s.date >= startDate).flatMap((s) => s.unparsed))],
+  };
+}
+
 /**
  * Get workouts summary for a specific period
  *
  * @param period - Period to summarize (today, week, month)
+ * @param gradeSystems - Grade systems for climbing routes and boulders
  * @returns Workouts summary data
  */
-async function getWorkoutsSummary(period: string): Promise<WorkoutsSummaryResponse> {
+async function getWorkoutsSummary(
+  period: string,
+  gradeSystems: GradeSystems
+): Promise<WorkoutsSummaryResponse> {
   // Get date in Berlin timezone
   const [{ current_date }] = await sql/*sql*/`
     SELECT timezone('Europe/Berlin', now())::date::text as current_date
@@ -179,6 +283,24 @@ async function getWorkoutsSummary(period: string): Promise<WorkoutsSummaryRespon
     }
   }
 
+  // Climbing and bouldering sessions; grades live as free text in details
+  const climbingRows = await sql/*sql*/`
+    SELECT id, date::text AS date, workout_type::text AS workout_type, details
+    FROM workouts
+    WHERE workout_type IN ('climbing', 'bouldering')
+      AND date <= ${current_date}::date
+    ORDER BY date, id
+  `;
+
+  const climbingSessions = climbingRows.map((r) =>
+    climbingSession({
+      workout_id: Number(r.id),
+      date: String(r.date),
+      workout_type: String(r.workout_type),
+      details: r.details ?? null,
+    })
+  );
+
   return {
     period,
     workout_types,
@@ -188,6 +310,7 @@ async function getWorkoutsSummary(period: string): Promise<WorkoutsSummaryRespon
       current: current_streak,
       longest: longest_streak,
     },
+    climbing: summarizeClimbing(climbingSessions, startDate, gradeSystems),
   };
 }
 
@@ -198,6 +321,8 @@ async function getWorkoutsSummary(period: string): Promise<WorkoutsSummaryRespon
  *
  * Query Parameters:
  * - period (optional): Period to summarize (today, week, month). Defaults to month.
+ * - route_grades (optional): Grade system for routes (french, uiaa, yds). Defaults to french.
+ * - boulder_grades (optional): Grade system for boulders (font, v). Defaults to font.
  *
  * Response:
  * - period: Period of the summary
@@ -205,6 +330,9 @@ async function getWorkoutsSummary(period: string): Promise<WorkoutsSummaryRespon
  * - total_workouts: Total number of workouts
  * - total_duration_min: Total duration in minutes
  * - streaks: Current and longest workout streaks
+ * - climbing: Per discipline (route, boulder) the grade pyramid and send rate
+ *   for the period, plus the max grade and the sessions that raised it.
+ *   Grades logged in any system are converted to the requested one.
  *
  * Cache:
  * - Duration: 1 minute (REALTIME)
@@ -220,7 +348,22 @@ async function getWorkoutsSummary(period: string): Promise<WorkoutsSummaryRespon
  *   ],
  *   "total_workouts": 4,
  *   "total_duration_min": 210,
- *   "streaks": { "current": 3, "longest": 7 }
+ *   "streaks": { "current": 3, "longest": 7 },
+ *   "climbing": {
+ *     "disciplines": [
+ *       {
+ *         "discipline": "boulder",
+ *         "grade_system": "font",
+ *         "sessions": 1,
+ *         "max_grade": { "grade": "7A", "difficulty": 20, "date": "2025-11-20", "workout_id": 412 },
+ *         "period_max_grade": { "grade": "6C+", "difficulty": 19, "date": "2025-12-03", "workout_id": 431 },
+ *         "pyramid": [{ "grade": "6C+", "difficulty": 19, "count": 1 }, { "grade": "6B", "difficulty": 16, "count": 3 }],
+ *         "progression": [{ "grade": "6C", "difficulty": 18, "date": "2025-09-02", "workout_id": 377 }, ...],
+ *         "send_rate": { "sends": 4, "attempts": 9, "rate": 0.44 }
+ *       }
+ *     ],
+ *     "unparsed_grades": []
+ *   }
  * }
  */
 export const GET = createApiRoute()
@@ -234,7 +377,11 @@ export const GET = createApiRoute()
       const periodParam = url.searchParams.get('period') || 'month';
 
       // Validate query parameters
-      const paramsResult = QueryParamsSchema.safeParse({ period: periodParam });
+      const paramsResult = QueryParamsSchema.safeParse({
+        period: periodParam,
+        route_grades: url.searchParams.get('route_grades') ?? undefined,
+        boulder_grades: url.searchParams.get('boulder_grades') ?? undefined,
+      });
       if (!paramsResult.success) {
         return apiError(
           'Invalid query parameters',
@@ -245,9 +392,13 @@ export const GET = createApiRoute()
       }
 
       const period = paramsResult.data.period || 'month';
+      const gradeSystems: GradeSystems = {
+        route: paramsResult.data.route_grades ?? 'french',
+        boulder: paramsResult.data.boulder_grades ?? 'font',
+      };
 
       // Fetch workouts summary data
-      const summary = await getWorkoutsSummary(period);
+      const summary = await getWorkoutsSummary(period, gradeSystems);
 
       // Validate response schema
       const validatedSummary = WorkoutsSummaryResponseSchema.parse(summary);
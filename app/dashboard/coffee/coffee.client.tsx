@@ -16,8 +16,15 @@ type CoffeeClientProps = {
   cupsToday: number;
   methodsBar: { name: string; value: number }[];
   originsDonut: { name: string; value: number }[];
-  caffeineDual: { time: string; intake_mg: number; body_mg: number }[];
+  caffeineDual: { time: string; intake_mg: number; body_mg: number; projected_mg: number | null }[];
   dailyCoffee30Days: { date: string; cups: number }[];
+  forecast: {
+    brewType: string;
+    thresholdMgPerL: number;
+    belowThresholdAt: string | null; // Berlin HH:mm if drunk now
+    bedtime: string;                 // Berlin HH:mm
+    latestIntakeAt: string | null;   // Berlin HH:mm
+  };
 };
 
 export default function CoffeeClient({
@@ -26,6 +33,7 @@ export default function CoffeeClient({
   originsDonut,
   caffeineDual,
   dailyCoffee30Days,
+  forecast,
 }: CoffeeClientProps) {
   // Check for late caffeine (after 6 PM = 18:00)
   const lateCaffeineData = caffeineDual.filter(point => {
@@ -172,10 +180,20 @@ export default function CoffeeClient({
           title="Caffeine: intake vs body load (00:00–24:00)"
           data={caffeineDual}
           index="time"
-          categories={["intake_mg", "body_mg"]}
+          categories={["intake_mg", "body_mg", "projected_mg"]}
+          dashedCategories={["projected_mg"]}
         />
         <p className="mt-2 text-xs text-neutral-500">
-          Intake: caffeine consumed (mg) at that time. Body: modeled remaining caffeine (mg) in body over the day.
+          Intake: caffeine consumed (mg) at that time. Body: modeled caffeine (mg) in body over the day, absorbed gradually after each cup.
+          Projected (dashed): body caffeine if you had a {forecast.brewType} now.
+        </p>
+        <p className="mt-1 text-xs text-neutral-500">
+          {forecast.belowThresholdAt
+            ? `A ${forecast.brewType} now drops below ${forecast.thresholdMgPerL} mg/L at ${forecast.belowThresholdAt}. `
+            : `A ${forecast.brewType} now stays above ${forecast.thresholdMgPerL} mg/L for over 48 h. `}
+          {forecast.latestIntakeAt
+            ? `Latest ${forecast.brewType} to be under it by ${forecast.bedtime}: ${forecast.latestIntakeAt}.`
+            : `Too late for another ${forecast.brewType} before ${forecast.bedtime}.`}
         </p>
       </div>
 
@@ -50,6 +50,27 @@ interface CaffeineCurveResponse {
   };
 }
 
+interface CaffeineForecastResponse {
+  at: string;
+  threshold_mg_per_l: number;
+  brew: {
+    type: string;
+    amount_ml: number | null;
+    dose_mg: number;
+  };
+  below_threshold_at: string | null;
+  bedtime: {
+    time: string;
+    at: string;
+    latest_intake_at: string | null;
+  };
+  projection: Array<{
+    time: string;
+    body_mg: number;
+    blood_mg_per_l: number;
+  }>;
+}
+
 interface CoffeeOriginsResponse {
   origins: Array<{
     name: string;
@@ -67,7 +88,7 @@ export default async function CoffeePage() {
   const startDate = thirtyDaysAgo.toISOString().split('T')[0];
 
   // Fetch coffee data from API endpoints in parallel
-  const [summary, timeline, caffeineCurve, origins] = await Promise.all([
+  const [summary, timeline, caffeineCurve, forecast, origins] = await Promise.all([
     apiGet<CoffeeSummaryResponse>('/api/v1/dashboard/coffee/summary', {
       tags: ['coffee:summary'],
       revalidate: 60, // 1 minute cache
@@ -85,18 +106,37 @@ export default async function CoffeePage() {
       tags: ['coffee:caffeine'],
       revalidate: 60, // 1 minute cache
     }),
+    apiGet<CaffeineForecastResponse>('/api/v1/dashboard/coffee/forecast', {
+      params: {
+        type: 'v60',
+        bedtime: '23:00',
+      },
+      tags: ['coffee:forecast'],
+      revalidate: 60, // 1 minute cache
+    }),
     apiGet<CoffeeOriginsResponse>('/api/v1/dashboard/coffee/origins', {
       tags: ['coffee:origins'],
       revalidate: 300, // 5 minutes cache
     }),
   ]);
 
+  // Projected body load if another cup is drunk now, keyed by Berlin time label
+  const projectedByTime = new Map(
+    forecast.projection.map((p) => [isoToBerlinDate(Date.parse(p.time)), p.body_mg])
+  );
+
   // Map caffeine series to chart format (Berlin time labels)
-  const caffeineDual = caffeineCurve.series.map((p) => ({
-    time: isoToBerlinDate(Date.parse(p.time)),
-    intake_mg: p.intake_mg,
-    body_mg: p.body_mg,
-  }));
+  const caffeineDual = caffeineCurve.series.map((p) => {
+    const time = isoToBerlinDate(Date.parse(p.time));
+    return {
+      time,
+      intake_mg: p.intake_mg,
+      body_mg: p.body_mg,
+      projected_mg: projectedByTime.get(time) ?? null,
+    };
+  });
+
+  const toBerlinTime = (iso: string | null) => (iso ? isoToBerlinDate(Date.parse(iso)) : null);
 
   // Transform timeline data for the daily coffee chart
   const dailyCoffee30Days = timeline.timeline.map((t) => ({
@@ -122,6 +162,13 @@ export default async function CoffeePage() {
         }))}
         originsDonut={origins.origins}
         caffeineDual={caffeineDual}
+        forecast={{
+          brewType: forecast.brew.type,
+          thresholdMgPerL: forecast.threshold_mg_per_l,
+          belowThresholdAt: toBerlinTime(forecast.below_threshold_at),
+          bedtime: forecast.bedtime.time,
+          latestIntakeAt: toBerlinTime(forecast.bedtime.latest_intake_at),
+        }}
         dailyCoffee30Days={dailyCoffee30Days}
       />
     </div>
@@ -7,6 +7,7 @@
 
 import { Suspense } from "react";
 import { InsightsList } from "@/components/insights/insights-list";
+import { InsightChanges } from "@/components/insights/insight-changes";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 
@@ -59,15 +60,34 @@ export default function InsightsPage() {
           <CardContent className="space-y-2 text-sm">
             <p>
               <strong>Statistical Analysis:</strong> Uses Pearson correlation coefficient (r)
-              to measure the strength and direction of relationships between metrics.
+              to measure the strength and direction of relationships between metrics
+              (Spearman or Kendall rank correlation on request).
+              The range shown for r is a bootstrap 95% confidence interval.
+            </p>
+            <p>
+              <strong>Delayed Effects:</strong> Each pair is also tested with one metric
+              trailing the other by one or more days, so a card marked <em>+2 days</em> relates
+              one day&apos;s value to the other metric two days later.
+            </p>
+            <p>
+              <strong>Multiple Comparisons:</strong> Every pair of metrics is tested, so some
+              would look significant by chance alone. p-values are adjusted with the
+              Benjamini–Hochberg procedure; the resulting q-value bounds the expected share
+              of false discoveries.
+            </p>
+            <p>
+              <strong>Confounders:</strong> Two metrics can move together only because both
+              follow the day of the week, the weather or last night&apos;s sleep. Each pair is
+              re-tested with those held constant (partial correlation); pairs whose relationship
+              largely disappears or flips sign are listed separately as <em>likely confounded</em>.
             </p>
             <p>
               <strong>Confidence Levels:</strong>
             </p>
             <ul className="list-disc list-inside ml-4 space-y-1 text-muted-foreground">
-              <li><strong>Strong</strong> (p &lt; 0.01): 99% confidence the correlation is real</li>
-              <li><strong>Moderate</strong> (p &lt; 0.05): 95% confidence</li>
-              <li><strong>Exploratory</strong> (p &lt; 0.1): 90% confidence</li>
+              <li><strong>Strong</strong> (q &lt; 0.01): at most 1% of such findings expected to be false</li>
+              <li><strong>Moderate</strong> (q &lt; 0.05): at most 5%</li>
+              <li><strong>Exploratory</strong> (q &lt; 0.1): at most 10%</li>
             </ul>
             <p className="text-muted-foreground mt-2">
               Correlation does not imply causation. These insights show <em>associations</em>
@@ -76,6 +96,11 @@ export default function InsightsPage() {
           </CardContent>
         </Card>
 
+        {/* Changes since last week (from daily snapshots) */}
+        <Suspense fallback={<Skeleton className="h-24 w-full" />}>
+          <InsightChanges />
+        </Suspense>
+
         {/* Insights List */}
         <Suspense fallback={<InsightsLoading />}>
           <InsightsList />
@@ -98,57 +98,21 @@ export default async function DashboardPage() {
     countriesVisited: countriesData.visited_count,
   };
 
-  // Build all goals with their progress from the progress endpoint
-  const allGoals: Array<{
-    name: string;
-    value: number;
-    target: number;
-    unit: string;
-    percentage: number;
-    period: "monthly" | "daily";
-  }> = [];
-
-  // Process daily goals progress
-  if (goalsProgress.daily) {
-    for (const goalItem of goalsProgress.daily) {
-      allGoals.push({
-        name: goalItem.goal,
-        value: goalItem.current,
-        target: goalItem.target,
-        unit: goalItem.unit,
-        percentage: goalItem.progress_pct,
-        period: "daily",
-      });
-    }
-  }
-
-  // Process monthly goals progress
-  if (goalsProgress.monthly) {
-    for (const goalItem of goalsProgress.monthly) {
-      allGoals.push({
-        name: goalItem.goal,
-        value: goalItem.current,
-        target: goalItem.target,
-        unit: goalItem.unit,
-        percentage: goalItem.progress_pct,
-        period: "monthly",
-      });
-    }
-  }
-
-  // Sort by percentage (highest first) and take top 3 for each period
-  const sortedMonthly = allGoals
-    .filter((g) => g.period === "monthly")
-    .sort((a, b) => b.percentage - a.percentage)
-    .slice(0, 3);
-
-  const sortedDaily = allGoals
-    .filter((g) => g.period === "daily")
-    .sort((a, b) => b.percentage - a.percentage)
-    .slice(0, 3);
-
-  const monthlyGoalsList = sortedMonthly;
-  const dailyGoalsList = sortedDaily;
+  // Top 3 goals per period by progress; weekly and yearly only show once set
+  const goalSections = ([
+    { period: "daily", title: "Daily Goals" },
+    { period: "weekly", title: "Weekly Goals" },
+    { period: "monthly", title: "Monthly Goals" },
+    { period: "yearly", title: "Yearly Goals" },
+  ] as const)
+    .map(({ period, title }) => ({
+      period,
+      title,
+      goals: [...(goalsProgress[period] ?? [])]
+        .sort((a, b) => b.progress_pct - a.progress_pct)
+        .slice(0, 3),
+    }))
+    .filter((s) => s.period === "daily" || s.period === "monthly" || s.goals.length > 0);
 
   return (
     <div className="w-full space-y-6">
@@ -189,45 +153,27 @@ export default async function DashboardPage() {
 
       {/* Goals Progress - Side by Side */}
       <div className="grid gap-6 md:grid-cols-2">
-        {/* Daily Goals Progress */}
-        <div className="rounded-xl border border-neutral-200/60 bg-white p-6 shadow-sm">
-          <h3 className="text-lg font-semibold mb-4">Daily Goals</h3>
-          {dailyGoalsList.length > 0 ? (
-            <div className="space-y-4">
-              {dailyGoalsList.map((goal) => (
-                <ProgressRow
-                  key={goal.name}
-                  name={goal.name}
-                  value={goal.value}
-                  target={goal.target}
-                  unit={goal.unit}
-                />
-              ))}
-            </div>
-          ) : (
-            <p className="text-sm text-neutral-500">No daily goals set</p>
-          )}
-        </div>
-
-        {/* Monthly Goals Progress */}
-        <div className="rounded-xl border border-neutral-200/60 bg-white p-6 shadow-sm">
-          <h3 className="text-lg font-semibold mb-4">Monthly Goals</h3>
-          {monthlyGoalsList.length > 0 ? (
-            <div className="space-y-4">
-              {monthlyGoalsList.map((goal) => (
-                <ProgressRow
-                  key={goal.name}
-                  name={goal.name}
-                  value={goal.value}
-                  target={goal.target}
-                  unit={goal.unit}
-                />
-              ))}
-            </div>
-          ) : (
-            <p className="text-sm text-neutral-500">No monthly goals set</p>
-          )}
-        </div>
+        {goalSections.map((section) => (
+          <div key={section.period} className="rounded-xl border border-neutral-200/60 bg-white p-6 shadow-sm">
+            <h3 className="text-lg font-semibold mb-4">{section.title}</h3>
+            {section.goals.length > 0 ? (
+              <div className="space-y-4">
+                {section.goals.map((goal) => (
+                  <ProgressRow
+                    key={goal.metric}
+                    name={goal.goal}
+                    value={goal.current}
+                    target={goal.target}
+                    unit={goal.unit}
+                    direction={goal.direction}
+                  />
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-neutral-500">No {section.period} goals set</p>
+            )}
+          </div>
+        ))}
       </div>
 
       {/* Quick Links */}
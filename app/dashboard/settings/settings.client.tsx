@@ -128,7 +128,49 @@ type BodyProfile = {
   notes?: string | null;
 };
 
-type GoalPeriod = "monthly" | "daily";
+type AthleteThresholds = {
+  max_hr: number | null;
+  resting_hr: number | null;
+  lthr: number | null;
+  ftp_w: number | null;
+};
+
+type StravaBackfill = {
+  status: "running" | "rate_limited" | "completed" | "cancelled" | "failed";
+  after_cursor: number; // start of the newest imported activity (unix seconds)
+  include_streams: boolean;
+  pages: number;
+  imported: number;
+  skipped: number;
+  errors: number;
+  paused_until: string | null;
+  last_error: string | null;
+  started_at: string;
+  completed_at: string | null;
+};
+
+const BACKFILL_STATUS_LABELS: Record<StravaBackfill["status"], string> = {
+  running: "Importing",
+  rate_limited: "Paused",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  failed: "Failed",
+};
+
+type HalfLifeCalibration = {
+  status: "ok" | "insufficient_data" | "no_caffeine_effect";
+  days: number;
+  n: number;
+  current: { half_life_hours: number; caffeine_sensitivity: number };
+  half_life_hours: number | null;
+  half_life_ci95: [number, number] | null;
+  caffeine_sensitivity: number | null;
+  caffeine_sensitivity_ci95: [number, number] | null;
+  fit: { r_squared: number; p_value: number; slope_per_100mg: number; intercept: number } | null;
+};
+
+type GoalPeriod = "daily" | "weekly" | "monthly" | "yearly";
+type GoalDirection = "at_least" | "at_most";
 
 type GoalValue = {
   target: number;
@@ -145,6 +187,12 @@ type Goals = {
   focus_minutes: GoalValue;
 };
 
+// Any other goal (see /api/habits/goal?list=true), including the fields' kinds over another
+// period; target stays a string until saved. Saved goals keep their metric and period;
+// remove and re-add to change them.
+type GoalDraft = { metric: string; period: GoalPeriod; direction: GoalDirection; target: string; saved: boolean };
+type GoalListItem = { metric: string; period: GoalPeriod; direction: GoalDirection; target: number; label: string; unit: string };
+
 type DayPayload = {
   date: string; // YYYY-MM-DD
   sleep_score: number;
@@ -154,6 +202,21 @@ type DayPayload = {
   outdoor_minutes: number;
   writing_minutes: number;
   coding_minutes: number;
+  extras?: Record<string, number | boolean | null>; // custom metric values by key
+};
+
+type CustomMetricType = "numeric" | "boolean" | "scale";
+type CustomMetricAggregation = "sum" | "max" | "min" | "last";
+
+type CustomMetric = {
+  key: string;
+  name: string;
+  unit: string | null;
+  type: CustomMetricType;
+  scale_min: number | null;
+  scale_max: number | null;
+  aggregation: CustomMetricAggregation;
+  description: string | null;
 };
 
 type CoffeeBrewingMethod = "espresso" | "v60" | "chemex" | "moka" | "aero" | "cold_brew" | "other";
@@ -178,6 +241,13 @@ type WorkoutPayload = {
 
 type CoffeeRow = { id: string; name: string; roaster: string };
 
+// Strength entry as typed; inputs stay strings until the workout is submitted
+type ExerciseSetDraft = { reps: string; load_kg: string; rpe: string };
+type ExerciseDraft = { exercise: string; sets: ExerciseSetDraft[] };
+type StrengthExercisePayload = { exercise: string; sets: { reps: number; load_kg?: number; rpe?: number }[] };
+
+const emptySet: ExerciseSetDraft = { reps: "", load_kg: "", rpe: "" };
+
 /* --------------------------------------------------------
    defaults
 --------------------------------------------------------- */
@@ -202,6 +272,61 @@ const emptyGoals: Goals = {
   focus_minutes: { target: 0, period: "daily" },
 };
 
+const workoutTypes: WorkoutPayload['workout_type'][] = [
+  'running', 'climbing', 'bouldering', 'rowing', 'cycling', 'hiking', 'strength', 'other',
+];
+
+// Every goal metric; custom metrics are added once loaded
+const goalMetricOptions: { value: string; label: string }[] = [
+  { value: "running_distance_km", label: "Running distance (km)" },
+  { value: "steps", label: "Steps" },
+  { value: "reading_minutes", label: "Reading (min)" },
+  { value: "outdoor_minutes", label: "Outdoors (min)" },
+  { value: "writing_minutes", label: "Writing (min)" },
+  { value: "coding_minutes", label: "Coding (min)" },
+  { value: "focus_minutes", label: "Focus (min)" },
+  { value: "sleep_score", label: "Sleep score" },
+  { value: "journaled", label: "Journaled (days)" },
+  { value: "coffee:cups", label: "Coffee (cups)" },
+  { value: "coffee:caffeine_mg", label: "Caffeine (mg)" },
+  ...workoutTypes.flatMap((t) => [
+    { value: `workout:${t}:distance_km`, label: `${t} distance (km)` },
+    { value: `workout:${t}:duration_min`, label: `${t} duration (min)` },
+    { value: `workout:${t}:sessions`, label: `${t} sessions` },
+  ]),
+];
+
+const emptyGoalDraft: GoalDraft = { metric: "", period: "daily", direction: "at_least", target: "", saved: false };
+
+/**
+ * Split the goal list into the fields above (each kind's "at least" goal, preferring
+ * the field's default period) and the other goals. Also returns the period each
+ * field's goal was saved with, to replace it when the field's period changes.
+ */
+function splitGoalList(list: GoalListItem[]): {
+  goals: Goals;
+  savedPeriods: Partial<Record<keyof Goals, GoalPeriod>>;
+  others: GoalDraft[];
+} {
+  const goals: Goals = { ...emptyGoals };
+  const savedPeriods: Partial<Record<keyof Goals, GoalPeriod>> = {};
+  const fields = new Set<GoalListItem>();
+
+  for (const kind of Object.keys(emptyGoals) as (keyof Goals)[]) {
+    const candidates = list.filter((g) => g.metric === kind && g.direction === "at_least");
+    const field = candidates.find((g) => g.period === emptyGoals[kind].period) ?? candidates[0];
+    if (!field) continue;
+    goals[kind] = { target: field.target, period: field.period };
+    savedPeriods[kind] = field.period;
+    fields.add(field);
+  }
+
+  const others = list
+    .filter((g) => !fields.has(g))
+    .map((g) => ({ metric: g.metric, period: g.period, direction: g.direction, target: String(g.target), saved: true }));
+  return { goals, savedPeriods, others };
+}
+
 const emptyDay = (dateStr: string): DayPayload => ({
   date: dateStr,
   sleep_score: 0,
@@ -211,8 +336,19 @@ const emptyDay = (dateStr: string): DayPayload => ({
   outdoor_minutes: 0,
   writing_minutes: 0,
   coding_minutes: 0,
+  extras: {},
 });
 
+const emptyMetricForm = {
+  key: "",
+  name: "",
+  unit: "",
+  type: "numeric" as CustomMetricType,
+  scale_min: "1",
+  scale_max: "10",
+  aggregation: "last" as CustomMetricAggregation,
+};
+
 /* --------------------------------------------------------
    main component
 --------------------------------------------------------- */
@@ -228,21 +364,41 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
 
   // per-section saving flags
   const [savingBody, setSavingBody] = useState(false);
+  const [savingAthlete, setSavingAthlete] = useState(false);
+  const [calibrating, setCalibrating] = useState(false);
+  const [acceptingCalibration, setAcceptingCalibration] = useState(false);
   const [savingGoals, setSavingGoals] = useState(false);
   const [savingDay, setSavingDay] = useState(false);
   const [savingCoffee, setSavingCoffee] = useState(false);
   const [savingWorkout, setSavingWorkout] = useState(false);
+  const [savingMetric, setSavingMetric] = useState(false);
   const [loadingStrava, setLoadingStrava] = useState(false);
   const [syncingStrava, setSyncingStrava] = useState(false);
+  const [syncStravaStreams, setSyncStravaStreams] = useState(false);
   const [stravaStatus, setStravaStatus] = useState<{
     connected: boolean;
     athlete?: { id: number; name: string | null };
     lastSync?: string | null;
   } | null>(null);
+  const [backfill, setBackfill] = useState<StravaBackfill | null>(null);
+  const [backfillRunning, setBackfillRunning] = useState(false);
 
   // data models
   const [body, setBody] = useState<BodyProfile | null>(null);
+  const [athlete, setAthlete] = useState<AthleteThresholds>({
+    max_hr: null,
+    resting_hr: null,
+    lthr: null,
+    ftp_w: null,
+  });
+  const [athleteDefaults, setAthleteDefaults] = useState({ max_hr: 190, resting_hr: 60 });
+  const [calibration, setCalibration] = useState<HalfLifeCalibration | null>(null);
   const [goals, setGoals] = useState<Goals>(emptyGoals);
+  const [savedGoalPeriods, setSavedGoalPeriods] = useState<Partial<Record<keyof Goals, GoalPeriod>>>({});
+  const [otherGoals, setOtherGoals] = useState<GoalDraft[]>([]);
+  const [removedGoals, setRemovedGoals] = useState<GoalDraft[]>([]);
+  const [customMetrics, setCustomMetrics] = useState<CustomMetric[]>([]);
+  const [metricForm, setMetricForm] = useState(emptyMetricForm);
   const todayStr = useMemo(() => new Date().toISOString().slice(0, 10), []);
   const [day, setDay] = useState<DayPayload>(emptyDay(todayStr));
   const [loadingDay, setLoadingDay] = useState(false);
@@ -306,7 +462,7 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
   const [sends, setSends] = useState<number>(0);
 
   // strength-specific
-  const [exercisesJson, setExercisesJson] = useState<string>('');
+  const [exercises, setExercises] = useState<ExerciseDraft[]>([]);
 
   // load secret from localStorage
   useEffect(() => {
@@ -358,14 +514,31 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
       setSecretOK(true);
 
       // Hydrate data models
-      const [bodyRes, goalsRes, dayRes] = await Promise.all([
+      const [bodyRes, athleteRes, goalListRes, dayRes, metricsRes] = await Promise.all([
         jfetch<BodyProfile>("/api/habits/body", { method: "GET" }, secret),
-        jfetch<Goals>("/api/habits/goal", { method: "GET" }, secret),
+        jfetch<{ profile: AthleteThresholds | null; defaults: { max_hr: number; resting_hr: number } }>(
+          "/api/habits/athlete",
+          { method: "GET" },
+          secret
+        ),
+        jfetch<{ goals: GoalListItem[] }>("/api/habits/goal?list=true", { method: "GET" }, secret),
         jfetch<DayPayload>(`/api/habits/day?date=${todayStr}`, { method: "GET" }, secret),
+        jfetch<{ metrics: CustomMetric[] }>("/api/habits/metrics", { method: "GET" }, secret),
       ]);
 
       if (bodyRes.ok && bodyRes.json) setBody(bodyRes.json);
-      if (goalsRes.ok && goalsRes.json) setGoals({ ...emptyGoals, ...goalsRes.json });
+      if (athleteRes.ok && athleteRes.json) {
+        if (athleteRes.json.profile) setAthlete(athleteRes.json.profile);
+        setAthleteDefaults(athleteRes.json.defaults);
+      }
+      if (metricsRes.ok && metricsRes.json) setCustomMetrics(metricsRes.json.metrics);
+      if (goalListRes.ok && goalListRes.json) {
+        const { goals, savedPeriods, others } = splitGoalList(goalListRes.json.goals);
+        setGoals(goals);
+        setSavedGoalPeriods(savedPeriods);
+        setOtherGoals(others);
+        setRemovedGoals([]);
+      }
       if (dayRes.ok && dayRes.json) setDay({ ...dayRes.json });
       else setDay(emptyDay(todayStr));
 
@@ -444,14 +617,102 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
     }
   }
 
+  async function submitAthlete(e?: React.FormEvent) {
+    e?.preventDefault();
+    if (!secretOK) return setMsg("Enter a valid secret first.");
+    setSavingAthlete(true);
+    try {
+      const payload: AthleteThresholds = {
+        max_hr: athlete.max_hr,
+        resting_hr: athlete.resting_hr,
+        lthr: athlete.lthr,
+        ftp_w: athlete.ftp_w,
+      };
+      const res = await jfetch<{ ok: boolean; profile?: AthleteThresholds; recomputed?: number }>(
+        "/api/habits/athlete",
+        { method: "POST", body: JSON.stringify(payload) },
+        secret
+      );
+      if (res.ok && res.json?.profile) {
+        setAthlete(res.json.profile);
+        setMsg(`Athlete profile saved. Training load updated for ${res.json.recomputed ?? 0} workouts.`);
+      } else {
+        setMsg(res.error || "Failed to save athlete profile.");
+      }
+    } finally {
+      setSavingAthlete(false);
+    }
+  }
+
+  async function suggestCalibration() {
+    if (!secretOK) return setMsg("Enter a valid secret first.");
+    setCalibrating(true);
+    try {
+      const res = await jfetch<HalfLifeCalibration>(
+        "/api/v1/dashboard/coffee/calibration?days=60&fit_sensitivity=true",
+        { method: "GET" },
+        secret
+      );
+      if (res.ok && res.json) setCalibration(res.json);
+      else setMsg(res.error || "Failed to calibrate half-life.");
+    } finally {
+      setCalibrating(false);
+    }
+  }
+
+  async function acceptCalibration() {
+    if (!secretOK || !calibration) return;
+    setAcceptingCalibration(true);
+    try {
+      const res = await jfetch<{ ok: boolean; profile?: BodyProfile }>(
+        "/api/habits/body/calibration",
+        { method: "POST", body: JSON.stringify({ days: calibration.days, fit_sensitivity: true }) },
+        secret
+      );
+      if (res.ok && res.json?.profile) {
+        setBody(res.json.profile); // triggers bodyForm sync via useEffect
+        setCalibration(null);
+        setMsg("Calibrated half-life saved.");
+      } else {
+        setMsg(res.error || "Failed to save calibration.");
+      }
+    } finally {
+      setAcceptingCalibration(false);
+    }
+  }
+
   async function submitGoals(e?: React.FormEvent) {
     e?.preventDefault();
     if (!secretOK) return setMsg("Enter a valid secret first.");
     setSavingGoals(true);
     try {
-      const payload = goals;
-      const res = await jfetch("/api/habits/goal", { method: "POST", body: JSON.stringify(payload) }, secret);
-      setMsg(res.ok ? "Goals saved." : res.error || "Failed to save goals.");
+      // A field whose period changed replaces its goal for the old period
+      const kinds = Object.keys(goals) as (keyof Goals)[];
+      const replaced = kinds.flatMap((kind) => {
+        const saved = savedGoalPeriods[kind];
+        return saved && saved !== goals[kind].period ? [{ metric: kind, period: saved }] : [];
+      });
+      for (const g of [...removedGoals, ...replaced]) {
+        const query = `metric=${encodeURIComponent(g.metric)}&period=${g.period}`;
+        const del = await jfetch(`/api/habits/goal?${query}`, { method: "DELETE" }, secret);
+        if (!del.ok && del.status !== 404) return setMsg(del.error || "Failed to remove a goal.");
+      }
+      setRemovedGoals([]);
+
+      // Fields left at zero are only saved when they had a goal, to clear it
+      const fields = kinds.filter((kind) => goals[kind].target > 0 || savedGoalPeriods[kind]);
+      const drafts = otherGoals.filter((g) => g.metric && g.target.trim() !== "");
+      const payload = [
+        ...fields.map((kind) => ({ metric: kind, period: goals[kind].period, direction: "at_least", target: goals[kind].target })),
+        ...drafts.map((g) => ({ metric: g.metric, period: g.period, direction: g.direction, target: Number(g.target) })),
+      ];
+      if (payload.length > 0) {
+        const res = await jfetch("/api/habits/goal", { method: "POST", body: JSON.stringify({ goals: payload }) }, secret);
+        if (!res.ok) return setMsg(res.error || "Failed to save goals.");
+      }
+      setSavedGoalPeriods(Object.fromEntries(fields.map((kind) => [kind, goals[kind].period])));
+      setOtherGoals(drafts.map((g) => ({ ...g, saved: true })));
+      setMsg("Goals saved.");
     } finally {
       setSavingGoals(false);
     }
@@ -476,7 +737,15 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
         setMsg("Day: please enter only numbers for numeric fields.");
         return;
       }
-      const res = await jfetch<DayPayload>("/api/habits/day", { method: "POST", body: JSON.stringify(day) }, secret);
+      // Only send values of registered metrics; extras may hold older, unregistered keys
+      const extras = Object.fromEntries(
+        Object.entries(day.extras ?? {}).filter(([k]) => customMetrics.some((m) => m.key === k))
+      );
+      const res = await jfetch<DayPayload>(
+        "/api/habits/day",
+        { method: "POST", body: JSON.stringify({ ...day, extras }) },
+        secret
+      );
       if (res.ok && res.json) {
         // Update state with the full response from server
         setDay({ ...res.json });
@@ -489,6 +758,52 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
     }
   }
 
+  async function submitMetric(e?: React.FormEvent) {
+    e?.preventDefault();
+    if (!secretOK) return setMsg("Enter a valid secret first.");
+    setSavingMetric(true);
+    try {
+      const isScale = metricForm.type === "scale";
+      const payload = {
+        key: metricForm.key.trim(),
+        name: metricForm.name.trim(),
+        unit: metricForm.unit.trim() || undefined,
+        type: metricForm.type,
+        scale_min: isScale ? Number(metricForm.scale_min) : undefined,
+        scale_max: isScale ? Number(metricForm.scale_max) : undefined,
+        aggregation: metricForm.aggregation,
+      };
+      const res = await jfetch<{ ok: boolean; metric: CustomMetric }>(
+        "/api/habits/metrics",
+        { method: "POST", body: JSON.stringify(payload) },
+        secret
+      );
+      if (res.ok && res.json) {
+        const saved = res.json.metric;
+        setCustomMetrics((ms) =>
+          [...ms.filter((m) => m.key !== saved.key), saved].sort((a, b) => a.name.localeCompare(b.name))
+        );
+        setMetricForm(emptyMetricForm);
+        setMsg(`Metric "${saved.name}" saved.`);
+      } else {
+        setMsg(res.error || "Failed to save metric.");
+      }
+    } finally {
+      setSavingMetric(false);
+    }
+  }
+
+  async function archiveMetric(key: string) {
+    if (!secretOK) return setMsg("Enter a valid secret first.");
+    const res = await jfetch(`/api/habits/metrics?key=${encodeURIComponent(key)}`, { method: "DELETE" }, secret);
+    if (res.ok) {
+      setCustomMetrics((ms) => ms.filter((m) => m.key !== key));
+      setMsg("Metric archived. Logged values are kept.");
+    } else {
+      setMsg(res.error || "Failed to archive metric.");
+    }
+  }
+
   async function submitCoffee(e?: React.FormEvent) {
     e?.preventDefault();
     if (!secretOK) return setMsg("Enter a valid secret first.");
@@ -557,15 +872,13 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
         details.indoor = indoor;
         if (location) details.location = location;
       } else if (workoutType === 'strength') {
-        if (exercisesJson) {
-          try {
-            details.exercises = JSON.parse(exercisesJson);
-          } catch {
-            setMsg("Invalid JSON in exercises field");
-            setSavingWorkout(false);
-            return;
-          }
+        const parsed = parseExercises(exercises);
+        if (typeof parsed === "string") {
+          setMsg(parsed);
+          setSavingWorkout(false);
+          return;
         }
+        if (parsed.length > 0) details.exercises = parsed;
       }
 
       const payload: WorkoutPayload = {
@@ -600,7 +913,7 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
         setProblems(0);
         setMaxGrade('');
         setSends(0);
-        setExercisesJson('');
+        setExercises([]);
       } else setMsg(res.error || "Failed to log workout.");
     } finally {
       setSavingWorkout(false);
@@ -619,6 +932,7 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
 
       if (res.ok && res.json) {
         setStravaStatus(res.json);
+        if (res.json.connected) fetchStravaBackfill();
       } else {
         setStravaStatus({ connected: false });
       }
@@ -684,18 +998,23 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
         ok: boolean;
         synced: number;
         errors: number;
+        streams: number;
         total: number;
       }>(
         "/api/strava/sync",
         {
           method: "POST",
-          body: JSON.stringify({ daysBack: 30 })
+          body: JSON.stringify({ daysBack: 30, includeStreams: syncStravaStreams })
         },
         secret
       );
 
       if (res.ok && res.json) {
-        setMsg(`Strava sync complete: ${res.json.synced} workouts synced (${res.json.errors} errors).`);
+        setMsg(
+          `Strava sync complete: ${res.json.synced} workouts synced` +
+          (syncStravaStreams ? `, ${res.json.streams} with new streams` : "") +
+          ` (${res.json.errors} errors).`
+        );
         // Refresh status
         fetchStravaStatus();
       } else {
@@ -706,6 +1025,52 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
     }
   }
 
+  async function fetchStravaBackfill() {
+    const res = await jfetch<{ backfill: StravaBackfill | null }>(
+      "/api/strava/backfill",
+      { method: "GET" },
+      secret
+    );
+    if (res.ok && res.json) setBackfill(res.json.backfill);
+  }
+
+  async function handleStravaBackfill(action: "start" | "resume" | "cancel") {
+    if (!secretOK) return setMsg("Enter a valid secret first.");
+    if (action === "start" && backfill && !confirm("Start the history import from the oldest activity again?")) return;
+
+    const res = await jfetch<{ ok: boolean; backfill: StravaBackfill }>(
+      "/api/strava/backfill",
+      { method: "POST", body: JSON.stringify({ action, includeStreams: syncStravaStreams }) },
+      secret
+    );
+    if (!res.ok || !res.json) return setMsg(res.error || "Failed to update Strava backfill.");
+
+    setBackfill(res.json.backfill);
+    if (res.json.backfill.status === "running") continueStravaBackfill();
+  }
+
+  // Keep stepping while this page is open; the cron picks up otherwise
+  async function continueStravaBackfill() {
+    setBackfillRunning(true);
+    try {
+      for (;;) {
+        const res = await jfetch<{ ok: boolean; backfill: StravaBackfill | null }>(
+          "/api/strava/backfill/step",
+          { method: "POST" },
+          secret
+        );
+        if (!res.ok || !res.json?.backfill) {
+          if (!res.ok) setMsg(res.error || "Strava backfill step failed.");
+          break;
+        }
+        setBackfill(res.json.backfill);
+        if (res.json.backfill.status !== "running") break;
+      }
+    } finally {
+      setBackfillRunning(false);
+    }
+  }
+
   // Fetch Strava status when secret is validated
   useEffect(() => {
     if (secretOK) {
@@ -850,6 +1215,52 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
                 onKeyDown={mkNumberKeydownHandler({ onSubmit: () => submitBody(), step: 0.05 })}
               />
             </div>
+            <div className="mt-4 space-y-2 rounded-lg border border-neutral-200 p-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm text-neutral-700">Calibrate from sleep data (60 days)</span>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  {...blurOnMouseDown}
+                  onClick={suggestCalibration}
+                  disabled={!secretOK || calibrating}
+                >
+                  {calibrating && <Spinner className="text-black/80" />}
+                  {calibrating ? "Fitting…" : "Suggest"}
+                </Button>
+              </div>
+              {calibration && calibration.status === "ok" && calibration.fit && (
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs text-neutral-600">
+                    Half-life {calibration.half_life_hours} h (95% CI {calibration.half_life_ci95?.[0]}–
+                    {calibration.half_life_ci95?.[1]} h, was {calibration.current.half_life_hours} h)
+                    {calibration.caffeine_sensitivity !== null &&
+                      `, sensitivity ${calibration.caffeine_sensitivity}×`}
+                    . R² {calibration.fit.r_squared}, p {calibration.fit.p_value.toFixed(3)}, n {calibration.n}.
+                  </p>
+                  <Button
+                    type="button"
+                    size="sm"
+                    {...blurOnMouseDown}
+                    onClick={acceptCalibration}
+                    disabled={acceptingCalibration}
+                  >
+                    {acceptingCalibration ? "Saving…" : "Accept"}
+                  </Button>
+                </div>
+              )}
+              {calibration && calibration.status === "insufficient_data" && (
+                <p className="text-xs text-neutral-500">
+                  Not enough nights with a sleep score and varying caffeine yet ({calibration.n} nights).
+                </p>
+              )}
+              {calibration && calibration.status === "no_caffeine_effect" && (
+                <p className="text-xs text-neutral-500">
+                  Sleep scores don&apos;t drop with residual caffeine over {calibration.n} nights; keeping the current half-life.
+                </p>
+              )}
+            </div>
           </div>
 
           {/* Optional Demographics Section */}
@@ -888,6 +1299,62 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
         </p>
       </Card>
 
+      {/* Athlete Profile */}
+      <Card
+        title="Athlete Profile"
+        footer={
+          <Button
+            type="submit"
+            form="form-athlete"
+            {...blurOnMouseDown}
+            disabled={!secretOK || savingAthlete}
+          >
+            {savingAthlete && <Spinner className="text-black/80" />}
+            {savingAthlete ? "Saving…" : "Save Athlete"}
+          </Button>
+        }
+      >
+        <form
+          id="form-athlete"
+          onSubmit={submitAthlete}
+          onKeyDown={makeFormHotkeys(() => submitAthlete())}
+          className="grid grid-cols-2 gap-4"
+        >
+          <OptionalNumField
+            label="Max HR (bpm)"
+            value={athlete.max_hr}
+            placeholder={String(athleteDefaults.max_hr)}
+            onCommit={(v) => setAthlete((a) => ({ ...a, max_hr: v }))}
+            onKeyDown={mkNumberKeydownHandler({ onSubmit: () => submitAthlete(), step: 1 })}
+          />
+          <OptionalNumField
+            label="Resting HR (bpm)"
+            value={athlete.resting_hr}
+            placeholder={String(athleteDefaults.resting_hr)}
+            onCommit={(v) => setAthlete((a) => ({ ...a, resting_hr: v }))}
+            onKeyDown={mkNumberKeydownHandler({ onSubmit: () => submitAthlete(), step: 1 })}
+          />
+          <OptionalNumField
+            label="Threshold HR (bpm)"
+            value={athlete.lthr}
+            placeholder="not set"
+            onCommit={(v) => setAthlete((a) => ({ ...a, lthr: v }))}
+            onKeyDown={mkNumberKeydownHandler({ onSubmit: () => submitAthlete(), step: 1 })}
+          />
+          <OptionalNumField
+            label="FTP (W)"
+            value={athlete.ftp_w}
+            placeholder="not set"
+            onCommit={(v) => setAthlete((a) => ({ ...a, ftp_w: v }))}
+            onKeyDown={mkNumberKeydownHandler({ onSubmit: () => submitAthlete(), step: 5 })}
+          />
+        </form>
+        <p className="text-xs text-neutral-500 mt-2">
+          Used for heart-rate zones, TRIMP and the intensity of new workouts. Zones follow threshold HR when set,
+          otherwise max HR. FTP sets the intensity of workouts with power but no heart rate.
+        </p>
+      </Card>
+
       {/* Goal Data */}
       <Card
         title="Goal Data (this month)"
@@ -967,6 +1434,35 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
               onKeyDown={mkNumberKeydownHandler({ onSubmit: () => submitGoals(), step: 5 })}
             />
           </div>
+
+          <div className="space-y-3">
+            <Label>Other goals</Label>
+            {otherGoals.map((g, i) => (
+              <GoalDraftField
+                key={i}
+                goal={g}
+                metricOptions={[
+                  ...goalMetricOptions,
+                  ...customMetrics.map((m) => ({ value: `custom:${m.key}`, label: m.name })),
+                ]}
+                onChange={(next) => setOtherGoals((gs) => gs.map((x, j) => (j === i ? next : x)))}
+                onRemove={() => {
+                  if (g.saved) setRemovedGoals((rs) => [...rs, g]);
+                  setOtherGoals((gs) => gs.filter((_, j) => j !== i));
+                }}
+              />
+            ))}
+            <button
+              type="button"
+              onClick={() => setOtherGoals((gs) => [...gs, emptyGoalDraft])}
+              className="rounded-md border border-neutral-300 px-2 py-1 text-xs text-neutral-700 hover:bg-neutral-50"
+            >
+              Add goal
+            </button>
+            <p className="text-xs text-neutral-500">
+              Weekly goals count from Monday. &ldquo;At most&rdquo; goals are caps, e.g. caffeine per day.
+            </p>
+          </div>
         </form>
       </Card>
 
@@ -1007,6 +1503,16 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
                 </div>
               )}
 
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={syncStravaStreams}
+                  onChange={(e)=>setSyncStravaStreams(e.target.checked)}
+                  className="rounded border-neutral-300"
+                />
+                <Label>Import streams (heart rate, pace, altitude) for workout details</Label>
+              </div>
+
               <div className="flex gap-2">
                 <button
                   onClick={handleStravaSync}
@@ -1042,6 +1548,77 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
                   Disconnect
                 </button>
               </div>
+
+              <div className="space-y-2 border-t pt-3">
+                <div className="text-sm font-medium">Full history import</div>
+                {backfill ? (
+                  <div className="text-sm text-neutral-600 space-y-1">
+                    <div>
+                      {BACKFILL_STATUS_LABELS[backfill.status]}: {backfill.imported} imported,{" "}
+                      {backfill.skipped} skipped, {backfill.errors} errors ({backfill.pages} pages)
+                    </div>
+                    {backfill.after_cursor > 0 && (
+                      <div className="text-neutral-500">
+                        Reached activities from {new Date(backfill.after_cursor * 1000).toLocaleDateString()}
+                      </div>
+                    )}
+                    {backfill.status === "rate_limited" && backfill.paused_until && (
+                      <div className="text-amber-700">
+                        Strava rate limit reached; continues automatically after{" "}
+                        {new Date(backfill.paused_until).toLocaleTimeString()}.
+                      </div>
+                    )}
+                    {backfill.last_error && (
+                      <div className="text-red-700">Last error: {backfill.last_error}</div>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-sm text-neutral-500">
+                    Import every running activity since the account was created. Runs in the background and
+                    pauses when Strava&apos;s rate limit is reached.
+                  </p>
+                )}
+
+                <div className="flex gap-2">
+                  {backfill?.status === "running" || backfill?.status === "rate_limited" ? (
+                    <button
+                      onClick={() => handleStravaBackfill("cancel")}
+                      disabled={!secretOK}
+                      className={cls(
+                        "px-4 py-2 rounded-md flex items-center gap-2",
+                        "border border-neutral-300 text-neutral-700 hover:bg-neutral-50 disabled:opacity-50"
+                      )}
+                    >
+                      {backfillRunning && <Spinner className="text-black/80" />}
+                      Cancel Import
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleStravaBackfill("start")}
+                      disabled={!secretOK}
+                      className={cls(
+                        "px-4 py-2 rounded-md",
+                        "border border-neutral-300 text-neutral-700 hover:bg-neutral-50 disabled:opacity-50"
+                      )}
+                    >
+                      {backfill ? "Restart Import" : "Import Full History"}
+                    </button>
+                  )}
+
+                  {(backfill?.status === "cancelled" || backfill?.status === "failed") && (
+                    <button
+                      onClick={() => handleStravaBackfill("resume")}
+                      disabled={!secretOK}
+                      className={cls(
+                        "px-4 py-2 rounded-md",
+                        "bg-emerald-600 text-white hover:bg-emerald-500 disabled:opacity-50"
+                      )}
+                    >
+                      Resume Import
+                    </button>
+                  )}
+                </div>
+              </div>
             </div>
           ) : (
             <div className="space-y-3">
@@ -1065,7 +1642,7 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
           )}
 
           <p className="text-xs text-neutral-500">
-            New activities will be automatically imported via webhook. Use "Sync Now" to import recent activities (last 30 days).
+            New activities will be automatically imported via webhook. Use "Sync Now" to import recent activities (last 30 days) or "Import Full History" for older ones.
           </p>
         </div>
       </Card>
@@ -1158,9 +1735,163 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
           <NumField label="Outdoors (min)" value={day.outdoor_minutes} onCommit={(v)=>setDay(d=>({...d, outdoor_minutes:v}))} onKeyDown={mkNumberKeydownHandler({ onSubmit: () => submitDay(), step: 5 })}/>
           <NumField label="Writing (min)" value={day.writing_minutes} onCommit={(v)=>setDay(d=>({...d, writing_minutes:v}))} onKeyDown={mkNumberKeydownHandler({ onSubmit: () => submitDay(), step: 5 })}/>
           <NumField label="Coding (min)" value={day.coding_minutes} onCommit={(v)=>setDay(d=>({...d, coding_minutes:v}))} onKeyDown={mkNumberKeydownHandler({ onSubmit: () => submitDay(), step: 5 })}/>
+          {customMetrics.map((m) => {
+            const value = day.extras?.[m.key];
+            const setValue = (v: number | boolean | null) =>
+              setDay(d => ({ ...d, extras: { ...d.extras, [m.key]: v } }));
+            return m.type === "boolean" ? (
+              <div key={m.key} className="flex items-center gap-2 self-end pb-2">
+                <input
+                  type="checkbox"
+                  checked={value === true}
+                  onChange={(e)=>setValue(e.target.checked)}
+                  className="rounded border-neutral-300"
+                />
+                <Label>{m.name}</Label>
+              </div>
+            ) : (
+              <OptionalNumField
+                key={m.key}
+                label={m.unit ? `${m.name} (${m.unit})` : m.name}
+                value={typeof value === "number" ? value : null}
+                placeholder={m.type === "scale" ? `${m.scale_min}–${m.scale_max}` : "–"}
+                onCommit={setValue}
+                onKeyDown={mkNumberKeydownHandler({ onSubmit: () => submitDay(), step: 1 })}
+              />
+            );
+          })}
         </form>
       </Card>
 
+      {/* Custom Metrics */}
+      <Card
+        title="Custom Metrics"
+        footer={
+          <Button
+            type="submit"
+            form="form-metric"
+            {...blurOnMouseDown}
+            disabled={!secretOK || savingMetric || !metricForm.key || !metricForm.name}
+          >
+            {savingMetric && <Spinner className="text-black/80" />}
+            {savingMetric ? "Saving…" : "Save Metric"}
+          </Button>
+        }
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-neutral-600">
+            Track anything else per day (e.g. alcohol units, meditation). Custom metrics appear in
+            Log Day and are included in the correlation insights.
+          </p>
+
+          {customMetrics.length > 0 && (
+            <ul className="divide-y divide-neutral-200 rounded-md border border-neutral-200 text-sm">
+              {customMetrics.map((m) => (
+                <li key={m.key} className="flex items-center justify-between gap-2 px-3 py-2">
+                  <button
+                    type="button"
+                    className="text-left"
+                    onClick={() =>
+                      setMetricForm({
+                        key: m.key,
+                        name: m.name,
+                        unit: m.unit ?? "",
+                        type: m.type,
+                        scale_min: String(m.scale_min ?? 1),
+                        scale_max: String(m.scale_max ?? 10),
+                        aggregation: m.aggregation,
+                      })
+                    }
+                  >
+                    <span className="font-medium">{m.name}</span>{" "}
+                    <span className="text-neutral-500">
+                      {m.key} · {m.type === "scale" ? `scale ${m.scale_min}–${m.scale_max}` : m.type}
+                      {m.unit ? ` · ${m.unit}` : ""} · {m.aggregation}
+                    </span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => archiveMetric(m.key)}
+                    disabled={!secretOK}
+                    className="rounded-md border border-neutral-300 px-2 py-1 text-xs text-neutral-700 hover:bg-neutral-50 disabled:opacity-50"
+                  >
+                    Archive
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form
+            id="form-metric"
+            onSubmit={submitMetric}
+            onKeyDown={makeFormHotkeys(() => submitMetric())}
+            className="grid grid-cols-2 gap-4"
+          >
+            <Field
+              label="Key"
+              placeholder="alcohol_units"
+              value={metricForm.key}
+              onChange={(e) => setMetricForm(f => ({ ...f, key: e.target.value }))}
+            />
+            <Field
+              label="Name"
+              placeholder="Alcohol"
+              value={metricForm.name}
+              onChange={(e) => setMetricForm(f => ({ ...f, name: e.target.value }))}
+            />
+            <Field
+              label="Unit"
+              placeholder="units"
+              value={metricForm.unit}
+              onChange={(e) => setMetricForm(f => ({ ...f, unit: e.target.value }))}
+            />
+            <SelectField
+              label="Type"
+              value={metricForm.type}
+              onChange={(v) =>
+                setMetricForm(f => ({
+                  ...f,
+                  type: v as CustomMetricType,
+                  // Only numeric metrics can be summed
+                  aggregation: v !== "numeric" && f.aggregation === "sum" ? "last" : f.aggregation,
+                }))
+              }
+            >
+              <option value="numeric">Number</option>
+              <option value="boolean">Yes / no</option>
+              <option value="scale">Scale</option>
+            </SelectField>
+            {metricForm.type === "scale" && (
+              <>
+                <Field
+                  label="Scale min"
+                  inputMode="numeric"
+                  value={metricForm.scale_min}
+                  onChange={(e) => setMetricForm(f => ({ ...f, scale_min: e.target.value }))}
+                />
+                <Field
+                  label="Scale max"
+                  inputMode="numeric"
+                  value={metricForm.scale_max}
+                  onChange={(e) => setMetricForm(f => ({ ...f, scale_max: e.target.value }))}
+                />
+              </>
+            )}
+            <SelectField
+              label="Repeated logs per day"
+              value={metricForm.aggregation}
+              onChange={(v) => setMetricForm(f => ({ ...f, aggregation: v as CustomMetricAggregation }))}
+            >
+              <option value="last">Keep latest</option>
+              {metricForm.type === "numeric" && <option value="sum">Add up</option>}
+              <option value="max">Keep highest</option>
+              <option value="min">Keep lowest</option>
+            </SelectField>
+          </form>
+        </div>
+      </Card>
+
       {/* Log Coffee */}
       <Card
         title="Log Coffee"
@@ -1307,7 +2038,7 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
           {workoutType === 'climbing' && (
             <>
               <Field
-                label="Grade (e.g. 6b+)"
+                label="Grade (e.g. 6b+, VII-, 5.11a)"
                 type="text"
                 value={grade}
                 onChange={(e)=>setGrade((e.target as HTMLInputElement).value)}
@@ -1343,7 +2074,7 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
             <>
               <NumField label="Problems" value={problems} onCommit={setProblems} onKeyDown={mkNumberKeydownHandler({ onSubmit: () => submitWorkout(), step: 1 })}/>
               <Field
-                label="Max Grade (e.g. V5)"
+                label="Max Grade (e.g. 7A or V5)"
                 type="text"
                 value={maxGrade}
                 onChange={(e)=>setMaxGrade((e.target as HTMLInputElement).value)}
@@ -1372,19 +2103,7 @@ export default function SettingsClient({ coffees }: { coffees: CoffeeRow[] }) {
           {/* Strength-specific fields */}
           {workoutType === 'strength' && (
             <div className="col-span-2">
-              <Label>Exercises (JSON)</Label>
-              <textarea
-                value={exercisesJson}
-                onChange={(e)=>setExercisesJson(e.target.value)}
-                onKeyDown={(e)=>{
-                  if (e.key === "Escape") (e.currentTarget as HTMLTextAreaElement).blur();
-                }}
-                className={cls(
-                  "w-full rounded-md border border-neutral-300",
-                  "bg-white px-3 py-2 min-h-[80px] font-mono text-xs"
-                )}
-                placeholder='[{"name": "Squat", "sets": 3, "reps": 8, "weight_kg": 100}]'
-              />
+              <ExercisesField value={exercises} onChange={setExercises} />
             </div>
           )}
 
@@ -1470,9 +2189,81 @@ function GoalField({
         </SelectTrigger>
         <SelectContent>
           <SelectItem value="daily">Daily</SelectItem>
+          <SelectItem value="weekly">Weekly</SelectItem>
           <SelectItem value="monthly">Monthly</SelectItem>
+          <SelectItem value="yearly">Yearly</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+function GoalDraftField({
+  goal,
+  metricOptions,
+  onChange,
+  onRemove,
+}: {
+  goal: GoalDraft;
+  metricOptions: { value: string; label: string }[];
+  onChange: (g: GoalDraft) => void;
+  onRemove: () => void;
+}) {
+  const metricLabel = metricOptions.find((o) => o.value === goal.metric)?.label ?? goal.metric;
+
+  return (
+    <div className="grid grid-cols-[1fr_110px_110px_100px_auto] gap-2 items-center">
+      {goal.saved ? (
+        <span className="text-sm">{metricLabel}</span>
+      ) : (
+        <Select value={goal.metric || undefined} onValueChange={(v: string) => onChange({ ...goal, metric: v })}>
+          <SelectTrigger>
+            <SelectValue placeholder="Metric" />
+          </SelectTrigger>
+          <SelectContent>
+            {metricOptions.map((o) => (
+              <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {goal.saved ? (
+        <span className="text-sm text-neutral-500 capitalize">{goal.period}</span>
+      ) : (
+        <Select value={goal.period} onValueChange={(v: string) => onChange({ ...goal, period: v as GoalPeriod })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="daily">Daily</SelectItem>
+            <SelectItem value="weekly">Weekly</SelectItem>
+            <SelectItem value="monthly">Monthly</SelectItem>
+            <SelectItem value="yearly">Yearly</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+      <Select value={goal.direction} onValueChange={(v: string) => onChange({ ...goal, direction: v as GoalDirection })}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="at_least">At least</SelectItem>
+          <SelectItem value="at_most">At most</SelectItem>
         </SelectContent>
       </Select>
+      <Input
+        inputMode="decimal"
+        placeholder="Target"
+        value={goal.target}
+        onChange={(e) => onChange({ ...goal, target: e.target.value })}
+      />
+      <button
+        type="button"
+        onClick={onRemove}
+        className="rounded-md border border-neutral-300 px-2 py-1 text-xs text-neutral-700 hover:bg-neutral-50"
+      >
+        Remove
+      </button>
     </div>
   );
 }
@@ -1551,6 +2342,189 @@ function NumField({
   );
 }
 
+/**
+ * Like NumField, but an empty input commits null (no value for the day)
+ * instead of 0, so optional metrics are not logged by tabbing through them.
+ */
+function OptionalNumField({
+  label,
+  value,
+  onCommit,
+  placeholder,
+  onKeyDown,
+}: {
+  label: string;
+  value: number | null;
+  onCommit: (v: number | null) => void;
+  placeholder?: string;
+  onKeyDown?: (e: React.KeyboardEvent<HTMLInputElement>) => void;
+}) {
+  const [text, setText] = useState<string>(() => (value === null ? "" : String(value)));
+  const [prevValue, setPrevValue] = useState(value);
+
+  // Derived state pattern - update text when value changes
+  if (value !== prevValue) {
+    setPrevValue(value);
+    setText(value === null ? "" : String(value));
+  }
+
+  const commit = () => {
+    const raw = text.replace(",", ".").trim();
+    if (raw === "" || raw === "-") {
+      if (value !== null) onCommit(null);
+      return;
+    }
+    const num = Number(raw);
+    onCommit(Number.isFinite(num) ? num : null);
+  };
+
+  return (
+    <div className="flex flex-col space-y-2">
+      <Label>{label}</Label>
+      <Input
+        type="text"
+        inputMode="decimal"
+        pattern="^-?[0-9]*([.,][0-9]+)?$"
+        placeholder={placeholder}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            commit();
+            return;
+          }
+          onKeyDown?.(e);
+        }}
+      />
+    </div>
+  );
+}
+
+/**
+ * Exercises with their sets as sent in details.exercises. Blank sets are
+ * dropped; returns an error message for entries the API would reject.
+ */
+function parseExercises(drafts: ExerciseDraft[]): StrengthExercisePayload[] | string {
+  const num = (v: string) => (v.trim() === "" ? undefined : Number(v.replace(",", ".")));
+  const out: StrengthExercisePayload[] = [];
+
+  for (const draft of drafts) {
+    const name = draft.exercise.trim();
+    const sets = draft.sets.filter((set) => set.reps.trim() || set.load_kg.trim() || set.rpe.trim());
+    if (!name && sets.length === 0) continue;
+    if (!name) return "Every exercise needs a name.";
+    if (sets.length === 0) return `Add at least one set for ${name}.`;
+
+    const parsed: StrengthExercisePayload["sets"] = [];
+    for (const set of sets) {
+      const reps = num(set.reps);
+      const load_kg = num(set.load_kg);
+      const rpe = num(set.rpe);
+      if (reps === undefined || !Number.isInteger(reps) || reps < 1) return `Reps for ${name} must be a whole number.`;
+      if (load_kg !== undefined && !(load_kg >= 0)) return `Load for ${name} must be a positive number.`;
+      if (rpe !== undefined && !(rpe >= 1 && rpe <= 10 && Number.isInteger(rpe * 2))) {
+        return `RPE for ${name} must be between 1 and 10 in half steps.`;
+      }
+      parsed.push({ reps, ...(load_kg ? { load_kg } : {}), ...(rpe !== undefined ? { rpe } : {}) });
+    }
+    out.push({ exercise: name, sets: parsed });
+  }
+  return out;
+}
+
+/** Exercise list with per-set reps, load and RPE; a new set copies the previous one. */
+function ExercisesField({
+  value,
+  onChange,
+}: {
+  value: ExerciseDraft[];
+  onChange: (v: ExerciseDraft[]) => void;
+}) {
+  const update = (i: number, next: ExerciseDraft | null) =>
+    onChange(next ? value.map((e, j) => (j === i ? next : e)) : value.filter((_, j) => j !== i));
+
+  const setInput = (
+    i: number,
+    k: number,
+    key: keyof ExerciseSetDraft,
+    placeholder: string,
+    inputMode: "numeric" | "decimal"
+  ) => (
+    <Input
+      type="text"
+      inputMode={inputMode}
+      aria-label={`${value[i].exercise || "Exercise"} set ${k + 1} ${placeholder}`}
+      placeholder={placeholder}
+      value={value[i].sets[k][key]}
+      onChange={(e) =>
+        update(i, {
+          ...value[i],
+          sets: value[i].sets.map((set, j) => (j === k ? { ...set, [key]: e.target.value } : set)),
+        })
+      }
+      onKeyDown={(e) => { if (e.key === "Escape") (e.currentTarget as HTMLInputElement).blur(); }}
+    />
+  );
+
+  return (
+    <div className="space-y-3">
+      <Label>Exercises</Label>
+      {value.map((draft, i) => (
+        <div key={i} className="space-y-2 rounded-lg border border-neutral-200 p-3">
+          <div className="flex items-center gap-2">
+            <Input
+              type="text"
+              aria-label={`Exercise ${i + 1}`}
+              placeholder="Exercise (e.g. Squat)"
+              value={draft.exercise}
+              onChange={(e) => update(i, { ...draft, exercise: e.target.value })}
+              onKeyDown={(e) => { if (e.key === "Escape") (e.currentTarget as HTMLInputElement).blur(); }}
+            />
+            <Button type="button" variant="outline" size="sm" onClick={() => update(i, null)}>
+              Remove
+            </Button>
+          </div>
+          {draft.sets.map((_, k) => (
+            <div key={k} className="grid grid-cols-[2rem_1fr_1fr_1fr_auto] items-center gap-2">
+              <span className="text-xs text-neutral-500 tabular-nums">{k + 1}.</span>
+              {setInput(i, k, "reps", "Reps", "numeric")}
+              {setInput(i, k, "load_kg", "kg", "decimal")}
+              {setInput(i, k, "rpe", "RPE", "decimal")}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                aria-label={`Remove set ${k + 1}`}
+                onClick={() => update(i, { ...draft, sets: draft.sets.filter((_, j) => j !== k) })}
+              >
+                ×
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => update(i, { ...draft, sets: [...draft.sets, draft.sets[draft.sets.length - 1] ?? emptySet] })}
+          >
+            Add set
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...value, { exercise: "", sets: [emptySet] }])}
+      >
+        Add exercise
+      </Button>
+    </div>
+  );
+}
+
 /** Labeled select using shadcn-ui Select. */
 function SelectField({
   label,
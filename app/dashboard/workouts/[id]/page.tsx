@@ -0,0 +1,61 @@
+import React from "react";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { dashboardApi, ApiClientError } from "@/lib/api/client";
+import type { WorkoutDetailResponse } from "@/lib/api/types";
+import WorkoutDetailClient from "./workout-detail.client";
+
+export const runtime = "nodejs";
+
+// Force dynamic rendering to fetch data on-demand from API
+// API endpoints handle caching with tag-based invalidation
+export const dynamic = 'force-dynamic';
+
+export const metadata = {
+  title: "Workout | Dashboard",
+  description: "Heart-rate zones, splits and elevation of a single workout",
+};
+
+type Props = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function WorkoutDetailPage({ params }: Props) {
+  const { id } = await params;
+  if (!/^\d+$/.test(id)) notFound();
+
+  let detail: WorkoutDetailResponse;
+  try {
+    detail = await dashboardApi.get<WorkoutDetailResponse>("/workouts/detail", {
+      params: { id },
+      tags: ["workouts:detail"],
+      revalidate: 3600, // 1 hour cache
+    });
+  } catch (error) {
+    if (error instanceof ApiClientError && error.status === 404) notFound();
+    throw error;
+  }
+
+  const { workout } = detail;
+  const typeName = workout.workout_type.charAt(0).toUpperCase() + workout.workout_type.slice(1);
+
+  return (
+    <div className="w-full space-y-6">
+      <div>
+        <Link href="/dashboard/workouts" className="text-sm text-muted-foreground hover:underline">
+          ← Workouts
+        </Link>
+        <h2 className="text-2xl font-bold tracking-tight">
+          {typeName} · {new Date(workout.date).toLocaleDateString()}
+        </h2>
+        <p className="text-muted-foreground">
+          {workout.duration_min} min
+          {workout.distance_km !== null && ` • ${workout.distance_km.toFixed(2)} km`}
+          {workout.source && ` • ${workout.source}`}
+        </p>
+      </div>
+
+      <WorkoutDetailClient detail={detail} />
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Area, Bars, Line, Panel } from "@/components/dashboard/charts/shadcn-charts";
+import type { WorkoutDetailResponse } from "@/lib/api/types";
+
+type WorkoutDetailClientProps = {
+  detail: WorkoutDetailResponse;
+};
+
+function formatPace(secPerKm: number): string {
+  if (!Number.isFinite(secPerKm) || secPerKm <= 0) return "–";
+  const total = Math.round(secPerKm);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return h > 0
+    ? `${h}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`
+    : `${m}:${String(s).padStart(2, "0")}`;
+}
+
+export default function WorkoutDetailClient({ detail }: WorkoutDetailClientProps) {
+  const { analysis } = detail;
+
+  if (!analysis) {
+    return (
+      <Panel title="Analysis">
+        <p className="text-sm text-muted-foreground">
+          No activity streams stored for this workout. Run a Strava sync with streams enabled
+          (Settings → Strava) to import heart rate, pace and altitude.
+        </p>
+      </Panel>
+    );
+  }
+
+  const zoneItems = (analysis.hr_zones ?? []).map((z) => ({
+    name: z.max_bpm === null ? `Z${z.zone} (${z.min_bpm}+ bpm)` : `Z${z.zone} (${z.min_bpm}–${z.max_bpm} bpm)`,
+    value: Math.round(z.seconds / 60),
+  }));
+
+  const timeline = analysis.series.map((p) => ({
+    minute: (p.time_s / 60).toFixed(1),
+    "Heart rate": p.heartrate,
+    // Pace in min/km; standing still would be an infinite pace
+    "Pace": p.velocity_mps && p.velocity_mps > 0.5 ? Number((1000 / p.velocity_mps / 60).toFixed(2)) : null,
+  }));
+
+  const elevationData = (analysis.elevation?.points ?? []).map((p) => ({
+    km: (p.distance_m / 1000).toFixed(2),
+    "Altitude (m)": Math.round(p.altitude_m),
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Samples</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CardTitle className="text-3xl">{analysis.point_count.toLocaleString()}</CardTitle>
+            <p className="text-xs text-muted-foreground mt-1">from {analysis.source}</p>
+          </CardContent>
+        </Card>
+
+        {analysis.trimp !== null && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Training Load</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CardTitle className="text-3xl">
+                {Math.round(analysis.trimp)}
+                <span className="text-lg text-muted-foreground ml-1">TRIMP</span>
+              </CardTitle>
+              <p className="text-xs text-muted-foreground mt-1">from heart-rate samples</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {analysis.elevation && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Elevation</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CardTitle className="text-3xl">
+                +{Math.round(analysis.elevation.gain_m)}
+                <span className="text-lg text-muted-foreground ml-1">m</span>
+              </CardTitle>
+              <p className="text-xs text-muted-foreground mt-1">
+                −{Math.round(analysis.elevation.loss_m)} m • {Math.round(analysis.elevation.min_m)}–
+                {Math.round(analysis.elevation.max_m)} m
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {analysis.splits.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Fastest Split</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CardTitle className="text-3xl">
+                {formatPace(Math.min(...analysis.splits.map((s) => s.pace_sec_per_km)))}
+                <span className="text-lg text-muted-foreground ml-1">min/km</span>
+              </CardTitle>
+              <p className="text-xs text-muted-foreground mt-1">
+                {analysis.splits.length} {analysis.splits.length === 1 ? "split" : "splits"}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {zoneItems.length > 0 && (
+        <Bars
+          title={`Time in HR Zones (min, ${analysis.lthr ? `LTHR ${analysis.lthr}` : `max HR ${analysis.max_hr}`})`}
+          items={zoneItems}
+        />
+      )}
+
+      {timeline.length > 0 && (
+        <Line title="Heart Rate & Pace" data={timeline} index="minute" categories={["Heart rate", "Pace"]} />
+      )}
+
+      {elevationData.length > 0 && (
+        <Area
+          title="Elevation Profile"
+          data={elevationData}
+          index="km"
+          categories={["Altitude (m)"]}
+          showLegend={false}
+        />
+      )}
+
+      {analysis.splits.length > 0 && (
+        <Panel title="Splits">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-1 pr-4 font-medium">Km</th>
+                  <th className="py-1 pr-4 font-medium">Time</th>
+                  <th className="py-1 pr-4 font-medium">Pace</th>
+                  <th className="py-1 pr-4 font-medium">Avg HR</th>
+                  <th className="py-1 font-medium">Elev.</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.splits.map((s) => (
+                  <tr key={s.index} className="border-t border-neutral-200/60">
+                    <td className="py-1 pr-4">
+                      {s.distance_m < 999 ? `${s.index} (${(s.distance_m / 1000).toFixed(2)})` : s.index}
+                    </td>
+                    <td className="py-1 pr-4 tabular-nums">{formatDuration(s.elapsed_s)}</td>
+                    <td className="py-1 pr-4 tabular-nums">{formatPace(s.pace_sec_per_km)}</td>
+                    <td className="py-1 pr-4 tabular-nums">
+                      {s.avg_heartrate === null ? "–" : Math.round(s.avg_heartrate)}
+                    </td>
+                    <td className="py-1 tabular-nums">
+                      +{Math.round(s.elevation_gain_m)} / −{Math.round(s.elevation_loss_m)} m
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Panel>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,9 @@ import type {
   WorkoutsSummaryResponse,
   WorkoutsHeatmapResponse,
   RunningStatsResponse,
+  StrengthStatsResponse,
+  RecentWorkoutsResponse,
+  WorkoutsLoadResponse,
 } from "@/lib/api/types";
 import WorkoutsClient from "./workouts.client";
 
@@ -25,7 +28,7 @@ export const metadata = {
 
 export default async function WorkoutsPage() {
   // Fetch workouts data from API endpoints in parallel
-  const [summary, heatmap, runningStats] = await Promise.all([
+  const [summary, heatmap, runningStats, strengthStats, recent, load] = await Promise.all([
     dashboardApi.get<WorkoutsSummaryResponse>("/workouts/summary", {
       params: { period: "month" },
       tags: ["workouts:summary"],
@@ -41,6 +44,21 @@ export default async function WorkoutsPage() {
       tags: ["workouts:running"],
       revalidate: 60, // 1 minute cache
     }),
+    dashboardApi.get<StrengthStatsResponse>("/workouts/strength/stats", {
+      params: { period: "month" },
+      tags: ["workouts:strength"],
+      revalidate: 60, // 1 minute cache
+    }),
+    dashboardApi.get<RecentWorkoutsResponse>("/workouts/recent", {
+      params: { limit: 10 },
+      tags: ["workouts:recent"],
+      revalidate: 60, // 1 minute cache
+    }),
+    dashboardApi.get<WorkoutsLoadResponse>("/workouts/load", {
+      params: { days: 90 },
+      tags: ["workouts:load"],
+      revalidate: 300, // 5 minutes cache
+    }),
   ]);
 
   // Extract unique workout types from summary (includes all types ever logged)
@@ -96,6 +114,11 @@ export default async function WorkoutsPage() {
         currentStreak={summary.streaks.current}
         longestStreak={summary.streaks.longest}
         personalRecords={personalRecords}
+        recentWorkouts={recent.workouts}
+        trainingLoad={load}
+        raceTimes={runningStats}
+        climbing={summary.climbing}
+        strength={strengthStats}
       />
     </div>
   );
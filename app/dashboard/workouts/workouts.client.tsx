@@ -1,10 +1,19 @@
 "use client";
 
 import React from "react";
+import Link from "next/link";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Panel } from "@/components/dashboard/charts/shadcn-charts";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Line, Panel } from "@/components/dashboard/charts/shadcn-charts";
+import type {
+  RunningRaceDistance,
+  RunningStatsResponse,
+  StrengthStatsResponse,
+  WorkoutsLoadResponse,
+  WorkoutsSummaryResponse,
+} from "@/lib/api/types";
 
 type WorkoutStats = {
   workout_type: string;
@@ -19,6 +28,15 @@ type WorkoutHeatmapDay = {
   workouts: { type: string; duration_min: number }[];
 };
 
+type RecentWorkout = {
+  id: number;
+  date: string;
+  workout_type: string;
+  duration_min: number;
+  distance_km: number | null;
+  has_streams: boolean;
+};
+
 type WorkoutsClientProps = {
   workoutTypes: string[];
   workoutStats: WorkoutStats[];
@@ -30,8 +48,48 @@ type WorkoutsClientProps = {
     fastestPace?: { pace_min_per_km: number; date: string };
     mostWorkoutsWeek?: { count: number; week: string };
   };
+  recentWorkouts?: RecentWorkout[];
+  trainingLoad?: WorkoutsLoadResponse;
+  raceTimes?: Pick<RunningStatsResponse, "best_efforts" | "predictions">;
+  climbing?: WorkoutsSummaryResponse["climbing"];
+  strength?: StrengthStatsResponse;
+};
+
+const ACWR_LABELS: Record<NonNullable<WorkoutsLoadResponse["current"]["acwr_status"]>, string> = {
+  low: "Detraining",
+  optimal: "Sweet spot",
+  elevated: "Elevated",
+  high: "Spike",
+};
+
+const RACE_LABELS: Record<RunningRaceDistance, string> = {
+  "1k": "1 km",
+  "5k": "5 km",
+  "10k": "10 km",
+  half: "Half marathon",
+  marathon: "Marathon",
 };
 
+const CLIMBING_LABELS: Record<"route" | "boulder", string> = {
+  route: "Climbing",
+  boulder: "Bouldering",
+};
+
+function formatPace(secPerKm: number): string {
+  const total = Math.round(secPerKm);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return h > 0
+    ? `${h}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`
+    : `${m}:${String(s).padStart(2, "0")}`;
+}
+
 export default function WorkoutsClient({
   workoutTypes,
   workoutStats,
@@ -39,6 +97,11 @@ export default function WorkoutsClient({
   currentStreak = 0,
   longestStreak = 0,
   personalRecords,
+  recentWorkouts = [],
+  trainingLoad,
+  raceTimes,
+  climbing,
+  strength,
 }: WorkoutsClientProps) {
   // Get all workout types for tabs
   const allTypes = ["all", ...workoutTypes];
@@ -144,6 +207,264 @@ export default function WorkoutsClient({
         </div>
       )}
 
+      {/* Training load: fitness, fatigue and form */}
+      {trainingLoad && (
+        <div className="space-y-4">
+          {trainingLoad.warning && (
+            <Alert variant="warning">
+              <AlertTitle className="flex items-center gap-2">
+                ⚠️ Training Load {trainingLoad.current.acwr_status === "low" ? "Dropping" : "Spike"}
+                <Badge variant="warning">ACWR {trainingLoad.current.acwr}</Badge>
+              </AlertTitle>
+              <AlertDescription>{trainingLoad.warning}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Fitness (CTL)</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <CardTitle className="text-3xl">{Math.round(trainingLoad.current.ctl)}</CardTitle>
+                <p className="text-xs text-muted-foreground mt-1">{trainingLoad.model.ctl_days}-day load</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Fatigue (ATL)</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <CardTitle className="text-3xl">{Math.round(trainingLoad.current.atl)}</CardTitle>
+                <p className="text-xs text-muted-foreground mt-1">{trainingLoad.model.atl_days}-day load</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Form (TSB)</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <CardTitle className="text-3xl">
+                  {trainingLoad.current.tsb > 0 ? "+" : ""}
+                  {Math.round(trainingLoad.current.tsb)}
+                </CardTitle>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {trainingLoad.current.tsb >= 0 ? "fresh" : "fatigued"}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Acute:Chronic</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <CardTitle className="text-3xl">{trainingLoad.current.acwr ?? "–"}</CardTitle>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {trainingLoad.current.acwr_status
+                    ? ACWR_LABELS[trainingLoad.current.acwr_status]
+                    : "needs 4 weeks of data"}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Line
+            title="Fitness, Fatigue & Form"
+            data={trainingLoad.series.map((p) => ({
+              date: p.date,
+              "Fitness (CTL)": p.ctl,
+              "Fatigue (ATL)": p.atl,
+              "Form (TSB)": p.tsb,
+            }))}
+            index="date"
+            categories={["Fitness (CTL)", "Fatigue (ATL)", "Form (TSB)"]}
+          />
+        </div>
+      )}
+
+      {/* Best efforts per race distance and Riegel predictions */}
+      {raceTimes && (raceTimes.best_efforts.length > 0 || raceTimes.predictions.races.length > 0) && (
+        <Panel title="Race Times">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-1 pr-4 font-medium">Distance</th>
+                  <th className="py-1 pr-4 font-medium">Best</th>
+                  <th className="py-1 pr-4 font-medium">Pace</th>
+                  <th className="py-1 pr-4 font-medium">Set on</th>
+                  <th className="py-1 font-medium">Predicted</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(RACE_LABELS) as RunningRaceDistance[]).map((distance) => {
+                  const best = raceTimes.best_efforts.find((e) => e.distance === distance);
+                  const prediction = raceTimes.predictions.races.find((r) => r.distance === distance);
+                  if (!best && !prediction) return null;
+
+                  return (
+                    <tr key={distance} className="border-t border-neutral-200/60">
+                      <td className="py-1 pr-4">{RACE_LABELS[distance]}</td>
+                      <td className="py-1 pr-4 tabular-nums">
+                        {best ? formatDuration(best.elapsed_s) : "–"}
+                        {best && best.history.length > 1 && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            ({best.history.length} PRs)
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-1 pr-4 tabular-nums">
+                        {best ? `${formatPace(best.pace_sec_per_km)}/km` : "–"}
+                      </td>
+                      <td className="py-1 pr-4">
+                        {best ? (
+                          <Link href={`/dashboard/workouts/${best.workout_id}`} className="hover:underline">
+                            {new Date(best.date).toLocaleDateString()}
+                          </Link>
+                        ) : "–"}
+                      </td>
+                      <td
+                        className="py-1 tabular-nums"
+                        title={prediction ? `From your ${RACE_LABELS[prediction.based_on.distance]} on ${new Date(prediction.based_on.date).toLocaleDateString()}` : undefined}
+                      >
+                        {prediction ? formatDuration(prediction.predicted_s) : "–"}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            Predictions use Riegel&apos;s formula on efforts from the last {raceTimes.predictions.window_days} days.
+          </p>
+        </Panel>
+      )}
+
+      {/* Grade pyramid, max grade and send rate per climbing discipline */}
+      {climbing && climbing.disciplines.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-2">
+          {climbing.disciplines.map((d) => {
+            const widest = Math.max(1, ...d.pyramid.map((l) => l.count));
+
+            return (
+              <Panel key={d.discipline} title={`${CLIMBING_LABELS[d.discipline]} Grades`}>
+                <div className="grid grid-cols-3 gap-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Max grade</p>
+                    {d.max_grade ? (
+                      <Link href={`/dashboard/workouts/${d.max_grade.workout_id}`} className="text-2xl font-semibold hover:underline">
+                        {d.max_grade.grade}
+                      </Link>
+                    ) : (
+                      <p className="text-2xl font-semibold">–</p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">This month</p>
+                    <p className="text-2xl font-semibold">{d.period_max_grade?.grade ?? "–"}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Send rate</p>
+                    <p className="text-2xl font-semibold tabular-nums">
+                      {d.send_rate.rate !== null ? `${Math.round(d.send_rate.rate * 100)}%` : "–"}
+                    </p>
+                    {d.send_rate.attempts > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {d.send_rate.sends} of {d.send_rate.attempts}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                {d.pyramid.length > 0 ? (
+                  <div className="mt-4 space-y-1">
+                    {d.pyramid.map((level) => (
+                      <div key={level.grade} className="flex items-center gap-2 text-sm">
+                        <span className="w-12 text-right tabular-nums">{level.grade}</span>
+                        <div className="flex-1 flex justify-center">
+                          <div
+                            className="h-4 rounded-sm bg-[color:var(--chart-1)]"
+                            style={{ width: `${(level.count / widest) * 100}%` }}
+                          />
+                        </div>
+                        <span className="w-8 tabular-nums text-muted-foreground">{level.count}</span>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="mt-4 text-sm text-muted-foreground">No graded sends this month.</p>
+                )}
+
+                {d.progression.length > 1 && (
+                  <p className="mt-4 text-xs text-muted-foreground">
+                    Progression:{" "}
+                    {d.progression.map((r, i) => (
+                      <span key={r.workout_id} title={new Date(r.date).toLocaleDateString()}>
+                        {i > 0 && " → "}
+                        {r.grade}
+                      </span>
+                    ))}
+                  </p>
+                )}
+              </Panel>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Per-exercise volume this month and estimated 1RM history */}
+      {strength && strength.exercises.length > 0 && (
+        <Panel title="Strength">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-1 pr-4 font-medium">Exercise</th>
+                  <th className="py-1 pr-4 font-medium">Sets × Reps</th>
+                  <th className="py-1 pr-4 font-medium">Volume</th>
+                  <th className="py-1 pr-4 font-medium">Est. 1RM</th>
+                  <th className="py-1 font-medium">Set on</th>
+                </tr>
+              </thead>
+              <tbody>
+                {strength.exercises.map((e) => (
+                  <tr key={e.exercise} className="border-t border-neutral-200/60">
+                    <td className="py-1 pr-4">{e.exercise}</td>
+                    <td className="py-1 pr-4 tabular-nums">{e.sets} × {e.reps}</td>
+                    <td className="py-1 pr-4 tabular-nums">
+                      {e.volume_kg > 0 ? `${Math.round(e.volume_kg).toLocaleString()} kg` : "–"}
+                    </td>
+                    <td
+                      className="py-1 pr-4 tabular-nums"
+                      title={e.best ? `${e.best.reps} × ${e.best.load_kg} kg${e.best.rpe !== null ? ` @ RPE ${e.best.rpe}` : ""}` : undefined}
+                    >
+                      {e.best ? `${e.best.e1rm_kg} kg` : "–"}
+                      {e.progression.length > 1 && (
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          ({e.progression.length} PRs)
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-1">
+                      {e.best ? (
+                        <Link href={`/dashboard/workouts/${e.best.workout_id}`} className="hover:underline">
+                          {new Date(e.best.date).toLocaleDateString()}
+                        </Link>
+                      ) : "–"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            {strength.total_sessions} sessions, {Math.round(strength.total_volume_kg).toLocaleString()} kg lifted this
+            month. 1RM is estimated with Epley&apos;s formula, counting reps in reserve from RPE.
+          </p>
+        </Panel>
+      )}
+
       {/* Tabs for workout types */}
       <Tabs defaultValue="all" className="w-full">
         <TabsList>
@@ -228,6 +549,34 @@ export default function WorkoutsClient({
           );
         })}
       </Tabs>
+
+      {/* Recent workouts, linking to the detail view */}
+      {recentWorkouts.length > 0 && (
+        <Panel title="Recent Workouts">
+          <ul className="divide-y divide-neutral-200/60">
+            {recentWorkouts.map((w) => (
+              <li key={w.id}>
+                <Link
+                  href={`/dashboard/workouts/${w.id}`}
+                  className="flex items-center justify-between gap-4 py-2 text-sm hover:bg-neutral-50/5"
+                >
+                  <span className="capitalize">
+                    {w.workout_type}
+                    <span className="ml-2 text-muted-foreground normal-case">
+                      {new Date(w.date).toLocaleDateString()}
+                    </span>
+                  </span>
+                  <span className="flex items-center gap-2 text-muted-foreground">
+                    {w.duration_min} min
+                    {w.distance_km !== null && ` • ${w.distance_km.toFixed(1)} km`}
+                    {w.has_streams && <Badge variant="secondary">Streams</Badge>}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </Panel>
+      )}
     </div>
   );
 }
@@ -69,7 +69,10 @@ export const Blog = ({ blog, recommendations }: { blog: BlogProps, recommendatio
                 >
                   {documentToReactComponents(
                     blog.details.json,
-                    createRichTextOptions(blog.details.links, BLOG_ARTICLE_STYLES)
+                    createRichTextOptions(blog.details.links, BLOG_ARTICLE_STYLES, {
+                      enableCodeSnippets: true,
+                      document: blog.details.json,
+                    })
                   )}
                 </div>
               </div>
@@ -3,18 +3,30 @@
 import { useState, useRef, useEffect } from "react";
 import { Message } from "./message";
 import { SuggestedQuestions } from "./suggested-questions";
+import {
+  boundChatHistory,
+  readChatEvents,
+  type ChatGrounding,
+  type ChatStreamSource,
+  type ChatToolUse,
+  type ChatTurn,
+} from "@/lib/ai/conversation";
 
-export interface ChatSource {
-  title: string;
-  url: string;
-}
+export type ChatSource = ChatStreamSource;
 
 export interface ChatMessage {
   role: "user" | "assistant";
   content: string;
   timestamp: number;
   modelName?: string;
+  /** Numbered sources the answer cites as [n] */
   sources?: ChatSource[];
+  /** Dashboard data the answer used */
+  tools?: ChatToolUse[];
+  /** Sentences no source supports, once the answer is checked */
+  grounding?: ChatGrounding;
+  /** Still receiving tokens */
+  streaming?: boolean;
 }
 
 interface RateLimitState {
@@ -136,6 +148,11 @@ export default function ChatInterface() {
       timestamp: Date.now(),
     };
 
+    // Conversation so far, sent along so follow-up questions make sense
+    const history: ChatTurn[] = boundChatHistory(
+      messages.map(({ role, content }) => ({ role, content }))
+    );
+
     setMessages((prev) => [...prev, userMessage]);
     setInput("");
     setIsLoading(true);
@@ -147,10 +164,10 @@ export default function ChatInterface() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ message: messageText }),
+        body: JSON.stringify({ message: messageText, history }),
       });
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         const errorData = await response.json();
 
         // Handle rate limit specifically
@@ -170,17 +187,37 @@ export default function ChatInterface() {
         throw new Error(errorData.error || "Failed to get response");
       }
 
-      const data = await response.json();
+      // The answer is added with its first tokens and grows as they arrive
+      let content = "";
+      let meta: Pick<ChatMessage, "modelName" | "sources" | "tools" | "grounding"> = {};
+      let shown = false;
 
-      const assistantMessage: ChatMessage = {
-        role: "assistant",
-        content: data.response,
-        timestamp: data.timestamp,
-        modelName: data.model?.name,
-        sources: data.sources,
+      const showAnswer = (replace: boolean, streaming: boolean, timestamp: number = Date.now()) => {
+        const answer: ChatMessage = { role: "assistant", content, timestamp, ...meta, streaming };
+        setMessages((prev) => (replace ? [...prev.slice(0, -1), answer] : [...prev, answer]));
       };
 
-      setMessages((prev) => [...prev, assistantMessage]);
+      for await (const event of readChatEvents(response.body)) {
+        if (event.type === "meta") {
+          meta = { modelName: event.model.name, sources: event.sources };
+        } else if (event.type === "text") {
+          content += event.delta;
+          showAnswer(shown, true);
+          shown = true;
+        } else if (event.type === "tool") {
+          meta = { ...meta, tools: [...(meta.tools ?? []), { name: event.name, label: event.label, href: event.href }] };
+        } else if (event.type === "grounding") {
+          meta = { ...meta, grounding: { unsupported: event.unsupported, invalidCitations: event.invalidCitations } };
+        } else if (event.type === "done") {
+          if (shown) showAnswer(true, false, event.timestamp);
+        } else {
+          if (shown) showAnswer(true, false);
+          throw new Error(event.error);
+        }
+      }
+
+      // No text at all, e.g. when the last step only called tools
+      if (!shown) throw new Error("No answer came back. Please try asking again.");
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
       console.error("Chat error:", err);
@@ -189,6 +226,11 @@ export default function ChatInterface() {
     }
   };
 
+  const clearConversation = () => {
+    setMessages([]);
+    setError(null);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     sendMessage(input);
@@ -199,6 +241,7 @@ export default function ChatInterface() {
   };
 
   const hasMessages = messages.length > 0 || isLoading;
+  const isStreaming = messages[messages.length - 1]?.streaming === true;
 
   return (
     <div className={`flex flex-col ${hasMessages ? '' : 'min-h-[50vh] justify-end'}`}>
@@ -226,7 +269,7 @@ export default function ChatInterface() {
           <Message key={index} message={message} />
         ))}
 
-        {isLoading && (
+        {isLoading && !isStreaming && (
           <div className="flex items-center space-x-3 py-2">
             <div className="flex items-center space-x-1">
               <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: "0ms" }}></div>
@@ -284,6 +327,17 @@ export default function ChatInterface() {
             Send
           </button>
         </form>
+        {messages.length > 0 && !isLoading && (
+          <div className="flex justify-center mt-3">
+            <button
+              type="button"
+              onClick={clearConversation}
+              className="text-xs text-gray-500 hover:text-gray-700 underline-offset-2 hover:underline"
+            >
+              Start a new conversation
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,6 +1,7 @@
 import Link from "next/link";
 import Markdown from "react-markdown";
 import { ChatMessage } from "./chat-interface";
+import { citedNumbers, linkCitations, stripCitations } from "@/lib/ai/citations";
 
 interface MessageProps {
   message: ChatMessage;
@@ -20,9 +21,20 @@ export function Message({ message }: MessageProps) {
     );
   }
 
-  const hasSources = message.sources && message.sources.length > 0;
+  // Sources and model are shown once the answer is complete
+  const isStreaming = message.streaming === true;
+  const sources = message.sources ?? [];
+
+  // Citations [n] link to footnotes listing the cited sources, in number order
+  const footnotePrefix = `cite-${message.timestamp}`;
+  const cited = citedNumbers(message.content);
+  const footnotes = isStreaming ? [] : sources.filter((source) => cited.includes(source.n)).sort((a, b) => a.n - b.n);
+  const content = linkCitations(message.content, footnotePrefix, (n) => sources.some((source) => source.n === n));
+  const unsupported = isStreaming ? [] : message.grounding?.unsupported ?? [];
+  const tools = isStreaming ? [] : message.tools ?? [];
 
   // Assistant message: no bubble, directly on background, full width
+  // Rendered as markdown on every token while streaming
   return (
     <div className="flex flex-col">
       <div className="prose prose-gray max-w-none break-words prose-p:my-3 prose-p:leading-relaxed prose-strong:font-semibold prose-ul:my-3 prose-li:my-1 prose-headings:mt-4 prose-headings:mb-2">
@@ -32,32 +44,85 @@ export function Message({ message }: MessageProps) {
             ul: ({ children }) => <ul className="my-3">{children}</ul>,
             ol: ({ children }) => <ol className="my-3">{children}</ol>,
             li: ({ children }) => <li className="my-1">{children}</li>,
+            a: ({ href, children }) =>
+              href?.startsWith(`#${footnotePrefix}-`) ? (
+                <sup>
+                  <a href={href} className="ml-0.5 text-gray-500 no-underline hover:text-gray-900">
+                    [{children}]
+                  </a>
+                </sup>
+              ) : (
+                <a href={href}>{children}</a>
+              ),
           }}
         >
-          {message.content}
+          {content}
         </Markdown>
+        {isStreaming && (
+          <span
+            aria-hidden="true"
+            className="inline-block w-2 h-4 -mb-0.5 bg-gray-400 animate-pulse"
+          />
+        )}
       </div>
 
-      {hasSources && (
+      {unsupported.length > 0 && (
+        <div className="mt-3 px-3 py-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+          <p className="font-medium mb-1">Not found in the sources, take with a grain of salt:</p>
+          <ul className="list-disc pl-4 space-y-0.5">
+            {unsupported.map((sentence, idx) => (
+              <li key={idx}>{stripCitations(sentence)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {footnotes.length > 0 && (
         <div className="mt-4 pt-3 border-t border-gray-100">
-          <p className="text-xs text-gray-500 mb-2">Related blog posts:</p>
+          <p className="text-xs text-gray-500 mb-2">Sources:</p>
+          <ol className="space-y-1 text-xs text-gray-700">
+            {footnotes.map((source) => (
+              <li key={source.n} id={`${footnotePrefix}-${source.n}`} className="flex gap-2">
+                <span className="text-gray-500">[{source.n}]</span>
+                <span>
+                  {source.url ? (
+                    <Link href={source.url.replace("https://cr0ss.org", "")} className="hover:underline">
+                      {source.title}
+                    </Link>
+                  ) : (
+                    source.title
+                  )}
+                  {source.section && <span className="text-gray-500"> › {source.section}</span>}
+                  {source.type === "knowledge" && <span className="text-gray-400"> · Knowledge base</span>}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {tools.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-gray-100">
+          <p className="text-xs text-gray-500 mb-2">Live data from the dashboard:</p>
           <div className="flex flex-wrap gap-2">
-            {message.sources!.map((source, idx) => (
+            {tools.map((tool) => (
               <Link
-                key={idx}
-                href={source.url.replace("https://cr0ss.org", "")}
+                key={tool.name}
+                href={tool.href}
                 className="inline-flex items-center text-xs px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-full transition-colors"
               >
-                {source.title}
+                {tool.label}
               </Link>
             ))}
           </div>
         </div>
       )}
 
-      <div className="text-xs text-gray-400 mt-3">
-        Powered by {message.modelName || "AI"}
-      </div>
+      {!isStreaming && (
+        <div className="text-xs text-gray-400 mt-3">
+          Powered by {message.modelName || "AI"}
+        </div>
+      )}
     </div>
   );
 }
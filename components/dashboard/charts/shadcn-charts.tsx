@@ -151,13 +151,16 @@ export function Line({
   categories,
   isLoading,
   showLegend = true,
+  dashedCategories = [],
 }: {
   title: string;
-  data: Record<string, string | number>[];
+  data: Record<string, string | number | null>[];
   index: string;
   categories: string[];
   isLoading?: boolean;
   showLegend?: boolean;
+  /** Categories drawn dashed, e.g. projected values */
+  dashedCategories?: string[];
 }) {
   if (isLoading) {
     return (
@@ -232,6 +235,7 @@ export function Line({
               dataKey={category}
               stroke={getChartColor(idx)}
               strokeWidth={2}
+              strokeDasharray={dashedCategories.includes(category) ? "5 5" : undefined}
               dot={false}
             />
           ))}
@@ -32,6 +32,12 @@ interface ProgressRowProps {
    * Optional: show percentage in addition to value/target
    */
   showPercentage?: boolean;
+
+  /**
+   * Optional: "at_most" for caps (e.g. caffeine), shown as a limit and
+   * highlighted once exceeded. Defaults to "at_least".
+   */
+  direction?: "at_least" | "at_most";
 }
 
 /**
@@ -53,17 +59,19 @@ export function ProgressRow({
   target,
   unit = "",
   showPercentage = false,
+  direction = "at_least",
 }: ProgressRowProps) {
   const percentage = target > 0 ? (value / target) * 100 : 0;
   const displayValue = value.toLocaleString();
   const displayTarget = target.toLocaleString();
+  const overCap = direction === "at_most" && value > target;
 
   return (
     <div>
       <div className="flex justify-between text-sm mb-2">
         <span className="font-medium">{name}</span>
-        <span className="text-neutral-500">
-          {displayValue} / {displayTarget} {unit}
+        <span className={overCap ? "text-red-600" : "text-neutral-500"}>
+          {displayValue} / {direction === "at_most" && "≤ "}{displayTarget} {unit}
           {showPercentage && ` (${Math.round(percentage)}%)`}
         </span>
       </div>
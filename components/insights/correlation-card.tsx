@@ -8,18 +8,40 @@
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import type { DiscoveredCorrelation } from "@/lib/insights/correlation-discovery";
+import { classifyConfidence } from "@/lib/stats/correlation";
 import { ArrowRight, TrendingUp, TrendingDown, Info } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
 interface CorrelationCardProps {
   correlation: DiscoveredCorrelation;
+  isNew?: boolean; // became significant since the last weekly snapshot
   onClick?: () => void;
 }
 
-export function CorrelationCard({ correlation, onClick }: CorrelationCardProps) {
-  const { metricA, metricB, correlation: result, interpretation } = correlation;
+export function CorrelationCard({ correlation, isNew = false, onClick }: CorrelationCardProps) {
+  const {
+    metricA,
+    metricB,
+    correlation: result,
+    method,
+    lag,
+    qValue,
+    correction,
+    rInterval,
+    partial,
+    likelyConfounded,
+    interpretation,
+  } = correlation;
   const isPositive = result.r > 0;
 
+  // Confidence follows the corrected p-value, so it accounts for every pair tested
+  const confidence = classifyConfidence(qValue);
+  const correctionLabels = {
+    bh: "Benjamini–Hochberg FDR",
+    bonferroni: "Bonferroni",
+    none: "none",
+  };
+
   // Color coding based on correlation strength (effect size)
   const strengthColors = {
     "very strong": "bg-purple-500/10 text-purple-700 border-purple-500/20",
@@ -55,6 +77,21 @@ export function CorrelationCard({ correlation, onClick }: CorrelationCardProps)
               )}
               <ArrowRight className="h-4 w-4 text-muted-foreground" />
               <span className="font-semibold">{metricB.label}</span>
+              {isNew && (
+                <Badge className="bg-green-500/10 text-green-700 border-green-500/20 text-xs">
+                  New
+                </Badge>
+              )}
+              {likelyConfounded && (
+                <Badge className="bg-yellow-500/10 text-yellow-700 border-yellow-500/20 text-xs">
+                  Likely confounded
+                </Badge>
+              )}
+              {lag > 0 && (
+                <Badge variant="outline" className="text-xs font-normal">
+                  +{lag} {lag === 1 ? "day" : "days"}
+                </Badge>
+              )}
             </div>
             <p className="text-sm text-muted-foreground">
               {metricA.description} • {metricB.description}
@@ -76,9 +113,22 @@ export function CorrelationCard({ correlation, onClick }: CorrelationCardProps)
                 <TooltipContent>
                   <div className="space-y-1 text-xs">
                     <p><strong>Effect size (r):</strong> {result.r.toFixed(4)}</p>
+                    <p><strong>Method:</strong> {method}</p>
+                    <p>
+                      <strong>{Math.round(rInterval.level * 100)}% CI (bootstrap):</strong>{" "}
+                      [{rInterval.lower.toFixed(2)}, {rInterval.upper.toFixed(2)}]
+                    </p>
                     <p><strong>Significance (p):</strong> {result.pValue.toFixed(4)}</p>
-                    <p><strong>Confidence:</strong> {result.confidence}</p>
+                    <p><strong>Adjusted (q):</strong> {qValue.toFixed(4)}</p>
+                    <p><strong>Correction:</strong> {correctionLabels[correction]}</p>
+                    <p><strong>Confidence:</strong> {confidence}</p>
                     <p><strong>Sample size:</strong> {result.n}</p>
+                    {partial && (
+                      <p>
+                        <strong>Partial r:</strong> {partial.r.toFixed(4)} (controlling for{" "}
+                        {partial.controls.join(", ")})
+                      </p>
+                    )}
                   </div>
                 </TooltipContent>
               </Tooltip>
@@ -93,8 +143,12 @@ export function CorrelationCard({ correlation, onClick }: CorrelationCardProps)
         </p>
 
         <div className="flex items-center gap-4 text-xs text-muted-foreground">
-          <span className={`font-medium ${confidenceColors[result.confidence]}`}>
-            {result.confidence} confidence (p={result.pValue.toFixed(3)})
+          <span className={`font-medium ${confidenceColors[confidence]}`}>
+            {confidence} confidence ({correction === "none" ? "p" : "q"}={qValue.toFixed(3)})
+          </span>
+          <span>•</span>
+          <span>
+            r {rInterval.lower.toFixed(2)} to {rInterval.upper.toFixed(2)}
           </span>
           <span>•</span>
           <span>
@@ -0,0 +1,114 @@
+/**
+ * Insight Changes Component
+ *
+ * Highlights insights that appeared or faded since last week,
+ * based on the daily insight snapshots.
+ */
+
+import { dashboardApi } from "@/lib/api/client";
+import type { InsightChangesResponse, InsightEvent } from "@/lib/api/types";
+import { AVAILABLE_METRICS, CUSTOM_METRIC_PREFIX } from "@/lib/insights/data-aggregator";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Sparkles, TrendingDown } from "lucide-react";
+
+interface InsightChangesProps {
+  sinceDays?: number;
+}
+
+function label(key: string): string {
+  const builtIn = AVAILABLE_METRICS.find((m) => m.key === key)?.label;
+  if (builtIn) return builtIn;
+  // Custom metrics: "custom.alcohol_units" → "alcohol units"
+  return key.startsWith(CUSTOM_METRIC_PREFIX)
+    ? key.slice(CUSTOM_METRIC_PREFIX.length).replace(/_/g, " ")
+    : key;
+}
+
+function EventRow({ event }: { event: InsightEvent }) {
+  const shown = event.type === "new" ? event.current : event.previous;
+
+  return (
+    <li className="flex items-center justify-between gap-2">
+      <span>
+        {label(event.metric_a)} → {label(event.metric_b)}
+        {shown && shown.lag > 0 && (
+          <span className="text-muted-foreground"> (+{shown.lag}d)</span>
+        )}
+      </span>
+      {shown && (
+        <span className="text-xs text-muted-foreground">
+          r = {shown.r.toFixed(2)}, q = {shown.q_value.toFixed(3)}
+        </span>
+      )}
+    </li>
+  );
+}
+
+export async function InsightChanges({ sinceDays = 7 }: InsightChangesProps) {
+  let data: InsightChangesResponse;
+
+  try {
+    data = await dashboardApi.get<InsightChangesResponse>("/insights/changes", {
+      params: { since_days: sinceDays },
+      tags: ["insights:changes"],
+      revalidate: 3600, // 1 hour
+    });
+  } catch (err) {
+    // Snapshots are optional context; the live list still renders
+    console.error("Error loading insight changes:", err);
+    return null;
+  }
+
+  if (!data.previous_date || data.events.length === 0) {
+    return null;
+  }
+
+  const appeared = data.events.filter((e) => e.type === "new");
+  const faded = data.events.filter((e) => e.type === "faded");
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="text-lg font-semibold">What Changed</h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Since {data.previous_date} (latest snapshot {data.current_date})
+        </p>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2 text-sm">
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 font-medium">
+            <Sparkles className="h-4 w-4 text-green-600" />
+            New insights
+            <Badge variant="secondary">{appeared.length}</Badge>
+          </div>
+          {appeared.length > 0 ? (
+            <ul className="space-y-1">
+              {appeared.map((e) => (
+                <EventRow key={`${e.metric_a}-${e.metric_b}`} event={e} />
+              ))}
+            </ul>
+          ) : (
+            <p className="text-muted-foreground">No new insights.</p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 font-medium">
+            <TrendingDown className="h-4 w-4 text-yellow-600" />
+            Insights faded
+            <Badge variant="secondary">{faded.length}</Badge>
+          </div>
+          {faded.length > 0 ? (
+            <ul className="space-y-1">
+              {faded.map((e) => (
+                <EventRow key={`${e.metric_a}-${e.metric_b}`} event={e} />
+              ))}
+            </ul>
+          ) : (
+            <p className="text-muted-foreground">No insights faded.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
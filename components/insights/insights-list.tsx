@@ -6,7 +6,8 @@
 
 import { CorrelationCard } from "./correlation-card";
 import { dashboardApi } from "@/lib/api/client";
-import type { InsightsResponse } from "@/lib/api/types";
+import type { InsightChangesResponse, InsightsResponse } from "@/lib/api/types";
+import { pairKey } from "@/lib/insights/snapshots";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { AlertCircle, Lightbulb } from "lucide-react";
 
@@ -23,6 +24,7 @@ export async function InsightsList({
 }: InsightsListProps) {
   let correlations;
   let error = null;
+  let newPairs = new Set<string>();
 
   try {
     const data = await dashboardApi.get<InsightsResponse>("/insights", {
@@ -35,6 +37,20 @@ export async function InsightsList({
       revalidate: 900, // 15 minutes
     });
     correlations = data.correlations;
+
+    // Highlight pairs that became significant since last week (optional)
+    const changes = await dashboardApi
+      .get<InsightChangesResponse>("/insights/changes", {
+        params: { since_days: 7 },
+        tags: ["insights:changes"],
+        revalidate: 3600,
+      })
+      .catch(() => null);
+    newPairs = new Set(
+      (changes?.events ?? [])
+        .filter((e) => e.type === "new")
+        .map((e) => pairKey(e.metric_a, e.metric_b))
+    );
   } catch (err) {
     console.error("Error loading insights:", err);
     error = err;
@@ -76,26 +92,55 @@ export async function InsightsList({
     );
   }
 
+  // Pairs explained away by day-of-week, weather or sleep are not presented as findings
+  const findings = correlations.filter((c) => !c.likelyConfounded);
+  const confounded = correlations.filter((c) => c.likelyConfounded);
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h2 className="text-xl font-semibold">
           Discovered Patterns
           <span className="ml-2 text-sm font-normal text-muted-foreground">
-            ({correlations.length} {correlations.length === 1 ? "correlation" : "correlations"})
+            ({findings.length} {findings.length === 1 ? "correlation" : "correlations"})
           </span>
         </h2>
       </div>
 
       <div className="space-y-4">
-        {correlations.map((correlation, index) => (
+        {findings.map((correlation, index) => (
           <CorrelationCard
             key={`${correlation.metricA.key}-${correlation.metricB.key}-${index}`}
             correlation={correlation}
+            isNew={newPairs.has(pairKey(correlation.metricA.key, correlation.metricB.key))}
           />
         ))}
       </div>
 
+      {confounded.length > 0 && (
+        <div className="space-y-4 pt-4">
+          <div>
+            <h2 className="text-xl font-semibold">
+              Likely Confounded
+              <span className="ml-2 text-sm font-normal text-muted-foreground">
+                ({confounded.length})
+              </span>
+            </h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              These pairs correlate, but most of the relationship disappears once day of the
+              week, weather and sleep are held constant. They probably share a cause rather
+              than affect each other.
+            </p>
+          </div>
+          {confounded.map((correlation, index) => (
+            <CorrelationCard
+              key={`confounded-${correlation.metricA.key}-${correlation.metricB.key}-${index}`}
+              correlation={correlation}
+            />
+          ))}
+        </div>
+      )}
+
       <div className="text-center text-sm text-muted-foreground pt-4">
         Analyzed {days} days of data • Minimum correlation strength: {minAbsR}
       </div>
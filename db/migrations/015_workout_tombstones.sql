@@ -0,0 +1,25 @@
+-- Migration: 015_workout_tombstones.sql
+-- Remember externally sourced workouts that were deleted or merged by hand,
+-- so Strava sync and webhooks do not re-import them.
+
+-- =====================================================
+-- 1. Create workout_tombstones table
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS workout_tombstones (
+  id              serial PRIMARY KEY,
+  source          varchar(20) NOT NULL CHECK (source IN ('manual', 'strava')),
+  external_id     varchar(50) NOT NULL,
+  reason          varchar(20) NOT NULL CHECK (reason IN ('deleted', 'merged')),
+  merged_into_id  integer REFERENCES workouts(id) ON DELETE SET NULL,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT uq_workout_tombstones_source_external_id UNIQUE (source, external_id)
+);
+
+COMMENT ON TABLE workout_tombstones IS
+  'External workout IDs removed by hand; sync skips activities listed here';
+COMMENT ON COLUMN workout_tombstones.reason IS
+  'Why the row was removed: deleted (by hand) or merged (into merged_into_id)';
+COMMENT ON COLUMN workout_tombstones.merged_into_id IS
+  'Workout that absorbed the removed duplicate (merge only)';
@@ -0,0 +1,41 @@
+-- Migration: 016_insight_snapshots.sql
+-- Dated correlation snapshots written by the scheduled insights job,
+-- so the r and significance of a metric pair can be followed over time.
+
+-- =====================================================
+-- 1. Create insight_snapshots table
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS insight_snapshots (
+  id             bigserial PRIMARY KEY,
+  snapshot_date  date NOT NULL,
+  window_days    integer NOT NULL CHECK (window_days > 0),
+  metric_a       varchar(50) NOT NULL,     -- leading metric (day t)
+  metric_b       varchar(50) NOT NULL,     -- trailing metric (day t + lag)
+  lag            smallint NOT NULL DEFAULT 0 CHECK (lag BETWEEN 0 AND 7),
+  method         varchar(20) NOT NULL,
+  r              double precision NOT NULL,
+  r_lower        double precision NOT NULL,
+  r_upper        double precision NOT NULL,
+  p_value        double precision NOT NULL,
+  q_value        double precision NOT NULL,
+  n              integer NOT NULL,
+  significant    boolean NOT NULL,
+  created_at     timestamptz NOT NULL DEFAULT now()
+);
+
+-- One row per unordered metric pair per day (the job keeps the best lag/direction)
+CREATE UNIQUE INDEX IF NOT EXISTS uq_insight_snapshots_date_pair
+  ON insight_snapshots (snapshot_date, LEAST(metric_a, metric_b), GREATEST(metric_a, metric_b));
+
+CREATE INDEX IF NOT EXISTS idx_insight_snapshots_pair_date
+  ON insight_snapshots (LEAST(metric_a, metric_b), GREATEST(metric_a, metric_b), snapshot_date DESC);
+
+COMMENT ON TABLE insight_snapshots IS
+  'Daily correlation snapshots for every tested metric pair (significant or not)';
+COMMENT ON COLUMN insight_snapshots.window_days IS
+  'Number of days of data the correlation was computed over';
+COMMENT ON COLUMN insight_snapshots.q_value IS
+  'p-value after Benjamini-Hochberg correction across all pairs tested that day';
+COMMENT ON COLUMN insight_snapshots.significant IS
+  'Whether the pair met the insights page thresholds (q <= 0.1 and |r| >= 0.3)';
@@ -0,0 +1,42 @@
+-- Migration: 017_custom_metrics.sql
+-- Registry of user-defined daily metrics. Values are stored per day in
+-- days.extras under the metric key, so adding a metric needs no schema change.
+
+-- =====================================================
+-- 1. Create custom_metrics table
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS custom_metrics (
+  id           serial PRIMARY KEY,
+  key          varchar(40) NOT NULL UNIQUE CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+  name         varchar(100) NOT NULL,
+  unit         varchar(30),
+  type         varchar(10) NOT NULL CHECK (type IN ('numeric', 'boolean', 'scale')),
+  scale_min    smallint,
+  scale_max    smallint,
+  aggregation  varchar(10) NOT NULL DEFAULT 'last' CHECK (aggregation IN ('sum', 'max', 'min', 'last')),
+  description  text,
+  archived     boolean NOT NULL DEFAULT false,
+  created_at   timestamptz NOT NULL DEFAULT now(),
+  updated_at   timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT custom_metrics_scale_range CHECK (
+    type <> 'scale' OR (scale_min IS NOT NULL AND scale_max IS NOT NULL AND scale_min < scale_max)
+  ),
+  -- Summing yes/no answers or ratings would leave their range
+  CONSTRAINT custom_metrics_sum_numeric_only CHECK (
+    type = 'numeric' OR aggregation <> 'sum'
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_metrics_active
+  ON custom_metrics (key) WHERE NOT archived;
+
+COMMENT ON TABLE custom_metrics IS
+  'User-defined daily metrics; values live in days.extras under the metric key';
+COMMENT ON COLUMN custom_metrics.key IS
+  'Key in days.extras; exposed to the correlation engine as custom.<key>';
+COMMENT ON COLUMN custom_metrics.aggregation IS
+  'How a value logged incrementally combines with the value already stored for that day (sum, max, min or last)';
+COMMENT ON COLUMN custom_metrics.archived IS
+  'Archived metrics keep their stored values but are hidden from logging and analysis';
@@ -0,0 +1,31 @@
+-- Migration: 018_workout_streams.sql
+-- Per-workout time series (e.g. imported Strava activity streams), stored as
+-- one row of parallel arrays per workout. HR zones, splits and elevation
+-- profiles are computed from these on read.
+
+-- =====================================================
+-- 1. Create workout_streams table
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS workout_streams (
+  workout_id    integer PRIMARY KEY REFERENCES workouts(id) ON DELETE CASCADE,
+  source        varchar(20) NOT NULL,             -- where the samples came from (e.g. 'strava')
+  point_count   integer NOT NULL CHECK (point_count >= 0),
+  time_s        integer[] NOT NULL,               -- seconds since start, one entry per sample
+  distance_m    real[],
+  heartrate     smallint[],
+  velocity_mps  real[],
+  altitude_m    real[],
+  lat           double precision[],
+  lng           double precision[],
+  imported_at   timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT workout_streams_time_length CHECK (cardinality(time_s) = point_count)
+);
+
+COMMENT ON TABLE workout_streams IS
+  'Sample-level time series per workout; all non-null arrays have point_count entries';
+COMMENT ON COLUMN workout_streams.time_s IS
+  'Elapsed seconds since the start of the activity (includes pauses)';
+COMMENT ON COLUMN workout_streams.velocity_mps IS
+  'Smoothed speed in m/s (Strava velocity_smooth)';
@@ -0,0 +1,29 @@
+-- Migration: 019_athlete_profile.sql
+-- Training thresholds used for heart-rate zones, TRIMP and derived workout
+-- intensity. Kept next to body_profile but as a single row: thresholds are
+-- settings that get adjusted, not measurements tracked over time.
+
+-- =====================================================
+-- 1. Create athlete_profile table
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS athlete_profile (
+  id          smallint PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  max_hr      smallint NULL CHECK (max_hr BETWEEN 100 AND 250),
+  resting_hr  smallint NULL CHECK (resting_hr BETWEEN 25 AND 120),
+  lthr        smallint NULL CHECK (lthr BETWEEN 80 AND 240),   -- lactate threshold heart rate
+  ftp_w       smallint NULL CHECK (ftp_w BETWEEN 50 AND 600),  -- functional threshold power
+  updated_at  timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT athlete_profile_resting_below_max CHECK (resting_hr IS NULL OR max_hr IS NULL OR resting_hr < max_hr),
+  CONSTRAINT athlete_profile_lthr_below_max CHECK (lthr IS NULL OR max_hr IS NULL OR lthr <= max_hr)
+);
+
+INSERT INTO athlete_profile (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE athlete_profile IS
+  'Single-row training thresholds (max/resting/threshold HR, FTP); unset values fall back to defaults';
+COMMENT ON COLUMN athlete_profile.lthr IS
+  'Lactate threshold heart rate; when set, HR zones are based on it instead of max HR';
+COMMENT ON COLUMN athlete_profile.ftp_w IS
+  'Functional threshold power in watts; used for intensity of power-metered workouts';
@@ -0,0 +1,25 @@
+-- Migration: 020_workout_file_import.sql
+-- Workouts imported from uploaded GPX, TCX and FIT files (e.g. a Garmin
+-- export). They use source 'file' with the activity start time as external_id,
+-- so the same activity uploaded again (in any of the formats) is skipped.
+
+-- =====================================================
+-- 1. Allow 'file' as workout source
+-- =====================================================
+
+ALTER TABLE workouts
+  DROP CONSTRAINT IF EXISTS workouts_source_check;
+ALTER TABLE workouts
+  ADD CONSTRAINT workouts_source_check
+    CHECK (source IN ('manual', 'strava', 'file'));
+
+ALTER TABLE workout_tombstones
+  DROP CONSTRAINT IF EXISTS workout_tombstones_source_check;
+ALTER TABLE workout_tombstones
+  ADD CONSTRAINT workout_tombstones_source_check
+    CHECK (source IN ('manual', 'strava', 'file'));
+
+COMMENT ON COLUMN workouts.source IS
+  'Origin of the workout: manual entry, strava import or uploaded activity file';
+COMMENT ON COLUMN workouts.external_id IS
+  'External system activity ID (e.g., Strava activity ID as string; file:<start time> for uploaded files)';
@@ -0,0 +1,33 @@
+-- Migration: 021_strava_backfill.sql
+-- Progress of the full-history Strava import. The backfill walks the
+-- athlete's activities oldest first in short steps (cron or settings page);
+-- the cursor is the start time of the last imported activity, so a step
+-- interrupted by the Strava rate limit resumes where it stopped.
+
+-- =====================================================
+-- 1. Create strava_backfill table
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS strava_backfill (
+  athlete_id       bigint PRIMARY KEY REFERENCES strava_auth(athlete_id) ON DELETE CASCADE,
+  status           varchar(20) NOT NULL
+    CHECK (status IN ('running', 'rate_limited', 'completed', 'cancelled', 'failed')),
+  after_cursor     bigint NOT NULL DEFAULT 0,       -- unix seconds; activities after this are still to do
+  include_streams  boolean NOT NULL DEFAULT false,
+  pages            integer NOT NULL DEFAULT 0,
+  imported         integer NOT NULL DEFAULT 0,
+  skipped          integer NOT NULL DEFAULT 0,
+  errors           integer NOT NULL DEFAULT 0,
+  paused_until     timestamptz,                     -- set while rate_limited
+  last_error       text,
+  started_at       timestamptz NOT NULL DEFAULT now(),
+  updated_at       timestamptz NOT NULL DEFAULT now(),
+  completed_at     timestamptz
+);
+
+COMMENT ON TABLE strava_backfill IS
+  'Resumable import of the full Strava activity history, one row per athlete';
+COMMENT ON COLUMN strava_backfill.after_cursor IS
+  'Start time (unix seconds) of the last processed activity; the next page is fetched with after=cursor';
+COMMENT ON COLUMN strava_backfill.paused_until IS
+  'When the Strava rate-limit window resets (15-minute or daily); steps before then do nothing';
@@ -0,0 +1,30 @@
+-- Migration: 022_strava_token_encryption.sql
+-- Encrypt Strava OAuth tokens at rest (envelope encryption, see
+-- lib/auth/encryption.ts). Each row gets a data key, stored wrapped with the
+-- key from TOKEN_ENCRYPTION_KEY, plus the id of that key for rotation.
+-- Existing rows stay readable in plaintext until
+-- scripts/encrypt-strava-tokens.ts has encrypted them.
+
+-- =====================================================
+-- 1. Add key columns to strava_auth
+-- =====================================================
+
+ALTER TABLE strava_auth
+  ADD COLUMN IF NOT EXISTS token_key_id   varchar(16),
+  ADD COLUMN IF NOT EXISTS token_data_key text;
+
+ALTER TABLE strava_auth
+  DROP CONSTRAINT IF EXISTS strava_auth_token_key_check;
+
+ALTER TABLE strava_auth
+  ADD CONSTRAINT strava_auth_token_key_check
+    CHECK ((token_key_id IS NULL) = (token_data_key IS NULL));
+
+COMMENT ON COLUMN strava_auth.access_token IS
+  'Short-lived OAuth access token (6 hours); AES-GCM ciphertext unless token_key_id is NULL';
+COMMENT ON COLUMN strava_auth.refresh_token IS
+  'Long-lived refresh token for obtaining new access tokens; AES-GCM ciphertext unless token_key_id is NULL';
+COMMENT ON COLUMN strava_auth.token_key_id IS
+  'Id of the key encryption key that wrapped token_data_key (NULL: tokens stored in plaintext)';
+COMMENT ON COLUMN strava_auth.token_data_key IS
+  'Per-row AES-256 data key encrypting the tokens, itself encrypted with the key token_key_id';
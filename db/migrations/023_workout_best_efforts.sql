@@ -0,0 +1,30 @@
+-- Migration: 023_workout_best_efforts.sql
+-- Fastest time over standard race distances within each run, from Strava's
+-- best_efforts or computed from the run's distance stream (see
+-- lib/phys/best-efforts.ts). Personal records, their history and race-time
+-- predictions are derived from these.
+
+-- =====================================================
+-- 1. Create workout_best_efforts table
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS workout_best_efforts (
+  workout_id      integer NOT NULL REFERENCES workouts(id) ON DELETE CASCADE,
+  distance        varchar(10) NOT NULL
+    CHECK (distance IN ('1k', '5k', '10k', 'half', 'marathon')),
+  elapsed_s       integer NOT NULL CHECK (elapsed_s > 0),
+  start_offset_s  integer,                           -- seconds into the run, if known
+  source          varchar(20) NOT NULL
+    CHECK (source IN ('strava', 'streams')),
+  created_at      timestamptz NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (workout_id, distance)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workout_best_efforts_distance
+  ON workout_best_efforts (distance, elapsed_s);
+
+COMMENT ON TABLE workout_best_efforts IS
+  'Best effort per standard distance within a run; Strava values take precedence over stream-derived ones';
+COMMENT ON COLUMN workout_best_efforts.elapsed_s IS
+  'Elapsed time for the distance, pauses inside the effort included';
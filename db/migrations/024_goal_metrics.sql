@@ -0,0 +1,61 @@
+-- Migration: 024_goal_metrics.sql
+-- Goals as data. monthly_goals.kind was the goal_kind enum, extended by hand
+-- for every new goal; it now holds a metric reference validated by the app
+-- (see parseGoalMetric in lib/db/validation.ts):
+--   <days column>                    steps, reading_minutes, sleep_score, ...
+--   workout:<type>:<field>           distance_km, duration_min or sessions
+--   coffee:<field>                   cups or caffeine_mg
+--   custom:<key>                     a registered custom metric
+-- Existing kinds are days columns, except running_distance_km which keeps
+-- meaning workout:running:distance_km. Goals also gain weekly and yearly
+-- periods and a direction (reach at least / stay at most the target).
+
+-- =====================================================
+-- 1. kind: goal_kind enum -> metric reference
+-- =====================================================
+
+ALTER TABLE monthly_goals
+  ALTER COLUMN kind TYPE varchar(80) USING kind::text;
+
+DROP TYPE IF EXISTS goal_kind;
+
+ALTER TABLE monthly_goals
+  DROP CONSTRAINT IF EXISTS monthly_goals_kind_format;
+
+ALTER TABLE monthly_goals
+  ADD CONSTRAINT monthly_goals_kind_format CHECK (kind ~ '^[a-z][a-z0-9_]*(:[a-z0-9_]+)*$');
+
+-- =====================================================
+-- 2. Weekly (ISO weeks, from Monday) and yearly periods
+-- =====================================================
+
+ALTER TYPE goal_period ADD VALUE IF NOT EXISTS 'weekly';
+ALTER TYPE goal_period ADD VALUE IF NOT EXISTS 'yearly';
+
+-- =====================================================
+-- 3. Direction
+-- =====================================================
+
+ALTER TABLE monthly_goals
+  ADD COLUMN IF NOT EXISTS direction varchar(10) NOT NULL DEFAULT 'at_least'
+    CHECK (direction IN ('at_least', 'at_most'));
+
+-- =====================================================
+-- 4. One goal per metric and period (e.g. steps daily and weekly)
+-- =====================================================
+
+ALTER TABLE monthly_goals
+  DROP CONSTRAINT IF EXISTS monthly_goals_month_kind_key;
+
+ALTER TABLE monthly_goals
+  DROP CONSTRAINT IF EXISTS monthly_goals_month_kind_period_key;
+
+ALTER TABLE monthly_goals
+  ADD CONSTRAINT monthly_goals_month_kind_period_key UNIQUE (month, kind, period);
+
+COMMENT ON COLUMN monthly_goals.kind IS
+  'Metric reference: <days column>, workout:<type>:<field>, coffee:<field> or custom:<key>';
+COMMENT ON COLUMN monthly_goals.period IS
+  'Window the metric is totalled over: the current day, ISO week, month or year';
+COMMENT ON COLUMN monthly_goals.direction IS
+  'at_least: met once the total reaches the target; at_most: met while it stays at or below it';
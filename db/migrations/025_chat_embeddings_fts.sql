@@ -0,0 +1,34 @@
+-- Migration: 025_chat_embeddings_fts.sql
+-- Full-text search over chat_embeddings for hybrid retrieval (see
+-- retrieveRelevantContext in lib/db/embeddings.ts). Vector search alone misses
+-- questions about exact terms such as project or tool names; full-text matches
+-- are fused with vector matches by reciprocal rank.
+--
+-- chat_embeddings is created by `pnpm ai:setup`, which also adds this column
+-- on new setups; this migration is a no-op where the table does not exist.
+
+-- =====================================================
+-- 1. Search vector: title weighted above content
+-- =====================================================
+
+ALTER TABLE IF EXISTS chat_embeddings
+  ADD COLUMN IF NOT EXISTS content_tsv tsvector
+    GENERATED ALWAYS AS (
+      setweight(to_tsvector('english', coalesce(metadata->>'title', '')), 'A') ||
+      setweight(to_tsvector('english', content), 'B')
+    ) STORED;
+
+-- =====================================================
+-- 2. Index
+-- =====================================================
+
+DO $$
+BEGIN
+  IF to_regclass('public.chat_embeddings') IS NOT NULL THEN
+    CREATE INDEX IF NOT EXISTS chat_embeddings_content_tsv_idx
+      ON chat_embeddings USING gin (content_tsv);
+
+    COMMENT ON COLUMN chat_embeddings.content_tsv IS
+      'English full-text search vector of title (weight A) and content (weight B)';
+  END IF;
+END $$;
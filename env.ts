@@ -17,7 +17,13 @@ export const env = createEnv({
     STRAVA_CLIENT_ID: z.string().min(1).optional(),
     STRAVA_CLIENT_SECRET: z.string().min(1).optional(),
     STRAVA_WEBHOOK_VERIFY_TOKEN: z.string().min(20).optional(),
-    TOKEN_ENCRYPTION_KEY: z.string().length(64).optional(),
+    // Strava tokens at rest: 64 hex chars (AES-256); previous keys comma-separated during rotation
+    TOKEN_ENCRYPTION_KEY: z.string().regex(/^[0-9a-fA-F]{64}$/).optional(),
+    TOKEN_ENCRYPTION_PREVIOUS_KEYS: z.string().optional(),
+    // Also import HR/pace/altitude streams for activities received via webhook
+    STRAVA_IMPORT_STREAMS: z.enum(['true', 'false']).optional(),
+    // Vercel Cron (optional - authenticates scheduled jobs such as insight snapshots)
+    CRON_SECRET: z.string().min(16).optional(),
   },
   client: {},
   // If you're using Next.js < 13.4.4, you'll need to specify the runtimeEnv manually
@@ -40,5 +46,8 @@ export const env = createEnv({
     STRAVA_CLIENT_SECRET: process.env.STRAVA_CLIENT_SECRET,
     STRAVA_WEBHOOK_VERIFY_TOKEN: process.env.STRAVA_WEBHOOK_VERIFY_TOKEN,
     TOKEN_ENCRYPTION_KEY: process.env.TOKEN_ENCRYPTION_KEY,
+    TOKEN_ENCRYPTION_PREVIOUS_KEYS: process.env.TOKEN_ENCRYPTION_PREVIOUS_KEYS,
+    STRAVA_IMPORT_STREAMS: process.env.STRAVA_IMPORT_STREAMS,
+    CRON_SECRET: process.env.CRON_SECRET,
   }
 });
\ No newline at end of file
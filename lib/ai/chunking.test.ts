@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { BLOCKS, type Block, type Document } from '@contentful/rich-text-types';
+import {
+  blogPostDocuments,
+  chunkSections,
+  chunkText,
+  knowledgeBaseDocuments,
+  markdownSections,
+  richTextSections,
+} from './chunking';
+
+const text = (value: string) => ({ nodeType: 'text', value, marks: [], data: {} });
+const block = (nodeType: string, content: unknown[]) => ({ nodeType, content, data: {} }) as Block;
+const heading = (level: number, value: string) => block(`heading-${level}`, [text(value)]);
+const paragraph = (value: string) => block(BLOCKS.PARAGRAPH, [text(value)]);
+const doc = (...content: Block[]) => ({ nodeType: BLOCKS.DOCUMENT, data: {}, content }) as unknown as Document;
+
+const post = doc(
+  paragraph('Why this post exists.'),
+  heading(2, 'Architecture'),
+  paragraph('We split the shop into services.'),
+  heading(3, 'Caching'),
+  paragraph('Edge caching with tags.'),
+  block(BLOCKS.UL_LIST, [
+    block(BLOCKS.LIST_ITEM, [paragraph('Redis')]),
+    block(BLOCKS.LIST_ITEM, [paragraph('CDN')]),
+  ]),
+  heading(2, 'Lessons learned'),
+  heading(3, 'Caching'),
+  paragraph('Invalidate less often.')
+);
+
+describe('richTextSections', () => {
+  it('splits at headings and tracks the heading path and anchor', () => {
+    expect(richTextSections(post)).toEqual([
+      { path: [], blocks: ['Why this post exists.'] },
+      { path: ['Architecture'], anchor: 'architecture', blocks: ['We split the shop into services.'] },
+      { path: ['Architecture', 'Caching'], anchor: 'caching', blocks: ['Edge caching with tags.', '- Redis\n- CDN'] },
+      { path: ['Lessons learned', 'Caching'], anchor: 'caching-2', blocks: ['Invalidate less often.'] },
+    ]);
+  });
+
+  it('keeps table rows and skips embedded entries', () => {
+    const table = block(BLOCKS.TABLE, [
+      block(BLOCKS.TABLE_ROW, [block(BLOCKS.TABLE_HEADER_CELL, [paragraph('Tool')]), block(BLOCKS.TABLE_HEADER_CELL, [paragraph('Use')])]),
+      block(BLOCKS.TABLE_ROW, [block(BLOCKS.TABLE_CELL, [paragraph('Vercel')]), block(BLOCKS.TABLE_CELL, [paragraph('Hosting')])]),
+    ]);
+    const embedded = block(BLOCKS.EMBEDDED_ENTRY, []);
+
+    expect(richTextSections(doc(table, embedded))).toEqual([{ path: [], blocks: ['Tool | Use\nVercel | Hosting'] }]);
+  });
+});
+
+describe('markdownSections', () => {
+  it('splits at headings outside code fences', () => {
+    const markdown = '# About\n\nIntro line one\nline two\n\n## Work\n\n```\n# not a heading\n```\n\nDone.';
+
+    expect(markdownSections(markdown)).toEqual([
+      { path: ['About'], blocks: ['Intro line one\nline two'] },
+      { path: ['About', 'Work'], blocks: ['```\n# not a heading\n```', 'Done.'] },
+    ]);
+  });
+});
+
+describe('chunkSections', () => {
+  it('prefixes each chunk with the title and heading path', () => {
+    const chunks = chunkSections(richTextSections(post), 'Headless Shop');
+
+    expect(chunks[0]).toEqual({ content: 'Headless Shop\n\nWhy this post exists.', section: undefined, anchor: undefined });
+    expect(chunks[2]).toEqual({
+      content: 'Headless Shop > Architecture > Caching\n\nEdge caching with tags.\n\n- Redis\n- CDN',
+      section: 'Architecture > Caching',
+      anchor: 'caching',
+    });
+  });
+
+  it('overlaps chunks within a section', () => {
+    const blocks = ['First sentence here. Second sentence ends the block.', 'Another block of text that is long.'];
+    const chunks = chunkSections([{ path: ['Part'], blocks }], 'Post', { maxChars: 60, overlap: 40 });
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[1].content).toBe('Post > Part\n\nSecond sentence ends the block.\n\nAnother block of text that is long.');
+  });
+
+  it('splits blocks longer than the limit', () => {
+    const long = Array.from({ length: 20 }, (_, i) => `Sentence number ${i} is here.`).join(' ');
+    const chunks = chunkSections([{ path: [], blocks: [long] }], '', { maxChars: 200, overlap: 0 });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks.every((c) => c.content.length <= 200)).toBe(true);
+  });
+});
+
+describe('blogPostDocuments', () => {
+  it('leads with the summary and links sections by anchor', () => {
+    const documents = blogPostDocuments({
+      slug: 'headless-shop',
+      title: 'Headless Shop',
+      summary: 'How we went headless.',
+      seoDescription: 'How we went headless.',
+      body: post,
+    });
+
+    expect(documents[0].content).toBe('Headless Shop\n\nHow we went headless.\n\nWhy this post exists.');
+    expect(documents[3].metadata).toEqual({
+      source: 'blog',
+      slug: 'headless-shop',
+      title: 'Headless Shop',
+      url: 'https://cr0ss.org/blog/headless-shop',
+      section: 'Lessons learned > Caching',
+      anchor: 'caching-2',
+    });
+  });
+
+  it('indexes the summary alone without a body', () => {
+    const documents = blogPostDocuments({ slug: 'short', title: 'Short', summary: 'Just this.' });
+    expect(documents.map((d) => d.content)).toEqual(['Short\n\nJust this.']);
+  });
+});
+
+describe('knowledgeBaseDocuments', () => {
+  it('records the section of each chunk', () => {
+    const documents = knowledgeBaseDocuments({
+      slug: 'skills',
+      title: 'Skills',
+      content: '## Languages\n\nTypeScript, Go\n\n## Cloud\n\nAWS, GCP',
+    });
+
+    expect(documents.map((d) => d.metadata)).toEqual([
+      { source: 'knowledge', file: 'skills.md', title: 'Skills', section: 'Languages' },
+      { source: 'knowledge', file: 'skills.md', title: 'Skills', section: 'Cloud' },
+    ]);
+    expect(documents[1].content).toBe('Skills > Cloud\n\nAWS, GCP');
+  });
+});
+
+describe('chunkText', () => {
+  it('packs paragraphs up to the limit', () => {
+    expect(chunkText('one\n\ntwo\n\nthree', 8)).toEqual(['one\n\ntwo', 'three']);
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Structure-aware chunking for AI chat indexing
+ * Blog posts (Contentful rich text) and knowledge base entries (markdown) are
+ * split by heading, so a chunk never spans two sections, and each chunk starts
+ * with the title and heading path it belongs to ("Post > Section > Subsection").
+ */
+
+import { BLOCKS, type Block, type Document } from "@contentful/rich-text-types";
+import { HEADING_LEVELS, headingAnchors, nodeText } from "../contentful/headings";
+import type { EmbeddingMetadata } from "../db/models";
+
+export interface Section {
+  /** Headings from the top of the document down to this section */
+  path: string[];
+  /** Anchor of the section's heading, for deep links (rich text only) */
+  anchor?: string;
+  /** Paragraphs, lists, quotes and tables, in order */
+  blocks: string[];
+}
+
+export interface TextChunk {
+  content: string;
+  /** Heading path joined with " > " (unset before the first heading) */
+  section?: string;
+  anchor?: string;
+}
+
+export interface ChunkOptions {
+  /** Maximum characters of section text per chunk (before title and overlap) */
+  maxChars?: number;
+  /** Characters of the previous chunk repeated at the start of the next one in a section */
+  overlap?: number;
+}
+
+export interface IndexDocument {
+  content: string;
+  metadata: EmbeddingMetadata;
+}
+
+const DEFAULT_MAX_CHARS = 1000;
+const DEFAULT_OVERLAP = 150;
+
+/**
+ * Chunk text into smaller pieces for better retrieval
+ * @param text - Text to chunk
+ * @param maxChars - Maximum characters per chunk (default: 1000)
+ * @returns Array of text chunks
+ */
+export function chunkText(text: string, maxChars: number = 1000): string[] {
+  // Split by paragraphs first
+  const paragraphs = text.split(/\n\n+/).filter(p => p.trim().length > 0);
+
+  const chunks: string[] = [];
+  let currentChunk = "";
+
+  for (const para of paragraphs) {
+    // If adding this paragraph would exceed limit and we have content
+    if (currentChunk.length > 0 && (currentChunk.length + para.length) > maxChars) {
+      chunks.push(currentChunk.trim());
+      currentChunk = para;
+    } else {
+      currentChunk += (currentChunk ? "\n\n" : "") + para;
+    }
+  }
+
+  // Add remaining content
+  if (currentChunk.trim()) {
+    chunks.push(currentChunk.trim());
+  }
+
+  // If we still have chunks that are too large, split them by sentences
+  const finalChunks: string[] = [];
+  for (const chunk of chunks) {
+    if (chunk.length <= maxChars) {
+      finalChunks.push(chunk);
+    } else {
+      // Split by sentences
+      const sentences = chunk.split(/[.!?]+/).filter(s => s.trim().length > 0);
+      let subChunk = "";
+
+      for (const sentence of sentences) {
+        if (subChunk.length > 0 && (subChunk.length + sentence.length) > maxChars) {
+          finalChunks.push(subChunk.trim());
+          subChunk = sentence;
+        } else {
+          subChunk += (subChunk ? ". " : "") + sentence.trim();
+        }
+      }
+
+      if (subChunk.trim()) {
+        finalChunks.push(subChunk.trim());
+      }
+    }
+  }
+
+  return finalChunks.length > 0 ? finalChunks : [text];
+}
+
+/**
+ * Text of a rich-text block: list items on their own lines, table cells
+ * separated by "|"; embedded assets, entries and rules have no text
+ */
+function blockText(node: Block): string {
+  switch (node.nodeType) {
+    case BLOCKS.UL_LIST:
+    case BLOCKS.OL_LIST:
+      return (node.content as Block[])
+        .map((item, i) => {
+          const marker = node.nodeType === BLOCKS.OL_LIST ? `${i + 1}.` : "-";
+          const text = (item.content as Block[]).map(blockText).filter(Boolean).join("\n");
+          return `${marker} ${text}`;
+        })
+        .join("\n");
+    case BLOCKS.QUOTE:
+      return `> ${(node.content as Block[]).map(blockText).filter(Boolean).join(" ")}`;
+    case BLOCKS.TABLE:
+      return (node.content as Block[])
+        .map((row) => (row.content as Block[]).map((cell) => nodeText(cell).trim()).join(" | "))
+        .join("\n");
+    case BLOCKS.HR:
+    case BLOCKS.EMBEDDED_ASSET:
+    case BLOCKS.EMBEDDED_ENTRY:
+    case BLOCKS.EMBEDDED_RESOURCE:
+      return "";
+    default:
+      return nodeText(node).trim();
+  }
+}
+
+/**
+ * Sections of a rich-text document, split at every heading
+ */
+export function richTextSections(document: Document): Section[] {
+  const anchors = headingAnchors(document);
+  const sections: Section[] = [{ path: [], blocks: [] }];
+  const headings: Array<{ level: number; text: string }> = [];
+
+  for (const node of document.content) {
+    const level = HEADING_LEVELS[node.nodeType];
+    if (level) {
+      // A heading closes every open section at its level or deeper
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop();
+      headings.push({ level, text: nodeText(node).trim() });
+      sections.push({ path: headings.map((h) => h.text), anchor: anchors.get(node), blocks: [] });
+      continue;
+    }
+
+    const text = blockText(node);
+    if (text) sections[sections.length - 1].blocks.push(text);
+  }
+
+  return sections.filter((section) => section.blocks.length > 0);
+}
+
+/**
+ * Sections of a markdown text, split at every # heading outside code fences
+ */
+export function markdownSections(markdown: string): Section[] {
+  const sections: Section[] = [{ path: [], blocks: [] }];
+  const headings: Array<{ level: number; text: string }> = [];
+  let paragraph: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const text = paragraph.join("\n").trim();
+    if (text) sections[sections.length - 1].blocks.push(text);
+    paragraph = [];
+  };
+
+  for (const line of markdown.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+
+    const heading = inFence ? null : /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop();
+      headings.push({ level, text: heading[2] });
+      sections.push({ path: headings.map((h) => h.text), blocks: [] });
+    } else if (!inFence && line.trim() === "") {
+      flush();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return sections.filter((section) => section.blocks.length > 0);
+}
+
+/**
+ * End of a chunk to repeat at the start of the next, from a sentence or word start
+ */
+function overlapTail(text: string, overlap: number): string {
+  if (overlap <= 0) return "";
+  const tail = text.slice(-overlap);
+  if (tail.length === text.length) return text;
+
+  const sentence = tail.search(/[.!?]\s+\S/);
+  if (sentence >= 0) return tail.slice(sentence + 1).trim();
+  const word = tail.search(/\s\S/);
+  return word >= 0 ? tail.slice(word + 1) : "";
+}
+
+/**
+ * Pack each section's blocks into chunks of at most maxChars, prefixed with
+ * the title and heading path. Chunks after the first in a section start with
+ * the end of the previous one, so text cut at a boundary keeps its context.
+ */
+export function chunkSections(sections: Section[], title: string, options: ChunkOptions = {}): TextChunk[] {
+  const { maxChars = DEFAULT_MAX_CHARS, overlap = DEFAULT_OVERLAP } = options;
+  const chunks: TextChunk[] = [];
+
+  for (const section of sections) {
+    const pieces = section.blocks.flatMap((block) => (block.length > maxChars ? chunkText(block, maxChars) : [block]));
+    const bodies: string[] = [];
+    let current = "";
+
+    for (const piece of pieces) {
+      if (current && current.length + piece.length + 2 > maxChars) {
+        bodies.push(current);
+        const tail = overlapTail(current, overlap);
+        current = tail ? `${tail}\n\n${piece}` : piece;
+      } else {
+        current = current ? `${current}\n\n${piece}` : piece;
+      }
+    }
+    if (current) bodies.push(current);
+
+    const heading = [title, ...section.path].filter(Boolean).join(" > ");
+    for (const body of bodies) {
+      chunks.push({
+        content: heading ? `${heading}\n\n${body}` : body,
+        section: section.path.length > 0 ? section.path.join(" > ") : undefined,
+        anchor: section.anchor,
+      });
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Chunks of a blog post: summary first, then the body by section
+ */
+export function blogPostDocuments(
+  post: { slug: string; title: string; summary?: string; seoDescription?: string; body?: Document | null },
+  options: ChunkOptions = {}
+): IndexDocument[] {
+  const sections = post.body ? richTextSections(post.body) : [];
+
+  // The summary (and SEO description, when it says something else) leads the post
+  const lead = [post.summary, post.seoDescription]
+    .map((text) => text?.trim() ?? "")
+    .filter((text, i, all) => text && all.indexOf(text) === i);
+  if (lead.length > 0) {
+    if (sections[0]?.path.length === 0) sections[0].blocks.unshift(...lead);
+    else sections.unshift({ path: [], blocks: lead });
+  }
+
+  return chunkSections(sections, post.title, options).map((chunk) => ({
+    content: chunk.content,
+    metadata: {
+      source: "blog",
+      slug: post.slug,
+      title: post.title,
+      url: `https://cr0ss.org/blog/${post.slug}`,
+      section: chunk.section,
+      anchor: chunk.anchor,
+    },
+  }));
+}
+
+/**
+ * Chunks of a knowledge base entry (markdown), by section
+ */
+export function knowledgeBaseDocuments(
+  entry: { slug: string; title: string; content: string },
+  options: ChunkOptions = {}
+): IndexDocument[] {
+  return chunkSections(markdownSections(entry.content), entry.title, options).map((chunk) => ({
+    content: chunk.content,
+    metadata: {
+      source: "knowledge",
+      file: `${entry.slug}.md`, // Keep backward compatible metadata
+      title: entry.title,
+      section: chunk.section,
+    },
+  }));
+}
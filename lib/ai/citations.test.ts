@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { citedNumbers, linkCitations, splitSentences, stripCitations } from './citations';
+
+describe('citedNumbers', () => {
+  it('collects unique numbers in order, including lists', () => {
+    expect(citedNumbers('Simon runs [3]. He codes [1][3] and writes [2, 4].')).toEqual([1, 2, 3, 4]);
+  });
+
+  it('ignores markdown links', () => {
+    expect(citedNumbers('See [1](https://cr0ss.org) for more.')).toEqual([]);
+  });
+});
+
+describe('stripCitations', () => {
+  it('removes markers and the space before them', () => {
+    expect(stripCitations('Simon lives in Hamburg [1][2]. He runs [3, 4].')).toBe('Simon lives in Hamburg. He runs.');
+  });
+});
+
+describe('linkCitations', () => {
+  it('links known numbers to footnotes and leaves others as text', () => {
+    const known = (n: number) => n <= 2;
+    expect(linkCitations('Hamburg [1]. Coffee [2, 7].', 'cite-1', known)).toBe(
+      'Hamburg [1](#cite-1-1). Coffee [2](#cite-1-2)[7].'
+    );
+  });
+});
+
+describe('splitSentences', () => {
+  it('splits after sentence ends, keeping citations with their sentence', () => {
+    expect(splitSentences('Simon uses Next.js for this site [1]. It runs on Vercel. [2] Why? Speed!')).toEqual([
+      'Simon uses Next.js for this site [1].',
+      'It runs on Vercel. [2]',
+      'Why?',
+      'Speed!',
+    ]);
+  });
+
+  it('drops list markers and headings', () => {
+    expect(splitSentences('## Work\n\n- Builds shops [1]\n1. Leads teams.')).toEqual([
+      'Work',
+      'Builds shops [1]',
+      'Leads teams.',
+    ]);
+  });
+});
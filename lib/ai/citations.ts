@@ -0,0 +1,71 @@
+/**
+ * Inline citations in chat answers: the model cites numbered context chunks
+ * as [1] or [1][3] after a sentence. Shared by the chat API (grounding check,
+ * history) and the chat UI (footnotes), so nothing here may import server code.
+ */
+
+// [n] not followed by "(", so markdown links like [1](url) are left alone
+const CITATION = /\[(\d{1,2})\](?!\()/g;
+// [1, 3] written as a list instead of [1][3]
+const CITATION_LIST = /\[(\d{1,2}(?:\s*,\s*\d{1,2})+)\]/g;
+
+function normalizeCitations(text: string): string {
+  return text.replace(CITATION_LIST, (_, list: string) =>
+    list
+      .split(",")
+      .map((n) => `[${n.trim()}]`)
+      .join("")
+  );
+}
+
+/**
+ * Numbers cited in a text, ascending
+ */
+export function citedNumbers(text: string): number[] {
+  const numbers = new Set<number>();
+  for (const match of normalizeCitations(text).matchAll(CITATION)) {
+    numbers.add(Number(match[1]));
+  }
+  return [...numbers].sort((a, b) => a - b);
+}
+
+/**
+ * Text without citation markers (earlier answers sent back as history cite
+ * chunks that are no longer in the context)
+ */
+export function stripCitations(text: string): string {
+  return normalizeCitations(text)
+    .replace(/\s*\[\d{1,2}\](?!\()/g, "")
+    .trim();
+}
+
+/**
+ * Turn citation markers into markdown links to footnotes (#<prefix>-<n>),
+ * so they render as links; numbers without a source stay plain text
+ */
+export function linkCitations(markdown: string, prefix: string, known: (n: number) => boolean): string {
+  return normalizeCitations(markdown).replace(CITATION, (marker, n: string) =>
+    known(Number(n)) ? `[${n}](#${prefix}-${n})` : marker
+  );
+}
+
+/**
+ * Sentences of a markdown answer, with their citations. List markers and
+ * heading hashes are dropped; a period inside a word ("Next.js") does not end
+ * a sentence.
+ */
+export function splitSentences(markdown: string): string[] {
+  const sentences: string[] = [];
+
+  for (const rawLine of markdown.split("\n")) {
+    const line = rawLine.replace(/^\s*(?:[-*+]|\d+\.|#{1,6})\s+/, "").trim();
+    if (!line) continue;
+
+    for (const match of line.matchAll(/.+?(?:[.!?](?:\s*\[\d{1,2}(?:\s*,\s*\d{1,2})*\])*(?=\s|$)|$)/g)) {
+      const sentence = match[0].trim();
+      if (sentence) sentences.push(sentence);
+    }
+  }
+
+  return sentences;
+}
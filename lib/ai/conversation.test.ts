@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  boundChatHistory,
+  encodeChatEvent,
+  formatChatHistory,
+  readChatEvents,
+  type ChatStreamEvent,
+  type ChatTurn,
+} from './conversation';
+
+const turns = (count: number, length = 10): ChatTurn[] =>
+  Array.from({ length: count }, (_, i) => ({
+    role: i % 2 === 0 ? 'user' : 'assistant',
+    content: `${i}`.padEnd(length, '.'),
+  }));
+
+/** Stream the given chunks as a response body would arrive */
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+async function collect(body: ReadableStream<Uint8Array>): Promise<ChatStreamEvent[]> {
+  const events: ChatStreamEvent[] = [];
+  for await (const event of readChatEvents(body)) events.push(event);
+  return events;
+}
+
+describe('boundChatHistory', () => {
+  it('keeps short conversations as they are', () => {
+    expect(boundChatHistory(turns(4))).toEqual(turns(4));
+    expect(boundChatHistory([])).toEqual([]);
+  });
+
+  it('keeps the most recent messages, starting with a user message', () => {
+    const bounded = boundChatHistory(turns(12), 5);
+    expect(bounded.map((t) => parseInt(t.content))).toEqual([8, 9, 10, 11]);
+    expect(bounded[0].role).toBe('user');
+  });
+
+  it('drops older messages once the character budget is spent', () => {
+    const bounded = boundChatHistory(turns(6, 100), 8, 350);
+    expect(bounded).toEqual(turns(6, 100).slice(4));
+  });
+
+  it('skips empty messages', () => {
+    const history: ChatTurn[] = [
+      { role: 'user', content: 'Where does Simon work?' },
+      { role: 'assistant', content: '  ' },
+    ];
+    expect(boundChatHistory(history)).toEqual([history[0]]);
+  });
+});
+
+describe('formatChatHistory', () => {
+  it('labels each message with its speaker', () => {
+    expect(
+      formatChatHistory([
+        { role: 'user', content: 'Where does Simon work? ' },
+        { role: 'assistant', content: 'He works remotely.' },
+      ])
+    ).toBe('User: Where does Simon work?\nAssistant: He works remotely.');
+  });
+});
+
+describe('readChatEvents', () => {
+  const events: ChatStreamEvent[] = [
+    { type: 'meta', model: { name: 'GPT-4o Mini', provider: 'openai' }, sources: [] },
+    { type: 'text', delta: 'Simon ' },
+    { type: 'text', delta: 'builds {commerce} platforms.\n' },
+    { type: 'done', timestamp: 1700000000000 },
+  ];
+  const encoded = events.map((event) => new TextDecoder().decode(encodeChatEvent(event))).join('');
+
+  it('reads one event per line', async () => {
+    expect(await collect(streamOf([encoded]))).toEqual(events);
+  });
+
+  it('reassembles events split across chunks', async () => {
+    const chunks = encoded.match(/[\s\S]{1,7}/g)!;
+    expect(await collect(streamOf(chunks))).toEqual(events);
+  });
+
+  it('reads a final event without a trailing newline', async () => {
+    expect(await collect(streamOf(['{"type":"text","delta":"Hi"}']))).toEqual([{ type: 'text', delta: 'Hi' }]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Multi-turn chat: conversation history and the streamed response format
+ * Shared by the chat API and the chat UI, so nothing here may import server code
+ */
+
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ChatStreamSource {
+  /** Citation number used in the answer ([1], [2], ...) */
+  n: number;
+  type: "blog" | "knowledge";
+  title: string;
+  /** Post URL, with #anchor when the match is in a section; knowledge-base entries have none */
+  url?: string;
+  section?: string;
+}
+
+/**
+ * Dashboard data the answer used, linking to the dashboard page it comes from
+ */
+export interface ChatToolUse {
+  name: string;
+  label: string;
+  href: string;
+}
+
+/**
+ * Result of the grounding check: sentences of the answer that no context
+ * chunk supports, and citation numbers that match no chunk
+ */
+export interface ChatGrounding {
+  unsupported: string[];
+  invalidCitations: number[];
+}
+
+/**
+ * Events of a streamed chat response, one JSON object per line (NDJSON):
+ * meta (model and sources, before any text), tool (each dashboard tool the
+ * model called), text deltas, grounding (after the text, skipped if the check
+ * fails), then done or error
+ */
+export type ChatStreamEvent =
+  | {
+      type: "meta";
+      model: { name: string; provider: string };
+      sources: ChatStreamSource[];
+    }
+  | { type: "text"; delta: string }
+  | ({ type: "tool" } & ChatToolUse)
+  | ({ type: "grounding" } & ChatGrounding)
+  | { type: "done"; timestamp: number }
+  | { type: "error"; error: string; code: string };
+
+// History sent with each turn: the last few messages, newest kept first
+export const MAX_HISTORY_MESSAGES = 8;
+export const MAX_HISTORY_CHARS = 6000;
+
+/**
+ * Bound a conversation to the most recent messages that fit both limits.
+ * History starts with a user message, so a turn is never cut in half.
+ */
+export function boundChatHistory(
+  history: ChatTurn[],
+  maxMessages: number = MAX_HISTORY_MESSAGES,
+  maxChars: number = MAX_HISTORY_CHARS
+): ChatTurn[] {
+  const bounded: ChatTurn[] = [];
+  let chars = 0;
+
+  for (let i = history.length - 1; i >= 0 && bounded.length < maxMessages; i--) {
+    const turn = history[i];
+    if (!turn.content.trim()) continue;
+    chars += turn.content.length;
+    if (chars > maxChars) break;
+    bounded.unshift(turn);
+  }
+
+  while (bounded.length > 0 && bounded[0].role !== "user") {
+    bounded.shift();
+  }
+
+  return bounded;
+}
+
+/**
+ * Plain-text transcript of a conversation, for prompts
+ */
+export function formatChatHistory(history: ChatTurn[]): string {
+  return history
+    .map((turn) => `${turn.role === "user" ? "User" : "Assistant"}: ${turn.content.trim()}`)
+    .join("\n");
+}
+
+const encoder = new TextEncoder();
+
+export function encodeChatEvent(event: ChatStreamEvent): Uint8Array {
+  return encoder.encode(`${JSON.stringify(event)}\n`);
+}
+
+/**
+ * Read the events of a streamed chat response as they arrive
+ */
+export async function* readChatEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffered += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffered.split("\n");
+      buffered = done ? "" : lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line) as ChatStreamEvent;
+      }
+
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
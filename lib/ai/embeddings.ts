@@ -79,59 +79,3 @@ export async function generateEmbeddingsBatch(
 
   return embeddings;
 }
-
-/**
- * Chunk text into smaller pieces for better retrieval
- * @param text - Text to chunk
- * @param maxChars - Maximum characters per chunk (default: 1000)
- * @returns Array of text chunks
- */
-export function chunkText(text: string, maxChars: number = 1000): string[] {
-  // Split by paragraphs first
-  const paragraphs = text.split(/\n\n+/).filter(p => p.trim().length > 0);
-
-  const chunks: string[] = [];
-  let currentChunk = "";
-
-  for (const para of paragraphs) {
-    // If adding this paragraph would exceed limit and we have content
-    if (currentChunk.length > 0 && (currentChunk.length + para.length) > maxChars) {
-      chunks.push(currentChunk.trim());
-      currentChunk = para;
-    } else {
-      currentChunk += (currentChunk ? "\n\n" : "") + para;
-    }
-  }
-
-  // Add remaining content
-  if (currentChunk.trim()) {
-    chunks.push(currentChunk.trim());
-  }
-
-  // If we still have chunks that are too large, split them by sentences
-  const finalChunks: string[] = [];
-  for (const chunk of chunks) {
-    if (chunk.length <= maxChars) {
-      finalChunks.push(chunk);
-    } else {
-      // Split by sentences
-      const sentences = chunk.split(/[.!?]+/).filter(s => s.trim().length > 0);
-      let subChunk = "";
-
-      for (const sentence of sentences) {
-        if (subChunk.length > 0 && (subChunk.length + sentence.length) > maxChars) {
-          finalChunks.push(subChunk.trim());
-          subChunk = sentence;
-        } else {
-          subChunk += (subChunk ? ". " : "") + sentence.trim();
-        }
-      }
-
-      if (subChunk.trim()) {
-        finalChunks.push(subChunk.trim());
-      }
-    }
-  }
-
-  return finalChunks.length > 0 ? finalChunks : [text];
-}
@@ -3,7 +3,8 @@
  * This runs on Node runtime (not Edge)
  */
 
-import { generateEmbedding, chunkText } from "./embeddings";
+import { generateEmbeddingsBatch } from "./embeddings";
+import { blogPostDocuments } from "./chunking";
 import { deleteEmbeddingsBySlug, insertEmbeddingsBatch } from "../db/embeddings";
 import { getBlog } from "../contentful/api/blog";
 import type { BlogProps } from "../contentful/api/props/blog";
@@ -26,37 +27,23 @@ export async function reindexBlogPost(slug: string): Promise<number> {
   // Delete old embeddings for this slug
   await deleteEmbeddingsBySlug(slug);
 
-  // Extract content
-  const title = blog.title || "";
-  const summary = blog.summary || "";
-  const seoDescription = blog.seoDescription || "";
-
-  const content = `Title: ${title}\n\nSummary: ${summary}\n\n${seoDescription}`.trim();
-
-  // Chunk content
-  const chunks = chunkText(content, 1500);
+  // Chunk by section of the rich-text body
+  const documents = blogPostDocuments({
+    slug,
+    title: blog.title || "",
+    summary: blog.summary,
+    seoDescription: blog.seoDescription,
+    body: blog.details?.json,
+  });
 
   // Generate embeddings for each chunk
-  const items = [];
-  for (let i = 0; i < chunks.length; i++) {
-    const embedding = await generateEmbedding(chunks[i]);
-
-    items.push({
-      content: chunks[i],
-      embedding,
-      metadata: {
-        source: "blog" as const,
-        slug,
-        title,
-        url: `https://cr0ss.org/blog/${slug}`,
-      },
-    });
-  }
+  const embeddings = await generateEmbeddingsBatch(documents.map((doc) => doc.content));
+  const items = documents.map((doc, i) => ({ ...doc, embedding: embeddings[i] }));
 
   // Store in database
   const ids = await insertEmbeddingsBatch(items);
 
-  console.log(`✅ Re-indexed blog post "${title}": ${ids.length} chunks`);
+  console.log(`✅ Re-indexed blog post "${blog.title}": ${ids.length} chunks`);
 
   return ids.length;
 }
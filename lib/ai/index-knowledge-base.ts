@@ -3,7 +3,8 @@
  * This runs on Node runtime (not Edge)
  */
 
-import { generateEmbedding, chunkText } from "./embeddings";
+import { generateEmbeddingsBatch } from "./embeddings";
+import { knowledgeBaseDocuments } from "./chunking";
 import { deleteEmbeddingsByFile, insertEmbeddingsBatch } from "../db/embeddings";
 import { getKnowledgeBaseBySlug } from "../contentful/api/knowledge-base";
 
@@ -25,28 +26,13 @@ export async function reindexKnowledgeBase(slug: string): Promise<number> {
   // Delete old embeddings for this file (uses slug.md format for backward compatibility)
   await deleteEmbeddingsByFile(`${slug}.md`);
 
-  // Extract content
+  // Chunk by section of the markdown content
   const title = entry.title || "";
-  const content = entry.content || "";
-
-  // Chunk content
-  const chunks = chunkText(content, 1000);
+  const documents = knowledgeBaseDocuments({ slug, title, content: entry.content || "" });
 
   // Generate embeddings for each chunk
-  const items = [];
-  for (let i = 0; i < chunks.length; i++) {
-    const embedding = await generateEmbedding(chunks[i]);
-
-    items.push({
-      content: chunks[i],
-      embedding,
-      metadata: {
-        source: "knowledge" as const,
-        file: `${slug}.md`,
-        title: `${title} (part ${i + 1}/${chunks.length})`,
-      },
-    });
-  }
+  const embeddings = await generateEmbeddingsBatch(documents.map((doc) => doc.content));
+  const items = documents.map((doc, i) => ({ ...doc, embedding: embeddings[i] }));
 
   // Store in database
   const ids = await insertEmbeddingsBatch(items);
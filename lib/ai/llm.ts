@@ -3,7 +3,17 @@
  * Unified access to multiple AI providers through a single API
  */
 
-import { generateText, streamText, createGateway } from "ai";
+import {
+  generateText,
+  streamText,
+  createGateway,
+  stepCountIs,
+  type ModelMessage,
+  type ToolSet,
+} from "ai";
+import { z } from "zod";
+import { formatChatHistory, type ChatGrounding, type ChatTurn } from "./conversation";
+import { citedNumbers, splitSentences } from "./citations";
 
 // Create gateway instance with API key
 const gateway = createGateway({
@@ -55,6 +65,17 @@ const MODELS: Record<string, ModelConfig> = {
 // Default model - can be overridden via environment variable
 const DEFAULT_MODEL = "gpt-4o-mini";
 
+// Tool calls plus the final answer; each step is a model call
+const MAX_TOOL_STEPS = 3;
+
+/**
+ * Output of a tool the model called while answering
+ */
+export interface ToolResult {
+  toolName: string;
+  output: unknown;
+}
+
 /**
  * Get the current model configuration
  */
@@ -70,14 +91,27 @@ export function getCurrentModel(): ModelConfig {
   return model;
 }
 
+/**
+ * Conversation so far followed by the new user message
+ */
+function toMessages(history: ChatTurn[], userMessage: string): ModelMessage[] {
+  return [
+    ...history.map((turn) => ({ role: turn.role, content: turn.content })),
+    { role: "user", content: userMessage },
+  ];
+}
+
 /**
  * Generate a response from the LLM via AI Gateway
+ * With tools, the model may call them before answering; their results are returned too
  */
 export async function generateResponse(
   systemPrompt: string,
   context: string,
-  userMessage: string
-): Promise<string> {
+  userMessage: string,
+  history: ChatTurn[] = [],
+  tools?: ToolSet
+): Promise<{ text: string; toolResults: ToolResult[] }> {
   const config = getCurrentModel();
 
   console.log(`Generating response with ${config.name} via AI Gateway...`);
@@ -88,27 +122,36 @@ export async function generateResponse(
 Context:
 ${context}`;
 
-  const { text } = await generateText({
+  const { text, steps } = await generateText({
     model: gateway(config.id),
     system: fullSystemPrompt,
-    prompt: userMessage,
+    messages: toMessages(history, userMessage),
+    tools,
+    stopWhen: stepCountIs(MAX_TOOL_STEPS),
     maxOutputTokens: config.maxTokens,
     temperature: 0.7,
   });
 
   console.log(`Response generated (${text.length} chars)`);
 
-  return text;
+  return {
+    text,
+    toolResults: steps.flatMap((step) =>
+      step.toolResults.map(({ toolName, output }) => ({ toolName, output }))
+    ),
+  };
 }
 
 /**
  * Generate a streaming response from the LLM via AI Gateway
- * Returns a ReadableStream for streaming responses
+ * Returns the streamText result; read its fullStream for text deltas, tool results and errors
  */
-export async function generateStreamingResponse(
+export function generateStreamingResponse(
   systemPrompt: string,
   context: string,
-  userMessage: string
+  userMessage: string,
+  history: ChatTurn[] = [],
+  tools?: ToolSet
 ) {
   const config = getCurrentModel();
 
@@ -120,13 +163,102 @@ export async function generateStreamingResponse(
 Context:
 ${context}`;
 
-  const result = streamText({
+  return streamText({
     model: gateway(config.id),
     system: fullSystemPrompt,
-    prompt: userMessage,
+    messages: toMessages(history, userMessage),
+    tools,
+    stopWhen: stepCountIs(MAX_TOOL_STEPS),
     maxOutputTokens: config.maxTokens,
     temperature: 0.7,
   });
+}
+
+/**
+ * Rewrite a follow-up question ("what about his second one?") as a standalone
+ * question for retrieval, using the conversation so far.
+ * Falls back to the question as asked if the rewrite fails.
+ */
+export async function rewriteFollowUpQuestion(
+  history: ChatTurn[],
+  question: string
+): Promise<string> {
+  if (history.length === 0) return question;
+
+  const config = getCurrentModel();
+
+  try {
+    const { text } = await generateText({
+      model: gateway(config.id),
+      system: `Rewrite the user's follow-up question as a standalone question that can be understood without the conversation. Resolve pronouns and references like "it", "he" or "that project" using the conversation. If the question already stands on its own, return it unchanged. Reply with the question only.`,
+      prompt: `Conversation:
+${formatChatHistory(history)}
 
-  return result;
+Follow-up question: ${question}`,
+      maxOutputTokens: 100,
+      temperature: 0,
+    });
+
+    const rewritten = text.trim().replace(/^"([\s\S]*)"$/, "$1");
+    return rewritten || question;
+  } catch (error) {
+    console.warn("Follow-up rewrite failed, retrieving with the question as asked:", error);
+    return question;
+  }
+}
+
+const ZGroundingVerdict = z.object({
+  unsupported: z.array(z.number().int()),
+});
+
+/**
+ * Check an answer against the context chunks and dashboard data it was
+ * generated from. A judge call marks sentences that nothing states or
+ * directly implies; citations of chunks that don't exist are found without the model.
+ * Returns null if the check fails, so the answer is shown without it.
+ */
+export async function checkGrounding(
+  answer: string,
+  sources: Array<{ n: number; content: string }>,
+  toolResults: ToolResult[] = []
+): Promise<ChatGrounding | null> {
+  const numbers = new Set(sources.map((source) => source.n));
+  const invalidCitations = citedNumbers(answer).filter((n) => !numbers.has(n));
+
+  // Only sentences with words worth checking ("Yes." and headings alone are skipped)
+  const sentences = splitSentences(answer).filter((sentence) => sentence.split(/\s+/).length >= 4);
+  if (sentences.length === 0) return { unsupported: [], invalidCitations };
+
+  const config = getCurrentModel();
+  const dashboardData = toolResults
+    .map((result) => `${result.toolName}: ${JSON.stringify(result.output)}`)
+    .join("\n");
+
+  try {
+    const { text } = await generateText({
+      model: gateway(config.id),
+      system: `You check whether an answer is supported by its sources. For each numbered sentence, decide whether the Sources or the live dashboard data state or directly imply what it says; the [n] citations in a sentence are hints, not proof. Sentences that only say information is missing, or only point the reader elsewhere, count as supported. Reply with JSON only: {"unsupported": [numbers of the sentences that are not supported]}`,
+      prompt: `Sources:
+${sources.length > 0 ? sources.map((source) => `[${source.n}] ${source.content}`).join("\n\n") : "(none)"}
+
+Live dashboard data:
+${dashboardData || "(none)"}
+
+Sentences:
+${sentences.map((sentence, i) => `${i + 1}. ${sentence}`).join("\n")}`,
+      maxOutputTokens: 200,
+      temperature: 0,
+    });
+
+    const json = text.match(/\{[\s\S]*\}/);
+    const verdict = ZGroundingVerdict.parse(JSON.parse(json ? json[0] : text));
+
+    return {
+      unsupported: sentences.filter((_, i) => verdict.unsupported.includes(i + 1)),
+      invalidCitations,
+    };
+  } catch (error) {
+    console.warn("Grounding check failed, answering without it:", error);
+    return null;
+  }
 }
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { cosineSimilarity, maximalMarginalRelevance, reciprocalRankFusion } from './ranking';
+
+describe('cosineSimilarity', () => {
+  it('compares direction, not length', () => {
+    expect(cosineSimilarity([1, 0], [3, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 2])).toBeCloseTo(0);
+    expect(cosineSimilarity([1, 1], [-1, -1])).toBeCloseTo(-1);
+  });
+
+  it('is 0 for zero vectors', () => {
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('ranks ids found by both lists first', () => {
+    const fused = reciprocalRankFusion([
+      [1, 2, 3],
+      [4, 3, 5],
+    ]);
+    expect(fused[0].id).toBe(3);
+    expect(fused.map((r) => r.id).sort()).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('scores each list by rank only', () => {
+    const [first, second] = reciprocalRankFusion([[7], [8]], 60);
+    expect(first).toEqual({ id: 7, score: 1 / 61 });
+    expect(second).toEqual({ id: 8, score: 1 / 61 });
+  });
+
+  it('handles empty lists', () => {
+    expect(reciprocalRankFusion([[], []])).toEqual([]);
+    expect(reciprocalRankFusion([[], [2, 1]]).map((r) => r.id)).toEqual([2, 1]);
+  });
+});
+
+describe('maximalMarginalRelevance', () => {
+  // Three chunks of one post (nearly the same direction) and one from another
+  const items = [
+    { id: 'post-a-1', score: 1.0, embedding: [1, 0, 0] },
+    { id: 'post-a-2', score: 0.95, embedding: [0.99, 0.1, 0] },
+    { id: 'post-a-3', score: 0.9, embedding: [0.98, 0.15, 0] },
+    { id: 'post-b-1', score: 0.8, embedding: [0, 1, 0] },
+  ];
+
+  it('picks a different post over near-duplicates', () => {
+    const picked = maximalMarginalRelevance(items, 2, 0.7).map((item) => item.id);
+    expect(picked).toEqual(['post-a-1', 'post-b-1']);
+  });
+
+  it('ranks by relevance alone with lambda 1', () => {
+    const picked = maximalMarginalRelevance(items, 3, 1).map((item) => item.id);
+    expect(picked).toEqual(['post-a-1', 'post-a-2', 'post-a-3']);
+  });
+
+  it('returns every item when asked for more than there are', () => {
+    expect(maximalMarginalRelevance(items, 10)).toHaveLength(4);
+    expect(maximalMarginalRelevance([], 5)).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Ranking for hybrid retrieval: fuse lexical and vector result lists with
+ * reciprocal rank fusion, then optionally diversify with maximal marginal relevance
+ */
+
+/**
+ * Cosine similarity of two vectors (0 if either is all zeros)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Reciprocal rank fusion: each list contributes 1 / (k + rank) for every id it
+ * ranks, so ids found by several lists rise without comparing their raw scores
+ * (cosine similarity and ts_rank are on different scales).
+ *
+ * @param rankings - Ids per result list, best first
+ * @param k - Damping constant; 60 is the value from the original paper
+ * @returns Ids with their fused score, best first (ties keep first-seen order)
+ */
+export function reciprocalRankFusion(
+  rankings: number[][],
+  k: number = 60
+): Array<{ id: number; score: number }> {
+  const scores = new Map<number, number>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (k + index + 1));
+    });
+  }
+
+  return [...scores.entries()]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Maximal marginal relevance: pick items one at a time, trading relevance
+ * against similarity to what is already picked, so the results are not all
+ * near-duplicate chunks of one post.
+ *
+ * @param items - Candidates with a relevance score (any scale) and embedding, best first
+ * @param limit - Number of items to pick
+ * @param lambda - 1 ranks by relevance only, 0 by novelty only
+ */
+export function maximalMarginalRelevance<T extends { score: number; embedding: number[] }>(
+  items: T[],
+  limit: number,
+  lambda: number = 0.7
+): T[] {
+  const maxScore = Math.max(...items.map((item) => item.score), 0);
+  const relevance = (item: T) => (maxScore > 0 ? item.score / maxScore : 0);
+
+  const remaining = [...items];
+  const selected: T[] = [];
+
+  while (selected.length < limit && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+
+    remaining.forEach((item, index) => {
+      const redundancy = selected.length
+        ? Math.max(...selected.map((picked) => cosineSimilarity(item.embedding, picked.embedding)))
+        : 0;
+      const value = lambda * relevance(item) - (1 - lambda) * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    });
+
+    selected.push(remaining.splice(bestIndex, 1)[0]);
+  }
+
+  return selected;
+}
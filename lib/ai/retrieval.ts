@@ -5,16 +5,28 @@
 
 import { generateEmbedding } from "./embeddings";
 import { retrieveRelevantContext } from "../db/embeddings";
+import { rewriteFollowUpQuestion } from "./llm";
+import type { ChatTurn } from "./conversation";
 
 export interface ChatSource {
+  /** Citation number of the chunk in the context ([1], [2], ...) */
+  n: number;
   type: "blog" | "knowledge";
   title: string;
+  /** Links to the section of the chunk when it has a heading anchor; knowledge-base entries have none */
   url?: string;
+  /** Heading path of that section */
+  section?: string;
+  /** Chunk text, for the grounding check */
+  content: string;
 }
 
 export interface RetrievalResponse {
   context: string;
+  /** One per context chunk, in citation order */
   sources: ChatSource[];
+  /** Question the context was retrieved for (follow-ups rewritten to stand alone) */
+  query: string;
 }
 
 /**
@@ -24,72 +36,87 @@ export function createSystemPrompt(): string {
   return `You are an AI assistant for Simon Krüger's personal website cr0ss.org. Your role is to answer questions about Simon based ONLY on the provided Context.
 
 CRITICAL RULES:
-- ONLY use information from the Context. Never make up or assume information.
-- If the Context does not contain relevant information, respond: "I don't have information about that in my knowledge base. You could try asking Simon directly or exploring his blog posts."
+- ONLY use information from the Context or the dashboard tools. Never make up or assume information.
+- If neither contains relevant information, respond: "I don't have information about that in my knowledge base. You could try asking Simon directly or exploring his blog posts."
 - Never use em-dashes (—) in your responses. Use commas or periods instead.
 
+CITATIONS:
+- Each Context chunk starts with its number, like [1].
+- End every sentence that uses the Context with the numbers of the chunks it comes from, like [1] or [1][3].
+- Only cite numbers that appear in the Context. Do not add a list of sources at the end.
+
+DASHBOARD:
+- Tools return live data from Simon's quantified-self dashboard (coffee, running, habit streaks, insights, current location).
+- Call them for questions about current numbers, e.g. how far he has run this month. Don't call them otherwise.
+- Report numbers as returned, with units. Dashboard numbers are not cited with [n].
+- If a tool fails or returns no data, say the data isn't available right now.
+
 FORMATTING:
 - Structure your response in 3-4 separate paragraphs
 - Each paragraph should focus on one aspect of the topic
 - Use **bold** for emphasis when appropriate
 - Always refer to Simon in third person ("Simon has...", "He believes...")
 
-Remember: Accuracy is more important than comprehensiveness. Only share what you know from the Context.`;
+CONVERSATION:
+- Earlier messages are there to understand follow-up questions. Answer the latest message.
+- Facts still have to come from the Context or the dashboard tools, not from earlier answers.
+
+Remember: Accuracy is more important than comprehensiveness. Only share what you know from the Context or the dashboard tools.`;
 }
 
 /**
  * Retrieve relevant context for a user question
- * Returns formatted context string and source references
+ * Follow-up questions are rewritten to stand alone using the conversation history
+ * Returns the context as numbered chunks and one source per chunk to cite
  */
 export async function retrieveContext(
   userQuestion: string,
-  maxResults: number = 5
+  maxResults: number = 5,
+  history: ChatTurn[] = []
 ): Promise<RetrievalResponse> {
-  console.log(`Retrieving context for: "${userQuestion}"`);
+  const query = await rewriteFollowUpQuestion(history, userQuestion);
+
+  console.log(
+    query === userQuestion
+      ? `Retrieving context for: "${query}"`
+      : `Retrieving context for: "${query}" (rewritten from "${userQuestion}")`
+  );
 
   // Generate embedding for the question
-  const questionEmbedding = await generateEmbedding(userQuestion);
+  const questionEmbedding = await generateEmbedding(query);
 
-  // Find similar content
+  // Find relevant content: full-text and vector matches, diversified across posts
   // Use up to 5 results for richer context
   const resultsLimit = Math.min(maxResults, 5);
-  const results = await retrieveRelevantContext(questionEmbedding, resultsLimit, 0.15);
+  const results = await retrieveRelevantContext(
+    { text: query, embedding: questionEmbedding },
+    { limit: resultsLimit, mmrLambda: 0.7 }
+  );
 
   if (results.length === 0) {
     console.log("⚠️  No relevant context found");
     return {
       context: "No specific information available. Please provide a general response based on common knowledge about software development and architecture.",
       sources: [],
+      query,
     };
   }
 
   console.log(`✅ Found ${results.length} relevant pieces of context`);
 
-  // Format context for the LLM (without relevance scores - only for internal use)
-  const contextParts = results.map((result) => {
-    return result.content;
-  });
-
-  // Extract unique sources (deduplicate by URL or title)
-  const seenSources = new Set<string>();
-  const sources: ChatSource[] = [];
-
-  for (const result of results) {
-    const { metadata } = result;
-    const key = metadata.url || metadata.title || metadata.file || "";
-
-    if (key && !seenSources.has(key)) {
-      seenSources.add(key);
-      sources.push({
-        type: metadata.source,
-        title: metadata.title || metadata.file?.replace(".md", "") || "Unknown",
-        url: metadata.url,
-      });
-    }
-  }
+  // Number the chunks so the answer can cite them (relevance scores stay internal)
+  const sources: ChatSource[] = results.map(({ content, metadata }, i) => ({
+    n: i + 1,
+    type: metadata.source,
+    title: metadata.title || metadata.file?.replace(".md", "") || "Unknown",
+    url: metadata.url && metadata.anchor ? `${metadata.url}#${metadata.anchor}` : metadata.url,
+    section: metadata.section,
+    content,
+  }));
 
   return {
-    context: contextParts.join("\n\n---\n\n"),
+    context: sources.map((source) => `[${source.n}] ${source.content}`).join("\n\n---\n\n"),
     sources,
+    query,
   };
 }
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { DiscoveredCorrelation } from '@/lib/insights/correlation-discovery';
+import type { LocationHistoryRecord } from '@/lib/db/location';
+
+vi.mock('next/cache', () => ({
+  unstable_cache: (fn: unknown) => fn,
+}));
+
+vi.mock('@/lib/db/queries', () => ({
+  qCupsToday: vi.fn(async () => 3),
+  qHabitStreaks: vi.fn(),
+  qRunningMonthlyProgress: vi.fn(async () => ({
+    month: '2026-10-01',
+    target_km: 100,
+    total_km: 42.456,
+    delta_km: -57.544,
+    pct: 0.42456,
+  })),
+}));
+
+vi.mock('@/lib/db/location', () => ({ getCurrentLocation: vi.fn() }));
+vi.mock('@/lib/insights/correlation-discovery', () => ({ discoverCorrelations: vi.fn() }));
+
+import {
+  createDashboardTools,
+  describeDashboardTool,
+  publicCorrelations,
+  publicHabitStreaks,
+  publicLocation,
+  publicRunningProgress,
+} from './tools';
+
+const correlation = (a: string, b: string, r: number) =>
+  ({
+    metricA: { key: a, label: a },
+    metricB: { key: b, label: b },
+    correlation: { r, pValue: 0.01, n: 60, confidence: 'strong', strength: 'strong' },
+    lag: 0,
+    likelyConfounded: false,
+    interpretation: `${a} and ${b}`,
+  }) as unknown as DiscoveredCorrelation;
+
+describe('publicRunningProgress', () => {
+  it('rounds distances and reports the goal share', () => {
+    expect(
+      publicRunningProgress({ month: '2026-10-01', target_km: 100, total_km: 42.456, delta_km: -57.544, pct: 0.42456 })
+    ).toEqual({ month: '2026-10', total_km: 42.5, goal_km: 100, goal_pct: 42 });
+  });
+
+  it('leaves the goal out when none is set', () => {
+    expect(publicRunningProgress({ month: '2026-10-01', target_km: 0, total_km: 12, delta_km: 12, pct: 0 })).toEqual({
+      month: '2026-10',
+      total_km: 12,
+      goal_km: null,
+      goal_pct: null,
+    });
+  });
+});
+
+describe('publicHabitStreaks', () => {
+  it('keeps only allowlisted habits', () => {
+    const streaks = {
+      reading: { current: 3, longest: 10 },
+      coding: { current: 1, longest: 4 },
+      mood: { current: 5, longest: 5 },
+    } as unknown as Parameters<typeof publicHabitStreaks>[0];
+
+    expect(publicHabitStreaks(streaks)).toEqual({
+      reading: { current: 3, longest: 10 },
+      coding: { current: 1, longest: 4 },
+    });
+  });
+});
+
+describe('publicCorrelations', () => {
+  it('drops pairs with private metrics and keeps the strongest', () => {
+    const result = publicCorrelations([
+      correlation('sleepScore', 'focusMinutes', 0.4),
+      correlation('mood', 'coffeeCount', 0.9),
+      correlation('custom.weight', 'ran', -0.8),
+      correlation('runDistanceKm', 'sleepScore', -0.6),
+    ]);
+
+    expect(result.map((c) => [c.metric_a, c.metric_b, c.r])).toEqual([
+      ['runDistanceKm', 'sleepScore', -0.6],
+      ['sleepScore', 'focusMinutes', 0.4],
+    ]);
+  });
+});
+
+describe('publicLocation', () => {
+  it('leaves out coordinates', () => {
+    const location = {
+      id: 1,
+      logged_at: new Date('2026-10-18T08:00:00Z'),
+      latitude: 53.55,
+      longitude: 9.99,
+      temp_celsius: 11.26,
+      weather_description: 'light rain',
+      country_code: 'DE',
+    } as LocationHistoryRecord;
+
+    expect(publicLocation(location)).toEqual({
+      country_code: 'DE',
+      weather: 'light rain',
+      temp_celsius: 11.3,
+      as_of: '2026-10-18',
+    });
+    expect(publicLocation(null)).toBeNull();
+  });
+});
+
+describe('createDashboardTools', () => {
+  it('exposes only the registered tools', () => {
+    expect(Object.keys(createDashboardTools())).toEqual([
+      'coffeeToday',
+      'runningThisMonth',
+      'habitStreaks',
+      'correlations',
+      'currentLocation',
+    ]);
+    expect(describeDashboardTool('runningThisMonth')).toEqual({ label: 'Running this month', href: '/dashboard/workouts' });
+    expect(describeDashboardTool('rawWorkouts')).toBeUndefined();
+  });
+
+  it('returns the public projection from execute', async () => {
+    const tools = createDashboardTools();
+    const output = await tools.runningThisMonth.execute!({}, { toolCallId: '1', messages: [] });
+
+    expect(output).toEqual({ month: '2026-10', total_km: 42.5, goal_km: 100, goal_pct: 42 });
+  });
+});
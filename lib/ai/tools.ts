@@ -0,0 +1,188 @@
+/**
+ * Read-only chat tools over the quantified-self dashboard
+ *
+ * The registry below is the allowlist: the model can only call these tools,
+ * and each returns a public projection of its query, never the raw rows.
+ */
+
+import { tool, type ToolSet } from "ai";
+import { z } from "zod";
+import { unstable_cache } from "next/cache";
+import { CACHE_KEYS, CACHE_TAGS } from "@/lib/constants/cache";
+import { qCupsToday, qHabitStreaks, qRunningMonthlyProgress } from "@/lib/db/queries";
+import { getCurrentLocation, type LocationHistoryRecord } from "@/lib/db/location";
+import {
+  discoverCorrelations,
+  type DiscoveredCorrelation,
+} from "@/lib/insights/correlation-discovery";
+import type { DailyMetrics } from "@/lib/insights/data-aggregator";
+import type { ZMonthlyProgress } from "@/lib/db/models";
+
+// Habits the chat may report streaks for
+export const PUBLIC_HABITS = ["reading", "outdoor", "writing", "coding", "steps"] as const;
+
+// Metrics the chat may mention in correlations. Subjective check-ins (mood,
+// energy, stress, focus quality) and custom metrics stay private.
+export const PUBLIC_CORRELATION_METRICS: Array<keyof DailyMetrics> = [
+  "sleepScore",
+  "focusMinutes",
+  "readingMinutes",
+  "outdoorMinutes",
+  "writingMinutes",
+  "coffeeCount",
+  "totalCaffeineMg",
+  "ran",
+  "runDistanceKm",
+  "runDurationMin",
+  "workedOut",
+  "workoutCount",
+  "workoutDurationMin",
+  "avgTempCelsius",
+  "sunnyDay",
+];
+
+const MAX_CORRELATIONS = 5;
+
+const round = (value: number, digits: number = 1) => Number(value.toFixed(digits));
+
+type HabitStreaks = Awaited<ReturnType<typeof qHabitStreaks>>;
+
+/**
+ * Distance run this month against the monthly goal (null without a goal)
+ */
+export function publicRunningProgress(progress: z.infer<typeof ZMonthlyProgress>) {
+  const hasGoal = progress.target_km > 0;
+  return {
+    month: progress.month.slice(0, 7),
+    total_km: round(progress.total_km),
+    goal_km: hasGoal ? round(progress.target_km) : null,
+    goal_pct: hasGoal ? Math.round(progress.pct * 100) : null,
+  };
+}
+
+/**
+ * Current and longest streaks (in days) of the public habits
+ */
+export function publicHabitStreaks(streaks: HabitStreaks) {
+  return Object.fromEntries(
+    PUBLIC_HABITS.filter((habit) => habit in streaks).map((habit) => [habit, streaks[habit]])
+  );
+}
+
+/**
+ * Strongest correlations between public metrics, described by label
+ */
+export function publicCorrelations(correlations: DiscoveredCorrelation[]) {
+  const isPublic = (key: string) => (PUBLIC_CORRELATION_METRICS as string[]).includes(key);
+
+  return correlations
+    .filter((c) => isPublic(c.metricA.key) && isPublic(c.metricB.key))
+    .sort((a, b) => Math.abs(b.correlation.r) - Math.abs(a.correlation.r))
+    .slice(0, MAX_CORRELATIONS)
+    .map((c) => ({
+      metric_a: c.metricA.label,
+      metric_b: c.metricB.label,
+      r: round(c.correlation.r, 2),
+      lag_days: c.lag,
+      likely_confounded: c.likelyConfounded,
+      interpretation: c.interpretation,
+    }));
+}
+
+/**
+ * Country and weather of the latest location, without coordinates
+ */
+export function publicLocation(location: LocationHistoryRecord | null) {
+  if (!location) return null;
+  return {
+    country_code: location.country_code,
+    weather: location.weather_description,
+    temp_celsius: location.temp_celsius === null ? null : round(Number(location.temp_celsius)),
+    as_of: new Date(location.logged_at).toISOString().slice(0, 10),
+  };
+}
+
+// Correlation discovery is expensive; the chat reads an hourly result over public metrics only
+const getPublicCorrelations = unstable_cache(
+  async () =>
+    publicCorrelations(
+      await discoverCorrelations({
+        days: 90,
+        metricsToAnalyze: PUBLIC_CORRELATION_METRICS,
+        bootstrapIterations: 200,
+      })
+    ),
+  [CACHE_KEYS.CHAT_CORRELATIONS],
+  {
+    tags: [CACHE_TAGS.insights("correlations")],
+    revalidate: 3600,
+  }
+);
+
+interface DashboardTool {
+  /** Shown under the answer, linking to the dashboard page */
+  label: string;
+  href: string;
+  description: string;
+  load: () => Promise<unknown>;
+}
+
+const DASHBOARD_TOOLS: Record<string, DashboardTool> = {
+  coffeeToday: {
+    label: "Coffee today",
+    href: "/dashboard/coffee",
+    description: "Number of coffees Simon has had today.",
+    load: async () => ({ cups: await qCupsToday() }),
+  },
+  runningThisMonth: {
+    label: "Running this month",
+    href: "/dashboard/workouts",
+    description: "Kilometres Simon has run this calendar month and his monthly running goal.",
+    load: async () => publicRunningProgress(await qRunningMonthlyProgress()),
+  },
+  habitStreaks: {
+    label: "Habit streaks",
+    href: "/dashboard/habits",
+    description:
+      "Current and longest daily streaks of Simon's habits. A day counts with 30+ minutes of reading, outdoor time, writing or coding, or 8,000+ steps.",
+    load: async () => publicHabitStreaks(await qHabitStreaks()),
+  },
+  correlations: {
+    label: "Insights",
+    href: "/dashboard/insights",
+    description:
+      "Strongest statistical correlations in Simon's tracked data over the last 90 days, e.g. between sleep, caffeine, running and focus time.",
+    load: getPublicCorrelations,
+  },
+  currentLocation: {
+    label: "Current location",
+    href: "/dashboard/travel",
+    description: "Country Simon is currently in and the weather there.",
+    load: async () => publicLocation(await getCurrentLocation()),
+  },
+};
+
+/**
+ * Label and dashboard link of a tool, for showing where live data came from
+ */
+export function describeDashboardTool(name: string): { label: string; href: string } | undefined {
+  if (!Object.hasOwn(DASHBOARD_TOOLS, name)) return undefined;
+  const { label, href } = DASHBOARD_TOOLS[name];
+  return { label, href };
+}
+
+/**
+ * The dashboard tools in the shape the AI SDK expects; none take input
+ */
+export function createDashboardTools(): ToolSet {
+  return Object.fromEntries(
+    Object.entries(DASHBOARD_TOOLS).map(([name, { description, load }]) => [
+      name,
+      tool({
+        description,
+        inputSchema: z.object({}),
+        execute: () => load(),
+      }),
+    ])
+  );
+}
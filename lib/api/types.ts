@@ -43,6 +43,13 @@ export interface CaffeineCurveResponse {
 // Workouts API Types
 // ============================================================================
 
+export interface ClimbingGradeRecord {
+  grade: string;
+  difficulty: number;
+  date: string;
+  workout_id: number;
+}
+
 export interface WorkoutsSummaryResponse {
   period: string;
   workout_types: Array<{
@@ -57,6 +64,27 @@ export interface WorkoutsSummaryResponse {
     current: number;
     longest: number;
   };
+  climbing: {
+    disciplines: Array<{
+      discipline: 'route' | 'boulder';
+      grade_system: 'french' | 'uiaa' | 'yds' | 'font' | 'v';
+      sessions: number;
+      max_grade: ClimbingGradeRecord | null;
+      period_max_grade: ClimbingGradeRecord | null;
+      pyramid: Array<{
+        grade: string;
+        difficulty: number;
+        count: number;
+      }>;
+      progression: ClimbingGradeRecord[];
+      send_rate: {
+        sends: number;
+        attempts: number;
+        rate: number | null;
+      };
+    }>;
+    unparsed_grades: string[];
+  };
 }
 
 export interface WorkoutsHeatmapResponse {
@@ -76,6 +104,8 @@ export interface WorkoutsHeatmapResponse {
   };
 }
 
+export type RunningRaceDistance = '1k' | '5k' | '10k' | 'half' | 'marathon';
+
 export interface RunningStatsResponse {
   period: string;
   total_runs: number;
@@ -88,6 +118,27 @@ export interface RunningStatsResponse {
     fastest_pace_sec_per_km: number;
     fastest_pace_date: string;
   };
+  best_efforts: Array<{
+    distance: RunningRaceDistance;
+    distance_m: number;
+    elapsed_s: number;
+    pace_sec_per_km: number;
+    date: string;
+    workout_id: number;
+    source: 'strava' | 'streams';
+    history: Array<{ date: string; elapsed_s: number; workout_id: number }>;
+  }>;
+  predictions: {
+    window_days: number;
+    riegel_exponent: number;
+    races: Array<{
+      distance: RunningRaceDistance;
+      distance_m: number;
+      predicted_s: number;
+      pace_sec_per_km: number;
+      based_on: { distance: RunningRaceDistance; elapsed_s: number; date: string; workout_id: number };
+    }>;
+  };
   monthly_progress?: {
     target_km: number;
     current_km: number;
@@ -96,6 +147,120 @@ export interface RunningStatsResponse {
   };
 }
 
+export interface StrengthStatsResponse {
+  period: string;
+  total_sessions: number;
+  total_sets: number;
+  total_volume_kg: number;
+  exercises: Array<{
+    exercise: string;
+    sessions: number;
+    sets: number;
+    reps: number;
+    volume_kg: number;
+    best: {
+      e1rm_kg: number;
+      load_kg: number;
+      reps: number;
+      rpe: number | null;
+      date: string;
+      workout_id: number;
+    } | null;
+    history: Array<{ date: string; workout_id: number; volume_kg: number; e1rm_kg: number | null }>;
+    progression: Array<{ date: string; workout_id: number; e1rm_kg: number }>;
+  }>;
+}
+
+export interface WorkoutsLoadResponse {
+  days: number;
+  series: Array<{
+    date: string;
+    load: number;
+    atl: number;
+    ctl: number;
+    tsb: number;
+    acwr: number | null;
+  }>;
+  current: {
+    atl: number;
+    ctl: number;
+    tsb: number;
+    acwr: number | null;
+    acwr_status: 'low' | 'optimal' | 'elevated' | 'high' | null;
+  };
+  warning: string | null;
+  model: {
+    atl_days: number;
+    ctl_days: number;
+    acwr_acute_days: number;
+    acwr_chronic_days: number;
+  };
+}
+
+export interface RecentWorkoutsResponse {
+  workouts: Array<{
+    id: number;
+    date: string;
+    workout_type: string;
+    duration_min: number;
+    distance_km: number | null;
+    source: string | null;
+    has_streams: boolean;
+  }>;
+}
+
+export interface WorkoutDetailResponse {
+  workout: {
+    id: number;
+    date: string;
+    workout_type: string;
+    duration_min: number;
+    distance_km: number | null;
+    elevation_gain_m: number | null;
+    intensity: string | null;
+    details: Record<string, unknown> | null;
+    notes: string | null;
+    source: string | null;
+  };
+  analysis: {
+    source: string;
+    point_count: number;
+    max_hr: number;
+    lthr: number | null;
+    trimp: number | null;
+    hr_zones: Array<{
+      zone: number;
+      min_bpm: number;
+      max_bpm: number | null;
+      seconds: number;
+      share: number;
+    }> | null;
+    splits: Array<{
+      index: number;
+      distance_m: number;
+      elapsed_s: number;
+      pace_sec_per_km: number;
+      avg_heartrate: number | null;
+      elevation_gain_m: number;
+      elevation_loss_m: number;
+    }>;
+    elevation: {
+      points: Array<{ distance_m: number; altitude_m: number }>;
+      gain_m: number;
+      loss_m: number;
+      min_m: number;
+      max_m: number;
+    } | null;
+    series: Array<{
+      time_s: number;
+      distance_m: number | null;
+      heartrate: number | null;
+      velocity_mps: number | null;
+      altitude_m: number | null;
+    }>;
+  } | null;
+}
+
 // ============================================================================
 // Habits API Types
 // ============================================================================
@@ -150,23 +315,28 @@ export interface SleepQualityResponse {
 // Goals API Types
 // ============================================================================
 
+export type GoalPeriod = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// Keyed by metric: a days column, workout:<type>:<field>, coffee:<field> or custom:<key>
 export interface GoalsResponse {
   daily: Record<string, number>;
+  weekly: Record<string, number>;
   monthly: Record<string, number>;
+  yearly: Record<string, number>;
 }
 
 export interface GoalProgressItem {
   goal: string;
+  metric: string;
+  direction: 'at_least' | 'at_most';
   target: number;
   current: number;
   progress_pct: number;
+  met: boolean;
   unit: string;
 }
 
-export interface GoalsProgressResponse {
-  daily?: GoalProgressItem[];
-  monthly?: GoalProgressItem[];
-}
+export type GoalsProgressResponse = Partial<Record<GoalPeriod, GoalProgressItem[]>>;
 
 // ============================================================================
 // Insights API Types
@@ -181,9 +351,43 @@ export interface InsightsResponse {
     days_analyzed: number;
     min_correlation: number;
     p_value_threshold: number;
+    correction: import('@/lib/stats/correlation').PValueCorrection;
+    method: import('@/lib/stats/correlation').CorrelationMethod;
+    max_lag: number;
+    control_confounders: boolean;
   };
 }
 
+export type { InsightEvent, InsightSnapshotRow } from '@/lib/insights/snapshots';
+
+export interface InsightChangesResponse {
+  since_days: number;
+  current_date: string | null;
+  previous_date: string | null;
+  events: Array<import('@/lib/insights/snapshots').InsightEvent>;
+}
+
+export interface InsightHistoryResponse {
+  metric_a: string;
+  metric_b: string;
+  days: number;
+  points: Array<{
+    date: string;
+    metric_a: string;
+    metric_b: string;
+    lag: number;
+    method: string;
+    r: number;
+    r_lower: number;
+    r_upper: number;
+    p_value: number;
+    q_value: number;
+    n: number;
+    significant: boolean;
+  }>;
+  events: Array<import('@/lib/insights/snapshots').InsightEvent>;
+}
+
 // ============================================================================
 // Location API Types
 // ============================================================================
@@ -0,0 +1,134 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  getKeyring,
+  loadKeyring,
+  openSecrets,
+  rewrapSecrets,
+  sealSecrets,
+  TokenEncryptionError,
+} from "./encryption";
+
+const KEY_A = "a".repeat(64);
+const KEY_B = "0123456789abcdef".repeat(4);
+
+const tokens = { access_token: "access-123", refresh_token: "refresh-456" };
+
+describe("sealSecrets / openSecrets", () => {
+  it("round-trips values under a per-record data key", async () => {
+    const keyring = await loadKeyring(KEY_A);
+    const sealed = await sealSecrets(tokens, keyring);
+
+    expect(sealed.keyId).toBe(keyring.current?.id);
+    expect(sealed.keyId).toMatch(/^[0-9a-f]{16}$/);
+    expect(sealed.dataKey).toBeTruthy();
+    expect(sealed.values.access_token).not.toContain("access-123");
+    expect(await openSecrets(sealed, keyring)).toEqual(tokens);
+  });
+
+  it("uses a fresh data key and IV for every record", async () => {
+    const keyring = await loadKeyring(KEY_A);
+    const first = await sealSecrets(tokens, keyring);
+    const second = await sealSecrets(tokens, keyring);
+
+    expect(first.dataKey).not.toBe(second.dataKey);
+    expect(first.values.access_token).not.toBe(second.values.access_token);
+  });
+
+  it("stores plaintext without a configured key and reads it back", async () => {
+    const keyring = await loadKeyring();
+    const sealed = await sealSecrets(tokens, keyring);
+
+    expect(sealed).toEqual({ values: tokens, keyId: null, dataKey: null });
+    expect(await openSecrets(sealed, keyring)).toEqual(tokens);
+  });
+
+  it("rejects values swapped between fields", async () => {
+    const keyring = await loadKeyring(KEY_A);
+    const sealed = await sealSecrets(tokens, keyring);
+    const swapped = {
+      ...sealed,
+      values: { access_token: sealed.values.refresh_token, refresh_token: sealed.values.access_token },
+    };
+
+    await expect(openSecrets(swapped, keyring)).rejects.toThrow(TokenEncryptionError);
+  });
+
+  it("fails clearly when the record's key is not configured", async () => {
+    const sealed = await sealSecrets(tokens, await loadKeyring(KEY_A));
+
+    await expect(openSecrets(sealed, await loadKeyring(KEY_B))).rejects.toThrow(/not configured/);
+  });
+
+  it("opens records under a previous key", async () => {
+    const sealed = await sealSecrets(tokens, await loadKeyring(KEY_A));
+    const rotated = await loadKeyring(KEY_B, KEY_A);
+
+    expect(await openSecrets(sealed, rotated)).toEqual(tokens);
+  });
+});
+
+describe("loadKeyring", () => {
+  it("rejects keys that are not 64 hex characters", async () => {
+    await expect(loadKeyring("z".repeat(64))).rejects.toThrow(TokenEncryptionError);
+    await expect(loadKeyring(KEY_A, "abc")).rejects.toThrow(TokenEncryptionError);
+  });
+
+  it("derives stable ids per key", async () => {
+    const [a1, a2, b] = await Promise.all([loadKeyring(KEY_A), loadKeyring(KEY_A), loadKeyring(KEY_B)]);
+
+    expect(a1.current?.id).toBe(a2.current?.id);
+    expect(a1.current?.id).not.toBe(b.current?.id);
+  });
+});
+
+describe("rewrapSecrets", () => {
+  it("encrypts plaintext records", async () => {
+    const keyring = await loadKeyring(KEY_A);
+    const sealed = await rewrapSecrets({ values: tokens, keyId: null, dataKey: null }, keyring);
+
+    expect(sealed?.keyId).toBe(keyring.current?.id);
+    expect(await openSecrets(sealed!, keyring)).toEqual(tokens);
+  });
+
+  it("rewraps the data key under the current key without re-encrypting values", async () => {
+    const old = await sealSecrets(tokens, await loadKeyring(KEY_A));
+    const rotated = await loadKeyring(KEY_B, KEY_A);
+    const sealed = await rewrapSecrets(old, rotated);
+
+    expect(sealed?.keyId).toBe(rotated.current?.id);
+    expect(sealed?.values).toEqual(old.values);
+    expect(await openSecrets(sealed!, await loadKeyring(KEY_B))).toEqual(tokens);
+  });
+
+  it("leaves records under the current key alone", async () => {
+    const keyring = await loadKeyring(KEY_A);
+
+    expect(await rewrapSecrets(await sealSecrets(tokens, keyring), keyring)).toBeNull();
+  });
+
+  it("requires a current key", async () => {
+    await expect(rewrapSecrets({ values: tokens, keyId: null, dataKey: null }, await loadKeyring()))
+      .rejects.toThrow(/TOKEN_ENCRYPTION_KEY/);
+  });
+});
+
+describe("getKeyring", () => {
+  const original = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...original };
+  });
+
+  it("follows TOKEN_ENCRYPTION_KEY and TOKEN_ENCRYPTION_PREVIOUS_KEYS", async () => {
+    process.env.TOKEN_ENCRYPTION_KEY = KEY_B;
+    process.env.TOKEN_ENCRYPTION_PREVIOUS_KEYS = KEY_A;
+    const keyring = await getKeyring();
+
+    expect(keyring.keys.size).toBe(2);
+    expect(keyring.current?.id).toBe((await loadKeyring(KEY_B)).current?.id);
+
+    delete process.env.TOKEN_ENCRYPTION_KEY;
+    delete process.env.TOKEN_ENCRYPTION_PREVIOUS_KEYS;
+    expect((await getKeyring()).current).toBeNull();
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Envelope encryption for credentials stored in the database.
+ *
+ * Each record gets its own random data key (AES-256-GCM) that encrypts its
+ * values; the data key itself is encrypted ("wrapped") with the key
+ * encryption key from TOKEN_ENCRYPTION_KEY. The record keeps the id of that
+ * key, so keys can be rotated: move the old key to
+ * TOKEN_ENCRYPTION_PREVIOUS_KEYS, set a new TOKEN_ENCRYPTION_KEY and rewrap
+ * the stored data keys (scripts/encrypt-strava-tokens.ts).
+ *
+ * Uses Web Crypto so it also runs on the Edge runtime. Like lib/auth/secret,
+ * it reads process.env directly for the same reason.
+ */
+
+const IV_BYTES = 12;
+const DATA_KEY_BYTES = 32;
+
+export class TokenEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TokenEncryptionError";
+  }
+}
+
+export interface EncryptionKey {
+  id: string;
+  key: CryptoKey;
+}
+
+export interface Keyring {
+  /** Key new records are sealed with; null stores them in plaintext */
+  current: EncryptionKey | null;
+  /** Current and previous keys by id, for opening older records */
+  keys: Map<string, EncryptionKey>;
+}
+
+/**
+ * Values of a record as stored: encrypted under `dataKey` unless `keyId`
+ * is null (written before encryption was configured)
+ */
+export interface SealedSecrets<K extends string> {
+  values: Record<K, string>;
+  keyId: string | null;
+  dataKey: string | null;
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  if (!/^[0-9a-f]{64}$/i.test(hex)) {
+    throw new TokenEncryptionError("Encryption keys must be 64 hex characters (32 bytes)");
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function importKey(raw: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+/** iv ‖ ciphertext (including the GCM tag), base64. `context` is bound as associated data. */
+async function encrypt(key: CryptoKey, plaintext: Uint8Array<ArrayBuffer>, context: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(context) },
+    key,
+    plaintext
+  );
+  const out = new Uint8Array(IV_BYTES + ciphertext.byteLength);
+  out.set(iv);
+  out.set(new Uint8Array(ciphertext), IV_BYTES);
+  return toBase64(out);
+}
+
+async function decrypt(key: CryptoKey, sealed: string, context: string): Promise<Uint8Array<ArrayBuffer>> {
+  const bytes = fromBase64(sealed);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: bytes.subarray(0, IV_BYTES), additionalData: new TextEncoder().encode(context) },
+      key,
+      bytes.subarray(IV_BYTES)
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    throw new TokenEncryptionError(`Failed to decrypt ${context}`);
+  }
+}
+
+/** Key id: first 8 bytes of the key's SHA-256, so no id has to be configured */
+async function loadKey(hex: string): Promise<EncryptionKey> {
+  const raw = fromHex(hex.trim());
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", raw));
+  const id = Array.from(digest.subarray(0, 8), (b) => b.toString(16).padStart(2, "0")).join("");
+  return { id, key: await importKey(raw) };
+}
+
+/**
+ * Build a keyring from the current key and a comma-separated list of
+ * previous keys (all 64 hex characters)
+ */
+export async function loadKeyring(current?: string, previous?: string): Promise<Keyring> {
+  const currentKey = current ? await loadKey(current) : null;
+  const previousKeys = await Promise.all(
+    (previous ?? "").split(",").filter((k) => k.trim()).map(loadKey)
+  );
+
+  const keys = new Map<string, EncryptionKey>();
+  for (const key of [...previousKeys, ...(currentKey ? [currentKey] : [])]) keys.set(key.id, key);
+  return { current: currentKey, keys };
+}
+
+let envKeyring: { source: string; keyring: Promise<Keyring> } | null = null;
+
+/** Keyring from TOKEN_ENCRYPTION_KEY and TOKEN_ENCRYPTION_PREVIOUS_KEYS */
+export function getKeyring(): Promise<Keyring> {
+  const current = process.env.TOKEN_ENCRYPTION_KEY;
+  const previous = process.env.TOKEN_ENCRYPTION_PREVIOUS_KEYS;
+  const source = `${current ?? ""}|${previous ?? ""}`;
+
+  if (envKeyring?.source !== source) {
+    envKeyring = { source, keyring: loadKeyring(current, previous) };
+  }
+  return envKeyring.keyring;
+}
+
+/**
+ * Encrypt a record's values under a fresh data key. Without a configured
+ * key the values are returned as they are (keyId null).
+ */
+export async function sealSecrets<K extends string>(
+  values: Record<K, string>,
+  keyring?: Keyring
+): Promise<SealedSecrets<K>> {
+  const { current } = keyring ?? (await getKeyring());
+  if (!current) return { values, keyId: null, dataKey: null };
+
+  const rawDataKey = crypto.getRandomValues(new Uint8Array(DATA_KEY_BYTES));
+  const dataKey = await importKey(rawDataKey);
+
+  const sealed = {} as Record<K, string>;
+  for (const name of Object.keys(values) as K[]) {
+    sealed[name] = await encrypt(dataKey, new TextEncoder().encode(values[name]), name);
+  }
+
+  return {
+    values: sealed,
+    keyId: current.id,
+    dataKey: await encrypt(current.key, rawDataKey, current.id),
+  };
+}
+
+async function unwrapDataKey(keyId: string, dataKey: string, keyring: Keyring): Promise<Uint8Array<ArrayBuffer>> {
+  const key = keyring.keys.get(keyId);
+  if (!key) {
+    throw new TokenEncryptionError(
+      `Record is encrypted with key ${keyId}, which is not configured (TOKEN_ENCRYPTION_KEY / TOKEN_ENCRYPTION_PREVIOUS_KEYS)`
+    );
+  }
+  return decrypt(key.key, dataKey, keyId);
+}
+
+/** Decrypt a record's values; plaintext records (keyId null) pass through */
+export async function openSecrets<K extends string>(
+  sealed: SealedSecrets<K>,
+  keyring?: Keyring
+): Promise<Record<K, string>> {
+  if (!sealed.keyId) return sealed.values;
+  if (!sealed.dataKey) throw new TokenEncryptionError(`Record encrypted with key ${sealed.keyId} has no data key`);
+
+  const ring = keyring ?? (await getKeyring());
+  const dataKey = await importKey(await unwrapDataKey(sealed.keyId, sealed.dataKey, ring));
+
+  const values = {} as Record<K, string>;
+  for (const name of Object.keys(sealed.values) as K[]) {
+    values[name] = new TextDecoder().decode(await decrypt(dataKey, sealed.values[name], name));
+  }
+  return values;
+}
+
+/**
+ * Bring a record under the current key: plaintext records are encrypted,
+ * records under a previous key get their data key rewrapped (the values
+ * themselves are unchanged). Returns null if nothing needs to change.
+ */
+export async function rewrapSecrets<K extends string>(
+  sealed: SealedSecrets<K>,
+  keyring?: Keyring
+): Promise<SealedSecrets<K> | null> {
+  const ring = keyring ?? (await getKeyring());
+  if (!ring.current) throw new TokenEncryptionError("TOKEN_ENCRYPTION_KEY is not configured");
+  if (sealed.keyId === ring.current.id) return null;
+  if (!sealed.keyId || !sealed.dataKey) return sealSecrets(sealed.values, ring);
+
+  const rawDataKey = await unwrapDataKey(sealed.keyId, sealed.dataKey, ring);
+  return {
+    values: sealed.values,
+    keyId: ring.current.id,
+    dataKey: await encrypt(ring.current.key, rawDataKey, ring.current.id),
+  };
+}
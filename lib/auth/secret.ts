@@ -30,6 +30,16 @@ export function hasValidSecret(req: Request): boolean {
   return false;
 }
 
+/**
+ * Returns true if the Request comes from Vercel Cron.
+ * Vercel sends `Authorization: Bearer <CRON_SECRET>` on scheduled invocations.
+ */
+export function hasValidCronSecret(req: Request): boolean {
+  const expected = process.env.CRON_SECRET;
+  const authorization = new Headers(req.headers).get("authorization");
+  return Boolean(expected && authorization === `Bearer ${expected}`);
+}
+
 /** Throws a 401 JSON response if secret is missing/invalid. */
 export function assertSecret(req: Request) {
   if (!hasValidSecret(req)) {
@@ -39,3 +49,10 @@ export function assertSecret(req: Request) {
     });
   }
 }
+
+/** Like assertSecret, but also accepts scheduled Vercel Cron invocations. */
+export function assertCronOrSecret(req: Request) {
+  if (!hasValidCronSecret(req)) {
+    assertSecret(req);
+  }
+}
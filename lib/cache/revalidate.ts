@@ -1,6 +1,7 @@
 import { revalidateTag as _revalidateTag, revalidatePath } from "next/cache";
 import { CACHE_TAGS } from "@/lib/constants/cache";
 import { PATHS } from "@/lib/constants/paths";
+import { nextBerlinDateKey } from "@/lib/time/berlin";
 
 // Type-safe wrapper for revalidateTag that works in edge runtime
 // Edge runtime doesn't support the second parameter properly despite TypeScript requiring it
@@ -22,8 +23,12 @@ export function revalidateDashboard() {
 /**
  * Revalidate coffee-specific dashboard caches
  * Call after coffee logging
+ *
+ * @param affectedDates - Berlin dates (YYYY-MM-DD) of edited or deleted entries.
+ *   Their summaries are invalidated, plus the caffeine curves of the same and
+ *   the following day (the curve carries caffeine over from the previous day).
  */
-export function revalidateCoffee() {
+export function revalidateCoffee(affectedDates: string[] = []) {
   // Get current date in Berlin timezone for specific cache invalidation
   const now = new Date();
   const berlinTime = new Date(now.toLocaleString('en-US', { timeZone: 'Europe/Berlin' }));
@@ -36,6 +41,15 @@ export function revalidateCoffee() {
   revalidateTag(`coffee:caffeine:${today}`); // Today's caffeine curve
   revalidateTag('coffee:caffeine'); // All caffeine curves
   revalidateTag('coffee:origins'); // Coffee origins (countries)
+  revalidateTag('coffee:forecast'); // Cutoff / bedtime forecasts
+  revalidateTag('coffee:calibration'); // Half-life calibration
+  revalidateTag('goals:progress'); // Coffee and caffeine goals
+
+  for (const date of new Set(affectedDates)) {
+    revalidateTag(`coffee:summary:${date}`);
+    revalidateTag(`coffee:caffeine:${date}`);
+    revalidateTag(`coffee:caffeine:${nextBerlinDateKey(date)}`);
+  }
 
   // Invalidate legacy dashboard caches for backward compatibility
   revalidateTag(CACHE_TAGS.COFFEE);
@@ -60,6 +74,7 @@ export function revalidateHabits() {
   revalidateTag('habits:consistency'); // All consistency variations (wildcard)
   revalidateTag('habits:streaks'); // Streaks data
   revalidateTag('habits:trends'); // All trends variations (wildcard)
+  revalidateTag('goals:progress'); // Goals on days columns and custom metrics
 
   // Invalidate legacy dashboard caches for backward compatibility
   revalidateTag(CACHE_TAGS.HABITS);
@@ -77,6 +92,11 @@ export function revalidateWorkouts() {
   revalidateTag('workouts:summary'); // All summary variations (wildcard)
   revalidateTag('workouts:heatmap'); // All heatmap variations (wildcard)
   revalidateTag('workouts:running'); // All running stats variations (wildcard)
+  revalidateTag('workouts:strength'); // Exercise volume and 1RM history
+  revalidateTag('workouts:recent'); // Recent workouts list
+  revalidateTag('workouts:load'); // Training load series
+  revalidateTag('workouts:detail'); // Workout detail views (streams may have been imported)
+  revalidateTag('goals:progress'); // Workout distance, duration and session goals
 
   // Invalidate legacy dashboard caches for backward compatibility
   revalidateTag(CACHE_TAGS.WORKOUTS);
@@ -118,6 +138,16 @@ export function revalidateGoals() {
   revalidatePath(PATHS.DASHBOARD, "page");
 }
 
+/**
+ * Revalidate insights caches
+ * Call after a new insight snapshot is stored
+ */
+export function revalidateInsights() {
+  revalidateTag('insights:correlations'); // Live correlation discovery
+  revalidateTag('insights:history'); // All pair history variations (wildcard)
+  revalidateTag('insights:changes'); // New / faded insights
+}
+
 /**
  * Revalidate countries-specific dashboard caches
  * Call when a new country is visited
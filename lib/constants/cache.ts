@@ -72,6 +72,8 @@ export const CACHE_KEYS = {
   HABITS_DATA: 'habits-data',
   /** Workouts dashboard data */
   WORKOUTS_DATA: 'workouts-data',
+  /** Correlations over public metrics, read by the chat */
+  CHAT_CORRELATIONS: 'chat-correlations',
 } as const;
 
 /**
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { BLOCKS, type Block, type Document } from '@contentful/rich-text-types';
+import { headingAnchors, nodeText, slugifyHeading } from './headings';
+
+const text = (value: string) => ({ nodeType: 'text', value, marks: [], data: {} });
+const heading = (nodeType: string, ...values: string[]) => ({ nodeType, data: {}, content: values.map(text) }) as Block;
+
+describe('slugifyHeading', () => {
+  it('joins lowercase words with dashes', () => {
+    expect(slugifyHeading('Warum Next.js?')).toBe('warum-next-js');
+    expect(slugifyHeading('  Lessons  learned ')).toBe('lessons-learned');
+  });
+
+  it('removes accents', () => {
+    expect(slugifyHeading('Größe & Über')).toBe('grosse-uber');
+  });
+
+  it('falls back for headings without letters or digits', () => {
+    expect(slugifyHeading('🚀')).toBe('section');
+  });
+});
+
+describe('nodeText', () => {
+  it('joins the text of all children', () => {
+    expect(nodeText(heading(BLOCKS.HEADING_2, 'Composable ', 'Commerce'))).toBe('Composable Commerce');
+  });
+});
+
+describe('headingAnchors', () => {
+  it('gives every heading a unique anchor in document order', () => {
+    const first = heading(BLOCKS.HEADING_2, 'Setup');
+    const second = heading(BLOCKS.HEADING_3, 'Setup');
+    const other = heading(BLOCKS.HEADING_2, 'Results');
+    const paragraph = heading(BLOCKS.PARAGRAPH, 'Setup');
+    const document = { nodeType: BLOCKS.DOCUMENT, data: {}, content: [first, paragraph, second, other] } as unknown as Document;
+
+    const anchors = headingAnchors(document);
+
+    expect(anchors.get(first)).toBe('setup');
+    expect(anchors.get(second)).toBe('setup-2');
+    expect(anchors.get(other)).toBe('results');
+    expect(anchors.has(paragraph)).toBe(false);
+  });
+});
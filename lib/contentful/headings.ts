@@ -0,0 +1,61 @@
+import { BLOCKS, type Block, type Document, type Inline, type Text } from '@contentful/rich-text-types';
+
+/**
+ * Heading anchors for rich-text documents, shared by the blog renderer (heading
+ * ids) and the AI chat indexer (deep links to /blog/[slug]#anchor), so both
+ * derive the same anchor for a heading.
+ */
+
+export const HEADING_LEVELS: Record<string, number> = {
+  [BLOCKS.HEADING_1]: 1,
+  [BLOCKS.HEADING_2]: 2,
+  [BLOCKS.HEADING_3]: 3,
+  [BLOCKS.HEADING_4]: 4,
+  [BLOCKS.HEADING_5]: 5,
+  [BLOCKS.HEADING_6]: 6,
+};
+
+type RichTextNode = Block | Inline | Text;
+
+/**
+ * Plain text of a node and its children
+ */
+export function nodeText(node: RichTextNode): string {
+  if (node.nodeType === 'text') return (node as Text).value;
+  return (node as Block | Inline).content.map((child) => nodeText(child as RichTextNode)).join('');
+}
+
+/**
+ * URL fragment for a heading: lowercase words joined by dashes, accents removed
+ * ("Warum Next.js?" -> "warum-next-js")
+ */
+export function slugifyHeading(text: string): string {
+  const slug = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'section';
+}
+
+/**
+ * Anchor of every heading in a document, in document order. Repeated headings
+ * get a numeric suffix ("setup", "setup-2") so every anchor is unique.
+ */
+export function headingAnchors(document: Document): Map<Block, string> {
+  const anchors = new Map<Block, string>();
+  const seen = new Map<string, number>();
+
+  for (const node of document.content) {
+    if (!(node.nodeType in HEADING_LEVELS)) continue;
+
+    const base = slugifyHeading(nodeText(node));
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    anchors.set(node, count === 1 ? base : `${base}-${count}`);
+  }
+
+  return anchors;
+}
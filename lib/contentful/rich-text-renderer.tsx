@@ -1,9 +1,10 @@
 import { Options } from '@contentful/rich-text-react-renderer';
-import { BLOCKS, INLINES, Block, Inline } from '@contentful/rich-text-types';
+import { BLOCKS, INLINES, Block, Inline, Document } from '@contentful/rich-text-types';
 import Link from 'next/link';
 import SyntaxHighlighter from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import { LightboxImage } from '@/components/blog/lightbox-image';
+import { headingAnchors } from './headings';
 
 /**
  * Type definitions for Contentful rich-text content
@@ -91,13 +92,17 @@ export const PAGE_STYLES: RichTextStyleConfig = {
  * Creates rich-text rendering options for Contentful content
  * @param links - Contentful links object containing assets and entries
  * @param styles - Custom style configuration
- * @param options - Additional options for rendering
+ * @param options - Additional options for rendering; pass the rendered `document`
+ *   to give headings anchor ids (see lib/contentful/headings.ts)
  */
 export function createRichTextOptions(
   links: ContentfulLinks,
   styles: RichTextStyleConfig = BLOG_ARTICLE_STYLES,
-  options: { enableCodeSnippets?: boolean } = { enableCodeSnippets: true }
+  options: { enableCodeSnippets?: boolean; document?: Document } = { enableCodeSnippets: true }
 ): Options {
+  // Heading ids, so sections can be linked to (/blog/[slug]#anchor)
+  const anchors = options.document ? headingAnchors(options.document) : new Map<Block, string>();
+
   // Create an asset map for quick lookups
   const assetMap = new Map<string, ContentfulAsset>();
   if (links?.assets?.block) {
@@ -108,22 +113,22 @@ export function createRichTextOptions(
 
   const renderNode: Options['renderNode'] = {
     [BLOCKS.HEADING_1]: (node: Block | Inline, children: React.ReactNode) => {
-      return <h1 className={styles.heading1}>{children}</h1>;
+      return <h1 id={anchors.get(node as Block)} className={styles.heading1}>{children}</h1>;
     },
     [BLOCKS.HEADING_2]: (node: Block | Inline, children: React.ReactNode) => {
-      return <h2 className={styles.heading2}>{children}</h2>;
+      return <h2 id={anchors.get(node as Block)} className={styles.heading2}>{children}</h2>;
     },
     [BLOCKS.HEADING_3]: (node: Block | Inline, children: React.ReactNode) => {
-      return <h3 className={styles.heading3}>{children}</h3>;
+      return <h3 id={anchors.get(node as Block)} className={styles.heading3}>{children}</h3>;
     },
     [BLOCKS.HEADING_4]: (node: Block | Inline, children: React.ReactNode) => {
-      return <h4 className={styles.heading4}>{children}</h4>;
+      return <h4 id={anchors.get(node as Block)} className={styles.heading4}>{children}</h4>;
     },
     [BLOCKS.HEADING_5]: (node: Block | Inline, children: React.ReactNode) => {
-      return <h5 className={styles.heading5}>{children}</h5>;
+      return <h5 id={anchors.get(node as Block)} className={styles.heading5}>{children}</h5>;
     },
     [BLOCKS.HEADING_6]: (node: Block | Inline, children: React.ReactNode) => {
-      return <h6 className={styles.heading6}>{children}</h6>;
+      return <h6 id={anchors.get(node as Block)} className={styles.heading6}>{children}</h6>;
     },
     [BLOCKS.PARAGRAPH]: (node: Block | Inline, children: React.ReactNode) => {
       return <p className={styles.paragraph}>{children}</p>;
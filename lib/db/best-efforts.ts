@@ -0,0 +1,53 @@
+/**
+ * Database queries for workout_best_efforts table
+ * Fastest time per standard distance within each run
+ */
+
+import { sql } from "./client";
+import type { BestEffort, BestEffortRecord, RaceDistance } from "@/lib/phys/best-efforts";
+
+export type BestEffortSource = "strava" | "streams";
+
+/**
+ * Store the best efforts of a workout. Efforts computed from streams do not
+ * replace the ones Strava reported for the same distance.
+ */
+export async function saveBestEffortsDB(
+  workoutId: number,
+  efforts: BestEffort[],
+  source: BestEffortSource
+): Promise<void> {
+  for (const effort of efforts) {
+    await sql/*sql*/`
+      INSERT INTO workout_best_efforts (workout_id, distance, elapsed_s, start_offset_s, source)
+      VALUES (${workoutId}, ${effort.distance}, ${effort.elapsed_s}, ${effort.start_offset_s}, ${source})
+      ON CONFLICT (workout_id, distance) DO UPDATE SET
+        elapsed_s = EXCLUDED.elapsed_s,
+        start_offset_s = EXCLUDED.start_offset_s,
+        source = EXCLUDED.source,
+        created_at = now()
+      WHERE EXCLUDED.source = 'strava' OR workout_best_efforts.source = 'streams'
+    `;
+  }
+}
+
+/**
+ * All best efforts of running workouts, oldest first
+ */
+export async function getRunningBestEffortsDB(): Promise<Array<BestEffortRecord & { source: BestEffortSource }>> {
+  const rows = await sql/*sql*/`
+    SELECT e.workout_id, e.distance, e.elapsed_s, e.source, w.date::text AS date
+    FROM workout_best_efforts e
+    JOIN workouts w ON w.id = e.workout_id
+    WHERE w.workout_type = 'running'
+    ORDER BY w.date, e.workout_id
+  `;
+
+  return rows.map((r) => ({
+    workout_id: Number(r.workout_id),
+    distance: r.distance as RaceDistance,
+    elapsed_s: Number(r.elapsed_s),
+    source: r.source as BestEffortSource,
+    date: String(r.date),
+  }));
+}
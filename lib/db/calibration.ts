@@ -0,0 +1,67 @@
+import { qCoffeeInRange, qSleepVsFocusScatter } from "@/lib/db/queries";
+import { getBodyProfileDB, upsertBodyProfileDB } from "@/lib/db/profile";
+import { getBodyProfile } from "@/lib/user/profile";
+import { startOfBerlinDayISO } from "@/lib/time/berlin";
+import { calibrateHalfLife, type CalibrationResult } from "@/lib/phys/calibration";
+
+// Longest half-life searched is 12 h; 4 half-lives of lookback covers it
+const LOOKBACK_HOURS = 48;
+
+/**
+ * Fit half-life (and optionally sensitivity) against the last `days` nights of
+ * sleep scores, using residual caffeine at Berlin midnight like the
+ * sleep-quality dashboard does.
+ */
+export async function getHalfLifeCalibrationDB(
+  days: number,
+  fitSensitivity = false
+): Promise<CalibrationResult & { days: number }> {
+  const [body, sleepRows] = await Promise.all([
+    getBodyProfile(),
+    qSleepVsFocusScatter(days),
+  ]);
+
+  const nights = sleepRows.map((row) => ({
+    date: row.date,
+    sleep_score: row.sleep_score,
+    atMs: Date.parse(startOfBerlinDayISO(new Date(`${row.date}T00:00:00.000Z`))),
+  }));
+
+  const firstMs = nights.length ? Math.min(...nights.map((n) => n.atMs)) : Date.now();
+  const lastMs = nights.length ? Math.max(...nights.map((n) => n.atMs)) : Date.now();
+  const coffee = await qCoffeeInRange(
+    new Date(firstMs - LOOKBACK_HOURS * 3600_000).toISOString(),
+    new Date(lastMs).toISOString()
+  );
+  const events = coffee.map((c) => ({ timeISO: c.time, type: c.type, amount_ml: c.amount_ml }));
+
+  return { days, ...calibrateHalfLife(nights, events, body, { fitSensitivity }) };
+}
+
+/**
+ * Store a calibration suggestion as a new body_profile row.
+ * Every other field is carried over from the current profile.
+ */
+export async function acceptHalfLifeCalibrationDB(result: CalibrationResult & { days: number }) {
+  if (result.status !== "ok" || result.half_life_hours === null) {
+    throw new Error("Calibration has no suggestion to accept");
+  }
+
+  const current = await getBodyProfileDB();
+  const ci = result.half_life_ci95;
+
+  return upsertBodyProfileDB({
+    weight_kg: current.weight_kg,
+    height_cm: current.height_cm ?? undefined,
+    body_fat_percentage: current.body_fat_percentage ?? undefined,
+    muscle_percentage: current.muscle_percentage ?? undefined,
+    vd_l_per_kg: current.vd_l_per_kg ?? undefined,
+    half_life_hours: result.half_life_hours,
+    caffeine_sensitivity: result.caffeine_sensitivity ?? current.caffeine_sensitivity ?? undefined,
+    bioavailability: current.bioavailability ?? undefined,
+    age: current.age ?? undefined,
+    sex: (current.sex as "male" | "female" | "other" | null) ?? undefined,
+    notes: `Calibrated from ${result.n} nights of sleep data (last ${result.days} days)` +
+      (ci ? `, half-life 95% CI ${ci[0]}–${ci[1]} h` : ""),
+  });
+}
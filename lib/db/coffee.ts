@@ -0,0 +1,96 @@
+import { sql } from "@/lib/db/client";
+
+export interface CoffeeLogRow {
+  id: number;
+  date: string; // YYYY-MM-DD
+  time: string; // UTC ISO
+  type: string;
+  amount_ml: number | null;
+  coffee_cf_id: string | null;
+  created_at: string;
+}
+
+interface RawCoffeeLogRow {
+  id: number | string;
+  date: string;
+  time: Date | string;
+  type: string;
+  amount_ml: number | string | null;
+  coffee_cf_id: string | null;
+  created_at: Date | string;
+}
+
+function toCoffeeLogRow(r: RawCoffeeLogRow): CoffeeLogRow {
+  return {
+    id: Number(r.id),
+    date: String(r.date),
+    time: new Date(r.time).toISOString(),
+    type: String(r.type),
+    amount_ml: r.amount_ml === null ? null : Number(r.amount_ml),
+    coffee_cf_id: r.coffee_cf_id === null ? null : String(r.coffee_cf_id),
+    created_at: new Date(r.created_at).toISOString(),
+  };
+}
+
+/**
+ * Get all coffee log entries for a Berlin calendar date (oldest first)
+ */
+export async function getCoffeeLogByDateDB(date: string): Promise<CoffeeLogRow[]> {
+  const rows = await sql/*sql*/`
+    SELECT id, to_char(date,'YYYY-MM-DD') as date, time, type::text as type,
+           amount_ml, coffee_cf_id, created_at
+    FROM coffee_log
+    WHERE date = ${date}::date
+    ORDER BY time ASC, id ASC
+  `;
+  return rows.map((r) => toCoffeeLogRow(r as RawCoffeeLogRow));
+}
+
+/**
+ * Get a single coffee log entry, or null if it does not exist
+ */
+export async function getCoffeeLogByIdDB(id: number): Promise<CoffeeLogRow | null> {
+  const rows = await sql/*sql*/`
+    SELECT id, to_char(date,'YYYY-MM-DD') as date, time, type::text as type,
+           amount_ml, coffee_cf_id, created_at
+    FROM coffee_log
+    WHERE id = ${id}
+    LIMIT 1
+  `;
+  return rows[0] ? toCoffeeLogRow(rows[0] as RawCoffeeLogRow) : null;
+}
+
+/**
+ * Overwrite the editable fields of a coffee log entry.
+ * Callers merge partial updates with the existing row first.
+ */
+export async function updateCoffeeLogDB(
+  id: number,
+  entry: Pick<CoffeeLogRow, "date" | "time" | "type" | "amount_ml" | "coffee_cf_id">
+): Promise<CoffeeLogRow | null> {
+  const rows = await sql/*sql*/`
+    UPDATE coffee_log
+    SET date = ${entry.date}::date,
+        time = ${entry.time}::timestamptz,
+        type = ${entry.type}::coffee_type,
+        amount_ml = ${entry.amount_ml}::integer,
+        coffee_cf_id = ${entry.coffee_cf_id}::text
+    WHERE id = ${id}
+    RETURNING id, to_char(date,'YYYY-MM-DD') as date, time, type::text as type,
+              amount_ml, coffee_cf_id, created_at
+  `;
+  return rows[0] ? toCoffeeLogRow(rows[0] as RawCoffeeLogRow) : null;
+}
+
+/**
+ * Delete a coffee log entry, returning the removed row (null if it did not exist)
+ */
+export async function deleteCoffeeLogDB(id: number): Promise<CoffeeLogRow | null> {
+  const rows = await sql/*sql*/`
+    DELETE FROM coffee_log
+    WHERE id = ${id}
+    RETURNING id, to_char(date,'YYYY-MM-DD') as date, time, type::text as type,
+              amount_ml, coffee_cf_id, created_at
+  `;
+  return rows[0] ? toCoffeeLogRow(rows[0] as RawCoffeeLogRow) : null;
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { validateCustomValues } from './custom-metrics';
+import { ZCustomMetricUpsert, type CustomMetric } from './validation';
+
+const base = { unit: null, scale_min: null, scale_max: null, description: null, archived: false };
+
+const metrics: CustomMetric[] = [
+  { ...base, id: 1, key: 'alcohol_units', name: 'Alcohol', unit: 'units', type: 'numeric', aggregation: 'sum' },
+  { ...base, id: 2, key: 'meditated', name: 'Meditation', type: 'boolean', aggregation: 'max' },
+  { ...base, id: 3, key: 'soreness', name: 'Soreness', type: 'scale', scale_min: 1, scale_max: 5, aggregation: 'last' },
+  { ...base, id: 4, key: 'old_metric', name: 'Old', type: 'numeric', aggregation: 'last', archived: true },
+];
+
+describe('validateCustomValues', () => {
+  it('accepts values matching each metric type', () => {
+    expect(
+      validateCustomValues({ alcohol_units: 2.5, meditated: false, soreness: 3 }, metrics, 'set')
+    ).toEqual({});
+  });
+
+  it('rejects unknown and archived metrics', () => {
+    const errors = validateCustomValues({ nope: 1, old_metric: 1 }, metrics, 'set');
+    expect(Object.keys(errors).sort()).toEqual(['nope', 'old_metric']);
+  });
+
+  it('rejects values of the wrong type', () => {
+    const errors = validateCustomValues({ alcohol_units: true, meditated: 1 }, metrics, 'set');
+    expect(errors.alcohol_units).toBe('Expected a number');
+    expect(errors.meditated).toBe('Expected true or false');
+  });
+
+  it('keeps scale values whole and in range', () => {
+    expect(validateCustomValues({ soreness: 6 }, metrics, 'set').soreness).toMatch(/1 to 5/);
+    expect(validateCustomValues({ soreness: 2.5 }, metrics, 'set').soreness).toBeDefined();
+    expect(validateCustomValues({ soreness: 5 }, metrics, 'set')).toEqual({});
+  });
+
+  it('allows null to clear a value, but not when logging', () => {
+    expect(validateCustomValues({ alcohol_units: null }, metrics, 'set')).toEqual({});
+    expect(validateCustomValues({ alcohol_units: null }, metrics, 'log').alcohol_units).toBe(
+      'A value is required'
+    );
+  });
+});
+
+describe('ZCustomMetricUpsert', () => {
+  it('defaults aggregation to last', () => {
+    const result = ZCustomMetricUpsert.parse({ key: 'meditated', name: 'Meditation', type: 'boolean' });
+    expect(result.aggregation).toBe('last');
+  });
+
+  it('rejects keys that are not snake_case', () => {
+    expect(ZCustomMetricUpsert.safeParse({ key: 'Alcohol Units', name: 'Alcohol', type: 'numeric' }).success).toBe(false);
+  });
+
+  it('requires a range for scale metrics', () => {
+    expect(ZCustomMetricUpsert.safeParse({ key: 'soreness', name: 'Soreness', type: 'scale' }).success).toBe(false);
+    expect(
+      ZCustomMetricUpsert.safeParse({ key: 'soreness', name: 'Soreness', type: 'scale', scale_min: 1, scale_max: 5 }).success
+    ).toBe(true);
+  });
+
+  it('only allows summing numeric metrics', () => {
+    expect(
+      ZCustomMetricUpsert.safeParse({ key: 'meditated', name: 'Meditation', type: 'boolean', aggregation: 'sum' }).success
+    ).toBe(false);
+  });
+});
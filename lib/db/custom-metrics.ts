@@ -0,0 +1,158 @@
+/**
+ * Database queries for the custom_metrics registry
+ * Values of custom metrics are stored per day in days.extras under the metric key
+ */
+
+import { sql } from "./client";
+import { ZCustomMetric, type CustomMetric, type CustomMetricUpsert } from "./validation";
+
+type CustomValue = number | boolean | null;
+
+function normalize(row: Record<string, unknown>): CustomMetric {
+  return ZCustomMetric.parse({
+    ...row,
+    id: Number(row.id),
+    scale_min: row.scale_min === null ? null : Number(row.scale_min),
+    scale_max: row.scale_max === null ? null : Number(row.scale_max),
+  });
+}
+
+/**
+ * Registered custom metrics, by name
+ */
+export async function listCustomMetricsDB(
+  options: { includeArchived?: boolean } = {}
+): Promise<CustomMetric[]> {
+  const includeArchived = options.includeArchived ?? false;
+  const rows = await sql/*sql*/`
+    SELECT id, key, name, unit, type, scale_min, scale_max, aggregation, description, archived
+    FROM custom_metrics
+    WHERE ${includeArchived} OR NOT archived
+    ORDER BY name ASC
+  `;
+  return rows.map(normalize);
+}
+
+/**
+ * Create a metric or update its presentation and aggregation (un-archives it).
+ * The type of an existing metric cannot change, since stored values would no
+ * longer match it; returns null in that case.
+ */
+export async function upsertCustomMetricDB(input: CustomMetricUpsert): Promise<CustomMetric | null> {
+  const isScale = input.type === "scale";
+  const rows = await sql/*sql*/`
+    INSERT INTO custom_metrics (key, name, unit, type, scale_min, scale_max, aggregation, description)
+    VALUES (
+      ${input.key},
+      ${input.name},
+      ${input.unit ?? null},
+      ${input.type},
+      ${isScale ? input.scale_min ?? null : null}::smallint,
+      ${isScale ? input.scale_max ?? null : null}::smallint,
+      ${input.aggregation},
+      ${input.description ?? null}
+    )
+    ON CONFLICT (key) DO UPDATE SET
+      name = EXCLUDED.name,
+      unit = EXCLUDED.unit,
+      scale_min = EXCLUDED.scale_min,
+      scale_max = EXCLUDED.scale_max,
+      aggregation = EXCLUDED.aggregation,
+      description = EXCLUDED.description,
+      archived = false,
+      updated_at = now()
+    WHERE custom_metrics.type = EXCLUDED.type
+    RETURNING id, key, name, unit, type, scale_min, scale_max, aggregation, description, archived
+  `;
+  return rows[0] ? normalize(rows[0]) : null;
+}
+
+/**
+ * Hide a metric from logging and analysis; its stored values are kept
+ */
+export async function archiveCustomMetricDB(key: string): Promise<boolean> {
+  const rows = await sql/*sql*/`
+    UPDATE custom_metrics
+    SET archived = true, updated_at = now()
+    WHERE key = ${key} AND NOT archived
+    RETURNING id
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Combine logged values with the day's stored values using each metric's
+ * aggregation (sum adds, max/min keep the larger/smaller, last replaces).
+ * The day row must already exist.
+ */
+export async function logCustomValuesDB(
+  date: string,
+  values: Record<string, number | boolean>
+): Promise<void> {
+  await sql/*sql*/`
+    UPDATE days d
+    SET extras = COALESCE(d.extras, '{}'::jsonb) || COALESCE((
+      SELECT jsonb_object_agg(
+        l.key,
+        CASE m.aggregation
+          WHEN 'sum' THEN to_jsonb(COALESCE((d.extras->>l.key)::numeric, 0) + (l.value #>> '{}')::numeric)
+          WHEN 'max' THEN GREATEST(COALESCE(d.extras->l.key, l.value), l.value)
+          WHEN 'min' THEN LEAST(COALESCE(d.extras->l.key, l.value), l.value)
+          ELSE l.value
+        END
+      )
+      FROM jsonb_each(${JSON.stringify(values)}::jsonb) AS l(key, value)
+      JOIN custom_metrics m ON m.key = l.key
+    ), '{}'::jsonb),
+    updated_at = now()
+    WHERE d.date = ${date}::date
+  `;
+}
+
+/**
+ * Check submitted custom values against the registry.
+ * Returns an error message per offending key (empty when everything is valid).
+ * @param mode "set" allows null (clears the value); "log" requires a value
+ */
+export function validateCustomValues(
+  values: Record<string, CustomValue>,
+  metrics: CustomMetric[],
+  mode: "set" | "log"
+): Record<string, string> {
+  const byKey = new Map(metrics.filter((m) => !m.archived).map((m) => [m.key, m]));
+  const errors: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(values)) {
+    const metric = byKey.get(key);
+    if (!metric) {
+      errors[key] = "Unknown custom metric";
+      continue;
+    }
+
+    if (value === null) {
+      if (mode === "log") errors[key] = "A value is required";
+      continue;
+    }
+
+    switch (metric.type) {
+      case "boolean":
+        if (typeof value !== "boolean") errors[key] = "Expected true or false";
+        break;
+      case "numeric":
+        if (typeof value !== "number" || !Number.isFinite(value)) errors[key] = "Expected a number";
+        break;
+      case "scale":
+        if (
+          typeof value !== "number" ||
+          !Number.isInteger(value) ||
+          value < (metric.scale_min ?? -Infinity) ||
+          value > (metric.scale_max ?? Infinity)
+        ) {
+          errors[key] = `Expected a whole number from ${metric.scale_min} to ${metric.scale_max}`;
+        }
+        break;
+    }
+  }
+
+  return errors;
+}
@@ -53,6 +53,7 @@ export const getCoffeeDashboardData = unstable_cache(
       alignToHour: true, // Align grid points to Berlin hour boundaries
       gridMinutes: 60,
       halfLifeHours: body.half_life_hours ?? undefined,
+      absorption: "first-order",
     });
 
     return {
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const sqlMock = vi.hoisted(() => vi.fn());
+
+vi.mock('@neondatabase/serverless', () => ({
+  neon: () => sqlMock,
+}));
+
+import { retrieveRelevantContext } from './embeddings';
+
+const row = (id: number, slug: string, embedding: number[]) => ({
+  id,
+  content: `chunk ${id}`,
+  metadata: { source: 'blog', slug, title: slug, url: `https://cr0ss.org/blog/${slug}` },
+  embedding: JSON.stringify(embedding),
+});
+
+const queryText = (call: unknown[]) => (call[0] as string[]).join('?');
+
+describe('retrieveRelevantContext', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.DATABASE_URL = 'postgres://test';
+  });
+
+  it('fuses vector and full-text matches by rank', async () => {
+    sqlMock
+      .mockResolvedValueOnce([row(1, 'a', [1, 0]), row(2, 'b', [0.8, 0.6])])
+      .mockResolvedValueOnce([row(3, 'c', [0, 1]), row(2, 'b', [0.8, 0.6])]);
+
+    const results = await retrieveRelevantContext({ text: 'commercetools', embedding: [1, 0] }, { limit: 3 });
+
+    // Found by both searches, so first
+    expect(results.map((r) => r.metadata.slug)).toEqual(['b', 'a', 'c']);
+    expect(results[0].similarity).toBeCloseTo(0.8);
+    expect(results[0].score).toBeCloseTo(1 / 62 + 1 / 62);
+    expect(results[2].similarity).toBe(0);
+
+    expect(queryText(sqlMock.mock.calls[0])).toContain('<=>');
+    expect(queryText(sqlMock.mock.calls[1])).toContain('plainto_tsquery');
+    expect(sqlMock.mock.calls[1]).toContain('commercetools');
+  });
+
+  it('diversifies results across posts with MMR', async () => {
+    sqlMock
+      .mockResolvedValueOnce([row(1, 'a', [1, 0]), row(2, 'a', [0.99, 0.05]), row(3, 'b', [0.6, 0.8])])
+      .mockResolvedValueOnce([]);
+
+    const results = await retrieveRelevantContext(
+      { text: 'question', embedding: [1, 0] },
+      { limit: 2, mmrLambda: 0.5 }
+    );
+
+    expect(results.map((r) => r.metadata.slug)).toEqual(['a', 'b']);
+  });
+
+  it('searches full text only in lexical mode', async () => {
+    sqlMock.mockResolvedValueOnce([row(4, 'd', [1, 0])]);
+
+    const results = await retrieveRelevantContext({ text: 'Vercel' }, { mode: 'lexical' });
+
+    expect(sqlMock).toHaveBeenCalledTimes(1);
+    expect(results).toHaveLength(1);
+    expect(results[0].similarity).toBe(0);
+  });
+
+  it('needs an embedding for vector search', async () => {
+    await expect(retrieveRelevantContext({ text: 'question' })).rejects.toThrow('embedding');
+    expect(sqlMock).not.toHaveBeenCalled();
+  });
+});
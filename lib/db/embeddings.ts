@@ -1,6 +1,7 @@
 import { neon } from "@neondatabase/serverless";
 import { z } from "zod";
 import { ZRetrievalResult, type EmbeddingMetadata, type RetrievalResult } from "./models";
+import { cosineSimilarity, maximalMarginalRelevance, reciprocalRankFusion } from "../ai/ranking";
 
 // Lazy-load SQL connection to allow environment variables to be set first
 let sql: ReturnType<typeof neon> | null = null;
@@ -70,37 +71,135 @@ export async function insertEmbeddingsBatch(
   return results.map(r => Number(r.id));
 }
 
-/**
- * Retrieve relevant content using vector similarity search
- */
-interface ResultRow {
+export type RetrievalMode = "hybrid" | "vector" | "lexical";
+
+export interface RetrievalOptions {
+  /** Number of results */
+  limit?: number;
+  /**
+   * Cosine similarity floor for vector matches (lexical matches are kept
+   * regardless); defaults to 0.15, tuned with the retrieval eval
+   */
+  minSimilarity?: number;
+  /** hybrid fuses full-text and vector search; vector and lexical use one of them */
+  mode?: RetrievalMode;
+  /** Diversify results with MMR at this lambda (1 = relevance only); off when unset */
+  mmrLambda?: number;
+  /** Matches taken from each search before fusion */
+  candidates?: number;
+}
+
+interface CandidateRow {
+  id: number;
   content: string;
   metadata: unknown;
-  similarity: number;
+  embedding: string;
 }
 
-export async function retrieveRelevantContext(
+interface Candidate {
+  id: number;
+  content: string;
+  metadata: unknown;
+  embedding: number[];
+}
+
+function toCandidate(row: CandidateRow): Candidate {
+  return {
+    id: Number(row.id),
+    content: row.content,
+    metadata: row.metadata,
+    // pgvector text format is a JSON array
+    embedding: JSON.parse(row.embedding) as number[],
+  };
+}
+
+/**
+ * Chunks closest to the question embedding, best first
+ */
+async function searchByVector(
   queryEmbedding: number[],
-  limit: number = 5,
-  minSimilarity: number = 0.5
-): Promise<RetrievalResult[]> {
+  limit: number,
+  minSimilarity: number
+): Promise<Candidate[]> {
   const sql = getSQL();
+  const vector = JSON.stringify(queryEmbedding);
   const rows = (await sql`
-    SELECT
-      content,
-      metadata,
-      1 - (embedding <=> ${JSON.stringify(queryEmbedding)}::vector) as similarity
+    SELECT id, content, metadata, embedding::text AS embedding
     FROM chat_embeddings
-    WHERE 1 - (embedding <=> ${JSON.stringify(queryEmbedding)}::vector) >= ${minSimilarity}
-    ORDER BY embedding <=> ${JSON.stringify(queryEmbedding)}::vector
+    WHERE 1 - (embedding <=> ${vector}::vector) >= ${minSimilarity}
+    ORDER BY embedding <=> ${vector}::vector
     LIMIT ${limit}
-  `) as ResultRow[];
+  `) as CandidateRow[];
+  return rows.map(toCandidate);
+}
+
+/**
+ * Chunks matching any term of the question (full-text search), best first.
+ * Terms are OR-ed so a single exact name, like a project or tool, is enough to match.
+ */
+async function searchByText(text: string, limit: number): Promise<Candidate[]> {
+  const sql = getSQL();
+  const rows = (await sql`
+    WITH q AS (
+      SELECT replace(plainto_tsquery('english', ${text})::text, '&', '|')::tsquery AS query
+    )
+    SELECT id, content, metadata, embedding::text AS embedding
+    FROM chat_embeddings, q
+    WHERE content_tsv @@ q.query
+    ORDER BY ts_rank_cd(content_tsv, q.query) DESC, id
+    LIMIT ${limit}
+  `) as CandidateRow[];
+  return rows.map(toCandidate);
+}
+
+/**
+ * Retrieve relevant content for a question
+ *
+ * Hybrid (default): full-text and vector matches fused by reciprocal rank, so
+ * exact terms the embedding misses still surface. With mmrLambda set, results
+ * are diversified so they don't all come from one post.
+ */
+export async function retrieveRelevantContext(
+  query: { text: string; embedding?: number[] },
+  options: RetrievalOptions = {}
+): Promise<RetrievalResult[]> {
+  const {
+    limit = 5,
+    minSimilarity = 0.15,
+    mode = "hybrid",
+    mmrLambda,
+    candidates = Math.max(limit * 4, 20),
+  } = options;
+
+  if (mode !== "lexical" && !query.embedding) {
+    throw new Error(`${mode} retrieval needs a question embedding`);
+  }
+
+  const [vectorMatches, textMatches] = await Promise.all([
+    mode === "lexical" ? [] : searchByVector(query.embedding!, candidates, minSimilarity),
+    mode === "vector" ? [] : searchByText(query.text, candidates),
+  ]);
+
+  const byId = new Map<number, Candidate>();
+  for (const candidate of [...vectorMatches, ...textMatches]) byId.set(candidate.id, candidate);
+
+  const fused = reciprocalRankFusion([
+    vectorMatches.map((c) => c.id),
+    textMatches.map((c) => c.id),
+  ]).map(({ id, score }) => ({ ...byId.get(id)!, score }));
+
+  const ranked =
+    mmrLambda === undefined
+      ? fused.slice(0, limit)
+      : maximalMarginalRelevance(fused, limit, mmrLambda);
 
-  return rows.map((row) => {
+  return ranked.map((candidate) => {
+    const similarity = query.embedding ? cosineSimilarity(query.embedding, candidate.embedding) : 0;
     return ZRetrievalResult.parse({
-      content: row.content,
-      metadata: row.metadata,
-      similarity: Number(row.similarity),
+      content: candidate.content,
+      metadata: candidate.metadata,
+      similarity: Math.min(1, Math.max(0, similarity)),
+      score: candidate.score,
     });
   });
 }
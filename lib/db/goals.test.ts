@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { describeGoalMetric, goalProgress, goalsInEffect } from './goals';
+import { parseGoalMetric, type CustomMetric } from './validation';
+
+const custom = (overrides: Partial<CustomMetric>): CustomMetric => ({
+  id: 1,
+  key: 'alcohol_units',
+  name: 'Alcohol',
+  unit: 'units',
+  type: 'numeric',
+  scale_min: null,
+  scale_max: null,
+  aggregation: 'sum',
+  description: null,
+  archived: false,
+  ...overrides,
+});
+
+describe('parseGoalMetric', () => {
+  it('reads days columns, including the original goal kinds', () => {
+    expect(parseGoalMetric('steps')).toEqual({ source: 'days', column: 'steps' });
+    expect(parseGoalMetric('sleep_score')).toEqual({ source: 'days', column: 'sleep_score' });
+  });
+
+  it('reads running_distance_km as running workout distance', () => {
+    expect(parseGoalMetric('running_distance_km')).toEqual(parseGoalMetric('workout:running:distance_km'));
+  });
+
+  it('reads workout, coffee and custom metrics', () => {
+    expect(parseGoalMetric('workout:climbing:sessions')).toEqual({
+      source: 'workout',
+      workout_type: 'climbing',
+      field: 'sessions',
+    });
+    expect(parseGoalMetric('coffee:caffeine_mg')).toEqual({ source: 'coffee', field: 'caffeine_mg' });
+    expect(parseGoalMetric('custom:alcohol_units')).toEqual({ source: 'custom', key: 'alcohol_units' });
+  });
+
+  it('rejects unknown and malformed references', () => {
+    for (const ref of ['date', 'extras', 'workout:running', 'workout:swimming:sessions', 'coffee:cups:x', 'custom:', 'foo:bar']) {
+      expect(parseGoalMetric(ref)).toBeNull();
+    }
+  });
+});
+
+describe('describeGoalMetric', () => {
+  it('names built-in metrics', () => {
+    expect(describeGoalMetric(parseGoalMetric('reading_minutes')!)).toEqual({ label: 'Reading', unit: 'minutes' });
+    expect(describeGoalMetric(parseGoalMetric('workout:cycling:duration_min')!)).toEqual({
+      label: 'Cycling Duration',
+      unit: 'minutes',
+    });
+    expect(describeGoalMetric(parseGoalMetric('coffee:cups')!)).toEqual({ label: 'Coffee', unit: 'cups' });
+  });
+
+  it('uses the registered name and unit of custom metrics', () => {
+    const metric = parseGoalMetric('custom:alcohol_units')!;
+    expect(describeGoalMetric(metric, custom({}))).toEqual({ label: 'Alcohol', unit: 'units' });
+    expect(describeGoalMetric(metric, custom({ type: 'boolean', unit: null }))).toEqual({ label: 'Alcohol', unit: 'days' });
+    expect(describeGoalMetric(metric)).toEqual({ label: 'Alcohol units', unit: '' });
+  });
+});
+
+describe('goalProgress', () => {
+  it('is met once an at-least target is reached', () => {
+    expect(goalProgress(8500, 10000, 'at_least')).toEqual({ progress_pct: 85, met: false });
+    expect(goalProgress(12000, 10000, 'at_least')).toEqual({ progress_pct: 100, met: true });
+  });
+
+  it('is met while an at-most cap is not exceeded', () => {
+    expect(goalProgress(200, 400, 'at_most')).toEqual({ progress_pct: 50, met: true });
+    expect(goalProgress(400, 400, 'at_most')).toEqual({ progress_pct: 100, met: true });
+    expect(goalProgress(450, 400, 'at_most')).toEqual({ progress_pct: 100, met: false });
+  });
+
+  it('treats a zero cap as used up by anything', () => {
+    expect(goalProgress(0, 0, 'at_most')).toEqual({ progress_pct: 0, met: true });
+    expect(goalProgress(1, 0, 'at_most')).toEqual({ progress_pct: 100, met: false });
+  });
+});
+
+describe('goalsInEffect', () => {
+  const goal = (month: string, metric: string, period: 'daily' | 'weekly' | 'monthly' | 'yearly', target: number) => ({
+    month,
+    metric,
+    period,
+    direction: 'at_least' as const,
+    target,
+  });
+
+  it('carries a weekly goal set last month into this month', () => {
+    expect(goalsInEffect([goal('2025-01-01', 'steps', 'weekly', 70000)], '2025-02-01')).toEqual([
+      { metric: 'steps', period: 'weekly', direction: 'at_least', target: 70000 },
+    ]);
+  });
+
+  it('carries a yearly goal until the year ends', () => {
+    const rows = [goal('2024-03-01', 'coffee:cups', 'yearly', 900), goal('2025-01-01', 'custom:books', 'yearly', 24)];
+    expect(goalsInEffect(rows, '2025-06-01').map((g) => g.metric)).toEqual(['custom:books']);
+  });
+
+  it('keeps daily and monthly goals to the month they were set in', () => {
+    const rows = [goal('2025-01-01', 'steps', 'daily', 10000), goal('2025-01-01', 'running_distance_km', 'monthly', 100)];
+    expect(goalsInEffect(rows, '2025-02-01')).toEqual([]);
+    expect(goalsInEffect(rows, '2025-01-01').map((g) => g.period)).toEqual(['daily', 'monthly']);
+  });
+
+  it('uses the latest goal for a metric and period', () => {
+    const rows = [goal('2025-01-01', 'steps', 'weekly', 70000), goal('2025-03-01', 'steps', 'weekly', 80000)];
+    expect(goalsInEffect(rows, '2025-04-01')).toEqual([
+      { metric: 'steps', period: 'weekly', direction: 'at_least', target: 80000 },
+    ]);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Goals: a target for any metric (see parseGoalMetric) over a day, ISO week,
+ * month or year, to reach (at_least) or stay under (at_most). Goals are set
+ * per month in monthly_goals: daily and monthly goals hold for that month,
+ * weekly goals until they are changed or removed, yearly goals for the rest
+ * of the calendar year (see goalsInEffect).
+ */
+
+import { sql } from "./client";
+import { estimateIntakeMgFor } from "@/lib/phys/caffeine";
+import type { CustomMetric, GoalDirection, GoalMetric, GoalPeriod, GoalUpsert } from "./validation";
+
+export type GoalRecord = {
+  metric: string;                     // reference as stored in monthly_goals.kind
+  period: GoalPeriod;
+  direction: GoalDirection;
+  target: number;
+};
+
+export type GoalWindow = { start: string; end: string }; // YYYY-MM-DD, inclusive
+
+export type GoalProgress = {
+  progress_pct: number;               // 0..100; for at_most the share of the cap used
+  met: boolean;
+};
+
+type DaysColumn = Extract<GoalMetric, { source: "days" }>["column"];
+
+// How a days column totals over more than one day
+const DAYS_ROLLUP: Record<DaysColumn, "sum" | "avg" | "count"> = {
+  steps: "sum",
+  reading_minutes: "sum",
+  outdoor_minutes: "sum",
+  writing_minutes: "sum",
+  coding_minutes: "sum",
+  focus_minutes: "sum",
+  sleep_score: "avg",
+  journaled: "count",
+};
+
+const DAYS_LABELS: Record<DaysColumn, { label: string; unit: string }> = {
+  steps: { label: "Steps", unit: "steps" },
+  reading_minutes: { label: "Reading", unit: "minutes" },
+  outdoor_minutes: { label: "Outdoors", unit: "minutes" },
+  writing_minutes: { label: "Writing", unit: "minutes" },
+  coding_minutes: { label: "Coding", unit: "minutes" },
+  focus_minutes: { label: "Focus", unit: "minutes" },
+  sleep_score: { label: "Sleep Score", unit: "points" },
+  journaled: { label: "Journaled", unit: "days" },
+};
+
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1).replace(/_/g, " ");
+
+/**
+ * Display name and unit of a goal's metric. Custom metrics take the name and
+ * unit they were registered with; yes/no metrics count days.
+ */
+export function describeGoalMetric(metric: GoalMetric, custom?: CustomMetric): { label: string; unit: string } {
+  switch (metric.source) {
+    case "days":
+      return DAYS_LABELS[metric.column];
+    case "workout": {
+      const type = capitalize(metric.workout_type);
+      if (metric.field === "distance_km") return { label: `${type} Distance`, unit: "km" };
+      if (metric.field === "duration_min") return { label: `${type} Duration`, unit: "minutes" };
+      return { label: `${type} Sessions`, unit: "sessions" };
+    }
+    case "coffee":
+      return metric.field === "cups" ? { label: "Coffee", unit: "cups" } : { label: "Caffeine", unit: "mg" };
+    case "custom":
+      return {
+        label: custom?.name ?? capitalize(metric.key),
+        unit: custom?.type === "boolean" ? "days" : custom?.unit ?? "",
+      };
+  }
+}
+
+/** Progress towards a target, and whether the goal is met so far */
+export function goalProgress(current: number, target: number, direction: GoalDirection): GoalProgress {
+  const pct = target > 0 ? Math.min(100, Math.round((current / target) * 100)) : 0;
+  if (direction === "at_most") {
+    return { progress_pct: target > 0 ? pct : current > 0 ? 100 : 0, met: current <= target };
+  }
+  return { progress_pct: pct, met: current >= target };
+}
+
+/**
+ * Goals in effect in a month, in row order. Rows are the goals set in that
+ * month and before (YYYY-MM-DD months); for each metric and period the latest
+ * row counts if it still holds: set this month, weekly, or yearly and set
+ * this year.
+ */
+export function goalsInEffect(rows: Array<GoalRecord & { month: string }>, month: string): GoalRecord[] {
+  const latest = new Map<string, GoalRecord & { month: string }>();
+  for (const row of rows) {
+    const key = `${row.metric}|${row.period}`;
+    const seen = latest.get(key);
+    if (!seen || row.month > seen.month) latest.set(key, row);
+  }
+
+  return [...latest.values()].flatMap(({ month: setIn, ...goal }) => {
+    const holds =
+      setIn === month ||
+      goal.period === "weekly" ||
+      (goal.period === "yearly" && setIn.slice(0, 4) === month.slice(0, 4));
+    return holds ? [goal] : [];
+  });
+}
+
+/**
+ * Goals in effect in a month (set that month, or carried over; see
+ * goalsInEffect), by period then metric
+ */
+export async function listGoalsDB(month: string): Promise<GoalRecord[]> {
+  const rows = await sql/*sql*/`
+    SELECT month::text AS month, kind::text AS metric, period::text AS period, direction, target::numeric AS target
+    FROM monthly_goals
+    WHERE month <= ${month}::date
+    ORDER BY period, kind
+  `;
+  return goalsInEffect(
+    rows.map((r) => ({
+      month: String(r.month),
+      metric: String(r.metric),
+      period: r.period as GoalPeriod,
+      direction: (r.direction ?? "at_least") as GoalDirection,
+      target: Number(r.target),
+    })),
+    month
+  );
+}
+
+/**
+ * Set a goal for a month; it replaces a goal for the same metric and period
+ * carried over from an earlier month
+ */
+export async function upsertGoalDB(month: string, goal: GoalUpsert): Promise<void> {
+  await sql/*sql*/`
+    INSERT INTO monthly_goals (month, kind, target, period, direction)
+    VALUES (${month}::date, ${goal.metric}, ${goal.target}::numeric, ${goal.period}::goal_period, ${goal.direction})
+    ON CONFLICT (month, kind, period) DO UPDATE SET target = EXCLUDED.target, direction = EXCLUDED.direction
+  `;
+}
+
+/**
+ * Remove a goal in effect in a month, including the earlier rows it was
+ * carried over from (same rule as goalsInEffect)
+ */
+export async function deleteGoalDB(month: string, metric: string, period: GoalPeriod): Promise<boolean> {
+  const rows = await sql/*sql*/`
+    DELETE FROM monthly_goals
+    WHERE kind = ${metric} AND period = ${period}::goal_period
+      AND month <= ${month}::date
+      AND (
+        month = ${month}::date
+        OR period = 'weekly'
+        OR (period = 'yearly' AND date_trunc('year', month) = date_trunc('year', ${month}::date))
+      )
+    RETURNING id
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Current month and the window of each period up to today, in Europe/Berlin
+ */
+export async function goalWindowsDB(): Promise<{ month_start: string; windows: Record<GoalPeriod, GoalWindow> }> {
+  const [row] = await sql/*sql*/`
+    SELECT
+      t.today::text                                  AS today,
+      date_trunc('week', t.today)::date::text        AS week_start,
+      date_trunc('month', t.today)::date::text       AS month_start,
+      date_trunc('year', t.today)::date::text        AS year_start
+    FROM (SELECT timezone('Europe/Berlin', now())::date AS today) t
+  `;
+  const end = String(row.today);
+  return {
+    month_start: String(row.month_start),
+    windows: {
+      daily: { start: end, end },
+      weekly: { start: String(row.week_start), end },
+      monthly: { start: String(row.month_start), end },
+      yearly: { start: String(row.year_start), end },
+    },
+  };
+}
+
+/**
+ * A metric's total over a window. Days columns sum (sleep score averages,
+ * journaled counts days); custom metrics combine days the way repeated logs
+ * within a day do (sum, max, min or latest), and yes/no metrics count days.
+ */
+export async function goalValueDB(metric: GoalMetric, window: GoalWindow, custom?: CustomMetric): Promise<number> {
+  const { start, end } = window;
+
+  switch (metric.source) {
+    case "days": {
+      // column is one of GoalDaysColumn, safe to interpolate
+      const column = metric.column;
+      const expr = {
+        sum: `SUM(${column})`,
+        avg: `AVG(${column})`,
+        count: `COUNT(*) FILTER (WHERE ${column})`,
+      }[DAYS_ROLLUP[column]];
+      const [row] = await sql/*sql*/`
+        SELECT COALESCE(${sql.unsafe(expr)}, 0)::numeric AS value
+        FROM days
+        WHERE date >= ${start}::date AND date <= ${end}::date
+      `;
+      return Number(row?.value ?? 0);
+    }
+
+    case "workout": {
+      const expr = {
+        distance_km: `SUM((details->>'distance_km')::numeric) FILTER (WHERE details ? 'distance_km')`,
+        duration_min: "SUM(duration_min)",
+        sessions: "COUNT(*)",
+      }[metric.field];
+      const [row] = await sql/*sql*/`
+        SELECT COALESCE(${sql.unsafe(expr)}, 0)::numeric AS value
+        FROM workouts
+        WHERE workout_type = ${metric.workout_type}
+          AND date >= ${start}::date AND date <= ${end}::date
+      `;
+      return Number(row?.value ?? 0);
+    }
+
+    case "coffee": {
+      const rows = await sql/*sql*/`
+        SELECT type::text AS type, amount_ml
+        FROM coffee_log
+        WHERE date >= ${start}::date AND date <= ${end}::date
+      `;
+      if (metric.field === "cups") return rows.length;
+      return rows.reduce((mg, r) => mg + estimateIntakeMgFor(String(r.type), Number(r.amount_ml ?? 0)), 0);
+    }
+
+    case "custom": {
+      if (custom?.type === "boolean") {
+        const [row] = await sql/*sql*/`
+          SELECT COUNT(*) FILTER (WHERE (extras->>${metric.key})::boolean)::numeric AS value
+          FROM days
+          WHERE date >= ${start}::date AND date <= ${end}::date AND extras ? ${metric.key}
+        `;
+        return Number(row?.value ?? 0);
+      }
+
+      const aggregation = custom?.aggregation ?? "last";
+      if (aggregation === "last") {
+        const [row] = await sql/*sql*/`
+          SELECT (extras->>${metric.key})::numeric AS value
+          FROM days
+          WHERE date >= ${start}::date AND date <= ${end}::date AND extras ? ${metric.key}
+          ORDER BY date DESC
+          LIMIT 1
+        `;
+        return Number(row?.value ?? 0);
+      }
+
+      const expr = { sum: "SUM", max: "MAX", min: "MIN" }[aggregation];
+      const [row] = await sql/*sql*/`
+        SELECT COALESCE(${sql.unsafe(expr)}((extras->>${metric.key})::numeric), 0)::numeric AS value
+        FROM days
+        WHERE date >= ${start}::date AND date <= ${end}::date AND extras ? ${metric.key}
+      `;
+      return Number(row?.value ?? 0);
+    }
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Database queries for insight_snapshots table
+ * Dated correlation snapshots written by the scheduled insights job
+ */
+
+import { sql } from "./client";
+import { discoverCorrelations } from "@/lib/insights/correlation-discovery";
+import {
+  diffSnapshots,
+  toSnapshotRows,
+  type InsightEvent,
+  type InsightSnapshotRow,
+} from "@/lib/insights/snapshots";
+import { toBerlinYMD } from "@/lib/time/berlin";
+
+// Same analysis window as the insights page
+export const SNAPSHOT_WINDOW_DAYS = 90;
+
+type DbSnapshotRow = Omit<InsightSnapshotRow, "snapshot_date"> & { snapshot_date: string | Date };
+
+function normalize(row: DbSnapshotRow): InsightSnapshotRow {
+  return {
+    ...row,
+    snapshot_date:
+      row.snapshot_date instanceof Date
+        ? row.snapshot_date.toISOString().split("T")[0]
+        : String(row.snapshot_date),
+    lag: Number(row.lag),
+    n: Number(row.n),
+  };
+}
+
+/**
+ * Store a snapshot, replacing any rows already written for the same date
+ */
+export async function saveInsightSnapshotDB(rows: InsightSnapshotRow[]): Promise<number> {
+  if (rows.length === 0) return 0;
+
+  const inserted = await sql`
+    INSERT INTO insight_snapshots (
+      snapshot_date, window_days, metric_a, metric_b, lag, method,
+      r, r_lower, r_upper, p_value, q_value, n, significant
+    )
+    SELECT
+      snapshot_date, window_days, metric_a, metric_b, lag, method,
+      r, r_lower, r_upper, p_value, q_value, n, significant
+    FROM jsonb_to_recordset(${JSON.stringify(rows)}::jsonb) AS t(
+      snapshot_date date,
+      window_days integer,
+      metric_a varchar,
+      metric_b varchar,
+      lag smallint,
+      method varchar,
+      r double precision,
+      r_lower double precision,
+      r_upper double precision,
+      p_value double precision,
+      q_value double precision,
+      n integer,
+      significant boolean
+    )
+    ON CONFLICT (snapshot_date, LEAST(metric_a, metric_b), GREATEST(metric_a, metric_b))
+    DO UPDATE SET
+      window_days = EXCLUDED.window_days,
+      metric_a = EXCLUDED.metric_a,
+      metric_b = EXCLUDED.metric_b,
+      lag = EXCLUDED.lag,
+      method = EXCLUDED.method,
+      r = EXCLUDED.r,
+      r_lower = EXCLUDED.r_lower,
+      r_upper = EXCLUDED.r_upper,
+      p_value = EXCLUDED.p_value,
+      q_value = EXCLUDED.q_value,
+      n = EXCLUDED.n,
+      significant = EXCLUDED.significant,
+      created_at = now()
+    RETURNING id
+  `;
+
+  return inserted.length;
+}
+
+/**
+ * All rows of the snapshot taken on `date`
+ */
+export async function getInsightSnapshotDB(date: string): Promise<InsightSnapshotRow[]> {
+  const rows = await sql`
+    SELECT snapshot_date, window_days, metric_a, metric_b, lag, method,
+           r, r_lower, r_upper, p_value, q_value, n, significant
+    FROM insight_snapshots
+    WHERE snapshot_date = ${date}::date
+  `;
+  return (rows as DbSnapshotRow[]).map(normalize);
+}
+
+/**
+ * Latest snapshot date on or before `onOrBefore` (default: any), or null if none exists
+ */
+export async function getLatestSnapshotDateDB(onOrBefore?: string): Promise<string | null> {
+  const rows = await sql`
+    SELECT MAX(snapshot_date)::text AS date
+    FROM insight_snapshots
+    WHERE ${onOrBefore ?? null}::date IS NULL OR snapshot_date <= ${onOrBefore ?? null}::date
+  `;
+  return (rows[0]?.date as string | null) ?? null;
+}
+
+/**
+ * History of one metric pair (either order), oldest first
+ */
+export async function getInsightPairHistoryDB(
+  metricA: string,
+  metricB: string,
+  days: number
+): Promise<InsightSnapshotRow[]> {
+  const rows = await sql`
+    SELECT snapshot_date, window_days, metric_a, metric_b, lag, method,
+           r, r_lower, r_upper, p_value, q_value, n, significant
+    FROM insight_snapshots
+    WHERE LEAST(metric_a, metric_b) = LEAST(${metricA}::varchar, ${metricB}::varchar)
+      AND GREATEST(metric_a, metric_b) = GREATEST(${metricA}::varchar, ${metricB}::varchar)
+      AND snapshot_date >= (CURRENT_DATE - ${days}::int)
+    ORDER BY snapshot_date ASC
+  `;
+  return (rows as DbSnapshotRow[]).map(normalize);
+}
+
+/**
+ * Insights that appeared or faded between the latest snapshot and the latest
+ * one at least `sinceDays` older
+ */
+export async function getInsightChangesDB(sinceDays: number): Promise<{
+  current_date: string | null;
+  previous_date: string | null;
+  events: InsightEvent[];
+}> {
+  const currentDate = await getLatestSnapshotDateDB();
+  if (!currentDate) {
+    return { current_date: null, previous_date: null, events: [] };
+  }
+
+  const cutoff = new Date(`${currentDate}T00:00:00.000Z`);
+  cutoff.setUTCDate(cutoff.getUTCDate() - sinceDays);
+  const previousDate = await getLatestSnapshotDateDB(cutoff.toISOString().split("T")[0]);
+  if (!previousDate) {
+    return { current_date: currentDate, previous_date: null, events: [] };
+  }
+
+  const [previous, current] = await Promise.all([
+    getInsightSnapshotDB(previousDate),
+    getInsightSnapshotDB(currentDate),
+  ]);
+
+  return {
+    current_date: currentDate,
+    previous_date: previousDate,
+    events: diffSnapshots(previous, current, currentDate),
+  };
+}
+
+/**
+ * Compute today's snapshot of every tested pair and store it.
+ * Returns the changes against the previous snapshot.
+ */
+export async function takeInsightSnapshotDB(windowDays = SNAPSHOT_WINDOW_DAYS) {
+  const snapshotDate = toBerlinYMD(new Date());
+
+  // No thresholds: keep every pair so faded insights stay visible in the history
+  const correlations = await discoverCorrelations({
+    days: windowDays,
+    pValueThreshold: 1,
+    minAbsR: 0,
+  });
+  const rows = toSnapshotRows(correlations, snapshotDate, windowDays);
+
+  const previousDate = await getLatestSnapshotDateDB(
+    toBerlinYMD(new Date(Date.now() - 24 * 3600_000))
+  );
+  const previous = previousDate ? await getInsightSnapshotDB(previousDate) : [];
+
+  const stored = await saveInsightSnapshotDB(rows);
+
+  return {
+    snapshot_date: snapshotDate,
+    previous_date: previousDate,
+    pairs: stored,
+    significant: rows.filter((r) => r.significant).length,
+    events: diffSnapshots(previous, rows, snapshotDate),
+  };
+}
@@ -11,16 +11,6 @@ export const ZBrewMethod = z.enum([
 ]);
 export type BrewMethod = z.infer<typeof ZBrewMethod>;
 
-export const ZGoalKind = z.enum([
-  "running_distance_km",
-  "steps",
-  "reading_minutes",
-  "outdoor_minutes",
-  "writing_minutes",
-  "focus_minutes",
-  "coding_minutes",
-]);
-
 // Morning Brew
 export const ZBrewMethodsToday = z.array(z.object({ type: ZBrewMethod, count: z.number().int() }));
 
@@ -79,6 +69,8 @@ export const ZEmbeddingMetadata = z.object({
   title: z.string().optional(),     // For blog posts
   file: z.string().optional(),      // For knowledge base files
   url: z.string().optional(),       // Full URL if applicable
+  section: z.string().optional(),   // Heading path of the chunk, e.g. "Architecture > Caching"
+  anchor: z.string().optional(),    // Heading anchor for deep links (/blog/[slug]#anchor)
 });
 export type EmbeddingMetadata = z.infer<typeof ZEmbeddingMetadata>;
 
@@ -95,6 +87,7 @@ export type ChatEmbedding = z.infer<typeof ZChatEmbedding>;
 export const ZRetrievalResult = z.object({
   content: z.string(),
   metadata: ZEmbeddingMetadata,
-  similarity: z.number().min(0).max(1),
+  similarity: z.number().min(0).max(1),     // Cosine similarity to the question (0 without an embedding)
+  score: z.number().optional(),             // Fused rank score (hybrid retrieval)
 });
 export type RetrievalResult = z.infer<typeof ZRetrievalResult>;
\ No newline at end of file
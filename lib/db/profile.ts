@@ -1,5 +1,11 @@
 import { sql } from "@/lib/db/client";
-import { ZBodyProfileRow, ZBodyProfileUpsert } from "@/lib/db/validation";
+import {
+  ZAthleteProfile,
+  ZBodyProfileRow,
+  ZBodyProfileUpsert,
+  type AthleteProfileRow,
+  type AthleteProfileUpsert,
+} from "@/lib/db/validation";
 import { z } from "zod";
 
 /**
@@ -152,3 +158,68 @@ export async function getBodyProfileHistoryDB(limit: number = 30) {
     created_at: new Date(r.created_at).toISOString(),
   }));
 }
+
+/**
+ * Get the athlete profile (training thresholds) with the sex of the latest
+ * body profile entry, which TRIMP weighting depends on
+ */
+export async function getAthleteProfileDB() {
+  const rows = await sql/*sql*/`
+    SELECT
+      a.max_hr,
+      a.resting_hr,
+      a.lthr,
+      a.ftp_w,
+      a.updated_at,
+      (SELECT sex FROM body_profile ORDER BY measured_at DESC LIMIT 1) as sex
+    FROM athlete_profile a
+    WHERE a.id = 1
+  `;
+
+  const r = rows[0];
+  if (!r) return null;
+
+  return {
+    ...normalizeAthleteProfile(r),
+    sex: r.sex === null ? null : String(r.sex),
+  };
+}
+
+/**
+ * Update the athlete profile; omitted fields keep their value, null clears them
+ */
+export async function upsertAthleteProfileDB(p: AthleteProfileUpsert) {
+  // Distinguish "not provided" (keep) from null (clear)
+  const set = (v: number | null | undefined) => v !== undefined;
+
+  const rows = await sql/*sql*/`
+    INSERT INTO athlete_profile (id, max_hr, resting_hr, lthr, ftp_w)
+    VALUES (
+      1,
+      ${p.max_hr ?? null}::smallint,
+      ${p.resting_hr ?? null}::smallint,
+      ${p.lthr ?? null}::smallint,
+      ${p.ftp_w ?? null}::smallint
+    )
+    ON CONFLICT (id) DO UPDATE SET
+      max_hr = CASE WHEN ${set(p.max_hr)} THEN EXCLUDED.max_hr ELSE athlete_profile.max_hr END,
+      resting_hr = CASE WHEN ${set(p.resting_hr)} THEN EXCLUDED.resting_hr ELSE athlete_profile.resting_hr END,
+      lthr = CASE WHEN ${set(p.lthr)} THEN EXCLUDED.lthr ELSE athlete_profile.lthr END,
+      ftp_w = CASE WHEN ${set(p.ftp_w)} THEN EXCLUDED.ftp_w ELSE athlete_profile.ftp_w END,
+      updated_at = now()
+    RETURNING max_hr, resting_hr, lthr, ftp_w, updated_at
+  `;
+
+  return normalizeAthleteProfile(rows[0]);
+}
+
+function normalizeAthleteProfile(r: Record<string, unknown>): AthleteProfileRow {
+  const num = (v: unknown) => (v === null || v === undefined ? null : Number(v));
+  return ZAthleteProfile.parse({
+    max_hr: num(r.max_hr),
+    resting_hr: num(r.resting_hr),
+    lthr: num(r.lthr),
+    ftp_w: num(r.ftp_w),
+    updated_at: new Date(r.updated_at as string).toISOString(),
+  });
+}
@@ -311,7 +311,7 @@ async function currentMonthStart(): Promise<string> {
   return month_start as string; // e.g. "2025-09-01"
 }
 
-// Read a monthly goal by kind for the current month; default 0 if missing
+// Read a goal by kind for the current month, preferring the daily one; default 0 if missing
 async function currentGoal(kind:
   | 'focus_minutes'
   | 'running_distance_km'
@@ -325,7 +325,8 @@ async function currentGoal(kind:
   const rows = await sql/*sql*/`
     SELECT target::numeric AS target
     FROM monthly_goals
-    WHERE month = ${monthStart}::date AND kind = ${kind}::goal_kind
+    WHERE month = ${monthStart}::date AND kind = ${kind}
+    ORDER BY (period = 'daily') DESC
     LIMIT 1
   `;
   return Number(rows[0]?.target ?? 0);
@@ -363,7 +364,7 @@ export async function qRunningMonthlyProgress() {
       to_char(m.month_start, 'YYYY-MM-01')                       AS month,
       coalesce((
         SELECT target FROM monthly_goals
-        WHERE month = m.month_start AND kind = 'running_distance_km'
+        WHERE month = m.month_start AND kind = 'running_distance_km' AND period = 'monthly'
       ), 0)::numeric                                             AS target_km,
       coalesce((
         SELECT sum((details->>'distance_km')::numeric) FROM workouts
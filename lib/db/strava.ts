@@ -0,0 +1,198 @@
+/**
+ * Database queries for Strava imports: workout upserts, the sync log and
+ * backfill progress (strava_backfill)
+ */
+
+import { sql } from "./client";
+import type { WorkoutUpsert } from "./validation";
+
+export type StravaBackfillStatus = "running" | "rate_limited" | "completed" | "cancelled" | "failed";
+
+export type StravaBackfill = {
+  athlete_id: number;
+  status: StravaBackfillStatus;
+  after_cursor: number;
+  include_streams: boolean;
+  pages: number;
+  imported: number;
+  skipped: number;
+  errors: number;
+  paused_until: string | null;
+  last_error: string | null;
+  started_at: string;
+  updated_at: string;
+  completed_at: string | null;
+};
+
+function iso(value: unknown): string | null {
+  return value === null || value === undefined ? null : new Date(value as string).toISOString();
+}
+
+function normalizeBackfill(r: Record<string, unknown>): StravaBackfill {
+  return {
+    athlete_id: Number(r.athlete_id),
+    status: r.status as StravaBackfillStatus,
+    after_cursor: Number(r.after_cursor),
+    include_streams: Boolean(r.include_streams),
+    pages: Number(r.pages),
+    imported: Number(r.imported),
+    skipped: Number(r.skipped),
+    errors: Number(r.errors),
+    paused_until: iso(r.paused_until),
+    last_error: (r.last_error as string | null) ?? null,
+    started_at: iso(r.started_at) as string,
+    updated_at: iso(r.updated_at) as string,
+    completed_at: iso(r.completed_at),
+  };
+}
+
+/**
+ * Insert a Strava workout or update the one with the same external_id.
+ * Returns the workout id.
+ */
+export async function upsertStravaWorkoutDB(workout: WorkoutUpsert): Promise<number> {
+  const rows = await sql/*sql*/`
+    INSERT INTO workouts (
+      date, workout_type, duration_min, intensity, perceived_effort,
+      details, notes, source, external_id, synced_at
+    )
+    VALUES (
+      ${workout.date},
+      ${workout.workout_type},
+      ${workout.duration_min},
+      ${workout.intensity || null},
+      ${workout.perceived_effort || null},
+      ${JSON.stringify(workout.details)},
+      ${workout.notes || null},
+      'strava',
+      ${workout.external_id},
+      now()
+    )
+    ON CONFLICT (external_id) WHERE external_id IS NOT NULL DO UPDATE SET
+      date = EXCLUDED.date,
+      workout_type = EXCLUDED.workout_type,
+      duration_min = EXCLUDED.duration_min,
+      intensity = EXCLUDED.intensity,
+      perceived_effort = EXCLUDED.perceived_effort,
+      details = COALESCE(workouts.details, '{}'::jsonb) || EXCLUDED.details,
+      notes = EXCLUDED.notes,
+      synced_at = now()
+    WHERE workouts.source = 'strava'
+    RETURNING id
+  `;
+
+  if (!rows[0]) {
+    throw new Error(`External ID ${workout.external_id} belongs to a workout from another source`);
+  }
+  return Number(rows[0].id);
+}
+
+/**
+ * Record the outcome of importing one activity in strava_sync_log
+ */
+export async function logStravaSyncDB(
+  athleteId: number,
+  activityId: number,
+  eventType: "create" | "update" | "delete",
+  status: "success" | "error" | "skipped",
+  errorMessage: string | null = null
+): Promise<void> {
+  await sql/*sql*/`
+    INSERT INTO strava_sync_log (athlete_id, activity_id, event_type, status, error_message)
+    VALUES (${athleteId}, ${activityId}, ${eventType}, ${status}, ${errorMessage})
+  `;
+}
+
+/**
+ * Backfill progress of an athlete, or null if none was ever started
+ */
+export async function getStravaBackfillDB(athleteId: number): Promise<StravaBackfill | null> {
+  const rows = await sql/*sql*/`
+    SELECT *
+    FROM strava_backfill
+    WHERE athlete_id = ${athleteId}
+  `;
+  return rows[0] ? normalizeBackfill(rows[0]) : null;
+}
+
+/**
+ * Start the backfill from the oldest activity, discarding earlier progress
+ */
+export async function startStravaBackfillDB(
+  athleteId: number,
+  includeStreams: boolean
+): Promise<StravaBackfill> {
+  const rows = await sql/*sql*/`
+    INSERT INTO strava_backfill (athlete_id, status, include_streams)
+    VALUES (${athleteId}, 'running', ${includeStreams})
+    ON CONFLICT (athlete_id) DO UPDATE SET
+      status = 'running',
+      after_cursor = 0,
+      include_streams = EXCLUDED.include_streams,
+      pages = 0,
+      imported = 0,
+      skipped = 0,
+      errors = 0,
+      paused_until = NULL,
+      last_error = NULL,
+      started_at = now(),
+      updated_at = now(),
+      completed_at = NULL
+    RETURNING *
+  `;
+  return normalizeBackfill(rows[0]);
+}
+
+/**
+ * Persist the progress of a backfill step. A backfill cancelled while the
+ * step ran stays cancelled.
+ */
+export async function saveStravaBackfillDB(state: StravaBackfill): Promise<StravaBackfill> {
+  const rows = await sql/*sql*/`
+    UPDATE strava_backfill
+    SET
+      status = ${state.status},
+      after_cursor = ${state.after_cursor},
+      pages = ${state.pages},
+      imported = ${state.imported},
+      skipped = ${state.skipped},
+      errors = ${state.errors},
+      paused_until = ${state.paused_until}::timestamptz,
+      last_error = ${state.last_error},
+      updated_at = now(),
+      completed_at = CASE WHEN ${state.status} = 'completed' THEN now() ELSE NULL END
+    WHERE athlete_id = ${state.athlete_id}
+      AND status <> 'cancelled'
+    RETURNING *
+  `;
+  return rows[0] ? normalizeBackfill(rows[0]) : (await getStravaBackfillDB(state.athlete_id)) ?? state;
+}
+
+/**
+ * Continue a failed or cancelled backfill from its cursor.
+ * Returns null if there is nothing to resume.
+ */
+export async function resumeStravaBackfillDB(athleteId: number): Promise<StravaBackfill | null> {
+  const rows = await sql/*sql*/`
+    UPDATE strava_backfill
+    SET status = 'running', paused_until = NULL, last_error = NULL, updated_at = now()
+    WHERE athlete_id = ${athleteId}
+      AND status IN ('cancelled', 'failed')
+    RETURNING *
+  `;
+  return rows[0] ? normalizeBackfill(rows[0]) : null;
+}
+
+/**
+ * Stop a running backfill; its progress is kept for reference
+ */
+export async function cancelStravaBackfillDB(athleteId: number): Promise<StravaBackfill | null> {
+  const rows = await sql/*sql*/`
+    UPDATE strava_backfill
+    SET status = 'cancelled', paused_until = NULL, updated_at = now()
+    WHERE athlete_id = ${athleteId}
+      AND status IN ('running', 'rate_limited')
+    RETURNING *
+  `;
+  return rows[0] ? normalizeBackfill(rows[0]) : null;
+}
@@ -297,6 +297,79 @@ describe('validation schemas', () => {
 
       expect(result.success).toBe(true);
     });
+
+    it('should validate strength exercises with sets', () => {
+      const result = ZWorkoutUpsert.safeParse({
+        date: '2024-01-15',
+        workout_type: 'strength',
+        duration_min: 60,
+        details: {
+          exercises: [
+            { exercise: 'Squat', sets: [{ reps: 5, load_kg: 100, rpe: 8.5 }, { reps: '5', load_kg: '100' }] },
+            { exercise: 'Pull-up', sets: [{ reps: 8 }] },
+          ],
+        },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.details?.exercises?.[0].sets[1]).toEqual({ reps: 5, load_kg: 100 });
+    });
+
+    it('should reject malformed strength sets', () => {
+      const invalid = [
+        [{ exercise: 'Squat', sets: [] }],
+        [{ exercise: '', sets: [{ reps: 5 }] }],
+        [{ exercise: 'Squat', sets: [{ reps: 0, load_kg: 100 }] }],
+        [{ exercise: 'Squat', sets: [{ reps: 5, load_kg: -10 }] }],
+        [{ exercise: 'Squat', sets: [{ reps: 5, rpe: 8.3 }] }],
+      ];
+
+      invalid.forEach((exercises) => {
+        const result = ZWorkoutUpsert.safeParse({
+          date: '2024-01-15',
+          workout_type: 'strength',
+          duration_min: 60,
+          details: { exercises },
+        });
+        expect(result.success).toBe(false);
+      });
+    });
+
+    it('should only check exercises of strength workouts', () => {
+      const result = ZWorkoutUpsert.safeParse({
+        date: '2024-01-15',
+        workout_type: 'climbing',
+        duration_min: 60,
+        details: { exercises: ['hangboard', 'campus'] },
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should read legacy exercise entries as equal sets', () => {
+      const result = ZWorkoutUpsert.safeParse({
+        date: '2024-01-15',
+        workout_type: 'strength',
+        duration_min: 60,
+        details: { exercises: [{ name: 'Squat', sets: 3, reps: 8, weight_kg: 100 }] },
+      });
+
+      expect(result.data?.details?.exercises).toEqual([
+        { exercise: 'Squat', sets: Array(3).fill({ reps: 8, load_kg: 100 }) },
+      ]);
+    });
+
+    it('should reject legacy exercise entries with an out-of-range set count', () => {
+      for (const sets of [0, 2.5, 51, 1e9]) {
+        const result = ZWorkoutUpsert.safeParse({
+          date: '2024-01-15',
+          workout_type: 'strength',
+          duration_min: 60,
+          details: { exercises: [{ name: 'Squat', sets, reps: 8 }] },
+        });
+        expect(result.success).toBe(false);
+      }
+    });
   });
 
   describe('ZMonthlyGoalsUpsert', () => {
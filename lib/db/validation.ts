@@ -33,6 +33,25 @@ export const ZCoffee = z.object({
 
 export type TCoffee = z.infer<typeof ZCoffee>;
 
+// Partial update of an existing coffee_log row (id required, at least one field)
+export const ZCoffeeUpdate = z.object({
+  id: z.coerce.number().int().positive(),
+  date: z.coerce.date().optional(),
+  time: z.union([z.string(), z.coerce.date()]).optional(),
+  type: ZCoffee.shape.type.optional(),
+  amount_ml: z.coerce.number().int().min(0).optional(),
+  coffee_cf_id: z.string().min(1).nullable().optional(), // null clears the link
+}).refine(
+  (v) => Object.keys(v).some((k) => k !== "id" && v[k as keyof typeof v] !== undefined),
+  { message: "At least one field besides id must be provided" }
+);
+
+export type TCoffeeUpdate = z.infer<typeof ZCoffeeUpdate>;
+
+export const ZCoffeeId = z.coerce.number().int().positive();
+
+export const ZDateKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
 // Legacy run schema (deprecated - use ZWorkout instead)
 export const ZRun = z.object({
   date: z.coerce.date(),
@@ -56,7 +75,56 @@ export const WorkoutType = z.enum([
 export const WorkoutIntensity = z.enum(['low', 'moderate', 'high', 'max']);
 
 // Workout source (manual entry or external integration)
-export const WorkoutSource = z.enum(['manual', 'strava']);
+export const WorkoutSource = z.enum(['manual', 'strava', 'file']);
+
+// Strength training: sets per exercise. Load is the external weight, so
+// bodyweight sets leave it out; RPE is on the usual 1–10 scale in half steps.
+export const ZStrengthSet = z.object({
+  reps: z.coerce.number().int().min(1).max(100),
+  load_kg: z.coerce.number().min(0).max(1000).optional(),
+  rpe: z.coerce.number().min(1).max(10).multipleOf(0.5).optional(),
+});
+
+// Older entries came from a raw JSON textarea as
+// { name, sets: 3, reps: 8, weight_kg: 100 }; read them as three equal sets.
+function fromLegacyExercise(value: unknown): unknown {
+  if (!value || typeof value !== "object") return value;
+  const v = value as Record<string, unknown>;
+  if (v.exercise !== undefined || typeof v.name !== "string" || typeof v.sets !== "number") return value;
+  // Out-of-range counts are left for the schema to reject, not expanded
+  if (!Number.isInteger(v.sets) || v.sets < 1 || v.sets > 50) return value;
+  const set = { reps: v.reps, load_kg: v.weight_kg ?? undefined, rpe: v.rpe ?? undefined };
+  return { exercise: v.name, sets: Array.from({ length: v.sets }, () => set) };
+}
+
+export const ZStrengthExercise = z.preprocess(fromLegacyExercise, z.object({
+  exercise: z.string().trim().min(1).max(100),
+  sets: z.array(ZStrengthSet).min(1).max(50),
+}));
+
+export const ZStrengthExercises = z.array(ZStrengthExercise).min(1);
+
+export type StrengthSet = z.infer<typeof ZStrengthSet>;
+export type StrengthExercise = z.infer<typeof ZStrengthExercise>;
+
+// Strength workouts log details.exercises as typed sets; validate and
+// normalize them. Partial updates without a workout_type are checked too.
+function withStrengthExercises<T extends { workout_type?: string; details?: Record<string, unknown> }>(
+  v: T,
+  ctx: z.RefinementCtx
+): T {
+  if (v.details?.exercises === undefined) return v;
+  if (v.workout_type !== undefined && v.workout_type !== "strength") return v;
+
+  const parsed = ZStrengthExercises.safeParse(v.details.exercises);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      ctx.addIssue({ code: "custom", message: issue.message, path: ["details", "exercises", ...issue.path] });
+    }
+    return z.NEVER;
+  }
+  return { ...v, details: { ...v.details, exercises: parsed.data } };
+}
 
 // Unified workout schema
 export const ZWorkout = z.object({
@@ -76,7 +144,7 @@ export const ZWorkout = z.object({
   synced_at: z.string().optional(),
 });
 
-export const ZWorkoutUpsert = z.object({
+const ZWorkoutFields = z.object({
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   workout_type: WorkoutType,
   duration_min: z.coerce.number().int().positive(),
@@ -90,24 +158,127 @@ export const ZWorkoutUpsert = z.object({
   external_id: z.string().optional(),
 });
 
+export const ZWorkoutUpsert = ZWorkoutFields.transform(withStrengthExercises);
+
+// Partial update of an existing workout (id required, at least one field).
+// Source and external_id are owned by the integration and cannot be edited.
+export const ZWorkoutUpdate = ZWorkoutFields
+  .omit({ source: true, external_id: true })
+  .partial()
+  .extend({ id: z.coerce.number().int().positive() })
+  .refine(
+    (v) => Object.keys(v).some((k) => k !== "id" && v[k as keyof typeof v] !== undefined),
+    { message: "At least one field besides id must be provided" }
+  )
+  .transform(withStrengthExercises);
+
+// Merge a duplicate workout into the one that is kept
+export const ZWorkoutMerge = z.object({
+  keep_id: z.coerce.number().int().positive(),
+  merge_id: z.coerce.number().int().positive(),
+}).refine((v) => v.keep_id !== v.merge_id, {
+  message: "keep_id and merge_id must differ",
+  path: ["merge_id"],
+});
+
+export const ZWorkoutId = z.coerce.number().int().positive();
+
 export type Workout = z.infer<typeof ZWorkout>;
 export type WorkoutUpsert = z.infer<typeof ZWorkoutUpsert>;
+export type WorkoutUpdate = z.infer<typeof ZWorkoutUpdate>;
+
+// ===== Goals =====
+
+// days columns a goal can track directly
+export const GoalDaysColumn = z.enum([
+  "steps",
+  "reading_minutes",
+  "outdoor_minutes",
+  "writing_minutes",
+  "coding_minutes",
+  "focus_minutes",
+  "sleep_score",
+  "journaled",
+]);
+export const GoalWorkoutField = z.enum(["distance_km", "duration_min", "sessions"]);
+export const GoalCoffeeField = z.enum(["cups", "caffeine_mg"]);
+export const GoalPeriod = z.enum(["daily", "weekly", "monthly", "yearly"]);
+export const GoalDirection = z.enum(["at_least", "at_most"]);
+
+export type GoalPeriod = z.infer<typeof GoalPeriod>;
+export type GoalDirection = z.infer<typeof GoalDirection>;
+
+export type GoalMetric =
+  | { source: "days"; column: z.infer<typeof GoalDaysColumn> }
+  | { source: "workout"; workout_type: z.infer<typeof WorkoutType>; field: z.infer<typeof GoalWorkoutField> }
+  | { source: "coffee"; field: z.infer<typeof GoalCoffeeField> }
+  | { source: "custom"; key: string };
+
+/**
+ * Parse a goal's metric reference (monthly_goals.kind): "<days column>",
+ * "workout:<type>:<distance_km|duration_min|sessions>", "coffee:<cups|caffeine_mg>"
+ * or "custom:<key>". The original kind running_distance_km stays valid and
+ * means workout:running:distance_km. Null if the reference is malformed.
+ */
+export function parseGoalMetric(ref: string): GoalMetric | null {
+  if (ref === "running_distance_km") {
+    return { source: "workout", workout_type: "running", field: "distance_km" };
+  }
+
+  const parts = ref.split(":");
+  switch (parts.length === 1 ? "days" : parts[0]) {
+    case "days": {
+      const column = GoalDaysColumn.safeParse(parts[0]);
+      return column.success ? { source: "days", column: column.data } : null;
+    }
+    case "workout": {
+      const type = WorkoutType.safeParse(parts[1]);
+      const field = GoalWorkoutField.safeParse(parts[2]);
+      return parts.length === 3 && type.success && field.success
+        ? { source: "workout", workout_type: type.data, field: field.data }
+        : null;
+    }
+    case "coffee": {
+      const field = GoalCoffeeField.safeParse(parts[1]);
+      return parts.length === 2 && field.success ? { source: "coffee", field: field.data } : null;
+    }
+    case "custom":
+      return parts.length === 2 && /^[a-z][a-z0-9_]*$/.test(parts[1]) ? { source: "custom", key: parts[1] } : null;
+    default:
+      return null;
+  }
+}
+
+export const ZGoalMetric = z.string().trim().max(80).refine((v) => parseGoalMetric(v) !== null, {
+  message: "Unknown metric; use a days column, workout:<type>:<field>, coffee:<field> or custom:<key>",
+});
 
 export const ZGoal = z.object({
   month: z.coerce.date(),
-  kind: z.enum([
-    "running_distance_km",
-    "steps",
-    "reading_minutes",
-    "outdoor_minutes",
-    "writing_minutes",
-    "focus_minutes",
-    "coding_minutes",
-  ]),
+  kind: ZGoalMetric,
   target: z.coerce.number().min(0),
-  period: z.enum(["monthly", "daily"]),
+  period: GoalPeriod,
+  direction: GoalDirection,
 });
 
+export const ZGoalUpsert = z.object({
+  metric: ZGoalMetric,
+  period: GoalPeriod,
+  direction: GoalDirection.default("at_least"),
+  target: z.coerce.number().min(0),
+});
+
+// Any number of goals; at most one per metric and period
+export const ZGoalsUpsert = z.object({
+  goals: z.array(ZGoalUpsert).min(1).max(50),
+}).refine(
+  (v) => new Set(v.goals.map((g) => `${g.metric}|${g.period}`)).size === v.goals.length,
+  { message: "Each metric can have one goal per period", path: ["goals"] }
+);
+
+export type Goal = z.infer<typeof ZGoal>;
+export type GoalUpsert = z.infer<typeof ZGoalUpsert>;
+
 export const ZSubjectiveMetrics = z.object({
   date: z.coerce.date(),
   mood: z.coerce.number().int().min(1).max(10).optional(),
@@ -151,6 +322,37 @@ export const ZBodyProfileUpsert = z.object({
   notes: z.string().optional(),
 });
 
+export const ZAthleteProfile = z.object({
+  max_hr: z.number().int().nullable(),
+  resting_hr: z.number().int().nullable(),
+  lthr: z.number().int().nullable(),
+  ftp_w: z.number().int().nullable(),
+  updated_at: z.string(),
+});
+
+// Partial update of the athlete profile (null clears a threshold)
+export const ZAthleteProfileUpsert = z.object({
+  max_hr: z.coerce.number().int().min(100).max(250).nullable().optional(),
+  resting_hr: z.coerce.number().int().min(25).max(120).nullable().optional(),
+  lthr: z.coerce.number().int().min(80).max(240).nullable().optional(),
+  ftp_w: z.coerce.number().int().min(50).max(600).nullable().optional(),
+}).refine(
+  (v) => v.max_hr == null || v.resting_hr == null || v.resting_hr < v.max_hr,
+  { message: "Resting HR must be below max HR", path: ["resting_hr"] }
+).refine(
+  (v) => v.max_hr == null || v.lthr == null || v.lthr <= v.max_hr,
+  { message: "Threshold HR cannot exceed max HR", path: ["lthr"] }
+);
+
+export type AthleteProfileRow = z.infer<typeof ZAthleteProfile>;
+export type AthleteProfileUpsert = z.infer<typeof ZAthleteProfileUpsert>;
+
+// Values for custom metrics, keyed by custom_metrics.key (null clears a value)
+const ZCustomValues = z.record(
+  z.string().regex(/^[a-z][a-z0-9_]*$/),
+  z.union([z.number(), z.boolean(), z.null()])
+);
+
 export const ZDayUpsert = z.object({
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   sleep_score: z.coerce.number().int().min(0).max(100).optional(),
@@ -160,14 +362,57 @@ export const ZDayUpsert = z.object({
   outdoor_minutes: z.coerce.number().int().min(0).optional(),
   writing_minutes: z.coerce.number().int().min(0).optional(),
   coding_minutes: z.coerce.number().int().min(0).optional(),
+  // Custom metrics: `extras` replaces the day's value, `log` combines with it
+  // using the metric's aggregation (e.g. add one more alcohol unit)
+  extras: ZCustomValues.optional(),
+  log: ZCustomValues.optional(),
 });
 
-// Individual goal with value and period
+// ===== Custom Metrics =====
+
+export const CustomMetricType = z.enum(['numeric', 'boolean', 'scale']);
+export const CustomMetricAggregation = z.enum(['sum', 'max', 'min', 'last']);
+
+export const ZCustomMetricUpsert = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9_]*$/, "Use lowercase letters, digits and underscores").max(40),
+  name: z.string().trim().min(1).max(100),
+  unit: z.string().trim().max(30).optional(),
+  type: CustomMetricType,
+  scale_min: z.coerce.number().int().optional(),
+  scale_max: z.coerce.number().int().optional(),
+  aggregation: CustomMetricAggregation.default('last'),
+  description: z.string().trim().max(500).optional(),
+}).refine(
+  (v) => v.type !== 'scale' || (v.scale_min !== undefined && v.scale_max !== undefined && v.scale_min < v.scale_max),
+  { message: "Scale metrics need scale_min < scale_max", path: ["scale_max"] }
+).refine(
+  (v) => v.type === 'numeric' || v.aggregation !== 'sum',
+  { message: "Only numeric metrics can be summed", path: ["aggregation"] }
+);
+
+export const ZCustomMetric = z.object({
+  id: z.number().int(),
+  key: z.string(),
+  name: z.string(),
+  unit: z.string().nullable(),
+  type: CustomMetricType,
+  scale_min: z.number().int().nullable(),
+  scale_max: z.number().int().nullable(),
+  aggregation: CustomMetricAggregation,
+  description: z.string().nullable(),
+  archived: z.boolean(),
+});
+
+export type CustomMetric = z.infer<typeof ZCustomMetric>;
+export type CustomMetricUpsert = z.infer<typeof ZCustomMetricUpsert>;
+
+// Individual goal with value and period (at least the target)
 const ZGoalInput = z.object({
   target: z.coerce.number().min(0),
-  period: z.enum(["monthly", "daily"]),
+  period: GoalPeriod,
 });
 
+// The original goals keyed by kind, one period each; ZGoalsUpsert covers any metric
 export const ZMonthlyGoalsUpsert = z.object({
   running_distance_km: z.union([z.coerce.number().min(0), ZGoalInput]).optional(),
   steps: z.union([z.coerce.number().int().min(0), ZGoalInput]).optional(),
@@ -225,13 +470,39 @@ export const ZStravaActivity = z.object({
   average_heartrate: z.number().optional(),
   max_heartrate: z.number().optional(),
   average_cadence: z.number().optional(),
+  average_watts: z.number().optional(),
   elev_high: z.number().optional(),
   elev_low: z.number().optional(),
   description: z.string().nullable().optional(),
   kudos_count: z.number().optional(),
   private: z.boolean().optional(),
+
+  // Only in the detailed activity (GET /activities/{id}), for runs
+  best_efforts: z
+    .array(
+      z.object({
+        name: z.string(),
+        elapsed_time: z.number(),
+        distance: z.number(),
+        start_date: z.string().optional(),
+      })
+    )
+    .optional(),
+});
+
+// Strava activity streams (GET /activities/{id}/streams?key_by_type=true)
+const ZStravaNumberStream = z.object({ data: z.array(z.number().nullable()) });
+
+export const ZStravaStreams = z.object({
+  time: ZStravaNumberStream,
+  distance: ZStravaNumberStream.optional(),
+  heartrate: ZStravaNumberStream.optional(),
+  velocity_smooth: ZStravaNumberStream.optional(),
+  altitude: ZStravaNumberStream.optional(),
+  latlng: z.object({ data: z.array(z.tuple([z.number(), z.number()]).nullable()) }).optional(),
 });
 
 export type StravaTokenResponse = z.infer<typeof ZStravaTokenResponse>;
 export type StravaWebhookEvent = z.infer<typeof ZStravaWebhookEvent>;
-export type StravaActivity = z.infer<typeof ZStravaActivity>;
\ No newline at end of file
+export type StravaActivity = z.infer<typeof ZStravaActivity>;
+export type StravaStreams = z.infer<typeof ZStravaStreams>;
@@ -0,0 +1,93 @@
+/**
+ * Database queries for workout_streams table
+ * Sample-level time series per workout (e.g. imported Strava streams)
+ */
+
+import { sql } from "./client";
+import type { WorkoutStreams } from "@/lib/phys/workout-streams";
+
+type NumArray = (number | null)[] | null;
+
+/**
+ * Store (or replace) the streams of a workout
+ */
+export async function saveWorkoutStreamsDB(
+  workoutId: number,
+  source: string,
+  streams: WorkoutStreams
+): Promise<number> {
+  const pointCount = streams.time_s.length;
+
+  await sql/*sql*/`
+    INSERT INTO workout_streams (
+      workout_id, source, point_count, time_s,
+      distance_m, heartrate, velocity_mps, altitude_m, lat, lng
+    )
+    VALUES (
+      ${workoutId},
+      ${source},
+      ${pointCount},
+      ${streams.time_s}::integer[],
+      ${streams.distance_m ?? null}::real[],
+      ${streams.heartrate ?? null}::smallint[],
+      ${streams.velocity_mps ?? null}::real[],
+      ${streams.altitude_m ?? null}::real[],
+      ${streams.lat ?? null}::double precision[],
+      ${streams.lng ?? null}::double precision[]
+    )
+    ON CONFLICT (workout_id) DO UPDATE SET
+      source = EXCLUDED.source,
+      point_count = EXCLUDED.point_count,
+      time_s = EXCLUDED.time_s,
+      distance_m = EXCLUDED.distance_m,
+      heartrate = EXCLUDED.heartrate,
+      velocity_mps = EXCLUDED.velocity_mps,
+      altitude_m = EXCLUDED.altitude_m,
+      lat = EXCLUDED.lat,
+      lng = EXCLUDED.lng,
+      imported_at = now()
+  `;
+
+  return pointCount;
+}
+
+/**
+ * Streams of a workout, or null if none were imported
+ */
+export async function getWorkoutStreamsDB(
+  workoutId: number
+): Promise<(WorkoutStreams & { source: string }) | null> {
+  const rows = await sql/*sql*/`
+    SELECT source, time_s, distance_m, heartrate, velocity_mps, altitude_m, lat, lng
+    FROM workout_streams
+    WHERE workout_id = ${workoutId}
+    LIMIT 1
+  `;
+  if (!rows[0]) return null;
+
+  const r = rows[0];
+  // real[] can come back as strings depending on the driver's type parsing
+  const nums = (a: unknown): NumArray =>
+    Array.isArray(a) ? a.map((v) => (v === null ? null : Number(v))) : null;
+
+  return {
+    source: String(r.source),
+    time_s: (r.time_s as unknown[]).map(Number),
+    distance_m: nums(r.distance_m),
+    heartrate: nums(r.heartrate),
+    velocity_mps: nums(r.velocity_mps),
+    altitude_m: nums(r.altitude_m),
+    lat: nums(r.lat),
+    lng: nums(r.lng),
+  };
+}
+
+/**
+ * Whether streams were already imported for a workout
+ */
+export async function hasWorkoutStreamsDB(workoutId: number): Promise<boolean> {
+  const rows = await sql/*sql*/`
+    SELECT 1 FROM workout_streams WHERE workout_id = ${workoutId} LIMIT 1
+  `;
+  return rows.length > 0;
+}
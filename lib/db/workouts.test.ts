@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/db/client', () => ({
+  sql: vi.fn(),
+}));
+
+import { sql } from '@/lib/db/client';
+import { mergeWorkoutFields, recomputeTrainingLoadDB, refreshTrainingLoadDB } from './workouts';
+import type { Workout } from './validation';
+
+const manual: Workout = {
+  id: 1,
+  date: new Date('2025-01-15'),
+  workout_type: 'running',
+  duration_min: 50,
+  perceived_effort: 6,
+  details: { distance_km: 10 },
+  notes: 'Easy loop around the lake',
+  source: 'manual',
+};
+
+const strava: Workout = {
+  id: 2,
+  date: new Date('2025-01-15'),
+  workout_type: 'running',
+  duration_min: 48,
+  intensity: 'moderate',
+  details: { distance_km: 10.12, avg_heartrate: 148, elevation_gain_m: 35 },
+  source: 'strava',
+  external_id: '123456',
+};
+
+describe('mergeWorkoutFields', () => {
+  it('should prefer the richer details object on conflicting keys', () => {
+    const merged = mergeWorkoutFields(manual, strava);
+
+    expect(merged.details).toEqual({ distance_km: 10.12, avg_heartrate: 148, elevation_gain_m: 35 });
+  });
+
+  it('should keep keys that only exist in the poorer details object', () => {
+    const merged = mergeWorkoutFields(
+      { ...manual, details: { distance_km: 10, shoes: 'Trail 3' } },
+      strava
+    );
+
+    expect(merged.details).toMatchObject({ distance_km: 10.12, shoes: 'Trail 3' });
+  });
+
+  it('should take scalar fields from the kept workout with fallback', () => {
+    const merged = mergeWorkoutFields(manual, strava);
+
+    expect(merged.duration_min).toBe(50);
+    expect(merged.perceived_effort).toBe(6);
+    expect(merged.intensity).toBe('moderate');
+  });
+
+  it('should combine distinct notes', () => {
+    const merged = mergeWorkoutFields(manual, { ...strava, notes: 'Morning Run' });
+
+    expect(merged.notes).toBe('Easy loop around the lake\n\nMorning Run');
+    expect(mergeWorkoutFields(manual, { ...strava, notes: manual.notes }).notes).toBe(manual.notes);
+  });
+
+  it('should leave details undefined when neither workout has any', () => {
+    const merged = mergeWorkoutFields(
+      { ...manual, details: undefined },
+      { ...strava, details: undefined }
+    );
+
+    expect(merged.details).toBeUndefined();
+  });
+});
+
+describe('recomputeTrainingLoadDB', () => {
+  it('should replace the stored load of workouts with heart rate or power', async () => {
+    vi.mocked(sql)
+      .mockResolvedValueOnce([
+        { id: 2, duration_min: 48, avg_heartrate: 148, avg_watts: null },
+        { id: 5, duration_min: 60, avg_heartrate: null, avg_watts: 200 },
+      ] as never)
+      .mockResolvedValueOnce([{ id: 2 }, { id: 5 }] as never);
+
+    const updated = await recomputeTrainingLoadDB({ max_hr: 190, resting_hr: 60, lthr: null, ftp_w: 250, sex: null });
+
+    expect(updated).toBe(2);
+    const loads = JSON.parse(vi.mocked(sql).mock.calls[1][1] as string);
+    expect(loads[0]).toMatchObject({ id: 2, load: { hr_zone: expect.any(Number), trimp: expect.any(Number) } });
+    expect(loads[1]).toEqual({ id: 5, load: { intensity_factor: 0.8 } });
+  });
+});
+
+describe('refreshTrainingLoadDB', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should store the load of the merged workout and drop stale values', async () => {
+    const edited = { ...strava, id: 2, duration_min: 60, details: { ...strava.details, trimp: 80, hr_zone: 3 } };
+    vi.mocked(sql).mockResolvedValueOnce([
+      { ...edited, date: '2025-01-15', created_at: '2025-01-15T10:00:00Z', details: { ...strava.details, trimp: 101.2, hr_zone: 3 } },
+    ] as never);
+
+    const workout = await refreshTrainingLoadDB(edited, { max_hr: 190, resting_hr: 60, lthr: null, ftp_w: null, sex: null });
+
+    const [strings, load] = vi.mocked(sql).mock.calls[0] as unknown as [string[], string];
+    expect(strings.join('?')).toContain("- 'trimp' - 'hr_zone' - 'intensity_factor'");
+    expect(JSON.parse(load)).toEqual({ trimp: expect.any(Number), hr_zone: expect.any(Number) });
+    expect(JSON.parse(load).trimp).not.toBe(80);
+    expect(workout.details?.trimp).toBe(101.2);
+  });
+});
@@ -1,5 +1,12 @@
 import { sql } from "@/lib/db/client";
-import { ZWorkout, ZWorkoutUpsert, type WorkoutUpsert } from "@/lib/db/validation";
+import {
+  ZWorkout,
+  ZWorkoutUpsert,
+  type Workout,
+  type WorkoutUpsert,
+  type WorkoutUpdate,
+} from "@/lib/db/validation";
+import { trainingLoad, type AthleteProfile, type TrainingLoad } from "@/lib/phys/training-load";
 
 /**
  * Get workouts within a date range, optionally filtered by type
@@ -125,7 +132,9 @@ export async function getWorkoutByIdDB(id: number) {
       perceived_effort,
       details,
       notes,
-      created_at
+      created_at,
+      source,
+      external_id
     FROM workouts
     WHERE id = ${id}
     LIMIT 1
@@ -135,20 +144,7 @@ export async function getWorkoutByIdDB(id: number) {
     throw new Error(`Workout with id ${id} not found`);
   }
 
-  const r = rows[0];
-  const out = {
-    id: Number(r.id),
-    date: new Date(r.date),
-    workout_type: r.workout_type,
-    duration_min: Number(r.duration_min),
-    intensity: r.intensity || undefined,
-    perceived_effort: r.perceived_effort === null ? undefined : Number(r.perceived_effort),
-    details: r.details || undefined,
-    notes: r.notes || undefined,
-    created_at: new Date(r.created_at).toISOString(),
-  };
-
-  return ZWorkout.parse(out);
+  return toWorkout(rows[0]);
 }
 
 /**
@@ -243,3 +239,292 @@ export async function getTotalDistanceDB(
 
   return Number(rows[0]?.total_distance || 0);
 }
+
+// ---- Editing, deletion and duplicate merging ----
+
+/** Map a workouts row (including integration columns) to a validated Workout */
+function toWorkout(r: Record<string, unknown>): Workout {
+  return ZWorkout.parse({
+    id: Number(r.id),
+    date: new Date(r.date as string),
+    workout_type: r.workout_type,
+    duration_min: Number(r.duration_min),
+    intensity: r.intensity || undefined,
+    perceived_effort: r.perceived_effort === null || r.perceived_effort === undefined
+      ? undefined
+      : Number(r.perceived_effort),
+    details: r.details || undefined,
+    notes: r.notes || undefined,
+    created_at: new Date(r.created_at as string).toISOString(),
+    source: r.source || undefined,
+    external_id: r.external_id || undefined,
+  });
+}
+
+/**
+ * Partially update a workout. `details` is merged shallowly into the stored
+ * object, every other field is replaced when provided.
+ * Returns null if the workout does not exist.
+ */
+export async function updateWorkoutDB(id: number, patch: Omit<WorkoutUpdate, "id">) {
+  const detailsJson = patch.details ? JSON.stringify(patch.details) : null;
+
+  const rows = await sql/*sql*/`
+    UPDATE workouts
+    SET
+      date = COALESCE(${patch.date ?? null}::date, date),
+      workout_type = COALESCE(${patch.workout_type ?? null}::varchar, workout_type),
+      duration_min = COALESCE(${patch.duration_min ?? null}::integer, duration_min),
+      intensity = COALESCE(${patch.intensity ?? null}::varchar, intensity),
+      perceived_effort = COALESCE(${patch.perceived_effort ?? null}::integer, perceived_effort),
+      details = CASE
+        WHEN ${detailsJson}::jsonb IS NULL THEN details
+        ELSE COALESCE(details, '{}'::jsonb) || ${detailsJson}::jsonb
+      END,
+      notes = COALESCE(${patch.notes ?? null}::text, notes)
+    WHERE id = ${id}
+    RETURNING
+      id, date, workout_type, duration_min, intensity, perceived_effort,
+      details, notes, created_at, source, external_id
+  `;
+
+  return rows[0] ? toWorkout(rows[0]) : null;
+}
+
+/** Training load kept in `details` (the intensity goes into its own column) */
+function storedLoad(
+  durationMin: number,
+  avgHeartrate: unknown,
+  avgWatts: unknown,
+  profile: AthleteProfile
+): Pick<TrainingLoad, "trimp" | "hr_zone" | "intensity_factor"> {
+  const { trimp, hr_zone, intensity_factor } = trainingLoad(
+    {
+      duration_min: durationMin,
+      avg_heartrate: typeof avgHeartrate === "number" ? avgHeartrate : null,
+      avg_watts: typeof avgWatts === "number" ? avgWatts : null,
+    },
+    profile
+  );
+  return { trimp, hr_zone, intensity_factor };
+}
+
+/**
+ * Recompute the stored training load of an edited workout from its merged
+ * duration, heart rate and power, dropping values that no longer apply.
+ * Returns the workout as stored afterwards.
+ */
+export async function refreshTrainingLoadDB(workout: Workout, profile: AthleteProfile): Promise<Workout> {
+  const load = storedLoad(workout.duration_min, workout.details?.avg_heartrate, workout.details?.avg_watts, profile);
+
+  const rows = await sql/*sql*/`
+    UPDATE workouts
+    SET details = (COALESCE(details, '{}'::jsonb) - 'trimp' - 'hr_zone' - 'intensity_factor') || ${JSON.stringify(load)}::jsonb
+    WHERE id = ${workout.id}
+    RETURNING
+      id, date, workout_type, duration_min, intensity, perceived_effort,
+      details, notes, created_at, source, external_id
+  `;
+
+  return rows[0] ? toWorkout(rows[0]) : workout;
+}
+
+/**
+ * Recompute the stored training load (TRIMP, zone and intensity factor in
+ * `details`) of every workout with heart rate or power, after the athlete's
+ * thresholds changed. The intensity column is left alone, since it may have
+ * been logged by hand. Returns the number of workouts updated.
+ */
+export async function recomputeTrainingLoadDB(profile: AthleteProfile): Promise<number> {
+  const rows = await sql/*sql*/`
+    SELECT id, duration_min, details->'avg_heartrate' AS avg_heartrate, details->'avg_watts' AS avg_watts
+    FROM workouts
+    WHERE details ? 'avg_heartrate' OR details ? 'avg_watts'
+  `;
+  if (rows.length === 0) return 0;
+
+  const loads = rows.map((r) => ({
+    id: Number(r.id),
+    load: storedLoad(Number(r.duration_min), r.avg_heartrate, r.avg_watts, profile),
+  }));
+
+  const updated = await sql/*sql*/`
+    UPDATE workouts w
+    SET details = (w.details - 'trimp' - 'hr_zone' - 'intensity_factor') || t.load
+    FROM jsonb_to_recordset(${JSON.stringify(loads)}::jsonb) AS t(id integer, load jsonb)
+    WHERE w.id = t.id
+    RETURNING w.id
+  `;
+  return updated.length;
+}
+
+/**
+ * Delete a workout. If it came from an integration, its external ID is
+ * tombstoned so the next sync does not re-import it.
+ * Returns the deleted workout, or null if it did not exist.
+ */
+export async function deleteWorkoutDB(id: number) {
+  const rows = await sql/*sql*/`
+    WITH removed AS (
+      DELETE FROM workouts
+      WHERE id = ${id}
+      RETURNING
+        id, date, workout_type, duration_min, intensity, perceived_effort,
+        details, notes, created_at, source, external_id
+    ), tombstone AS (
+      INSERT INTO workout_tombstones (source, external_id, reason)
+      SELECT source, external_id, 'deleted'
+      FROM removed
+      WHERE external_id IS NOT NULL
+      ON CONFLICT (source, external_id) DO NOTHING
+    )
+    SELECT * FROM removed
+  `;
+
+  return rows[0] ? toWorkout(rows[0]) : null;
+}
+
+/** Number of populated (non-null) keys in a details object */
+function detailsRichness(details: Record<string, unknown> | undefined): number {
+  if (!details) return 0;
+  return Object.values(details).filter((v) => v !== null && v !== undefined && v !== "").length;
+}
+
+/**
+ * Combine two workouts describing the same session.
+ * The richer details object wins on conflicting keys and keys only present in
+ * the other one are kept. Scalar fields come from `keep`, falling back to `other`.
+ */
+export function mergeWorkoutFields(keep: Workout, other: Workout) {
+  const keepIsRicher = detailsRichness(keep.details) >= detailsRichness(other.details);
+  const [richer, poorer] = keepIsRicher ? [keep.details, other.details] : [other.details, keep.details];
+  const details = richer || poorer ? { ...(poorer ?? {}), ...(richer ?? {}) } : undefined;
+
+  const notes = [keep.notes, other.notes]
+    .filter((n): n is string => !!n && n.trim().length > 0)
+    .filter((n, i, all) => all.indexOf(n) === i)
+    .join("\n\n");
+
+  return {
+    duration_min: keep.duration_min ?? other.duration_min,
+    intensity: keep.intensity ?? other.intensity,
+    perceived_effort: keep.perceived_effort ?? other.perceived_effort,
+    details,
+    notes: notes || undefined,
+  };
+}
+
+/**
+ * Merge the duplicate `mergeId` into `keepId` and delete the duplicate.
+ * An external ID on the deleted row is tombstoned so a later Strava sync
+ * does not re-create it.
+ * Returns null if either workout does not exist.
+ */
+export async function mergeWorkoutsDB(keepId: number, mergeId: number) {
+  const rows = await sql/*sql*/`
+    SELECT
+      id, date, workout_type, duration_min, intensity, perceived_effort,
+      details, notes, created_at, source, external_id
+    FROM workouts
+    WHERE id IN (${keepId}, ${mergeId})
+  `;
+
+  const keepRow = rows.find((r) => Number(r.id) === keepId);
+  const mergeRow = rows.find((r) => Number(r.id) === mergeId);
+  if (!keepRow || !mergeRow) return null;
+
+  const merged = mergeWorkoutFields(toWorkout(keepRow), toWorkout(mergeRow));
+
+  // Keep the duplicate's streams and best efforts where the kept workout has none (deleting it cascades)
+  await sql/*sql*/`
+    UPDATE workout_streams
+    SET workout_id = ${keepId}
+    WHERE workout_id = ${mergeId}
+      AND NOT EXISTS (SELECT 1 FROM workout_streams WHERE workout_id = ${keepId})
+  `;
+  await sql/*sql*/`
+    UPDATE workout_best_efforts
+    SET workout_id = ${keepId}
+    WHERE workout_id = ${mergeId}
+      AND distance NOT IN (SELECT distance FROM workout_best_efforts WHERE workout_id = ${keepId})
+  `;
+
+  const updated = await sql/*sql*/`
+    WITH removed AS (
+      DELETE FROM workouts
+      WHERE id = ${mergeId}
+      RETURNING source, external_id
+    ), tombstone AS (
+      INSERT INTO workout_tombstones (source, external_id, reason, merged_into_id)
+      SELECT source, external_id, 'merged', ${keepId}
+      FROM removed
+      WHERE external_id IS NOT NULL
+      ON CONFLICT (source, external_id)
+      DO UPDATE SET reason = 'merged', merged_into_id = EXCLUDED.merged_into_id
+    )
+    UPDATE workouts
+    SET
+      duration_min = ${merged.duration_min},
+      intensity = ${merged.intensity ?? null}::varchar,
+      perceived_effort = ${merged.perceived_effort ?? null}::integer,
+      details = ${merged.details ? JSON.stringify(merged.details) : null}::jsonb,
+      notes = ${merged.notes ?? null}::text
+    WHERE id = ${keepId}
+    RETURNING
+      id, date, workout_type, duration_min, intensity, perceived_effort,
+      details, notes, created_at, source, external_id
+  `;
+
+  return updated[0] ? toWorkout(updated[0]) : null;
+}
+
+/**
+ * Whether an externally sourced workout was deleted or merged by hand
+ */
+export async function isWorkoutTombstonedDB(source: string, externalId: string): Promise<boolean> {
+  const rows = await sql/*sql*/`
+    SELECT 1
+    FROM workout_tombstones
+    WHERE source = ${source}
+      AND external_id = ${externalId}
+    LIMIT 1
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Insert an externally sourced workout unless its external_id is already
+ * taken or was deleted/merged by hand. Returns the new id, or null when skipped.
+ */
+export async function insertExternalWorkoutDB(workout: WorkoutUpsert): Promise<number | null> {
+  const parsed = ZWorkoutUpsert.parse(workout);
+  if (!parsed.source || !parsed.external_id) {
+    throw new Error("External workouts need a source and external_id");
+  }
+
+  const rows = await sql/*sql*/`
+    INSERT INTO workouts (
+      date, workout_type, duration_min, intensity, perceived_effort,
+      details, notes, source, external_id, synced_at
+    )
+    SELECT
+      ${parsed.date}::date,
+      ${parsed.workout_type},
+      ${parsed.duration_min},
+      ${parsed.intensity ?? null}::varchar,
+      ${parsed.perceived_effort ?? null}::integer,
+      ${parsed.details ? JSON.stringify(parsed.details) : null}::jsonb,
+      ${parsed.notes ?? null}::text,
+      ${parsed.source},
+      ${parsed.external_id},
+      now()
+    WHERE NOT EXISTS (
+      SELECT 1 FROM workout_tombstones
+      WHERE source = ${parsed.source} AND external_id = ${parsed.external_id}
+    )
+    ON CONFLICT (external_id) WHERE external_id IS NOT NULL DO NOTHING
+    RETURNING id
+  `;
+
+  return rows[0] ? Number(rows[0].id) : null;
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  activityFromTrackpoints,
+  fileExternalId,
+  haversine,
+  mapFileSportToWorkoutType,
+  transformFileActivityToWorkout,
+} from './activity';
+
+const athlete = { max_hr: 190, resting_hr: 50, lthr: null, ftp_w: null, sex: 'male' as const };
+
+describe('haversine', () => {
+  it('measures one degree of latitude as ~111 km', () => {
+    expect(haversine(48, 11, 49, 11)).toBeCloseTo(111_195, -2);
+  });
+});
+
+describe('mapFileSportToWorkoutType', () => {
+  it('maps exporter sport names', () => {
+    expect(mapFileSportToWorkoutType('Running')).toBe('running');
+    expect(mapFileSportToWorkoutType('trail_running')).toBe('running');
+    expect(mapFileSportToWorkoutType('Biking')).toBe('cycling');
+    expect(mapFileSportToWorkoutType('hiking')).toBe('hiking');
+    expect(mapFileSportToWorkoutType('indoor_rowing')).toBe('rowing');
+    expect(mapFileSportToWorkoutType('bouldering')).toBe('bouldering');
+    expect(mapFileSportToWorkoutType('rock_climbing')).toBe('climbing');
+    expect(mapFileSportToWorkoutType('strength_training')).toBe('strength');
+    expect(mapFileSportToWorkoutType('9')).toBe('running');
+    expect(mapFileSportToWorkoutType('Other')).toBe('other');
+    expect(mapFileSportToWorkoutType(null)).toBe('other');
+  });
+});
+
+describe('activityFromTrackpoints', () => {
+  it('sorts points and excludes pauses from moving time', () => {
+    const t0 = Date.parse('2024-05-01T06:30:00Z');
+    const activity = activityFromTrackpoints('gpx', [
+      { time: t0 + 20_000, distance_m: 100 },
+      { time: t0, distance_m: 0 },
+      { time: t0 + 10_000, distance_m: 50 },
+      { time: t0 + 620_000, distance_m: 150 },
+    ]);
+
+    expect(activity.streams?.time_s).toEqual([0, 10, 20, 620]);
+    expect(activity.elapsed_s).toBe(620);
+    expect(activity.moving_s).toBe(20);
+    expect(activity.distance_m).toBe(150);
+  });
+
+  it('prefers totals stated in the file', () => {
+    const activity = activityFromTrackpoints(
+      'tcx',
+      [{ time: 0, distance_m: 0 }, { time: 60_000, distance_m: 200 }],
+      { totals: { distance_m: 210, moving_s: 58 } }
+    );
+    expect(activity.distance_m).toBe(210);
+    expect(activity.moving_s).toBe(58);
+  });
+});
+
+describe('transformFileActivityToWorkout', () => {
+  const activity = activityFromTrackpoints('fit', [], {
+    sport: 'running',
+    start: new Date('2024-05-01T22:30:00Z'),
+    totals: { elapsed_s: 3000, moving_s: 2940, distance_m: 10_000, avg_heartrate: 155, elevation_gain_m: 80.4 },
+  });
+
+  it('maps to a file-sourced workout keyed by start time', () => {
+    const workout = transformFileActivityToWorkout(activity, athlete);
+
+    expect(workout).toMatchObject({
+      date: '2024-05-02', // Berlin calendar day (00:30 CEST)
+      workout_type: 'running',
+      duration_min: 49,
+      source: 'file',
+      external_id: 'file:2024-05-01T22:30:00Z',
+    });
+    expect(workout.details).toMatchObject({
+      distance_m: 10_000,
+      elevation_gain_m: 80,
+      moving_time_sec: 2940,
+      elapsed_time_sec: 3000,
+      pace_sec_per_km: 294,
+      file_format: 'fit',
+      avg_heartrate: 155,
+    });
+  });
+
+  it('derives training load from heart rate', () => {
+    const workout = transformFileActivityToWorkout(activity, athlete);
+    expect(workout.details?.trimp).toBeGreaterThan(0);
+    expect(workout.intensity).toBeDefined();
+    expect(workout.perceived_effort).toBe(8);
+  });
+
+  it('ignores milliseconds in the external id', () => {
+    expect(fileExternalId({ ...activity, start: new Date('2024-05-01T22:30:00.400Z') })).toBe(
+      'file:2024-05-01T22:30:00Z'
+    );
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Activities parsed from uploaded GPX, TCX and FIT files, and their mapping
+ * to workouts. The parsers produce trackpoints; the summary (duration,
+ * distance, climb, heart rate) is derived here unless the file states it.
+ */
+
+import type { WorkoutUpsert } from '@/lib/db/validation';
+import {
+  elevationProfile,
+  movingTime,
+  type WorkoutStreams,
+} from '@/lib/phys/workout-streams';
+import {
+  applyTrainingLoad,
+  effortFromHeartRate,
+  DEFAULT_ATHLETE_PROFILE,
+  type AthleteProfile,
+} from '@/lib/phys/training-load';
+import { toBerlinYMD } from '@/lib/time/berlin';
+
+export type FileFormat = 'gpx' | 'tcx' | 'fit';
+
+export type Trackpoint = {
+  time: number;                 // ms since epoch
+  lat?: number | null;
+  lng?: number | null;
+  altitude_m?: number | null;
+  distance_m?: number | null;   // cumulative, when the device recorded it
+  heartrate?: number | null;
+  speed_mps?: number | null;
+};
+
+/** Totals stated by the file itself; take precedence over derived values */
+export type ActivityTotals = {
+  elapsed_s?: number | null;
+  moving_s?: number | null;
+  distance_m?: number | null;
+  elevation_gain_m?: number | null;
+  avg_heartrate?: number | null;
+  max_heartrate?: number | null;
+  avg_watts?: number | null;
+};
+
+export type ParsedActivity = {
+  format: FileFormat;
+  start: Date;
+  sport: string | null;         // sport as named in the file (e.g. "Running", "hiking")
+  name: string | null;
+  streams: WorkoutStreams | null;
+  elapsed_s: number;
+  moving_s: number;
+  distance_m: number | null;
+  elevation_gain_m: number | null;
+  avg_heartrate: number | null;
+  max_heartrate: number | null;
+  avg_watts: number | null;
+};
+
+export class ActivityFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ActivityFileError';
+  }
+}
+
+const EARTH_RADIUS_M = 6_371_000;
+
+/** Great-circle distance between two coordinates in metres */
+export function haversine(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const rad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * rad;
+  const dLng = (lng2 - lng1) * rad;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+}
+
+/** A series, or null when no point has a value */
+function series(values: (number | null | undefined)[]): (number | null)[] | null {
+  const out = values.map((v) => (typeof v === 'number' && Number.isFinite(v) ? v : null));
+  return out.some((v) => v !== null) ? out : null;
+}
+
+/** Cumulative distance from coordinates; points without a fix add nothing */
+function trackDistance(points: Trackpoint[]): (number | null)[] | null {
+  let total = 0;
+  let prev: Trackpoint | null = null;
+  const out: (number | null)[] = [];
+
+  for (const p of points) {
+    const hasFix = typeof p.lat === 'number' && typeof p.lng === 'number';
+    if (hasFix && prev) total += haversine(prev.lat!, prev.lng!, p.lat!, p.lng!);
+    if (hasFix) prev = p;
+    out.push(prev ? total : null);
+  }
+  return prev ? out : null;
+}
+
+/** Speed over a few samples around each point (distance / time) */
+function derivedSpeed(time: number[], distance: (number | null)[]): (number | null)[] {
+  const span = 2;
+  return time.map((_, i) => {
+    const a = Math.max(0, i - span);
+    const b = Math.min(time.length - 1, i + span);
+    const da = distance[a];
+    const db = distance[b];
+    const dt = time[b] - time[a];
+    return da !== null && db !== null && dt > 0 ? (db - da) / dt : null;
+  });
+}
+
+/**
+ * Build an activity from its trackpoints (in any order). Distance comes from
+ * the device when recorded, otherwise from the coordinates.
+ */
+export function activityFromTrackpoints(
+  format: FileFormat,
+  points: Trackpoint[],
+  meta: { sport?: string | null; name?: string | null; start?: Date | null; totals?: ActivityTotals } = {}
+): ParsedActivity {
+  const sorted = points
+    .filter((p) => Number.isFinite(p.time))
+    .sort((a, b) => a.time - b.time);
+  const totals = meta.totals ?? {};
+
+  const start = meta.start ?? (sorted.length ? new Date(sorted[0].time) : null);
+  if (!start || Number.isNaN(start.getTime())) {
+    throw new ActivityFileError('Activity has no start time');
+  }
+
+  let streams: WorkoutStreams | null = null;
+  if (sorted.length >= 2) {
+    const t0 = sorted[0].time;
+    const time_s = sorted.map((p) => Math.round((p.time - t0) / 1000));
+    const distance_m = series(sorted.map((p) => p.distance_m)) ?? trackDistance(sorted);
+    streams = {
+      time_s,
+      distance_m,
+      heartrate: series(sorted.map((p) => (p.heartrate ? Math.round(p.heartrate) : null))),
+      velocity_mps:
+        series(sorted.map((p) => p.speed_mps)) ?? (distance_m ? derivedSpeed(time_s, distance_m) : null),
+      altitude_m: series(sorted.map((p) => p.altitude_m)),
+      lat: series(sorted.map((p) => p.lat)),
+      lng: series(sorted.map((p) => p.lng)),
+    };
+  }
+
+  const hr = (streams?.heartrate ?? []).filter((v): v is number => v !== null && v > 0);
+  const lastDistance = streams?.distance_m?.filter((v): v is number => v !== null).at(-1) ?? null;
+  const elapsed = totals.elapsed_s ?? (streams ? streams.time_s[streams.time_s.length - 1] : 0);
+
+  return {
+    format,
+    start,
+    sport: meta.sport ?? null,
+    name: meta.name ?? null,
+    streams,
+    elapsed_s: elapsed,
+    moving_s: totals.moving_s ?? (streams ? movingTime(streams) : elapsed),
+    distance_m: totals.distance_m ?? lastDistance,
+    elevation_gain_m: totals.elevation_gain_m ?? (streams ? elevationProfile(streams)?.gain_m ?? null : null),
+    avg_heartrate:
+      totals.avg_heartrate ?? (hr.length ? Math.round(hr.reduce((a, b) => a + b, 0) / hr.length) : null),
+    max_heartrate: totals.max_heartrate ?? (hr.length ? hr.reduce((a, b) => Math.max(a, b)) : null),
+    avg_watts: totals.avg_watts ?? null,
+  };
+}
+
+/**
+ * Maps sport names used by Garmin, Strava and other exporters to our workout
+ * types (Strava GPX files use numeric activity types)
+ */
+export function mapFileSportToWorkoutType(sport: string | null): WorkoutUpsert['workout_type'] {
+  const s = (sport ?? '').trim().toLowerCase();
+  const numeric: Record<string, WorkoutUpsert['workout_type']> = {
+    '1': 'cycling',
+    '4': 'hiking',
+    '9': 'running',
+    '10': 'hiking',
+  };
+  if (numeric[s]) return numeric[s];
+
+  if (/boulder/.test(s)) return 'bouldering';
+  if (/climb/.test(s)) return 'climbing';
+  if (/run/.test(s)) return 'running';
+  if (/bik|cycl|ride/.test(s)) return 'cycling';
+  if (/hik|walk/.test(s)) return 'hiking';
+  if (/row/.test(s)) return 'rowing';
+  if (/strength|weight|training/.test(s)) return 'strength';
+  return 'other';
+}
+
+/**
+ * External ID of an uploaded activity: its start time to the second, so the
+ * same activity exported as GPX, TCX or FIT is only imported once
+ */
+export function fileExternalId(activity: ParsedActivity): string {
+  return `file:${activity.start.toISOString().replace(/\.\d{3}Z$/, 'Z')}`;
+}
+
+/**
+ * Transforms a parsed activity file into our workout format, like
+ * transformStravaActivityToWorkout. The date is the Berlin calendar day of
+ * the start time.
+ */
+export function transformFileActivityToWorkout(
+  activity: ParsedActivity,
+  athlete: AthleteProfile = DEFAULT_ATHLETE_PROFILE
+): WorkoutUpsert {
+  const workoutType = mapFileSportToWorkoutType(activity.sport);
+  const movingSec = Math.round(activity.moving_s || activity.elapsed_s);
+
+  const details: Record<string, unknown> = {
+    elapsed_time_sec: Math.round(activity.elapsed_s),
+    moving_time_sec: movingSec,
+    file_format: activity.format,
+    start_time: activity.start.toISOString(),
+  };
+
+  if (activity.name) details.name = activity.name;
+  if (activity.distance_m) details.distance_m = Math.round(activity.distance_m * 10) / 10;
+  if (activity.elevation_gain_m !== null) details.elevation_gain_m = Math.round(activity.elevation_gain_m);
+  if (activity.avg_heartrate) details.avg_heartrate = activity.avg_heartrate;
+  if (activity.max_heartrate) details.max_heartrate = activity.max_heartrate;
+  if (activity.avg_watts) details.avg_watts = activity.avg_watts;
+
+  if (activity.distance_m && movingSec > 0) {
+    details.avg_speed_mps = Math.round((activity.distance_m / movingSec) * 1000) / 1000;
+    if (workoutType === 'running') {
+      details.pace_sec_per_km = Math.round(movingSec / (activity.distance_m / 1000));
+    }
+  }
+
+  return applyTrainingLoad(
+    {
+      date: toBerlinYMD(activity.start),
+      workout_type: workoutType,
+      duration_min: Math.max(1, Math.round(movingSec / 60)),
+      perceived_effort: activity.avg_heartrate
+        ? effortFromHeartRate(activity.avg_heartrate, athlete)
+        : undefined,
+      details,
+      source: 'file',
+      external_id: fileExternalId(activity),
+    },
+    athlete
+  );
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync, gzipSync } from 'node:zlib';
+import { isActivityFile, parseUpload, readZipEntries } from './files';
+
+const encoder = new TextEncoder();
+
+const gpx = (start: string) => `<?xml version="1.0"?>
+<gpx version="1.1"><trk><type>running</type><trkseg>
+  <trkpt lat="48.000" lon="11.5"><time>${start}</time></trkpt>
+  <trkpt lat="48.001" lon="11.5"><time>${new Date(Date.parse(start) + 30_000).toISOString()}</time></trkpt>
+</trkseg></trk></gpx>`;
+
+/** Zip archive with local headers, central directory and end record */
+function zip(entries: Array<{ name: string; content: Uint8Array; deflate?: boolean; declaredSize?: number }>): Uint8Array {
+  const local: number[] = [];
+  const central: number[] = [];
+  const u16 = (out: number[], v: number) => out.push(v & 0xff, (v >> 8) & 0xff);
+  const u32 = (out: number[], v: number) => out.push(v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff, (v >>> 24) & 0xff);
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = entry.deflate ? new Uint8Array(deflateRawSync(entry.content)) : entry.content;
+    const method = entry.deflate ? 8 : 0;
+    const offset = local.length;
+
+    u32(local, 0x04034b50); u16(local, 20); u16(local, 0); u16(local, method);
+    u16(local, 0); u16(local, 0); u32(local, 0);
+    u32(local, data.length); u32(local, entry.declaredSize ?? entry.content.length);
+    u16(local, name.length); u16(local, 0);
+    local.push(...name, ...data);
+
+    u32(central, 0x02014b50); u16(central, 20); u16(central, 20); u16(central, 0); u16(central, method);
+    u16(central, 0); u16(central, 0); u32(central, 0);
+    u32(central, data.length); u32(central, entry.declaredSize ?? entry.content.length);
+    u16(central, name.length); u16(central, 0); u16(central, 0);
+    u16(central, 0); u16(central, 0); u32(central, 0); u32(central, offset);
+    central.push(...name);
+  }
+
+  const end: number[] = [];
+  u32(end, 0x06054b50); u16(end, 0); u16(end, 0);
+  u16(end, entries.length); u16(end, entries.length);
+  u32(end, central.length); u32(end, local.length); u16(end, 0);
+  return new Uint8Array([...local, ...central, ...end]);
+}
+
+describe('isActivityFile', () => {
+  it('accepts activity files, gzipped files and archives', () => {
+    expect(isActivityFile('run.GPX')).toBe(true);
+    expect(isActivityFile('activities/123.fit.gz')).toBe(true);
+    expect(isActivityFile('export.zip')).toBe(true);
+    expect(isActivityFile('notes.txt')).toBe(false);
+  });
+});
+
+describe('readZipEntries', () => {
+  it('extracts stored and deflated activity files, skipping others', () => {
+    const archive = zip([
+      { name: 'activities/a.gpx', content: encoder.encode('stored') },
+      { name: 'activities/b.tcx', content: encoder.encode('deflated '.repeat(50)), deflate: true },
+      { name: 'activities.csv', content: encoder.encode('id,name') },
+    ]);
+
+    const entries = readZipEntries(archive);
+    expect(entries.map((e) => e.name)).toEqual(['activities/a.gpx', 'activities/b.tcx']);
+    expect(new TextDecoder().decode(entries[1].data)).toBe('deflated '.repeat(50));
+  });
+
+  it('limits the bytes actually extracted, whatever sizes are declared', () => {
+    const bomb = { content: new Uint8Array(600 * 1024), deflate: true, declaredSize: 10 };
+    const archive = zip([
+      { name: 'a.gpx', ...bomb },
+      { name: 'b.gpx', ...bomb },
+    ]);
+
+    expect(readZipEntries(archive, { maxArchiveBytes: 2 * 1024 * 1024 })).toHaveLength(2);
+    expect(() => readZipEntries(archive, { maxArchiveBytes: 1024 * 1024 })).toThrow(/too large/);
+  });
+
+  it('rejects other files', () => {
+    expect(() => readZipEntries(encoder.encode('not a zip at all, just text'))).toThrow(/Not a zip/);
+  });
+});
+
+describe('parseUpload', () => {
+  it('parses every activity file in an archive, reporting broken ones', () => {
+    const archive = zip([
+      { name: 'a.gpx', content: encoder.encode(gpx('2024-05-01T06:30:00Z')), deflate: true },
+      { name: 'b.gpx.gz', content: new Uint8Array(gzipSync(gpx('2024-05-02T06:30:00Z'))) },
+      { name: 'c.fit', content: encoder.encode('garbage') },
+    ]);
+
+    const results = parseUpload('export.zip', archive);
+
+    expect(results).toHaveLength(3);
+    expect(results[0]).toMatchObject({ file: 'a.gpx' });
+    expect('activities' in results[1] && results[1].activities[0].start.toISOString()).toBe(
+      '2024-05-02T06:30:00.000Z'
+    );
+    expect(results[2]).toEqual({ file: 'c.fit', error: 'Not a FIT file' });
+  });
+
+  it('reports unsupported files', () => {
+    expect(parseUpload('route.kml', encoder.encode('<kml/>'))).toEqual([
+      { file: 'route.kml', error: 'Unsupported file type (expected .gpx, .tcx, .fit or .zip)' },
+    ]);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Uploaded activity files: GPX, TCX and FIT, optionally gzipped (as in
+ * Strava bulk exports) or bundled in a zip archive (Garmin and Strava exports).
+ */
+
+import { gunzipSync, inflateRawSync } from 'node:zlib';
+import { ActivityFileError, type ParsedActivity } from './activity';
+import { parseFit } from './fit';
+import { parseGpx } from './gpx';
+import { parseTcx } from './tcx';
+
+// Guards against zip bombs: per extracted file and in total
+export const MAX_FILE_BYTES = 50 * 1024 * 1024;
+export const MAX_ARCHIVE_BYTES = 500 * 1024 * 1024;
+
+export type ParsedFile =
+  | { file: string; activities: ParsedActivity[] }
+  | { file: string; error: string };
+
+const ACTIVITY_FILE = /\.(gpx|tcx|fit)(\.gz)?$/i;
+
+/** Whether a file name looks like something we can import */
+export function isActivityFile(name: string): boolean {
+  return ACTIVITY_FILE.test(name) || /\.zip$/i.test(name);
+}
+
+/**
+ * Entries of a zip archive (stored or deflated), directories skipped.
+ * Reads the central directory, so archives with data descriptors work too.
+ * Sizes the archive declares are checked up front, the extracted bytes as
+ * they are inflated, since a crafted archive can declare anything.
+ */
+export function readZipEntries(
+  data: Uint8Array,
+  { maxArchiveBytes = MAX_ARCHIVE_BYTES }: { maxArchiveBytes?: number } = {}
+): Array<{ name: string; data: Uint8Array }> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // End of central directory record (followed by a comment of up to 64 KiB)
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new ActivityFileError('Not a zip archive');
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries: Array<{ name: string; data: Uint8Array }> = [];
+  let declared = 0;
+  let extracted = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.length || view.getUint32(offset, true) !== 0x02014b50) {
+      throw new ActivityFileError('Corrupt zip archive');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || !ACTIVITY_FILE.test(name)) continue;
+    if (size > MAX_FILE_BYTES || (declared += size) > maxArchiveBytes) {
+      throw new ActivityFileError('Zip archive is too large');
+    }
+
+    // The local header repeats name and extra field, possibly with other lengths
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const start = localOffset + 30 + localNameLength + localExtraLength;
+    const raw = data.subarray(start, start + compressedSize);
+
+    if (method !== 0 && method !== 8) throw new ActivityFileError(`Unsupported zip compression in ${name}`);
+    const limit = Math.min(MAX_FILE_BYTES, maxArchiveBytes - extracted);
+    let entry: Uint8Array;
+    try {
+      entry = method === 0 ? raw : inflateRawSync(raw, { maxOutputLength: limit });
+    } catch (error) {
+      if (error instanceof RangeError) throw new ActivityFileError('Zip archive is too large');
+      throw error;
+    }
+    if ((extracted += entry.length) > maxArchiveBytes) throw new ActivityFileError('Zip archive is too large');
+    entries.push({ name, data: entry });
+  }
+
+  return entries;
+}
+
+/** Parse a single GPX, TCX or FIT file (optionally .gz) */
+export function parseActivityFile(name: string, data: Uint8Array): ParsedActivity[] {
+  const match = ACTIVITY_FILE.exec(name);
+  if (!match) throw new ActivityFileError('Unsupported file type (expected .gpx, .tcx, .fit or .zip)');
+
+  const content = match[2] ? gunzipSync(data, { maxOutputLength: MAX_FILE_BYTES }) : data;
+  switch (match[1].toLowerCase()) {
+    case 'gpx':
+      return parseGpx(new TextDecoder().decode(content));
+    case 'tcx':
+      return parseTcx(new TextDecoder().decode(content));
+    default:
+      return parseFit(content);
+  }
+}
+
+/**
+ * Parse an uploaded file; zip archives are expanded into their activity files.
+ * Errors are reported per file so one broken file does not fail a bulk upload.
+ */
+export function parseUpload(name: string, data: Uint8Array): ParsedFile[] {
+  try {
+    if (/\.zip$/i.test(name)) {
+      return readZipEntries(data).flatMap((entry) => parseUpload(entry.name, entry.data));
+    }
+    return [{ file: name, activities: parseActivityFile(name, data) }];
+  } catch (error) {
+    return [{ file: name, error: error instanceof Error ? error.message : 'Failed to parse file' }];
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { parseFit } from './fit';
+
+type Field = { num: number; size: 1 | 2 | 4; baseType: number; value: number };
+
+/** Minimal FIT encoder: definition + data message per entry, little endian */
+function fitFile(messages: Array<{ local: number; global: number; fields: Field[] } | { compressed: number; local: number; fields: Field[] }>) {
+  const bytes: number[] = [];
+  const push = (value: number, size: number) => {
+    for (let i = 0; i < size; i++) bytes.push((value >>> (8 * i)) & 0xff);
+  };
+  const defined = new Set<number>();
+
+  for (const m of messages) {
+    if ('global' in m && !defined.has(m.local)) {
+      bytes.push(0x40 | m.local, 0, 0);
+      push(m.global, 2);
+      bytes.push(m.fields.length);
+      for (const f of m.fields) bytes.push(f.num, f.size, f.baseType);
+      defined.add(m.local);
+    }
+    bytes.push('compressed' in m ? 0x80 | (m.local << 5) | m.compressed : m.local);
+    for (const f of m.fields) push(f.value, f.size);
+  }
+
+  const header = [14, 0x20, 0x08, 0x08, 0, 0, 0, 0, 0x2e, 0x46, 0x49, 0x54, 0, 0];
+  const size = bytes.length;
+  header[4] = size & 0xff;
+  header[5] = (size >> 8) & 0xff;
+  header[6] = (size >> 16) & 0xff;
+  return new Uint8Array([...header, ...bytes, 0, 0]);
+}
+
+// 2024-05-01T06:30:00Z in FIT time (seconds since 1989-12-31)
+const START = Date.parse('2024-05-01T06:30:00Z') / 1000 - 631065600;
+const UINT32 = 0x86;
+const SINT32 = 0x85;
+const UINT16 = 0x84;
+const UINT8 = 0x02;
+const ENUM = 0x00;
+
+function record(t: number, distanceCm: number, hr: number) {
+  return {
+    local: 1,
+    global: 20,
+    fields: [
+      { num: 253, size: 4 as const, baseType: UINT32, value: START + t },
+      { num: 0, size: 4 as const, baseType: SINT32, value: Math.round(48 / (180 / 2 ** 31)) },
+      { num: 1, size: 4 as const, baseType: SINT32, value: Math.round(11.5 / (180 / 2 ** 31)) },
+      { num: 2, size: 2 as const, baseType: UINT16, value: (520 + 500) * 5 },
+      { num: 3, size: 1 as const, baseType: UINT8, value: hr },
+      { num: 5, size: 4 as const, baseType: UINT32, value: distanceCm },
+    ],
+  };
+}
+
+const session = {
+  local: 0,
+  global: 18,
+  fields: [
+    { num: 253, size: 4 as const, baseType: UINT32, value: START + 1800 },
+    { num: 2, size: 4 as const, baseType: UINT32, value: START },
+    { num: 5, size: 1 as const, baseType: ENUM, value: 1 },            // running
+    { num: 6, size: 1 as const, baseType: ENUM, value: 0xff },         // no sub sport
+    { num: 7, size: 4 as const, baseType: UINT32, value: 1_800_000 },  // elapsed 1800 s
+    { num: 8, size: 4 as const, baseType: UINT32, value: 1_750_000 },  // timer 1750 s
+    { num: 9, size: 4 as const, baseType: UINT32, value: 500_000 },    // 5000 m
+    { num: 16, size: 1 as const, baseType: UINT8, value: 152 },
+    { num: 17, size: 1 as const, baseType: UINT8, value: 171 },
+    { num: 22, size: 2 as const, baseType: UINT16, value: 42 },
+  ],
+};
+
+describe('parseFit', () => {
+  it('reads session totals and records', () => {
+    const data = fitFile([record(0, 0, 120), record(10, 3000, 140), record(20, 6000, 150), session]);
+    const [activity] = parseFit(data);
+
+    expect(activity.format).toBe('fit');
+    expect(activity.sport).toBe('running');
+    expect(activity.start.toISOString()).toBe('2024-05-01T06:30:00.000Z');
+    expect(activity.elapsed_s).toBe(1800);
+    expect(activity.moving_s).toBe(1750);
+    expect(activity.distance_m).toBe(5000);
+    expect(activity.elevation_gain_m).toBe(42);
+    expect(activity.avg_heartrate).toBe(152);
+    expect(activity.max_heartrate).toBe(171);
+    expect(activity.streams?.time_s).toEqual([0, 10, 20]);
+    expect(activity.streams?.distance_m).toEqual([0, 30, 60]);
+    expect(activity.streams?.heartrate).toEqual([120, 140, 150]);
+    expect(activity.streams?.altitude_m?.[0]).toBe(520);
+    expect(activity.streams?.lat?.[0]).toBeCloseTo(48, 6);
+  });
+
+  it('decodes compressed timestamp headers', () => {
+    const compressed = (offset: number, distanceCm: number) => ({
+      compressed: offset,
+      local: 2,
+      fields: [{ num: 5, size: 4 as const, baseType: UINT32, value: distanceCm }],
+    });
+    const first = record(0, 0, 130);
+    const data = fitFile([
+      first,
+      // define local 2 as a record with distance only (no timestamp: dropped)
+      { local: 2, global: 20, fields: [{ num: 5, size: 4, baseType: UINT32, value: 500 }] },
+      compressed((START + 4) & 0x1f, 1000),
+      // offsets are relative to the last timestamp and wrap every 32 s
+      compressed((START + 30) & 0x1f, 9000),
+    ]);
+
+    const [activity] = parseFit(data);
+    expect(activity.streams?.time_s).toEqual([0, 4, 30]);
+    expect(activity.streams?.distance_m).toEqual([0, 10, 90]);
+  });
+
+  it('rejects files without the FIT signature', () => {
+    expect(() => parseFit(new Uint8Array(20))).toThrow(/Not a FIT file/);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Garmin FIT activity files. Decodes the message stream just far enough to
+ * read sessions (one per sport, e.g. in a triathlon) and their records.
+ * Developer fields are skipped; the CRC is not checked.
+ */
+
+import { activityFromTrackpoints, ActivityFileError, type ParsedActivity, type Trackpoint } from './activity';
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_S = 631065600;
+
+// Global message numbers
+const MESG_SESSION = 18;
+const MESG_RECORD = 20;
+
+const SEMICIRCLE_TO_DEG = 180 / 2 ** 31;
+
+/** FIT sport and sub-sport enums mapped to names mapFileSportToWorkoutType understands */
+const SPORTS: Record<number, string> = {
+  1: 'running',
+  2: 'cycling',
+  5: 'swimming',
+  10: 'training',
+  11: 'walking',
+  15: 'rowing',
+  17: 'hiking',
+  31: 'rock_climbing',
+};
+const SUB_SPORTS: Record<number, string> = {
+  14: 'indoor_rowing',
+  20: 'strength_training',
+  69: 'bouldering',
+};
+
+type FieldDef = { num: number; size: number; baseType: number };
+type MessageDef = { global: number; littleEndian: boolean; fields: FieldDef[]; devSize: number };
+type Message = Record<number, number | null>;
+
+/** Read one numeric field; null for the base type's "invalid" value or unsupported sizes */
+function readField(view: DataView, offset: number, field: FieldDef, le: boolean): number | null {
+  switch (field.baseType & 0x1f) {
+    case 0x00: // enum
+    case 0x02: // uint8
+    case 0x0a: // uint8z
+    case 0x0d: { // byte
+      if (field.size !== 1) return null;
+      const v = view.getUint8(offset);
+      return v === 0xff || ((field.baseType & 0x1f) === 0x0a && v === 0) ? null : v;
+    }
+    case 0x01: { // sint8
+      if (field.size !== 1) return null;
+      const v = view.getInt8(offset);
+      return v === 0x7f ? null : v;
+    }
+    case 0x03: { // sint16
+      if (field.size !== 2) return null;
+      const v = view.getInt16(offset, le);
+      return v === 0x7fff ? null : v;
+    }
+    case 0x04: // uint16
+    case 0x0b: { // uint16z
+      if (field.size !== 2) return null;
+      const v = view.getUint16(offset, le);
+      return v === 0xffff || ((field.baseType & 0x1f) === 0x0b && v === 0) ? null : v;
+    }
+    case 0x05: { // sint32
+      if (field.size !== 4) return null;
+      const v = view.getInt32(offset, le);
+      return v === 0x7fffffff ? null : v;
+    }
+    case 0x06: // uint32
+    case 0x0c: { // uint32z
+      if (field.size !== 4) return null;
+      const v = view.getUint32(offset, le);
+      return v === 0xffffffff || ((field.baseType & 0x1f) === 0x0c && v === 0) ? null : v;
+    }
+    case 0x08: { // float32
+      if (field.size !== 4) return null;
+      const v = view.getFloat32(offset, le);
+      return Number.isFinite(v) ? v : null;
+    }
+    default:
+      return null; // strings, 64-bit integers, float64: not needed here
+  }
+}
+
+/** Decode all session and record messages */
+function decodeMessages(data: Uint8Array): { sessions: Message[]; records: Message[] } {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const headerSize = data[0];
+  if (
+    data.length < 12 ||
+    (headerSize !== 12 && headerSize !== 14) ||
+    String.fromCharCode(data[8], data[9], data[10], data[11]) !== '.FIT'
+  ) {
+    throw new ActivityFileError('Not a FIT file');
+  }
+
+  const end = Math.min(data.length, headerSize + view.getUint32(4, true));
+  const defs = new Map<number, MessageDef>();
+  const sessions: Message[] = [];
+  const records: Message[] = [];
+  let lastTimestamp = 0;
+  let offset = headerSize;
+
+  while (offset < end) {
+    const header = data[offset++];
+
+    // Definition message: field layout of a local message type
+    if ((header & 0xc0) === 0x40) {
+      const littleEndian = data[offset + 1] === 0;
+      const global = littleEndian ? view.getUint16(offset + 2, true) : view.getUint16(offset + 2, false);
+      const count = data[offset + 4];
+      offset += 5;
+
+      const fields: FieldDef[] = [];
+      for (let i = 0; i < count; i++, offset += 3) {
+        fields.push({ num: data[offset], size: data[offset + 1], baseType: data[offset + 2] });
+      }
+
+      let devSize = 0;
+      if (header & 0x20) {
+        const devCount = data[offset++];
+        for (let i = 0; i < devCount; i++, offset += 3) devSize += data[offset + 1];
+      }
+
+      defs.set(header & 0x0f, { global, littleEndian, fields, devSize });
+      continue;
+    }
+
+    // Data message, either with a normal or a compressed timestamp header
+    const compressed = (header & 0x80) !== 0;
+    const local = compressed ? (header >> 5) & 0x03 : header & 0x0f;
+    const def = defs.get(local);
+    if (!def) throw new ActivityFileError('Corrupt FIT file (data before definition)');
+
+    const message: Message = {};
+    for (const field of def.fields) {
+      if (offset + field.size > data.length) throw new ActivityFileError('Corrupt FIT file (truncated)');
+      message[field.num] = readField(view, offset, field, def.littleEndian);
+      offset += field.size;
+    }
+    offset += def.devSize;
+
+    if (compressed) {
+      const timeOffset = header & 0x1f;
+      lastTimestamp += (timeOffset - (lastTimestamp & 0x1f)) & 0x1f;
+      message[253] = lastTimestamp;
+    } else if (typeof message[253] === 'number') {
+      lastTimestamp = message[253];
+    }
+
+    if (def.global === MESG_SESSION) sessions.push(message);
+    else if (def.global === MESG_RECORD) records.push(message);
+  }
+
+  return { sessions, records };
+}
+
+function fitTime(value: number | null | undefined): number {
+  return typeof value === 'number' ? (value + FIT_EPOCH_S) * 1000 : NaN;
+}
+
+function scaled(value: number | null | undefined, scale: number, offset = 0): number | null {
+  return typeof value === 'number' ? value / scale - offset : null;
+}
+
+function toTrackpoint(r: Message): Trackpoint {
+  return {
+    time: fitTime(r[253]),
+    lat: typeof r[0] === 'number' ? r[0] * SEMICIRCLE_TO_DEG : null,
+    lng: typeof r[1] === 'number' ? r[1] * SEMICIRCLE_TO_DEG : null,
+    altitude_m: scaled(r[78], 5, 500) ?? scaled(r[2], 5, 500),   // enhanced_altitude, altitude
+    heartrate: r[3] ?? null,
+    distance_m: scaled(r[5], 100),
+    speed_mps: scaled(r[73], 1000) ?? scaled(r[6], 1000),        // enhanced_speed, speed
+  };
+}
+
+/** One activity per session; files without sessions become one activity from their records */
+export function parseFit(data: Uint8Array): ParsedActivity[] {
+  const { sessions, records } = decodeMessages(data);
+  const points = records.map(toTrackpoint).filter((p) => Number.isFinite(p.time));
+
+  if (sessions.length === 0) {
+    if (points.length === 0) throw new ActivityFileError('FIT file contains no activity');
+    return [activityFromTrackpoints('fit', points)];
+  }
+
+  return sessions.map((s) => {
+    const start = fitTime(s[2]);
+    const elapsed = scaled(s[7], 1000);
+    const stop = Number.isFinite(start) && elapsed !== null ? start + elapsed * 1000 : fitTime(s[253]);
+    const sessionPoints = Number.isFinite(start)
+      ? points.filter((p) => p.time >= start && p.time <= stop)
+      : points;
+
+    const sport = (s[6] !== null && s[6] !== undefined && SUB_SPORTS[s[6]]) || SPORTS[s[5] ?? -1] || null;
+
+    return activityFromTrackpoints('fit', sessionPoints, {
+      sport,
+      start: Number.isFinite(start) ? new Date(start) : null,
+      totals: {
+        elapsed_s: elapsed,
+        moving_s: scaled(s[8], 1000),
+        distance_m: scaled(s[9], 100),
+        elevation_gain_m: s[22] ?? null,
+        avg_heartrate: s[16] ?? null,
+        max_heartrate: s[17] ?? null,
+        avg_watts: s[20] ?? null,
+      },
+    });
+  });
+}
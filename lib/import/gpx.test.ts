@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { parseGpx } from './gpx';
+
+/** Track heading north one 0.001° step (~111 m) every 30 s */
+function gpx(points: number, opts: { type?: string; hr?: boolean } = {}) {
+  const start = Date.parse('2024-05-01T06:30:00Z');
+  const trkpts = Array.from({ length: points }, (_, i) => {
+    const time = new Date(start + i * 30_000).toISOString();
+    const hr = opts.hr ? `<extensions><gpxtpx:TrackPointExtension><gpxtpx:hr>${140 + i}</gpxtpx:hr></gpxtpx:TrackPointExtension></extensions>` : '';
+    return `<trkpt lat="${(48 + i * 0.001).toFixed(3)}" lon="11.5"><ele>${500 + i * 3}</ele><time>${time}</time>${hr}</trkpt>`;
+  }).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Garmin Connect" xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">
+  <metadata><time>2024-05-01T06:30:00Z</time></metadata>
+  <trk>
+    <name>Morning &amp; Run</name>
+    ${opts.type ? `<type>${opts.type}</type>` : ''}
+    <trkseg>
+${trkpts}
+    </trkseg>
+  </trk>
+</gpx>`;
+}
+
+describe('parseGpx', () => {
+  it('derives distance, duration and climb from trackpoints', () => {
+    const [activity] = parseGpx(gpx(11, { type: 'running', hr: true }));
+
+    expect(activity.format).toBe('gpx');
+    expect(activity.start.toISOString()).toBe('2024-05-01T06:30:00.000Z');
+    expect(activity.sport).toBe('running');
+    expect(activity.name).toBe('Morning & Run');
+    expect(activity.elapsed_s).toBe(300);
+    expect(activity.moving_s).toBe(300);
+    expect(activity.distance_m).toBeCloseTo(1112, -1);
+    expect(activity.elevation_gain_m).toBe(30);
+    expect(activity.avg_heartrate).toBe(145);
+    expect(activity.max_heartrate).toBe(150);
+    expect(activity.streams?.time_s).toHaveLength(11);
+    expect(activity.streams?.velocity_mps?.[5]).toBeCloseTo(111.2 / 30, 1);
+  });
+
+  it('leaves heart rate empty without the extension', () => {
+    const [activity] = parseGpx(gpx(5));
+    expect(activity.avg_heartrate).toBeNull();
+    expect(activity.streams?.heartrate).toBeNull();
+    expect(activity.sport).toBeNull();
+  });
+
+  it('rejects routes without timestamps and other XML', () => {
+    expect(() =>
+      parseGpx('<gpx><trk><trkseg><trkpt lat="48" lon="11"></trkpt></trkseg></trk></gpx>')
+    ).toThrow(/no timestamps/);
+    expect(() => parseGpx('<kml></kml>')).toThrow(/Not a GPX file/);
+  });
+});
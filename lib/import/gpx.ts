@@ -0,0 +1,42 @@
+/**
+ * GPX 1.1 tracks (Garmin, Strava and most other exports). Heart rate is read
+ * from the Garmin TrackPointExtension (gpxtpx:hr).
+ */
+
+import { activityFromTrackpoints, ActivityFileError, type ParsedActivity, type Trackpoint } from './activity';
+import { attr, childNumber, childText, elements } from './xml';
+
+function coordinate(value: string | null): number | null {
+  const n = value === null ? NaN : Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** One activity per track */
+export function parseGpx(xml: string): ParsedActivity[] {
+  if (!/<(?:[\w.-]+:)?gpx[\s>]/.test(xml)) {
+    throw new ActivityFileError('Not a GPX file');
+  }
+
+  return elements(xml, 'trk').map((trk) => {
+    const points: Trackpoint[] = elements(trk.body, 'trkpt')
+      .map((pt) => ({
+        time: Date.parse(childText(pt.body, 'time') ?? ''),
+        lat: coordinate(attr(pt.attrs, 'lat')),
+        lng: coordinate(attr(pt.attrs, 'lon')),
+        altitude_m: childNumber(pt.body, 'ele'),
+        heartrate: childNumber(pt.body, 'hr'),
+      }))
+      .filter((p) => Number.isFinite(p.time));
+
+    if (points.length === 0) {
+      throw new ActivityFileError('GPX track has no timestamps (routes cannot be imported)');
+    }
+
+    // Track name and type precede the segments
+    const header = trk.body.replace(/<(?:[\w.-]+:)?trkseg[\s\S]*/, '');
+    return activityFromTrackpoints('gpx', points, {
+      sport: childText(header, 'type'),
+      name: childText(header, 'name'),
+    });
+  });
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { parseTcx } from './tcx';
+
+function trackpoint(i: number) {
+  const time = new Date(Date.parse('2023-09-10T08:00:00Z') + i * 10_000).toISOString();
+  return `<Trackpoint>
+    <Time>${time}</Time>
+    <Position><LatitudeDegrees>48.1</LatitudeDegrees><LongitudeDegrees>11.5</LongitudeDegrees></Position>
+    <AltitudeMeters>520</AltitudeMeters>
+    <DistanceMeters>${i * 30}</DistanceMeters>
+    <HeartRateBpm><Value>150</Value></HeartRateBpm>
+  </Trackpoint>`;
+}
+
+const tcx = `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+  <Activities>
+    <Activity Sport="Running">
+      <Id>2023-09-10T08:00:00.000Z</Id>
+      <Lap StartTime="2023-09-10T08:00:00.000Z">
+        <TotalTimeSeconds>300.0</TotalTimeSeconds>
+        <DistanceMeters>1000.0</DistanceMeters>
+        <MaximumHeartRateBpm><Value>162</Value></MaximumHeartRateBpm>
+        <Track>${Array.from({ length: 31 }, (_, i) => trackpoint(i)).join('')}</Track>
+      </Lap>
+      <Lap StartTime="2023-09-10T08:05:00.000Z">
+        <TotalTimeSeconds>290.5</TotalTimeSeconds>
+        <DistanceMeters>1000.0</DistanceMeters>
+        <MaximumHeartRateBpm><Value>171</Value></MaximumHeartRateBpm>
+      </Lap>
+      <Notes>Intervals</Notes>
+    </Activity>
+  </Activities>
+</TrainingCenterDatabase>`;
+
+describe('parseTcx', () => {
+  it('sums lap totals and reads device distance', () => {
+    const [activity] = parseTcx(tcx);
+
+    expect(activity.format).toBe('tcx');
+    expect(activity.sport).toBe('Running');
+    expect(activity.name).toBe('Intervals');
+    expect(activity.start.toISOString()).toBe('2023-09-10T08:00:00.000Z');
+    expect(activity.moving_s).toBeCloseTo(590.5, 6);
+    expect(activity.distance_m).toBe(2000);
+    expect(activity.max_heartrate).toBe(171);
+    expect(activity.avg_heartrate).toBe(150);
+    expect(activity.streams?.distance_m?.[30]).toBe(900);
+    expect(activity.streams?.lat?.[0]).toBe(48.1);
+  });
+
+  it('rejects other files', () => {
+    expect(() => parseTcx('<gpx></gpx>')).toThrow(/Not a TCX file/);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Training Center XML (Garmin). Lap totals are summed for the activity;
+ * trackpoints carry device distance and heart rate.
+ */
+
+import { activityFromTrackpoints, ActivityFileError, type ParsedActivity, type Trackpoint } from './activity';
+import { attr, childNumber, childText, elements } from './xml';
+
+function sum(values: (number | null)[]): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length ? present.reduce((a, b) => a + b, 0) : null;
+}
+
+/** One activity per <Activity> */
+export function parseTcx(xml: string): ParsedActivity[] {
+  if (!/<(?:[\w.-]+:)?TrainingCenterDatabase[\s>]/.test(xml)) {
+    throw new ActivityFileError('Not a TCX file');
+  }
+
+  return elements(xml, 'Activity').map((activity) => {
+    const laps = elements(activity.body, 'Lap');
+
+    const points: Trackpoint[] = elements(activity.body, 'Trackpoint')
+      .map((pt) => {
+        const position = elements(pt.body, 'Position')[0]?.body ?? '';
+        const hr = elements(pt.body, 'HeartRateBpm')[0]?.body ?? '';
+        return {
+          time: Date.parse(childText(pt.body, 'Time') ?? ''),
+          lat: childNumber(position, 'LatitudeDegrees'),
+          lng: childNumber(position, 'LongitudeDegrees'),
+          altitude_m: childNumber(pt.body, 'AltitudeMeters'),
+          distance_m: childNumber(pt.body, 'DistanceMeters'),
+          heartrate: childNumber(hr, 'Value'),
+          speed_mps: childNumber(pt.body, 'Speed'),
+        };
+      })
+      .filter((p) => Number.isFinite(p.time));
+
+    // Lap summaries, ignoring the nested trackpoints
+    const lapTotals = laps.map((lap) => lap.body.replace(/<(?:[\w.-]+:)?Track[\s>][\s\S]*/, ''));
+    const lapMaxHr = lapTotals.map((l) => childNumber(elements(l, 'MaximumHeartRateBpm')[0]?.body ?? '', 'Value'));
+
+    // Activity ID (its start time) and notes, outside the laps
+    const header = activity.body.replace(/<(?:[\w.-]+:)?Lap[\s>][\s\S]*<\/(?:[\w.-]+:)?Lap\s*>/, '');
+    const id = childText(header, 'Id');
+    const firstLap = laps[0] ? attr(laps[0].attrs, 'StartTime') : null;
+    const startText = id ?? firstLap;
+
+    if (!startText && points.length === 0) {
+      throw new ActivityFileError('TCX activity has no start time');
+    }
+
+    return activityFromTrackpoints('tcx', points, {
+      sport: attr(activity.attrs, 'Sport'),
+      name: childText(header, 'Notes'),
+      start: startText ? new Date(startText) : null,
+      totals: {
+        moving_s: sum(lapTotals.map((l) => childNumber(l, 'TotalTimeSeconds'))),
+        distance_m: sum(lapTotals.map((l) => childNumber(l, 'DistanceMeters'))),
+        max_heartrate: lapMaxHr.some((v) => v !== null)
+          ? Math.max(...lapMaxHr.filter((v): v is number => v !== null))
+          : null,
+      },
+    });
+  });
+}
@@ -0,0 +1,54 @@
+/**
+ * Minimal XML scanning for GPX and TCX files. These formats are flat enough
+ * that matching elements by name (ignoring namespace prefixes) is sufficient;
+ * elements must not nest inside an element of the same name.
+ */
+
+export type XmlElement = {
+  attrs: string;
+  body: string;
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decode(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&(amp|lt|gt|quot|apos);/g, (_, e: string) => ENTITIES[e]);
+}
+
+/** All elements named `tag` (with any namespace prefix), in document order */
+export function elements(xml: string, tag: string): XmlElement[] {
+  const re = new RegExp(
+    `<(?:[\\w.-]+:)?${tag}(\\s[^>]*?)?(?:/>|>([\\s\\S]*?)</(?:[\\w.-]+:)?${tag}\\s*>)`,
+    'g'
+  );
+  return Array.from(xml.matchAll(re), (m) => ({ attrs: m[1] ?? '', body: m[2] ?? '' }));
+}
+
+/** Text content of the first element named `tag`, or null */
+export function childText(xml: string, tag: string): string | null {
+  const el = elements(xml, tag)[0];
+  if (!el) return null;
+  const text = decode(el.body).trim();
+  return text === '' ? null : text;
+}
+
+/** Numeric content of the first element named `tag`, or null */
+export function childNumber(xml: string, tag: string): number | null {
+  const text = childText(xml, tag);
+  const n = text === null ? NaN : Number(text);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Value of an attribute, or null */
+export function attr(attrs: string, name: string): string | null {
+  const m = new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(attrs);
+  return m ? decode(m[1] ?? m[2]) : null;
+}
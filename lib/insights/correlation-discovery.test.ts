@@ -0,0 +1,276 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { DailyMetrics } from "./data-aggregator";
+
+vi.mock("./data-aggregator", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./data-aggregator")>()),
+  fetchDailyMetrics: vi.fn(),
+}));
+
+vi.mock("../db/client", () => ({ sql: vi.fn(async () => []) }));
+
+import { discoverCorrelations } from "./correlation-discovery";
+import { fetchDailyMetrics } from "./data-aggregator";
+import { sql } from "../db/client";
+
+const METRICS: Array<keyof DailyMetrics> = ["sleepScore", "focusMinutes", "mood", "stress"];
+
+/** 30 days where focus tracks sleep closely and mood/stress are unrelated noise */
+function buildDays(): DailyMetrics[] {
+  return Array.from({ length: 30 }, (_, i) => {
+    const sleep = 60 + ((i * 7) % 30);
+    return {
+      date: `2025-01-${String(i + 1).padStart(2, "0")}`,
+      sleepScore: sleep,
+      focusMinutes: sleep * 2 + ((i * 3) % 5),
+      mood: 1 + ((i * 5) % 7) / 2,
+      stress: 1 + ((i * 11) % 9) / 2,
+    } as DailyMetrics;
+  });
+}
+
+describe("discoverCorrelations", () => {
+  beforeEach(() => {
+    vi.mocked(fetchDailyMetrics).mockResolvedValue(buildDays());
+  });
+
+  it("adjusts p-values with Benjamini-Hochberg by default", async () => {
+    const results = await discoverCorrelations({ metricsToAnalyze: METRICS });
+
+    const sleepFocus = results.find(
+      (c) => c.metricA.key === "sleepScore" && c.metricB.key === "focusMinutes"
+    );
+    expect(sleepFocus).toBeDefined();
+    expect(sleepFocus!.correction).toBe("bh");
+    expect(sleepFocus!.qValue).toBeGreaterThanOrEqual(sleepFocus!.correlation.pValue);
+    expect(sleepFocus!.interpretation).toContain("q < 0.01");
+  });
+
+  it("adjusts over every tested pair, not only the reported ones", async () => {
+    const results = await discoverCorrelations({
+      metricsToAnalyze: METRICS,
+      correction: "bonferroni",
+      maxLag: 0,
+      pValueThreshold: 1,
+      minAbsR: 0,
+    });
+
+    // 4 metrics → 6 pairs tested
+    expect(results).toHaveLength(6);
+    for (const c of results) {
+      expect(c.qValue).toBeCloseTo(Math.min(1, c.correlation.pValue * 6), 10);
+    }
+  });
+
+  it("counts every lag and direction in the family", async () => {
+    const results = await discoverCorrelations({
+      metricsToAnalyze: METRICS,
+      correction: "bonferroni",
+      maxLag: 2,
+      pValueThreshold: 1,
+      minAbsR: 0,
+    });
+
+    // 6 same-day pairs + 2 lags × 12 ordered pairs
+    const tests = 6 + 2 * 12;
+    for (const c of results) {
+      expect(c.qValue).toBeCloseTo(Math.min(1, c.correlation.pValue * tests), 10);
+    }
+  });
+
+  it("skips a metric against itself and obvious pairs at every lag", async () => {
+    vi.mocked(fetchDailyMetrics).mockResolvedValue(
+      buildDays().map((d, i) => ({ ...d, coffeeCount: i % 4, totalCaffeineMg: (i % 4) * 80 }))
+    );
+
+    const results = await discoverCorrelations({
+      metricsToAnalyze: ["sleepScore", "coffeeCount", "totalCaffeineMg"],
+      correction: "none",
+      maxLag: 1,
+      pValueThreshold: 1,
+      minAbsR: 0,
+    });
+
+    expect(results.some((c) => c.metricA.key === c.metricB.key)).toBe(false);
+    expect(
+      results.some((c) => [c.metricA.key, c.metricB.key].sort().join() === "coffeeCount,totalCaffeineMg")
+    ).toBe(false);
+    expect(results.length).toBeGreaterThan(0);
+  });
+
+  it("filters on the corrected p-value", async () => {
+    const raw = await discoverCorrelations({
+      metricsToAnalyze: METRICS,
+      correction: "none",
+      minAbsR: 0,
+    });
+    const corrected = await discoverCorrelations({
+      metricsToAnalyze: METRICS,
+      correction: "bonferroni",
+      minAbsR: 0,
+    });
+
+    expect(corrected.length).toBeLessThanOrEqual(raw.length);
+    for (const c of corrected) {
+      expect(c.qValue).toBeLessThanOrEqual(0.1);
+    }
+  });
+
+  it("sorts by q-value and attaches a bootstrap interval for r", async () => {
+    const results = await discoverCorrelations({
+      metricsToAnalyze: METRICS,
+      pValueThreshold: 1,
+      minAbsR: 0,
+    });
+
+    for (let i = 1; i < results.length; i++) {
+      expect(results[i].qValue).toBeGreaterThanOrEqual(results[i - 1].qValue);
+    }
+    for (const c of results) {
+      expect(c.rInterval.level).toBe(0.95);
+      expect(c.rInterval.lower).toBeLessThanOrEqual(c.correlation.r);
+      expect(c.rInterval.upper).toBeGreaterThanOrEqual(c.correlation.r);
+    }
+  });
+
+  it("finds a relationship that only appears across days", async () => {
+    const days = buildDays().map((d, i, all) => ({
+      ...d,
+      // mood follows outdoor time from two days earlier
+      outdoorMinutes: 20 + ((i * 13) % 60),
+      mood: i >= 2 ? 2 + (20 + (((i - 2) * 13) % 60)) / 10 : null,
+      date: all[i].date,
+    }));
+    vi.mocked(fetchDailyMetrics).mockResolvedValue(days);
+
+    const results = await discoverCorrelations({
+      metricsToAnalyze: ["outdoorMinutes", "mood"],
+      maxLag: 3,
+    });
+
+    const cross = results.filter((c) => c.metricA.key !== c.metricB.key);
+    expect(cross).toHaveLength(1);
+    expect(cross[0].metricA.key).toBe("outdoorMinutes");
+    expect(cross[0].metricB.key).toBe("mood");
+    expect(cross[0].lag).toBe(2);
+    expect(cross[0].interpretation).toContain("2 days later");
+  });
+
+  it("uses rank correlation when asked", async () => {
+    const results = await discoverCorrelations({
+      metricsToAnalyze: ["sleepScore", "focusMinutes"],
+      method: "spearman",
+      maxLag: 0,
+    });
+
+    expect(results[0].method).toBe("spearman");
+    expect(results[0].correlation.r).toBeGreaterThan(0.9);
+  });
+
+  describe("confounder control", () => {
+    // 2025-01-04 is a Saturday; weekends drive both outdoor time and mood
+    function weekendDays(): DailyMetrics[] {
+      return Array.from({ length: 56 }, (_, i) => {
+        const date = new Date(Date.UTC(2025, 0, 1 + i));
+        const weekend = date.getUTCDay() === 0 || date.getUTCDay() === 6;
+        return {
+          date: date.toISOString().slice(0, 10),
+          sleepScore: 70 + ((i * 7) % 11),
+          focusMinutes: 140 + ((i * 7) % 11) * 2 + ((i * 3) % 5),
+          outdoorMinutes: (weekend ? 90 : 20) + ((i * 13) % 7),
+          mood: (weekend ? 8 : 5) + ((i * 5) % 3) / 2,
+        } as DailyMetrics;
+      });
+    }
+
+    beforeEach(() => {
+      vi.mocked(fetchDailyMetrics).mockResolvedValue(weekendDays());
+    });
+
+    it("flags a pair explained by day-of-week as likely confounded", async () => {
+      const results = await discoverCorrelations({
+        metricsToAnalyze: ["outdoorMinutes", "mood"],
+        maxLag: 0,
+      });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].correlation.r).toBeGreaterThan(0.8);
+      expect(results[0].partial).not.toBeNull();
+      expect(results[0].partial!.controls).toEqual(["day of week", "Sleep Score"]);
+      expect(Math.abs(results[0].partial!.r)).toBeLessThan(0.5 * results[0].correlation.r);
+      expect(results[0].likelyConfounded).toBe(true);
+      expect(results[0].interpretation).toContain("Likely confounded");
+    });
+
+    it("keeps a relationship that survives the controls", async () => {
+      const results = await discoverCorrelations({
+        metricsToAnalyze: ["sleepScore", "focusMinutes"],
+        maxLag: 0,
+      });
+
+      expect(results[0].likelyConfounded).toBe(false);
+      expect(results[0].partial!.r).toBeGreaterThan(0.8);
+    });
+
+    it("leaves out confounders without enough data", async () => {
+      const results = await discoverCorrelations({
+        metricsToAnalyze: ["sleepScore", "focusMinutes"],
+        maxLag: 0,
+      });
+
+      // No weather recorded in this data set
+      expect(results[0].partial!.controls).toEqual(["day of week"]);
+    });
+
+    it("can be switched off", async () => {
+      const results = await discoverCorrelations({
+        metricsToAnalyze: ["outdoorMinutes", "mood"],
+        maxLag: 0,
+        controlForConfounders: false,
+      });
+
+      expect(results[0].partial).toBeNull();
+      expect(results[0].likelyConfounded).toBe(false);
+    });
+  });
+
+  describe("custom metrics", () => {
+    const alcohol = {
+      id: 1,
+      key: "alcohol_units",
+      name: "Alcohol",
+      unit: "units",
+      type: "numeric",
+      scale_min: null,
+      scale_max: null,
+      aggregation: "sum",
+      description: null,
+      archived: false,
+    };
+
+    beforeEach(() => {
+      vi.mocked(sql).mockResolvedValueOnce([alcohol] as never);
+      vi.mocked(fetchDailyMetrics).mockResolvedValue(
+        buildDays().map((d) => ({
+          ...d,
+          "custom.alcohol_units": (100 - (d.sleepScore ?? 0)) / 10,
+        }))
+      );
+    });
+
+    it("includes registered custom metrics by default", async () => {
+      const results = await discoverCorrelations({ maxLag: 0 });
+
+      const finding = results.find(
+        (c) => c.metricA.key === "custom.alcohol_units" || c.metricB.key === "custom.alcohol_units"
+      );
+      expect(finding).toBeDefined();
+      expect(finding!.correlation.r).toBeLessThan(-0.9);
+      expect([finding!.metricA.label, finding!.metricB.label]).toContain("Alcohol");
+      expect(fetchDailyMetrics).toHaveBeenCalledWith(
+        expect.any(Date),
+        expect.any(Date),
+        [expect.objectContaining({ key: "alcohol_units" })]
+      );
+    });
+  });
+});
@@ -7,22 +7,63 @@
 
 import {
   fetchDailyMetrics,
-  extractMetricValues,
   getMinimumSampleSize,
   type DailyMetrics,
   AVAILABLE_METRICS,
+  toMetricDefinition,
   type MetricDefinition,
 } from "./data-aggregator";
+import { listCustomMetricsDB } from "../db/custom-metrics";
 import {
-  calculatePearsonCorrelation,
+  adjustPValues,
+  alignLagged,
+  bootstrapCorrelationCI,
+  calculateCorrelation,
+  calculatePartialCorrelation,
   calculatePointBiserialCorrelation,
+  classifyConfidence,
+  type ConfidenceInterval,
+  type CorrelationMethod,
   type CorrelationResult,
+  type PValueCorrection,
 } from "../stats/correlation";
 
 export interface DiscoveredCorrelation {
+  /**
+   * Leading metric (day t)
+   */
   metricA: MetricDefinition;
+  /**
+   * Trailing metric (day t + lag)
+   */
   metricB: MetricDefinition;
   correlation: CorrelationResult;
+  /**
+   * Coefficient used; binary×continuous pairs always use point-biserial
+   */
+  method: CorrelationMethod | "point-biserial";
+  /**
+   * Days metricB trails metricA (0 = same day)
+   */
+  lag: number;
+  /**
+   * p-value adjusted for the number of pairs tested (BH q-value or Bonferroni)
+   */
+  qValue: number;
+  correction: PValueCorrection;
+  /**
+   * Percentile bootstrap confidence interval for r
+   */
+  rInterval: ConfidenceInterval;
+  /**
+   * Correlation after controlling for day-of-week, weather and sleep
+   * (null when disabled or too few days have the covariates)
+   */
+  partial: PartialCorrelation | null;
+  /**
+   * The relationship largely disappears once confounders are controlled for
+   */
+  likelyConfounded: boolean;
   dateRange: {
     start: string;
     end: string;
@@ -30,6 +71,13 @@ export interface DiscoveredCorrelation {
   interpretation: string;
 }
 
+export interface PartialCorrelation extends CorrelationResult {
+  /**
+   * Labels of the covariates actually controlled for
+   */
+  controls: string[];
+}
+
 export interface CorrelationDiscoveryOptions {
   /**
    * Number of days to analyze (default: 90)
@@ -37,24 +85,90 @@ export interface CorrelationDiscoveryOptions {
   days?: number;
 
   /**
-   * Minimum p-value threshold for significance (default: 0.1)
+   * Significance threshold applied to the corrected p-value (default: 0.1)
    * - 0.01: Strong (99% confidence)
    * - 0.05: Moderate (95% confidence)
    * - 0.1: Exploratory (90% confidence)
    */
   pValueThreshold?: number;
 
+  /**
+   * Multiple-comparison correction across all tested pairs (default: "bh")
+   * - bh: Benjamini–Hochberg; the threshold bounds the false discovery rate
+   * - bonferroni: the threshold bounds the chance of any false positive
+   * - none: raw p-values
+   */
+  correction?: PValueCorrection;
+
+  /**
+   * Correlation coefficient for continuous×continuous pairs (default: "pearson")
+   * Use "spearman" or "kendall" for skewed metrics like caffeine or focus minutes.
+   */
+  method?: CorrelationMethod;
+
+  /**
+   * Largest lag in days to test, in both directions (default: 1, max: 7)
+   * Every lag counts towards the multiple-comparison family.
+   */
+  maxLag?: number;
+
+  /**
+   * Bootstrap resamples for the confidence interval on r (default: 1000)
+   */
+  bootstrapIterations?: number;
+
+  /**
+   * Compute partial correlations controlling for day-of-week, weather and
+   * sleep, and flag insights that collapse as likely confounded (default: true)
+   */
+  controlForConfounders?: boolean;
+
   /**
    * Minimum absolute correlation coefficient (default: 0.3)
    */
   minAbsR?: number;
 
   /**
-   * Specific metrics to analyze (default: all available)
+   * Specific metrics to analyze (default: all built-in and custom metrics)
    */
   metricsToAnalyze?: Array<keyof DailyMetrics>;
 }
 
+// Skip obvious/trivial correlations between directly related metrics, at any lag
+const OBVIOUS_CORRELATIONS: Array<[keyof DailyMetrics, keyof DailyMetrics]> = [
+  ["totalCaffeineMg", "coffeeCount"], // Caffeine is calculated from coffee
+  ["runDistanceKm", "runDurationMin"], // Distance and duration are directly related
+  ["outdoorMinutes", "runDurationMin"], // Running is outdoor activity
+  ["outdoorMinutes", "runDistanceKm"], // Running is outdoor activity
+  ["workoutCount", "workoutDurationMin"], // Duration depends on count
+  ["ran", "runDistanceKm"], // A run implies distance
+  ["ran", "runDurationMin"], // A run implies duration
+  ["workedOut", "workoutCount"], // A workout implies a count
+  ["workedOut", "workoutDurationMin"], // A workout implies duration
+  // Weather-to-weather correlations (obvious environmental relationships)
+  ["avgCloudiness", "sunnyDay"], // sunnyDay is calculated from cloudiness < 30%
+  ["avgTempCelsius", "avgHumidity"], // Temperature and humidity are physically related
+  ["avgCloudiness", "avgTempCelsius"], // Cloudiness affects temperature
+  ["avgCloudiness", "avgHumidity"], // Cloudiness affects humidity
+];
+
+// Common causes controlled for when checking an insight for confounding (plus day-of-week)
+const CONFOUNDERS: Array<keyof DailyMetrics> = ["avgTempCelsius", "sunnyDay", "sleepScore"];
+
+// An insight is likely confounded when less than this share of |r| survives
+// controlling for confounders (or the sign flips)
+const CONFOUNDING_RETAINED_RATIO = 0.5;
+
+// Confounders missing on more of the pair's days than this are left out,
+// rather than dropping all those days from the partial correlation
+const MIN_CONFOUNDER_COVERAGE = 0.8;
+
+function isObvious(a: keyof DailyMetrics, b: keyof DailyMetrics): boolean {
+  return OBVIOUS_CORRELATIONS.some(
+    ([x, y]) => (a === x && b === y) || (a === y && b === x)
+  );
+}
+
 /**
  * Discover all significant correlations in the dataset
  */
@@ -65,7 +179,12 @@ export async function discoverCorrelations(
     days = 90,
     pValueThreshold = 0.1,
     minAbsR = 0.3,
-    metricsToAnalyze = AVAILABLE_METRICS.map((m) => m.key),
+    correction = "bh",
+    method = "pearson",
+    maxLag = 1,
+    bootstrapIterations = 1000,
+    controlForConfounders = true,
+    metricsToAnalyze,
   } = options;
 
   // Calculate date range
@@ -73,259 +192,336 @@ export async function discoverCorrelations(
   const startDate = new Date();
   startDate.setDate(startDate.getDate() - days);
 
-  // Fetch all daily metrics
-  const dailyMetrics = await fetchDailyMetrics(startDate, endDate);
+  // Fetch all daily metrics, including user-defined ones
+  const customMetrics = await listCustomMetricsDB();
+  const availableMetrics = [...AVAILABLE_METRICS, ...customMetrics.map(toMetricDefinition)];
+  const dailyMetrics = await fetchDailyMetrics(startDate, endDate, customMetrics);
 
-  const discoveries: DiscoveredCorrelation[] = [];
+  // Every pair actually tested forms the family for the multiple-comparison correction
+  const tested: TestedPair[] = [];
   const minSampleSize = getMinimumSampleSize();
 
   // Test all pairwise combinations
-  const metricsToTest = AVAILABLE_METRICS.filter((m) =>
-    metricsToAnalyze.includes(m.key)
+  const metricsToTest = availableMetrics.filter(
+    (m) => !metricsToAnalyze || metricsToAnalyze.includes(m.key)
   );
 
+  // Leader on day t, follower on day t + lag
+  const candidates: Array<{ leader: MetricDefinition; follower: MetricDefinition; lag: number }> = [];
   for (let i = 0; i < metricsToTest.length; i++) {
+    // A metric against itself (autocorrelation) is trivially significant, so j > i
     for (let j = i + 1; j < metricsToTest.length; j++) {
       const metricA = metricsToTest[i];
       const metricB = metricsToTest[j];
 
-      // Determine if we have a binary×continuous pair (use point-biserial)
-      // or continuous×continuous pair (use Pearson)
-      const aIsBoolean = metricA.unit === "boolean";
-      const bIsBoolean = metricB.unit === "boolean";
-
       // Skip if both are boolean (no meaningful correlation)
-      if (aIsBoolean && bIsBoolean) {
+      if (metricA.unit === "boolean" && metricB.unit === "boolean") {
         continue;
       }
 
-      // Skip obvious/trivial correlations that are directly related
-      const obviousCorrelations = [
-        ["totalCaffeineMg", "coffeeCount"], // Caffeine is calculated from coffee
-        ["runDistanceKm", "runDurationMin"], // Distance and duration are directly related
-        ["outdoorMinutes", "runDurationMin"], // Running is outdoor activity
-        ["outdoorMinutes", "runDistanceKm"], // Running is outdoor activity
-        ["workoutCount", "workoutDurationMin"], // Duration depends on count
-        ["prevDayWorkout", "prevDayWorkoutDuration"], // Workout implies duration
-        ["prevDayRunning", "prevDayRunDistance"], // Running implies distance
-        // Weather-to-weather correlations (obvious environmental relationships)
-        ["avgCloudiness", "sunnyDay"], // sunnyDay is calculated from cloudiness < 30%
-        ["avgTempCelsius", "avgHumidity"], // Temperature and humidity are physically related
-        ["avgCloudiness", "avgTempCelsius"], // Cloudiness affects temperature
-        ["avgCloudiness", "avgHumidity"], // Cloudiness affects humidity
-      ];
-
-      const isObvious = obviousCorrelations.some(
-        ([a, b]) =>
-          (metricA.key === a && metricB.key === b) ||
-          (metricA.key === b && metricB.key === a)
-      );
-
-      if (isObvious) {
+      if (isObvious(metricA.key, metricB.key)) {
         continue;
       }
 
-      // Align data by date, handling both numeric and boolean values
-      const alignedData = alignMetricsByDateFlexible(
-        dailyMetrics,
-        metricA.key,
-        metricB.key
-      );
-
-      if (alignedData.length < minSampleSize) {
-        continue; // Not enough data points
+      for (let lag = 0; lag <= maxLag; lag++) {
+        candidates.push({ leader: metricA, follower: metricB, lag });
+        // Across days the direction matters: test B leading A too
+        if (lag > 0) candidates.push({ leader: metricB, follower: metricA, lag });
       }
+    }
+  }
 
-      let correlation: CorrelationResult;
-
-      // Choose correlation method based on metric types
-      if (aIsBoolean || bIsBoolean) {
-        // Point-biserial correlation for binary×continuous
-        const binaryValues = aIsBoolean
-          ? alignedData.map((d) => d.valueA as boolean)
-          : alignedData.map((d) => d.valueB as boolean);
-        const continuousValues = aIsBoolean
-          ? alignedData.map((d) => d.valueB as number)
-          : alignedData.map((d) => d.valueA as number);
-
-        correlation = calculatePointBiserialCorrelation(
-          binaryValues,
-          continuousValues
-        );
-      } else {
-        // Pearson correlation for continuous×continuous
-        correlation = calculatePearsonCorrelation(
-          alignedData.map((d) => d.valueA as number),
-          alignedData.map((d) => d.valueB as number)
-        );
-      }
+  for (const { leader, follower, lag } of candidates) {
+    // Align data by date, handling both numeric and boolean values
+    const alignedData = alignLagged(
+      dailyMetrics.map((d) => d[leader.key] as number | boolean | null),
+      dailyMetrics.map((d) => d[follower.key] as number | boolean | null),
+      lag
+    );
 
-      // Filter by significance and strength
-      if (
-        correlation.pValue <= pValueThreshold &&
-        Math.abs(correlation.r) >= minAbsR
-      ) {
-        discoveries.push({
-          metricA,
-          metricB,
-          correlation,
-          dateRange: {
-            start: startDate.toISOString().split("T")[0],
-            end: endDate.toISOString().split("T")[0],
-          },
-          interpretation: generateInterpretation(metricA, metricB, correlation),
-        });
-      }
+    if (alignedData.x.length < minSampleSize) {
+      continue; // Not enough data points
     }
+
+    tested.push(testPair(leader, follower, lag, alignedData, method));
   }
 
-  // Sort by significance (p-value), then by strength (|r|)
-  discoveries.sort((a, b) => {
-    const pDiff = a.correlation.pValue - b.correlation.pValue;
-    if (Math.abs(pDiff) > 0.001) return pDiff;
-    return Math.abs(b.correlation.r) - Math.abs(a.correlation.r);
+  const qValues = adjustPValues(
+    tested.map((t) => t.correlation.pValue),
+    correction
+  );
+
+  const dateRange = {
+    start: startDate.toISOString().split("T")[0],
+    end: endDate.toISOString().split("T")[0],
+  };
+
+  // Keep only the most significant lag/direction for each pair of metrics;
+  // neighbouring lags of autocorrelated series mostly repeat the same finding
+  const best = new Map<string, { pair: TestedPair; qValue: number }>();
+  tested.forEach((pair, index) => {
+    const qValue = qValues[index];
+
+    // Filter by corrected significance and strength
+    if (qValue > pValueThreshold || Math.abs(pair.correlation.r) < minAbsR) {
+      return;
+    }
+
+    const key = [pair.metricA.key, pair.metricB.key].sort().join("|");
+    const current = best.get(key);
+    if (!current || compareFindings(qValue, pair.correlation, current.qValue, current.pair.correlation) < 0) {
+      best.set(key, { pair, qValue });
+    }
+  });
+
+  const discoveries: DiscoveredCorrelation[] = [...best.values()].map(({ pair, qValue }) => {
+    const partial = controlForConfounders
+      ? partialCorrelation(dailyMetrics, pair, minSampleSize)
+      : null;
+    const likelyConfounded = isLikelyConfounded(pair.correlation, partial);
+
+    return {
+      metricA: pair.metricA,
+      metricB: pair.metricB,
+      correlation: pair.correlation,
+      method: pair.method,
+      lag: pair.lag,
+      qValue,
+      correction,
+      rInterval: pair.bootstrap(bootstrapIterations),
+      partial,
+      likelyConfounded,
+      dateRange,
+      interpretation:
+        generateInterpretation(
+          pair.metricA,
+          pair.metricB,
+          pair.lag,
+          pair.correlation,
+          qValue,
+          correction
+        ) + describeConfounding(partial, likelyConfounded),
+    };
   });
 
+  // Sort by significance (q-value), then by strength (|r|)
+  discoveries.sort((a, b) => compareFindings(a.qValue, a.correlation, b.qValue, b.correlation));
+
   return discoveries;
 }
 
 /**
- * Align two metrics by date, keeping only days where both have values
- * Legacy function for backward compatibility (numeric only)
+ * Order by significance (q-value), then by strength (|r|)
  */
-function alignMetricsByDate(
-  data: DailyMetrics[],
-  metricA: keyof DailyMetrics,
-  metricB: keyof DailyMetrics
-): Array<{ date: string; valueA: number; valueB: number }> {
-  const aligned: Array<{ date: string; valueA: number; valueB: number }> = [];
-
-  for (const day of data) {
-    const valA = day[metricA];
-    const valB = day[metricB];
-
-    // Skip if either value is null/undefined or boolean
-    if (
-      valA === null ||
-      valA === undefined ||
-      valB === null ||
-      valB === undefined ||
-      typeof valA === "boolean" ||
-      typeof valB === "boolean"
-    ) {
-      continue;
-    }
+function compareFindings(
+  qA: number,
+  a: CorrelationResult,
+  qB: number,
+  b: CorrelationResult
+): number {
+  const pDiff = qA - qB;
+  if (Math.abs(pDiff) > 0.001) return pDiff;
+  return Math.abs(b.r) - Math.abs(a.r);
+}
+
+interface TestedPair {
+  metricA: MetricDefinition;
+  metricB: MetricDefinition;
+  lag: number;
+  method: CorrelationMethod | "point-biserial";
+  correlation: CorrelationResult;
+  bootstrap: (iterations: number) => ConfidenceInterval;
+}
 
-    aligned.push({
-      date: day.date,
-      valueA: Number(valA),
-      valueB: Number(valB),
-    });
+/**
+ * Correlate one aligned pair, using point-biserial for binary×continuous
+ * and the requested method for continuous×continuous
+ */
+function testPair(
+  metricA: MetricDefinition,
+  metricB: MetricDefinition,
+  lag: number,
+  alignedData: { x: Array<number | boolean>; y: Array<number | boolean> },
+  method: CorrelationMethod
+): TestedPair {
+  const aIsBoolean = metricA.unit === "boolean";
+  const bIsBoolean = metricB.unit === "boolean";
+
+  if (aIsBoolean || bIsBoolean) {
+    const binaryValues = (aIsBoolean ? alignedData.x : alignedData.y) as boolean[];
+    const continuousValues = (aIsBoolean ? alignedData.y : alignedData.x).map(Number);
+
+    return {
+      metricA,
+      metricB,
+      lag,
+      method: "point-biserial",
+      correlation: calculatePointBiserialCorrelation(binaryValues, continuousValues),
+      bootstrap: (iterations) =>
+        bootstrapCorrelationCI(binaryValues, continuousValues, calculatePointBiserialCorrelation, {
+          iterations,
+        }),
+    };
   }
 
-  return aligned;
+  const valuesA = alignedData.x.map(Number);
+  const valuesB = alignedData.y.map(Number);
+  const statistic = (x: number[], y: number[]) => calculateCorrelation(x, y, method);
+
+  return {
+    metricA,
+    metricB,
+    lag,
+    method,
+    correlation: statistic(valuesA, valuesB),
+    bootstrap: (iterations) =>
+      bootstrapCorrelationCI(valuesA, valuesB, statistic, { iterations }),
+  };
 }
 
 /**
- * Align two metrics by date, supporting both boolean and numeric values
- * Used for point-biserial correlation (boolean×continuous) and Pearson (continuous×continuous)
+ * Partial correlation of a pair controlling for day-of-week and the CONFOUNDERS
+ * that are not part of the pair. For lagged pairs, weather and sleep are
+ * controlled on both days; day-of-week of the leading day fixes the other.
  */
-function alignMetricsByDateFlexible(
-  data: DailyMetrics[],
-  metricA: keyof DailyMetrics,
-  metricB: keyof DailyMetrics
-): Array<{ date: string; valueA: number | boolean; valueB: number | boolean }> {
-  const aligned: Array<{ date: string; valueA: number | boolean; valueB: number | boolean }> = [];
+function partialCorrelation(
+  dailyMetrics: DailyMetrics[],
+  pair: Pick<TestedPair, "metricA" | "metricB" | "lag" | "method">,
+  minSampleSize: number
+): PartialCorrelation | null {
+  const { metricA, metricB, lag, method } = pair;
+  const numeric = (v: unknown) => (typeof v === "boolean" ? (v ? 1 : 0) : (v as number));
+
+  // Leading days where both metrics have values
+  const days = alignLagged(
+    dailyMetrics.map((d, i) => (d[metricA.key] === null || d[metricA.key] === undefined ? null : i)),
+    dailyMetrics.map((d) => d[metricB.key]),
+    lag
+  ).x;
+
+  // Candidate covariates, one or two columns each (leading and trailing day)
+  const candidates: Array<{ label: string; columns: Array<Array<number | null>> }> = [];
+
+  const weekday = days.map((t) => new Date(`${dailyMetrics[t].date}T00:00:00Z`).getUTCDay());
+  candidates.push({
+    label: "day of week",
+    // One indicator per weekday, Sunday is the baseline
+    columns: [1, 2, 3, 4, 5, 6].map((day) => weekday.map((w) => (w === day ? 1 : 0))),
+  });
 
-  for (const day of data) {
-    const valA = day[metricA];
-    const valB = day[metricB];
+  for (const key of CONFOUNDERS) {
+    if (key === metricA.key || key === metricB.key) continue;
+    const label = AVAILABLE_METRICS.find((m) => m.key === key)?.label ?? key;
+    const at = (offset: number) =>
+      days.map((t) => {
+        const v = dailyMetrics[t + offset][key];
+        return v === null || v === undefined ? null : numeric(v);
+      });
+    candidates.push({ label, columns: lag > 0 ? [at(0), at(lag)] : [at(0)] });
+  }
 
-    // Skip if either value is null/undefined
-    if (valA === null || valA === undefined || valB === null || valB === undefined) {
-      continue;
-    }
+  // Leave out sparsely recorded confounders instead of losing most days
+  const included = candidates.filter(({ columns }) => {
+    const covered = days.filter((_, row) => columns.every((c) => c[row] !== null)).length;
+    return days.length > 0 && covered / days.length >= MIN_CONFOUNDER_COVERAGE;
+  });
+  const columns = included.flatMap((c) => c.columns);
+  const rows = days
+    .map((_, row) => row)
+    .filter((row) => columns.every((c) => c[row] !== null));
 
-    aligned.push({
-      date: day.date,
-      valueA: typeof valA === "boolean" ? valA : Number(valA),
-      valueB: typeof valB === "boolean" ? valB : Number(valB),
-    });
+  if (rows.length < minSampleSize + columns.length) {
+    return null;
   }
 
-  return aligned;
+  const x = rows.map((row) => numeric(dailyMetrics[days[row]][metricA.key]));
+  const y = rows.map((row) => numeric(dailyMetrics[days[row] + lag][metricB.key]));
+  const result = calculatePartialCorrelation(
+    x,
+    y,
+    columns.map((c) => rows.map((row) => c[row] as number)),
+    { rank: method === "spearman" || method === "kendall" }
+  );
+
+  return {
+    r: result.r,
+    pValue: result.pValue,
+    n: result.n,
+    confidence: result.confidence,
+    strength: result.strength,
+    controls: included.map((c) => c.label),
+  };
+}
+
+/**
+ * Whether the correlation collapses (or flips sign) once confounders are controlled for
+ */
+function isLikelyConfounded(
+  correlation: CorrelationResult,
+  partial: PartialCorrelation | null
+): boolean {
+  if (!partial || partial.controls.length === 0) return false;
+  if (Math.sign(partial.r) !== Math.sign(correlation.r)) return true;
+  return Math.abs(partial.r) < CONFOUNDING_RETAINED_RATIO * Math.abs(correlation.r);
+}
+
+function describeConfounding(partial: PartialCorrelation | null, likelyConfounded: boolean): string {
+  if (!partial || !likelyConfounded) return "";
+  return ` Likely confounded: controlling for ${partial.controls.join(", ")} leaves r = ${partial.r.toFixed(2)}.`;
+}
+
+/**
+ * "the next day" / "3 days later"
+ */
+function describeLag(lag: number): string {
+  return lag === 1 ? "the next day" : `${lag} days later`;
 }
 
 /**
  * Generate human-readable interpretation of correlation
- * Ensures proper time ordering: previous day events → next day outcomes
+ * Ensures proper time ordering: metricA (day t) → metricB (day t + lag)
  */
 function generateInterpretation(
   metricA: MetricDefinition,
   metricB: MetricDefinition,
-  correlation: CorrelationResult
+  lag: number,
+  correlation: CorrelationResult,
+  qValue: number,
+  correction: PValueCorrection
 ): string {
   const strength = correlation.strength;
-  const confidence = correlation.confidence;
+  const confidence = classifyConfidence(qValue);
+  const label = correction === "none" ? "p" : "q";
 
   // Check if either metric is binary (boolean unit)
   const aIsBoolean = metricA.unit === "boolean";
   const bIsBoolean = metricB.unit === "boolean";
 
-  // Check if either metric is lagged (previous day)
-  const aIsLagged = metricA.key.toString().startsWith('prevDay');
-  const bIsLagged = metricB.key.toString().startsWith('prevDay');
-
   let interpretation: string;
 
   if (aIsBoolean || bIsBoolean) {
     // Point-biserial interpretation (binary event × continuous metric)
+    const direction = correlation.r > 0 ? "higher" : "lower";
 
-    if (aIsBoolean && aIsLagged) {
-      // metricA is previous day boolean, metricB is today continuous
-      // Proper time order: yesterday's event → today's outcome
-      const event = metricA.label.replace('Previous Day ', '');
-      const direction = correlation.r > 0 ? "higher" : "lower";
-      interpretation = `On days after ${event}, ${metricB.label} tends to be ${direction}.`;
-    } else if (bIsBoolean && bIsLagged) {
-      // metricB is previous day boolean, metricA is today continuous
-      // Proper time order: yesterday's event → today's outcome
-      const event = metricB.label.replace('Previous Day ', '');
-      // Need to flip direction since we're describing B→A relationship
-      const direction = correlation.r > 0 ? "higher" : "lower";
-      interpretation = `On days after ${event}, ${metricA.label} tends to be ${direction}.`;
-    } else {
+    if (lag === 0) {
       // Same-day interpretation
       const binaryMetric = aIsBoolean ? metricA : metricB;
       const continuousMetric = aIsBoolean ? metricB : metricA;
-      const direction = correlation.r > 0 ? "higher" : "lower";
       interpretation = `On days when ${binaryMetric.description}, ${continuousMetric.label} tends to be ${direction}.`;
-    }
-  } else {
-    // Pearson interpretation (continuous × continuous)
-
-    if (aIsLagged && !bIsLagged) {
-      // metricA is previous day, metricB is today
-      // Proper time order: yesterday's value → today's outcome
-      const event = metricA.label.replace('Previous Day ', '');
-      const direction = correlation.r > 0 ? "increases" : "decreases";
-      interpretation = `When ${event} goes up, next day's ${metricB.label} tends to ${direction}.`;
-    } else if (bIsLagged && !aIsLagged) {
-      // metricB is previous day, metricA is today
-      // Proper time order: yesterday's value → today's outcome
-      const event = metricB.label.replace('Previous Day ', '');
-      const direction = correlation.r > 0 ? "increases" : "decreases";
-      interpretation = `When ${event} goes up, next day's ${metricA.label} tends to ${direction}.`;
-    } else if (aIsLagged && bIsLagged) {
-      // Both are lagged - unusual but handle gracefully
-      // Just describe as regular correlation
-      const direction = correlation.r > 0 ? "increases" : "decreases";
-      interpretation = `When ${metricA.label} goes up, ${metricB.label} tends to ${direction}.`;
+    } else if (aIsBoolean) {
+      // Earlier event → later outcome
+      const after = lag === 1 ? "the day after" : `${lag} days after`;
+      interpretation = `${metricB.label} tends to be ${direction} ${after} ${metricA.label}.`;
     } else {
-      // Neither is lagged - same-day correlation
-      const direction = correlation.r > 0 ? "increases" : "decreases";
-      interpretation = `When ${metricA.label} goes up, ${metricB.label} tends to ${direction}.`;
+      // Earlier value → later event
+      const likelihood = correlation.r > 0 ? "more" : "less";
+      interpretation = `When ${metricA.label} goes up, ${metricB.label} is ${likelihood} likely ${describeLag(lag)}.`;
     }
+  } else {
+    // Continuous × continuous interpretation
+    const direction = correlation.r > 0 ? "increases" : "decreases";
+    const when = lag === 0 ? "" : ` ${describeLag(lag)}`;
+    interpretation = `When ${metricA.label} goes up, ${metricB.label} tends to ${direction}${when}.`;
   }
 
   if (strength === "very strong" || strength === "strong") {
@@ -333,11 +529,11 @@ function generateInterpretation(
   }
 
   if (confidence === "strong") {
-    interpretation += ` High statistical confidence (p < 0.01).`;
+    interpretation += ` High statistical confidence (${label} < 0.01).`;
   } else if (confidence === "moderate") {
-    interpretation += ` Moderate statistical confidence (p < 0.05).`;
+    interpretation += ` Moderate statistical confidence (${label} < 0.05).`;
   } else if (confidence === "exploratory") {
-    interpretation += ` Exploratory finding (p < 0.1).`;
+    interpretation += ` Exploratory finding (${label} < 0.1).`;
   }
 
   return interpretation;
@@ -345,43 +541,68 @@ function generateInterpretation(
 
 /**
  * Get correlation between two specific metrics
+ * With `lag`, metricA on day t is correlated with metricB on day t + lag.
  */
 export async function getCorrelationBetween(
   metricA: keyof DailyMetrics,
   metricB: keyof DailyMetrics,
-  days = 90
+  days = 90,
+  options: { lag?: number; method?: CorrelationMethod } = {}
 ): Promise<DiscoveredCorrelation | null> {
+  const { lag = 0, method = "pearson" } = options;
+
   const endDate = new Date();
   const startDate = new Date();
   startDate.setDate(startDate.getDate() - days);
 
-  const dailyMetrics = await fetchDailyMetrics(startDate, endDate);
-  const alignedData = alignMetricsByDate(dailyMetrics, metricA, metricB);
+  const customMetrics = await listCustomMetricsDB();
+  const availableMetrics = [...AVAILABLE_METRICS, ...customMetrics.map(toMetricDefinition)];
+  const metricADef = availableMetrics.find((m) => m.key === metricA);
+  const metricBDef = availableMetrics.find((m) => m.key === metricB);
 
-  if (alignedData.length < getMinimumSampleSize()) {
-    return null; // Not enough data
+  if (!metricADef || !metricBDef) {
+    return null;
   }
 
-  const correlation = calculatePearsonCorrelation(
-    alignedData.map((d) => d.valueA),
-    alignedData.map((d) => d.valueB)
+  const dailyMetrics = await fetchDailyMetrics(startDate, endDate, customMetrics);
+  const alignedData = alignLagged(
+    dailyMetrics.map((d) => d[metricA] as number | boolean | null),
+    dailyMetrics.map((d) => d[metricB] as number | boolean | null),
+    lag
   );
 
-  const metricADef = AVAILABLE_METRICS.find((m) => m.key === metricA);
-  const metricBDef = AVAILABLE_METRICS.find((m) => m.key === metricB);
-
-  if (!metricADef || !metricBDef) {
-    return null;
+  if (alignedData.x.length < getMinimumSampleSize()) {
+    return null; // Not enough data
   }
 
+  const pair = testPair(metricADef, metricBDef, lag, alignedData, method);
+  const partial = partialCorrelation(dailyMetrics, pair, getMinimumSampleSize());
+  const likelyConfounded = isLikelyConfounded(pair.correlation, partial);
+
   return {
     metricA: metricADef,
     metricB: metricBDef,
-    correlation,
+    correlation: pair.correlation,
+    method: pair.method,
+    lag,
+    // A single pre-specified pair needs no multiple-comparison correction
+    qValue: pair.correlation.pValue,
+    correction: "none",
+    rInterval: pair.bootstrap(1000),
+    partial,
+    likelyConfounded,
     dateRange: {
       start: startDate.toISOString().split("T")[0],
       end: endDate.toISOString().split("T")[0],
     },
-    interpretation: generateInterpretation(metricADef, metricBDef, correlation),
+    interpretation:
+      generateInterpretation(
+        metricADef,
+        metricBDef,
+        lag,
+        pair.correlation,
+        pair.correlation.pValue,
+        "none"
+      ) + describeConfounding(partial, likelyConfounded),
   };
 }
@@ -6,6 +6,13 @@
  */
 
 import { sql } from "../db/client";
+import { listCustomMetricsDB } from "../db/custom-metrics";
+import type { CustomMetric } from "../db/validation";
+
+// Custom metrics (from days.extras) are namespaced so they never clash with built-in keys
+export const CUSTOM_METRIC_PREFIX = "custom.";
+
+export type CustomMetricKey = `custom.${string}`;
 
 export interface DailyMetrics {
   date: string; // ISO date string (YYYY-MM-DD)
@@ -24,10 +31,12 @@ export interface DailyMetrics {
   totalCaffeineMg: number | null;
 
   // Running (aggregated from runs)
+  ran: boolean | null; // true if any run that day
   runDistanceKm: number | null;
   runDurationMin: number | null;
 
   // Workouts (from workouts table)
+  workedOut: boolean | null; // true if any non-running workout that day
   workoutCount: number | null;
   workoutDurationMin: number | null;
 
@@ -43,13 +52,8 @@ export interface DailyMetrics {
   stress: number | null;
   focusQuality: number | null;
 
-  // Lagged metrics (previous day values) for correlation analysis
-  prevDayWorkout: boolean | null; // Did workout yesterday
-  prevDayWorkoutDuration: number | null; // Workout duration yesterday
-  prevDayRunning: boolean | null; // Ran yesterday
-  prevDayRunDistance: number | null; // Running distance yesterday
-  prevDaySleepScore: number | null; // Sleep score yesterday
-  prevDayCoffeeCount: number | null; // Coffee cups yesterday
+  // User-defined metrics (from days.extras, see custom_metrics)
+  [key: CustomMetricKey]: number | boolean | null;
 }
 
 export interface MetricDefinition {
@@ -70,8 +74,10 @@ export const AVAILABLE_METRICS: MetricDefinition[] = [
   { key: "writingMinutes", label: "Writing Time", description: "Time spent writing", unit: "minutes" },
   { key: "coffeeCount", label: "Coffee Cups", description: "Number of coffee servings", unit: "cups" },
   { key: "totalCaffeineMg", label: "Caffeine Intake", description: "Total caffeine consumed", unit: "mg" },
+  { key: "ran", label: "Run", description: "Went for a run", unit: "boolean" },
   { key: "runDistanceKm", label: "Running Distance", description: "Distance ran", unit: "km" },
   { key: "runDurationMin", label: "Running Duration", description: "Time spent running", unit: "minutes" },
+  { key: "workedOut", label: "Workout", description: "Did a (non-running) workout", unit: "boolean" },
   { key: "workoutCount", label: "Workout Sessions", description: "Number of workout sessions", unit: "sessions" },
   { key: "workoutDurationMin", label: "Workout Duration", description: "Total workout time", unit: "minutes" },
   { key: "avgTempCelsius", label: "Temperature", description: "Average daily temperature", unit: "°C" },
@@ -82,25 +88,54 @@ export const AVAILABLE_METRICS: MetricDefinition[] = [
   { key: "energy", label: "Energy", description: "Daily energy level (1-10)", unit: "score" },
   { key: "stress", label: "Stress", description: "Daily stress level (1-10)", unit: "score" },
   { key: "focusQuality", label: "Focus Quality", description: "Subjective focus quality (1-10)", unit: "score" },
-  // Lagged metrics for cross-day correlations
-  { key: "prevDayWorkout", label: "Previous Day Workout", description: "Whether you worked out yesterday", unit: "boolean" },
-  { key: "prevDayWorkoutDuration", label: "Previous Day Workout Duration", description: "Workout duration yesterday", unit: "minutes" },
-  { key: "prevDayRunning", label: "Previous Day Running", description: "Whether you ran yesterday", unit: "boolean" },
-  { key: "prevDayRunDistance", label: "Previous Day Run Distance", description: "Running distance yesterday", unit: "km" },
-  { key: "prevDaySleepScore", label: "Previous Day Sleep", description: "Sleep score yesterday", unit: "points" },
-  { key: "prevDayCoffeeCount", label: "Previous Day Coffee", description: "Coffee cups yesterday", unit: "cups" },
 ];
 
+/**
+ * Metric definition for a registered custom metric
+ */
+export function toMetricDefinition(metric: CustomMetric): MetricDefinition {
+  const unit =
+    metric.type === "boolean"
+      ? "boolean"
+      : metric.type === "scale"
+        ? metric.unit ?? `${metric.scale_min}-${metric.scale_max}`
+        : metric.unit ?? undefined;
+
+  return {
+    key: `${CUSTOM_METRIC_PREFIX}${metric.key}`,
+    label: metric.name,
+    description: metric.description ?? `Custom metric (${metric.type})`,
+    unit,
+  };
+}
+
+/**
+ * Read a custom metric's value from a day's extras, coerced to the metric type
+ */
+function customValue(extras: Record<string, unknown> | null, metric: CustomMetric): number | boolean | null {
+  const value = extras?.[metric.key];
+  if (value === null || value === undefined) return null;
+
+  if (metric.type === "boolean") {
+    return typeof value === "boolean" ? value : Number(value) !== 0;
+  }
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
 /**
  * Fetch aggregated daily metrics for a date range
  * @param startDate Start date (inclusive)
  * @param endDate End date (inclusive)
- * @returns Array of daily metrics, one per date
+ * @param customMetrics Custom metrics to include (default: all active ones)
+ * @returns Array of daily metrics, one per consecutive date (so index offsets are day lags)
  */
 export async function fetchDailyMetrics(
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  customMetrics?: CustomMetric[]
 ): Promise<DailyMetrics[]> {
+  const custom = customMetrics ?? (await listCustomMetricsDB());
   const startISO = startDate.toISOString().split("T")[0];
   const endISO = endDate.toISOString().split("T")[0];
 
@@ -189,10 +224,13 @@ export async function fetchDailyMetrics(
       d.reading_minutes,
       d.outdoor_minutes,
       d.writing_minutes,
+      d.extras,
       c.coffee_count,
       c.total_caffeine_mg,
+      CASE WHEN ru.run_duration_min > 0 THEN true ELSE false END as ran,
       ru.run_distance_km,
       ru.run_duration_min,
+      CASE WHEN w.workout_count > 0 THEN true ELSE false END as worked_out,
       w.workout_count,
       w.workout_duration_min,
       wd.avg_temp_celsius,
@@ -202,14 +240,7 @@ export async function fetchDailyMetrics(
       sm.mood,
       sm.energy,
       sm.stress,
-      sm.focus_quality,
-      -- Lagged metrics (previous day values using LAG window function)
-      LAG(CASE WHEN w.workout_count > 0 THEN true ELSE false END) OVER (ORDER BY dr.date) as prev_day_workout,
-      LAG(w.workout_duration_min) OVER (ORDER BY dr.date) as prev_day_workout_duration,
-      LAG(CASE WHEN ru.run_duration_min > 0 THEN true ELSE false END) OVER (ORDER BY dr.date) as prev_day_running,
-      LAG(ru.run_distance_km) OVER (ORDER BY dr.date) as prev_day_run_distance,
-      LAG(d.sleep_score) OVER (ORDER BY dr.date) as prev_day_sleep_score,
-      LAG(c.coffee_count) OVER (ORDER BY dr.date) as prev_day_coffee_count
+      sm.focus_quality
     FROM date_range dr
     LEFT JOIN days d ON d.date = dr.date
     LEFT JOIN coffee_daily c ON c.date = dr.date
@@ -227,10 +258,13 @@ export async function fetchDailyMetrics(
     reading_minutes: number | null;
     outdoor_minutes: number | null;
     writing_minutes: number | null;
+    extras: Record<string, unknown> | null;
     coffee_count: number | null;
     total_caffeine_mg: number | null;
+    ran: boolean | null;
     run_distance_km: number | null;
     run_duration_min: number | null;
+    worked_out: boolean | null;
     workout_count: number | null;
     workout_duration_min: number | null;
     avg_temp_celsius: number | null;
@@ -241,17 +275,11 @@ export async function fetchDailyMetrics(
     energy: number | null;
     stress: number | null;
     focus_quality: number | null;
-    prev_day_workout: boolean | null;
-    prev_day_workout_duration: number | null;
-    prev_day_running: boolean | null;
-    prev_day_run_distance: number | null;
-    prev_day_sleep_score: number | null;
-    prev_day_coffee_count: number | null;
   }
 
   return rows.map((row) => {
     const r = row as DbRow;
-    return {
+    const metrics: DailyMetrics = {
       date: r.date,
       sleepScore: r.sleep_score,
       focusMinutes: r.focus_minutes,
@@ -260,8 +288,10 @@ export async function fetchDailyMetrics(
       writingMinutes: r.writing_minutes,
       coffeeCount: Number(r.coffee_count) || null,
       totalCaffeineMg: Number(r.total_caffeine_mg) || null,
+      ran: r.ran,
       runDistanceKm: r.run_distance_km ? Number(r.run_distance_km) : null,
       runDurationMin: r.run_duration_min ? Number(r.run_duration_min) : null,
+      workedOut: r.worked_out,
       workoutCount: Number(r.workout_count) || null,
       workoutDurationMin: r.workout_duration_min ? Number(r.workout_duration_min) : null,
       avgTempCelsius: r.avg_temp_celsius ? Number(r.avg_temp_celsius) : null,
@@ -272,14 +302,13 @@ export async function fetchDailyMetrics(
       energy: r.energy,
       stress: r.stress,
       focusQuality: r.focus_quality,
-      // Lagged metrics
-      prevDayWorkout: r.prev_day_workout,
-      prevDayWorkoutDuration: r.prev_day_workout_duration ? Number(r.prev_day_workout_duration) : null,
-      prevDayRunning: r.prev_day_running,
-      prevDayRunDistance: r.prev_day_run_distance ? Number(r.prev_day_run_distance) : null,
-      prevDaySleepScore: r.prev_day_sleep_score,
-      prevDayCoffeeCount: Number(r.prev_day_coffee_count) || null,
     };
+
+    for (const metric of custom) {
+      metrics[`${CUSTOM_METRIC_PREFIX}${metric.key}`] = customValue(r.extras, metric);
+    }
+
+    return metrics;
   });
 }
 
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import {
+  diffSnapshots,
+  historyEvents,
+  isSignificantInsight,
+  pairKey,
+  type InsightSnapshotRow,
+} from "./snapshots";
+
+function row(
+  metricA: string,
+  metricB: string,
+  date: string,
+  r: number,
+  qValue: number
+): InsightSnapshotRow {
+  return {
+    snapshot_date: date,
+    window_days: 90,
+    metric_a: metricA,
+    metric_b: metricB,
+    lag: 0,
+    method: "pearson",
+    r,
+    r_lower: r - 0.2,
+    r_upper: r + 0.2,
+    p_value: qValue / 2,
+    q_value: qValue,
+    n: 80,
+    significant: isSignificantInsight(qValue, r),
+  };
+}
+
+describe("isSignificantInsight", () => {
+  it("requires both the q-value and the strength thresholds", () => {
+    expect(isSignificantInsight(0.05, 0.4)).toBe(true);
+    expect(isSignificantInsight(0.05, -0.4)).toBe(true);
+    expect(isSignificantInsight(0.2, 0.4)).toBe(false);
+    expect(isSignificantInsight(0.05, 0.2)).toBe(false);
+  });
+});
+
+describe("pairKey", () => {
+  it("ignores the order of the metrics", () => {
+    expect(pairKey("mood", "sleepScore")).toBe(pairKey("sleepScore", "mood"));
+  });
+});
+
+describe("diffSnapshots", () => {
+  it("reports pairs that became significant as new", () => {
+    const events = diffSnapshots(
+      [row("sleepScore", "mood", "2025-01-05", 0.25, 0.3)],
+      [row("sleepScore", "mood", "2025-01-12", 0.45, 0.02)],
+      "2025-01-12"
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: "new",
+      date: "2025-01-12",
+      previous: { r: 0.25, q_value: 0.3 },
+      current: { r: 0.45, q_value: 0.02 },
+    });
+  });
+
+  it("reports pairs that lost significance as faded", () => {
+    const events = diffSnapshots(
+      [row("sleepScore", "mood", "2025-01-05", 0.45, 0.02)],
+      [row("sleepScore", "mood", "2025-01-12", 0.25, 0.3)],
+      "2025-01-12"
+    );
+
+    expect(events.map((e) => e.type)).toEqual(["faded"]);
+  });
+
+  it("matches pairs whose direction flipped between snapshots", () => {
+    const events = diffSnapshots(
+      [row("sleepScore", "mood", "2025-01-05", 0.45, 0.02)],
+      [row("mood", "sleepScore", "2025-01-12", 0.5, 0.01)],
+      "2025-01-12"
+    );
+
+    expect(events).toEqual([]);
+  });
+
+  it("treats pairs missing from one snapshot as not significant", () => {
+    const events = diffSnapshots(
+      [row("stress", "mood", "2025-01-05", -0.5, 0.01)],
+      [row("sleepScore", "mood", "2025-01-12", 0.45, 0.02)],
+      "2025-01-12"
+    );
+
+    expect(events).toHaveLength(2);
+    expect(events.find((e) => e.type === "new")?.previous).toBeNull();
+    expect(events.find((e) => e.type === "faded")?.current).toBeNull();
+  });
+
+  it("lists the strongest changes first", () => {
+    const events = diffSnapshots(
+      [],
+      [
+        row("sleepScore", "mood", "2025-01-12", 0.35, 0.05),
+        row("stress", "mood", "2025-01-12", -0.7, 0.001),
+      ],
+      "2025-01-12"
+    );
+
+    expect(events.map((e) => e.metric_a)).toEqual(["stress", "sleepScore"]);
+  });
+});
+
+describe("historyEvents", () => {
+  it("emits one event per significance transition in date order", () => {
+    const events = historyEvents([
+      row("sleepScore", "mood", "2025-01-03", 0.5, 0.01),
+      row("sleepScore", "mood", "2025-01-01", 0.2, 0.4),
+      row("sleepScore", "mood", "2025-01-02", 0.45, 0.03),
+      row("sleepScore", "mood", "2025-01-04", 0.25, 0.2),
+    ]);
+
+    expect(events.map((e) => [e.type, e.date])).toEqual([
+      ["new", "2025-01-02"],
+      ["faded", "2025-01-04"],
+    ]);
+  });
+
+  it("returns no events for a single snapshot", () => {
+    expect(historyEvents([row("sleepScore", "mood", "2025-01-01", 0.5, 0.01)])).toEqual([]);
+  });
+});
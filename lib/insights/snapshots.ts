@@ -0,0 +1,151 @@
+/**
+ * Insight Snapshots
+ *
+ * Turns discovered correlations into dated snapshot rows and detects
+ * which insights appeared or faded between two snapshots.
+ */
+
+import type { DiscoveredCorrelation } from "./correlation-discovery";
+
+/**
+ * Thresholds an insight must meet to count as "significant" in a snapshot.
+ * Same defaults as the insights page.
+ */
+export const SNAPSHOT_THRESHOLDS = {
+  qValue: 0.1,
+  minAbsR: 0.3,
+} as const;
+
+export interface InsightSnapshotRow {
+  snapshot_date: string; // YYYY-MM-DD (Berlin)
+  window_days: number;
+  metric_a: string; // leading metric
+  metric_b: string; // trailing metric
+  lag: number;
+  method: string;
+  r: number;
+  r_lower: number;
+  r_upper: number;
+  p_value: number;
+  q_value: number;
+  n: number;
+  significant: boolean;
+}
+
+export type InsightEventType = "new" | "faded";
+
+export interface InsightEvent {
+  type: InsightEventType;
+  date: string; // snapshot in which the change was first seen
+  metric_a: string;
+  metric_b: string;
+  previous: Pick<InsightSnapshotRow, "r" | "q_value" | "lag" | "snapshot_date"> | null;
+  current: Pick<InsightSnapshotRow, "r" | "q_value" | "lag" | "snapshot_date"> | null;
+}
+
+/**
+ * Order-independent key for a metric pair
+ */
+export function pairKey(metricA: string, metricB: string): string {
+  return [metricA, metricB].sort().join("|");
+}
+
+/**
+ * Whether a correlation meets the snapshot significance thresholds
+ */
+export function isSignificantInsight(qValue: number, r: number): boolean {
+  return qValue <= SNAPSHOT_THRESHOLDS.qValue && Math.abs(r) >= SNAPSHOT_THRESHOLDS.minAbsR;
+}
+
+/**
+ * Convert discovered correlations (run with no thresholds) into snapshot rows
+ */
+export function toSnapshotRows(
+  correlations: DiscoveredCorrelation[],
+  snapshotDate: string,
+  windowDays: number
+): InsightSnapshotRow[] {
+  return correlations.map((c) => ({
+    snapshot_date: snapshotDate,
+    window_days: windowDays,
+    metric_a: c.metricA.key,
+    metric_b: c.metricB.key,
+    lag: c.lag,
+    method: c.method,
+    r: c.correlation.r,
+    r_lower: c.rInterval.lower,
+    r_upper: c.rInterval.upper,
+    p_value: c.correlation.pValue,
+    q_value: c.qValue,
+    n: c.correlation.n,
+    significant: isSignificantInsight(c.qValue, c.correlation.r),
+  }));
+}
+
+function summary(row: InsightSnapshotRow | undefined) {
+  return row
+    ? { r: row.r, q_value: row.q_value, lag: row.lag, snapshot_date: row.snapshot_date }
+    : null;
+}
+
+/**
+ * Compare two snapshots
+ * - new: significant now, but not significant (or not tested) before
+ * - faded: significant before, but not significant (or no longer tested) now
+ */
+export function diffSnapshots(
+  previous: InsightSnapshotRow[],
+  current: InsightSnapshotRow[],
+  date: string
+): InsightEvent[] {
+  const before = new Map(previous.map((row) => [pairKey(row.metric_a, row.metric_b), row]));
+  const after = new Map(current.map((row) => [pairKey(row.metric_a, row.metric_b), row]));
+  const events: InsightEvent[] = [];
+
+  for (const [key, row] of after) {
+    const old = before.get(key);
+    if (row.significant && !old?.significant) {
+      events.push({
+        type: "new",
+        date,
+        metric_a: row.metric_a,
+        metric_b: row.metric_b,
+        previous: summary(old),
+        current: summary(row),
+      });
+    }
+  }
+
+  for (const [key, old] of before) {
+    const row = after.get(key);
+    if (old.significant && !row?.significant) {
+      events.push({
+        type: "faded",
+        date,
+        metric_a: old.metric_a,
+        metric_b: old.metric_b,
+        previous: summary(old),
+        current: summary(row),
+      });
+    }
+  }
+
+  // Strongest changes first
+  const strength = (e: InsightEvent) => Math.abs((e.type === "new" ? e.current : e.previous)?.r ?? 0);
+  return events.sort((a, b) => strength(b) - strength(a));
+}
+
+/**
+ * Events along one pair's history, in date order
+ * @param rows Snapshot rows for a single pair, in any order
+ */
+export function historyEvents(rows: InsightSnapshotRow[]): InsightEvent[] {
+  const sorted = [...rows].sort((a, b) => a.snapshot_date.localeCompare(b.snapshot_date));
+  const events: InsightEvent[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    events.push(...diffSnapshots([sorted[i - 1]], [sorted[i]], sorted[i].snapshot_date));
+  }
+
+  return events;
+}
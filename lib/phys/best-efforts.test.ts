@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bestEffortsFromStreams,
+  predictRaceTimes,
+  recordProgression,
+  riegelTime,
+  type BestEffortRecord,
+} from './best-efforts';
+
+/** One sample per second; speed per second from `pace` (m/s by elapsed second) */
+function run(seconds: number, pace: (t: number) => number) {
+  const time_s = [0];
+  const distance_m = [0];
+  for (let t = 1; t <= seconds; t++) {
+    time_s.push(t);
+    distance_m.push(distance_m[t - 1] + pace(t));
+  }
+  return { time_s, distance_m };
+}
+
+const record = (distance: BestEffortRecord['distance'], elapsed_s: number, date: string, workout_id = 1) => ({
+  distance,
+  elapsed_s,
+  date,
+  workout_id,
+});
+
+describe('bestEffortsFromStreams', () => {
+  it('finds efforts for every distance the run covers', () => {
+    // 5.5 km at 4 m/s
+    const efforts = bestEffortsFromStreams(run(1375, () => 4));
+
+    expect(efforts.map((e) => e.distance)).toEqual(['1k', '5k']);
+    expect(efforts[0].elapsed_s).toBe(250);
+    expect(efforts[1].elapsed_s).toBe(1250);
+  });
+
+  it('locates the fastest window inside the run', () => {
+    // 10 min easy at 3 m/s, then 1 km at 5 m/s, then easy again
+    const efforts = bestEffortsFromStreams(run(1200, (t) => (t > 600 && t <= 800 ? 5 : 3)));
+    const oneK = efforts.find((e) => e.distance === '1k')!;
+
+    expect(oneK.elapsed_s).toBe(200);
+    expect(oneK.start_offset_s).toBe(600);
+  });
+
+  it('interpolates the start between sparse samples', () => {
+    // Samples every 10 s at 4 m/s: 1 km takes 250 s, not a multiple of 10
+    const time_s = Array.from({ length: 40 }, (_, i) => i * 10);
+    const efforts = bestEffortsFromStreams({ time_s, distance_m: time_s.map((t) => t * 4) });
+
+    expect(efforts[0]).toMatchObject({ distance: '1k', elapsed_s: 250 });
+  });
+
+  it('skips gaps and ignores GPS jumps', () => {
+    const streams = run(600, () => 3);
+    streams.distance_m[300] += 900; // GPS spike: one sample 900 m ahead
+    const withGap = { ...streams, distance_m: streams.distance_m.map((d, i) => (i === 10 ? null : d)) };
+
+    const oneK = bestEffortsFromStreams(withGap).find((e) => e.distance === '1k')!;
+
+    // Windows containing the jump would be faster than 10 m/s
+    expect(oneK.elapsed_s).toBeGreaterThanOrEqual(100);
+  });
+
+  it('returns nothing without a distance stream or for short runs', () => {
+    expect(bestEffortsFromStreams({ time_s: [0, 1, 2] })).toEqual([]);
+    expect(bestEffortsFromStreams(run(100, () => 3))).toEqual([]);
+  });
+});
+
+describe('recordProgression', () => {
+  it('keeps the efforts that improved the record, oldest first', () => {
+    const progression = recordProgression([
+      record('5k', 1300, '2025-03-01', 3),
+      record('5k', 1400, '2025-01-01', 1),
+      record('5k', 1450, '2025-02-01', 2),
+      record('5k', 1250, '2025-04-01', 4),
+      record('10k', 2800, '2025-02-15', 5),
+    ]);
+
+    expect(progression['5k'].map((e) => e.workout_id)).toEqual([1, 3, 4]);
+    expect(progression['10k']).toHaveLength(1);
+    expect(progression.marathon).toEqual([]);
+  });
+});
+
+describe('riegelTime', () => {
+  it('scales time with distance to the power of 1.06', () => {
+    // 20:00 5k → about 41:42 10k
+    expect(riegelTime(1200, 5000, 10000)).toBeCloseTo(1200 * 2 ** 1.06, 6);
+    expect(Math.round(riegelTime(1200, 5000, 10000))).toBe(2502);
+  });
+});
+
+describe('predictRaceTimes', () => {
+  it('predicts from the fastest effort at the closest distance', () => {
+    const predictions = predictRaceTimes([
+      record('5k', 1300, '2025-05-01', 1),
+      record('5k', 1250, '2025-06-01', 2),
+      record('half', 6000, '2025-06-10', 3),
+    ]);
+
+    const byDistance = Object.fromEntries(predictions.map((p) => [p.distance, p]));
+    expect(byDistance['5k']).toMatchObject({ predicted_s: 1250, based_on: { workout_id: 2 } });
+    expect(byDistance['1k'].based_on.distance).toBe('5k');
+    expect(byDistance['10k'].based_on.distance).toBe('5k');
+    expect(byDistance.marathon.based_on.distance).toBe('half');
+    expect(byDistance.marathon.predicted_s).toBe(Math.round(riegelTime(6000, 21097.5, 42195)));
+  });
+
+  it('returns no predictions without efforts', () => {
+    expect(predictRaceTimes([])).toEqual([]);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Running best efforts: the fastest time over standard distances within a
+ * run (from Strava's best_efforts or the run's distance stream), how each
+ * personal record improved over time, and Riegel race-time predictions.
+ */
+
+import type { WorkoutStreams } from './workout-streams';
+
+export const RACE_DISTANCES = [
+  { key: '1k', label: '1 km', meters: 1000 },
+  { key: '5k', label: '5 km', meters: 5000 },
+  { key: '10k', label: '10 km', meters: 10000 },
+  { key: 'half', label: 'Half marathon', meters: 21097.5 },
+  { key: 'marathon', label: 'Marathon', meters: 42195 },
+] as const;
+
+export type RaceDistance = (typeof RACE_DISTANCES)[number]['key'];
+
+// Riegel (1981): T2 = T1 · (D2 / D1)^1.06
+export const RIEGEL_EXPONENT = 1.06;
+
+// Faster than the 1 km world record pace: a GPS jump, not an effort
+const MAX_PLAUSIBLE_SPEED_MPS = 10;
+
+export type BestEffort = {
+  distance: RaceDistance;
+  elapsed_s: number;
+  start_offset_s: number | null;   // seconds into the run where the effort started
+};
+
+/** A best effort as recorded for a workout */
+export type BestEffortRecord = {
+  distance: RaceDistance;
+  elapsed_s: number;
+  date: string;                    // YYYY-MM-DD
+  workout_id: number;
+};
+
+export type RacePrediction = {
+  distance: RaceDistance;
+  predicted_s: number;
+  based_on: BestEffortRecord;
+};
+
+export function raceDistanceMeters(distance: RaceDistance): number {
+  return RACE_DISTANCES.find((d) => d.key === distance)!.meters;
+}
+
+/**
+ * Fastest elapsed time over each standard distance the run covers, found with
+ * a sliding window over the distance stream. The window start is interpolated
+ * between samples; pauses inside the window count (elapsed time, as on Strava).
+ */
+export function bestEffortsFromStreams(streams: WorkoutStreams): BestEffort[] {
+  const time: number[] = [];
+  const dist: number[] = [];
+  streams.distance_m?.forEach((d, i) => {
+    if (d === null || !Number.isFinite(d)) return;
+    time.push(streams.time_s[i]);
+    dist.push(Math.max(d, dist[dist.length - 1] ?? 0)); // GPS corrections can step back
+  });
+
+  const efforts: BestEffort[] = [];
+  for (const { key, meters } of RACE_DISTANCES) {
+    let best: { elapsed: number; start: number } | null = null;
+    let i = 0;
+
+    for (let j = 1; j < dist.length; j++) {
+      if (dist[j] - dist[0] < meters) continue;
+      while (dist[j] - dist[i + 1] >= meters) i++;
+
+      // The effort starts between samples i and i + 1, where distance = dist[j] - meters
+      const share = (dist[j] - meters - dist[i]) / (dist[i + 1] - dist[i]);
+      const start = time[i] + (time[i + 1] - time[i]) * share;
+      const elapsed = time[j] - start;
+
+      if (elapsed > 0 && meters / elapsed <= MAX_PLAUSIBLE_SPEED_MPS && (!best || elapsed < best.elapsed)) {
+        best = { elapsed, start };
+      }
+    }
+
+    if (best) {
+      efforts.push({ distance: key, elapsed_s: Math.round(best.elapsed), start_offset_s: Math.round(best.start) });
+    }
+  }
+
+  return efforts;
+}
+
+/**
+ * Efforts that set a new record for their distance, oldest first.
+ * Input may be in any order; ties keep the earlier date.
+ */
+export function recordProgression<T extends BestEffortRecord>(efforts: T[]): Record<RaceDistance, T[]> {
+  const sorted = [...efforts].sort((a, b) => a.date.localeCompare(b.date) || a.workout_id - b.workout_id);
+  const progression = Object.fromEntries(RACE_DISTANCES.map((d) => [d.key, []])) as unknown as Record<
+    RaceDistance,
+    T[]
+  >;
+
+  for (const effort of sorted) {
+    const history = progression[effort.distance];
+    const current = history[history.length - 1];
+    if (!current || effort.elapsed_s < current.elapsed_s) history.push(effort);
+  }
+  return progression;
+}
+
+/** Riegel's prediction for `toMeters` from a time over `fromMeters` */
+export function riegelTime(elapsedS: number, fromMeters: number, toMeters: number): number {
+  return elapsedS * Math.pow(toMeters / fromMeters, RIEGEL_EXPONENT);
+}
+
+/**
+ * Predicted time for every standard distance from the fastest recent effort
+ * at the closest distance (Riegel is least reliable across large ratios).
+ * `recent` should only hold efforts that reflect current fitness.
+ */
+export function predictRaceTimes(recent: BestEffortRecord[]): RacePrediction[] {
+  const fastest = new Map<RaceDistance, BestEffortRecord>();
+  for (const effort of recent) {
+    const current = fastest.get(effort.distance);
+    if (!current || effort.elapsed_s < current.elapsed_s) fastest.set(effort.distance, effort);
+  }
+  if (fastest.size === 0) return [];
+
+  return RACE_DISTANCES.map(({ key, meters }) => {
+    let source: BestEffortRecord | null = null;
+    let gap = Infinity;
+    for (const effort of fastest.values()) {
+      const g = Math.abs(Math.log(meters / raceDistanceMeters(effort.distance)));
+      if (g < gap) {
+        source = effort;
+        gap = g;
+      }
+    }
+
+    return {
+      distance: key,
+      predicted_s: Math.round(riegelTime(source!.elapsed_s, raceDistanceMeters(source!.distance), meters)),
+      based_on: source!,
+    };
+  });
+}
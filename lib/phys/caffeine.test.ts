@@ -4,6 +4,13 @@ import {
   estimateIntakeMgFor,
   DEFAULT_MG_PER_ML,
   DEFAULT_SHOT_ML,
+  DEFAULT_KA_PER_HOUR,
+  LARGE_POUR_ML,
+  absorptionRateFor,
+  bodyFraction,
+  effectiveDoseMg,
+  timeBelowThreshold,
+  latestIntakeBefore,
   type BrewEvent,
 } from './caffeine';
 import type { BodyProfile } from '@/lib/user/profile';
@@ -653,6 +660,117 @@ describe('caffeine modeling', () => {
     });
   });
 
+  describe('first-order absorption', () => {
+    const espresso: BrewEvent[] = [
+      { timeISO: '2024-01-15T08:00:00Z', type: 'espresso', amount_ml: 38 },
+    ];
+    const window = {
+      startMs: Date.parse('2024-01-15T08:00:00Z'),
+      endMs: Date.parse('2024-01-15T14:00:00Z'),
+      gridMinutes: 5,
+    };
+
+    it('should start from zero body caffeine at intake time', () => {
+      const result = modelCaffeine(espresso, baseBody, { ...window, absorption: 'first-order' });
+
+      expect(result[0].intake_mg).toBeGreaterThan(0);
+      expect(result[0].body_mg).toBe(0);
+    });
+
+    it('should peak roughly 45 minutes after an espresso', () => {
+      const result = modelCaffeine(espresso, baseBody, { ...window, absorption: 'first-order' });
+      const peak = result.reduce((best, p) => (p.body_mg > best.body_mg ? p : best));
+      const minutesToPeak = (Date.parse(peak.timeISO) - window.startMs) / 60000;
+
+      expect(minutesToPeak).toBeGreaterThanOrEqual(35);
+      expect(minutesToPeak).toBeLessThanOrEqual(55);
+    });
+
+    it('should peak below the instant model and converge to it later', () => {
+      const instant = modelCaffeine(espresso, baseBody, window);
+      const firstOrder = modelCaffeine(espresso, baseBody, { ...window, absorption: 'first-order' });
+
+      expect(Math.max(...firstOrder.map((p) => p.body_mg))).toBeLessThan(instant[0].body_mg);
+      const last = firstOrder.length - 1;
+      expect(firstOrder[last].body_mg).toBeGreaterThan(instant[last].body_mg * 0.95);
+      expect(firstOrder[last].body_mg).toBeLessThanOrEqual(instant[last].body_mg + 1);
+    });
+
+    it('should keep intake buckets identical to the instant model', () => {
+      const instant = modelCaffeine(espresso, baseBody, window);
+      const firstOrder = modelCaffeine(espresso, baseBody, { ...window, absorption: 'first-order' });
+
+      expect(firstOrder.map((p) => p.intake_mg)).toEqual(instant.map((p) => p.intake_mg));
+    });
+
+    it('should peak later for cold brew than for espresso', () => {
+      const peakMinutes = (events: BrewEvent[]) => {
+        const result = modelCaffeine(events, baseBody, { ...window, absorption: 'first-order' });
+        const peak = result.reduce((best, p) => (p.body_mg > best.body_mg ? p : best));
+        return (Date.parse(peak.timeISO) - window.startMs) / 60000;
+      };
+
+      const coldBrew: BrewEvent[] = [
+        { timeISO: '2024-01-15T08:00:00Z', type: 'cold_brew', amount_ml: 250 },
+      ];
+
+      expect(peakMinutes(coldBrew)).toBeGreaterThan(peakMinutes(espresso));
+    });
+
+    it('should honour custom absorption rates', () => {
+      const slow = modelCaffeine(espresso, baseBody, {
+        ...window,
+        absorption: 'first-order',
+        kaPerHour: { espresso: 1 },
+      });
+      const fast = modelCaffeine(espresso, baseBody, { ...window, absorption: 'first-order' });
+
+      // 30 minutes in, the slowly absorbed dose has reached the body less
+      expect(slow[6].body_mg).toBeLessThan(fast[6].body_mg);
+    });
+  });
+
+  describe('absorptionRateFor', () => {
+    it('should return the per-type default for regular pours', () => {
+      expect(absorptionRateFor('espresso', 38)).toBe(DEFAULT_KA_PER_HOUR.espresso);
+      expect(absorptionRateFor('v60', LARGE_POUR_ML)).toBe(DEFAULT_KA_PER_HOUR.v60);
+    });
+
+    it('should slow absorption for large pours', () => {
+      expect(absorptionRateFor('v60', 600)).toBeLessThan(DEFAULT_KA_PER_HOUR.v60);
+      expect(absorptionRateFor('v60', 600)).toBeCloseTo(DEFAULT_KA_PER_HOUR.v60 * Math.sqrt(0.5), 5);
+    });
+
+    it('should never slow absorption below half the base rate', () => {
+      expect(absorptionRateFor('v60', 10_000)).toBeCloseTo(DEFAULT_KA_PER_HOUR.v60 * 0.5, 5);
+    });
+
+    it('should fall back to the other rate for unknown types', () => {
+      expect(absorptionRateFor('unknown')).toBe(DEFAULT_KA_PER_HOUR.other);
+    });
+  });
+
+  describe('bodyFraction', () => {
+    const ke = Math.log(2) / 5;
+
+    it('should be zero before intake', () => {
+      expect(bodyFraction(-1, ke)).toBe(0);
+      expect(bodyFraction(-1, ke, 4)).toBe(0);
+    });
+
+    it('should follow exponential decay without absorption rate', () => {
+      expect(bodyFraction(0, ke)).toBe(1);
+      expect(bodyFraction(5, ke)).toBeCloseTo(0.5, 10);
+    });
+
+    it('should handle ka equal to ke without dividing by zero', () => {
+      const value = bodyFraction(2, ke, ke);
+
+      expect(Number.isFinite(value)).toBe(true);
+      expect(value).toBeCloseTo(bodyFraction(2, ke, ke + 1e-6), 5);
+    });
+  });
+
   describe('estimateIntakeMgFor', () => {
     it('should calculate espresso intake correctly', () => {
       const result = estimateIntakeMgFor('espresso', 38);
@@ -718,4 +836,98 @@ describe('caffeine modeling', () => {
       expect(DEFAULT_SHOT_ML.v60).toBe(250);
     });
   });
+  describe('effectiveDoseMg', () => {
+    it('should scale the default shot by bioavailability and sensitivity', () => {
+      const dose = effectiveDoseMg({ type: 'v60' }, baseBody);
+
+      // 250 ml × 0.8 mg/ml × 0.99
+      expect(dose).toBeCloseTo(198, 5);
+    });
+
+    it('should prefer an explicit mg dose', () => {
+      expect(effectiveDoseMg({ type: 'v60', mg: 100 }, baseBody)).toBeCloseTo(99, 5);
+    });
+  });
+
+  describe('timeBelowThreshold', () => {
+    const fromMs = Date.parse('2024-01-15T08:00:00Z');
+
+    it('should return the start time when there is no caffeine', () => {
+      expect(timeBelowThreshold([], baseBody, 1.0, fromMs)).toBe(fromMs);
+    });
+
+    it('should find when a V60 decays below the threshold', () => {
+      const events: BrewEvent[] = [{ timeISO: '2024-01-15T08:00:00Z', type: 'v60' }];
+
+      const below = timeBelowThreshold(events, baseBody, 1.0, fromMs, { absorption: 'instant' });
+
+      // 198 mg / 42 L ≈ 4.71 mg/L → 5 h × log2(4.71) ≈ 11.18 h
+      expect(below).not.toBeNull();
+      const hours = (below! - fromMs) / 3600_000;
+      expect(hours).toBeGreaterThan(11.1);
+      expect(hours).toBeLessThan(11.3);
+    });
+
+    it('should take longer with first-order absorption', () => {
+      const events: BrewEvent[] = [{ timeISO: '2024-01-15T08:00:00Z', type: 'v60' }];
+
+      const instant = timeBelowThreshold(events, baseBody, 1.0, fromMs, { absorption: 'instant' });
+      const firstOrder = timeBelowThreshold(events, baseBody, 1.0, fromMs, { absorption: 'first-order' });
+
+      expect(firstOrder!).toBeGreaterThan(instant!);
+    });
+
+    it('should return null when the level does not drop within the horizon', () => {
+      const events: BrewEvent[] = [{ timeISO: '2024-01-15T08:00:00Z', type: 'v60' }];
+
+      expect(
+        timeBelowThreshold(events, baseBody, 1.0, fromMs, { absorption: 'instant', horizonHours: 6 })
+      ).toBeNull();
+    });
+  });
+
+  describe('latestIntakeBefore', () => {
+    const fromMs = Date.parse('2024-01-15T08:00:00Z');
+    const targetMs = Date.parse('2024-01-15T23:00:00Z');
+
+    it('should find the latest espresso that is gone by the target time', () => {
+      const latest = latestIntakeBefore([], baseBody, { type: 'espresso' }, targetMs, 1.0, fromMs, {
+        absorption: 'instant',
+      });
+
+      // 79 mg / 42 L ≈ 1.88 mg/L needs 5 h × log2(1.88) ≈ 4.56 h → 18:26, on a 5 min grid 18:25
+      expect(latest).toBe(Date.parse('2024-01-15T18:25:00Z'));
+    });
+
+    it('should move the cutoff earlier with first-order absorption', () => {
+      const instant = latestIntakeBefore([], baseBody, { type: 'espresso' }, targetMs, 1.0, fromMs, {
+        absorption: 'instant',
+      });
+      const firstOrder = latestIntakeBefore([], baseBody, { type: 'espresso' }, targetMs, 1.0, fromMs, {
+        absorption: 'first-order',
+      });
+
+      expect(firstOrder).not.toBeNull();
+      expect(firstOrder!).toBeLessThan(instant!);
+    });
+
+    it('should account for caffeine already in the body', () => {
+      const events: BrewEvent[] = [{ timeISO: '2024-01-15T12:00:00Z', type: 'espresso' }];
+
+      const withLoad = latestIntakeBefore(events, baseBody, { type: 'espresso' }, targetMs, 1.0, fromMs, {
+        absorption: 'instant',
+      });
+
+      expect(withLoad).not.toBeNull();
+      expect(withLoad!).toBeLessThan(Date.parse('2024-01-15T18:25:00Z'));
+    });
+
+    it('should return null when the existing load alone is above the threshold', () => {
+      const events: BrewEvent[] = [{ timeISO: '2024-01-15T20:00:00Z', type: 'chemex' }];
+
+      expect(
+        latestIntakeBefore(events, baseBody, { type: 'espresso' }, targetMs, 1.0, fromMs)
+      ).toBeNull();
+    });
+  });
 });
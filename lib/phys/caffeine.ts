@@ -17,8 +17,18 @@ export type CaffeineOptions = {
   startMs?: number;                       // inclusive window start (ms since epoch)
   endMs?: number;                         // exclusive window end (ms since epoch)
   alignToHour?: boolean;                  // snap grid to :00 for start/end and steps
+  absorption?: AbsorptionModel;           // "instant" (default) or "first-order"
+  kaPerHour?: Record<string, number>;     // first-order absorption rate per type (1/h)
 };
 
+/**
+ * How a dose enters the body:
+ * - "instant": the whole dose is in the body at the time of the brew (legacy model)
+ * - "first-order": the dose is absorbed from the gut with rate ka (one-compartment
+ *   Bateman curve), giving a gradual rise to peak ~45 min after a cup
+ */
+export type AbsorptionModel = "instant" | "first-order";
+
 const LN2 = Math.log(2);
 
 // Operational defaults; tweak if you calibrate later.
@@ -42,6 +52,72 @@ export const DEFAULT_SHOT_ML: Record<string, number> = {
   other: 200,
 };
 
+// First-order absorption rates (1/h). With a 5 h half-life, ka≈5 peaks after ~45 min;
+// cold brew is sipped slowly and absorbed later.
+export const DEFAULT_KA_PER_HOUR: Record<string, number> = {
+  espresso: 5.0,
+  v60: 4.0,
+  chemex: 4.0,
+  moka: 5.0,
+  aero: 4.5,
+  cold_brew: 2.5,
+  other: 4.0,
+};
+
+// Pours above this volume are drunk over a longer period; ka is scaled down with √(ml).
+export const LARGE_POUR_ML = 300;
+
+/** Absorption rate (1/h) for a brew, slowed down for large pours. */
+export function absorptionRateFor(
+  type: string,
+  amount_ml?: number | null,
+  kaPerHour: Record<string, number> = DEFAULT_KA_PER_HOUR,
+): number {
+  const ka = kaPerHour[type] ?? kaPerHour.other ?? DEFAULT_KA_PER_HOUR.other;
+  if (typeof amount_ml !== "number" || amount_ml <= LARGE_POUR_ML) return ka;
+  return ka * Math.max(0.5, Math.sqrt(LARGE_POUR_ML / amount_ml));
+}
+
+/**
+ * Fraction of a dose present in the body `dtHours` after intake
+ * (absorbed and not yet eliminated).
+ */
+export function bodyFraction(dtHours: number, kePerHour: number, kaPerHour?: number): number {
+  if (dtHours < 0) return 0;
+  if (kaPerHour === undefined) return Math.exp(-kePerHour * dtHours);
+  if (Math.abs(kaPerHour - kePerHour) < 1e-9) {
+    // Limit of the Bateman function for ka → ke
+    return kePerHour * dtHours * Math.exp(-kePerHour * dtHours);
+  }
+  return (kaPerHour / (kaPerHour - kePerHour))
+    * (Math.exp(-kePerHour * dtHours) - Math.exp(-kaPerHour * dtHours));
+}
+
+/**
+ * Effective dose (mg) of a brew: explicit mg, else poured volume × density,
+ * else the default shot for the type; scaled by bioavailability and sensitivity.
+ */
+export function effectiveDoseMg(
+  e: Pick<BrewEvent, "type" | "amount_ml" | "mg">,
+  body: BodyProfile,
+  opts: Pick<CaffeineOptions, "mgPerMl" | "defaultShotMl"> = {},
+): number {
+  const mgPerMl = { ...DEFAULT_MG_PER_ML, ...(opts.mgPerMl ?? {}) };
+  const shotMl = { ...DEFAULT_SHOT_ML, ...(opts.defaultShotMl ?? {}) };
+
+  const sensitivity = body.caffeine_sensitivity ?? 1.0; // 0.5..2
+  const bioavailability = body.bioavailability ?? 0.9;  // 0..1
+
+  const type = (e.type || "other") as string;
+  const explicit = (typeof e.mg === "number" && e.mg > 0) ? e.mg : undefined;
+  const fromAmount = (typeof e.amount_ml === "number" && e.amount_ml > 0)
+    ? e.amount_ml * (mgPerMl[type] ?? mgPerMl.other)
+    : undefined;
+  const fallback = (shotMl[type] ?? shotMl.other) * (mgPerMl[type] ?? mgPerMl.other);
+  const baseDose = (explicit ?? fromAmount ?? fallback);
+  return baseDose * bioavailability * sensitivity;
+}
+
 export type CaffeinePoint = {
   timeISO: string;
   intake_mg: number;       // mg consumed at this step (instantaneous bucket)
@@ -56,13 +132,9 @@ export function modelCaffeine(
 ): CaffeinePoint[] {
   // ---- parameters
   const half_life_hours = (opts.halfLifeHours ?? body.half_life_hours ?? 5);
-  const kPerMinute = LN2 / (half_life_hours * 60);
-
-  const mgPerMl = { ...DEFAULT_MG_PER_ML, ...(opts.mgPerMl ?? {}) };
-  const shotMl = { ...DEFAULT_SHOT_ML, ...(opts.defaultShotMl ?? {}) };
-
-  const sensitivity = body.caffeine_sensitivity ?? 1.0; // 0.5..2
-  const bioavailability = body.bioavailability ?? 0.9;  // 0..1
+  const kePerHour = LN2 / half_life_hours;
+  const firstOrder = opts.absorption === "first-order";
+  const kaPerHour = { ...DEFAULT_KA_PER_HOUR, ...(opts.kaPerHour ?? {}) };
 
   const weight_kg = body.weight_kg || 75;
   const vd_l_per_kg = body.vd_l_per_kg ?? 0.6;
@@ -83,14 +155,8 @@ export function modelCaffeine(
     .sort((a, b) => Date.parse(a.timeISO) - Date.parse(b.timeISO))
     .map(e => {
       const type = (e.type || "other") as string;
-      const explicit = (typeof e.mg === "number" && e.mg > 0) ? e.mg : undefined;
-      const fromAmount = (typeof e.amount_ml === "number" && e.amount_ml! > 0)
-        ? e.amount_ml! * (mgPerMl[type] ?? mgPerMl.other)
-        : undefined;
-      const fallback = (shotMl[type] ?? shotMl.other) * (mgPerMl[type] ?? mgPerMl.other);
-      const baseDose = (explicit ?? fromAmount ?? fallback);
-      const doseMg = baseDose * bioavailability * sensitivity;
-      return { t: Date.parse(e.timeISO), mg: doseMg };
+      const ka = firstOrder ? absorptionRateFor(type, e.amount_ml, kaPerHour) : undefined;
+      return { t: Date.parse(e.timeISO), mg: effectiveDoseMg(e, body, opts), ka };
     });
 
   // ---- window selection (prefer explicit bounds if provided)
@@ -124,9 +190,8 @@ export function modelCaffeine(
     let body_mg = 0;
     for (const e of evts) {
       if (e.t > t) break;
-      const dtMin = (t - e.t) / (60 * 1000);
-      const remaining = e.mg * Math.exp(-kPerMinute * dtMin);
-      body_mg += remaining;
+      const dtHours = (t - e.t) / (60 * 60 * 1000);
+      body_mg += e.mg * bodyFraction(dtHours, kePerHour, e.ka);
     }
     const intake_mg = buckets.get(step) ?? 0;
 
@@ -141,6 +206,89 @@ export function modelCaffeine(
   return out;
 }
 
+// ---- Forecasting ("when am I below X?" / "latest cup for bedtime")
+
+export type ForecastOptions = Omit<CaffeineOptions, "startMs" | "endMs" | "alignToHour" | "gridMinutes"> & {
+  stepMinutes?: number;   // search resolution (default 5 min)
+  horizonHours?: number;  // how far ahead to look (default 48 h)
+};
+
+// Sleep-friendly residual level; ≈40–50 mg in a 70 kg adult.
+export const DEFAULT_THRESHOLD_MG_PER_L = 1.0;
+
+// After the last dose the curve only needs a few hours to pass its peak,
+// even for slowly absorbed large pours (ka ≥ 1.25/h).
+const PEAK_SETTLE_HOURS = 4;
+
+/** Modeled concentration on a fixed grid over [fromMs, toMs). */
+function projectConcentration(
+  events: BrewEvent[],
+  body: BodyProfile,
+  fromMs: number,
+  toMs: number,
+  opts: ForecastOptions,
+): CaffeinePoint[] {
+  return modelCaffeine(events, body, {
+    ...opts,
+    startMs: fromMs,
+    endMs: toMs,
+    gridMinutes: opts.stepMinutes ?? 5,
+  });
+}
+
+/**
+ * First time at or after `fromMs` from which the modeled concentration stays
+ * below `thresholdMgPerL` (mg/L). Returns `fromMs` if already below and not
+ * rising above, or null if the level does not drop within the horizon.
+ */
+export function timeBelowThreshold(
+  events: BrewEvent[],
+  body: BodyProfile,
+  thresholdMgPerL: number,
+  fromMs: number,
+  opts: ForecastOptions = {},
+): number | null {
+  const horizonMs = (opts.horizonHours ?? 48) * 3600_000;
+  const series = projectConcentration(events, body, fromMs, fromMs + horizonMs, opts);
+
+  let lastAbove = -1;
+  series.forEach((p, i) => {
+    if (p.blood_mg_per_l >= thresholdMgPerL) lastAbove = i;
+  });
+
+  if (lastAbove === -1) return fromMs;
+  if (lastAbove === series.length - 1) return null;
+  return Date.parse(series[lastAbove + 1].timeISO);
+}
+
+/**
+ * Latest intake time in [fromMs, targetMs] for `brew` such that the modeled
+ * concentration is below `thresholdMgPerL` at `targetMs` and stays below while
+ * the dose is still being absorbed. Candidates are spaced `stepMinutes` back
+ * from the target. Returns null if even drinking at `fromMs` is too late (or
+ * the existing load alone is above the threshold).
+ */
+export function latestIntakeBefore(
+  events: BrewEvent[],
+  body: BodyProfile,
+  brew: Pick<BrewEvent, "type" | "amount_ml" | "mg">,
+  targetMs: number,
+  thresholdMgPerL: number,
+  fromMs: number,
+  opts: ForecastOptions = {},
+): number | null {
+  const stepMs = (opts.stepMinutes ?? 5) * 60_000;
+  const settleMs = PEAK_SETTLE_HOURS * 3600_000;
+
+  for (let t = targetMs; t >= fromMs; t -= stepMs) {
+    const withBrew = [...events, { ...brew, timeISO: new Date(t).toISOString() }];
+    const after = projectConcentration(withBrew, body, targetMs, targetMs + settleMs, opts);
+    if (after.every(p => p.blood_mg_per_l < thresholdMgPerL)) return t;
+  }
+
+  return null;
+}
+
 // Simple, consistent intake estimate from brew type + volume (ml).
 // Uses the same defaults you've been using elsewhere (e.g. espresso≈80 mg @38 ml, etc.).
 export function estimateIntakeMgFor(type: string, amount_ml: number): number {
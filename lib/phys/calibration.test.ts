@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calibrateHalfLife,
+  REFERENCE_SLEEP_SCORE_PER_MG,
+  type SleepNight,
+} from './calibration';
+import { modelCaffeine, type BrewEvent } from './caffeine';
+import type { BodyProfile } from '@/lib/user/profile';
+
+const body: BodyProfile = {
+  weight_kg: 70,
+  vd_l_per_kg: 0.6,
+  half_life_hours: 5,
+  caffeine_sensitivity: 1,
+  bioavailability: 0.9,
+};
+
+const DAY_MS = 24 * 3600_000;
+const START_MS = Date.parse('2025-01-01T00:00:00Z');
+
+/** One evening brew per night at varying times, so residual caffeine varies */
+function buildEvents(nights: number): BrewEvent[] {
+  return Array.from({ length: nights }, (_, i) => ({
+    timeISO: new Date(START_MS + i * DAY_MS - (2 + (i % 9)) * 3600_000).toISOString(),
+    type: i % 2 === 0 ? 'v60' : 'espresso',
+  }));
+}
+
+/** Sleep scores generated from a "true" half-life and slope, with small deterministic noise */
+function buildNights(events: BrewEvent[], nights: number, trueHalfLife: number, slopePerMg: number): SleepNight[] {
+  return Array.from({ length: nights }, (_, i) => {
+    const atMs = START_MS + i * DAY_MS;
+    const [point] = modelCaffeine(
+      events.filter((e) => Date.parse(e.timeISO) < atMs),
+      { ...body, caffeine_sensitivity: 1 },
+      { startMs: atMs, endMs: atMs + 1, halfLifeHours: trueHalfLife, absorption: 'first-order' }
+    );
+    const noise = (((i * 37) % 7) - 3) * 0.3;
+    return {
+      date: new Date(atMs).toISOString().slice(0, 10),
+      sleep_score: 85 + slopePerMg * point.body_mg + noise,
+      atMs,
+    };
+  });
+}
+
+describe('calibrateHalfLife', () => {
+  const events = buildEvents(40);
+
+  it('should recover the half-life that generated the sleep scores', () => {
+    const nights = buildNights(events, 40, 7, -0.08);
+
+    const result = calibrateHalfLife(nights, events, body);
+
+    expect(result.status).toBe('ok');
+    expect(result.n).toBe(40);
+    expect(result.half_life_hours).toBeGreaterThanOrEqual(6);
+    expect(result.half_life_hours).toBeLessThanOrEqual(8);
+    expect(result.half_life_ci95![0]).toBeLessThanOrEqual(7);
+    expect(result.half_life_ci95![1]).toBeGreaterThanOrEqual(7);
+    expect(result.fit!.r_squared).toBeGreaterThan(0.9);
+    expect(result.fit!.p_value).toBeLessThan(0.01);
+    expect(result.fit!.slope_per_100mg).toBeCloseTo(-8, 0);
+  });
+
+  it('should report the current profile values', () => {
+    const result = calibrateHalfLife(buildNights(events, 40, 7, -0.08), events, body);
+
+    expect(result.current).toEqual({ half_life_hours: 5, caffeine_sensitivity: 1 });
+  });
+
+  it('should not suggest a sensitivity unless asked', () => {
+    const result = calibrateHalfLife(buildNights(events, 40, 7, -0.08), events, body);
+
+    expect(result.caffeine_sensitivity).toBeNull();
+    expect(result.caffeine_sensitivity_ci95).toBeNull();
+  });
+
+  it('should express sensitivity relative to the reference slope', () => {
+    const slope = REFERENCE_SLEEP_SCORE_PER_MG * 1.6;
+    const result = calibrateHalfLife(buildNights(events, 40, 7, slope), events, body, {
+      fitSensitivity: true,
+    });
+
+    expect(result.caffeine_sensitivity).toBeCloseTo(1.6, 1);
+    expect(result.caffeine_sensitivity_ci95![0]).toBeLessThanOrEqual(result.caffeine_sensitivity!);
+    expect(result.caffeine_sensitivity_ci95![1]).toBeGreaterThanOrEqual(result.caffeine_sensitivity!);
+  });
+
+  it('should clamp sensitivity to the supported range', () => {
+    const result = calibrateHalfLife(buildNights(events, 40, 7, -0.5), events, body, {
+      fitSensitivity: true,
+    });
+
+    expect(result.caffeine_sensitivity).toBe(2);
+  });
+
+  it('should require a minimum number of nights', () => {
+    const result = calibrateHalfLife(buildNights(events, 10, 7, -0.08), events, body);
+
+    expect(result.status).toBe('insufficient_data');
+    expect(result.half_life_hours).toBeNull();
+    expect(result.fit).toBeNull();
+  });
+
+  it('should ignore nights without a sleep score', () => {
+    const nights = buildNights(events, 40, 7, -0.08).map((n, i) =>
+      i < 30 ? { ...n, sleep_score: 0 } : n
+    );
+
+    const result = calibrateHalfLife(nights, events, body);
+
+    expect(result.n).toBe(10);
+    expect(result.status).toBe('insufficient_data');
+  });
+
+  it('should report insufficient data when there is no caffeine at all', () => {
+    const nights = buildNights([], 20, 7, -0.08);
+
+    expect(calibrateHalfLife(nights, [], body).status).toBe('insufficient_data');
+  });
+
+  it('should not suggest a half-life when caffeine appears to improve sleep', () => {
+    const result = calibrateHalfLife(buildNights(events, 40, 7, 0.08), events, body);
+
+    expect(result.status).toBe('no_caffeine_effect');
+    expect(result.half_life_hours).toBeNull();
+    expect(result.fit!.slope_per_100mg).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,189 @@
+import type { BodyProfile } from "@/lib/user/profile";
+import { modelCaffeine, type BrewEvent } from "@/lib/phys/caffeine";
+import { calculatePearsonCorrelation } from "@/lib/stats/correlation";
+
+/** A night of sleep with the instant at which residual caffeine is evaluated. */
+export type SleepNight = {
+  date: string;      // sleep date (YYYY-MM-DD, Berlin)
+  sleep_score: number;
+  atMs: number;      // usually Berlin midnight starting that date
+};
+
+export type CalibrationOptions = {
+  minHalfLifeHours?: number;   // search range (default 2–12 h)
+  maxHalfLifeHours?: number;
+  stepHours?: number;          // grid resolution (default 0.25 h)
+  minNights?: number;          // minimum usable nights (default 14)
+  fitSensitivity?: boolean;    // also estimate caffeine_sensitivity
+};
+
+export type CalibrationStatus =
+  | "ok"                    // suggestion available
+  | "insufficient_data"     // too few nights, or no caffeine variation
+  | "no_caffeine_effect";   // best fit has caffeine improving sleep; nothing to calibrate
+
+export type CalibrationResult = {
+  status: CalibrationStatus;
+  n: number;
+  current: { half_life_hours: number; caffeine_sensitivity: number };
+  half_life_hours: number | null;
+  half_life_ci95: [number, number] | null;  // profile-likelihood interval on the search grid
+  caffeine_sensitivity: number | null;      // only with fitSensitivity
+  caffeine_sensitivity_ci95: [number, number] | null;
+  fit: {
+    r_squared: number;
+    p_value: number;
+    slope_per_100mg: number;   // sleep score change per 100 mg at midnight (sensitivity 1)
+    intercept: number;         // sleep score with no residual caffeine
+  } | null;
+};
+
+// Sleep score points lost per mg of residual caffeine at midnight for a person
+// with sensitivity 1 (≈5 points per 100 mg). Sensitivity is not identifiable from
+// sleep scores alone, so it is expressed relative to this reference slope.
+export const REFERENCE_SLEEP_SCORE_PER_MG = -0.05;
+
+// Same range as the manual setting in body_profile
+const SENSITIVITY_RANGE: [number, number] = [0.5, 2];
+
+// χ²(1) 95% quantile for the profile-likelihood interval
+const CHI2_1_95 = 3.841;
+
+/** Ordinary least squares y = a + b·x with the standard error of b. */
+function linearFit(x: number[], y: number[]) {
+  const n = x.length;
+  const mx = x.reduce((s, v) => s + v, 0) / n;
+  const my = y.reduce((s, v) => s + v, 0) / n;
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (x[i] - mx) ** 2;
+    sxy += (x[i] - mx) * (y[i] - my);
+    syy += (y[i] - my) ** 2;
+  }
+
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = my - slope * mx;
+  const sse = Math.max(0, syy - slope * sxy);
+  const slopeSE = sxx > 0 && n > 2 ? Math.sqrt(sse / (n - 2) / sxx) : Infinity;
+
+  return { slope, intercept, sse, sst: syy, sxx, slopeSE };
+}
+
+/** Residual body caffeine (mg) at each night's `atMs` for a given half-life, with sensitivity 1. */
+function residualsAt(
+  nights: SleepNight[],
+  events: BrewEvent[],
+  body: BodyProfile,
+  halfLifeHours: number,
+): number[] {
+  const neutral = { ...body, caffeine_sensitivity: 1 };
+  return nights.map((night) => {
+    const [point] = modelCaffeine(
+      events.filter((e) => Date.parse(e.timeISO) < night.atMs),
+      neutral,
+      { startMs: night.atMs, endMs: night.atMs + 1, halfLifeHours, absorption: "first-order" },
+    );
+    return point?.body_mg ?? 0;
+  });
+}
+
+const clamp = (v: number, [lo, hi]: [number, number]) => Math.min(hi, Math.max(lo, v));
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+/**
+ * Fit the caffeine half-life that best explains night-to-night sleep score
+ * variation, assuming sleep_score = a + b · residual caffeine at midnight.
+ *
+ * The half-life is found by grid search on the residual sum of squares; its 95%
+ * interval contains every grid value whose likelihood ratio against the best
+ * fit stays below χ²(1). With `fitSensitivity`, the fitted slope is compared
+ * to REFERENCE_SLEEP_SCORE_PER_MG to suggest a caffeine_sensitivity.
+ */
+export function calibrateHalfLife(
+  nights: SleepNight[],
+  events: BrewEvent[],
+  body: BodyProfile,
+  opts: CalibrationOptions = {},
+): CalibrationResult {
+  const minH = opts.minHalfLifeHours ?? 2;
+  const maxH = opts.maxHalfLifeHours ?? 12;
+  const step = opts.stepHours ?? 0.25;
+  const minNights = opts.minNights ?? 14;
+
+  const usable = nights.filter((n) => Number.isFinite(n.sleep_score) && n.sleep_score > 0);
+  const scores = usable.map((n) => n.sleep_score);
+
+  const base: CalibrationResult = {
+    status: "insufficient_data",
+    n: usable.length,
+    current: {
+      half_life_hours: body.half_life_hours ?? 5,
+      caffeine_sensitivity: body.caffeine_sensitivity ?? 1,
+    },
+    half_life_hours: null,
+    half_life_ci95: null,
+    caffeine_sensitivity: null,
+    caffeine_sensitivity_ci95: null,
+    fit: null,
+  };
+
+  if (usable.length < minNights) return base;
+
+  // ---- profile the residual sum of squares over the half-life grid
+  const grid: { h: number; x: number[]; fit: ReturnType<typeof linearFit> }[] = [];
+  for (let h = minH; h <= maxH + 1e-9; h += step) {
+    const x = residualsAt(usable, events, body, h);
+    grid.push({ h: round2(h), x, fit: linearFit(x, scores) });
+  }
+
+  const informative = grid.filter((g) => g.fit.sxx > 0);
+  if (informative.length === 0) return base;
+
+  const best = informative.reduce((a, b) => (b.fit.sse < a.fit.sse ? b : a));
+  const n = usable.length;
+  const correlation = calculatePearsonCorrelation(best.x, scores);
+
+  const fit = {
+    r_squared: best.fit.sst > 0 ? round2(1 - best.fit.sse / best.fit.sst) : 0,
+    p_value: correlation.pValue,
+    slope_per_100mg: round2(best.fit.slope * 100),
+    intercept: round2(best.fit.intercept),
+  };
+
+  if (best.fit.slope >= 0) {
+    return { ...base, status: "no_caffeine_effect", fit };
+  }
+
+  // ---- 95% profile-likelihood interval (grid values within χ²(1)/2 of the best log-likelihood)
+  const sseMin = Math.max(best.fit.sse, 1e-9);
+  const inside = informative
+    .filter((g) => g.fit.slope < 0 && n * Math.log(Math.max(g.fit.sse, 1e-9) / sseMin) <= CHI2_1_95)
+    .map((g) => g.h);
+  const halfLifeCI: [number, number] = [Math.min(...inside), Math.max(...inside)];
+
+  // ---- optional sensitivity relative to the reference slope
+  let sensitivity: number | null = null;
+  let sensitivityCI: [number, number] | null = null;
+  if (opts.fitSensitivity) {
+    const ratio = (b: number) => b / REFERENCE_SLEEP_SCORE_PER_MG;
+    const margin = 1.96 * best.fit.slopeSE;
+    sensitivity = round2(clamp(ratio(best.fit.slope), SENSITIVITY_RANGE));
+    sensitivityCI = [
+      round2(clamp(ratio(best.fit.slope + margin), SENSITIVITY_RANGE)),
+      round2(clamp(ratio(best.fit.slope - margin), SENSITIVITY_RANGE)),
+    ];
+  }
+
+  return {
+    ...base,
+    status: "ok",
+    half_life_hours: best.h,
+    half_life_ci95: halfLifeCI,
+    caffeine_sensitivity: sensitivity,
+    caffeine_sensitivity_ci95: sensitivityCI,
+    fit,
+  };
+}
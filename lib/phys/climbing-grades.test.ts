@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  climbingSession,
+  convertGrade,
+  gradePyramid,
+  maxGradeProgression,
+  parseGrade,
+  parseGradeList,
+  sendRate,
+  type ClimbingWorkout,
+} from './climbing-grades';
+
+const workout = (
+  workout_type: string,
+  details: Record<string, unknown>,
+  date = '2025-06-01',
+  workout_id = 1
+): ClimbingWorkout => ({ workout_id, date, workout_type, details });
+
+describe('parseGrade', () => {
+  it('reads every supported system', () => {
+    expect(parseGrade('6b+')).toMatchObject({ system: 'french', grade: '6b+', discipline: 'route', difficulty: 13 });
+    expect(parseGrade('VII-')).toMatchObject({ system: 'uiaa', grade: 'VII-', difficulty: 11 });
+    expect(parseGrade('5.11a')).toMatchObject({ system: 'yds', grade: '5.11a', difficulty: 13.5 });
+    expect(parseGrade('7A')).toMatchObject({ system: 'font', grade: '7A', discipline: 'boulder', difficulty: 20 });
+    expect(parseGrade('v5')).toMatchObject({ system: 'v', grade: 'V5', discipline: 'boulder' });
+  });
+
+  it('uses the discipline for letter grades and plain numerals', () => {
+    expect(parseGrade('6B', 'route')).toMatchObject({ system: 'french', grade: '6b' });
+    expect(parseGrade('6b+', 'boulder')).toMatchObject({ system: 'font', grade: '6B+' });
+    expect(parseGrade('7-', 'route')).toMatchObject({ system: 'uiaa', grade: 'VII-' });
+    expect(parseGrade('5+', 'boulder')).toMatchObject({ system: 'font', grade: '5+' });
+  });
+
+  it('honours explicit system prefixes', () => {
+    expect(parseGrade('Font 6c', 'route')).toMatchObject({ system: 'font', grade: '6C' });
+    expect(parseGrade('fb7a')).toMatchObject({ system: 'font', grade: '7A' });
+    expect(parseGrade('UIAA 8')).toMatchObject({ system: 'uiaa', grade: 'VIII' });
+    expect(parseGrade('f6A', 'route')).toMatchObject({ system: 'french', grade: '6a' });
+  });
+
+  it('places split and letterless grades between their neighbours', () => {
+    expect(parseGrade('7a/+')).toMatchObject({ grade: '7a/7a+', difficulty: 16.5 });
+    expect(parseGrade('VI+/VII-')).toMatchObject({ grade: 'VI+/VII-', difficulty: 10.5 });
+    expect(parseGrade('5.10')?.difficulty).toBe(11.5);
+    expect(parseGrade('5.10+')?.difficulty).toBe(12.5);
+    expect(parseGrade('V4+')).toMatchObject({ grade: 'V4+', difficulty: 17 });
+  });
+
+  it('rejects anything else', () => {
+    for (const text of ['', 'hard', '6d', '10a', 'V25', '5.16a', '6a/V3', 'yds 6a']) {
+      expect(parseGrade(text)).toBeNull();
+    }
+  });
+});
+
+describe('convertGrade', () => {
+  it('converts through the canonical difficulty', () => {
+    const grade = parseGrade('7a')!;
+    expect(convertGrade(grade.difficulty, 'yds')).toBe('5.11d');
+    expect(convertGrade(grade.difficulty, 'uiaa')).toBe('VIII');
+    expect(convertGrade(parseGrade('V6')!.difficulty, 'font')).toBe('7A');
+    expect(convertGrade(parseGrade('6C+')!.difficulty, 'v')).toBe('V5');
+  });
+
+  it('clamps to the ends of the scale', () => {
+    expect(convertGrade(50, 'french')).toBe('9c');
+    expect(convertGrade(0, 'v')).toBe('VB');
+  });
+});
+
+describe('parseGradeList', () => {
+  it('reads counts', () => {
+    expect(parseGradeList(8)).toEqual({ grades: [], count: 8, unparsed: [] });
+    expect(parseGradeList('5', 'boulder').count).toBe(5);
+    expect(parseGradeList(undefined).count).toBeNull();
+  });
+
+  it('reads lists with repeats and keeps unknown entries', () => {
+    const list = parseGradeList('2x V3; V4, V5 x2, project', 'boulder');
+
+    expect(list.grades.map((g) => g.grade)).toEqual(['V3', 'V3', 'V4', 'V5', 'V5']);
+    expect(list.count).toBe(6);
+    expect(list.unparsed).toEqual(['project']);
+    expect(parseGradeList(['6a', '6b'], 'route').grades).toHaveLength(2);
+  });
+
+  it('leaves implausible repeat counts unparsed', () => {
+    const list = parseGradeList('99999999x 6a, 100x 6b', 'route');
+
+    expect(list.grades).toHaveLength(100);
+    expect(list.unparsed).toEqual(['99999999x 6a']);
+    expect(list.count).toBe(101);
+  });
+});
+
+describe('climbingSession', () => {
+  it('counts the logged grade as a send without a list', () => {
+    const session = climbingSession(workout('climbing', { grade: '6c', pitches: 4 }));
+
+    expect(session.discipline).toBe('route');
+    expect(session.sends.map((g) => g.grade)).toEqual(['6c']);
+    expect(session.max?.grade).toBe('6c');
+    expect(session.attempts).toBeNull();
+  });
+
+  it('uses graded pitches and sends over the session grade', () => {
+    const route = climbingSession(workout('climbing', { grade: '6a', pitches: '5c, 6a, 6b' }));
+    expect(route.sends).toHaveLength(3);
+    expect(route.max?.grade).toBe('6b');
+
+    const boulder = climbingSession(workout('bouldering', { max_grade: 'V5', problems: 10, sends: '3x V3, V4' }));
+    expect(boulder.sends.map((g) => g.grade)).toEqual(['V3', 'V3', 'V3', 'V4']);
+    expect(boulder.max?.grade).toBe('V5');
+    expect(boulder).toMatchObject({ send_count: 4, attempts: 10 });
+  });
+
+  it('records no sends when none were logged and reports bad grades', () => {
+    const session = climbingSession(workout('bouldering', { max_grade: '7Z', problems: 6, sends: 0 }));
+
+    expect(session.sends).toEqual([]);
+    expect(session.max).toBeNull();
+    expect(session.unparsed).toEqual(['7Z']);
+  });
+});
+
+describe('gradePyramid', () => {
+  it('bins sends from mixed systems into one system, hardest first', () => {
+    const sessions = [
+      climbingSession(workout('bouldering', { sends: 'V3, V3, 6A+, V6' })),
+      climbingSession(workout('bouldering', { sends: '7A' })),
+    ];
+
+    expect(gradePyramid(sessions, 'font')).toEqual([
+      { grade: '7A', difficulty: 20, count: 2 },
+      { grade: '6A+', difficulty: 15, count: 1 },
+      { grade: '6A', difficulty: 14, count: 2 },
+    ]);
+  });
+});
+
+describe('maxGradeProgression', () => {
+  it('keeps the sessions that raised the max grade, oldest first', () => {
+    const progression = maxGradeProgression([
+      climbingSession(workout('climbing', { grade: '7a' }, '2025-03-01', 3)),
+      climbingSession(workout('climbing', { grade: '6b' }, '2025-01-01', 1)),
+      climbingSession(workout('climbing', { grade: 'VII' }, '2025-02-01', 2)),
+      climbingSession(workout('climbing', { grade: '5.11d' }, '2025-04-01', 4)),
+    ]);
+
+    expect(progression.map((r) => r.workout_id)).toEqual([1, 3]);
+    expect(progression[1].grade.grade).toBe('7a');
+  });
+});
+
+describe('sendRate', () => {
+  it('divides sends by attempts over sessions that logged both', () => {
+    const rate = sendRate([
+      climbingSession(workout('bouldering', { problems: 10, sends: 4 })),
+      climbingSession(workout('bouldering', { problems: 5, sends: 'V2, V3, V3' })),
+      climbingSession(workout('bouldering', { max_grade: 'V4' })),
+    ]);
+
+    expect(rate).toEqual({ sends: 7, attempts: 15, rate: 7 / 15 });
+    expect(sendRate([]).rate).toBeNull();
+  });
+});
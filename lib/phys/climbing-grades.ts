@@ -0,0 +1,334 @@
+/**
+ * Climbing grades: parse the free-text grades logged with climbing and
+ * bouldering workouts (French, UIAA, YDS, Font, V-scale), place them on one
+ * numeric difficulty scale and convert between systems. Grade pyramids,
+ * max-grade progression and send rates build on that.
+ */
+
+export const ROUTE_GRADE_SYSTEMS = ['french', 'uiaa', 'yds'] as const;
+export const BOULDER_GRADE_SYSTEMS = ['font', 'v'] as const;
+
+export type RouteGradeSystem = (typeof ROUTE_GRADE_SYSTEMS)[number];
+export type BoulderGradeSystem = (typeof BOULDER_GRADE_SYSTEMS)[number];
+export type GradeSystem = RouteGradeSystem | BoulderGradeSystem;
+export type ClimbingDiscipline = 'route' | 'boulder';
+
+export type Grade = {
+  system: GradeSystem;
+  grade: string;          // normalized: "6b+", "VII-", "5.11a", "7A", "V5"
+  discipline: ClimbingDiscipline;
+  difficulty: number;     // canonical difficulty, comparable across systems
+};
+
+/*
+ * Canonical difficulty: one step per French sport sub-grade (5c = 9, 6a = 10,
+ * 6a+ = 11 … 9c = 32). Other route systems follow the usual conversion
+ * tables; where a grade sits between two French grades it gets the midpoint.
+ * Boulder grades sit at the route grade of similar effort (Font 7A ≈ 7c).
+ */
+const GRADE_TABLES: Record<GradeSystem, [string, number][]> = {
+  french: [
+    ['3', 3], ['4a', 4], ['4b', 5], ['4c', 6], ['5a', 7], ['5b', 8], ['5c', 9],
+    ['6a', 10], ['6a+', 11], ['6b', 12], ['6b+', 13], ['6c', 14], ['6c+', 15],
+    ['7a', 16], ['7a+', 17], ['7b', 18], ['7b+', 19], ['7c', 20], ['7c+', 21],
+    ['8a', 22], ['8a+', 23], ['8b', 24], ['8b+', 25], ['8c', 26], ['8c+', 27],
+    ['9a', 28], ['9a+', 29], ['9b', 30], ['9b+', 31], ['9c', 32],
+  ],
+  uiaa: [
+    ['III', 3], ['IV-', 3.5], ['IV', 4], ['IV+', 5], ['V-', 5.5], ['V', 6], ['V+', 7],
+    ['VI-', 8], ['VI', 9], ['VI+', 10], ['VII-', 11], ['VII', 12], ['VII+', 13.5],
+    ['VIII-', 15], ['VIII', 16.5], ['VIII+', 18.5], ['IX-', 20], ['IX', 21], ['IX+', 22],
+    ['X-', 23], ['X', 24], ['X+', 25.5], ['XI-', 27], ['XI', 28], ['XI+', 29.5],
+    ['XII-', 31], ['XII', 32],
+  ],
+  yds: [
+    ['5.3', 3], ['5.4', 4], ['5.5', 5], ['5.6', 6], ['5.7', 7], ['5.8', 8], ['5.9', 9],
+    ['5.10a', 10], ['5.10b', 11], ['5.10c', 12], ['5.10d', 13],
+    ['5.11a', 13.5], ['5.11b', 14], ['5.11c', 15], ['5.11d', 16],
+    ['5.12a', 17], ['5.12b', 18], ['5.12c', 19], ['5.12d', 20],
+    ['5.13a', 21], ['5.13b', 22], ['5.13c', 23], ['5.13d', 24],
+    ['5.14a', 25], ['5.14b', 26], ['5.14c', 27], ['5.14d', 28],
+    ['5.15a', 29], ['5.15b', 30], ['5.15c', 31], ['5.15d', 32],
+  ],
+  font: [
+    ['3', 7], ['4', 9], ['4+', 10], ['5', 11], ['5+', 12],
+    ['6A', 14], ['6A+', 15], ['6B', 16], ['6B+', 17], ['6C', 18], ['6C+', 19],
+    ['7A', 20], ['7A+', 21], ['7B', 22], ['7B+', 23], ['7C', 24], ['7C+', 25],
+    ['8A', 26], ['8A+', 27], ['8B', 28], ['8B+', 29], ['8C', 30], ['8C+', 31], ['9A', 32],
+  ],
+  v: [
+    ['VB', 7], ['V0', 9.5], ['V1', 11], ['V2', 12], ['V3', 14.5], ['V4', 16.5],
+    ['V5', 18.5], ['V6', 20], ['V7', 21], ['V8', 22.5], ['V9', 24], ['V10', 25],
+    ['V11', 26], ['V12', 27], ['V13', 28], ['V14', 29], ['V15', 30], ['V16', 31], ['V17', 32],
+  ],
+};
+
+const GRADE_LOOKUP = Object.fromEntries(
+  Object.entries(GRADE_TABLES).map(([system, table]) => [system, new Map(table)])
+) as Record<GradeSystem, Map<string, number>>;
+
+const ROMAN = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII'];
+
+// Explicit system prefixes: "f6a", "Font 7A", "fb 6C", "UIAA 7-", "YDS 5.11a"
+const SYSTEM_PREFIX = /^(fb|font|french|f|uiaa|yds)\s*(?=[\dIVXivx])/i;
+
+export function gradeDiscipline(system: GradeSystem): ClimbingDiscipline {
+  return (BOULDER_GRADE_SYSTEMS as readonly string[]).includes(system) ? 'boulder' : 'route';
+}
+
+function lookup(system: GradeSystem, grade: string, nudge = 0): Grade | null {
+  const difficulty = GRADE_LOOKUP[system].get(grade);
+  if (difficulty === undefined) return null;
+  return {
+    system,
+    grade: grade + (nudge < 0 ? '-' : nudge > 0 ? '+' : ''),
+    discipline: gradeDiscipline(system),
+    difficulty: difficulty + nudge,
+  };
+}
+
+type GradePrefix = 'f' | 'french' | 'font' | 'uiaa' | 'yds';
+
+function parseSingle(text: string, discipline?: ClimbingDiscipline, prefix?: GradePrefix): Grade | null {
+  let m: RegExpMatchArray | null;
+
+  // V-scale: V0–V17, VB; a trailing +/- is half a grade
+  if (!prefix && (m = text.match(/^v(b|\d{1,2})([+-])?$/i))) {
+    return lookup('v', `V${m[1].toUpperCase()}`, m[2] === '+' ? 0.5 : m[2] === '-' ? -0.5 : 0);
+  }
+
+  // YDS: 5.9, 5.11a, 5.10+ (no letter: middle of the grade, +/- its upper/lower half)
+  if ((!prefix || prefix === 'yds') && (m = text.match(/^5\.(\d{1,2})([a-d])?([+-])?$/i))) {
+    const major = Number(m[1]);
+    if (major < 10) return lookup('yds', `5.${major}`, m[3] === '+' ? 0.5 : m[3] === '-' ? -0.5 : 0);
+    if (m[2]) return m[3] ? null : lookup('yds', `5.${major}${m[2].toLowerCase()}`);
+
+    const letters = ['a', 'b', 'c', 'd'].map((l) => GRADE_LOOKUP.yds.get(`5.${major}${l}`));
+    if (letters.some((d) => d === undefined)) return null;
+    const middle = (letters as number[]).reduce((a, b) => a + b, 0) / 4;
+    const nudge = m[3] === '+' ? 1 : m[3] === '-' ? -1 : 0;
+    return { system: 'yds', grade: `5.${major}${m[3] ?? ''}`, discipline: 'route', difficulty: middle + nudge };
+  }
+  if (prefix === 'yds') return null;
+
+  // UIAA in roman numerals: VI+, VII-, IX
+  if ((!prefix || prefix === 'uiaa') && (m = text.match(/^([ivx]+)([+-])?$/i))) {
+    return lookup('uiaa', m[1].toUpperCase() + (m[2] ?? ''));
+  }
+
+  // Letter grades: French for routes ("6b+"), Font for boulders ("6B+"). The
+  // prefix or the workout type decides; otherwise upper case means Font.
+  if (prefix !== 'uiaa' && (m = text.match(/^(\d)([a-c])(\+)?$/i))) {
+    const font =
+      prefix === 'font' ||
+      (prefix !== 'french' && (discipline ? discipline === 'boulder' : m[2] === m[2].toUpperCase()));
+    return font
+      ? lookup('font', `${m[1]}${m[2].toUpperCase()}${m[3] ?? ''}`)
+      : lookup('french', `${m[1]}${m[2].toLowerCase()}${m[3] ?? ''}`);
+  }
+
+  // Plain numerals: Font below 6A for boulders, French 3 with a prefix,
+  // otherwise UIAA in arabic numerals ("7-"), as logged in German gyms
+  if ((m = text.match(/^(\d{1,2})([+-])?$/))) {
+    if (prefix === 'font' || (!prefix && discipline === 'boulder')) return lookup('font', m[1] + (m[2] ?? ''));
+    if (prefix === 'french' || prefix === 'f') return m[2] ? null : lookup('french', m[1]);
+    const roman = ROMAN[Number(m[1]) - 1];
+    return roman ? lookup('uiaa', roman + (m[2] ?? '')) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Parse one grade as logged, e.g. "6b+", "VII-", "UIAA 7", "5.11a", "Font 7A",
+ * "V5" or a split grade such as "6c/6c+" or "7a/+" (midpoint of both).
+ * `discipline` (from the workout type) resolves "6b" vs "6B" and plain numerals.
+ * Returns null for anything that is not a recognizable grade.
+ */
+export function parseGrade(input: string, discipline?: ClimbingDiscipline): Grade | null {
+  let text = input.trim().replace(/\s+/g, ' ');
+  const prefixMatch = text.match(SYSTEM_PREFIX);
+  const prefix = prefixMatch ? (prefixMatch[1].toLowerCase().replace(/^fb$/, 'font') as GradePrefix) : undefined;
+  if (prefixMatch) text = text.slice(prefixMatch[0].length);
+
+  const [left, right, ...rest] = text.split(/\s*\/\s*/);
+  if (rest.length > 0) return null;
+
+  const first = parseSingle(left, discipline, prefix);
+  if (!first || right === undefined) return first;
+
+  // "7a/+" and "5.10a/b" repeat only the suffix
+  const expanded = /^\+$/.test(right)
+    ? left.replace(/\+?$/, '+')
+    : /^[a-d]$/i.test(right)
+      ? left.replace(/[a-d]\+?$/i, right)
+      : right;
+  const second = parseSingle(expanded, discipline, prefix);
+  if (!second || second.system !== first.system || second.grade === first.grade) return null;
+
+  const [lower, upper] = first.difficulty <= second.difficulty ? [first, second] : [second, first];
+  return {
+    system: first.system,
+    grade: `${lower.grade}/${upper.grade}`,
+    discipline: first.discipline,
+    difficulty: (lower.difficulty + upper.difficulty) / 2,
+  };
+}
+
+/** The grade in `system` closest to a canonical difficulty (ties round down) */
+export function convertGrade(difficulty: number, system: GradeSystem): string {
+  let best = GRADE_TABLES[system][0];
+  for (const entry of GRADE_TABLES[system]) {
+    if (Math.abs(entry[1] - difficulty) < Math.abs(best[1] - difficulty)) best = entry;
+  }
+  return best[0];
+}
+
+export type GradeList = {
+  grades: Grade[];
+  count: number | null;   // climbs listed, graded or not; null if nothing was logged
+  unparsed: string[];
+};
+
+// More repeats of one grade than any session has; larger counts are left unparsed
+const MAX_GRADE_REPEATS = 100;
+
+/**
+ * Read a details field that holds either a count (8, "8") or a list of grades
+ * ("6a, 6b+, 6b+", "2x V3; V4", ["7A", "7A+"]).
+ */
+export function parseGradeList(value: unknown, discipline?: ClimbingDiscipline): GradeList {
+  const list: GradeList = { grades: [], count: null, unparsed: [] };
+  if (typeof value === 'number') {
+    if (Number.isFinite(value) && value >= 0) list.count = Math.round(value);
+    return list;
+  }
+
+  const tokens = (Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,;\n]+/) : [])
+    .map((t) => String(t).trim())
+    .filter(Boolean);
+  if (tokens.length === 1 && /^\d+$/.test(tokens[0])) {
+    list.count = Number(tokens[0]);
+    return list;
+  }
+
+  for (const token of tokens) {
+    // "2x 6b+", "6b+ x2", "3 × V4"
+    const m = token.match(/^(\d+)\s*[x×]\s*(.+)$/i) ?? token.match(/^(.+?)\s*[x×]\s*(\d+)$/i);
+    const [text, times] = m ? (/^\d+$/.test(m[1]) ? [m[2], Number(m[1])] : [m[1], Number(m[2])]) : [token, 1];
+
+    const grade = times <= MAX_GRADE_REPEATS ? parseGrade(text, discipline) : null;
+    if (grade) for (let i = 0; i < times; i++) list.grades.push(grade);
+    else list.unparsed.push(token);
+    list.count = (list.count ?? 0) + (grade ? times : 1);
+  }
+  return list;
+}
+
+export type ClimbingWorkout = {
+  workout_id: number;
+  date: string;                       // YYYY-MM-DD
+  workout_type: string;               // 'climbing' | 'bouldering'
+  details: Record<string, unknown> | null;
+};
+
+export type ClimbingSession = {
+  workout_id: number;
+  date: string;
+  discipline: ClimbingDiscipline;
+  max: Grade | null;                  // hardest grade logged for the session
+  sends: Grade[];                     // graded climbs completed
+  send_count: number | null;          // completed climbs, graded or not, if logged
+  attempts: number | null;            // climbs tried, if logged
+  unparsed: string[];
+};
+
+/**
+ * Interpret a climbing or bouldering workout's details:
+ * - `grade` / `max_grade`: hardest grade of the session
+ * - `sends`: count or list of sent grades
+ * - `pitches` (routes): count or list of pitch grades climbed
+ * - `problems` (boulders): count or list of problems tried
+ * Without a list of sends the session's grade counts as one send, unless
+ * `sends` says there were none.
+ */
+export function climbingSession(workout: ClimbingWorkout): ClimbingSession {
+  const discipline: ClimbingDiscipline = workout.workout_type === 'bouldering' ? 'boulder' : 'route';
+  const details = workout.details ?? {};
+  const unparsed: string[] = [];
+
+  const rawMax = [details.max_grade, details.grade].find((g) => typeof g === 'string' && g.trim());
+  const logged = typeof rawMax === 'string' ? parseGrade(rawMax, discipline) : null;
+  if (typeof rawMax === 'string' && !logged) unparsed.push(rawMax.trim());
+
+  const sends = parseGradeList(details.sends, discipline);
+  const climbed = parseGradeList(discipline === 'route' ? details.pitches : details.problems, discipline);
+  unparsed.push(...sends.unparsed, ...climbed.unparsed);
+
+  let graded = sends.grades;
+  if (graded.length === 0 && discipline === 'route') graded = climbed.grades;
+  if (graded.length === 0 && logged && sends.count !== 0) graded = [logged];
+
+  const max = [logged, ...graded].reduce<Grade | null>(
+    (hardest, g) => (g && (!hardest || g.difficulty > hardest.difficulty) ? g : hardest),
+    null
+  );
+
+  return {
+    workout_id: workout.workout_id,
+    date: workout.date,
+    discipline,
+    max,
+    sends: graded,
+    send_count: sends.count,
+    attempts: discipline === 'boulder' ? climbed.count : null,
+    unparsed,
+  };
+}
+
+export type PyramidLevel = { grade: string; difficulty: number; count: number };
+
+/** Sends per grade in `system`, hardest first */
+export function gradePyramid(sessions: ClimbingSession[], system: GradeSystem): PyramidLevel[] {
+  const levels = new Map<string, PyramidLevel>();
+  for (const grade of sessions.flatMap((s) => s.sends)) {
+    const name = convertGrade(grade.difficulty, system);
+    const level = levels.get(name) ?? { grade: name, difficulty: GRADE_LOOKUP[system].get(name)!, count: 0 };
+    level.count++;
+    levels.set(name, level);
+  }
+  return [...levels.values()].sort((a, b) => b.difficulty - a.difficulty);
+}
+
+export type MaxGradeRecord = { date: string; workout_id: number; grade: Grade };
+
+/**
+ * Sessions that raised the max grade, oldest first.
+ * Input may be in any order; ties keep the earlier session.
+ */
+export function maxGradeProgression(sessions: ClimbingSession[]): MaxGradeRecord[] {
+  const sorted = [...sessions].sort((a, b) => a.date.localeCompare(b.date) || a.workout_id - b.workout_id);
+  const progression: MaxGradeRecord[] = [];
+
+  for (const { date, workout_id, max } of sorted) {
+    const current = progression[progression.length - 1];
+    if (max && (!current || max.difficulty > current.grade.difficulty)) {
+      progression.push({ date, workout_id, grade: max });
+    }
+  }
+  return progression;
+}
+
+export type SendRate = { sends: number; attempts: number; rate: number | null };
+
+/** Sends per attempt over sessions that logged both */
+export function sendRate(sessions: ClimbingSession[]): SendRate {
+  let sends = 0;
+  let attempts = 0;
+  for (const s of sessions) {
+    if (s.send_count === null || s.attempts === null || s.attempts === 0) continue;
+    sends += Math.min(s.send_count, s.attempts);
+    attempts += s.attempts;
+  }
+  return { sends, attempts, rate: attempts > 0 ? sends / attempts : null };
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { acwrStatus, fillDailyLoads, fitnessFatigue, ATL_DAYS } from './fitness-fatigue';
+
+function constant(days: number, load: number) {
+  return fillDailyLoads([], '2025-01-01', '2025-12-31')
+    .slice(0, days)
+    .map((d) => ({ ...d, load }));
+}
+
+describe('fillDailyLoads', () => {
+  it('fills missing days with zero and sums same-day loads', () => {
+    const filled = fillDailyLoads(
+      [
+        { date: '2025-03-01', load: 50 },
+        { date: '2025-03-03', load: 20 },
+        { date: '2025-03-03', load: 30 },
+      ],
+      '2025-02-28',
+      '2025-03-03'
+    );
+    expect(filled).toEqual([
+      { date: '2025-02-28', load: 0 },
+      { date: '2025-03-01', load: 50 },
+      { date: '2025-03-02', load: 0 },
+      { date: '2025-03-03', load: 50 },
+    ]);
+  });
+});
+
+describe('fitnessFatigue', () => {
+  it('converges to a constant daily load', () => {
+    const series = fitnessFatigue(constant(300, 100));
+    const last = series[series.length - 1];
+    expect(last.atl).toBeCloseTo(100, 0);
+    expect(last.ctl).toBeCloseTo(100, 0);
+    expect(last.tsb).toBeCloseTo(0, 0);
+  });
+
+  it('reacts faster in fatigue than in fitness', () => {
+    const series = fitnessFatigue([...constant(60, 0), ...constant(ATL_DAYS, 100)]);
+    const last = series[series.length - 1];
+    expect(last.atl).toBeGreaterThan(last.ctl);
+    expect(last.atl).toBeCloseTo(100 * (1 - Math.exp(-1)), 0);
+  });
+
+  it('computes form from the previous day', () => {
+    const series = fitnessFatigue([{ date: '2025-01-01', load: 100 }, { date: '2025-01-02', load: 0 }]);
+    expect(series[0].tsb).toBe(0);
+    expect(series[1].tsb).toBeCloseTo(series[0].ctl - series[0].atl, 0);
+  });
+
+  it('leaves the ACWR empty until the chronic window is full', () => {
+    const series = fitnessFatigue(constant(30, 50));
+    expect(series[26].acwr).toBeNull();
+    expect(series[27].acwr).toBe(1);
+  });
+
+  it('flags a load spike', () => {
+    const series = fitnessFatigue([...constant(21, 50), ...constant(7, 150)]);
+    // acute 150, chronic (21·50 + 7·150) / 28 = 75
+    expect(series[series.length - 1].acwr).toBe(2);
+  });
+});
+
+describe('acwrStatus', () => {
+  it('maps ratios to bands', () => {
+    expect(acwrStatus(0.5)).toBe('low');
+    expect(acwrStatus(1)).toBe('optimal');
+    expect(acwrStatus(1.3)).toBe('optimal');
+    expect(acwrStatus(1.4)).toBe('elevated');
+    expect(acwrStatus(1.8)).toBe('high');
+  });
+});
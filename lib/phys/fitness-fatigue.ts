@@ -0,0 +1,97 @@
+/**
+ * Fitness–fatigue model (Banister impulse–response, as popularised by the
+ * Performance Management Chart): exponentially weighted daily training stress
+ * gives fatigue (ATL, 7 days) and fitness (CTL, 42 days); their difference is
+ * form (TSB). The acute:chronic workload ratio flags sudden load increases.
+ */
+
+export const ATL_DAYS = 7;
+export const CTL_DAYS = 42;
+
+// Rolling windows of the acute:chronic workload ratio
+export const ACWR_ACUTE_DAYS = 7;
+export const ACWR_CHRONIC_DAYS = 28;
+
+// Days of history needed before the chronic load is meaningful
+export const WARMUP_DAYS = CTL_DAYS * 3;
+
+export type DailyLoad = { date: string; load: number };
+
+export type LoadPoint = {
+  date: string;
+  load: number;
+  atl: number;          // fatigue
+  ctl: number;          // fitness
+  tsb: number;          // form: yesterday's fitness minus yesterday's fatigue
+  acwr: number | null;  // null while the chronic window is empty
+};
+
+export type AcwrStatus = "low" | "optimal" | "elevated" | "high";
+
+/**
+ * Acute:chronic ratio bands (Gabbett 2016): below 0.8 load is dropping,
+ * 0.8–1.3 is the "sweet spot", above 1.5 injury risk rises sharply
+ */
+export function acwrStatus(acwr: number): AcwrStatus {
+  if (acwr < 0.8) return "low";
+  if (acwr <= 1.3) return "optimal";
+  if (acwr <= 1.5) return "elevated";
+  return "high";
+}
+
+/**
+ * One entry per day from `start` to `end` (inclusive), summing loads on the
+ * same date; days without training have zero load
+ */
+export function fillDailyLoads(loads: DailyLoad[], start: string, end: string): DailyLoad[] {
+  const byDate = new Map<string, number>();
+  for (const { date, load } of loads) byDate.set(date, (byDate.get(date) ?? 0) + load);
+
+  const out: DailyLoad[] = [];
+  const cursor = new Date(`${start}T00:00:00Z`);
+  const last = new Date(`${end}T00:00:00Z`);
+  while (cursor <= last) {
+    const date = cursor.toISOString().slice(0, 10);
+    out.push({ date, load: byDate.get(date) ?? 0 });
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return out;
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+/**
+ * ATL/CTL/TSB and ACWR for a gap-free daily series (see fillDailyLoads).
+ * Both loads start at zero, so include WARMUP_DAYS of history before the
+ * period of interest and drop them afterwards.
+ */
+export function fitnessFatigue(daily: DailyLoad[]): LoadPoint[] {
+  const atlDecay = 1 - Math.exp(-1 / ATL_DAYS);
+  const ctlDecay = 1 - Math.exp(-1 / CTL_DAYS);
+
+  let atl = 0;
+  let ctl = 0;
+  let acuteSum = 0;
+  let chronicSum = 0;
+
+  return daily.map(({ date, load }, i) => {
+    const tsb = ctl - atl;
+    atl += (load - atl) * atlDecay;
+    ctl += (load - ctl) * ctlDecay;
+
+    acuteSum += load - (i >= ACWR_ACUTE_DAYS ? daily[i - ACWR_ACUTE_DAYS].load : 0);
+    chronicSum += load - (i >= ACWR_CHRONIC_DAYS ? daily[i - ACWR_CHRONIC_DAYS].load : 0);
+    const chronicAvg = i + 1 >= ACWR_CHRONIC_DAYS ? chronicSum / ACWR_CHRONIC_DAYS : 0;
+
+    return {
+      date,
+      load: round1(load),
+      atl: round1(atl),
+      ctl: round1(ctl),
+      tsb: round1(tsb),
+      acwr: chronicAvg > 0 ? Math.round((acuteSum / ACWR_ACUTE_DAYS / chronicAvg) * 100) / 100 : null,
+    };
+  });
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateOneRepMax,
+  exerciseKey,
+  exerciseSession,
+  summarizeExercises,
+  type StrengthWorkout,
+} from './strength';
+
+const workout = (workout_id: number, date: string, exercises: StrengthWorkout['exercises']): StrengthWorkout => ({
+  workout_id,
+  date,
+  exercises,
+});
+
+describe('estimateOneRepMax', () => {
+  it('applies Epley to loaded sets', () => {
+    expect(estimateOneRepMax({ reps: 5, load_kg: 100 })).toBeCloseTo(116.67, 2);
+    expect(estimateOneRepMax({ reps: 1, load_kg: 140 })).toBe(140);
+  });
+
+  it('counts reps in reserve from RPE', () => {
+    // 5 reps at RPE 8 ≈ 7 reps to failure
+    expect(estimateOneRepMax({ reps: 5, load_kg: 100, rpe: 8 })).toBeCloseTo(123.33, 2);
+    expect(estimateOneRepMax({ reps: 1, load_kg: 100, rpe: 10 })).toBe(100);
+  });
+
+  it('skips bodyweight and high-rep sets', () => {
+    expect(estimateOneRepMax({ reps: 10 })).toBeNull();
+    expect(estimateOneRepMax({ reps: 8, load_kg: 0 })).toBeNull();
+    expect(estimateOneRepMax({ reps: 15, load_kg: 60 })).toBeNull();
+    expect(estimateOneRepMax({ reps: 10, load_kg: 60, rpe: 7 })).toBeNull();
+  });
+});
+
+describe('exerciseKey', () => {
+  it('ignores case and spacing', () => {
+    expect(exerciseKey('  Back   Squat ')).toBe('back squat');
+  });
+});
+
+describe('exerciseSession', () => {
+  it('totals volume and picks the top set', () => {
+    const session = exerciseSession(workout(1, '2025-06-01', []), {
+      exercise: 'Bench Press',
+      sets: [
+        { reps: 8, load_kg: 60 },
+        { reps: 3, load_kg: 80 },
+        { reps: 12 },
+      ],
+    });
+
+    expect(session).toMatchObject({ sets: 3, reps: 23, volume_kg: 720, top_set: { reps: 3, load_kg: 80 } });
+    expect(session.e1rm_kg).toBeCloseTo(88);
+  });
+
+  it('has no estimate without loaded sets', () => {
+    const session = exerciseSession(workout(1, '2025-06-01', []), { exercise: 'Pull-up', sets: [{ reps: 10 }] });
+
+    expect(session).toMatchObject({ volume_kg: 0, e1rm_kg: null, top_set: null });
+  });
+});
+
+describe('summarizeExercises', () => {
+  it('groups by exercise and keeps the sessions that raised the e1RM', () => {
+    const summaries = summarizeExercises([
+      workout(3, '2025-03-01', [{ exercise: 'squat', sets: [{ reps: 5, load_kg: 110 }] }]),
+      workout(1, '2025-01-01', [{ exercise: 'Squat', sets: [{ reps: 5, load_kg: 100 }] }]),
+      workout(2, '2025-02-01', [
+        { exercise: 'Squat', sets: [{ reps: 5, load_kg: 95 }] },
+        { exercise: 'Deadlift', sets: [{ reps: 3, load_kg: 140 }] },
+      ]),
+    ]);
+
+    expect(summaries.map((s) => s.key)).toEqual(['squat', 'deadlift']);
+    const [squat] = summaries;
+    expect(squat.exercise).toBe('squat');
+    expect(squat.sessions.map((s) => s.workout_id)).toEqual([1, 2, 3]);
+    expect(squat.progression.map((s) => s.workout_id)).toEqual([1, 3]);
+    expect(squat.best?.workout_id).toBe(3);
+  });
+
+  it('merges an exercise logged twice in one workout', () => {
+    const [bench] = summarizeExercises([
+      workout(1, '2025-01-01', [
+        { exercise: 'Bench', sets: [{ reps: 5, load_kg: 80 }] },
+        { exercise: 'bench', sets: [{ reps: 10, load_kg: 50 }] },
+      ]),
+    ]);
+
+    expect(bench.sessions).toHaveLength(1);
+    expect(bench.sessions[0]).toMatchObject({ sets: 2, reps: 15, volume_kg: 900 });
+  });
+});
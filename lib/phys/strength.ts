@@ -0,0 +1,110 @@
+/**
+ * Strength training: per-exercise volume and estimated one-rep max from the
+ * sets logged with strength workouts, and how each exercise's best estimate
+ * improved over time.
+ */
+
+import type { StrengthExercise, StrengthSet } from '@/lib/db/validation';
+
+// Rep-max formulas lose accuracy quickly past this many reps (to failure)
+const MAX_E1RM_REPS = 12;
+
+export type StrengthWorkout = {
+  workout_id: number;
+  date: string;                       // YYYY-MM-DD
+  exercises: StrengthExercise[];
+};
+
+export type ExerciseSession = {
+  workout_id: number;
+  date: string;
+  exercise: string;                   // as logged in this session
+  sets: number;
+  reps: number;
+  volume_kg: number;                  // Σ reps · load over loaded sets
+  e1rm_kg: number | null;             // best estimate over the session's sets
+  top_set: StrengthSet | null;        // the set that gave e1rm_kg
+};
+
+export type ExerciseSummary = {
+  key: string;
+  exercise: string;                   // most recently logged spelling
+  sessions: ExerciseSession[];        // oldest first
+  best: ExerciseSession | null;       // highest e1RM on record
+  progression: ExerciseSession[];     // sessions that raised the e1RM, oldest first
+};
+
+/**
+ * Estimated one-rep max (Epley: load · (1 + reps / 30)). With an RPE the reps
+ * left in reserve (10 − RPE) count as if performed. Null for unloaded sets and
+ * sets too far from a max effort to extrapolate from.
+ */
+export function estimateOneRepMax(set: StrengthSet): number | null {
+  if (!set.load_kg || set.load_kg <= 0) return null;
+  const reps = set.reps + (set.rpe !== undefined ? 10 - set.rpe : 0);
+  if (reps > MAX_E1RM_REPS) return null;
+  return reps <= 1 ? set.load_kg : set.load_kg * (1 + reps / 30);
+}
+
+/** Grouping key: "Back  Squat" and "back squat" are the same exercise */
+export function exerciseKey(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/** Totals and best estimated 1RM for one exercise within one workout */
+export function exerciseSession(workout: StrengthWorkout, entry: StrengthExercise): ExerciseSession {
+  let volume = 0;
+  let reps = 0;
+  let best: { e1rm: number; set: StrengthSet } | null = null;
+
+  for (const set of entry.sets) {
+    reps += set.reps;
+    volume += set.reps * (set.load_kg ?? 0);
+    const e1rm = estimateOneRepMax(set);
+    if (e1rm !== null && (!best || e1rm > best.e1rm)) best = { e1rm, set };
+  }
+
+  return {
+    workout_id: workout.workout_id,
+    date: workout.date,
+    exercise: entry.exercise.trim(),
+    sets: entry.sets.length,
+    reps,
+    volume_kg: volume,
+    e1rm_kg: best ? best.e1rm : null,
+    top_set: best ? best.set : null,
+  };
+}
+
+/**
+ * Sessions per exercise across workouts, with the best e1RM and its history.
+ * Input may be in any order; an exercise logged twice in a workout (e.g.
+ * split around other work) is merged into one session.
+ */
+export function summarizeExercises(workouts: StrengthWorkout[]): ExerciseSummary[] {
+  const sorted = [...workouts].sort((a, b) => a.date.localeCompare(b.date) || a.workout_id - b.workout_id);
+  const byKey = new Map<string, ExerciseSummary>();
+
+  for (const workout of sorted) {
+    const entries = new Map<string, StrengthExercise>();
+    for (const entry of workout.exercises) {
+      const key = exerciseKey(entry.exercise);
+      const existing = entries.get(key);
+      entries.set(key, existing ? { exercise: entry.exercise, sets: [...existing.sets, ...entry.sets] } : entry);
+    }
+
+    for (const [key, entry] of entries) {
+      const session = exerciseSession(workout, entry);
+      const summary = byKey.get(key) ?? { key, exercise: session.exercise, sessions: [], best: null, progression: [] };
+      summary.exercise = session.exercise;
+      summary.sessions.push(session);
+      if (session.e1rm_kg !== null && (!summary.best || session.e1rm_kg > summary.best.e1rm_kg!)) {
+        summary.best = session;
+        summary.progression.push(session);
+      }
+      byKey.set(key, summary);
+    }
+  }
+
+  return [...byKey.values()];
+}
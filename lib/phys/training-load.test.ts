@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyTrainingLoad,
+  DEFAULT_ATHLETE_PROFILE,
+  effortFromHeartRate,
+  hrZone,
+  hrZoneBounds,
+  streamTrimp,
+  trainingLoad,
+  trimp,
+  workoutStress,
+  type AthleteProfile,
+} from './training-load';
+
+const athlete: AthleteProfile = { max_hr: 190, resting_hr: 50, lthr: null, ftp_w: 250, sex: 'male' };
+
+describe('hrZoneBounds', () => {
+  it('uses percent of max HR by default', () => {
+    expect(hrZoneBounds(DEFAULT_ATHLETE_PROFILE)).toEqual([114, 133, 152, 171]);
+  });
+
+  it('uses LTHR when set', () => {
+    expect(hrZoneBounds({ ...athlete, lthr: 170 })).toEqual([145, 153, 162, 170]);
+    expect(hrZone(171, { ...athlete, lthr: 170 })).toBe(5);
+  });
+});
+
+describe('trimp', () => {
+  it('matches the Banister formula', () => {
+    // HRR = (155 - 50) / 140 = 0.75
+    const expected = 60 * 0.75 * 0.64 * Math.exp(1.92 * 0.75);
+    expect(trimp(60, 155, athlete)).toBeCloseTo(expected, 6);
+  });
+
+  it('weights women differently', () => {
+    const female = trimp(60, 155, { ...athlete, sex: 'female' });
+    expect(female).toBeCloseTo(60 * 0.75 * 0.86 * Math.exp(1.67 * 0.75), 6);
+  });
+
+  it('grows faster than linearly with heart rate', () => {
+    expect(trimp(60, 170, athlete)).toBeGreaterThan(2 * trimp(60, 120, athlete));
+  });
+});
+
+describe('streamTrimp', () => {
+  it('equals the average-based TRIMP at constant heart rate', () => {
+    const time_s = Array.from({ length: 3601 }, (_, i) => i);
+    const streams = { time_s, heartrate: time_s.map(() => 155) };
+
+    expect(streamTrimp(streams, athlete)).toBeCloseTo(trimp(60, 155, athlete), 6);
+  });
+
+  it('exceeds the average-based TRIMP for intervals', () => {
+    const time_s = Array.from({ length: 3601 }, (_, i) => i);
+    const heartrate = time_s.map((t) => (Math.floor(t / 300) % 2 === 0 ? 125 : 185));
+    const avg = heartrate.slice(0, -1).reduce((a, b) => a + b, 0) / 3600;
+
+    expect(streamTrimp({ time_s, heartrate }, athlete)!).toBeGreaterThan(trimp(60, avg, athlete));
+  });
+
+  it('returns null without heart rate', () => {
+    expect(streamTrimp({ time_s: [0, 1, 2] }, athlete)).toBeNull();
+  });
+});
+
+describe('trainingLoad', () => {
+  it('derives intensity from the zone of the average heart rate', () => {
+    expect(trainingLoad({ duration_min: 45, avg_heartrate: 125 }, athlete).intensity).toBe('low');
+    expect(trainingLoad({ duration_min: 45, avg_heartrate: 145 }, athlete).intensity).toBe('moderate');
+    expect(trainingLoad({ duration_min: 45, avg_heartrate: 160 }, athlete).intensity).toBe('high');
+    expect(trainingLoad({ duration_min: 45, avg_heartrate: 180 }, athlete).intensity).toBe('max');
+  });
+
+  it('falls back to power relative to FTP', () => {
+    const load = trainingLoad({ duration_min: 60, avg_watts: 200 }, athlete);
+    expect(load).toEqual({ intensity_factor: 0.8, intensity: 'moderate' });
+  });
+
+  it('is empty without heart rate or power', () => {
+    expect(trainingLoad({ duration_min: 60 }, athlete)).toEqual({});
+  });
+});
+
+describe('applyTrainingLoad', () => {
+  const workout = {
+    date: '2025-12-05',
+    workout_type: 'running' as const,
+    duration_min: 50,
+    details: { avg_heartrate: 160 },
+  };
+
+  it('adds TRIMP and zone to details and sets the intensity', () => {
+    const result = applyTrainingLoad(workout, athlete);
+
+    expect(result.intensity).toBe('high');
+    expect(result.details).toMatchObject({ avg_heartrate: 160, hr_zone: 4 });
+    expect(result.details?.trimp).toBeCloseTo(trimp(50, 160, athlete), 1);
+  });
+
+  it('keeps an explicit intensity', () => {
+    expect(applyTrainingLoad({ ...workout, intensity: 'low' }, athlete).intensity).toBe('low');
+  });
+
+  it('leaves workouts without heart rate or power untouched', () => {
+    const plain = { ...workout, details: { exercises: ['squat'] } };
+    expect(applyTrainingLoad(plain, athlete)).toBe(plain);
+  });
+});
+
+describe('effortFromHeartRate', () => {
+  it('maps heart rate reserve to a 1–10 scale', () => {
+    expect(effortFromHeartRate(50, athlete)).toBe(1);
+    expect(effortFromHeartRate(155, athlete)).toBe(8);
+    expect(effortFromHeartRate(200, athlete)).toBe(10);
+  });
+});
+
+describe('workoutStress', () => {
+  it('prefers the stored TRIMP', () => {
+    expect(workoutStress({ duration_min: 60, intensity: 'low', trimp: 123 })).toBe(123);
+  });
+
+  it('estimates from perceived effort before intensity', () => {
+    const fromEffort = workoutStress({ duration_min: 60, perceived_effort: 8, intensity: 'low' });
+    expect(fromEffort).toBeCloseTo(60 * 0.8 * 0.64 * Math.exp(1.92 * 0.8), 6);
+    expect(fromEffort).toBeGreaterThan(workoutStress({ duration_min: 60, intensity: 'low' }));
+  });
+
+  it('scales with duration', () => {
+    expect(workoutStress({ duration_min: 90 })).toBeCloseTo(2 * workoutStress({ duration_min: 45 }), 6);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Training load from heart rate (and power): HR zones relative to the athlete
+ * profile, Banister TRIMP and a derived workout intensity.
+ */
+
+import type { WorkoutUpsert } from "@/lib/db/validation";
+import { DEFAULT_MAX_HR, HR_ZONE_BOUNDS, type WorkoutStreams } from "./workout-streams";
+
+export type Intensity = NonNullable<WorkoutUpsert["intensity"]>;
+
+export type AthleteProfile = {
+  max_hr: number;
+  resting_hr: number;
+  lthr?: number | null;   // zones are based on LTHR when set
+  ftp_w?: number | null;
+  sex?: string | null;    // TRIMP weighting differs for women
+};
+
+export const DEFAULT_ATHLETE_PROFILE: AthleteProfile = {
+  max_hr: DEFAULT_MAX_HR,
+  resting_hr: 60,
+  lthr: null,
+  ftp_w: null,
+  sex: null,
+};
+
+// Lower bounds of zones 2–5 as a share of LTHR (Friel: Z5 starts at threshold)
+export const LTHR_ZONE_BOUNDS = [0.85, 0.9, 0.95, 1.0] as const;
+
+// Longer gaps between samples are pauses and add no load
+const MAX_SAMPLE_GAP_S = 30;
+
+/**
+ * Heart rates (bpm) where zones 2–5 start
+ */
+export function hrZoneBounds(profile: AthleteProfile): number[] {
+  return profile.lthr
+    ? LTHR_ZONE_BOUNDS.map((b) => Math.round(b * profile.lthr!))
+    : HR_ZONE_BOUNDS.map((b) => Math.round(b * profile.max_hr));
+}
+
+/**
+ * Zone (1–5) of a heart rate
+ */
+export function hrZone(bpm: number, profile: AthleteProfile): number {
+  return hrZoneBounds(profile).filter((b) => bpm >= b).length + 1;
+}
+
+/**
+ * Share of the heart rate reserve (Karvonen), clamped to 0..1
+ */
+export function heartRateReserve(bpm: number, profile: AthleteProfile): number {
+  const hrr = (bpm - profile.resting_hr) / (profile.max_hr - profile.resting_hr);
+  return Math.min(1, Math.max(0, hrr));
+}
+
+/** Banister weighting: load rises exponentially with the share of HR reserve */
+function trimpWeight(hrr: number, sex?: string | null): number {
+  return sex === "female" ? 0.86 * Math.exp(1.67 * hrr) : 0.64 * Math.exp(1.92 * hrr);
+}
+
+/**
+ * Banister TRIMP from duration and average heart rate
+ */
+export function trimp(durationMin: number, avgHr: number, profile: AthleteProfile): number {
+  const hrr = heartRateReserve(avgHr, profile);
+  return durationMin * hrr * trimpWeight(hrr, profile.sex);
+}
+
+/**
+ * Banister TRIMP summed over heart-rate samples (more accurate than the
+ * average for intervals, since load grows faster than linearly with HR).
+ * Returns null without heart-rate data.
+ */
+export function streamTrimp(streams: WorkoutStreams, profile: AthleteProfile): number | null {
+  const hr = streams.heartrate;
+  if (!hr) return null;
+
+  let total = 0;
+  let samples = 0;
+  for (let i = 0; i < streams.time_s.length - 1; i++) {
+    const bpm = hr[i];
+    const dt = streams.time_s[i + 1] - streams.time_s[i];
+    if (bpm === null || bpm === undefined || bpm <= 0 || dt <= 0 || dt > MAX_SAMPLE_GAP_S) continue;
+
+    const hrr = heartRateReserve(bpm, profile);
+    total += (dt / 60) * hrr * trimpWeight(hrr, profile.sex);
+    samples++;
+  }
+
+  return samples > 0 ? total : null;
+}
+
+/**
+ * Intensity of a heart-rate zone: zones 1–2 are easy aerobic work, 3 tempo,
+ * 4 threshold and 5 above threshold
+ */
+export function intensityFromZone(zone: number): Intensity {
+  if (zone <= 2) return "low";
+  if (zone === 3) return "moderate";
+  if (zone === 4) return "high";
+  return "max";
+}
+
+/**
+ * Intensity from average power relative to FTP (intensity factor)
+ */
+export function intensityFromPower(avgWatts: number, ftpW: number): Intensity {
+  const factor = avgWatts / ftpW;
+  if (factor < 0.75) return "low";
+  if (factor < 0.9) return "moderate";
+  if (factor < 1.05) return "high";
+  return "max";
+}
+
+/**
+ * Perceived effort (1–10) from heart rate: RPE tracks the share of heart rate
+ * reserve closely enough (~10% HRR per point) to stand in when none was logged
+ */
+export function effortFromHeartRate(avgHr: number, profile: AthleteProfile): number {
+  return Math.max(1, Math.min(10, Math.round(heartRateReserve(avgHr, profile) * 10)));
+}
+
+// Typical share of heart rate reserve per logged intensity, for workouts
+// without heart rate (roughly the middle of the matching zones)
+const INTENSITY_HRR: Record<Intensity, number> = {
+  low: 0.5,
+  moderate: 0.65,
+  high: 0.8,
+  max: 0.9,
+};
+
+// Assumed for workouts with neither heart rate, effort nor intensity
+const UNKNOWN_HRR = 0.6;
+
+/**
+ * Training stress of a single workout in TRIMP units. Uses the stored TRIMP
+ * when the workout had heart rate; otherwise estimates it from duration and
+ * perceived effort (1–10 read as tenths of HR reserve, the inverse of
+ * effortFromHeartRate) or the logged intensity.
+ */
+export function workoutStress(workout: {
+  duration_min: number;
+  intensity?: Intensity | null;
+  perceived_effort?: number | null;
+  trimp?: number | null;
+}): number {
+  if (typeof workout.trimp === "number" && Number.isFinite(workout.trimp)) return workout.trimp;
+
+  const hrr = workout.perceived_effort
+    ? workout.perceived_effort / 10
+    : workout.intensity
+      ? INTENSITY_HRR[workout.intensity]
+      : UNKNOWN_HRR;
+
+  return workout.duration_min * hrr * trimpWeight(hrr);
+}
+
+export type TrainingLoad = {
+  trimp?: number;
+  hr_zone?: number;            // zone of the average heart rate
+  intensity_factor?: number;   // average power / FTP
+  intensity?: Intensity;
+};
+
+/**
+ * Training load of a workout from its summary metrics. Heart rate takes
+ * precedence over power for the intensity; empty without either.
+ */
+export function trainingLoad(
+  input: { duration_min: number; avg_heartrate?: number | null; avg_watts?: number | null },
+  profile: AthleteProfile
+): TrainingLoad {
+  const load: TrainingLoad = {};
+
+  if (input.avg_watts && profile.ftp_w) {
+    load.intensity_factor = Math.round((input.avg_watts / profile.ftp_w) * 100) / 100;
+    load.intensity = intensityFromPower(input.avg_watts, profile.ftp_w);
+  }
+
+  if (input.avg_heartrate && input.avg_heartrate > 0) {
+    load.trimp = Math.round(trimp(input.duration_min, input.avg_heartrate, profile) * 10) / 10;
+    load.hr_zone = hrZone(input.avg_heartrate, profile);
+    load.intensity = intensityFromZone(load.hr_zone);
+  }
+
+  return load;
+}
+
+/**
+ * Add training load to a workout: TRIMP, zone and intensity factor go into
+ * `details`, and the derived intensity is used unless one was given explicitly.
+ * Reads `details.avg_heartrate` and `details.avg_watts`.
+ */
+export function applyTrainingLoad(workout: WorkoutUpsert, profile: AthleteProfile): WorkoutUpsert {
+  const details = workout.details ?? {};
+  const { intensity, ...metrics } = trainingLoad(
+    {
+      duration_min: workout.duration_min,
+      avg_heartrate: typeof details.avg_heartrate === "number" ? details.avg_heartrate : null,
+      avg_watts: typeof details.avg_watts === "number" ? details.avg_watts : null,
+    },
+    profile
+  );
+
+  if (!intensity) return workout;
+
+  return {
+    ...workout,
+    intensity: workout.intensity ?? intensity,
+    details: { ...details, ...metrics },
+  };
+}
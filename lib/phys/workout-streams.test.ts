@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  elevationProfile,
+  hrZones,
+  movingTime,
+  sampleIndices,
+  splits,
+  type WorkoutStreams,
+} from './workout-streams';
+
+/** Steady run: one sample per second at a constant speed */
+function steadyRun(seconds: number, speedMps: number, extra: Partial<WorkoutStreams> = {}): WorkoutStreams {
+  const time_s = Array.from({ length: seconds + 1 }, (_, i) => i);
+  return {
+    time_s,
+    distance_m: time_s.map((t) => t * speedMps),
+    ...extra,
+  };
+}
+
+describe('hrZones', () => {
+  it('assigns sample durations to zones by percent of max HR', () => {
+    // 100 s at 120 bpm (zone 2 for max 190), 100 s at 175 bpm (zone 5)
+    const streams = steadyRun(200, 3, {
+      heartrate: Array.from({ length: 201 }, (_, i) => (i < 100 ? 120 : 175)),
+    });
+
+    const zones = hrZones(streams, [114, 133, 152, 171]);
+
+    expect(zones.map((z) => z.seconds)).toEqual([0, 100, 0, 0, 100]);
+    expect(zones[1]).toMatchObject({ zone: 2, min_bpm: 114, max_bpm: 133, share: 0.5 });
+    expect(zones[4].max_bpm).toBeNull();
+  });
+
+  it('skips pauses and samples without heart rate', () => {
+    const streams: WorkoutStreams = {
+      time_s: [0, 10, 20, 620, 630],
+      heartrate: [150, null, 150, 150, 150],
+    };
+
+    const total = hrZones(streams).reduce((sum, z) => sum + z.seconds, 0);
+
+    // 0→10 and 620→630 count; the null sample and the 10-minute pause do not
+    expect(total).toBe(20);
+  });
+
+  it('returns zero shares without heart rate data', () => {
+    const zones = hrZones(steadyRun(60, 3));
+    expect(zones.every((z) => z.seconds === 0 && z.share === 0)).toBe(true);
+  });
+});
+
+describe('splits', () => {
+  it('interpolates kilometre boundaries between samples', () => {
+    // 4 m/s: each kilometre takes 250 s, but samples are 3 s apart
+    const time_s = Array.from({ length: 1001 }, (_, i) => i * 3);
+    const streams: WorkoutStreams = { time_s, distance_m: time_s.map((t) => t * 4) };
+
+    const result = splits(streams);
+
+    // 12 000 m in total
+    expect(result).toHaveLength(12);
+    for (const s of result) {
+      expect(s.distance_m).toBeCloseTo(1000, 6);
+      expect(s.elapsed_s).toBeCloseTo(250, 6);
+      expect(s.pace_sec_per_km).toBeCloseTo(250, 6);
+    }
+  });
+
+  it('keeps a trailing partial split of at least 10%', () => {
+    const withTail = splits(steadyRun(600, 3)); // 1800 m
+    expect(withTail).toHaveLength(2);
+    expect(withTail[1].distance_m).toBeCloseTo(800, 6);
+
+    const shortTail = splits(steadyRun(350, 3)); // 1050 m
+    expect(shortTail).toHaveLength(1);
+  });
+
+  it('averages heart rate and sums climb per split', () => {
+    const streams = steadyRun(500, 4, {
+      heartrate: Array.from({ length: 501 }, (_, i) => (i <= 250 ? 140 : 160)),
+      altitude_m: Array.from({ length: 501 }, (_, i) => (i <= 250 ? 100 + i * 0.2 : 150)),
+    });
+
+    const [first, second] = splits(streams);
+
+    expect(first.avg_heartrate).toBeCloseTo(140, 0);
+    expect(second.avg_heartrate).toBeCloseTo(160, 0);
+    expect(first.elevation_gain_m).toBeGreaterThan(45);
+    expect(second.elevation_gain_m).toBe(0);
+  });
+
+  it('returns no splits without distance', () => {
+    expect(splits({ time_s: [0, 1, 2] })).toEqual([]);
+  });
+});
+
+describe('elevationProfile', () => {
+  it('ignores altitude noise below the threshold', () => {
+    // ±0.5 m jitter on flat ground, then a 20 m climb
+    const altitude = [
+      ...Array.from({ length: 100 }, (_, i) => 100 + (i % 2 === 0 ? 0.5 : -0.5)),
+      ...Array.from({ length: 21 }, (_, i) => 100 + i),
+    ];
+    const streams = steadyRun(altitude.length - 1, 3, { altitude_m: altitude });
+
+    const profile = elevationProfile(streams);
+
+    expect(profile).not.toBeNull();
+    expect(profile!.gain_m).toBeGreaterThanOrEqual(18);
+    expect(profile!.gain_m).toBeLessThanOrEqual(21);
+    expect(profile!.loss_m).toBeLessThanOrEqual(2);
+    expect(profile!.min_m).toBe(99.5);
+    expect(profile!.max_m).toBe(120);
+  });
+
+  it('downsamples the profile for charts', () => {
+    const streams = steadyRun(5000, 3, { altitude_m: Array(5001).fill(50) });
+    const profile = elevationProfile(streams, 100);
+
+    expect(profile!.points).toHaveLength(100);
+    expect(profile!.points[0].distance_m).toBe(0);
+    expect(profile!.points[99].distance_m).toBe(15000);
+  });
+
+  it('returns null without altitude', () => {
+    expect(elevationProfile(steadyRun(10, 3))).toBeNull();
+  });
+});
+
+describe('movingTime', () => {
+  it('excludes pauses between samples', () => {
+    expect(movingTime({ time_s: [0, 10, 20, 320, 330] })).toBe(30);
+  });
+});
+
+describe('sampleIndices', () => {
+  it('keeps all indices for short series', () => {
+    expect(sampleIndices(4, 10)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('spreads indices evenly and keeps both ends', () => {
+    expect(sampleIndices(11, 3)).toEqual([0, 5, 10]);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Workout stream analysis: HR zones, splits and elevation profiles computed
+ * from sample-level time series (see workout_streams).
+ */
+
+/** Parallel arrays, one entry per sample. Optional series may contain gaps (null). */
+export type WorkoutStreams = {
+  time_s: number[];                         // elapsed seconds since start
+  distance_m?: (number | null)[] | null;    // cumulative distance
+  heartrate?: (number | null)[] | null;     // bpm
+  velocity_mps?: (number | null)[] | null;
+  altitude_m?: (number | null)[] | null;
+  lat?: (number | null)[] | null;
+  lng?: (number | null)[] | null;
+};
+
+// Same assumption as the summary-based intensity estimate when no max HR is known
+export const DEFAULT_MAX_HR = 190;
+
+// Lower bounds of zones 2–5 as a share of max HR (zone 1 is everything below 60%)
+export const HR_ZONE_BOUNDS = [0.6, 0.7, 0.8, 0.9] as const;
+
+// Longer gaps between samples are pauses (auto-pause, stops) and do not count as time in a zone
+const MAX_SAMPLE_GAP_S = 30;
+
+// Altitude changes smaller than this are treated as GPS/barometer noise
+const ELEVATION_NOISE_M = 2;
+
+export type HrZoneTime = {
+  zone: number;              // 1–5
+  min_bpm: number;
+  max_bpm: number | null;    // null for the top zone
+  seconds: number;
+  share: number;             // of all time with a heart rate reading
+};
+
+export type Split = {
+  index: number;             // 1-based
+  distance_m: number;        // split length (the last split may be shorter)
+  elapsed_s: number;
+  pace_sec_per_km: number;
+  avg_heartrate: number | null;
+  elevation_gain_m: number;
+  elevation_loss_m: number;
+};
+
+export type ElevationProfile = {
+  points: Array<{ distance_m: number; altitude_m: number }>;
+  gain_m: number;
+  loss_m: number;
+  min_m: number;
+  max_m: number;
+};
+
+/** Duration each sample stands for: the gap to the next sample, pauses excluded. */
+function sampleDurations(time: number[]): number[] {
+  return time.map((t, i) => {
+    if (i === time.length - 1) return 0;
+    const dt = time[i + 1] - t;
+    return dt > 0 && dt <= MAX_SAMPLE_GAP_S ? dt : 0;
+  });
+}
+
+/** Recorded time with pauses (gaps over 30 s between samples) excluded */
+export function movingTime(streams: WorkoutStreams): number {
+  return sampleDurations(streams.time_s).reduce((a, b) => a + b, 0);
+}
+
+/**
+ * Time spent in each of the five heart-rate zones
+ * @param bounds Heart rates (bpm) where zones 2–5 start; defaults to percent of max HR
+ */
+export function hrZones(
+  streams: WorkoutStreams,
+  bounds: readonly number[] = HR_ZONE_BOUNDS.map((b) => Math.round(b * DEFAULT_MAX_HR))
+): HrZoneTime[] {
+  const seconds = [0, 0, 0, 0, 0];
+  const hr = streams.heartrate ?? [];
+  const durations = sampleDurations(streams.time_s);
+
+  durations.forEach((dt, i) => {
+    const bpm = hr[i];
+    if (bpm === null || bpm === undefined || bpm <= 0) return;
+    const zone = bounds.filter((b) => bpm >= b).length;
+    seconds[zone] += dt;
+  });
+
+  const total = seconds.reduce((a, b) => a + b, 0);
+  return seconds.map((s, i) => ({
+    zone: i + 1,
+    min_bpm: i === 0 ? 0 : bounds[i - 1],
+    max_bpm: i < bounds.length ? bounds[i] : null,
+    seconds: s,
+    share: total > 0 ? s / total : 0,
+  }));
+}
+
+/** Elevation gain and loss with small fluctuations ignored */
+function climb(altitudes: number[]): { gain: number; loss: number } {
+  let gain = 0;
+  let loss = 0;
+  let ref = altitudes[0];
+
+  for (const alt of altitudes.slice(1)) {
+    const delta = alt - ref;
+    if (delta >= ELEVATION_NOISE_M) {
+      gain += delta;
+      ref = alt;
+    } else if (delta <= -ELEVATION_NOISE_M) {
+      loss -= delta;
+      ref = alt;
+    }
+  }
+
+  return { gain, loss };
+}
+
+/** Linear interpolation from a (f = 0) to b (f = 1) */
+function lerp(a: number, b: number, f: number): number {
+  return a + (b - a) * f;
+}
+
+/**
+ * Split the activity every `splitM` metres (default: kilometre splits).
+ * Boundary times are interpolated between samples; the last partial split is
+ * included when it is at least 10% of a full split.
+ */
+export function splits(streams: WorkoutStreams, splitM = 1000): Split[] {
+  const { time_s: time } = streams;
+  const distance = streams.distance_m;
+  if (!distance || time.length < 2) return [];
+
+  // Samples with a distance reading
+  const idx = time.map((_, i) => i).filter((i) => distance[i] !== null && distance[i] !== undefined);
+  if (idx.length < 2) return [];
+
+  const out: Split[] = [];
+  let startT = time[idx[0]];
+  let startD = distance[idx[0]] as number;
+  let boundary = startD + splitM;
+  let members: number[] = [idx[0]];
+
+  const close = (endT: number, endD: number) => {
+    const hr = members
+      .map((i) => streams.heartrate?.[i])
+      .filter((v): v is number => typeof v === "number" && v > 0);
+    const alt = members
+      .map((i) => streams.altitude_m?.[i])
+      .filter((v): v is number => typeof v === "number");
+    const { gain, loss } = alt.length > 1 ? climb(alt) : { gain: 0, loss: 0 };
+    const length = endD - startD;
+    const elapsed = endT - startT;
+
+    out.push({
+      index: out.length + 1,
+      distance_m: length,
+      elapsed_s: elapsed,
+      pace_sec_per_km: length > 0 ? (elapsed / length) * 1000 : 0,
+      avg_heartrate: hr.length ? hr.reduce((a, b) => a + b, 0) / hr.length : null,
+      elevation_gain_m: gain,
+      elevation_loss_m: loss,
+    });
+  };
+
+  for (let k = 1; k < idx.length; k++) {
+    const prev = idx[k - 1];
+    const cur = idx[k];
+    const d0 = distance[prev] as number;
+    const d1 = distance[cur] as number;
+
+    // One sample can cross several boundaries (e.g. GPS gaps)
+    while (d1 >= boundary && d1 > d0) {
+      const f = (boundary - d0) / (d1 - d0);
+      const t = lerp(time[prev], time[cur], f);
+      close(t, boundary);
+      startT = t;
+      startD = boundary;
+      boundary += splitM;
+      members = [];
+    }
+    members.push(cur);
+  }
+
+  const lastT = time[idx[idx.length - 1]];
+  const lastD = distance[idx[idx.length - 1]] as number;
+  if (lastD - startD >= splitM * 0.1) close(lastT, lastD);
+
+  return out;
+}
+
+/**
+ * Evenly spaced sample indices, at most `maxPoints` of them (first and last kept)
+ */
+export function sampleIndices(length: number, maxPoints: number): number[] {
+  if (length <= maxPoints) return Array.from({ length }, (_, i) => i);
+  const step = (length - 1) / (maxPoints - 1);
+  return Array.from({ length: maxPoints }, (_, i) => Math.round(i * step));
+}
+
+/**
+ * Altitude over distance (downsampled for charts) with total gain and loss
+ */
+export function elevationProfile(streams: WorkoutStreams, maxPoints = 200): ElevationProfile | null {
+  const altitude = streams.altitude_m;
+  const distance = streams.distance_m;
+  if (!altitude || !distance) return null;
+
+  const samples = streams.time_s
+    .map((_, i) => ({ distance_m: distance[i], altitude_m: altitude[i] }))
+    .filter((p): p is { distance_m: number; altitude_m: number } =>
+      typeof p.distance_m === "number" && typeof p.altitude_m === "number"
+    );
+  if (samples.length < 2) return null;
+
+  const altitudes = samples.map((p) => p.altitude_m);
+  const { gain, loss } = climb(altitudes);
+
+  return {
+    points: sampleIndices(samples.length, maxPoints).map((i) => samples[i]),
+    gain_m: gain,
+    loss_m: loss,
+    // reduce instead of Math.min(...) since streams can hold tens of thousands of samples
+    min_m: altitudes.reduce((a, b) => Math.min(a, b)),
+    max_m: altitudes.reduce((a, b) => Math.max(a, b)),
+  };
+}
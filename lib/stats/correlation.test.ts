@@ -1,5 +1,17 @@
 import { describe, it, expect } from "vitest";
-import { calculatePearsonCorrelation, isSignificant, formatCorrelation } from "./correlation";
+import {
+  adjustPValues,
+  bootstrapCorrelationCI,
+  calculatePearsonCorrelation,
+  calculateKendallCorrelation,
+  calculateLaggedCorrelation,
+  calculatePartialCorrelation,
+  calculatePointBiserialCorrelation,
+  calculateSpearmanCorrelation,
+  crossCorrelate,
+  isSignificant,
+  formatCorrelation,
+} from "./correlation";
 
 describe("Pearson Correlation", () => {
   it("calculates perfect positive correlation", () => {
@@ -121,3 +133,221 @@ describe("Statistical Classification", () => {
     expect(result.pValue).toBeLessThan(0.01);
   });
 });
+
+describe("Multiple Comparison Correction", () => {
+  it("computes Benjamini-Hochberg q-values in the original order", () => {
+    const q = adjustPValues([0.04, 0.01, 0.03, 0.2]);
+
+    // Sorted: 0.01·4/1=0.04, 0.03·4/2=0.06, 0.04·4/3≈0.0533 → step-up min 0.0533, 0.2·4/4=0.2
+    expect(q[1]).toBeCloseTo(0.04, 6);
+    expect(q[2]).toBeCloseTo(0.0533, 3);
+    expect(q[0]).toBeCloseTo(0.0533, 3);
+    expect(q[3]).toBeCloseTo(0.2, 6);
+  });
+
+  it("never lowers a p-value and caps at 1", () => {
+    const p = [0.5, 0.9, 0.001, 0.7];
+    const q = adjustPValues(p);
+
+    q.forEach((value, i) => {
+      expect(value).toBeGreaterThanOrEqual(p[i]);
+      expect(value).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it("applies Bonferroni as p times the number of tests", () => {
+    expect(adjustPValues([0.01, 0.3], "bonferroni")).toEqual([0.02, 0.6]);
+    expect(adjustPValues([0.6, 0.01], "bonferroni")[0]).toBe(1);
+  });
+
+  it("returns raw p-values without correction", () => {
+    expect(adjustPValues([0.01, 0.3], "none")).toEqual([0.01, 0.3]);
+    expect(adjustPValues([])).toEqual([]);
+  });
+});
+
+describe("Bootstrap Confidence Interval", () => {
+  const x = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+  const y = [2, 1, 4, 3, 6, 5, 8, 7, 10, 9, 12, 11, 14, 13, 16];
+
+  it("brackets the observed r", () => {
+    const r = calculatePearsonCorrelation(x, y).r;
+    const ci = bootstrapCorrelationCI(x, y, calculatePearsonCorrelation);
+
+    expect(ci.level).toBe(0.95);
+    expect(ci.lower).toBeLessThanOrEqual(r);
+    expect(ci.upper).toBeGreaterThanOrEqual(r);
+    expect(ci.upper).toBeLessThanOrEqual(1);
+  });
+
+  it("is reproducible for a fixed seed", () => {
+    const a = bootstrapCorrelationCI(x, y, calculatePearsonCorrelation, { seed: 7 });
+    const b = bootstrapCorrelationCI(x, y, calculatePearsonCorrelation, { seed: 7 });
+
+    expect(a).toEqual(b);
+  });
+
+  it("is wider for noisier data", () => {
+    const noisy = [5, 1, 9, 3, 2, 8, 4, 12, 6, 15, 7, 10, 16, 11, 13];
+
+    const tight = bootstrapCorrelationCI(x, y, calculatePearsonCorrelation);
+    const wide = bootstrapCorrelationCI(x, noisy, calculatePearsonCorrelation);
+
+    expect(wide.upper - wide.lower).toBeGreaterThan(tight.upper - tight.lower);
+  });
+
+  it("supports point-biserial correlation", () => {
+    const binary = x.map((v) => v > 7);
+    const r = calculatePointBiserialCorrelation(binary, y).r;
+    const ci = bootstrapCorrelationCI(binary, y, calculatePointBiserialCorrelation);
+
+    expect(ci.lower).toBeLessThanOrEqual(r);
+    expect(ci.upper).toBeGreaterThanOrEqual(r);
+  });
+
+  it("returns the full range when there is too little data", () => {
+    expect(bootstrapCorrelationCI([1, 2], [3, 4], calculatePearsonCorrelation)).toEqual({
+      lower: -1,
+      upper: 1,
+      level: 0.95,
+    });
+  });
+});
+
+describe("Rank Correlation", () => {
+  it("gives ρ = 1 for any monotonic relationship", () => {
+    const x = [1, 2, 3, 4, 5, 6, 7, 8];
+    const y = x.map((v) => Math.exp(v));
+
+    expect(calculateSpearmanCorrelation(x, y).r).toBeCloseTo(1, 10);
+    expect(calculatePearsonCorrelation(x, y).r).toBeLessThan(0.9);
+  });
+
+  it("is robust to a single outlier", () => {
+    const x = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+    const y = [1, 2, 3, 4, 5, 6, 7, 8, 9, -100];
+
+    expect(calculatePearsonCorrelation(x, y).r).toBeLessThan(0);
+    expect(calculateSpearmanCorrelation(x, y).r).toBeGreaterThan(0.4);
+  });
+
+  it("averages ranks for ties", () => {
+    // Ranks of x: 1.5, 1.5, 3, 4 — still perfectly monotonic with y's ranks
+    expect(calculateSpearmanCorrelation([1, 1, 2, 3], [5, 5, 6, 7]).r).toBeCloseTo(1, 10);
+  });
+
+  it("computes Kendall's τ from concordant and discordant pairs", () => {
+    // 6 pairs: 5 concordant, 1 discordant → τ = 4/6
+    const result = calculateKendallCorrelation([1, 2, 3, 4], [1, 2, 4, 3]);
+
+    expect(result.r).toBeCloseTo(4 / 6, 10);
+    expect(result.n).toBe(4);
+  });
+
+  it("computes τ-b with ties", () => {
+    // scipy.stats.kendalltau([1, 2, 2, 3, 4], [1, 3, 2, 4, 5]) → τ-b ≈ 0.9487
+    const result = calculateKendallCorrelation([1, 2, 2, 3, 4], [1, 3, 2, 4, 5]);
+
+    expect(result.r).toBeCloseTo(0.9487, 3);
+  });
+
+  it("reports significance for a strong monotonic trend", () => {
+    const x = Array.from({ length: 20 }, (_, i) => i);
+    const y = x.map((v) => v * v + (v % 3));
+
+    const result = calculateKendallCorrelation(x, y);
+
+    expect(result.r).toBeGreaterThan(0.9);
+    expect(result.pValue).toBeLessThan(0.01);
+    expect(result.confidence).toBe("strong");
+  });
+
+  it("returns no correlation without variance", () => {
+    expect(calculateKendallCorrelation([1, 1, 1, 1], [1, 2, 3, 4]).r).toBe(0);
+    expect(calculateKendallCorrelation([1, 1, 1, 1], [1, 2, 3, 4]).pValue).toBe(1);
+  });
+});
+
+describe("Lagged Cross-Correlation", () => {
+  // y repeats x two days later
+  const x = [3, 8, 1, 9, 4, 7, 2, 6, 5, 10, 3, 8, 1, 9];
+  const y = [0, 0, ...x.slice(0, -2)];
+
+  it("pairs x on day t with y on day t + lag", () => {
+    expect(calculateLaggedCorrelation(x, y, 2).r).toBeCloseTo(1, 10);
+    expect(calculateLaggedCorrelation(x, y, 2).n).toBe(x.length - 2);
+    expect(Math.abs(calculateLaggedCorrelation(x, y, 0).r)).toBeLessThan(0.9);
+  });
+
+  it("skips days with missing values", () => {
+    const gappy = y.map((v, i) => (i === 5 ? null : v));
+
+    expect(calculateLaggedCorrelation(x, gappy, 2).n).toBe(x.length - 3);
+  });
+
+  it("returns one result per lag up to maxLag", () => {
+    const results = crossCorrelate(x, y, { maxLag: 4 });
+
+    expect(results.map((r) => r.lag)).toEqual([0, 1, 2, 3, 4]);
+    const best = results.reduce((a, b) => (Math.abs(b.correlation.r) > Math.abs(a.correlation.r) ? b : a));
+    expect(best.lag).toBe(2);
+  });
+
+  it("rejects negative lags", () => {
+    expect(() => calculateLaggedCorrelation(x, y, -1)).toThrow();
+  });
+});
+
+describe("Partial Correlation", () => {
+  // z drives both x and y; x and y share nothing else
+  const z = [1, 5, 2, 8, 3, 9, 4, 7, 6, 10, 2, 8, 5, 3, 9, 1, 7, 4, 6, 10];
+  const noiseX = [0.3, -0.2, 0.1, 0.4, -0.5, 0.2, -0.1, 0.3, -0.4, 0.1, 0.5, -0.3, 0.2, -0.2, 0.0, 0.4, -0.1, 0.3, -0.3, 0.1];
+  const noiseY = [-0.2, -0.3, 0.2, -0.4, 0.0, -0.1, -0.4, 0.0, -0.5, -0.1, -0.4, -0.4, -0.1, 0.3, -0.4, -0.3, 0.1, 0.4, 0.1, -0.1];
+  const x = z.map((v, i) => 2 * v + noiseX[i]);
+  const y = z.map((v, i) => -v + noiseY[i]);
+
+  it("collapses a correlation explained by a common cause", () => {
+    expect(calculatePearsonCorrelation(x, y).r).toBeLessThan(-0.9);
+
+    const partial = calculatePartialCorrelation(x, y, [z]);
+
+    expect(Math.abs(partial.r)).toBeLessThan(0.5);
+    expect(partial.controls).toBe(1);
+  });
+
+  it("keeps a direct relationship", () => {
+    const direct = x.map((v, i) => v + noiseY[i]);
+
+    const partial = calculatePartialCorrelation(x, direct, [noiseX.map((_, i) => (i % 2 ? 1 : 0))]);
+
+    expect(partial.r).toBeGreaterThan(0.9);
+    expect(partial.pValue).toBeLessThan(0.01);
+  });
+
+  it("equals Pearson without covariates", () => {
+    expect(calculatePartialCorrelation(x, y, []).r).toBeCloseTo(calculatePearsonCorrelation(x, y).r, 10);
+  });
+
+  it("drops constant covariates", () => {
+    const partial = calculatePartialCorrelation(x, y, [z, z.map(() => 1)]);
+
+    expect(partial.controls).toBe(1);
+  });
+
+  it("handles collinear dummy covariates", () => {
+    const a = z.map((_, i) => (i % 2 === 0 ? 1 : 0));
+    const b = a.map((v) => 1 - v);
+
+    const partial = calculatePartialCorrelation(x, y, [z, a, b]);
+
+    expect(Number.isFinite(partial.r)).toBe(true);
+    expect(Math.abs(partial.r)).toBeLessThan(0.5);
+  });
+
+  it("returns no correlation when covariates use up the data", () => {
+    const partial = calculatePartialCorrelation([1, 2, 3, 4], [2, 1, 4, 3], [[1, 3, 2, 5], [4, 1, 3, 2]]);
+
+    expect(partial.r).toBe(0);
+    expect(partial.pValue).toBe(1);
+  });
+});
@@ -1,16 +1,21 @@
 /**
  * Statistical Correlation Analysis
  *
- * Implements Pearson correlation coefficient and significance testing
- * for discovering relationships between quantified self metrics.
+ * Implements Pearson, Spearman and Kendall correlation with significance testing,
+ * plus lagged cross-correlation, for discovering relationships between
+ * quantified self metrics.
  *
  * References:
  * - Pearson's r: https://en.wikipedia.org/wiki/Pearson_correlation_coefficient
+ * - Spearman's ρ: https://en.wikipedia.org/wiki/Spearman%27s_rank_correlation_coefficient
+ * - Kendall's τ-b: https://en.wikipedia.org/wiki/Kendall_rank_correlation_coefficient#Tau-b
  * - t-distribution: https://en.wikipedia.org/wiki/Student%27s_t-distribution
+ * - Benjamini–Hochberg: https://en.wikipedia.org/wiki/False_discovery_rate#Benjamini%E2%80%93Hochberg_procedure
+ * - Bootstrap: https://en.wikipedia.org/wiki/Bootstrapping_(statistics)
  */
 
 export interface CorrelationResult {
-  r: number; // Pearson correlation coefficient (-1 to 1)
+  r: number; // Correlation coefficient: Pearson r, Spearman ρ or Kendall τ (-1 to 1)
   pValue: number; // Statistical significance (0 to 1)
   n: number; // Sample size
   confidence: "strong" | "moderate" | "exploratory" | "none";
@@ -226,7 +231,7 @@ function mean(values: number[]): number {
  * - Exploratory: p < 0.1 (90% confidence)
  * - None: p >= 0.1
  */
-function classifyConfidence(
+export function classifyConfidence(
   pValue: number
 ): "strong" | "moderate" | "exploratory" | "none" {
   if (pValue < 0.01) return "strong";
@@ -376,3 +381,461 @@ export function formatCorrelation(result: CorrelationResult): string {
   const direction = result.r > 0 ? "positive" : "negative";
   return `${result.strength} ${direction} correlation (r=${result.r.toFixed(3)}, p=${result.pValue.toFixed(4)}, n=${result.n})`;
 }
+
+// ============================================================================
+// Multiple comparisons
+// ============================================================================
+
+/**
+ * Multiple-comparison correction method
+ * - bh: Benjamini–Hochberg false discovery rate (q-values)
+ * - bonferroni: Family-wise error rate (p × m)
+ * - none: Raw p-values
+ */
+export type PValueCorrection = "bh" | "bonferroni" | "none";
+
+/**
+ * Adjust a family of p-values for multiple comparisons
+ * @param pValues Raw p-values of every test performed (not only the significant ones)
+ * @param method Correction method (default: bh)
+ * @returns Adjusted p-values in the same order, capped at 1
+ */
+export function adjustPValues(
+  pValues: number[],
+  method: PValueCorrection = "bh"
+): number[] {
+  const m = pValues.length;
+  if (m === 0 || method === "none") return [...pValues];
+
+  if (method === "bonferroni") {
+    return pValues.map((p) => Math.min(1, p * m));
+  }
+
+  // Benjamini–Hochberg step-up: q(i) = min over j ≥ i of p(j) · m / j
+  const order = pValues
+    .map((p, index) => ({ p, index }))
+    .sort((a, b) => a.p - b.p);
+
+  const adjusted = new Array<number>(m);
+  let running = 1;
+  for (let rank = m; rank >= 1; rank--) {
+    const { p, index } = order[rank - 1];
+    running = Math.min(running, (p * m) / rank);
+    adjusted[index] = Math.min(1, running);
+  }
+
+  return adjusted;
+}
+
+// ============================================================================
+// Bootstrap confidence intervals
+// ============================================================================
+
+export interface BootstrapOptions {
+  iterations?: number; // Resamples (default: 1000)
+  level?: number; // Confidence level (default: 0.95)
+  seed?: number; // RNG seed, so cached results are reproducible (default: 1)
+}
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+  level: number;
+}
+
+/**
+ * Small deterministic PRNG (mulberry32)
+ */
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Percentile bootstrap confidence interval for a correlation coefficient.
+ * Pairs are resampled with replacement and `statistic` is recomputed on each resample.
+ * @param x First variable values
+ * @param y Second variable values
+ * @param statistic Correlation function, e.g. Pearson or point-biserial
+ */
+export function bootstrapCorrelationCI<T extends boolean | number>(
+  x: T[],
+  y: number[],
+  statistic: (x: T[], y: number[]) => CorrelationResult,
+  options: BootstrapOptions = {}
+): ConfidenceInterval {
+  const { iterations = 1000, level = 0.95, seed = 1 } = options;
+
+  if (x.length !== y.length) {
+    throw new Error("Arrays must have equal length");
+  }
+
+  const n = x.length;
+  if (n < 3) {
+    return { lower: -1, upper: 1, level };
+  }
+
+  const random = mulberry32(seed);
+  const rs: number[] = [];
+  const xs = new Array<T>(n);
+  const ys = new Array<number>(n);
+
+  for (let b = 0; b < iterations; b++) {
+    for (let i = 0; i < n; i++) {
+      const k = Math.floor(random() * n);
+      xs[i] = x[k];
+      ys[i] = y[k];
+    }
+    const r = statistic(xs, ys).r;
+    if (Number.isFinite(r)) rs.push(r);
+  }
+
+  if (rs.length === 0) {
+    return { lower: -1, upper: 1, level };
+  }
+
+  rs.sort((a, b) => a - b);
+  const alpha = (1 - level) / 2;
+  const at = (q: number) => rs[Math.min(rs.length - 1, Math.max(0, Math.floor(q * rs.length)))];
+
+  return { lower: at(alpha), upper: at(1 - alpha), level };
+}
+
+// ============================================================================
+// Rank correlation
+// ============================================================================
+
+/**
+ * Correlation coefficient to use for continuous×continuous pairs
+ * - pearson: linear relationship
+ * - spearman: monotonic relationship, robust to skew and outliers
+ * - kendall: monotonic relationship, better behaved with many ties and small n
+ */
+export type CorrelationMethod = "pearson" | "spearman" | "kendall";
+
+/**
+ * Ranks starting at 1, with tied values sharing their average rank
+ */
+function rank(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k].index] = averageRank;
+    i = j + 1;
+  }
+
+  return ranks;
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7)
+ */
+function normalCDF(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Calculate Spearman's rank correlation between two variables
+ * Pearson correlation of the (tie-averaged) ranks; p-value from the same t-approximation
+ * @param x First variable values
+ * @param y Second variable values
+ * @returns Correlation result with ρ as r
+ */
+export function calculateSpearmanCorrelation(
+  x: number[],
+  y: number[]
+): CorrelationResult {
+  if (x.length !== y.length) {
+    throw new Error("Arrays must have equal length");
+  }
+
+  return calculatePearsonCorrelation(rank(x), rank(y));
+}
+
+/**
+ * Calculate Kendall's τ-b between two variables
+ * Handles ties in either variable; p-value from the normal approximation
+ * with tie-corrected variance of S (number of concordant minus discordant pairs).
+ * @param x First variable values
+ * @param y Second variable values
+ * @returns Correlation result with τ-b as r
+ */
+export function calculateKendallCorrelation(
+  x: number[],
+  y: number[]
+): CorrelationResult {
+  if (x.length !== y.length) {
+    throw new Error("Arrays must have equal length");
+  }
+
+  const n = x.length;
+  const none: CorrelationResult = {
+    r: 0,
+    pValue: 1,
+    n,
+    confidence: "none",
+    strength: "none",
+  };
+
+  if (n < 3) {
+    return none;
+  }
+
+  let s = 0; // concordant - discordant
+  let tiesX = 0; // pairs tied in x only or both
+  let tiesY = 0;
+  const pairs = (n * (n - 1)) / 2;
+
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const dx = Math.sign(x[j] - x[i]);
+      const dy = Math.sign(y[j] - y[i]);
+      if (dx === 0) tiesX++;
+      if (dy === 0) tiesY++;
+      s += dx * dy;
+    }
+  }
+
+  const denominator = Math.sqrt((pairs - tiesX) * (pairs - tiesY));
+  if (denominator === 0) {
+    // No variance in one or both variables
+    return none;
+  }
+
+  const tau = s / denominator;
+
+  // Variance of S with tie correction
+  const tieGroups = (values: number[]) => {
+    const counts = new Map<number, number>();
+    for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+    return [...counts.values()].filter((t) => t > 1);
+  };
+  const tx = tieGroups(x);
+  const ty = tieGroups(y);
+  const sum = (ts: number[], f: (t: number) => number) => ts.reduce((acc, t) => acc + f(t), 0);
+
+  const v0 = n * (n - 1) * (2 * n + 5);
+  const vt = sum(tx, (t) => t * (t - 1) * (2 * t + 5));
+  const vu = sum(ty, (t) => t * (t - 1) * (2 * t + 5));
+  const v1 = sum(tx, (t) => t * (t - 1)) * sum(ty, (t) => t * (t - 1));
+  const v2 = sum(tx, (t) => t * (t - 1) * (t - 2)) * sum(ty, (t) => t * (t - 1) * (t - 2));
+  const varS =
+    (v0 - vt - vu) / 18 + v1 / (2 * n * (n - 1)) + v2 / (9 * n * (n - 1) * (n - 2));
+
+  const pValue = varS > 0 ? Math.min(1, 2 * (1 - normalCDF(Math.abs(s) / Math.sqrt(varS)))) : 1;
+
+  return {
+    r: tau,
+    pValue,
+    n,
+    confidence: classifyConfidence(pValue),
+    strength: classifyStrength(tau),
+  };
+}
+
+/**
+ * Calculate correlation with the given method
+ */
+export function calculateCorrelation(
+  x: number[],
+  y: number[],
+  method: CorrelationMethod = "pearson"
+): CorrelationResult {
+  switch (method) {
+    case "spearman":
+      return calculateSpearmanCorrelation(x, y);
+    case "kendall":
+      return calculateKendallCorrelation(x, y);
+    default:
+      return calculatePearsonCorrelation(x, y);
+  }
+}
+
+// ============================================================================
+// Lagged cross-correlation
+// ============================================================================
+
+export const MAX_LAG_DAYS = 7;
+
+export interface LaggedCorrelation {
+  lag: number; // Days y trails x
+  correlation: CorrelationResult;
+}
+
+/**
+ * Pair x on day t with y on day t + lag, dropping pairs where either side is missing.
+ * Both series must be indexed by consecutive days (one entry per day, null for no data).
+ */
+export function alignLagged<A, B>(
+  x: Array<A | null | undefined>,
+  y: Array<B | null | undefined>,
+  lag: number
+): { x: A[]; y: B[] } {
+  if (x.length !== y.length) {
+    throw new Error("Arrays must have equal length");
+  }
+  if (!Number.isInteger(lag) || lag < 0) {
+    throw new Error("Lag must be a non-negative integer");
+  }
+
+  const xs: A[] = [];
+  const ys: B[] = [];
+  for (let t = 0; t + lag < x.length; t++) {
+    const a = x[t];
+    const b = y[t + lag];
+    if (a === null || a === undefined || b === null || b === undefined) continue;
+    xs.push(a);
+    ys.push(b);
+  }
+
+  return { x: xs, y: ys };
+}
+
+/**
+ * Correlate x on day t with y on day t + lag
+ * @param x Daily series of the leading variable
+ * @param y Daily series of the trailing variable
+ * @param lag Days y trails x (0 = same day)
+ * @param method Correlation method (default: pearson)
+ */
+export function calculateLaggedCorrelation(
+  x: Array<number | null>,
+  y: Array<number | null>,
+  lag: number,
+  method: CorrelationMethod = "pearson"
+): CorrelationResult {
+  const aligned = alignLagged(x, y, lag);
+  return calculateCorrelation(aligned.x, aligned.y, method);
+}
+
+/**
+ * Cross-correlate two daily series for every lag from 0 to maxLag
+ * To test whether y leads x, swap the arguments.
+ * @returns One result per lag, in increasing lag order
+ */
+export function crossCorrelate(
+  x: Array<number | null>,
+  y: Array<number | null>,
+  options: { maxLag?: number; method?: CorrelationMethod } = {}
+): LaggedCorrelation[] {
+  const { maxLag = MAX_LAG_DAYS, method = "pearson" } = options;
+
+  const results: LaggedCorrelation[] = [];
+  for (let lag = 0; lag <= Math.min(maxLag, x.length - 1); lag++) {
+    results.push({ lag, correlation: calculateLaggedCorrelation(x, y, lag, method) });
+  }
+
+  return results;
+}
+
+// ============================================================================
+// Partial correlation
+// ============================================================================
+
+export interface PartialCorrelationResult extends CorrelationResult {
+  controls: number; // Covariates actually controlled for (constant columns are dropped)
+}
+
+/**
+ * Residuals of an ordinary least squares fit of y on the columns (plus intercept).
+ * Solved via the normal equations with a tiny ridge so collinear dummies stay solvable.
+ */
+function olsResiduals(y: number[], columns: number[][]): number[] {
+  const n = y.length;
+  const p = columns.length + 1;
+  const row = (i: number) => [1, ...columns.map((c) => c[i])];
+
+  // X'X and X'y
+  const xtx = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+  const xty = new Array<number>(p).fill(0);
+  for (let i = 0; i < n; i++) {
+    const xi = row(i);
+    for (let a = 0; a < p; a++) {
+      xty[a] += xi[a] * y[i];
+      for (let b = 0; b < p; b++) xtx[a][b] += xi[a] * xi[b];
+    }
+  }
+  for (let a = 1; a < p; a++) xtx[a][a] += 1e-9 * (xtx[a][a] || 1);
+
+  // Gaussian elimination with partial pivoting
+  const m = xtx.map((r, a) => [...r, xty[a]]);
+  for (let col = 0; col < p; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < p; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    if (Math.abs(m[col][col]) < 1e-12) continue;
+    for (let r = 0; r < p; r++) {
+      if (r === col) continue;
+      const factor = m[r][col] / m[col][col];
+      for (let c = col; c <= p; c++) m[r][c] -= factor * m[col][c];
+    }
+  }
+  const beta = m.map((r, a) => (Math.abs(r[a]) < 1e-12 ? 0 : r[p] / r[a]));
+
+  return y.map((v, i) => v - row(i).reduce((sum, x, a) => sum + x * beta[a], 0));
+}
+
+/**
+ * Partial correlation of x and y controlling for covariates:
+ * Pearson correlation of the residuals after regressing each on the covariates,
+ * with the p-value on n - 2 - k degrees of freedom.
+ * @param x First variable values
+ * @param y Second variable values
+ * @param covariates One array per covariate, parallel to x and y
+ * @param options rank: use ranks of x, y and covariates (partial Spearman)
+ */
+export function calculatePartialCorrelation(
+  x: number[],
+  y: number[],
+  covariates: number[][],
+  options: { rank?: boolean } = {}
+): PartialCorrelationResult {
+  if (x.length !== y.length || covariates.some((c) => c.length !== x.length)) {
+    throw new Error("Arrays must have equal length");
+  }
+
+  // Constant covariates carry no information and would make the fit singular
+  const columns = covariates.filter((c) => c.some((v) => v !== c[0]));
+  const k = columns.length;
+  const n = x.length;
+
+  if (n - k < 3) {
+    return { r: 0, pValue: 1, n, confidence: "none", strength: "none", controls: k };
+  }
+
+  const prepare = (values: number[]) => (options.rank ? rank(values) : values);
+  const controls = columns.map(prepare);
+  const residualsX = olsResiduals(prepare(x), controls);
+  const residualsY = olsResiduals(prepare(y), controls);
+
+  const { r } = calculatePearsonCorrelation(residualsX, residualsY);
+  // Each covariate costs one degree of freedom
+  const pValue = calculatePValue(r, n - k);
+
+  return {
+    r,
+    pValue,
+    n,
+    confidence: classifyConfidence(pValue),
+    strength: classifyStrength(r),
+    controls: k,
+  };
+}
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { StravaBackfill } from '@/lib/db/strava';
+import type { StravaActivity } from '@/lib/db/validation';
+
+vi.mock('@/lib/db/strava', () => ({
+  saveStravaBackfillDB: vi.fn(async (state: StravaBackfill) => ({ ...state })),
+  logStravaSyncDB: vi.fn(),
+}));
+
+vi.mock('./sync', () => ({
+  importStravaActivity: vi.fn(async () => ({ status: 'synced', streams: false })),
+}));
+
+vi.mock('./client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./client')>()),
+  fetchStravaActivitiesPage: vi.fn(),
+}));
+
+import { rateLimitPause, runStravaBackfillStep, BACKFILL_PAGE_SIZE } from './backfill';
+import { fetchStravaActivitiesPage, StravaRateLimitError } from './client';
+import { importStravaActivity } from './sync';
+import { logStravaSyncDB, saveStravaBackfillDB } from '@/lib/db/strava';
+
+const NOW = new Date('2026-03-10T10:07:00Z');
+const athlete = { max_hr: 190, resting_hr: 50, lthr: 170, ftp_w: null };
+
+const state = (overrides: Partial<StravaBackfill> = {}): StravaBackfill => ({
+  athlete_id: 42,
+  status: 'running',
+  after_cursor: 0,
+  include_streams: false,
+  pages: 0,
+  imported: 0,
+  skipped: 0,
+  errors: 0,
+  paused_until: null,
+  last_error: null,
+  started_at: '2026-03-10T10:00:00.000Z',
+  updated_at: '2026-03-10T10:00:00.000Z',
+  completed_at: null,
+  ...overrides,
+});
+
+/** Activities one day apart from 2020-01-01 */
+const activities = (from: number, count: number): StravaActivity[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: from + i,
+    type: 'Run',
+    start_date: new Date(Date.UTC(2020, 0, 1 + from + i)).toISOString(),
+  }) as StravaActivity);
+
+const seconds = (a: StravaActivity) => Date.parse(a.start_date) / 1000;
+
+const plenty = { shortLimit: 200, shortUsage: 10, dailyLimit: 2000, dailyUsage: 100 };
+
+const run = (initial: StravaBackfill) =>
+  runStravaBackfillStep(initial, {
+    accessToken: 'token',
+    athlete,
+    deadline: NOW.getTime() + 1,
+    now: () => NOW,
+  });
+
+describe('rateLimitPause', () => {
+  it('returns null while requests are left', () => {
+    expect(rateLimitPause(plenty, NOW)).toBeNull();
+    expect(rateLimitPause(null, NOW)).toBeNull();
+  });
+
+  it('pauses until the next quarter hour near the 15-minute limit', () => {
+    const pause = rateLimitPause({ ...plenty, shortUsage: 180 }, NOW);
+    expect(pause?.toISOString()).toBe('2026-03-10T10:15:00.000Z');
+  });
+
+  it('pauses until midnight UTC near the daily limit', () => {
+    const pause = rateLimitPause({ ...plenty, dailyUsage: 1850 }, NOW);
+    expect(pause?.toISOString()).toBe('2026-03-11T00:00:00.000Z');
+  });
+
+  it('counts requests made since the headers were read', () => {
+    expect(rateLimitPause({ ...plenty, shortUsage: 170 }, NOW)).toBeNull();
+    expect(rateLimitPause({ ...plenty, shortUsage: 170 }, NOW, 10)).not.toBeNull();
+  });
+});
+
+describe('runStravaBackfillStep', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('completes on a short page and moves the cursor to the newest activity', async () => {
+    const page = activities(0, 3).reverse();
+    vi.mocked(fetchStravaActivitiesPage).mockResolvedValueOnce({ activities: page, rateLimit: plenty });
+    vi.mocked(importStravaActivity)
+      .mockResolvedValueOnce({ status: 'synced', streams: false })
+      .mockResolvedValueOnce({ status: 'skipped', streams: false })
+      .mockResolvedValueOnce({ status: 'synced', streams: false });
+
+    const result = await run(state());
+
+    expect(fetchStravaActivitiesPage).toHaveBeenCalledWith('token', { after: 0, perPage: BACKFILL_PAGE_SIZE });
+    // Imported oldest first
+    expect(vi.mocked(importStravaActivity).mock.calls.map(([a]) => a.id)).toEqual([0, 1, 2]);
+    expect(result).toMatchObject({ status: 'completed', pages: 1, imported: 2, skipped: 1 });
+    expect(result.after_cursor).toBe(seconds(page[0]));
+  });
+
+  it('saves after every page and continues with the cursor', async () => {
+    const first = activities(0, BACKFILL_PAGE_SIZE);
+    vi.mocked(fetchStravaActivitiesPage)
+      .mockResolvedValueOnce({ activities: first, rateLimit: plenty })
+      .mockResolvedValueOnce({ activities: [], rateLimit: plenty });
+
+    const result = await runStravaBackfillStep(state(), {
+      accessToken: 'token',
+      athlete,
+      deadline: Date.now() + 10_000,
+    });
+
+    expect(fetchStravaActivitiesPage).toHaveBeenLastCalledWith('token', {
+      after: seconds(first[BACKFILL_PAGE_SIZE - 1]),
+      perPage: BACKFILL_PAGE_SIZE,
+    });
+    expect(saveStravaBackfillDB).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ status: 'completed', pages: 2, imported: BACKFILL_PAGE_SIZE });
+  });
+
+  it('stops when the backfill was cancelled meanwhile', async () => {
+    vi.mocked(fetchStravaActivitiesPage).mockResolvedValue({
+      activities: activities(0, BACKFILL_PAGE_SIZE),
+      rateLimit: plenty,
+    });
+    vi.mocked(saveStravaBackfillDB).mockImplementationOnce(async (s) => ({ ...s, status: 'cancelled' }));
+
+    const result = await runStravaBackfillStep(state(), {
+      accessToken: 'token',
+      athlete,
+      deadline: Date.now() + 10_000,
+    });
+
+    expect(result.status).toBe('cancelled');
+    expect(fetchStravaActivitiesPage).toHaveBeenCalledTimes(1);
+  });
+
+  it('pauses before the rate limit is used up', async () => {
+    vi.mocked(fetchStravaActivitiesPage).mockResolvedValueOnce({
+      activities: activities(0, BACKFILL_PAGE_SIZE),
+      rateLimit: { ...plenty, shortUsage: 185 },
+    });
+
+    const result = await run(state());
+
+    expect(result).toMatchObject({
+      status: 'rate_limited',
+      paused_until: '2026-03-10T10:15:00.000Z',
+      imported: BACKFILL_PAGE_SIZE,
+    });
+  });
+
+  it('keeps the cursor before the activity that hit a 429', async () => {
+    const page = activities(0, 3);
+    vi.mocked(fetchStravaActivitiesPage).mockResolvedValueOnce({ activities: page, rateLimit: plenty });
+    vi.mocked(importStravaActivity)
+      .mockResolvedValueOnce({ status: 'synced', streams: false })
+      .mockRejectedValueOnce(new StravaRateLimitError({ ...plenty, shortUsage: 200 }));
+
+    const result = await run(state({ include_streams: true }));
+
+    expect(result).toMatchObject({
+      status: 'rate_limited',
+      paused_until: '2026-03-10T10:15:00.000Z',
+      after_cursor: seconds(page[0]),
+      imported: 1,
+    });
+  });
+
+  it('records failed activities and moves on', async () => {
+    vi.mocked(fetchStravaActivitiesPage).mockResolvedValueOnce({ activities: activities(0, 2), rateLimit: plenty });
+    vi.mocked(importStravaActivity).mockRejectedValueOnce(new Error('boom'));
+
+    const result = await run(state());
+
+    expect(logStravaSyncDB).toHaveBeenCalledWith(42, 0, 'create', 'error', 'boom');
+    expect(result).toMatchObject({ status: 'completed', imported: 1, errors: 1, last_error: 'boom' });
+  });
+
+  it('marks the backfill failed when the activity list cannot be fetched', async () => {
+    vi.mocked(fetchStravaActivitiesPage).mockRejectedValueOnce(new Error('Strava API error: 500'));
+
+    const result = await run(state({ after_cursor: 100 }));
+
+    expect(result).toMatchObject({ status: 'failed', after_cursor: 100, last_error: 'Strava API error: 500' });
+  });
+
+  it('does nothing while paused', async () => {
+    const paused = state({ status: 'rate_limited', paused_until: '2026-03-10T10:15:00.000Z' });
+
+    expect(await run(paused)).toEqual(paused);
+    expect(fetchStravaActivitiesPage).not.toHaveBeenCalled();
+  });
+
+  it('resumes once the pause is over', async () => {
+    vi.mocked(fetchStravaActivitiesPage).mockResolvedValueOnce({ activities: [], rateLimit: plenty });
+
+    const result = await run(state({ status: 'rate_limited', paused_until: '2026-03-10T10:00:00.000Z' }));
+
+    expect(result).toMatchObject({ status: 'completed', paused_until: null });
+  });
+});
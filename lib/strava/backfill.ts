@@ -0,0 +1,146 @@
+/**
+ * Resumable import of an athlete's full Strava history.
+ *
+ * Each step walks pages of the activity list oldest first (after=cursor) until
+ * its time budget runs out, moving the cursor after every activity. Before
+ * Strava's 15-minute or daily request limit is used up the backfill pauses
+ * until the window resets; the next step (cron or settings page) resumes it.
+ */
+
+import type { AthleteProfile } from '@/lib/phys/training-load';
+import type { StravaActivity } from '@/lib/db/validation';
+import { logStravaSyncDB, saveStravaBackfillDB, type StravaBackfill } from '@/lib/db/strava';
+import {
+  fetchStravaActivitiesPage,
+  StravaRateLimitError,
+  type StravaRateLimit,
+} from './client';
+import { importStravaActivity } from './sync';
+
+export const BACKFILL_PAGE_SIZE = 50;
+
+// Time budget of one step, below the 60 s function limit
+export const BACKFILL_STEP_MS = 40_000;
+
+// Share of each window left for webhooks and manual syncs
+const RATE_LIMIT_RESERVE = 0.1;
+
+const QUARTER_HOUR_MS = 15 * 60 * 1000;
+
+/** Strava's 15-minute windows start at :00, :15, :30 and :45 (UTC) */
+function nextQuarterHour(now: Date): Date {
+  return new Date(Math.floor(now.getTime() / QUARTER_HOUR_MS) * QUARTER_HOUR_MS + QUARTER_HOUR_MS);
+}
+
+/** The daily window resets at midnight UTC */
+function nextUtcMidnight(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
+
+function exhausted(usage: number, limit: number): boolean {
+  return usage >= limit - Math.max(1, Math.ceil(limit * RATE_LIMIT_RESERVE));
+}
+
+/**
+ * When to resume, or null if requests are left in both windows.
+ * @param extraRequests Requests made since the headers were read (e.g. streams)
+ */
+export function rateLimitPause(rateLimit: StravaRateLimit | null, now: Date, extraRequests = 0): Date | null {
+  if (!rateLimit) return null;
+  if (exhausted(rateLimit.dailyUsage + extraRequests, rateLimit.dailyLimit)) return nextUtcMidnight(now);
+  if (exhausted(rateLimit.shortUsage + extraRequests, rateLimit.shortLimit)) return nextQuarterHour(now);
+  return null;
+}
+
+function startSeconds(activity: StravaActivity): number {
+  return Math.floor(Date.parse(activity.start_date) / 1000);
+}
+
+/**
+ * Run the backfill until `deadline` (ms since epoch), it completes, or the
+ * rate limit pauses it. Returns the persisted state; does nothing unless the
+ * backfill is running or its rate-limit pause is over.
+ */
+export async function runStravaBackfillStep(
+  initial: StravaBackfill,
+  options: {
+    accessToken: string;
+    athlete: AthleteProfile;
+    deadline: number;
+    now?: () => Date;
+  }
+): Promise<StravaBackfill> {
+  const now = options.now ?? (() => new Date());
+  const state: StravaBackfill = { ...initial };
+
+  if (state.status === 'rate_limited') {
+    if (state.paused_until && new Date(state.paused_until) > now()) return state;
+    state.status = 'running';
+    state.paused_until = null;
+  }
+  if (state.status !== 'running') return state;
+
+  try {
+    while (now().getTime() < options.deadline) {
+      const { activities, rateLimit } = await fetchStravaActivitiesPage(options.accessToken, {
+        after: state.after_cursor,
+        perPage: BACKFILL_PAGE_SIZE,
+      });
+      state.pages++;
+
+      let streamRequests = 0;
+      const ordered = [...activities].sort((a, b) => startSeconds(a) - startSeconds(b));
+
+      for (const activity of ordered) {
+        try {
+          const result = await importStravaActivity(activity, {
+            athleteId: state.athlete_id,
+            accessToken: options.accessToken,
+            athlete: options.athlete,
+            includeStreams: state.include_streams,
+          });
+          if (result.status === 'synced') state.imported++;
+          else state.skipped++;
+          if (result.status === 'synced' && state.include_streams) streamRequests++;
+        } catch (error) {
+          // The cursor stays before this activity, so it is retried on resume
+          if (error instanceof StravaRateLimitError) throw error;
+
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          console.error(`Backfill failed for activity ${activity.id}:`, error);
+          await logStravaSyncDB(state.athlete_id, activity.id, 'create', 'error', message);
+          state.errors++;
+          state.last_error = message;
+        }
+        state.after_cursor = Math.max(state.after_cursor, startSeconds(activity));
+      }
+
+      if (activities.length < BACKFILL_PAGE_SIZE) {
+        state.status = 'completed';
+        break;
+      }
+
+      const pause = rateLimitPause(rateLimit, now(), streamRequests);
+      if (pause) {
+        state.status = 'rate_limited';
+        state.paused_until = pause.toISOString();
+        break;
+      }
+
+      // Persist progress after every page; stops when cancelled meanwhile
+      Object.assign(state, await saveStravaBackfillDB(state));
+      if (state.status !== 'running') return state;
+    }
+  } catch (error) {
+    if (error instanceof StravaRateLimitError) {
+      state.status = 'rate_limited';
+      state.paused_until = (rateLimitPause(error.rateLimit, now()) ?? nextQuarterHour(now())).toISOString();
+    } else {
+      console.error('Strava backfill step failed:', error);
+      state.status = 'failed';
+      state.last_error = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  return saveStravaBackfillDB(state);
+}
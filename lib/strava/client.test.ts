@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { parseStravaRateLimit } from './client';
+
+describe('parseStravaRateLimit', () => {
+  it('prefers the read rate limit headers', () => {
+    const headers = new Headers({
+      'x-ratelimit-limit': '200,2000',
+      'x-ratelimit-usage': '50,500',
+      'x-readratelimit-limit': '100,1000',
+      'x-readratelimit-usage': '12,340',
+    });
+
+    expect(parseStravaRateLimit(headers)).toEqual({
+      shortLimit: 100,
+      shortUsage: 12,
+      dailyLimit: 1000,
+      dailyUsage: 340,
+    });
+  });
+
+  it('falls back to the overall rate limit headers', () => {
+    const headers = new Headers({ 'x-ratelimit-limit': '200,2000', 'x-ratelimit-usage': '50,500' });
+
+    expect(parseStravaRateLimit(headers)).toEqual({
+      shortLimit: 200,
+      shortUsage: 50,
+      dailyLimit: 2000,
+      dailyUsage: 500,
+    });
+  });
+
+  it('returns null for missing or malformed headers', () => {
+    expect(parseStravaRateLimit(new Headers())).toBeNull();
+    expect(parseStravaRateLimit(new Headers({ 'x-ratelimit-limit': '200', 'x-ratelimit-usage': '1,2' }))).toBeNull();
+  });
+});
@@ -1,6 +1,7 @@
 import { env } from '@/env';
 import { sql } from '@/lib/db/client';
-import { ZStravaActivity } from '@/lib/db/validation';
+import { openSecrets, sealSecrets } from '@/lib/auth/encryption';
+import { ZStravaActivity, ZStravaStreams, type StravaActivity } from '@/lib/db/validation';
 
 /**
  * Strava API client for fetching activities and managing authentication
@@ -14,20 +15,108 @@ export interface StravaAuth {
 }
 
 /**
- * Fetches the current Strava auth from the database
+ * Strava API usage from the response headers: a 15-minute and a daily window.
+ * Reads of activities count against the read limit where Strava sends one.
  */
-export async function getStravaAuth(): Promise<StravaAuth | null> {
-  const authRecords = await sql`
-    SELECT athlete_id, access_token, refresh_token, expires_at
-    FROM strava_auth
-    LIMIT 1
-  `;
+export interface StravaRateLimit {
+  shortLimit: number;
+  shortUsage: number;
+  dailyLimit: number;
+  dailyUsage: number;
+}
+
+/**
+ * Thrown when Strava answers 429 Too Many Requests
+ */
+export class StravaRateLimitError extends Error {
+  constructor(public rateLimit: StravaRateLimit | null) {
+    super('Strava rate limit exceeded');
+    this.name = 'StravaRateLimitError';
+  }
+}
+
+/**
+ * Parses "limit,usage" header pairs ("200,2000" / "12,340"), preferring the
+ * read-specific X-ReadRateLimit-* headers
+ */
+export function parseStravaRateLimit(headers: Headers): StravaRateLimit | null {
+  const limit = headers.get('x-readratelimit-limit') ?? headers.get('x-ratelimit-limit');
+  const usage = headers.get('x-readratelimit-usage') ?? headers.get('x-ratelimit-usage');
+  if (!limit || !usage) return null;
+
+  const [shortLimit, dailyLimit] = limit.split(',').map(Number);
+  const [shortUsage, dailyUsage] = usage.split(',').map(Number);
+  if ([shortLimit, dailyLimit, shortUsage, dailyUsage].some((n) => !Number.isFinite(n))) {
+    return null;
+  }
+
+  return { shortLimit, shortUsage, dailyLimit, dailyUsage };
+}
+
+type StravaAuthRecord = StravaAuth & {
+  token_key_id: string | null;
+  token_data_key: string | null;
+};
+
+/**
+ * Fetches the Strava auth from the database (the given athlete's, or the
+ * connected one), with its tokens decrypted
+ */
+export async function getStravaAuth(athleteId?: number): Promise<StravaAuth | null> {
+  const authRecords = athleteId === undefined
+    ? await sql`
+        SELECT athlete_id, access_token, refresh_token, expires_at, token_key_id, token_data_key
+        FROM strava_auth
+        LIMIT 1
+      `
+    : await sql`
+        SELECT athlete_id, access_token, refresh_token, expires_at, token_key_id, token_data_key
+        FROM strava_auth
+        WHERE athlete_id = ${athleteId}
+        LIMIT 1
+      `;
 
   if (authRecords.length === 0) {
     return null;
   }
 
-  return authRecords[0] as StravaAuth;
+  const record = authRecords[0] as StravaAuthRecord;
+  const tokens = await openSecrets({
+    values: { access_token: record.access_token, refresh_token: record.refresh_token },
+    keyId: record.token_key_id,
+    dataKey: record.token_data_key,
+  });
+
+  return {
+    athlete_id: Number(record.athlete_id),
+    expires_at: record.expires_at,
+    ...tokens,
+  };
+}
+
+/**
+ * Stores refreshed tokens, encrypted under a new data key
+ */
+async function saveStravaTokens(
+  athleteId: number,
+  tokens: { access_token: string; refresh_token: string; expires_at: number }
+) {
+  const sealed = await sealSecrets({
+    access_token: tokens.access_token,
+    refresh_token: tokens.refresh_token,
+  });
+
+  await sql`
+    UPDATE strava_auth
+    SET
+      access_token = ${sealed.values.access_token},
+      refresh_token = ${sealed.values.refresh_token},
+      token_key_id = ${sealed.keyId},
+      token_data_key = ${sealed.dataKey},
+      expires_at = ${new Date(tokens.expires_at * 1000).toISOString()},
+      updated_at = now()
+    WHERE athlete_id = ${athleteId}
+  `;
 }
 
 /**
@@ -65,15 +154,7 @@ export async function refreshAccessTokenIfNeeded(auth: StravaAuth): Promise<stri
   const tokenData = await response.json();
 
   // Update database with new tokens
-  await sql`
-    UPDATE strava_auth
-    SET
-      access_token = ${tokenData.access_token},
-      refresh_token = ${tokenData.refresh_token},
-      expires_at = ${new Date(tokenData.expires_at * 1000).toISOString()},
-      updated_at = now()
-    WHERE athlete_id = ${auth.athlete_id}
-  `;
+  await saveStravaTokens(auth.athlete_id, tokenData);
 
   console.log('Access token refreshed successfully');
 
@@ -100,21 +181,61 @@ export async function fetchStravaActivity(activityId: number, accessToken: strin
 }
 
 /**
- * Fetches recent activities from Strava
- * @param accessToken - Valid Strava access token
- * @param after - Unix timestamp to fetch activities after
- * @param perPage - Number of activities per page (max 200)
+ * Stream types requested for an activity
  */
-export async function fetchStravaActivities(
+export const STRAVA_STREAM_KEYS = ['time', 'distance', 'heartrate', 'velocity_smooth', 'altitude', 'latlng'];
+
+/**
+ * Fetches the sample-level streams of an activity.
+ * Returns null for activities without streams (e.g. manually entered ones).
+ */
+export async function fetchStravaActivityStreams(activityId: number, accessToken: string) {
+  const url = new URL(`https://www.strava.com/api/v3/activities/${activityId}/streams`);
+  url.searchParams.set('keys', STRAVA_STREAM_KEYS.join(','));
+  url.searchParams.set('key_by_type', 'true');
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+    },
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (response.status === 429) {
+    throw new StravaRateLimitError(parseStravaRateLimit(response.headers));
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch streams for activity ${activityId}: ${response.statusText}`);
+  }
+
+  const streamsData = await response.json();
+  if (!streamsData || !streamsData.time) {
+    return null;
+  }
+
+  return ZStravaStreams.parse(streamsData);
+}
+
+/**
+ * Fetches one page of the athlete's activities with the current API usage.
+ * With `after` set, Strava returns activities oldest first.
+ */
+export async function fetchStravaActivitiesPage(
   accessToken: string,
-  after?: number,
-  perPage: number = 30
+  options: { after?: number; page?: number; perPage?: number } = {}
 ) {
   const url = new URL('https://www.strava.com/api/v3/athlete/activities');
-  url.searchParams.set('per_page', perPage.toString());
+  url.searchParams.set('per_page', (options.perPage ?? 30).toString());
 
-  if (after) {
-    url.searchParams.set('after', after.toString());
+  if (options.after !== undefined) {
+    url.searchParams.set('after', options.after.toString());
+  }
+  if (options.page) {
+    url.searchParams.set('page', options.page.toString());
   }
 
   const response = await fetch(url.toString(), {
@@ -123,6 +244,12 @@ export async function fetchStravaActivities(
     },
   });
 
+  const rateLimit = parseStravaRateLimit(response.headers);
+
+  if (response.status === 429) {
+    throw new StravaRateLimitError(rateLimit);
+  }
+
   if (!response.ok) {
     throw new Error(`Failed to fetch activities: ${response.statusText}`);
   }
@@ -130,7 +257,25 @@ export async function fetchStravaActivities(
   const activitiesData = await response.json();
 
   // Validate each activity
-  return activitiesData.map((activity: unknown) => ZStravaActivity.parse(activity));
+  return {
+    activities: activitiesData.map((activity: unknown) => ZStravaActivity.parse(activity)) as StravaActivity[],
+    rateLimit,
+  };
+}
+
+/**
+ * Fetches recent activities from Strava
+ * @param accessToken - Valid Strava access token
+ * @param after - Unix timestamp to fetch activities after
+ * @param perPage - Number of activities per page (max 200)
+ */
+export async function fetchStravaActivities(
+  accessToken: string,
+  after?: number,
+  perPage: number = 30
+) {
+  const { activities } = await fetchStravaActivitiesPage(accessToken, { after, perPage });
+  return activities;
 }
 
 /**
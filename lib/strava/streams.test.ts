@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/db/workout-streams', () => ({
+  saveWorkoutStreamsDB: vi.fn(async (_id: number, _source: string, streams: { time_s: number[] }) => streams.time_s.length),
+  hasWorkoutStreamsDB: vi.fn(),
+}));
+
+vi.mock('@/lib/db/best-efforts', () => ({
+  saveBestEffortsDB: vi.fn(),
+}));
+
+vi.mock('./client', () => ({
+  fetchStravaActivityStreams: vi.fn(),
+}));
+
+import { importStravaStreams, transformStravaStreams } from './streams';
+import { saveWorkoutStreamsDB, hasWorkoutStreamsDB } from '@/lib/db/workout-streams';
+import { saveBestEffortsDB } from '@/lib/db/best-efforts';
+import { fetchStravaActivityStreams } from './client';
+
+const stravaStreams = {
+  time: { data: [0, 1, 2] },
+  distance: { data: [0, 3.1, 6.2] },
+  heartrate: { data: [120.4, null, 130] },
+  velocity_smooth: { data: [3.1, 3.1, 3.2] },
+  latlng: { data: [[52.5, 13.4], null, [52.51, 13.41]] as ([number, number] | null)[] },
+};
+
+describe('transformStravaStreams', () => {
+  it('maps Strava stream types to workout streams', () => {
+    const streams = transformStravaStreams(stravaStreams);
+
+    expect(streams).toEqual({
+      time_s: [0, 1, 2],
+      distance_m: [0, 3.1, 6.2],
+      heartrate: [120, null, 130],
+      velocity_mps: [3.1, 3.1, 3.2],
+      altitude_m: null,
+      lat: [52.5, null, 52.51],
+      lng: [13.4, null, 13.41],
+    });
+  });
+});
+
+describe('importStravaStreams', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('skips workouts that already have streams', async () => {
+    vi.mocked(hasWorkoutStreamsDB).mockResolvedValueOnce(true);
+
+    expect(await importStravaStreams(1, 99, 'token')).toBe(0);
+    expect(fetchStravaActivityStreams).not.toHaveBeenCalled();
+  });
+
+  it('stores fetched streams', async () => {
+    vi.mocked(hasWorkoutStreamsDB).mockResolvedValueOnce(false);
+    vi.mocked(fetchStravaActivityStreams).mockResolvedValueOnce(stravaStreams);
+
+    expect(await importStravaStreams(1, 99, 'token')).toBe(3);
+    expect(saveWorkoutStreamsDB).toHaveBeenCalledWith(1, 'strava', expect.objectContaining({ time_s: [0, 1, 2] }));
+    // 6 m run: no standard distance covered
+    expect(saveBestEffortsDB).toHaveBeenCalledWith(1, [], 'streams');
+  });
+
+  it('stores nothing for activities without streams', async () => {
+    vi.mocked(hasWorkoutStreamsDB).mockResolvedValueOnce(false);
+    vi.mocked(fetchStravaActivityStreams).mockResolvedValueOnce(null);
+
+    expect(await importStravaStreams(1, 99, 'token')).toBe(0);
+    expect(saveWorkoutStreamsDB).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,50 @@
+import type { StravaStreams } from '@/lib/db/validation';
+import type { WorkoutStreams } from '@/lib/phys/workout-streams';
+import { bestEffortsFromStreams } from '@/lib/phys/best-efforts';
+import { saveWorkoutStreamsDB, hasWorkoutStreamsDB } from '@/lib/db/workout-streams';
+import { saveBestEffortsDB } from '@/lib/db/best-efforts';
+import { fetchStravaActivityStreams } from './client';
+
+/**
+ * Converts Strava streams (key_by_type) into our workout stream format
+ */
+export function transformStravaStreams(streams: StravaStreams): WorkoutStreams {
+  const latlng = streams.latlng?.data;
+
+  return {
+    time_s: streams.time.data.map((t) => Math.round(t ?? 0)),
+    distance_m: streams.distance?.data ?? null,
+    heartrate: streams.heartrate?.data.map((v) => (v === null ? null : Math.round(v))) ?? null,
+    velocity_mps: streams.velocity_smooth?.data ?? null,
+    altitude_m: streams.altitude?.data ?? null,
+    lat: latlng ? latlng.map((p) => p?.[0] ?? null) : null,
+    lng: latlng ? latlng.map((p) => p?.[1] ?? null) : null,
+  };
+}
+
+/**
+ * Imports the streams of a Strava activity for a stored workout, along with
+ * the best efforts found in them (synced activities are runs).
+ * Skips workouts that already have streams, since each request counts against
+ * the Strava API rate limit.
+ * Returns the number of samples stored (0 if the activity has no streams).
+ */
+export async function importStravaStreams(
+  workoutId: number,
+  activityId: number,
+  accessToken: string
+): Promise<number> {
+  if (await hasWorkoutStreamsDB(workoutId)) {
+    return 0;
+  }
+
+  const streams = await fetchStravaActivityStreams(activityId, accessToken);
+  if (!streams || streams.time.data.length === 0) {
+    return 0;
+  }
+
+  const workoutStreams = transformStravaStreams(streams);
+  const count = await saveWorkoutStreamsDB(workoutId, 'strava', workoutStreams);
+  await saveBestEffortsDB(workoutId, bestEffortsFromStreams(workoutStreams), 'streams');
+  return count;
+}
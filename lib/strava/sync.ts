@@ -0,0 +1,61 @@
+import type { StravaActivity } from '@/lib/db/validation';
+import type { AthleteProfile } from '@/lib/phys/training-load';
+import { isWorkoutTombstonedDB } from '@/lib/db/workouts';
+import { logStravaSyncDB, upsertStravaWorkoutDB } from '@/lib/db/strava';
+import { transformStravaActivityToWorkout } from './transform';
+import { importStravaStreams } from './streams';
+import { StravaRateLimitError } from './client';
+
+/**
+ * Strava activity types that are imported as workouts
+ */
+export const STRAVA_SYNC_TYPES = ['Run', 'TrailRun', 'VirtualRun'];
+
+export type StravaImportResult = {
+  status: 'synced' | 'skipped';
+  streams: boolean;   // whether new streams were stored
+};
+
+/**
+ * Imports one activity from the athlete's activity list: creates or updates
+ * its workout and, optionally, its streams, and logs the result.
+ *
+ * Other activity types and activities deleted or merged by hand are skipped.
+ * A failed stream import is logged and ignored, except when Strava's rate
+ * limit is hit; that error is rethrown so callers can pause.
+ */
+export async function importStravaActivity(
+  activity: StravaActivity,
+  options: {
+    athleteId: number;
+    accessToken: string;
+    athlete: AthleteProfile;
+    includeStreams: boolean;
+  }
+): Promise<StravaImportResult> {
+  if (!STRAVA_SYNC_TYPES.includes(activity.type)) {
+    console.log(`Skipping non-running activity ${activity.id}: ${activity.type}`);
+    return { status: 'skipped', streams: false };
+  }
+
+  // Skip activities that were deleted or merged into another workout by hand
+  if (await isWorkoutTombstonedDB('strava', activity.id.toString())) {
+    return { status: 'skipped', streams: false };
+  }
+
+  const workout = transformStravaActivityToWorkout(activity, options.athlete);
+  const workoutId = await upsertStravaWorkoutDB(workout);
+
+  let streams = false;
+  if (options.includeStreams) {
+    try {
+      streams = (await importStravaStreams(workoutId, activity.id, options.accessToken)) > 0;
+    } catch (error) {
+      if (error instanceof StravaRateLimitError) throw error;
+      console.error(`Failed to import streams for activity ${activity.id}:`, error);
+    }
+  }
+
+  await logStravaSyncDB(options.athleteId, activity.id, 'create', 'success');
+  return { status: 'synced', streams };
+}
@@ -1,5 +1,12 @@
 import { StravaActivity } from '@/lib/db/validation';
 import { WorkoutUpsert } from '@/lib/db/validation';
+import {
+  applyTrainingLoad,
+  effortFromHeartRate,
+  DEFAULT_ATHLETE_PROFILE,
+  type AthleteProfile,
+} from '@/lib/phys/training-load';
+import type { BestEffort, RaceDistance } from '@/lib/phys/best-efforts';
 
 /**
  * Maps Strava activity types to our workout types
@@ -30,23 +37,9 @@ export function mapStravaTypeToWorkoutType(stravaType: string): string {
   return typeMap[stravaType] || 'other';
 }
 
-/**
- * Estimates workout intensity based on average heart rate
- * This is a simplified estimation - actual intensity depends on individual max HR
- */
-export function estimateIntensity(averageHR?: number): 'low' | 'moderate' | 'high' | 'max' | undefined {
-  if (!averageHR) return undefined;
-
-  // Rough zones based on typical HR ranges (assuming max HR ~190)
-  if (averageHR < 130) return 'low';
-  if (averageHR < 150) return 'moderate';
-  if (averageHR < 170) return 'high';
-  return 'max';
-}
-
 /**
  * Calculates perceived effort based on pace and elevation
- * This is a heuristic - perceived effort is subjective
+ * This is a heuristic for activities without heart rate - perceived effort is subjective
  */
 export function estimatePerceivedEffort(
   avgSpeed?: number,
@@ -80,9 +73,14 @@ export function estimatePerceivedEffort(
 }
 
 /**
- * Transforms a Strava activity into our workout format
+ * Transforms a Strava activity into our workout format.
+ * Intensity, TRIMP and HR zone are derived from heart rate (or power) using
+ * the athlete profile.
  */
-export function transformStravaActivityToWorkout(activity: StravaActivity): WorkoutUpsert {
+export function transformStravaActivityToWorkout(
+  activity: StravaActivity,
+  athlete: AthleteProfile = DEFAULT_ATHLETE_PROFILE
+): WorkoutUpsert {
   const workoutType = mapStravaTypeToWorkoutType(activity.type);
   const durationMin = Math.round(activity.moving_time / 60);
   const dateLocal = activity.start_date_local.split('T')[0];
@@ -112,29 +110,58 @@ export function transformStravaActivityToWorkout(activity: StravaActivity): Work
     details.pace_sec_per_km = Math.round(paceSecPerKm);
   }
 
-  // Calculate average power for cycling (if available)
-  if ('average_watts' in activity && typeof activity.average_watts === 'number') {
-    details.avg_watts = activity.average_watts;
-  }
-
-  const intensity = estimateIntensity(activity.average_heartrate);
-  const perceivedEffort = estimatePerceivedEffort(
-    activity.average_speed,
-    activity.total_elevation_gain,
-    activity.moving_time
+  // Average power for cycling (if available)
+  if (activity.average_watts) details.avg_watts = activity.average_watts;
+
+  const perceivedEffort = activity.average_heartrate
+    ? effortFromHeartRate(activity.average_heartrate, athlete)
+    : estimatePerceivedEffort(
+        activity.average_speed,
+        activity.total_elevation_gain,
+        activity.moving_time
+      );
+
+  return applyTrainingLoad(
+    {
+      date: dateLocal,
+      workout_type: workoutType as WorkoutUpsert['workout_type'],
+      duration_min: durationMin,
+      perceived_effort: perceivedEffort,
+      details,
+      notes: activity.description || undefined,
+      source: 'strava',
+      external_id: activity.id.toString(),
+    },
+    athlete
   );
+}
 
-  return {
-    date: dateLocal,
-    workout_type: workoutType as WorkoutUpsert['workout_type'],
-    duration_min: durationMin,
-    intensity,
-    perceived_effort: perceivedEffort,
-    details,
-    notes: activity.description || undefined,
-    source: 'strava',
-    external_id: activity.id.toString(),
-  };
+// Strava best effort names for our standard distances (others, e.g. "1 mile", are ignored)
+const STRAVA_BEST_EFFORTS: Record<string, RaceDistance> = {
+  '1k': '1k',
+  '5k': '5k',
+  '10k': '10k',
+  'Half-Marathon': 'half',
+  'Marathon': 'marathon',
+};
+
+/**
+ * Maps the best efforts of a detailed Strava run to our standard distances
+ */
+export function transformStravaBestEfforts(activity: StravaActivity): BestEffort[] {
+  const start = Date.parse(activity.start_date);
+
+  return (activity.best_efforts ?? []).flatMap((effort) => {
+    const distance = STRAVA_BEST_EFFORTS[effort.name];
+    if (!distance || effort.elapsed_time <= 0) return [];
+
+    const offset = effort.start_date ? (Date.parse(effort.start_date) - start) / 1000 : NaN;
+    return [{
+      distance,
+      elapsed_s: Math.round(effort.elapsed_time),
+      start_offset_s: Number.isFinite(offset) ? Math.round(offset) : null,
+    }];
+  });
 }
 
 /**
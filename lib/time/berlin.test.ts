@@ -4,6 +4,7 @@ import {
   startOfBerlinDayISO,
   endOfBerlinDayISO,
   prevBerlinDateKey,
+  nextBerlinDateKey,
   berlinDateTimeToUTCISO,
   isoToBerlinDate,
 } from './berlin';
@@ -97,6 +98,22 @@ describe('berlin time utilities', () => {
     });
   });
 
+  describe('nextBerlinDateKey', () => {
+    it('should return next day in YYYY-MM-DD format', () => {
+      expect(nextBerlinDateKey('2024-01-15')).toBe('2024-01-16');
+    });
+
+    it('should handle month and year boundaries', () => {
+      expect(nextBerlinDateKey('2024-02-29')).toBe('2024-03-01');
+      expect(nextBerlinDateKey('2023-12-31')).toBe('2024-01-01');
+    });
+
+    it('should handle DST transitions', () => {
+      expect(nextBerlinDateKey('2024-03-30')).toBe('2024-03-31');
+      expect(nextBerlinDateKey('2024-10-27')).toBe('2024-10-28');
+    });
+  });
+
   describe('berlinDateTimeToUTCISO', () => {
     it('should convert Berlin wall-clock time to UTC ISO string', () => {
       const result = berlinDateTimeToUTCISO('2024-01-15', '14:30');
@@ -63,6 +63,13 @@ export function prevBerlinDateKey(ymd: string): string {
   return toBerlinYMD(prev);
 }
 
+/** Return the following calendar date key (YYYY-MM-DD, Berlin). */
+export function nextBerlinDateKey(ymd: string): string {
+  const d = new Date(`${ymd}T12:00:00.000Z`);
+  const next = addBerlinDays(d, 1);
+  return toBerlinYMD(next);
+}
+
 // -------------------------------------------------------------
 // Public Date helpers
 // -------------------------------------------------------------
@@ -1,5 +1,8 @@
 // lib/user/profile.ts
-import { getBodyProfileDB } from "@/lib/db/profile";
+import { getAthleteProfileDB, getBodyProfileDB } from "@/lib/db/profile";
+import { DEFAULT_ATHLETE_PROFILE, type AthleteProfile } from "@/lib/phys/training-load";
+
+export type { AthleteProfile };
 
 export type BodyProfile = {
   weight_kg: number;
@@ -50,3 +53,22 @@ export async function getBodyProfile(): Promise<BodyProfile> {
     return envFallback();
   }
 }
+
+/**
+ * Athlete profile with defaults for unset thresholds (max HR 190, resting HR 60)
+ */
+export async function getAthleteProfile(): Promise<AthleteProfile> {
+  try {
+    const db = await getAthleteProfileDB();
+    if (!db) return DEFAULT_ATHLETE_PROFILE;
+    return {
+      max_hr: db.max_hr ?? DEFAULT_ATHLETE_PROFILE.max_hr,
+      resting_hr: db.resting_hr ?? DEFAULT_ATHLETE_PROFILE.resting_hr,
+      lthr: db.lthr,
+      ftp_w: db.ftp_w,
+      sex: db.sex,
+    };
+  } catch {
+    return DEFAULT_ATHLETE_PROFILE;
+  }
+}
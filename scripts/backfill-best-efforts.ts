@@ -0,0 +1,45 @@
+/**
+ * Compute best efforts (1k to marathon) for runs imported before
+ * workout_best_efforts existed, from their stored streams
+ *
+ * Run with: pnpm workouts:best-efforts
+ *
+ * Safe to run repeatedly: Strava-reported efforts are never replaced.
+ */
+
+import "./load-env"; // Load environment variables first
+import { sql } from "../lib/db/client";
+import { getWorkoutStreamsDB } from "../lib/db/workout-streams";
+import { saveBestEffortsDB } from "../lib/db/best-efforts";
+import { bestEffortsFromStreams } from "../lib/phys/best-efforts";
+
+async function main() {
+  const rows = await sql`
+    SELECT w.id
+    FROM workouts w
+    JOIN workout_streams s ON s.workout_id = w.id
+    WHERE w.workout_type = 'running'
+      AND s.distance_m IS NOT NULL
+    ORDER BY w.date
+  `;
+
+  console.log(`🏃 Computing best efforts for ${rows.length} runs with streams...\n`);
+
+  let withEfforts = 0;
+  for (const row of rows) {
+    const workoutId = Number(row.id);
+    const streams = await getWorkoutStreamsDB(workoutId);
+    if (!streams) continue;
+
+    const efforts = bestEffortsFromStreams(streams);
+    await saveBestEffortsDB(workoutId, efforts, "streams");
+    if (efforts.length > 0) withEfforts++;
+  }
+
+  console.log(`🎉 Done: ${withEfforts} of ${rows.length} runs cover at least 1 km`);
+}
+
+main().catch((error) => {
+  console.error("\n❌ Failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,93 @@
+/**
+ * Encrypt Strava tokens stored in plaintext and rotate encryption keys
+ *
+ * Run with: pnpm strava:encrypt-tokens
+ *
+ * - After applying migration 022: encrypts existing rows with TOKEN_ENCRYPTION_KEY
+ * - Key rotation: move the old key to TOKEN_ENCRYPTION_PREVIOUS_KEYS, set a new
+ *   TOKEN_ENCRYPTION_KEY (deploy both), then run this script to rewrap each
+ *   row's data key with the new key. Afterwards the old key can be removed.
+ *
+ * Safe to run repeatedly: rows already under the current key are skipped.
+ */
+
+import "./load-env"; // Load environment variables first
+import { neon } from "@neondatabase/serverless";
+import { getKeyring, rewrapSecrets } from "../lib/auth/encryption";
+
+type AuthRow = {
+  athlete_id: number;
+  access_token: string;
+  refresh_token: string;
+  token_key_id: string | null;
+  token_data_key: string | null;
+};
+
+async function main() {
+  if (!process.env.DATABASE_URL) {
+    console.error("❌ DATABASE_URL environment variable is not set");
+    process.exit(1);
+  }
+
+  const keyring = await getKeyring();
+  if (!keyring.current) {
+    console.error("❌ TOKEN_ENCRYPTION_KEY is not set (64 hex characters, e.g. `openssl rand -hex 32`)");
+    process.exit(1);
+  }
+
+  const sql = neon(process.env.DATABASE_URL);
+  console.log(`🔐 Encrypting Strava tokens with key ${keyring.current.id}...\n`);
+
+  const rows = (await sql`
+    SELECT athlete_id, access_token, refresh_token, token_key_id, token_data_key
+    FROM strava_auth
+  `) as AuthRow[];
+
+  let updated = 0;
+  for (const row of rows) {
+    const sealed = await rewrapSecrets(
+      {
+        values: { access_token: row.access_token, refresh_token: row.refresh_token },
+        keyId: row.token_key_id,
+        dataKey: row.token_data_key,
+      },
+      keyring
+    );
+
+    if (!sealed) {
+      console.log(`   ⏭  Athlete ${row.athlete_id}: already under the current key`);
+      continue;
+    }
+
+    // Only update if the row was not changed (e.g. by a token refresh) meanwhile
+    const result = await sql`
+      UPDATE strava_auth
+      SET
+        access_token = ${sealed.values.access_token},
+        refresh_token = ${sealed.values.refresh_token},
+        token_key_id = ${sealed.keyId},
+        token_data_key = ${sealed.dataKey}
+      WHERE athlete_id = ${row.athlete_id}
+        AND token_key_id IS NOT DISTINCT FROM ${row.token_key_id}
+        AND access_token = ${row.access_token}
+      RETURNING athlete_id
+    `;
+
+    if (result.length === 0) {
+      console.log(`   ⚠️  Athlete ${row.athlete_id}: changed meanwhile, run again`);
+      continue;
+    }
+
+    updated++;
+    console.log(
+      `   ✅ Athlete ${row.athlete_id}: ${row.token_key_id ? `rewrapped (was ${row.token_key_id})` : "encrypted"}`
+    );
+  }
+
+  console.log(`\n🎉 Done: ${updated} of ${rows.length} rows updated`);
+}
+
+main().catch((error) => {
+  console.error("\n❌ Failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
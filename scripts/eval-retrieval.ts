@@ -0,0 +1,151 @@
+/**
+ * Evaluate chat retrieval against a fixture of questions and the sources
+ * they should find, for each retrieval mode (vector, lexical, hybrid, hybrid + MMR)
+ *
+ * Run with: pnpm ai:eval [--k=5] [--lambda=0.7] [--fixture=path] [--verbose]
+ *
+ * Runs offline against a local Postgres holding chat_embeddings (restored from
+ * a dump or indexed with pnpm ai:index), reached through local-neon-http-proxy
+ * (see docs/ai-chat.md). Question embeddings are cached next to the fixture;
+ * only questions missing from the cache need AI_GATEWAY_API_KEY. Without
+ * embeddings only lexical search is evaluated.
+ */
+
+import "./load-env"; // Load environment variables first
+import fs from "fs";
+import path from "path";
+import { neonConfig } from "@neondatabase/serverless";
+import { generateEmbeddingsBatch } from "../lib/ai/embeddings";
+import { retrieveRelevantContext, type RetrievalOptions } from "../lib/db/embeddings";
+import type { EmbeddingMetadata } from "../lib/db/models";
+
+interface EvalCase {
+  question: string;
+  /** Source keys: blog:<slug> or knowledge:<file> */
+  expected: string[];
+}
+
+interface EvalConfig {
+  name: string;
+  options: RetrievalOptions;
+  needsEmbedding: boolean;
+}
+
+const args = new Map(
+  process.argv.slice(2).map((arg) => {
+    const [key, value = "true"] = arg.replace(/^--/, "").split("=");
+    return [key, value] as const;
+  })
+);
+
+const K = Number(args.get("k") ?? 5);
+const LAMBDA = Number(args.get("lambda") ?? 0.7);
+const VERBOSE = args.has("verbose");
+const FIXTURE = path.resolve(args.get("fixture") ?? "scripts/fixtures/retrieval-eval.json");
+const EMBEDDING_CACHE = FIXTURE.replace(/\.json$/, ".embeddings.json");
+
+const CONFIGS: EvalConfig[] = [
+  { name: "vector", options: { mode: "vector" }, needsEmbedding: true },
+  { name: "lexical", options: { mode: "lexical" }, needsEmbedding: false },
+  { name: "hybrid", options: { mode: "hybrid" }, needsEmbedding: true },
+  { name: `hybrid + mmr(${LAMBDA})`, options: { mode: "hybrid", mmrLambda: LAMBDA }, needsEmbedding: true },
+];
+
+function sourceKey(metadata: EmbeddingMetadata): string {
+  return metadata.source === "blog" ? `blog:${metadata.slug}` : `knowledge:${metadata.file}`;
+}
+
+/**
+ * Local Postgres has no Neon HTTP endpoint; local-neon-http-proxy serves one on port 4444
+ */
+function configureLocalProxy() {
+  const host = new URL(process.env.DATABASE_URL!).hostname;
+  if (["db.localtest.me", "localhost", "127.0.0.1"].includes(host)) {
+    neonConfig.fetchEndpoint = (endpointHost) => `http://${endpointHost}:4444/sql`;
+    console.log(`🔌 Using local-neon-http-proxy at ${host}:4444`);
+  }
+}
+
+/**
+ * Question embeddings from the cache, embedding any missing ones if an API key is set
+ */
+async function loadQuestionEmbeddings(questions: string[]): Promise<Map<string, number[]>> {
+  const cache: Record<string, number[]> = fs.existsSync(EMBEDDING_CACHE)
+    ? JSON.parse(fs.readFileSync(EMBEDDING_CACHE, "utf8"))
+    : {};
+
+  const missing = questions.filter((q) => !cache[q]);
+  if (missing.length > 0 && process.env.AI_GATEWAY_API_KEY) {
+    console.log(`🧮 Embedding ${missing.length} new questions...`);
+    const embeddings = await generateEmbeddingsBatch(missing);
+    missing.forEach((q, i) => (cache[q] = embeddings[i]));
+    fs.writeFileSync(EMBEDDING_CACHE, `${JSON.stringify(cache)}\n`);
+    console.log(`   ✅ Cached in ${path.relative(process.cwd(), EMBEDDING_CACHE)}`);
+  } else if (missing.length > 0) {
+    console.warn(`⚠️  ${missing.length} questions have no cached embedding and AI_GATEWAY_API_KEY is not set`);
+  }
+
+  return new Map(questions.filter((q) => cache[q]).map((q) => [q, cache[q]]));
+}
+
+async function main() {
+  if (!process.env.DATABASE_URL) {
+    console.error("❌ DATABASE_URL environment variable is not set");
+    process.exit(1);
+  }
+  configureLocalProxy();
+
+  const { cases } = JSON.parse(fs.readFileSync(FIXTURE, "utf8")) as { cases: EvalCase[] };
+  const embeddings = await loadQuestionEmbeddings(cases.map((c) => c.question));
+
+  console.log(`\n🔎 Evaluating ${cases.length} questions at k=${K}\n`);
+
+  const summary = [];
+  for (const config of CONFIGS) {
+    const runnable = cases.filter((c) => !config.needsEmbedding || embeddings.has(c.question));
+    if (runnable.length === 0) {
+      console.log(`   Skipping ${config.name}: no question embeddings`);
+      continue;
+    }
+
+    let hits = 0;
+    let reciprocalRanks = 0;
+    let distinctSources = 0;
+
+    for (const evalCase of runnable) {
+      const results = await retrieveRelevantContext(
+        { text: evalCase.question, embedding: embeddings.get(evalCase.question) },
+        { ...config.options, limit: K }
+      );
+      const keys = results.map((r) => sourceKey(r.metadata));
+      const rank = keys.findIndex((key) => evalCase.expected.includes(key)) + 1;
+
+      if (rank > 0) {
+        hits++;
+        reciprocalRanks += 1 / rank;
+      }
+      distinctSources += new Set(keys).size;
+
+      if (VERBOSE) {
+        console.log(`   [${config.name}] ${rank > 0 ? `✅ #${rank}` : "❌"} ${evalCase.question}`);
+        if (rank === 0) console.log(`      expected ${evalCase.expected.join(", ")}, got ${keys.join(", ") || "nothing"}`);
+      }
+    }
+
+    summary.push({
+      mode: config.name,
+      questions: runnable.length,
+      [`recall@${K}`]: (hits / runnable.length).toFixed(2),
+      mrr: (reciprocalRanks / runnable.length).toFixed(2),
+      "distinct sources": (distinctSources / runnable.length).toFixed(1),
+    });
+  }
+
+  console.log();
+  console.table(summary);
+}
+
+main().catch((error) => {
+  console.error("\n❌ Evaluation failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -8,11 +8,12 @@
  */
 
 import "./load-env"; // Load environment variables first
-import { generateEmbeddingsBatch, chunkText } from "../lib/ai/embeddings";
+import { generateEmbeddingsBatch } from "../lib/ai/embeddings";
+import { blogPostDocuments, knowledgeBaseDocuments, type IndexDocument } from "../lib/ai/chunking";
 import { insertEmbeddingsBatch, deleteEmbeddingsBySource, getEmbeddingStats } from "../lib/db/embeddings";
 import { fetchGraphQLForScript } from "../lib/contentful/api/script-api";
 import { KNOWLEDGE_BASE_GRAPHQL_FIELDS } from "../lib/contentful/api/props/knowledge-base";
-import type { EmbeddingMetadata } from "../lib/db/models";
+import type { Document } from "@contentful/rich-text-types";
 
 // Simplified fields for indexing (to avoid complex query errors)
 const BLOG_INDEX_FIELDS = `
@@ -23,20 +24,18 @@ const BLOG_INDEX_FIELDS = `
   slug
   summary
   seoDescription
+  details {
+    json
+  }
 `;
 
-interface DocumentToIndex {
-  content: string;
-  metadata: EmbeddingMetadata;
-}
-
 /**
  * Index knowledge base from Contentful
  */
-async function indexKnowledgeBase(): Promise<DocumentToIndex[]> {
+async function indexKnowledgeBase(): Promise<IndexDocument[]> {
   console.log("\n📚 Indexing knowledge base from Contentful...");
 
-  const documents: DocumentToIndex[] = [];
+  const documents: IndexDocument[] = [];
 
   const query = `query {
     knowledgeBaseCollection(order: order_ASC, preview: false) {
@@ -57,21 +56,11 @@ async function indexKnowledgeBase(): Promise<DocumentToIndex[]> {
     const category = (item.category as string) || "";
     const content = (item.content as string) || "";
 
-    // Chunk the content for better retrieval
-    const chunks = chunkText(content, 1000);
+    // Chunk by section of the markdown content
+    const chunks = knowledgeBaseDocuments({ slug, title, content });
 
     console.log(`   📄 ${title} (${category}): ${chunks.length} chunks`);
-
-    for (let i = 0; i < chunks.length; i++) {
-      documents.push({
-        content: chunks[i],
-        metadata: {
-          source: "knowledge",
-          file: `${slug}.md`, // Keep backward compatible metadata
-          title: `${title} (part ${i + 1}/${chunks.length})`,
-        },
-      });
-    }
+    documents.push(...chunks);
   }
 
   console.log(`   ✅ ${documents.length} knowledge base chunks prepared`);
@@ -81,15 +70,15 @@ async function indexKnowledgeBase(): Promise<DocumentToIndex[]> {
 /**
  * Index blog posts from Contentful
  */
-async function indexBlogPosts(): Promise<DocumentToIndex[]> {
+async function indexBlogPosts(): Promise<IndexDocument[]> {
   console.log("\n📝 Indexing blog posts...");
 
-  const documents: DocumentToIndex[] = [];
+  const documents: IndexDocument[] = [];
 
   // Fetch all blogs (paginated)
   let page = 1;
   let hasMore = true;
-  const limit = 100; // Fetch in batches
+  const limit = 25; // Fetch in batches (rich-text bodies make pages large)
 
   while (hasMore) {
     console.log(`   Fetching page ${page}...`);
@@ -131,23 +120,10 @@ async function indexBlogPosts(): Promise<DocumentToIndex[]> {
       const seoDescription = (blog.seoDescription as string) || "";
       const slug = (blog.slug as string) || "";
 
-      // Combine into searchable content
-      const content = `Title: ${title}\n\nSummary: ${summary}\n\nDescription: ${seoDescription}`.trim();
-
-      // Chunk if content is very long
-      const chunks = chunkText(content, 1500);
-
-      for (let i = 0; i < chunks.length; i++) {
-        documents.push({
-          content: chunks[i],
-          metadata: {
-            source: "blog",
-            slug: slug,
-            title: title,
-            url: `https://cr0ss.org/blog/${slug}`,
-          },
-        });
-      }
+      const body = (blog.details as { json?: Document } | undefined)?.json ?? null;
+
+      // Summary first, then the rich-text body by section
+      documents.push(...blogPostDocuments({ slug, title, summary, seoDescription, body }));
     }
 
     console.log(`   Page ${page}: ${result.items.length} posts`);
@@ -105,6 +105,27 @@ async function main() {
       console.error("   ⚠️  Metadata index:", error instanceof Error ? error.message : String(error));
     }
 
+    // Statement 5: Full-text search for hybrid retrieval (see db/migrations/025_chat_embeddings_fts.sql)
+    try {
+      await sql`
+        ALTER TABLE chat_embeddings
+          ADD COLUMN IF NOT EXISTS content_tsv tsvector
+            GENERATED ALWAYS AS (
+              setweight(to_tsvector('english', coalesce(metadata->>'title', '')), 'A') ||
+              setweight(to_tsvector('english', content), 'B')
+            ) STORED
+      `;
+      await sql`
+        CREATE INDEX IF NOT EXISTS chat_embeddings_content_tsv_idx
+          ON chat_embeddings
+          USING gin (content_tsv)
+      `;
+      console.log("   ✅ Full-text search column and index created");
+    } catch (error) {
+      console.error("   ❌ Failed to create full-text search column:", error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+
     console.log("✅ Migration complete\n");
 
     // 3. Verify table exists